@@ -0,0 +1,178 @@
+// Threads Studio - モックThreads APIのフィクスチャ
+// シードを固定した乱数で生成するため、同じシードなら毎回同じデータになる
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// mulberry32（シード付きの簡易乱数）
+export function createRandom(seed) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const pick = (random, items) => items[Math.floor(random() * items.length)];
+const between = (random, min, max) => Math.floor(min + random() * (max - min + 1));
+
+export const USERS = [
+  {
+    id: '17841400000000001',
+    username: 'studio_demo',
+    name: 'Threads Studio デモ',
+    threads_biography: 'SNS運用のコツを毎日発信しています📱 | 平日7時・12時・21時に投稿',
+    followers_count: 1840,
+  },
+  {
+    id: '17841400000000002',
+    username: 'cafe_tokyo_daily',
+    name: '東京カフェ日記',
+    threads_biography: '都内のカフェを巡って紹介しています☕',
+    followers_count: 5230,
+  },
+  {
+    id: '17841400000000003',
+    username: 'marketing_tips_jp',
+    name: 'マーケティングTips',
+    threads_biography: '中小企業向けのマーケティング情報',
+    followers_count: 12800,
+  },
+];
+
+const POST_TEXTS = [
+  'おはようございます☀️ 今日も一日がんばりましょう！',
+  '投稿は「最初の1行」で読まれるかが決まります。結論から書くのがおすすめ。',
+  'フォロワーが増えない時期こそ、過去の反応が良かった投稿を見直すチャンス。',
+  '新しいテンプレートを作りました。保存しておくと便利です📝',
+  '朝の投稿と夜の投稿、どちらが伸びるか1か月試した結果をまとめます🧵',
+  'ハッシュタグは多ければいいわけではありません。#SNS運用 #Threads',
+  '今日のランチ🍝 近所の新しいお店に行ってきました',
+  'リプライをくれた方にはできるだけ返信しています。いつもありがとうございます🙏',
+  '週末は投稿をお休みして、来週の予約投稿をまとめて作ります。',
+  '質問：みなさんは1日何回投稿していますか？',
+  'インサイトを見ると、保存される投稿には共通点がありました。',
+  '画像付きの投稿はテキストだけの投稿より閲覧数が1.4倍でした📊',
+  '「続きはリプ欄で」はスレッド形式の方が読みやすいです。',
+  '今月の振り返り：フォロワー+120、平均エンゲージメント率4.2%',
+  'カフェで作業中☕ 今日は企画を3本考えます',
+];
+
+const REPLY_TEXTS = [
+  '参考になります！',
+  'いつも勉強になります🙏',
+  '保存しました📌',
+  'これ試してみます！',
+  '詳しく知りたいです',
+  'わかります、うちも同じでした',
+  '朝派です☀️',
+  '夜の方が伸びる気がします',
+  'ありがとうございます！',
+  '質問です、画像はどのサイズがいいですか？',
+];
+
+const REPLY_USERNAMES = ['yuki_design', 'sato_marketing', 'hana.cafe', 'kenji_dev', 'mio_shop', 'taro_writer', 'aya_photo'];
+
+// 投稿が多い時間帯（朝・昼・夜）
+const POSTING_HOURS = [7, 7, 8, 8, 12, 12, 13, 18, 20, 21, 21, 22];
+
+function createPost(random, user, at, index) {
+  const roll = random();
+  const mediaType = roll < 0.65 ? 'TEXT_POST' : roll < 0.88 ? 'IMAGE' : roll < 0.95 ? 'CAROUSEL_ALBUM' : 'VIDEO';
+  const id = `18${user.id.slice(-2)}${at.getTime()}${String(index).padStart(3, '0')}`;
+
+  // 閲覧数は対数正規分布に近い形にし、フォロワー数と時間帯で補正
+  const hourBoost = [7, 8, 12, 21].includes(at.getHours()) ? 1.3 : 1;
+  const mediaBoost = mediaType === 'TEXT_POST' ? 1 : 1.4;
+  const views = Math.round(Math.exp(4.5 + random() * 2.5) * (user.followers_count / 1800) * hourBoost * mediaBoost);
+  const likes = Math.round(views * (0.02 + random() * 0.05));
+
+  return {
+    id,
+    ownerId: user.id,
+    media_type: mediaType,
+    media_url: mediaType === 'TEXT_POST' ? undefined : `https://picsum.photos/seed/${id}/1080/1350`,
+    permalink: `https://www.threads.net/@${user.username}/post/${id}`,
+    text: pick(random, POST_TEXTS),
+    timestamp: at.toISOString(),
+    username: user.username,
+    like_count: likes,
+    reply_count: 0,
+    repost_count: Math.round(likes * random() * 0.15),
+    quote_count: Math.round(likes * random() * 0.05),
+    shares: Math.round(likes * random() * 0.1),
+    views,
+    is_quote_post: random() < 0.03,
+    replyIds: [],
+  };
+}
+
+function createReply(random, post, at, index) {
+  return {
+    id: `${post.id}r${index}`,
+    ownerId: null,
+    rootId: post.id,
+    parentId: post.id,
+    text: pick(random, REPLY_TEXTS),
+    timestamp: at.toISOString(),
+    username: pick(random, REPLY_USERNAMES),
+    like_count: between(random, 0, 12),
+    reply_count: 0,
+    replyIds: [],
+  };
+}
+
+// 過去 days 日分の投稿とリプライを生成
+// 戻り値: { users, media: Map<id, post|reply>, postsByUser: Map<userId, id[]>（新しい順） }
+export function createFixtures({ seed = 42, now = new Date(), days = 90 } = {}) {
+  const random = createRandom(seed);
+  const media = new Map();
+  const postsByUser = new Map();
+
+  for (const [userIndex, user] of USERS.entries()) {
+    const count = userIndex === 0 ? 120 : 30;
+    const ids = [];
+
+    for (let i = 0; i < count; i++) {
+      const at = new Date(now.getTime() - random() * days * DAY_MS);
+      at.setHours(pick(random, POSTING_HOURS), between(random, 0, 59), between(random, 0, 59), 0);
+      if (at > now) at.setTime(at.getTime() - DAY_MS);
+
+      const post = createPost(random, user, at, i);
+      const replyCount = random() < 0.3 ? 0 : between(random, 1, 6);
+      for (let r = 0; r < replyCount; r++) {
+        const reply = createReply(random, post, new Date(at.getTime() + between(random, 1, 600) * 60 * 1000), r);
+        if (new Date(reply.timestamp) > now) continue;
+        media.set(reply.id, reply);
+        post.replyIds.push(reply.id);
+      }
+      post.reply_count = post.replyIds.length;
+
+      media.set(post.id, post);
+      ids.push(post.id);
+    }
+
+    ids.sort((a, b) => media.get(b).timestamp.localeCompare(media.get(a).timestamp));
+    postsByUser.set(user.id, ids);
+  }
+
+  return {
+    users: USERS.map(user => ({ ...user })),
+    media,
+    postsByUser,
+  };
+}
+
+// フォロワー属性（フォロワー数に上位の項目ごとの割合を掛けた値）
+export function getDemographics(breakdown, followers) {
+  const shares = {
+    country: [['JP', 0.78], ['US', 0.06], ['KR', 0.04], ['TW', 0.04], ['TH', 0.03], ['GB', 0.02]],
+    city: [['Tokyo, Japan', 0.34], ['Osaka, Japan', 0.12], ['Yokohama, Japan', 0.07], ['Nagoya, Japan', 0.05], ['Fukuoka, Japan', 0.05], ['Sapporo, Japan', 0.03]],
+    age: [['18-24', 0.18], ['25-34', 0.37], ['35-44', 0.25], ['45-54', 0.12], ['55-64', 0.06], ['65+', 0.02]],
+    gender: [['F', 0.58], ['M', 0.38], ['U', 0.04]],
+  }[breakdown] ?? [];
+
+  return shares.map(([key, share]) => ({ dimension_values: [key], value: Math.round(followers * share) }));
+}
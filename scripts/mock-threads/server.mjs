@@ -0,0 +1,712 @@
+// Threads Studio - 開発用のモックThreads Graph API
+//
+// 起動: npm run mock:threads
+// アプリ側の設定（.env.local）:
+//   THREADS_API_BASE_URL=http://localhost:4010
+//   THREADS_AUTH_URL=http://localhost:4010/oauth/authorize
+//
+// 環境変数:
+//   MOCK_THREADS_PORT         ポート（既定: 4010）
+//   MOCK_SEED                 フィクスチャの乱数シード（既定: 42）
+//   MOCK_LATENCY_MS           すべてのレスポンスに加える遅延
+//   MOCK_FAILURE_RATE         一時的なエラー（code 2）を返す確率 0〜1
+//   MOCK_CONTAINER_DELAY_MS   コンテナが FINISHED になるまでの時間（既定: 1500、動画は4倍）
+//   MOCK_POST_QUOTA / MOCK_REPLY_QUOTA  24時間あたりの公開上限（既定: 250 / 1000）
+//
+// アクセストークン:
+//   mock-token-<ユーザーID> でそのユーザーとして扱う（それ以外の文字列は studio_demo）
+//   invalid / expired で始まるトークンは code 190 のエラー
+//
+// テスト用の操作（/__mock）:
+//   GET    /__mock/state      現在の状態
+//   POST   /__mock/reset      フィクスチャを作り直す
+//   POST   /__mock/failures   { kind, match?, method?, times?, retryAfter?, hangMs? } 次のリクエストを失敗させる
+//                             kind: auth | rate_limit | permission | not_found | invalid_request | transient | timeout
+//   DELETE /__mock/failures   失敗の予約をすべて解除
+//   POST   /__mock/replies    { postId?, text?, username? } 自分の投稿にリプライが届いたことにする
+
+import { createServer } from 'node:http';
+import { createFixtures, getDemographics } from './fixtures.mjs';
+
+const PORT = Number(process.env.MOCK_THREADS_PORT || 4010);
+const SEED = Number(process.env.MOCK_SEED || 42);
+const LATENCY_MS = Number(process.env.MOCK_LATENCY_MS || 0);
+const FAILURE_RATE = Number(process.env.MOCK_FAILURE_RATE || 0);
+const CONTAINER_DELAY_MS = Number(process.env.MOCK_CONTAINER_DELAY_MS || 1500);
+const POST_QUOTA = Number(process.env.MOCK_POST_QUOTA || 250);
+const REPLY_QUOTA = Number(process.env.MOCK_REPLY_QUOTA || 1000);
+const REPLY_CONTROLS = ['everyone', 'accounts_you_follow', 'mentioned_only'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const LONG_LIVED_EXPIRES_IN = 60 * 24 * 60 * 60;
+
+let state;
+
+function reset() {
+  state = {
+    ...createFixtures({ seed: SEED }),
+    containers: new Map(),
+    published: [], // { at, isReply }（公開クォータの計算用）
+    failures: [],
+    sequence: 0,
+  };
+}
+
+reset();
+
+// ===================================
+// レスポンス
+// ===================================
+
+class GraphError extends Error {
+  constructor(status, message, { code, subcode, type = 'OAuthException', isTransient, headers } = {}) {
+    super(message);
+    this.status = status;
+    this.code = code;
+    this.subcode = subcode;
+    this.type = type;
+    this.isTransient = isTransient;
+    this.headers = headers ?? {};
+  }
+}
+
+const ERRORS = {
+  auth: () => new GraphError(400, 'Error validating access token: Session has expired.', { code: 190, subcode: 463 }),
+  rate_limit: (retryAfter) => new GraphError(400, 'Application request limit reached', {
+    code: 4,
+    headers: retryAfter !== undefined
+      ? { 'Retry-After': String(retryAfter) }
+      : { 'x-business-use-case-usage': JSON.stringify({ mock: [{ type: 'threads', call_count: 100, estimated_time_to_regain_access: 1 }] }) },
+  }),
+  permission: () => new GraphError(403, 'Application does not have permission for this action', { code: 10 }),
+  not_found: () => new GraphError(404, 'Object does not exist, cannot be loaded due to missing permissions, or does not support this operation', { code: 100, subcode: 33, type: 'GraphMethodException' }),
+  invalid_request: () => new GraphError(400, 'Invalid parameter', { code: 100 }),
+  transient: () => new GraphError(500, 'An unexpected error has occurred. Please retry your request later.', { code: 2, isTransient: true }),
+};
+
+function send(res, status, body, headers = {}) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'x-fb-trace-id': `mock${(++state.sequence).toString(36)}`,
+    ...headers,
+  });
+  res.end(JSON.stringify(body));
+}
+
+function sendError(res, error) {
+  send(res, error.status, {
+    error: {
+      message: error.message,
+      type: error.type,
+      code: error.code,
+      ...(error.subcode !== undefined && { error_subcode: error.subcode }),
+      ...(error.isTransient && { is_transient: true }),
+      fbtrace_id: `mock${state.sequence.toString(36)}`,
+    },
+  }, error.headers);
+}
+
+const sleep = ms => new Promise(resolve => setTimeout(resolve, ms));
+
+// fields パラメータで指定された項目だけを返す
+function selectFields(object, fields, defaults) {
+  const names = (fields || defaults).split(',').map(f => f.trim()).filter(Boolean);
+  const result = {};
+  for (const name of names) {
+    if (object[name] !== undefined) result[name] = object[name];
+  }
+  return result;
+}
+
+function paginate(items, query, defaultLimit = 25) {
+  const limit = Math.min(Number(query.get('limit') || defaultLimit), 100);
+  const offset = query.get('after') ? Number(Buffer.from(query.get('after'), 'base64url').toString()) : 0;
+  const page = items.slice(offset, offset + limit);
+  const end = offset + page.length;
+
+  return {
+    data: page,
+    paging: {
+      cursors: {
+        before: Buffer.from(String(offset)).toString('base64url'),
+        ...(end < items.length && { after: Buffer.from(String(end)).toString('base64url') }),
+      },
+    },
+  };
+}
+
+// ===================================
+// 状態
+// ===================================
+
+function nextId() {
+  return `${Date.now()}${String(++state.sequence).padStart(4, '0')}`;
+}
+
+function resolveUser(token) {
+  if (!token) throw new GraphError(400, 'An active access token must be used to query information about the current user.', { code: 2500 });
+  if (token === 'invalid' || token.startsWith('expired')) throw ERRORS.auth();
+
+  const match = token.match(/^mock-(?:token|short)-(\d+)$/);
+  return state.users.find(u => u.id === match?.[1]) ?? state.users[0];
+}
+
+function findUser(idOrMe, me) {
+  if (idOrMe === 'me') return me;
+  return state.users.find(u => u.id === idOrMe) ?? null;
+}
+
+function getMedia(id) {
+  const media = state.media.get(id);
+  if (!media) throw ERRORS.not_found();
+  return media;
+}
+
+function getContainerStatus(container, now = Date.now()) {
+  if (container.error) return 'ERROR';
+  if (container.publishedId) return 'PUBLISHED';
+  return now - container.createdAt >= container.delayMs ? 'FINISHED' : 'IN_PROGRESS';
+}
+
+function getQuotaUsage(now = Date.now()) {
+  const recent = state.published.filter(p => now - p.at < DAY_MS);
+  return {
+    posts: recent.filter(p => !p.isReply).length,
+    replies: recent.filter(p => p.isReply).length,
+  };
+}
+
+// 予約された失敗（先に登録したものから順に消費）
+function takeFailure(method, path) {
+  const index = state.failures.findIndex(f =>
+    (!f.method || f.method === method) && (!f.match || path.includes(f.match))
+  );
+  if (index === -1) return null;
+
+  const failure = state.failures[index];
+  failure.times -= 1;
+  if (failure.times <= 0) state.failures.splice(index, 1);
+  return failure;
+}
+
+// ===================================
+// Graph API
+// ===================================
+
+const MEDIA_FIELDS = 'id,media_type,permalink,text,timestamp,username';
+const REPLY_FIELDS = 'id,text,timestamp,username';
+const PROFILE_FIELDS = 'id,username';
+
+function getInsights(user, query) {
+  const metrics = (query.get('metric') || '').split(',').filter(Boolean);
+  const now = Date.now();
+  const until = query.get('until') ? Number(query.get('until')) * 1000 : now;
+  const since = query.get('since') ? Number(query.get('since')) * 1000 : until - 2 * DAY_MS;
+
+  const posts = (state.postsByUser.get(user.id) ?? []).map(id => state.media.get(id));
+  const inRange = posts.filter(p => {
+    const at = new Date(p.timestamp).getTime();
+    return at >= since && at < until;
+  });
+  const total = key => inRange.reduce((sum, p) => sum + (p[key] ?? 0), 0);
+
+  const data = metrics.map(name => {
+    const base = { name, period: name === 'views' ? 'day' : 'lifetime', id: `${user.id}/insights/${name}/lifetime` };
+
+    if (name === 'views') {
+      // 日別の閲覧数（投稿がない日もプロフィール経由の閲覧があるものとする）
+      const values = [];
+      for (let start = since; start < until; start += DAY_MS) {
+        const dayViews = posts
+          .filter(p => {
+            const at = new Date(p.timestamp).getTime();
+            return at >= start && at < start + DAY_MS;
+          })
+          .reduce((sum, p) => sum + p.views, 0);
+        values.push({ value: dayViews + Math.round(user.followers_count * 0.05), end_time: new Date(start + DAY_MS).toISOString() });
+      }
+      return { ...base, values };
+    }
+    if (name === 'followers_count') return { ...base, total_value: { value: user.followers_count } };
+    if (name === 'follower_demographics') {
+      const breakdown = query.get('breakdown');
+      if (!breakdown) throw new GraphError(400, 'The breakdown parameter is required for follower_demographics', { code: 100 });
+      if (user.followers_count < 100) throw new GraphError(400, 'Follower demographics require at least 100 followers', { code: 100 });
+      return {
+        ...base,
+        total_value: {
+          breakdowns: [{ dimension_keys: [breakdown], results: getDemographics(breakdown, user.followers_count) }],
+        },
+      };
+    }
+
+    const key = { likes: 'like_count', replies: 'reply_count', reposts: 'repost_count', quotes: 'quote_count' }[name];
+    if (!key) throw new GraphError(400, `(#100) Invalid metric: ${name}`, { code: 100 });
+    return { ...base, total_value: { value: total(key) } };
+  });
+
+  return { data };
+}
+
+function getMediaInsights(media, query) {
+  const metrics = (query.get('metric') || 'views').split(',').filter(Boolean);
+  const keys = { views: 'views', likes: 'like_count', replies: 'reply_count', reposts: 'repost_count', quotes: 'quote_count', shares: 'shares' };
+
+  return {
+    data: metrics.map(name => {
+      if (!keys[name]) throw new GraphError(400, `(#100) Invalid metric: ${name}`, { code: 100 });
+      return { name, period: 'lifetime', values: [{ value: media[keys[name]] ?? 0 }], id: `${media.id}/insights/${name}/lifetime` };
+    }),
+  };
+}
+
+function createContainer(user, params) {
+  const mediaType = params.media_type;
+  const now = Date.now();
+  const container = {
+    id: nextId(),
+    ownerId: user.id,
+    mediaType,
+    text: params.text,
+    replyToId: params.reply_to_id,
+    mediaUrl: params.image_url || params.video_url,
+    isCarouselItem: params.is_carousel_item === true || params.is_carousel_item === 'true',
+    replyControl: params.reply_control,
+    topicTag: params.topic_tag,
+    linkAttachment: params.link_attachment,
+    altText: params.alt_text,
+    quotePostId: params.quote_post_id,
+    poll: typeof params.poll_attachment === 'string' ? JSON.parse(params.poll_attachment) : params.poll_attachment,
+    children: [],
+    createdAt: now,
+    delayMs: mediaType === 'VIDEO' ? CONTAINER_DELAY_MS * 4 : CONTAINER_DELAY_MS,
+  };
+
+  if (!['TEXT', 'IMAGE', 'VIDEO', 'CAROUSEL'].includes(mediaType)) {
+    throw new GraphError(400, 'Param media_type must be one of {TEXT, IMAGE, VIDEO, CAROUSEL}', { code: 100 });
+  }
+  if (mediaType === 'TEXT' && !params.text) throw new GraphError(400, 'Param text is required for TEXT posts', { code: 100 });
+  if (params.text && params.text.length > 500) throw new GraphError(400, 'Param text must be at most 500 characters long', { code: 100 });
+  if (mediaType === 'IMAGE' && !params.image_url) throw new GraphError(400, 'Param image_url is required', { code: 100 });
+  if (mediaType === 'VIDEO' && !params.video_url) throw new GraphError(400, 'Param video_url is required', { code: 100 });
+  if (container.replyToId && !state.media.has(container.replyToId)) throw ERRORS.not_found();
+  if (container.quotePostId && (container.replyToId || !state.media.has(container.quotePostId))) {
+    throw new GraphError(400, 'Param quote_post_id must be an existing post and cannot be used with reply_to_id', { code: 100 });
+  }
+  if (container.replyControl && !REPLY_CONTROLS.includes(container.replyControl)) {
+    throw new GraphError(400, `Param reply_control must be one of {${REPLY_CONTROLS.join(', ')}}`, { code: 100 });
+  }
+  if (container.topicTag && (container.topicTag.length > 50 || /[.&]/.test(container.topicTag))) {
+    throw new GraphError(400, 'Param topic_tag is invalid', { code: 100 });
+  }
+  if ((container.poll || container.linkAttachment) && mediaType !== 'TEXT') {
+    throw new GraphError(400, 'Polls and link attachments are only supported on TEXT posts', { code: 100 });
+  }
+  if (container.poll) {
+    const options = Object.values(container.poll);
+    if (options.length < 2 || options.length > 4 || options.some(o => typeof o !== 'string' || !o || o.length > 25)) {
+      throw new GraphError(400, 'Param poll_attachment must have 2 to 4 options of at most 25 characters', { code: 100 });
+    }
+  }
+  if (container.altText && (mediaType === 'TEXT' || mediaType === 'CAROUSEL' || container.altText.length > 1000)) {
+    throw new GraphError(400, 'Param alt_text is only supported on IMAGE and VIDEO media (max 1000 characters)', { code: 100 });
+  }
+
+  if (mediaType === 'CAROUSEL') {
+    const children = String(params.children || '').split(',').filter(Boolean);
+    if (children.length < 2 || children.length > 20) {
+      throw new GraphError(400, 'Carousels must have between 2 and 20 children', { code: 100 });
+    }
+    for (const childId of children) {
+      const child = state.containers.get(childId);
+      if (!child?.isCarouselItem || getContainerStatus(child, now) !== 'FINISHED') {
+        throw new GraphError(400, `Carousel item ${childId} is not ready`, { code: 24, subcode: 4279009 });
+      }
+    }
+    container.children = children;
+  }
+
+  // URLに "fail" を含むメディアは処理に失敗したものとして扱う
+  if (container.mediaUrl?.includes('fail')) {
+    container.error = 'ERROR: The media could not be fetched from the URL';
+  }
+
+  state.containers.set(container.id, container);
+  return { id: container.id };
+}
+
+function publishContainer(user, params) {
+  const container = state.containers.get(params.creation_id);
+  if (!container || container.ownerId !== user.id) throw ERRORS.not_found();
+
+  const status = getContainerStatus(container);
+  if (status === 'PUBLISHED') throw new GraphError(400, 'The media has already been published', { code: 24, subcode: 4279010 });
+  if (status !== 'FINISHED') throw new GraphError(400, 'The media is not ready for publishing, please wait for a moment', { code: 24, subcode: 4279009 });
+  if (container.isCarouselItem) throw new GraphError(400, 'Carousel items cannot be published on their own', { code: 100 });
+
+  const isReply = Boolean(container.replyToId);
+  const usage = getQuotaUsage();
+  if (isReply ? usage.replies >= REPLY_QUOTA : usage.posts >= POST_QUOTA) {
+    throw new GraphError(400, 'The user has reached the publishing limit for the past 24 hours', { code: 4, subcode: 2207042 });
+  }
+
+  const id = nextId();
+  const now = new Date();
+  const media = {
+    id,
+    ownerId: user.id,
+    media_type: container.mediaType === 'TEXT' ? 'TEXT_POST' : container.mediaType === 'CAROUSEL' ? 'CAROUSEL_ALBUM' : container.mediaType,
+    media_url: container.mediaUrl ?? (container.children.length > 0 ? state.containers.get(container.children[0]).mediaUrl : undefined),
+    permalink: `https://www.threads.net/@${user.username}/post/${id}`,
+    text: container.text,
+    timestamp: now.toISOString(),
+    username: user.username,
+    like_count: 0,
+    reply_count: 0,
+    repost_count: 0,
+    quote_count: 0,
+    shares: 0,
+    views: 0,
+    is_quote_post: Boolean(container.quotePostId),
+    ...(container.quotePostId && { quoted_post: container.quotePostId }),
+    reply_audience: container.replyControl ?? 'everyone',
+    ...(container.topicTag && { topic_tag: container.topicTag }),
+    ...(container.linkAttachment && { link_attachment_url: container.linkAttachment }),
+    ...(container.altText && { alt_text: container.altText }),
+    ...(container.poll && { poll_attachment: container.poll }),
+    replyIds: [],
+  };
+
+  if (isReply) {
+    const parent = getMedia(container.replyToId);
+    media.parentId = parent.id;
+    media.rootId = parent.rootId ?? parent.id;
+    parent.replyIds.push(id);
+    parent.reply_count = parent.replyIds.length;
+  } else {
+    state.postsByUser.get(user.id).unshift(id);
+  }
+
+  if (container.quotePostId) {
+    const quoted = state.media.get(container.quotePostId);
+    quoted.quote_count = (quoted.quote_count ?? 0) + 1;
+  }
+
+  state.media.set(id, media);
+  container.publishedId = id;
+  state.published.push({ at: now.getTime(), isReply });
+  return { id };
+}
+
+// 投稿をリポストする（公開クォータは投稿として数える）
+function repost(user, mediaId) {
+  const original = getMedia(mediaId);
+  if (original.parentId) throw new GraphError(400, 'Replies cannot be reposted', { code: 100 });
+  if (getQuotaUsage().posts >= POST_QUOTA) {
+    throw new GraphError(400, 'The user has reached the publishing limit for the past 24 hours', { code: 4, subcode: 2207042 });
+  }
+
+  const id = nextId();
+  const now = new Date();
+  state.media.set(id, {
+    id,
+    ownerId: user.id,
+    media_type: 'REPOST_FACADE',
+    permalink: original.permalink,
+    timestamp: now.toISOString(),
+    username: user.username,
+    reposted_post: original.id,
+    replyIds: [],
+  });
+  original.repost_count = (original.repost_count ?? 0) + 1;
+  state.published.push({ at: now.getTime(), isReply: false });
+  return { id };
+}
+
+// リプライの返却用に、スレッド内の位置と所有者の項目を付ける
+function toReply(reply, me) {
+  return {
+    ...reply,
+    replied_to: { id: reply.parentId },
+    root_post: { id: reply.rootId },
+    is_reply: true,
+    is_reply_owned_by_me: reply.ownerId === me.id,
+    has_replies: reply.replyIds.length > 0,
+    hide_status: reply.hide_status ?? 'NOT_HUSHED',
+  };
+}
+
+// 自分の投稿へのリプライを非表示・再表示
+function manageReply(user, replyId, params) {
+  const reply = getMedia(replyId);
+  const root = reply.rootId ? state.media.get(reply.rootId) : null;
+  if (!reply.parentId || root?.ownerId !== user.id) throw ERRORS.permission();
+
+  const hide = params.hide === true || params.hide === 'true';
+  reply.hide_status = hide ? 'HIDDEN' : 'UNHUSHED';
+  return { success: true };
+}
+
+// 自分の投稿に他のユーザーからのリプライが届いたことにする（自動リプライの動作確認用）
+function injectReply(body) {
+  const me = state.users[0];
+  const postId = body.postId ?? state.postsByUser.get(me.id)[0];
+  const parent = getMedia(postId);
+
+  const id = nextId();
+  const reply = {
+    id,
+    ownerId: null,
+    rootId: parent.rootId ?? parent.id,
+    parentId: parent.id,
+    text: body.text ?? '詳しく知りたいです！',
+    timestamp: new Date().toISOString(),
+    username: body.username ?? 'mock_follower',
+    like_count: 0,
+    reply_count: 0,
+    replyIds: [],
+  };
+  state.media.set(id, reply);
+  parent.replyIds.push(id);
+  parent.reply_count = parent.replyIds.length;
+  return selectFields(reply, null, 'id,text,timestamp,username,parentId');
+}
+
+function handleGraph(method, segments, query, params) {
+  const me = resolveUser(query.get('access_token') ?? params.access_token);
+  const [first, edge] = segments;
+
+  if (method === 'POST' && first === 'me' && edge === 'threads') return createContainer(me, params);
+  if (method === 'POST' && first === 'me' && edge === 'threads_publish') return publishContainer(me, { ...params, creation_id: params.creation_id ?? query.get('creation_id') });
+  if (method === 'POST' && edge === 'manage_reply') return manageReply(me, first, params);
+  if (method === 'POST' && edge === 'repost') return repost(me, first);
+  if (method !== 'GET') throw ERRORS.invalid_request();
+
+  if (first === 'me' && edge === 'threads_insights') return getInsights(me, query);
+  if (first === 'me' && edge === 'threads_publishing_limit') {
+    const usage = getQuotaUsage();
+    return {
+      data: [{
+        quota_usage: usage.posts,
+        config: { quota_total: POST_QUOTA, quota_duration: 86400 },
+        reply_quota_usage: usage.replies,
+        reply_config: { quota_total: REPLY_QUOTA, quota_duration: 86400 },
+      }],
+    };
+  }
+  if (first === 'me' && edge === 'replies') {
+    const replies = [...state.media.values()]
+      .filter(m => m.ownerId === me.id && m.parentId)
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+      .map(r => selectFields(r, query.get('fields'), REPLY_FIELDS));
+    return paginate(replies, query);
+  }
+
+  // 他のユーザーの公開プロフィールと投稿（ユーザー名で検索）
+  if (first === 'profile_lookup' || first === 'profile_posts') {
+    const target = state.users.find(u => u.username === query.get('username'));
+    if (!target) throw ERRORS.not_found();
+    if (first === 'profile_posts') {
+      const posts = state.postsByUser.get(target.id).map(id => selectFields(state.media.get(id), query.get('fields'), MEDIA_FIELDS));
+      return paginate(posts, query);
+    }
+    const posts = state.postsByUser.get(target.id).map(id => state.media.get(id));
+    const sum = key => posts.reduce((total, p) => total + (p[key] ?? 0), 0);
+    return selectFields(
+      {
+        username: target.username,
+        name: target.name,
+        biography: target.threads_biography,
+        is_verified: false,
+        follower_count: target.followers_count,
+        likes_count: sum('like_count'),
+        replies_count: sum('reply_count'),
+        reposts_count: sum('repost_count'),
+        quotes_count: sum('quote_count'),
+        views_count: sum('views'),
+      },
+      query.get('fields'),
+      'username'
+    );
+  }
+
+  const user = findUser(first, me);
+  if (user) {
+    if (!edge) return selectFields(user, query.get('fields'), PROFILE_FIELDS);
+    if (edge === 'threads') {
+      const posts = state.postsByUser.get(user.id).map(id => selectFields(state.media.get(id), query.get('fields'), MEDIA_FIELDS));
+      return paginate(posts, query);
+    }
+    if (edge === 'threads_insights' && user.id === me.id) return getInsights(me, query);
+    throw ERRORS.not_found();
+  }
+
+  const container = state.containers.get(first);
+  if (container && !edge) {
+    const status = getContainerStatus(container);
+    return selectFields(
+      { id: container.id, status, ...(status === 'ERROR' && { error_message: container.error }) },
+      query.get('fields'),
+      'id,status'
+    );
+  }
+
+  const media = getMedia(first);
+  if (!edge) return selectFields(media, query.get('fields'), media.parentId ? REPLY_FIELDS : MEDIA_FIELDS);
+  if (edge === 'insights') return getMediaInsights(media, query);
+  if (edge === 'replies' || edge === 'conversation') {
+    // replies は直下のリプライ、conversation はスレッド内のすべてのリプライ
+    const collect = item => item.replyIds.flatMap(id => {
+      const reply = state.media.get(id);
+      return edge === 'conversation' ? [reply, ...collect(reply)] : [reply];
+    });
+    const replies = collect(media).map(r => selectFields(toReply(r, me), query.get('fields'), REPLY_FIELDS));
+    return paginate(replies, query);
+  }
+
+  throw ERRORS.not_found();
+}
+
+// ===================================
+// OAuth
+// ===================================
+
+function handleOAuth(res, path, query, params) {
+  // 認可画面は省略して、すぐにコールバックへ戻す
+  if (path === '/oauth/authorize') {
+    const redirect = new URL(query.get('redirect_uri'));
+    redirect.searchParams.set('code', `mock-code-${state.users[0].id}`);
+    if (query.get('state')) redirect.searchParams.set('state', query.get('state'));
+    res.writeHead(302, { Location: redirect.toString() });
+    res.end();
+    return true;
+  }
+
+  if (path === '/oauth/access_token') {
+    const match = String(params.code ?? '').match(/^mock-code-(\d+)$/);
+    if (!match) throw new GraphError(400, 'Invalid verification code format.', { code: 100, subcode: 36007 });
+    send(res, 200, { access_token: `mock-short-${match[1]}`, user_id: match[1] });
+    return true;
+  }
+
+  if (path === '/access_token') {
+    const grantType = query.get('grant_type');
+    if (grantType !== 'th_exchange_token' && grantType !== 'th_refresh_token') {
+      throw new GraphError(400, 'Unsupported grant_type', { code: 100 });
+    }
+    const user = resolveUser(query.get('access_token'));
+    send(res, 200, { access_token: `mock-token-${user.id}`, token_type: 'bearer', expires_in: LONG_LIVED_EXPIRES_IN });
+    return true;
+  }
+
+  return false;
+}
+
+// ===================================
+// テスト用の操作
+// ===================================
+
+function handleControl(res, method, path, params) {
+  if (method === 'GET' && path === '/__mock/state') {
+    send(res, 200, {
+      users: state.users.map(u => ({ id: u.id, username: u.username, posts: state.postsByUser.get(u.id).length })),
+      media: state.media.size,
+      containers: state.containers.size,
+      quota: getQuotaUsage(),
+      failures: state.failures,
+    });
+  } else if (method === 'POST' && path === '/__mock/reset') {
+    reset();
+    send(res, 200, { success: true });
+  } else if (method === 'POST' && path === '/__mock/failures') {
+    if (!ERRORS[params.kind] && params.kind !== 'timeout') {
+      send(res, 400, { error: `Unknown failure kind: ${params.kind}` });
+      return;
+    }
+    state.failures.push({
+      kind: params.kind,
+      match: params.match,
+      method: params.method?.toUpperCase(),
+      times: Number(params.times ?? 1),
+      retryAfter: params.retryAfter,
+      hangMs: params.hangMs,
+    });
+    send(res, 200, { success: true, failures: state.failures });
+  } else if (method === 'DELETE' && path === '/__mock/failures') {
+    state.failures = [];
+    send(res, 200, { success: true });
+  } else if (method === 'POST' && path === '/__mock/replies') {
+    send(res, 200, injectReply(params));
+  } else {
+    send(res, 404, { error: 'Not found' });
+  }
+}
+
+// ===================================
+// サーバー
+// ===================================
+
+async function readParams(req) {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  const raw = Buffer.concat(chunks).toString();
+  if (!raw) return {};
+
+  if ((req.headers['content-type'] || '').includes('application/json')) {
+    try {
+      return JSON.parse(raw);
+    } catch {
+      throw new GraphError(400, 'Invalid JSON body', { code: 100 });
+    }
+  }
+  return Object.fromEntries(new URLSearchParams(raw));
+}
+
+const server = createServer(async (req, res) => {
+  const startedAt = Date.now();
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  const method = req.method ?? 'GET';
+
+  res.on('finish', () => {
+    console.log(`${method} ${url.pathname} ${res.statusCode} ${Date.now() - startedAt}ms`);
+  });
+
+  try {
+    const params = await readParams(req);
+    if (url.pathname.startsWith('/__mock/')) {
+      handleControl(res, method, url.pathname, params);
+      return;
+    }
+
+    if (LATENCY_MS > 0) await sleep(LATENCY_MS);
+
+    const failure = takeFailure(method, url.pathname);
+    if (failure?.kind === 'timeout') {
+      // クライアントのタイムアウト（既定15秒）より長く応答しない
+      await sleep(failure.hangMs ?? 20000);
+      send(res, 504, { error: { message: 'Gateway timeout', code: 2, is_transient: true } });
+      return;
+    }
+    if (failure) throw ERRORS[failure.kind](failure.retryAfter);
+    if (FAILURE_RATE > 0 && Math.random() < FAILURE_RATE) throw ERRORS.transient();
+
+    if (handleOAuth(res, url.pathname, url.searchParams, params)) return;
+
+    const match = url.pathname.match(/^\/v[\d.]+\/(.+)$/);
+    if (!match) throw ERRORS.not_found();
+    send(res, 200, handleGraph(method, match[1].split('/').filter(Boolean), url.searchParams, params));
+  } catch (error) {
+    if (error instanceof GraphError) {
+      sendError(res, error);
+    } else {
+      console.error(error);
+      sendError(res, ERRORS.transient());
+    }
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock Threads API listening on http://localhost:${PORT} (seed: ${SEED})`);
+  console.log(`  THREADS_API_BASE_URL=http://localhost:${PORT}`);
+  console.log(`  THREADS_AUTH_URL=http://localhost:${PORT}/oauth/authorize`);
+});
@@ -0,0 +1,48 @@
+// Threads Studio - 保存済みトークンの暗号化キーのローテーション（CLI）
+//
+// 実行: npm run rotate:token-keys
+// TOKEN_ENCRYPTION_KEYS の先頭に新しいキーを追加してから実行すると、平文のまま保存されているトークンを暗号化し、
+// 古いキーで暗号化されたアクセストークン・APIキーを現在のキーで暗号化し直す（/api/admin/tokens/rotate と同じ処理）
+// すべて暗号化し直せたことを確認してから、古いキーを TOKEN_ENCRYPTION_KEYS から削除する
+//
+// 環境変数は .env.local / .env から読み込む（DATABASE_URL と TOKEN_ENCRYPTION_KEYS が必要）
+// 失敗したレコードがあれば終了コード 1 で終了する
+
+import { config } from 'dotenv';
+
+config({ path: ['.env.local', '.env'], quiet: true });
+
+async function main(): Promise<number> {
+  // 環境変数を読み込んでから、DB接続を作成するモジュールを読み込む
+  const { prisma } = await import('@/lib/db');
+  const { isTokenEncryptionConfigured } = await import('@/lib/crypto/tokens');
+  const { rotateStoredTokens } = await import('@/lib/crypto/rotation');
+
+  if (!prisma) {
+    console.error('DATABASE_URL が設定されていません');
+    return 1;
+  }
+  if (!isTokenEncryptionConfigured()) {
+    console.error('TOKEN_ENCRYPTION_KEYS が設定されていません');
+    return 1;
+  }
+
+  try {
+    const result = await rotateStoredTokens();
+    console.log(`確認: ${result.scanned}件 / 暗号化し直し: ${result.rotated}件 / 失敗: ${result.failed.length}件`);
+    for (const failure of result.failed) {
+      console.error(`  ${failure.target} (${failure.id}): ${failure.error}`);
+    }
+    return result.failed.length === 0 ? 0 : 1;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main().then(
+  code => { process.exitCode = code; },
+  error => {
+    console.error('Token rotation failed:', error);
+    process.exitCode = 1;
+  }
+);
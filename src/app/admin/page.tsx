@@ -76,6 +76,7 @@ export default function AdminPanel() {
   const [editingSettingKey, setEditingSettingKey] = useState<string | null>(null);
   const [editSettingValue, setEditSettingValue] = useState('');
   const [editSettingDesc, setEditSettingDesc] = useState('');
+  const [rotatingTokens, setRotatingTokens] = useState(false);
 
   // Logs data
   const [logs, setLogs] = useState<LogEntry[]>([]);
@@ -192,6 +193,27 @@ export default function AdminPanel() {
     }
   };
 
+  // 保存済みトークンを現在の暗号化キーで暗号化し直す
+  const rotateTokens = async () => {
+    if (!confirm('保存済みのアクセストークンを現在の暗号化キーで暗号化し直しますか？')) return;
+    setRotatingTokens(true);
+    try {
+      const res = await fetch('/api/admin/tokens/rotate', { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error || '再暗号化に失敗しました');
+      } else if (data.failed.length > 0) {
+        alert(`${data.rotated}件を再暗号化しました。${data.failed.length}件は失敗したため、古いキーを削除しないでください。`);
+      } else {
+        alert(`${data.scanned}件中${data.rotated}件を再暗号化しました。`);
+      }
+    } catch {
+      alert('エラーが発生しました');
+    } finally {
+      setRotatingTokens(false);
+    }
+  };
+
   const deleteSetting = async (key: string) => {
     try {
       const res = await fetch(`/api/admin/settings?key=${encodeURIComponent(key)}`, { method: 'DELETE' });
@@ -668,6 +690,21 @@ export default function AdminPanel() {
                         ))}
                       </div>
                     </div>
+
+                    {/* トークン暗号化キーのローテーション */}
+                    <div className="bg-white rounded-xl border border-slate-200 p-5">
+                      <h4 className="font-medium text-slate-900 mb-1">アクセストークンの再暗号化</h4>
+                      <p className="text-sm text-slate-500 mb-3">
+                        TOKEN_ENCRYPTION_KEYS の先頭に新しいキーを追加してデプロイした後に実行します。失敗が0件になったら古いキーを削除できます。
+                      </p>
+                      <button
+                        onClick={rotateTokens}
+                        disabled={rotatingTokens}
+                        className="px-4 py-2 text-sm bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {rotatingTokens ? '実行中...' : '再暗号化を実行'}
+                      </button>
+                    </div>
                   </div>
                 )}
 
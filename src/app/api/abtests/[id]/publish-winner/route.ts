@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma, isDatabaseAvailable } from '@/lib/db';
+import { auth } from '@/lib/auth';
+
+// POST: 勝者のテキストを他のアカウントに予約投稿する
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!isDatabaseAvailable() || !prisma) {
+      return NextResponse.json({ error: 'Database not available' }, { status: 503 });
+    }
+
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { variantId, accountIds, scheduledAt } = await request.json().catch(() => ({}));
+
+    const test = await prisma.aBTest.findUnique({
+      where: { id },
+      include: { variants: true },
+    });
+
+    if (!test || test.userId !== session.user.id) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    // 勝者（有意差がない場合は明示的に指定されたバリアント）
+    const winner = test.variants.find(v => v.id === (variantId || test.winnerVariantId));
+    if (!winner) {
+      return NextResponse.json({ error: '投稿するバリアントが決まっていません。' }, { status: 400 });
+    }
+
+    // テストに使ったアカウント以外の自分のアカウント
+    const accounts = await prisma.threadsAccount.findMany({
+      where: {
+        userId: session.user.id,
+        id: { not: test.accountId },
+        ...(Array.isArray(accountIds) && accountIds.length > 0 && {
+          OR: [
+            { id: { in: accountIds } },
+            { threadsUserId: { in: accountIds } },
+          ],
+        }),
+      },
+      select: { id: true, username: true },
+    });
+
+    if (accounts.length === 0) {
+      return NextResponse.json({ error: '投稿先のアカウントがありません。' }, { status: 400 });
+    }
+
+    // プランに基づく制限チェック（予約投稿と同じ。投稿先のアカウントごとに1件）
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      include: {
+        scheduledPosts: {
+          where: { status: 'pending' },
+        },
+      },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (user.role !== 'ADMIN') {
+      if (user.plan === 'free') {
+        return NextResponse.json(
+          { error: 'Free プランでは予約投稿は利用できません。Standard プラン以上にアップグレードしてください。' },
+          { status: 403 }
+        );
+      }
+
+      if (user.plan === 'standard' && user.scheduledPosts.length + accounts.length > 20) {
+        return NextResponse.json(
+          { error: 'Standard プランでは予約投稿は月20件までです。Pro プランにアップグレードすると無制限になります。' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const publishAt = scheduledAt ? new Date(scheduledAt) : new Date();
+    if (isNaN(publishAt.getTime())) {
+      return NextResponse.json({ error: '予約時間が不正です。' }, { status: 400 });
+    }
+
+    const now = new Date();
+    const [, ...scheduledPosts] = await prisma.$transaction([
+      prisma.aBTest.update({
+        where: { id },
+        data: { winnerPublishedAt: now },
+      }),
+      ...accounts.map(account => prisma!.scheduledPost.create({
+        data: {
+          userId: session.user!.id!,
+          accountId: account.id,
+          type: 'text',
+          text: winner.text,
+          scheduledAt: publishAt,
+          status: 'pending',
+        },
+      })),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      scheduled: scheduledPosts.length,
+      accounts: accounts.map(a => a.username),
+    });
+  } catch (error) {
+    console.error('Failed to publish AB test winner:', error);
+    return NextResponse.json({ error: 'Failed to publish winner' }, { status: 500 });
+  }
+}
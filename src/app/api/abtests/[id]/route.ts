@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma, isDatabaseAvailable } from '@/lib/db';
+import { auth } from '@/lib/auth';
+
+// DELETE: A/Bテスト削除（未投稿のバリアントの予約投稿も取り消す）
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!isDatabaseAvailable() || !prisma) {
+      return NextResponse.json({ error: 'Database not available' }, { status: 503 });
+    }
+
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    // 所有者確認
+    const test = await prisma.aBTest.findUnique({
+      where: { id },
+      include: { variants: { select: { scheduledPostId: true } } },
+    });
+
+    if (!test || test.userId !== session.user.id) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    const scheduledPostIds = test.variants
+      .map(v => v.scheduledPostId)
+      .filter((postId): postId is string => !!postId);
+
+    await prisma.$transaction([
+      prisma.scheduledPost.deleteMany({
+        where: { id: { in: scheduledPostIds }, status: 'pending' },
+      }),
+      prisma.aBTest.delete({ where: { id } }),
+    ]);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Failed to delete AB test:', error);
+    return NextResponse.json({ error: 'Failed to delete AB test' }, { status: 500 });
+  }
+}
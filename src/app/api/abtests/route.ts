@@ -0,0 +1,193 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma, isDatabaseAvailable } from '@/lib/db';
+import { auth } from '@/lib/auth';
+import {
+  AB_TEST_CONFIDENCE_LEVELS,
+  AB_TEST_HORIZONS,
+  AB_TEST_MAX_VARIANTS,
+  buildEvaluations,
+} from '@/lib/analytics/abtest';
+
+const VARIANT_LABELS = ['A', 'B', 'C', 'D', 'E', 'F'];
+
+// A/Bテスト一覧取得（計測時点ごとの評価結果つき）
+export async function GET(request: NextRequest) {
+  if (!isDatabaseAvailable() || !prisma) {
+    return NextResponse.json({ error: 'Database not available' }, { status: 503 });
+  }
+
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const accountId = searchParams.get('accountId');
+
+    const tests = await prisma.aBTest.findMany({
+      where: {
+        userId: session.user.id,
+        ...(accountId && {
+          account: { OR: [{ id: accountId }, { threadsUserId: accountId }] },
+        }),
+      },
+      include: {
+        variants: {
+          orderBy: { label: 'asc' },
+          include: {
+            scheduledPost: {
+              select: { status: true, scheduledAt: true, postedId: true, errorMessage: true },
+            },
+            measurements: { orderBy: { horizonHours: 'asc' } },
+          },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return NextResponse.json({
+      tests: tests.map(test => ({ ...test, evaluations: buildEvaluations(test) })),
+    });
+  } catch (error) {
+    console.error('Get AB tests error:', error);
+    return NextResponse.json({ error: 'Failed to get AB tests' }, { status: 500 });
+  }
+}
+
+// A/Bテスト作成（バリアントごとに予約投稿を作成）
+export async function POST(request: NextRequest) {
+  if (!isDatabaseAvailable() || !prisma) {
+    return NextResponse.json({ error: 'Database not available' }, { status: 503 });
+  }
+
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const {
+      accountId,
+      name,
+      variants,
+      primaryHorizon = 24,
+      confidenceLevel = 0.95,
+    } = await request.json();
+
+    if (!accountId || !name?.trim() || !Array.isArray(variants)) {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    }
+
+    if (variants.length < 2 || variants.length > AB_TEST_MAX_VARIANTS) {
+      return NextResponse.json(
+        { error: `バリアントは2〜${AB_TEST_MAX_VARIANTS}個で設定してください。` },
+        { status: 400 }
+      );
+    }
+
+    if (!AB_TEST_HORIZONS.includes(primaryHorizon) || !AB_TEST_CONFIDENCE_LEVELS.includes(confidenceLevel)) {
+      return NextResponse.json({ error: '判定条件が不正です。' }, { status: 400 });
+    }
+
+    // 予約時間のバリデーション（最低5分後）
+    const minScheduleTime = new Date(Date.now() + 5 * 60 * 1000);
+    const parsedVariants: Array<{ label: string; text: string; scheduledAt: Date }> = [];
+    for (const [index, variant] of variants.entries()) {
+      const label = VARIANT_LABELS[index];
+      const text = typeof variant?.text === 'string' ? variant.text.trim() : '';
+      const scheduledAt = new Date(variant?.scheduledAt);
+
+      if (!text || text.length > 500) {
+        return NextResponse.json({ error: `バリアント${label}のテキストは1〜500文字で入力してください。` }, { status: 400 });
+      }
+      if (isNaN(scheduledAt.getTime()) || scheduledAt < minScheduleTime) {
+        return NextResponse.json({ error: `バリアント${label}の予約時間は最低5分後に設定してください。` }, { status: 400 });
+      }
+
+      parsedVariants.push({ label, text, scheduledAt });
+    }
+
+    // プランに基づく制限チェック（予約投稿と同じ）
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      include: {
+        scheduledPosts: {
+          where: { status: 'pending' },
+        },
+      },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (user.role !== 'ADMIN') {
+      if (user.plan === 'free') {
+        return NextResponse.json(
+          { error: 'Free プランではA/Bテストは利用できません。Standard プラン以上にアップグレードしてください。' },
+          { status: 403 }
+        );
+      }
+
+      if (user.plan === 'standard' && user.scheduledPosts.length + parsedVariants.length > 20) {
+        return NextResponse.json(
+          { error: 'Standard プランでは予約投稿は月20件までです。Pro プランにアップグレードすると無制限になります。' },
+          { status: 403 }
+        );
+      }
+    }
+
+    // accountIdがThreadsUserIdの場合、データベースのアカウントを検索
+    const account = await prisma.threadsAccount.findFirst({
+      where: {
+        OR: [
+          { id: accountId },
+          { threadsUserId: accountId },
+        ],
+        userId: session.user.id,
+      },
+    });
+
+    if (!account) {
+      return NextResponse.json(
+        { error: 'アカウントが見つかりません。' },
+        { status: 404 }
+      );
+    }
+
+    const test = await prisma.aBTest.create({
+      data: {
+        userId: session.user.id,
+        accountId: account.id,
+        name: name.trim(),
+        primaryHorizon,
+        confidenceLevel,
+        variants: {
+          create: parsedVariants.map(variant => ({
+            label: variant.label,
+            text: variant.text,
+            scheduledPost: {
+              create: {
+                userId: session.user.id!,
+                accountId: account.id,
+                type: 'text',
+                text: variant.text,
+                scheduledAt: variant.scheduledAt,
+                status: 'pending',
+              },
+            },
+          })),
+        },
+      },
+      include: { variants: { orderBy: { label: 'asc' } } },
+    });
+
+    return NextResponse.json({ success: true, test });
+  } catch (error) {
+    console.error('Create AB test error:', error);
+    return NextResponse.json({ error: 'Failed to create AB test' }, { status: 500 });
+  }
+}
@@ -1,6 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma, isDatabaseAvailable } from '@/lib/db';
 import { auth } from '@/lib/auth';
+import { isValidTimezone } from '@/lib/scheduler/recurrence';
+import { ThreadsAPIClient } from '@/lib/threads/client';
+import { ThreadsAPIError, threadsErrorResponse } from '@/lib/threads/errors';
+import { encryptToken, isTokenEncryptionConfigured } from '@/lib/crypto/tokens';
+import { resumeAccountAfterReauth } from '@/lib/threads/token-refresh';
 
 // GET: ユーザーのアカウント一覧を取得
 export async function GET() {
@@ -23,6 +28,9 @@ export async function GET() {
         username: true,
         name: true,
         profilePicture: true,
+        timezone: true,
+        tokenExpiresAt: true,
+        tokenStatus: true,
         createdAt: true,
       },
     });
@@ -34,7 +42,7 @@ export async function GET() {
   }
 }
 
-// POST: アカウントを登録
+// POST: アカウントを登録（トークンはサーバーで検証し、暗号化して保存する）
 export async function POST(request: NextRequest) {
   try {
     const session = await auth();
@@ -47,12 +55,45 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Database not available' }, { status: 503 });
     }
 
-    const { threadsUserId, username, name, profilePicture, accessToken } = await request.json();
+    const { accessToken, tokenExpiresAt, timezone } = await request.json();
 
-    if (!threadsUserId || !username || !accessToken) {
+    if (!accessToken || typeof accessToken !== 'string') {
       return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
     }
 
+    if (!isTokenEncryptionConfigured()) {
+      return NextResponse.json(
+        { error: 'トークンの暗号化キー（TOKEN_ENCRYPTION_KEYS）が設定されていません。管理者に連絡してください。' },
+        { status: 503 }
+      );
+    }
+
+    // トークンでプロフィールを取得（アカウント情報はクライアントの申告ではなくAPIの値を使う）
+    let profile;
+    try {
+      profile = await new ThreadsAPIClient(accessToken).getMe();
+    } catch (error) {
+      // レート制限や一時的な障害はトークンの不備と区別して返す
+      if (error instanceof ThreadsAPIError && error.kind !== 'auth' && error.kind !== 'invalid_request') {
+        return threadsErrorResponse(error, 'Failed to verify access token');
+      }
+      return NextResponse.json({ error: 'アクセストークンが無効または期限切れです。' }, { status: 400 });
+    }
+
+    const threadsUserId = profile.id;
+    const expiresAt = tokenExpiresAt ? new Date(tokenExpiresAt) : null;
+    const accountData = {
+      username: profile.username,
+      name: profile.name ?? null,
+      profilePicture: profile.threads_profile_picture_url ?? null,
+      accessToken: encryptToken(accessToken),
+      tokenRefreshedAt: new Date(),
+      ...(expiresAt && !isNaN(expiresAt.getTime()) && { tokenExpiresAt: expiresAt }),
+    };
+
+    // テンプレートの日付・時刻に使うタイムゾーン（ブラウザの設定。不正な値は無視）
+    const accountTimezone = typeof timezone === 'string' && isValidTimezone(timezone) ? timezone : null;
+
     // 既存のアカウントを検索（自分のアカウントのみ）
     const existingAccount = await prisma.threadsAccount.findFirst({
       where: { threadsUserId, userId: session.user.id },
@@ -93,23 +134,25 @@ export async function POST(request: NextRequest) {
       account = await prisma.threadsAccount.update({
         where: { id: existingAccount.id },
         data: {
-          username,
-          name,
-          profilePicture,
-          accessToken,
+          ...accountData,
+          // 一度設定したタイムゾーンは上書きしない
+          ...(!existingAccount.timezone && accountTimezone && { timezone: accountTimezone }),
           updatedAt: new Date(),
         },
       });
+
+      // トークン失効で停止していた予約投稿と自動リプライを再開
+      if (existingAccount.tokenStatus === 'invalid') {
+        await resumeAccountAfterReauth(existingAccount.id);
+      }
     } else {
       // 新規アカウントを作成
       account = await prisma.threadsAccount.create({
         data: {
           userId: session.user.id,
           threadsUserId,
-          username,
-          name,
-          profilePicture,
-          accessToken,
+          ...accountData,
+          timezone: accountTimezone,
         },
       });
     }
@@ -122,6 +165,10 @@ export async function POST(request: NextRequest) {
         username: account.username,
         name: account.name,
         profilePicture: account.profilePicture,
+        timezone: account.timezone,
+        tokenExpiresAt: account.tokenExpiresAt,
+        tokenStatus: 'valid', // 登録したトークンは getMe で検証済み
+        createdAt: account.createdAt,
       },
     });
   } catch (error) {
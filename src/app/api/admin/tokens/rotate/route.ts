@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma, isDatabaseAvailable } from '@/lib/db';
+import { hasPermission, Role } from '@/lib/permissions';
+import { isTokenEncryptionConfigured } from '@/lib/crypto/tokens';
+import { rotateStoredTokens } from '@/lib/crypto/rotation';
+
+// 管理者認証チェック
+async function requireAdmin() {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+  if (!isDatabaseAvailable() || !prisma) {
+    return { error: NextResponse.json({ error: 'Database not available' }, { status: 503 }) };
+  }
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { role: true },
+  });
+  if (!user || !hasPermission(user.role as Role, 'systemSettings')) {
+    return { error: NextResponse.json({ error: 'Admin access required' }, { status: 403 }) };
+  }
+  return { userId: session.user.id };
+}
+
+// 保存済みトークンの暗号化キーをローテーション
+// 手順: TOKEN_ENCRYPTION_KEYS の先頭に新しいキーを追加してデプロイ → このAPIを実行 → failed が空なら古いキーを削除
+// 例: curl -X POST https://<host>/api/admin/tokens/rotate -H "Cookie: <管理者のセッション>"
+export async function POST() {
+  try {
+    const { error } = await requireAdmin();
+    if (error) return error;
+
+    if (!isTokenEncryptionConfigured()) {
+      return NextResponse.json(
+        { error: 'TOKEN_ENCRYPTION_KEYS が設定されていません' },
+        { status: 400 }
+      );
+    }
+
+    const result = await rotateStoredTokens();
+
+    return NextResponse.json({ success: result.failed.length === 0, ...result });
+  } catch (error) {
+    console.error('Rotate tokens error:', error);
+    return NextResponse.json({ error: 'Failed to rotate tokens' }, { status: 500 });
+  }
+}
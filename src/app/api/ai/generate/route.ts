@@ -1,13 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { prisma, isDatabaseAvailable } from '@/lib/db';
-
-// プラン別AI生成制限
-const AI_LIMITS: Record<string, number> = {
-  free: 10,
-  standard: 30,
-  pro: 100,
-};
+import { consumeAIUsage } from '@/lib/ai/usage';
+import { GEMINI_TEXT_MODEL, cleanGeneratedText, generateGeminiText, generateReplyDraft } from '@/lib/ai/gemini';
 
 // テキスト生成・画像生成（Gemini API対応）
 export async function POST(request: NextRequest) {
@@ -18,7 +13,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const { type, prompt, context, postType, options, apiKey } = await request.json();
+    const { type, prompt, context, postType, options, apiKey, reply } = await request.json();
 
     if (!apiKey) {
       return NextResponse.json(
@@ -29,45 +24,30 @@ export async function POST(request: NextRequest) {
 
     // プラン制限チェック
     if (isDatabaseAvailable() && prisma) {
-      const user = await prisma.user.findUnique({
-        where: { id: session.user.id },
-      });
-
-      if (user && user.role !== 'ADMIN') {
-        const plan = user.plan || 'free';
-        const dailyLimit = AI_LIMITS[plan] || AI_LIMITS.free;
-        const today = new Date();
-        today.setHours(0, 0, 0, 0);
-
-        // リセット日が今日より前ならカウントをリセット
-        const resetDate = user.aiUsageResetDate ? new Date(user.aiUsageResetDate) : null;
-        const needsReset = !resetDate || resetDate < today;
-        const currentCount = needsReset ? 0 : (user.aiUsageCount || 0);
-
-        if (currentCount >= dailyLimit) {
-          return NextResponse.json(
-            {
-              error: `本日のAI生成回数の上限（${dailyLimit}回）に達しました。${plan === 'free' ? 'Standard プラン以上で回数を増やせます。' : plan === 'standard' ? 'Pro プランで回数を増やせます。' : ''}`,
-              remaining: 0,
-              limit: dailyLimit,
-            },
-            { status: 429 }
-          );
-        }
+      const usage = await consumeAIUsage(session.user.id);
 
-        // 使用量を更新
-        await prisma.user.update({
-          where: { id: session.user.id },
-          data: {
-            aiUsageCount: needsReset ? 1 : currentCount + 1,
-            aiUsageResetDate: today,
+      if (!usage.allowed) {
+        const { plan, limit: dailyLimit } = usage;
+        return NextResponse.json(
+          {
+            error: `本日のAI生成回数の上限（${dailyLimit}回）に達しました。${plan === 'free' ? 'Standard プラン以上で回数を増やせます。' : plan === 'standard' ? 'Pro プランで回数を増やせます。' : ''}`,
+            remaining: 0,
+            limit: dailyLimit,
           },
-        });
+          { status: 429 }
+        );
       }
     }
 
     if (type === 'text') {
       return generateTextWithGemini(prompt, apiKey, { ...options, context, postType });
+    } else if (type === 'reply') {
+      // 自動リプライの返信文（reply: { postText, replyText, username, instructions }）
+      if (!reply?.username) {
+        return NextResponse.json({ error: '返信対象のリプライを指定してください' }, { status: 400 });
+      }
+      const text = await generateReplyDraft(apiKey, reply);
+      return NextResponse.json({ success: true, text, model: GEMINI_TEXT_MODEL });
     } else if (type === 'image') {
       return generateImageWithNanoBananaPro(prompt, apiKey, options);
     } else {
@@ -195,83 +175,19 @@ ${lengthInstruction}
 上記のテーマで、バズるThreads投稿を1つ作成してください。`;
 
   // gemini-flash-latest を使用（最新のFlashモデル）
-  const response = await fetch(
-    `https://generativelanguage.googleapis.com/v1beta/models/gemini-flash-latest:generateContent?key=${apiKey}`,
-    {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        contents: [
-          {
-            parts: [
-              { text: fullPrompt }
-            ]
-          }
-        ],
-        generationConfig: {
-          temperature: 0.9,
-          maxOutputTokens: 2048,
-          topP: 0.95,
-          topK: 40,
-        },
-      }),
-    }
-  );
-
-  if (!response.ok) {
-    const error = await response.json();
-    console.error('Gemini API error:', error);
-
-    // より詳細なエラーメッセージ
-    const errorMessage = error.error?.message || 'Text generation failed';
-    if (errorMessage.includes('API key')) {
-      throw new Error('APIキーが無効です。正しいGemini APIキーを設定してください。');
-    }
-    throw new Error(errorMessage);
-  }
-
-  const data = await response.json();
-
-  // デバッグ用ログ
-  console.log('Gemini response:', JSON.stringify(data, null, 2));
-
-  const generatedText = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
-
-  // 生成が途中で止まった場合のチェック
-  const finishReason = data.candidates?.[0]?.finishReason;
-  if (finishReason && finishReason !== 'STOP') {
-    console.warn('Generation did not complete normally:', finishReason);
-  }
+  const { text: generatedText, finishReason } = await generateGeminiText(fullPrompt, apiKey, {
+    temperature: 0.9,
+    maxOutputTokens: 2048,
+    topP: 0.95,
+    topK: 40,
+  });
 
-  // テキストのクリーンアップ（マークダウン記号の除去）
-  let cleanedText = generatedText.trim();
-
-  // コードブロックの削除
-  cleanedText = cleanedText
-    .replace(/^```[a-z]*\n?/gm, '')
-    .replace(/```$/gm, '');
-
-  // マークダウン記号の除去
-  cleanedText = cleanedText
-    // 見出し記号（###、##、#）を削除
-    .replace(/^#{1,6}\s*/gm, '')
-    // 強調記号（**text** や *text*）からテキストを抽出
-    .replace(/\*\*([^*]+)\*\*/g, '$1')
-    .replace(/\*([^*]+)\*/g, '$1')
-    // リスト記号（- や *）を「・」に変換
-    .replace(/^[\-\*]\s+/gm, '・')
-    // 引用記号を削除
-    .replace(/^>\s*/gm, '')
-    // 連続する空行を1つに
-    .replace(/\n{3,}/g, '\n\n')
-    .trim();
+  const cleanedText = cleanGeneratedText(generatedText);
 
   return NextResponse.json({
     success: true,
     text: cleanedText,
-    model: 'gemini-flash-latest',
+    model: GEMINI_TEXT_MODEL,
     finishReason: finishReason,
   });
 }
@@ -557,38 +473,17 @@ export async function PUT(request: NextRequest) {
 
     // プラン制限チェック（POSTと同じロジック）
     if (isDatabaseAvailable() && prisma) {
-      const user = await prisma.user.findUnique({
-        where: { id: session.user.id },
-      });
-
-      if (user && user.role !== 'ADMIN') {
-        const plan = user.plan || 'free';
-        const dailyLimit = AI_LIMITS[plan] || AI_LIMITS.free;
-        const today = new Date();
-        today.setHours(0, 0, 0, 0);
-
-        const resetDate = user.aiUsageResetDate ? new Date(user.aiUsageResetDate) : null;
-        const needsReset = !resetDate || resetDate < today;
-        const currentCount = needsReset ? 0 : (user.aiUsageCount || 0);
-
-        if (currentCount >= dailyLimit) {
-          return NextResponse.json(
-            {
-              error: `本日のAI生成回数の上限（${dailyLimit}回）に達しました。`,
-              remaining: 0,
-              limit: dailyLimit,
-            },
-            { status: 429 }
-          );
-        }
+      const usage = await consumeAIUsage(session.user.id);
 
-        await prisma.user.update({
-          where: { id: session.user.id },
-          data: {
-            aiUsageCount: needsReset ? 1 : currentCount + 1,
-            aiUsageResetDate: today,
+      if (!usage.allowed) {
+        return NextResponse.json(
+          {
+            error: `本日のAI生成回数の上限（${usage.limit}回）に達しました。`,
+            remaining: 0,
+            limit: usage.limit,
           },
-        });
+          { status: 429 }
+        );
       }
     }
 
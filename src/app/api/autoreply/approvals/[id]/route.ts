@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma, isDatabaseAvailable } from '@/lib/db';
+import { auth } from '@/lib/auth';
+import { sendApprovedReply } from '@/lib/autoreply/dispatch';
+import { classifyPublishError } from '@/lib/scheduler/queue';
+import { isAuthError, threadsErrorResponse } from '@/lib/threads/errors';
+
+// PUT: 承認待ちの返信を編集・承認（送信）・却下
+// body: { action: 'save' | 'approve' | 'reject', replyText?: string }
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!isDatabaseAvailable() || !prisma) {
+      return NextResponse.json({ error: 'Database not available' }, { status: 503 });
+    }
+
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { action, replyText } = await request.json();
+
+    if (!['save', 'approve', 'reject'].includes(action)) {
+      return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+    }
+
+    const log = await prisma.autoReplyLog.findFirst({
+      where: {
+        id,
+        rule: { account: { userId: session.user.id } },
+      },
+      include: {
+        rule: { include: { account: { select: { tokenStatus: true } } } },
+      },
+    });
+
+    if (!log) {
+      return NextResponse.json({ error: 'Reply not found' }, { status: 404 });
+    }
+
+    if (log.status !== 'awaiting_approval') {
+      return NextResponse.json({ error: 'この返信はすでに処理されています。' }, { status: 400 });
+    }
+
+    const text = typeof replyText === 'string' ? replyText.trim() : log.replyText;
+    if (action !== 'reject' && (!text || text.length > 500)) {
+      return NextResponse.json({ error: '返信は1〜500文字で入力してください。' }, { status: 400 });
+    }
+
+    if (action === 'save') {
+      const updated = await prisma.autoReplyLog.update({
+        where: { id },
+        data: { replyText: text },
+      });
+      return NextResponse.json(updated);
+    }
+
+    if (action === 'reject') {
+      const updated = await prisma.autoReplyLog.update({
+        where: { id },
+        data: { status: 'rejected', reviewedAt: new Date() },
+      });
+      return NextResponse.json(updated);
+    }
+
+    // 承認: 送信予定にして、Cronと同じ送信処理（トークン・返信クォータの確認）で元のリプライに返信する
+    if (log.rule.account.tokenStatus !== 'valid') {
+      return NextResponse.json(
+        { error: 'アクセストークンが無効または期限切れです。アカウントを再認証してください。', code: 'TOKEN_INVALID' },
+        { status: 401 }
+      );
+    }
+
+    const now = new Date();
+    const queued = await prisma.autoReplyLog.updateMany({
+      where: { id, status: 'awaiting_approval' },
+      data: {
+        replyText: text,
+        status: 'scheduled',
+        sendAt: now,
+        reviewedAt: now,
+        errorMessage: null,
+      },
+    });
+    if (queued.count === 0) {
+      return NextResponse.json({ error: 'この返信はすでに処理されています。' }, { status: 400 });
+    }
+
+    const result = await sendApprovedReply(id, now);
+
+    // 送れなかった場合（恒久的なエラー）は承認待ちに戻し、編集して再度承認できるようにする
+    // 送信されたか分からない場合は二重返信を避けるため失敗のまま残す
+    if (result?.status === 'failed') {
+      if (classifyPublishError(result.cause) !== 'unconfirmed') {
+        await prisma.autoReplyLog.updateMany({
+          where: { id, status: 'failed' },
+          data: { status: 'awaiting_approval', reviewedAt: null },
+        });
+      }
+      return threadsErrorResponse(result.cause, '返信の送信に失敗しました');
+    }
+
+    // トークンが拒否された返信は送信予定のまま残し、再認証後にCronで送信する
+    if (result?.status === 'scheduled' && isAuthError(result.cause)) {
+      return threadsErrorResponse(result.cause, '返信の送信に失敗しました');
+    }
+
+    // クォータ不足・一時的なエラーで送れなかった返信は、送信予定のままCronで送信する
+    const updated = await prisma.autoReplyLog.findUnique({ where: { id } });
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error('Failed to review auto-reply:', error);
+    return NextResponse.json({ error: 'Failed to review reply' }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma, isDatabaseAvailable } from '@/lib/db';
+import { auth } from '@/lib/auth';
+
+// GET: 承認待ちの自動リプライ一覧
+export async function GET(request: NextRequest) {
+  try {
+    if (!isDatabaseAvailable() || !prisma) {
+      return NextResponse.json({ error: 'Database not available' }, { status: 503 });
+    }
+
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const accountId = searchParams.get('accountId');
+
+    if (!accountId) {
+      return NextResponse.json({ error: 'accountId is required' }, { status: 400 });
+    }
+
+    const logs = await prisma.autoReplyLog.findMany({
+      where: {
+        status: 'awaiting_approval',
+        rule: {
+          account: {
+            userId: session.user.id,
+            OR: [{ id: accountId }, { threadsUserId: accountId }],
+          },
+        },
+      },
+      include: {
+        rule: { select: { id: true, name: true, responseType: true, responseText: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return NextResponse.json(logs);
+  } catch (error) {
+    console.error('Failed to fetch auto-reply approvals:', error);
+    return NextResponse.json({ error: 'Failed to fetch approvals' }, { status: 500 });
+  }
+}
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma, isDatabaseAvailable } from '@/lib/db';
+import { auth } from '@/lib/auth';
+import { encryptToken, isTokenEncryptionConfigured } from '@/lib/crypto/tokens';
+import { serializeConditions, validateRuleSettings } from '@/lib/autoreply/conditions';
 
 // GET: 個別ルール取得
 export async function GET(
@@ -11,10 +14,15 @@ export async function GET(
       return NextResponse.json({ error: 'Database not available' }, { status: 503 });
     }
 
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
     const { id } = await params;
 
-    const rule = await prisma.autoReplyRule.findUnique({
-      where: { id },
+    const rule = await prisma.autoReplyRule.findFirst({
+      where: { id, account: { userId: session.user.id } },
       include: {
         replyLogs: {
           orderBy: { createdAt: 'desc' },
@@ -44,39 +52,121 @@ export async function PUT(
       return NextResponse.json({ error: 'Database not available' }, { status: 503 });
     }
 
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
     const { id } = await params;
+
+    // 他のユーザーのルールは更新できない（入力の検証より先に確認する）
+    const current = await prisma.autoReplyRule.findFirst({
+      where: { id, account: { userId: session.user.id } },
+      select: { conditions: true, responseType: true },
+    });
+    if (!current) {
+      return NextResponse.json({ error: 'Rule not found' }, { status: 404 });
+    }
+
     const body = await request.json();
     const {
       name,
       isActive,
       triggerType,
       triggerKeywords,
+      conditions,
+      priority,
       responseType,
       responseText,
+      requireApproval,
+      aiApiKey,
       responseDelay,
+      responseJitter,
       onlyNewFollowers,
       excludeFollowing,
       maxRepliesPerDay,
+      cooldownMinutes,
     } = body;
 
+    let conditionsJson: string | null | undefined;
+    try {
+      conditionsJson = conditions === undefined ? undefined : serializeConditions(conditions);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : '条件が不正です' },
+        { status: 400 }
+      );
+    }
+
+    // トリガーを詳細条件に切り替える場合や返信内容だけを変える場合は、既存の設定も含めて確認する
+    let effectiveConditions = conditionsJson;
+    let effectiveResponseType = responseType;
+    if (
+      (triggerType === 'conditions' && conditionsJson === undefined)
+      || (responseText !== undefined && responseType === undefined)
+    ) {
+      if (conditionsJson === undefined) effectiveConditions = current.conditions;
+      if (responseType === undefined) effectiveResponseType = current.responseType;
+    }
+
+    const settingsError = validateRuleSettings({
+      triggerType,
+      responseType: effectiveResponseType,
+      responseText,
+      conditions: effectiveConditions,
+      priority,
+      cooldownMinutes,
+      responseDelay,
+      responseJitter,
+    });
+    if (settingsError) {
+      return NextResponse.json({ error: settingsError }, { status: 400 });
+    }
+
+    // AI返信の下書きはCronで生成するため、APIキーを暗号化してサーバー側に保存する
+    // 暗号化できない場合はルールも保存せずに返す（ルールだけが保存され、再送で重複しないように）
+    let encryptedApiKey: string | null = null;
+    if (typeof aiApiKey === 'string' && aiApiKey.trim()) {
+      if (!isTokenEncryptionConfigured()) {
+        return NextResponse.json(
+          { error: 'APIキーの暗号化キー（TOKEN_ENCRYPTION_KEYS）が設定されていません。管理者に連絡してください。' },
+          { status: 503 }
+        );
+      }
+      encryptedApiKey = encryptToken(aiApiKey.trim());
+    }
+
     const rule = await prisma.autoReplyRule.update({
       where: { id },
       data: {
         ...(name !== undefined && { name }),
-        ...(isActive !== undefined && { isActive }),
+        // 手動で切り替えた場合はトークン失効による自動停止を解除
+        ...(isActive !== undefined && { isActive, pausedReason: null }),
         ...(triggerType !== undefined && { triggerType }),
         ...(triggerKeywords !== undefined && {
           triggerKeywords: triggerKeywords ? JSON.stringify(triggerKeywords) : null,
         }),
+        ...(conditionsJson !== undefined && { conditions: conditionsJson }),
+        ...(priority !== undefined && { priority }),
         ...(responseType !== undefined && { responseType }),
         ...(responseText !== undefined && { responseText }),
+        ...(requireApproval !== undefined && { requireApproval }),
         ...(responseDelay !== undefined && { responseDelay }),
+        ...(responseJitter !== undefined && { responseJitter }),
         ...(onlyNewFollowers !== undefined && { onlyNewFollowers }),
         ...(excludeFollowing !== undefined && { excludeFollowing }),
         ...(maxRepliesPerDay !== undefined && { maxRepliesPerDay }),
+        ...(cooldownMinutes !== undefined && { cooldownMinutes }),
       },
     });
 
+    if (encryptedApiKey) {
+      await prisma.user.update({
+        where: { id: session.user.id },
+        data: { geminiApiKey: encryptedApiKey },
+      });
+    }
+
     return NextResponse.json(rule);
   } catch (error) {
     console.error('Failed to update rule:', error);
@@ -94,11 +184,19 @@ export async function DELETE(
       return NextResponse.json({ error: 'Database not available' }, { status: 503 });
     }
 
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
     const { id } = await params;
 
-    await prisma.autoReplyRule.delete({
-      where: { id },
+    const result = await prisma.autoReplyRule.deleteMany({
+      where: { id, account: { userId: session.user.id } },
     });
+    if (result.count === 0) {
+      return NextResponse.json({ error: 'Rule not found' }, { status: 404 });
+    }
 
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma, isDatabaseAvailable } from '@/lib/db';
 import { auth } from '@/lib/auth';
+import { encryptToken, isTokenEncryptionConfigured } from '@/lib/crypto/tokens';
+import { serializeConditions, validateRuleSettings } from '@/lib/autoreply/conditions';
 
 // GET: ルール一覧取得
 export async function GET(request: NextRequest) {
@@ -9,6 +11,12 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Database not available' }, { status: 503 });
     }
 
+    // 認証チェック
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
     const { searchParams } = new URL(request.url);
     const accountId = searchParams.get('accountId');
 
@@ -16,9 +24,10 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'accountId is required' }, { status: 400 });
     }
 
-    // accountIdがThreadsUserIdの場合、データベースのアカウントを検索
+    // accountIdがThreadsUserIdの場合、データベースのアカウントを検索（自分のアカウントのみ）
     const account = await prisma.threadsAccount.findFirst({
       where: {
+        userId: session.user.id,
         OR: [
           { id: accountId },
           { threadsUserId: accountId },
@@ -32,8 +41,33 @@ export async function GET(request: NextRequest) {
 
     const rules = await prisma.autoReplyRule.findMany({
       where: { accountId: account.id },
-      orderBy: { createdAt: 'desc' },
-      include: {
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+      // ルールの設定と統計だけを返す（アカウントのトークンやAPIキーは含めない）
+      select: {
+        id: true,
+        accountId: true,
+        name: true,
+        isActive: true,
+        pausedReason: true,
+        triggerType: true,
+        triggerKeywords: true,
+        conditions: true,
+        priority: true,
+        responseType: true,
+        responseText: true,
+        requireApproval: true,
+        responseDelay: true,
+        responseJitter: true,
+        onlyNewFollowers: true,
+        excludeFollowing: true,
+        maxRepliesPerDay: true,
+        cooldownMinutes: true,
+        totalReplies: true,
+        todayReplies: true,
+        lastReplyAt: true,
+        lastResetDate: true,
+        createdAt: true,
+        updatedAt: true,
         _count: {
           select: { replyLogs: true }
         }
@@ -83,12 +117,18 @@ export async function POST(request: NextRequest) {
       isActive = true,
       triggerType,
       triggerKeywords,
+      conditions,
+      priority = 0,
       responseType = 'fixed',
       responseText,
+      requireApproval = false,
+      aiApiKey,
       responseDelay = 60,
+      responseJitter = 0,
       onlyNewFollowers = false,
       excludeFollowing = false,
       maxRepliesPerDay = 50,
+      cooldownMinutes = 0,
     } = body;
 
     if (!accountId || !name || !triggerType || !responseText) {
@@ -98,6 +138,43 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    let conditionsJson: string | null;
+    try {
+      conditionsJson = serializeConditions(conditions);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : '条件が不正です' },
+        { status: 400 }
+      );
+    }
+
+    const settingsError = validateRuleSettings({
+      triggerType,
+      responseType,
+      responseText,
+      conditions: conditionsJson,
+      priority,
+      cooldownMinutes,
+      responseDelay,
+      responseJitter,
+    });
+    if (settingsError) {
+      return NextResponse.json({ error: settingsError }, { status: 400 });
+    }
+
+    // AI返信の下書きはCronで生成するため、APIキーを暗号化してサーバー側に保存する
+    // 暗号化できない場合はルールも保存せずに返す（ルールだけが保存され、再送で重複しないように）
+    let encryptedApiKey: string | null = null;
+    if (typeof aiApiKey === 'string' && aiApiKey.trim()) {
+      if (!isTokenEncryptionConfigured()) {
+        return NextResponse.json(
+          { error: 'APIキーの暗号化キー（TOKEN_ENCRYPTION_KEYS）が設定されていません。管理者に連絡してください。' },
+          { status: 503 }
+        );
+      }
+      encryptedApiKey = encryptToken(aiApiKey.trim());
+    }
+
     // accountIdがThreadsUserIdの場合、データベースのアカウントを検索
     let dbAccountId = accountId;
     const account = await prisma.threadsAccount.findFirst({
@@ -106,6 +183,7 @@ export async function POST(request: NextRequest) {
           { id: accountId },
           { threadsUserId: accountId },
         ],
+        userId: session.user.id,
       },
     });
 
@@ -125,15 +203,27 @@ export async function POST(request: NextRequest) {
         isActive,
         triggerType,
         triggerKeywords: triggerKeywords ? JSON.stringify(triggerKeywords) : null,
+        conditions: conditionsJson,
+        priority,
         responseType,
         responseText,
+        requireApproval,
         responseDelay,
+        responseJitter,
         onlyNewFollowers,
         excludeFollowing,
         maxRepliesPerDay,
+        cooldownMinutes,
       },
     });
 
+    if (encryptedApiKey) {
+      await prisma.user.update({
+        where: { id: session.user.id },
+        data: { geminiApiKey: encryptedApiKey },
+      });
+    }
+
     return NextResponse.json(rule, { status: 201 });
   } catch (error) {
     console.error('Failed to create auto-reply rule:', error);
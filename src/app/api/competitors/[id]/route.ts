@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma, isDatabaseAvailable } from '@/lib/db';
+import { auth } from '@/lib/auth';
+import { COMPETITOR_SUMMARY_DAYS, getBenchmark, summarizePosts } from '@/lib/analytics/competitors';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_ALERT_MULTIPLIER = 1.5;
+const MAX_ALERT_MULTIPLIER = 20;
+
+// ログインユーザーのアカウントに登録された競合のみ取得
+async function findOwnedCompetitor(id: string) {
+  if (!isDatabaseAvailable() || !prisma) {
+    return { error: NextResponse.json({ error: 'Database not available' }, { status: 503 }) };
+  }
+
+  const session = await auth();
+  if (!session?.user?.id) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  const competitor = await prisma.competitor.findUnique({
+    where: { id },
+    include: { account: { select: { userId: true } } },
+  });
+  if (!competitor || competitor.account.userId !== session.user.id) {
+    return { error: NextResponse.json({ error: 'Not found' }, { status: 404 }) };
+  }
+
+  return { competitor };
+}
+
+// GET: 競合の推移（スナップショット）、自分のアカウントとの比較、反応の多かった投稿
+// ?weeks=12
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const found = await findOwnedCompetitor(id);
+  if (found.error) return found.error;
+  const { competitor } = found;
+
+  try {
+    const now = new Date();
+    const weeks = Math.min(Math.max(parseInt(request.nextUrl.searchParams.get('weeks') || '12', 10) || 12, 4), 52);
+    const since = new Date(now.getTime() - weeks * 7 * DAY_MS);
+
+    const [snapshots, benchmark, recentPosts, ourPosts] = await Promise.all([
+      prisma!.competitorSnapshot.findMany({
+        where: { competitorId: id, capturedAt: { gte: since } },
+        orderBy: { capturedAt: 'asc' },
+      }),
+      getBenchmark(competitor.accountId, id, weeks, now),
+      prisma!.competitorPost.findMany({
+        where: { competitorId: id, publishedAt: { gte: since } },
+        orderBy: { publishedAt: 'desc' },
+        take: 200,
+      }),
+      prisma!.threadsPost.findMany({
+        where: { accountId: competitor.accountId, publishedAt: { gte: new Date(now.getTime() - COMPETITOR_SUMMARY_DAYS * DAY_MS) } },
+        select: { publishedAt: true, text: true, likes: true, replies: true, reposts: true, quotes: true },
+      }),
+    ]);
+
+    const topPosts = recentPosts
+      .map(post => ({ ...post, engagement: post.likes + post.replies + post.reposts + post.quotes }))
+      .sort((a, b) => b.engagement - a.engagement)
+      .slice(0, 10);
+
+    return NextResponse.json({
+      competitor: { ...competitor, account: undefined },
+      snapshots,
+      benchmark,
+      topPosts,
+      // 比較用: 自分のアカウントの同じ期間の集計
+      ours: summarizePosts(ourPosts, now),
+    });
+  } catch (error) {
+    console.error('Get competitor error:', error);
+    return NextResponse.json({ error: 'Failed to get competitor' }, { status: 500 });
+  }
+}
+
+// PATCH: 追跡の停止・再開、通知のしきい値の変更
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const found = await findOwnedCompetitor(id);
+  if (found.error) return found.error;
+
+  try {
+    const body = await request.json();
+    const data: { isActive?: boolean; alertMultiplier?: number } = {};
+
+    if (typeof body.isActive === 'boolean') data.isActive = body.isActive;
+    if (body.alertMultiplier !== undefined) {
+      const multiplier = Number(body.alertMultiplier);
+      if (!Number.isFinite(multiplier) || multiplier < MIN_ALERT_MULTIPLIER || multiplier > MAX_ALERT_MULTIPLIER) {
+        return NextResponse.json(
+          { error: `通知のしきい値は${MIN_ALERT_MULTIPLIER}〜${MAX_ALERT_MULTIPLIER}倍で指定してください。` },
+          { status: 400 }
+        );
+      }
+      data.alertMultiplier = multiplier;
+    }
+
+    const competitor = await prisma!.competitor.update({ where: { id }, data });
+    return NextResponse.json({ competitor });
+  } catch (error) {
+    console.error('Update competitor error:', error);
+    return NextResponse.json({ error: 'Failed to update competitor' }, { status: 500 });
+  }
+}
+
+// DELETE: ウォッチリストから削除（記録したスナップショットと投稿も削除）
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const found = await findOwnedCompetitor(id);
+  if (found.error) return found.error;
+
+  try {
+    await prisma!.competitor.delete({ where: { id } });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete competitor error:', error);
+    return NextResponse.json({ error: 'Failed to delete competitor' }, { status: 500 });
+  }
+}
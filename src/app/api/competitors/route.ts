@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { requireAccountClient } from '@/lib/threads/accounts';
+import { ThreadsAPIError, threadsErrorResponse } from '@/lib/threads/errors';
+import { MAX_COMPETITORS, normalizeUsername, trackCompetitor } from '@/lib/analytics/competitors';
+
+// GET: 競合ウォッチリスト（最新のスナップショットつき）
+export async function GET(request: NextRequest) {
+  const resolved = await requireAccountClient(request.nextUrl.searchParams.get('accountId'));
+  if (resolved.error) return resolved.error;
+
+  try {
+    const competitors = await prisma!.competitor.findMany({
+      where: { accountId: resolved.account.id },
+      include: { snapshots: { orderBy: { capturedAt: 'desc' }, take: 1 } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return NextResponse.json({
+      competitors: competitors.map(({ snapshots, ...competitor }) => ({
+        ...competitor,
+        latest: snapshots[0] ?? null,
+      })),
+      maxCompetitors: MAX_COMPETITORS,
+    });
+  } catch (error) {
+    console.error('Get competitors error:', error);
+    return NextResponse.json({ error: 'Failed to get competitors' }, { status: 500 });
+  }
+}
+
+// POST: 競合を追加（公開プロフィールを確認して最初のスナップショットを記録）
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => ({}));
+  const resolved = await requireAccountClient(body.accountId);
+  if (resolved.error) return resolved.error;
+
+  const username = typeof body.username === 'string' ? normalizeUsername(body.username) : null;
+  if (!username) {
+    return NextResponse.json({ error: 'ユーザー名またはプロフィールURLを入力してください。' }, { status: 400 });
+  }
+  if (username === resolved.account.username.toLowerCase()) {
+    return NextResponse.json({ error: '自分のアカウントは追加できません。' }, { status: 400 });
+  }
+
+  const existing = await prisma!.competitor.findMany({
+    where: { accountId: resolved.account.id },
+    select: { username: true },
+  });
+  if (existing.some(c => c.username === username)) {
+    return NextResponse.json({ error: `@${username} はすでに登録されています。` }, { status: 400 });
+  }
+  if (existing.length >= MAX_COMPETITORS) {
+    return NextResponse.json({ error: `競合は${MAX_COMPETITORS}件まで登録できます。` }, { status: 400 });
+  }
+
+  const competitor = await prisma!.competitor.create({
+    data: { accountId: resolved.account.id, username },
+  });
+
+  try {
+    // 追加時は通知しない（以前の投稿をまとめて通知しないように、判定済みとして記録だけする）
+    const result = await trackCompetitor(resolved.client, competitor, null);
+    return NextResponse.json({ competitor, ...result });
+  } catch (error) {
+    await prisma!.competitor.delete({ where: { id: competitor.id } });
+    console.error('Add competitor error:', error);
+
+    if (error instanceof ThreadsAPIError && error.kind === 'not_found') {
+      return NextResponse.json({ error: `@${username} の公開プロフィールが見つかりません。` }, { status: 404 });
+    }
+    return threadsErrorResponse(error, 'Failed to add competitor');
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma, isDatabaseAvailable } from '@/lib/db';
+import { collectABTestMeasurements } from '@/lib/analytics/abtest';
+
+// Vercel Cron認証
+const CRON_SECRET = process.env.CRON_SECRET;
+
+// 実行中のA/Bテストのインサイトを計測し、勝者を判定するCronジョブ
+export async function GET(request: NextRequest) {
+  try {
+    // Cron認証チェック（本番環境用）
+    const authHeader = request.headers.get('authorization');
+    if (CRON_SECRET && authHeader !== `Bearer ${CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isDatabaseAvailable() || !prisma) {
+      return NextResponse.json({ error: 'Database not available' }, { status: 503 });
+    }
+
+    const now = new Date();
+    const results = await collectABTestMeasurements(now);
+
+    return NextResponse.json({
+      success: true,
+      timestamp: now.toISOString(),
+      processed: results.length,
+      results,
+    });
+
+  } catch (error) {
+    console.error('Cron job failed:', error);
+    return NextResponse.json(
+      { error: 'Cron job failed', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma, isDatabaseAvailable } from '@/lib/db';
+import { collectDailySnapshot } from '@/lib/analytics/snapshots';
+import { collectDemographicsSnapshot } from '@/lib/analytics/demographics';
+
+// Vercel Cron認証
+const CRON_SECRET = process.env.CRON_SECRET;
+
+// 全アカウントの日次分析スナップショットを保存するCronジョブ
+export async function GET(request: NextRequest) {
+  try {
+    // Cron認証チェック（本番環境用）
+    const authHeader = request.headers.get('authorization');
+    if (CRON_SECRET && authHeader !== `Bearer ${CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isDatabaseAvailable() || !prisma) {
+      return NextResponse.json({ error: 'Database not available' }, { status: 503 });
+    }
+
+    const now = new Date();
+    const results: Array<{ accountId: string; username: string; status: string; posts?: number; demographics?: boolean; error?: string }> = [];
+
+    const accounts = await prisma.threadsAccount.findMany({
+      select: {
+        id: true,
+        username: true,
+        accessToken: true,
+        postsBackfillCursor: true,
+        postsBackfilledAt: true,
+      },
+    });
+
+    for (const account of accounts) {
+      try {
+        const snapshot = await collectDailySnapshot(account, now);
+
+        // フォロワー属性（取得できなくても日次スナップショットは成功扱い）
+        const demographics = await collectDemographicsSnapshot(account, now).catch(error => {
+          console.warn(`Failed to collect demographics for ${account.id}:`, error);
+          return null;
+        });
+
+        results.push({
+          accountId: account.id,
+          username: account.username,
+          status: 'completed',
+          posts: snapshot.posts.length,
+          demographics: demographics !== null,
+        });
+      } catch (error) {
+        console.error(`Failed to collect snapshot for ${account.id}:`, error);
+        results.push({
+          accountId: account.id,
+          username: account.username,
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      timestamp: now.toISOString(),
+      processed: results.length,
+      results,
+    });
+
+  } catch (error) {
+    console.error('Cron job failed:', error);
+    return NextResponse.json(
+      { error: 'Cron job failed', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
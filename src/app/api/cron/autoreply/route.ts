@@ -1,6 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma, isDatabaseAvailable } from '@/lib/db';
-import { ThreadsAPIClient } from '@/lib/threads/client';
+import { createAccountClient } from '@/lib/threads/accounts';
+import { isAuthError } from '@/lib/threads/errors';
+import { markTokenInvalid } from '@/lib/threads/token-refresh';
+import { decryptToken } from '@/lib/crypto/tokens';
+import { findMatchingRule, parseStoredConditions, parseStoredKeywords } from '@/lib/autoreply/conditions';
+import { generateReplyDraft } from '@/lib/ai/gemini';
+import { consumeAIUsage } from '@/lib/ai/usage';
+import {
+  DAILY_LIMIT_REPLY_STATUSES,
+  dispatchDueReplies,
+  getReplySendAt,
+  QUEUED_REPLY_STATUSES,
+} from '@/lib/autoreply/dispatch';
+import { renderAccountTemplate } from '@/lib/templates/context';
+import { loadModerationSettings, moderateIncomingReply } from '@/lib/moderation/actions';
 
 // Vercel Cron認証
 const CRON_SECRET = process.env.CRON_SECRET;
@@ -12,22 +26,33 @@ interface AutoReplyRule {
   isActive: boolean;
   triggerType: string;
   triggerKeywords: string | null;
+  conditions: string | null;
+  priority: number;
+  responseType: string;
   responseText: string;
+  requireApproval: boolean;
   responseDelay: number;
+  responseJitter: number;
   onlyNewFollowers: boolean;
   excludeFollowing: boolean;
   maxRepliesPerDay: number;
+  cooldownMinutes: number;
   totalReplies: number;
   todayReplies: number;
   lastResetDate: Date | null;
   account: {
+    id: string;
     accessToken: string;
     threadsUserId: string;
     username: string;
+    userId: string;
+    timezone: string | null;
+    user: { geminiApiKey: string | null };
   };
 }
 
 // 5分ごとに実行されるCronジョブ
+// 新着リプライを評価して返信ジョブを登録し、送信予定時刻を過ぎたジョブを送信する
 export async function GET(request: NextRequest) {
   try {
     // Cron認証チェック（本番環境用）
@@ -43,43 +68,97 @@ export async function GET(request: NextRequest) {
     const now = new Date();
     const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
 
-    // アクティブなルールを取得
+    // アクティブなルールを優先順位順に取得（トークンが失効したアカウントは除く）
     const rules = await prisma.autoReplyRule.findMany({
-      where: { isActive: true },
+      where: { isActive: true, account: { tokenStatus: 'valid' } },
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
       include: {
         account: {
           select: {
+            id: true,
             accessToken: true,
             threadsUserId: true,
             username: true,
+            userId: true,
+            timezone: true,
+            user: { select: { geminiApiKey: true } },
           },
         },
       },
     }) as AutoReplyRule[];
 
-    const results: Array<{ ruleId: string; ruleName: string; processed: number; replied: number; errors: string[] }> = [];
+    // 送信待ち・承認待ちのジョブも1日の上限に含める
+    const queuedCounts = await prisma.autoReplyLog.groupBy({
+      by: ['ruleId'],
+      where: {
+        ruleId: { in: rules.map(rule => rule.id) },
+        status: { in: DAILY_LIMIT_REPLY_STATUSES },
+      },
+      _count: { _all: true },
+    });
+    const queuedByRule = new Map(queuedCounts.map(row => [row.ruleId, row._count._all]));
+    const usedToday = (rule: AutoReplyRule) => rule.todayReplies + (queuedByRule.get(rule.id) ?? 0);
 
+    // アカウントごとにまとめ、リプライ1件につき優先順位が最も高い一致ルールだけを実行する
+    const rulesByAccount = new Map<string, AutoReplyRule[]>();
     for (const rule of rules) {
-      const ruleResult = { ruleId: rule.id, ruleName: rule.name, processed: 0, replied: 0, errors: [] as string[] };
+      rulesByAccount.set(rule.accountId, [...(rulesByAccount.get(rule.accountId) ?? []), rule]);
+    }
+
+    const results: Array<{
+      accountId: string;
+      processed: number;
+      scheduled: number;
+      awaitingApproval: number;
+      skipped: number;
+      moderated: number;
+      matches: Record<string, number>;
+      errors: string[];
+    }> = [];
+
+    for (const [accountId, accountRules] of rulesByAccount) {
+      const accountResult = {
+        accountId,
+        processed: 0,
+        scheduled: 0,
+        awaitingApproval: 0,
+        skipped: 0,
+        moderated: 0,
+        matches: {} as Record<string, number>,
+        errors: [] as string[],
+      };
+      const account = accountRules[0].account;
 
       try {
         // 日付リセットチェック
-        if (!rule.lastResetDate || new Date(rule.lastResetDate) < today) {
-          await prisma.autoReplyRule.update({
-            where: { id: rule.id },
-            data: { todayReplies: 0, lastResetDate: today },
-          });
-          rule.todayReplies = 0;
+        for (const rule of accountRules) {
+          if (!rule.lastResetDate || new Date(rule.lastResetDate) < today) {
+            await prisma.autoReplyRule.update({
+              where: { id: rule.id },
+              data: { todayReplies: 0, lastResetDate: today },
+            });
+            rule.todayReplies = 0;
+          }
         }
 
-        // 1日の上限チェック
-        if (rule.todayReplies >= rule.maxRepliesPerDay) {
-          ruleResult.errors.push('Daily limit reached');
-          results.push(ruleResult);
+        const matchableRules = accountRules.map(rule => ({
+          rule,
+          isActive: rule.isActive,
+          priority: rule.priority,
+          triggerType: rule.triggerType,
+          triggerKeywords: parseStoredKeywords(rule.triggerKeywords),
+          conditions: parseStoredConditions(rule.conditions),
+        }));
+
+        // 全ルールが上限に達していればAPIを呼ばない
+        if (accountRules.every(rule => usedToday(rule) >= rule.maxRepliesPerDay)) {
+          accountResult.errors.push('Daily limit reached');
+          results.push(accountResult);
           continue;
         }
 
-        const client = new ThreadsAPIClient(rule.account.accessToken);
+        const client = createAccountClient(account);
+        const moderation = await loadModerationSettings(accountId);
 
         // 最近の投稿を取得
         const { data: posts } = await client.getMyThreads(10);
@@ -90,11 +169,11 @@ export async function GET(request: NextRequest) {
 
           for (const reply of replies) {
             // 自分のリプライはスキップ
-            if (reply.username === rule.account.username) {
+            if (reply.username === account.username) {
               continue;
             }
 
-            ruleResult.processed++;
+            accountResult.processed++;
 
             // 処理済みかチェック
             const processed = await prisma.processedReply.findUnique({
@@ -105,94 +184,179 @@ export async function GET(request: NextRequest) {
               continue;
             }
 
-            // トリガー条件をチェック
-            const shouldReply = checkTriggerCondition(rule, reply.text || '');
-
-            if (!shouldReply) {
-              continue;
+            // モデレーションに該当したリプライには返信しない
+            if (moderation) {
+              const verdict = await moderateIncomingReply(client, moderation, {
+                accountId,
+                replyId: reply.id,
+                username: reply.username,
+                text: reply.text,
+              }, now);
+              if (verdict) {
+                accountResult.moderated++;
+                await prisma.processedReply.create({
+                  data: { accountId, replyId: reply.id },
+                });
+                continue;
+              }
             }
 
-            // 1日の上限再チェック
-            if (rule.todayReplies >= rule.maxRepliesPerDay) {
-              break;
-            }
+            // 条件に一致する最初のルールを選ぶ
+            const matched = findMatchingRule(matchableRules, {
+              text: reply.text || '',
+              postText: post.text,
+              username: reply.username,
+              accountUsername: account.username,
+            });
 
-            // 自動リプライを送信
-            try {
-              // プレースホルダーを置換
-              const replyText = rule.responseText.replace(/{username}/g, reply.username);
+            if (!matched) {
+              continue;
+            }
 
-              // 遅延を適用（最小10秒）
-              const delay = Math.max(rule.responseDelay * 1000, 10000);
-              await new Promise(resolve => setTimeout(resolve, Math.min(delay, 30000))); // 最大30秒
+            const rule = matched.rule;
+            accountResult.matches[rule.id] = (accountResult.matches[rule.id] ?? 0) + 1;
 
-              // リプライを投稿
-              const result = await client.postText(replyText, reply.id);
+            // 1日の上限チェック（翌日に再評価するため処理済みにはしない）
+            if (usedToday(rule) >= rule.maxRepliesPerDay) {
+              accountResult.skipped++;
+              continue;
+            }
 
-              // ログを保存
-              await prisma.autoReplyLog.create({
-                data: {
+            // 同じユーザーへのクールダウン中なら返信せず処理済みにする
+            if (rule.cooldownMinutes > 0) {
+              const recent = await prisma.autoReplyLog.findFirst({
+                where: {
                   ruleId: rule.id,
-                  originalPostId: post.id,
-                  originalUserId: reply.id, // ユーザーIDは不明なのでリプライIDで代用
                   originalUsername: reply.username,
-                  originalText: reply.text || null,
-                  replyPostId: result.id,
-                  replyText: replyText,
-                  status: 'sent',
-                },
-              });
-
-              // 統計を更新
-              await prisma.autoReplyRule.update({
-                where: { id: rule.id },
-                data: {
-                  totalReplies: { increment: 1 },
-                  todayReplies: { increment: 1 },
-                  lastReplyAt: new Date(),
+                  status: { in: [...QUEUED_REPLY_STATUSES, 'sent', 'awaiting_approval'] },
+                  createdAt: { gte: new Date(now.getTime() - rule.cooldownMinutes * 60 * 1000) },
                 },
+                select: { id: true },
               });
 
-              rule.todayReplies++;
-              ruleResult.replied++;
+              if (recent) {
+                accountResult.skipped++;
+                await prisma.processedReply.create({
+                  data: { accountId, replyId: reply.id },
+                });
+                continue;
+              }
+            }
 
-            } catch (replyError) {
-              console.error(`Failed to send auto-reply for rule ${rule.id}:`, replyError);
+            // 返信文を用意（定型文はテンプレートを送信予定時刻の値で展開、AIモードはGeminiで下書きを生成）
+            const sendAt = getReplySendAt(rule, now);
+            let replyText = '';
+            const logData = {
+              ruleId: rule.id,
+              originalPostId: post.id,
+              originalUserId: reply.id, // ユーザーIDは不明なのでリプライIDで代用
+              originalUsername: reply.username,
+              originalText: reply.text || null,
+              originalPostText: post.text || null,
+            };
+
+            if (rule.responseType !== 'ai') {
+              replyText = await renderAccountTemplate(rule.responseText, account, {
+                now: rule.requireApproval ? now : sendAt,
+                username: reply.username,
+                originalText: reply.text,
+              });
+            } else {
+              const apiKey = account.user.geminiApiKey
+                ? decryptToken(account.user.geminiApiKey)
+                : process.env.GEMINI_API_KEY;
+              if (!apiKey) {
+                accountResult.errors.push(`Gemini API key not configured (${rule.name})`);
+                accountResult.skipped++;
+                continue;
+              }
+
+              // AI生成回数の上限に達した場合は翌日に再評価する
+              const usage = await consumeAIUsage(account.userId);
+              if (!usage.allowed) {
+                accountResult.errors.push('AI usage limit reached');
+                accountResult.skipped++;
+                continue;
+              }
+
+              try {
+                replyText = await generateReplyDraft(apiKey, {
+                  instructions: rule.responseText,
+                  postText: post.text,
+                  replyText: reply.text || '',
+                  username: reply.username,
+                });
+              } catch (draftError) {
+                console.error(`Failed to draft auto-reply for rule ${rule.id}:`, draftError);
+                await prisma.autoReplyLog.create({
+                  data: {
+                    ...logData,
+                    replyText: '',
+                    status: 'failed',
+                    errorMessage: draftError instanceof Error ? draftError.message : 'Unknown error',
+                  },
+                });
+                accountResult.errors.push(`Draft failed (${rule.name}): ${draftError instanceof Error ? draftError.message : 'Unknown error'}`);
+                await prisma.processedReply.create({
+                  data: { accountId, replyId: reply.id },
+                });
+                continue;
+              }
+            }
 
-              // エラーログを保存
+            // 承認制のルールは送信せず承認待ちにする
+            if (rule.requireApproval) {
               await prisma.autoReplyLog.create({
                 data: {
-                  ruleId: rule.id,
-                  originalPostId: post.id,
-                  originalUserId: reply.id,
-                  originalUsername: reply.username,
-                  originalText: reply.text || null,
-                  replyText: rule.responseText.replace(/{username}/g, reply.username),
-                  status: 'failed',
-                  errorMessage: replyError instanceof Error ? replyError.message : 'Unknown error',
+                  ...logData,
+                  replyText,
+                  status: 'awaiting_approval',
                 },
               });
-
-              ruleResult.errors.push(`Reply failed: ${replyError instanceof Error ? replyError.message : 'Unknown error'}`);
+              queuedByRule.set(rule.id, (queuedByRule.get(rule.id) ?? 0) + 1);
+              accountResult.awaitingApproval++;
+              await prisma.processedReply.create({
+                data: { accountId, replyId: reply.id },
+              });
+              continue;
             }
 
+            // 遅延（＋ジッター）後に送信するジョブとして登録
+            await prisma.autoReplyLog.create({
+              data: {
+                ...logData,
+                replyText,
+                status: 'scheduled',
+                sendAt,
+              },
+            });
+            queuedByRule.set(rule.id, (queuedByRule.get(rule.id) ?? 0) + 1);
+            accountResult.scheduled++;
+
             // 処理済みとしてマーク
             await prisma.processedReply.create({
               data: {
-                accountId: rule.accountId,
+                accountId,
                 replyId: reply.id,
               },
             });
           }
         }
       } catch (error) {
-        console.error(`Error processing rule ${rule.id}:`, error);
-        ruleResult.errors.push(error instanceof Error ? error.message : 'Unknown error');
+        console.error(`Error processing auto-reply rules for account ${accountId}:`, error);
+        accountResult.errors.push(error instanceof Error ? error.message : 'Unknown error');
+        // トークンが拒否された場合は失効として記録し、自動リプライを停止する
+        if (isAuthError(error)) {
+          await markTokenInvalid(account, error.message, now);
+        }
       }
 
-      results.push(ruleResult);
+      results.push(accountResult);
     }
 
+    // 送信予定時刻を過ぎたジョブを送信
+    const dispatched = await dispatchDueReplies(now);
+
     // 古い処理済みレコードを削除（7日以上前）
     const sevenDaysAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
     await prisma.processedReply.deleteMany({
@@ -206,6 +370,7 @@ export async function GET(request: NextRequest) {
       timestamp: now.toISOString(),
       rulesProcessed: rules.length,
       results,
+      dispatched,
     });
 
   } catch (error) {
@@ -216,28 +381,3 @@ export async function GET(request: NextRequest) {
     );
   }
 }
-
-// トリガー条件をチェック
-function checkTriggerCondition(rule: AutoReplyRule, text: string): boolean {
-  switch (rule.triggerType) {
-    case 'all':
-      return true;
-
-    case 'mention':
-      // @username形式のメンションをチェック
-      return text.toLowerCase().includes(`@${rule.account.username.toLowerCase()}`);
-
-    case 'keyword':
-      if (!rule.triggerKeywords) return false;
-      try {
-        const keywords = JSON.parse(rule.triggerKeywords) as string[];
-        const lowerText = text.toLowerCase();
-        return keywords.some(kw => lowerText.includes(kw.toLowerCase()));
-      } catch {
-        return false;
-      }
-
-    default:
-      return false;
-  }
-}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma, isDatabaseAvailable } from '@/lib/db';
+import { createAccountClient } from '@/lib/threads/accounts';
+import { ThreadsAPIError } from '@/lib/threads/errors';
+import { trackCompetitor } from '@/lib/analytics/competitors';
+
+// Vercel Cron認証
+const CRON_SECRET = process.env.CRON_SECRET;
+
+// 競合ウォッチリストのスナップショットを記録するCronジョブ
+export async function GET(request: NextRequest) {
+  try {
+    // Cron認証チェック（本番環境用）
+    const authHeader = request.headers.get('authorization');
+    if (CRON_SECRET && authHeader !== `Bearer ${CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isDatabaseAvailable() || !prisma) {
+      return NextResponse.json({ error: 'Database not available' }, { status: 503 });
+    }
+
+    const now = new Date();
+    const results: Array<{ competitorId: string; username: string; status: string; alerts?: number; error?: string }> = [];
+
+    // 競合の取得には登録したアカウントのトークンを使う（失効したアカウントは再認証まで停止）
+    const accounts = await prisma.threadsAccount.findMany({
+      where: { tokenStatus: 'valid', competitors: { some: { isActive: true } } },
+      select: {
+        id: true,
+        userId: true,
+        accessToken: true,
+        competitors: {
+          where: { isActive: true },
+          select: { id: true, username: true, alertMultiplier: true },
+        },
+      },
+    });
+
+    for (const account of accounts) {
+      let client;
+      try {
+        client = createAccountClient(account);
+      } catch (error) {
+        console.error(`Failed to decrypt access token for account ${account.id}:`, error);
+        continue;
+      }
+
+      for (const competitor of account.competitors) {
+        try {
+          const result = await trackCompetitor(client, competitor, account.userId, now);
+          results.push({
+            competitorId: competitor.id,
+            username: competitor.username,
+            status: 'completed',
+            alerts: result.alerts.length,
+          });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          console.error(`Failed to track competitor ${competitor.username}:`, error);
+          await prisma.competitor.update({
+            where: { id: competitor.id },
+            data: { lastError: message },
+          });
+          results.push({ competitorId: competitor.id, username: competitor.username, status: 'failed', error: message });
+
+          // トークンの失効やレート制限の場合、このアカウントの残りの競合は次回に回す
+          if (error instanceof ThreadsAPIError && (error.kind === 'auth' || error.kind === 'rate_limit')) break;
+        }
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      timestamp: now.toISOString(),
+      processed: results.length,
+      results,
+    });
+
+  } catch (error) {
+    console.error('Cron job failed:', error);
+    return NextResponse.json(
+      { error: 'Cron job failed', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
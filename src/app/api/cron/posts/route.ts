@@ -1,6 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma, isDatabaseAvailable } from '@/lib/db';
-import { ThreadsAPIClient } from '@/lib/threads/client';
+import { createAccountClient } from '@/lib/threads/accounts';
+import { isAuthError } from '@/lib/threads/errors';
+import { markTokenInvalid } from '@/lib/threads/token-refresh';
+import {
+  claimJob,
+  classifyPublishError,
+  deferJob,
+  pauseJobForInvalidToken,
+  PublishedJobError,
+  recordJobFailure,
+  recordJobSuccess,
+  recoverStaleJobs,
+  saveThreadProgress,
+} from '@/lib/scheduler/queue';
+import { createFollowUpJobs, dispatchDueFollowUps } from '@/lib/scheduler/follow-up-dispatch';
+import { createQuotaTracker, getPostQuotaCost, getRemainingQuotaCost, QUOTA_DEFER_MS } from '@/lib/scheduler/quota';
+import { getNextOccurrence, resolveRecurrence, type RecurrenceOptions } from '@/lib/scheduler/recurrence';
+import { pickVariantForOccurrence, recordVariantPublication } from '@/lib/scheduler/rotation';
+import { renderAccountTemplate } from '@/lib/templates/context';
+import { parseStoredPostOptions, type StoredPostOptions } from '@/lib/threads/post-options';
 
 // Vercel Cron認証
 const CRON_SECRET = process.env.CRON_SECRET;
@@ -56,35 +75,78 @@ export async function GET(request: NextRequest) {
     }
 
     const now = new Date();
-    const results: Array<{ id: string; type: string; status: string; error?: string }> = [];
+    const results: Array<{
+      id: string;
+      type: string;
+      status: string;
+      error?: string;
+      nextAttemptAt?: string;
+      postedId?: string;
+      variantId?: string;
+    }> = [];
+
+    // 0. 処理中のまま放置された投稿を回収（前回の実行がクラッシュした場合など）
+    const recovered = await recoverStaleJobs(now);
+
+    // 公開クォータを超える分は延期し、以降の実行で上限の範囲内に分散して投稿する
+    const quota = createQuotaTracker(now);
+
+    // リトライ待ちの投稿はバックオフ時刻を過ぎたものだけを対象にする
+    // トークンが失効したアカウントの投稿は再認証まで処理しない
+    const readyForAttempt = {
+      OR: [
+        { nextAttemptAt: null },
+        { nextAttemptAt: { lte: now } },
+      ],
+      account: { tokenStatus: 'valid' },
+    };
 
     // 1. 予約投稿を処理（scheduledAtが現在時刻以前でpendingのもの）
+    // 投稿キューの投稿（queuePositionあり）は、キューを一時停止したアカウントの分を除く
     const scheduledPosts = await prisma.scheduledPost.findMany({
       where: {
         status: 'pending',
         scheduledAt: { lte: now },
         isRecurring: false,
+        ...readyForAttempt,
+        AND: [
+          { OR: [{ queuePosition: null }, { account: { queuePaused: false } }] },
+        ],
       },
       include: {
         account: {
           select: {
+            id: true,
+            userId: true,
             accessToken: true,
             username: true,
+            timezone: true,
           },
         },
       },
     });
 
     for (const post of scheduledPosts) {
-      const result = await processPost(post);
+      // テンプレートとして予約された投稿は投稿時点の値で変数を展開
+      const text = post.isTemplate && post.text
+        ? await renderAccountTemplate(post.text, post.account, { now, timezone: post.timezone })
+        : post.text;
+
+      const result = await processPost({ ...post, text }, quota, now);
+      if (result.status === 'skipped') continue;
       results.push({ id: post.id, type: 'scheduled', ...result });
+      // リトライ予定・延期・トークン失効による停止の場合は通知しない
+      if (result.status === 'retrying' || result.status === 'deferred' || result.status === 'paused') continue;
+      if (result.status === 'completed' && result.postedId) {
+        await createFollowUpJobs(post, result.postedId);
+      }
       // Webhook通知
       await sendWebhookNotification({
         type: result.status === 'completed' ? 'post_success' : 'post_failed',
         postId: post.id,
         postType: post.type,
         username: post.account.username || undefined,
-        text: post.text || undefined,
+        text: text || undefined,
         error: result.error,
       });
     }
@@ -95,56 +157,127 @@ export async function GET(request: NextRequest) {
         status: 'pending',
         isRecurring: true,
         scheduledAt: { lte: now },
+        ...readyForAttempt,
       },
       include: {
         account: {
           select: {
+            id: true,
+            userId: true,
             accessToken: true,
             username: true,
+            timezone: true,
           },
         },
       },
     });
 
     for (const post of recurringPosts) {
-      // 定期投稿の条件をチェック
-      if (!shouldPostRecurring(post, now)) {
+      // 繰り返し設定を解決（不正なルールの投稿はスキップ）
+      let recurrence: RecurrenceOptions | null;
+      let due: Date | null;
+      try {
+        recurrence = resolveRecurrence(post);
+        due = recurrence ? getNextOccurrence(recurrence, new Date(post.scheduledAt.getTime() - 1)) : null;
+      } catch (error) {
+        console.error(`Invalid recurrence rule for ${post.id}:`, error);
+        continue;
+      }
+      if (!recurrence) {
         continue;
       }
 
-      const result = await processPost(post);
-      results.push({ id: post.id, type: 'recurring', ...result });
+      // 繰り返しが終了している場合は完了にする
+      if (!due) {
+        await prisma.scheduledPost.update({
+          where: { id: post.id },
+          data: { status: 'completed' },
+        });
+        continue;
+      }
+
+      // 予約時刻がルール上の発生日時でない場合（旧形式の投稿など）は次の発生日時に移動する
+      if (due > now) {
+        await prisma.scheduledPost.update({
+          where: { id: post.id },
+          data: { scheduledAt: due },
+        });
+        continue;
+      }
+
+      // コンテンツローテーション: 今回投稿するバリエーションを選択
+      const variant = await pickVariantForOccurrence(post);
+      // 代替テキストは元のメディアに対応するため外し、アンケート・リンクはテキストのバリエーションにだけ付ける
+      const selected = variant
+        ? {
+          ...post,
+          type: variant.type,
+          text: variant.text,
+          mediaUrls: variant.mediaUrls,
+          threadPosts: null,
+          altTexts: null,
+          ...(variant.type !== 'text' && { pollOptions: null, linkAttachment: null }),
+        }
+        : post;
+      // 定期投稿の本文は毎回テンプレートとして展開
+      const content = {
+        ...selected,
+        text: selected.text
+          ? await renderAccountTemplate(selected.text, post.account, { now, timezone: post.timezone })
+          : selected.text,
+      };
+
+      const result = await processPost(content, quota, now);
+      if (result.status === 'skipped') continue;
+      results.push({ id: post.id, type: 'recurring', ...result, ...(variant && { variantId: variant.id }) });
+      if (result.status === 'retrying' || result.status === 'deferred' || result.status === 'paused') continue;
       // Webhook通知
       await sendWebhookNotification({
         type: result.status === 'completed' ? 'post_success' : 'post_failed',
         postId: post.id,
-        postType: post.type,
+        postType: content.type,
         username: post.account.username || undefined,
-        text: post.text || undefined,
+        text: content.text || undefined,
         error: result.error,
       });
 
-      // 成功した場合、次回のスケジュールを設定
+      // 成功した場合、次回のスケジュールを設定（終了日・回数に達した場合は完了のまま）
       if (result.status === 'completed') {
-        const nextSchedule = calculateNextSchedule(post, now);
-        if (nextSchedule) {
-          await prisma.scheduledPost.update({
-            where: { id: post.id },
-            data: {
+        if (variant) {
+          await recordVariantPublication(post.id, variant.id, result.postedId, post.scheduledAt, now);
+        }
+
+        const nextSchedule = getNextOccurrence(recurrence, now);
+        await prisma.scheduledPost.update({
+          where: { id: post.id },
+          data: nextSchedule
+            ? {
               scheduledAt: nextSchedule,
               status: 'pending',
               postedId: null,
-            },
-          });
+              attemptCount: 0,
+              currentVariantId: null,
+            }
+            : { currentVariantId: null },
+        });
+
+        // フォローアップ返信は今回の投稿に対して送る
+        if (result.postedId) {
+          await createFollowUpJobs(post, result.postedId);
         }
       }
     }
 
+    // 3. フォローアップ返信を送信（この実行で公開した投稿の遅延なしの返信も含む）
+    const followUps = await dispatchDueFollowUps();
+
     return NextResponse.json({
       success: true,
       timestamp: now.toISOString(),
       processed: results.length,
+      recovered,
       results,
+      followUps,
     });
 
   } catch (error) {
@@ -157,169 +290,164 @@ export async function GET(request: NextRequest) {
 }
 
 // 投稿を実行
-async function processPost(post: {
+async function processPost(post: StoredPostOptions & {
   id: string;
   type: string;
   text: string | null;
   mediaUrls: string | null;
   threadPosts: string | null;
-  account: { accessToken: string };
-}): Promise<{ status: string; error?: string }> {
+  threadPublishedIds: string | null;
+  targetPostId: string | null;
+  attemptCount: number;
+  maxAttempts: number;
+  account: { id: string; userId: string; username: string; accessToken: string };
+}, quota: ReturnType<typeof createQuotaTracker>, now: Date): Promise<{
+  status: 'completed' | 'retrying' | 'failed' | 'skipped' | 'deferred' | 'paused';
+  postedId?: string;
+  error?: string;
+  nextAttemptAt?: string;
+}> {
+  // 処理中としてロック（別の実行が先に取得した場合はスキップ）
+  const claimed = await claimJob(post.id);
+  if (!claimed) {
+    return { status: 'skipped' };
+  }
+  const attemptCount = post.attemptCount + 1;
+
+  // 取得できた投稿だけクォータを確保する（スレッドの再開は残りの投稿の分）
+  const progress = { published: post.type === 'thread' ? parseThreadPublishedIds(post.threadPublishedIds).length : 0 };
+  const fullCost = getPostQuotaCost(post);
+  if (!await quota.reserve(post.account.id, getRemainingQuotaCost(fullCost, progress.published))) {
+    const deferUntil = new Date(now.getTime() + QUOTA_DEFER_MS);
+    await deferJob(post.id, deferUntil, '公開クォータ（24時間あたりの投稿上限）に達したため延期しました');
+    return { status: 'deferred', nextAttemptAt: deferUntil.toISOString() };
+  }
+
   try {
-    // ステータスを処理中に更新
-    await prisma!.scheduledPost.update({
-      where: { id: post.id },
-      data: { status: 'processing' },
-    });
+    const postedId = await publishPost(post, progress);
 
-    const client = new ThreadsAPIClient(post.account.accessToken);
-
-    let postedId: string;
-
-    // 投稿タイプに応じて処理
-    if (post.type === 'text' || (!post.mediaUrls && !post.threadPosts)) {
-      // テキスト投稿
-      const result = await client.postText(post.text || '');
-      postedId = result.id;
-    } else if (post.type === 'image') {
-      // 画像投稿
-      const mediaUrls = JSON.parse(post.mediaUrls!) as string[];
-      const result = await client.postImage(mediaUrls[0], post.text || undefined);
-      postedId = result.id;
-    } else if (post.type === 'video') {
-      // 動画投稿
-      const mediaUrls = JSON.parse(post.mediaUrls!) as string[];
-      const result = await client.postVideo(mediaUrls[0], post.text || undefined);
-      postedId = result.id;
-    } else if (post.type === 'carousel') {
-      // カルーセル投稿
-      const mediaUrls = JSON.parse(post.mediaUrls!) as string[];
-      const items = mediaUrls.map(url => ({
-        type: url.match(/\.(mp4|mov|webm)$/i) ? 'VIDEO' : 'IMAGE' as 'VIDEO' | 'IMAGE',
-        url,
-      }));
-      const result = await client.postCarousel(items, post.text || undefined);
-      postedId = result.id;
-    } else if (post.type === 'thread') {
-      // スレッド投稿
-      if (!post.threadPosts) {
-        throw new Error('Thread posts data is missing');
-      }
-      const threadPostsData = JSON.parse(post.threadPosts) as Array<{
-        text: string;
-        imageUrl?: string;
-        videoUrl?: string;
-      }>;
-      const result = await client.postThread(threadPostsData);
-      postedId = result.ids[0];
-    } else {
-      // テキストとして投稿
-      const result = await client.postText(post.text || '');
-      postedId = result.id;
+    // 公開後の記録に失敗した場合は、再試行すると二重投稿になるためデッドレターにする
+    try {
+      await recordJobSuccess(post.id, postedId);
+    } catch (error) {
+      throw new PublishedJobError(postedId, error);
     }
 
-    // 成功
-    await prisma!.scheduledPost.update({
-      where: { id: post.id },
-      data: {
-        status: 'completed',
-        postedId,
-      },
-    });
-
-    return { status: 'completed' };
+    return { status: 'completed', postedId };
 
   } catch (error) {
-    console.error(`Failed to post ${post.id}:`, error);
-
-    // 失敗
-    await prisma!.scheduledPost.update({
-      where: { id: post.id },
-      data: {
-        status: 'failed',
-        errorMessage: error instanceof Error ? error.message : 'Unknown error',
-      },
-    });
+    console.error(`Failed to post ${post.id} (attempt ${attemptCount}/${post.maxAttempts}):`, error);
 
-    return {
-      status: 'failed',
-      error: error instanceof Error ? error.message : 'Unknown error',
-    };
-  }
-}
+    // 公開しなかった分のクォータを戻す（公開されたか分からない場合は使ったものとして残す）
+    if (classifyPublishError(error) !== 'unconfirmed') {
+      await quota.release(post.account.id, getRemainingQuotaCost(fullCost, progress.published));
+    }
 
-// 定期投稿の条件をチェック
-function shouldPostRecurring(post: {
-  recurringType: string | null;
-  recurringDays: string | null;
-}, now: Date): boolean {
-  if (!post.recurringType) return false;
+    // トークンが拒否された場合はアカウントの投稿を停止し、再認証後に再開する（デッドレターにしない）
+    if (isAuthError(error)) {
+      await markTokenInvalid(post.account, error.message, now);
+      await pauseJobForInvalidToken(post.id, `${error.message}（アクセストークンが無効なため停止しました。再認証すると再開します）`);
+      return { status: 'paused', error: error.message };
+    }
 
-  const dayOfWeek = now.getDay(); // 0-6
-  const dayOfMonth = now.getDate(); // 1-31
+    // 失敗（一時的なエラーならバックオフ後に再試行、それ以外・公開されたか分からない場合はデッドレター）
+    const failure = await recordJobFailure(
+      { id: post.id, attemptCount, maxAttempts: post.maxAttempts },
+      error
+    );
 
-  switch (post.recurringType) {
-    case 'daily':
-      return true;
+    if (failure.status === 'pending') {
+      return {
+        status: 'retrying',
+        error: failure.error,
+        nextAttemptAt: failure.nextAttemptAt?.toISOString(),
+      };
+    }
 
-    case 'weekly':
-      if (!post.recurringDays) return false;
-      try {
-        const days = JSON.parse(post.recurringDays) as number[];
-        return days.includes(dayOfWeek);
-      } catch {
-        return false;
-      }
+    return { status: 'failed', error: failure.error };
+  }
+}
 
-    case 'monthly':
-      if (!post.recurringDays) return false;
-      try {
-        const days = JSON.parse(post.recurringDays) as number[];
-        return days.includes(dayOfMonth);
-      } catch {
-        return false;
-      }
+// 投稿タイプに応じて公開し、投稿IDを返す（progress.published はスレッドの公開済みの件数）
+async function publishPost(post: Parameters<typeof processPost>[0], progress: { published: number }): Promise<string> {
+  const client = createAccountClient(post.account);
+  const { altTexts, ...options } = parseStoredPostOptions(post);
 
-    default:
-      return false;
+  let postedId: string;
+
+  // 投稿タイプに応じて処理
+  if (post.type === 'quote' || post.type === 'repost') {
+    // 引用投稿・リポスト（対象の投稿IDは予約時にURLから解決済み）
+    if (!post.targetPostId) {
+      throw new Error('Target post ID is missing');
+    }
+    const result = post.type === 'quote'
+      ? await client.postText(post.text || '', undefined, { ...options, quotePostId: post.targetPostId })
+      : await client.repost(post.targetPostId);
+    postedId = result.id;
+  } else if (post.type === 'text' || (!post.mediaUrls && !post.threadPosts)) {
+    // テキスト投稿
+    const result = await client.postText(post.text || '', undefined, options);
+    postedId = result.id;
+  } else if (post.type === 'image') {
+    // 画像投稿
+    const mediaUrls = JSON.parse(post.mediaUrls!) as string[];
+    const result = await client.postImage(mediaUrls[0], post.text || undefined, undefined, { ...options, altText: altTexts?.[0] });
+    postedId = result.id;
+  } else if (post.type === 'video') {
+    // 動画投稿
+    const mediaUrls = JSON.parse(post.mediaUrls!) as string[];
+    const result = await client.postVideo(mediaUrls[0], post.text || undefined, undefined, { ...options, altText: altTexts?.[0] });
+    postedId = result.id;
+  } else if (post.type === 'carousel') {
+    // カルーセル投稿
+    const mediaUrls = JSON.parse(post.mediaUrls!) as string[];
+    const items = mediaUrls.map((url, i) => ({
+      type: url.match(/\.(mp4|mov|webm)$/i) ? 'VIDEO' : 'IMAGE' as 'VIDEO' | 'IMAGE',
+      url,
+      altText: altTexts?.[i] || undefined,
+    }));
+    const result = await client.postCarousel(items, post.text || undefined, undefined, options);
+    postedId = result.id;
+  } else if (post.type === 'thread') {
+    // スレッド投稿
+    if (!post.threadPosts) {
+      throw new Error('Thread posts data is missing');
+    }
+    const threadPostsData = JSON.parse(post.threadPosts) as Array<{
+      text: string;
+      imageUrl?: string;
+      videoUrl?: string;
+      altText?: string;
+    }>;
+    // 前回の試行で公開済みの投稿は飛ばし、失敗した投稿から続ける
+    const result = await client.postThread(threadPostsData, options, {
+      publishedIds: parseThreadPublishedIds(post.threadPublishedIds),
+      onPublished: async ids => {
+        progress.published = ids.length;
+        try {
+          await saveThreadProgress(post.id, ids);
+        } catch (error) {
+          throw new PublishedJobError(ids[ids.length - 1], error);
+        }
+      },
+    });
+    postedId = result.ids[0];
+  } else {
+    // テキストとして投稿
+    const result = await client.postText(post.text || '', undefined, options);
+    postedId = result.id;
   }
+
+  return postedId;
 }
 
-// 次回のスケジュールを計算
-function calculateNextSchedule(post: {
-  recurringType: string | null;
-  scheduledAt: Date;
-}, now: Date): Date | null {
-  if (!post.recurringType) return null;
-
-  const baseTime = new Date(post.scheduledAt);
-  const nextSchedule = new Date(now);
-
-  // 同じ時刻を維持
-  nextSchedule.setHours(baseTime.getHours());
-  nextSchedule.setMinutes(baseTime.getMinutes());
-  nextSchedule.setSeconds(0);
-  nextSchedule.setMilliseconds(0);
-
-  switch (post.recurringType) {
-    case 'daily':
-      // 翌日
-      nextSchedule.setDate(nextSchedule.getDate() + 1);
-      break;
-
-    case 'weekly':
-      // 来週の同じ曜日
-      nextSchedule.setDate(nextSchedule.getDate() + 7);
-      break;
-
-    case 'monthly':
-      // 来月の同じ日
-      nextSchedule.setMonth(nextSchedule.getMonth() + 1);
-      break;
-
-    default:
-      return null;
+function parseThreadPublishedIds(value: string | null): string[] {
+  if (!value) return [];
+  try {
+    const ids = JSON.parse(value);
+    return Array.isArray(ids) ? ids.filter((id): id is string => typeof id === 'string') : [];
+  } catch {
+    return [];
   }
-
-  return nextSchedule;
 }
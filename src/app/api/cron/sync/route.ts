@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma, isDatabaseAvailable } from '@/lib/db';
+import { syncAccountPosts, type SyncResult } from '@/lib/analytics/post-sync';
+import { syncAccountReplies, type ReplySyncResult } from '@/lib/inbox/replies';
+import { createAccountClient } from '@/lib/threads/accounts';
+import { isAuthError } from '@/lib/threads/errors';
+import { markTokenInvalid } from '@/lib/threads/token-refresh';
+
+// Vercel Cron認証
+const CRON_SECRET = process.env.CRON_SECRET;
+
+// 全アカウントの投稿・インサイトと、受信箱のリプライを増分同期するCronジョブ
+export async function GET(request: NextRequest) {
+  try {
+    // Cron認証チェック（本番環境用）
+    const authHeader = request.headers.get('authorization');
+    if (CRON_SECRET && authHeader !== `Bearer ${CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isDatabaseAvailable() || !prisma) {
+      return NextResponse.json({ error: 'Database not available' }, { status: 503 });
+    }
+
+    const now = new Date();
+    const results: Array<{
+      accountId: string;
+      username: string;
+      status: string;
+      error?: string;
+      replies?: ReplySyncResult;
+    } & Partial<SyncResult>> = [];
+
+    // トークンが失効したアカウントは再認証まで同期しない
+    const accounts = await prisma.threadsAccount.findMany({
+      where: { tokenStatus: 'valid' },
+      select: {
+        id: true,
+        userId: true,
+        username: true,
+        accessToken: true,
+        postsBackfillCursor: true,
+        postsBackfilledAt: true,
+      },
+    });
+
+    for (const account of accounts) {
+      try {
+        const result = await syncAccountPosts(account, now);
+        // 投稿の同期でレート制限に達した場合、リプライは次回に回す
+        const replies = result.rateLimited
+          ? undefined
+          : await syncAccountReplies(createAccountClient(account), account.id, now);
+        results.push({
+          accountId: account.id,
+          username: account.username,
+          status: result.rateLimited || replies?.rateLimited ? 'rate_limited' : 'completed',
+          ...result,
+          replies,
+        });
+      } catch (error) {
+        console.error(`Failed to sync posts for ${account.id}:`, error);
+        // トークンが拒否された場合は失効として記録し、予約投稿と自動リプライを停止する
+        if (isAuthError(error)) {
+          await markTokenInvalid(account, error.message, now);
+          results.push({ accountId: account.id, username: account.username, status: 'token_invalid', error: error.message });
+          continue;
+        }
+        results.push({
+          accountId: account.id,
+          username: account.username,
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      timestamp: now.toISOString(),
+      processed: results.length,
+      results,
+    });
+
+  } catch (error) {
+    console.error('Cron job failed:', error);
+    return NextResponse.json(
+      { error: 'Cron job failed', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
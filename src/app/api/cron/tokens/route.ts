@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma, isDatabaseAvailable } from '@/lib/db';
+import { findAccountsDueForRefresh, isRefreshable, refreshAccountToken } from '@/lib/threads/token-refresh';
+
+// Vercel Cron認証
+const CRON_SECRET = process.env.CRON_SECRET;
+
+// 有効期限が近い長期トークンをリフレッシュするCronジョブ
+export async function GET(request: NextRequest) {
+  try {
+    // Cron認証チェック（本番環境用）
+    const authHeader = request.headers.get('authorization');
+    if (CRON_SECRET && authHeader !== `Bearer ${CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isDatabaseAvailable() || !prisma) {
+      return NextResponse.json({ error: 'Database not available' }, { status: 503 });
+    }
+
+    const now = new Date();
+    const results: Array<{ accountId: string; username: string; status: string; tokenExpiresAt?: string; error?: string }> = [];
+
+    const accounts = await findAccountsDueForRefresh(now);
+
+    for (const account of accounts) {
+      if (!isRefreshable(account, now)) {
+        results.push({ accountId: account.id, username: account.username, status: 'skipped' });
+        continue;
+      }
+
+      try {
+        const result = await refreshAccountToken(account, now);
+        results.push({
+          accountId: account.id,
+          username: account.username,
+          status: result.status,
+          ...(result.status === 'refreshed'
+            ? { tokenExpiresAt: result.tokenExpiresAt.toISOString() }
+            : { error: result.error }),
+        });
+      } catch (error) {
+        console.error(`Failed to refresh token for ${account.id}:`, error);
+        results.push({
+          accountId: account.id,
+          username: account.username,
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      timestamp: now.toISOString(),
+      processed: results.length,
+      results,
+    });
+
+  } catch (error) {
+    console.error('Cron job failed:', error);
+    return NextResponse.json(
+      { error: 'Cron job failed', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma, isDatabaseAvailable } from '@/lib/db';
 import { auth } from '@/lib/auth';
+import { toStoredPostOptions, validatePostOptions } from '@/lib/threads/post-options';
 
 // 下書き一覧取得
 export async function GET() {
@@ -17,7 +18,7 @@ export async function GET() {
   try {
     const drafts = await prisma.draft.findMany({
       where: { userId: session.user.id },
-      include: { account: true },
+      include: { account: { select: { id: true, username: true, name: true, profilePicture: true } } },
       orderBy: { updatedAt: 'desc' },
     });
 
@@ -41,12 +42,21 @@ export async function POST(request: NextRequest) {
   }
 
   try {
-    const { accountId, type, text, mediaUrls, threadPosts } = await request.json();
+    const body = await request.json();
+    const { accountId, type, text, mediaUrls, threadPosts } = body;
 
     if (!accountId) {
       return NextResponse.json({ error: 'Account ID is required' }, { status: 400 });
     }
 
+    const postOptions = validatePostOptions(body, {
+      type,
+      rootHasMedia: type === 'thread' && Boolean(threadPosts?.[0]?.imageUrl || threadPosts?.[0]?.videoUrl),
+    });
+    if (postOptions.error !== undefined) {
+      return NextResponse.json({ error: postOptions.error }, { status: 400 });
+    }
+
     // accountIdの所有者確認
     const account = await prisma.threadsAccount.findFirst({
       where: { id: accountId, userId: session.user.id },
@@ -81,6 +91,7 @@ export async function POST(request: NextRequest) {
         text,
         mediaUrls: mediaUrls ? JSON.stringify(mediaUrls) : null,
         threadPosts: threadPosts ? JSON.stringify(threadPosts) : null,
+        ...toStoredPostOptions(postOptions.options),
       },
     });
 
@@ -104,7 +115,16 @@ export async function PUT(request: NextRequest) {
   }
 
   try {
-    const { id, type, text, mediaUrls, threadPosts } = await request.json();
+    const body = await request.json();
+    const { id, type, text, mediaUrls, threadPosts } = body;
+
+    const postOptions = validatePostOptions(body, {
+      type,
+      rootHasMedia: type === 'thread' && Boolean(threadPosts?.[0]?.imageUrl || threadPosts?.[0]?.videoUrl),
+    });
+    if (postOptions.error !== undefined) {
+      return NextResponse.json({ error: postOptions.error }, { status: 400 });
+    }
 
     // 所有者確認
     const existingDraft = await prisma.draft.findUnique({
@@ -122,6 +142,7 @@ export async function PUT(request: NextRequest) {
         text,
         mediaUrls: mediaUrls ? JSON.stringify(mediaUrls) : null,
         threadPosts: threadPosts ? JSON.stringify(threadPosts) : null,
+        ...toStoredPostOptions(postOptions.options),
       },
     });
 
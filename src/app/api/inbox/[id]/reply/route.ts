@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma, isDatabaseAvailable } from '@/lib/db';
+import { auth } from '@/lib/auth';
+import { createAccountClient } from '@/lib/threads/accounts';
+import { threadsErrorResponse } from '@/lib/threads/errors';
+
+// POST: 受信箱から返信を投稿（返信先のリプライは返信済み・既読にする）
+// body: { text: string }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!isDatabaseAvailable() || !prisma) {
+      return NextResponse.json({ error: 'Database not available' }, { status: 503 });
+    }
+
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { text: rawText } = await request.json();
+    const text = typeof rawText === 'string' ? rawText.trim() : '';
+    if (!text || text.length > 500) {
+      return NextResponse.json({ error: '返信は1〜500文字で入力してください。' }, { status: 400 });
+    }
+
+    const target = await prisma.reply.findFirst({
+      where: { id, account: { userId: session.user.id } },
+      include: { account: { select: { accessToken: true, username: true } } },
+    });
+    if (!target) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    let postedId: string;
+    try {
+      const client = createAccountClient(target.account);
+      postedId = (await client.postText(text, target.replyId)).id;
+    } catch (sendError) {
+      console.error(`Failed to send reply to ${target.replyId}:`, sendError);
+      return threadsErrorResponse(sendError, '返信の送信に失敗しました');
+    }
+
+    // 次回の同期を待たずに会話に表示する
+    const now = new Date();
+    const [reply] = await prisma.$transaction([
+      prisma.reply.create({
+        data: {
+          accountId: target.accountId,
+          postId: target.postId,
+          replyId: postedId,
+          parentReplyId: target.replyId,
+          username: target.account.username,
+          text,
+          isOwn: true,
+          isRead: true,
+          publishedAt: now,
+        },
+      }),
+      prisma.reply.update({
+        where: { id },
+        data: { answeredAt: now, isRead: true },
+      }),
+    ]);
+
+    return NextResponse.json({ success: true, reply });
+  } catch (error) {
+    console.error('Failed to reply from inbox:', error);
+    return NextResponse.json({ error: 'Failed to send reply' }, { status: 500 });
+  }
+}
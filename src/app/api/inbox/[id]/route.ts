@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma, isDatabaseAvailable } from '@/lib/db';
+import { auth } from '@/lib/auth';
+
+const MAX_ASSIGNEE_LENGTH = 50;
+
+// ログインユーザーのアカウントの投稿へのリプライのみ取得
+async function findOwnedReply(id: string) {
+  if (!isDatabaseAvailable() || !prisma) {
+    return { error: NextResponse.json({ error: 'Database not available' }, { status: 503 }) };
+  }
+
+  const session = await auth();
+  if (!session?.user?.id) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  const reply = await prisma.reply.findFirst({
+    where: { id, account: { userId: session.user.id } },
+  });
+  if (!reply) {
+    return { error: NextResponse.json({ error: 'Not found' }, { status: 404 }) };
+  }
+
+  return { reply };
+}
+
+// GET: リプライが付いた投稿と、そのスレッド内のすべてのリプライ（古い順。parentReplyId で入れ子にする）
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const found = await findOwnedReply(id);
+  if (found.error) return found.error;
+
+  try {
+    const [post, replies] = await Promise.all([
+      prisma!.threadsPost.findUnique({
+        where: { id: found.reply.postId },
+        select: { id: true, mediaId: true, text: true, permalink: true, publishedAt: true },
+      }),
+      prisma!.reply.findMany({
+        where: { postId: found.reply.postId },
+        orderBy: { publishedAt: 'asc' },
+      }),
+    ]);
+
+    return NextResponse.json({ post, replies });
+  } catch (error) {
+    console.error('Get conversation error:', error);
+    return NextResponse.json({ error: 'Failed to get conversation' }, { status: 500 });
+  }
+}
+
+// PATCH: 既読・未読、担当者の変更
+// body: { isRead?: boolean, assignee?: string | null }
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const found = await findOwnedReply(id);
+  if (found.error) return found.error;
+
+  try {
+    const body = await request.json();
+    const data: { isRead?: boolean; assignee?: string | null } = {};
+
+    if (typeof body.isRead === 'boolean') data.isRead = body.isRead;
+    if (body.assignee !== undefined) {
+      const assignee = typeof body.assignee === 'string' ? body.assignee.trim() : '';
+      if (assignee.length > MAX_ASSIGNEE_LENGTH) {
+        return NextResponse.json({ error: `担当者名は${MAX_ASSIGNEE_LENGTH}文字以内にしてください。` }, { status: 400 });
+      }
+      data.assignee = assignee || null;
+    }
+
+    const reply = await prisma!.reply.update({ where: { id }, data });
+    return NextResponse.json({ reply });
+  } catch (error) {
+    console.error('Update reply error:', error);
+    return NextResponse.json({ error: 'Failed to update reply' }, { status: 500 });
+  }
+}
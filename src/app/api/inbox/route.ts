@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { Prisma } from '@prisma/client';
+import { prisma, isDatabaseAvailable } from '@/lib/db';
+import { auth } from '@/lib/auth';
+import { findUserAccount } from '@/lib/threads/accounts';
+
+const PAGE_SIZE = 50;
+
+// GET: 受信箱（全アカウントの自分の投稿へのリプライ。新しい順）
+// ?accountId=&filter=all|unread|unanswered&postId=&q=&assignee=&before=ISO日時
+export async function GET(request: NextRequest) {
+  if (!isDatabaseAvailable() || !prisma) {
+    return NextResponse.json({ error: 'Database not available' }, { status: 503 });
+  }
+
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const params = request.nextUrl.searchParams;
+    const accountId = params.get('accountId');
+    const filter = params.get('filter') || 'all';
+    const postId = params.get('postId');
+    const q = params.get('q')?.trim();
+    const assignee = params.get('assignee');
+    const before = params.get('before');
+
+    // アカウント指定なしはログインユーザーの全アカウント
+    const base: Prisma.ReplyWhereInput = { isOwn: false, account: { userId: session.user.id } };
+    if (accountId) {
+      const account = await findUserAccount(session.user.id, accountId);
+      if (!account) {
+        return NextResponse.json({ error: 'アカウントが見つかりません。' }, { status: 404 });
+      }
+      base.accountId = account.id;
+    }
+
+    const where: Prisma.ReplyWhereInput = {
+      ...base,
+      ...(filter === 'unread' && { isRead: false }),
+      ...(filter === 'unanswered' && { answeredAt: null }),
+      ...(postId && { postId }),
+      ...(assignee && { assignee: assignee === 'none' ? null : assignee }),
+      ...(q && {
+        OR: [
+          { text: { contains: q, mode: 'insensitive' as const } },
+          { username: { contains: q, mode: 'insensitive' as const } },
+        ],
+      }),
+      ...(before && { publishedAt: { lt: new Date(before) } }),
+    };
+
+    const [replies, unread, unanswered, assignees] = await Promise.all([
+      prisma.reply.findMany({
+        where,
+        orderBy: { publishedAt: 'desc' },
+        take: PAGE_SIZE + 1,
+        include: {
+          post: { select: { id: true, mediaId: true, text: true, permalink: true } },
+          account: { select: { id: true, threadsUserId: true, username: true } },
+        },
+      }),
+      prisma.reply.count({ where: { ...base, isRead: false } }),
+      prisma.reply.count({ where: { ...base, answeredAt: null } }),
+      prisma.reply.findMany({
+        where: { ...base, assignee: { not: null } },
+        distinct: ['assignee'],
+        select: { assignee: true },
+      }),
+    ]);
+
+    return NextResponse.json({
+      replies: replies.slice(0, PAGE_SIZE),
+      hasMore: replies.length > PAGE_SIZE,
+      counts: { unread, unanswered },
+      assignees: assignees.map(a => a.assignee).filter(Boolean),
+    });
+  } catch (error) {
+    console.error('Get inbox error:', error);
+    return NextResponse.json({ error: 'Failed to get inbox' }, { status: 500 });
+  }
+}
+
+// PATCH: まとめて既読・未読にする
+// body: { ids: string[], isRead: boolean } または { accountId?, allRead: true }（すべて既読）
+export async function PATCH(request: NextRequest) {
+  if (!isDatabaseAvailable() || !prisma) {
+    return NextResponse.json({ error: 'Database not available' }, { status: 503 });
+  }
+
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { ids, isRead, accountId, allRead } = await request.json();
+    const where: Prisma.ReplyWhereInput = { isOwn: false, account: { userId: session.user.id } };
+
+    if (allRead === true) {
+      if (accountId) {
+        const account = await findUserAccount(session.user.id, accountId);
+        if (!account) {
+          return NextResponse.json({ error: 'アカウントが見つかりません。' }, { status: 404 });
+        }
+        where.accountId = account.id;
+      }
+      const result = await prisma.reply.updateMany({ where: { ...where, isRead: false }, data: { isRead: true } });
+      return NextResponse.json({ success: true, updated: result.count });
+    }
+
+    if (!Array.isArray(ids) || typeof isRead !== 'boolean') {
+      return NextResponse.json({ error: 'ids と isRead を指定してください。' }, { status: 400 });
+    }
+
+    const result = await prisma.reply.updateMany({
+      where: { ...where, id: { in: ids } },
+      data: { isRead },
+    });
+    return NextResponse.json({ success: true, updated: result.count });
+  } catch (error) {
+    console.error('Update inbox error:', error);
+    return NextResponse.json({ error: 'Failed to update inbox' }, { status: 500 });
+  }
+}
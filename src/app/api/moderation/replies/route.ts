@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma, isDatabaseAvailable } from '@/lib/db';
+import { auth } from '@/lib/auth';
+import { createAccountClient, findUserAccount } from '@/lib/threads/accounts';
+import { threadsErrorResponse } from '@/lib/threads/errors';
+import { setReplyHidden } from '@/lib/moderation/actions';
+
+// POST: リプライを手動で非表示・再表示にする
+// body: { accountId, replyId: Threads上のリプライID, hidden: boolean }
+export async function POST(request: NextRequest) {
+  try {
+    if (!isDatabaseAvailable() || !prisma) {
+      return NextResponse.json({ error: 'Database not available' }, { status: 503 });
+    }
+
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { accountId, replyId, hidden } = await request.json();
+    if (!accountId || typeof replyId !== 'string' || !replyId || typeof hidden !== 'boolean') {
+      return NextResponse.json({ error: 'accountId, replyId, hidden を指定してください。' }, { status: 400 });
+    }
+
+    const account = await findUserAccount(session.user.id, accountId);
+    if (!account) {
+      return NextResponse.json({ error: 'アカウントが見つかりません。' }, { status: 404 });
+    }
+
+    // 受信箱に保存済みならユーザー名と本文をログに残す
+    const stored = await prisma.reply.findUnique({
+      where: { replyId },
+      select: { accountId: true, username: true, text: true },
+    });
+    const known = stored?.accountId === account.id ? stored : null;
+
+    try {
+      await setReplyHidden(
+        createAccountClient(account),
+        { accountId: account.id, replyId, username: known?.username, text: known?.text },
+        hidden,
+        { reason: 'manual' }
+      );
+    } catch (manageError) {
+      console.error(`Failed to ${hidden ? 'hide' : 'unhide'} reply ${replyId}:`, manageError);
+      return threadsErrorResponse(manageError, hidden ? 'リプライの非表示に失敗しました' : 'リプライの再表示に失敗しました');
+    }
+
+    return NextResponse.json({ success: true, hideStatus: hidden ? 'HIDDEN' : 'UNHUSHED' });
+  } catch (error) {
+    console.error('Failed to moderate reply:', error);
+    return NextResponse.json({ error: 'Failed to moderate reply' }, { status: 500 });
+  }
+}
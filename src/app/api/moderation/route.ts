@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma, isDatabaseAvailable } from '@/lib/db';
+import { auth } from '@/lib/auth';
+import { findUserAccount } from '@/lib/threads/accounts';
+import { parseStoredModerationSettings, validateModerationSettings } from '@/lib/moderation/rules';
+
+const LOG_LIMIT = 50;
+
+// GET: モデレーション設定と最近のログ（?accountId=）
+export async function GET(request: NextRequest) {
+  if (!isDatabaseAvailable() || !prisma) {
+    return NextResponse.json({ error: 'Database not available' }, { status: 503 });
+  }
+
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const accountId = request.nextUrl.searchParams.get('accountId');
+    if (!accountId) {
+      return NextResponse.json({ error: 'accountId is required' }, { status: 400 });
+    }
+
+    const account = await findUserAccount(session.user.id, accountId);
+    if (!account) {
+      return NextResponse.json({ error: 'アカウントが見つかりません。' }, { status: 404 });
+    }
+
+    const [setting, logs] = await Promise.all([
+      prisma.moderationSetting.findUnique({ where: { accountId: account.id } }),
+      prisma.moderationLog.findMany({
+        where: { accountId: account.id },
+        orderBy: { createdAt: 'desc' },
+        take: LOG_LIMIT,
+      }),
+    ]);
+
+    return NextResponse.json({ settings: parseStoredModerationSettings(setting), logs });
+  } catch (error) {
+    console.error('Get moderation error:', error);
+    return NextResponse.json({ error: 'Failed to get moderation settings' }, { status: 500 });
+  }
+}
+
+// PUT: モデレーション設定を保存
+// body: { accountId, isActive, action: 'hide'|'flag', blockedWords: string[], maxLinks, repeatThreshold, toxicityThreshold }
+export async function PUT(request: NextRequest) {
+  if (!isDatabaseAvailable() || !prisma) {
+    return NextResponse.json({ error: 'Database not available' }, { status: 503 });
+  }
+
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    if (!body.accountId) {
+      return NextResponse.json({ error: 'accountId is required' }, { status: 400 });
+    }
+
+    const account = await findUserAccount(session.user.id, body.accountId);
+    if (!account) {
+      return NextResponse.json({ error: 'アカウントが見つかりません。' }, { status: 404 });
+    }
+
+    const validated = validateModerationSettings(body);
+    if (validated.error !== undefined) {
+      return NextResponse.json({ error: validated.error }, { status: 400 });
+    }
+
+    const { blockedWords, ...settings } = validated.settings;
+    const data = { ...settings, blockedWords: blockedWords.length > 0 ? JSON.stringify(blockedWords) : null };
+    await prisma.moderationSetting.upsert({
+      where: { accountId: account.id },
+      create: { accountId: account.id, ...data },
+      update: data,
+    });
+
+    return NextResponse.json({ success: true, settings: validated.settings });
+  } catch (error) {
+    console.error('Update moderation error:', error);
+    return NextResponse.json({ error: 'Failed to update moderation settings' }, { status: 500 });
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma, isDatabaseAvailable } from '@/lib/db';
+import { auth } from '@/lib/auth';
+
+// 通知一覧取得（新しい順に最大100件）
+export async function GET() {
+  if (!isDatabaseAvailable() || !prisma) {
+    return NextResponse.json({ error: 'Database not available' }, { status: 503 });
+  }
+
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const notifications = await prisma.notification.findMany({
+      where: { userId: session.user.id },
+      orderBy: { createdAt: 'desc' },
+      take: 100,
+    });
+
+    return NextResponse.json({ notifications });
+  } catch (error) {
+    console.error('Get notifications error:', error);
+    return NextResponse.json({ error: 'Failed to get notifications' }, { status: 500 });
+  }
+}
+
+// 既読にする（id 指定なしの場合はすべて）
+export async function PUT(request: NextRequest) {
+  if (!isDatabaseAvailable() || !prisma) {
+    return NextResponse.json({ error: 'Database not available' }, { status: 503 });
+  }
+
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { id } = await request.json();
+
+    await prisma.notification.updateMany({
+      where: { userId: session.user.id, ...(id && { id }) },
+      data: { isRead: true },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Update notifications error:', error);
+    return NextResponse.json({ error: 'Failed to update notifications' }, { status: 500 });
+  }
+}
+
+// 削除（id 指定なしの場合はすべて）
+export async function DELETE(request: NextRequest) {
+  if (!isDatabaseAvailable() || !prisma) {
+    return NextResponse.json({ error: 'Database not available' }, { status: 503 });
+  }
+
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    await prisma.notification.deleteMany({
+      where: { userId: session.user.id, ...(id && { id }) },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete notifications error:', error);
+    return NextResponse.json({ error: 'Failed to delete notifications' }, { status: 500 });
+  }
+}
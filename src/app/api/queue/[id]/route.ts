@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma, isDatabaseAvailable } from '@/lib/db';
+import { auth } from '@/lib/auth';
+import { moveToFront, reflowQueue, shareNow } from '@/lib/scheduler/slots';
+
+// ログインユーザーのキューの投稿（投稿待ちのもの）のみ取得
+async function findQueuedPost(id: string) {
+  if (!isDatabaseAvailable() || !prisma) {
+    return { error: NextResponse.json({ error: 'Database not available' }, { status: 503 }) };
+  }
+
+  const session = await auth();
+  if (!session?.user?.id) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  const post = await prisma.scheduledPost.findFirst({
+    where: { id, userId: session.user.id, status: 'pending', queuePosition: { not: null } },
+  });
+  if (!post) {
+    return { error: NextResponse.json({ error: 'Not found' }, { status: 404 }) };
+  }
+
+  return { post };
+}
+
+// POST: 次の枠で投稿（action: share_next）・すぐに投稿（action: share_now）
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const found = await findQueuedPost(id);
+  if (found.error) return found.error;
+  const { post } = found;
+
+  try {
+    const { action } = await request.json();
+
+    if (action === 'share_next') {
+      await moveToFront(post.accountId, id);
+    } else if (action === 'share_now') {
+      await shareNow(post.accountId, id);
+    } else {
+      return NextResponse.json({ error: 'action は share_next または share_now を指定してください。' }, { status: 400 });
+    }
+
+    const updated = await prisma!.scheduledPost.findUnique({ where: { id } });
+    return NextResponse.json({ success: true, scheduledPost: updated });
+  } catch (error) {
+    console.error('Queue action error:', error);
+    return NextResponse.json({ error: 'Failed to update queued post' }, { status: 500 });
+  }
+}
+
+// DELETE: キューから削除し、後ろの投稿を前の枠に詰める
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const found = await findQueuedPost(id);
+  if (found.error) return found.error;
+
+  try {
+    await prisma!.scheduledPost.delete({ where: { id } });
+    await reflowQueue(found.post.accountId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete queued post error:', error);
+    return NextResponse.json({ error: 'Failed to delete queued post' }, { status: 500 });
+  }
+}
@@ -0,0 +1,171 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma, isDatabaseAvailable } from '@/lib/db';
+import { auth } from '@/lib/auth';
+import { findUserAccount } from '@/lib/threads/accounts';
+import { getNextFreeSlot, nextQueuePosition, reflowQueue, reorderQueue, resolveQueueTimezone } from '@/lib/scheduler/slots';
+
+const MAX_TEXT_LENGTH = 500;
+
+// ログインユーザーのアカウントを取得
+async function findQueueAccount(accountId: string | null | undefined) {
+  if (!isDatabaseAvailable() || !prisma) {
+    return { error: NextResponse.json({ error: 'Database not available' }, { status: 503 }) };
+  }
+
+  const session = await auth();
+  if (!session?.user?.id) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  if (!accountId) {
+    return { error: NextResponse.json({ error: 'accountId is required' }, { status: 400 }) };
+  }
+
+  const account = await findUserAccount(session.user.id, accountId);
+  if (!account) {
+    return { error: NextResponse.json({ error: 'アカウントが見つかりません。' }, { status: 404 }) };
+  }
+
+  return { account, userId: session.user.id };
+}
+
+// GET: 投稿枠とキューの投稿（投稿待ちのもの、投稿する順）
+// ?accountId=
+export async function GET(request: NextRequest) {
+  const found = await findQueueAccount(request.nextUrl.searchParams.get('accountId'));
+  if (found.error) return found.error;
+  const { account } = found;
+
+  try {
+    const [slots, items] = await Promise.all([
+      prisma!.postingSlot.findMany({
+        where: { accountId: account.id },
+        orderBy: [{ dayOfWeek: 'asc' }, { hour: 'asc' }, { minute: 'asc' }],
+        select: { id: true, dayOfWeek: true, hour: true, minute: true },
+      }),
+      prisma!.scheduledPost.findMany({
+        where: { accountId: account.id, status: { in: ['pending', 'processing'] }, queuePosition: { not: null } },
+        orderBy: [{ scheduledAt: 'asc' }, { queuePosition: 'asc' }],
+        select: {
+          id: true,
+          type: true,
+          text: true,
+          scheduledAt: true,
+          status: true,
+          queuePosition: true,
+          attemptCount: true,
+          nextAttemptAt: true,
+          errorMessage: true,
+        },
+      }),
+    ]);
+
+    return NextResponse.json({
+      paused: account.queuePaused,
+      timezone: resolveQueueTimezone(account.timezone),
+      slots,
+      items,
+    });
+  } catch (error) {
+    console.error('Get queue error:', error);
+    return NextResponse.json({ error: 'Failed to get queue' }, { status: 500 });
+  }
+}
+
+// POST: キューの末尾に追加（次の空き枠の時刻が自動で割り当てられる）
+export async function POST(request: NextRequest) {
+  try {
+    const { accountId, text, isTemplate } = await request.json();
+
+    const found = await findQueueAccount(accountId);
+    if (found.error) return found.error;
+    const { account, userId } = found;
+
+    if (typeof text !== 'string' || !text.trim()) {
+      return NextResponse.json({ error: '投稿テキストを入力してください。' }, { status: 400 });
+    }
+    if (text.length > MAX_TEXT_LENGTH) {
+      return NextResponse.json({ error: `投稿テキストは${MAX_TEXT_LENGTH}文字以内にしてください。` }, { status: 400 });
+    }
+
+    // プランに基づく制限チェック（予約投稿と同じ）
+    const user = await prisma!.user.findUnique({
+      where: { id: userId },
+      include: { scheduledPosts: { where: { status: 'pending' } } },
+    });
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+    if (user.role !== 'ADMIN') {
+      if (user.plan === 'free') {
+        return NextResponse.json(
+          { error: 'Free プランでは予約投稿は利用できません。Standard プラン以上にアップグレードしてください。' },
+          { status: 403 }
+        );
+      }
+      if (user.plan === 'standard' && user.scheduledPosts.length >= 20) {
+        return NextResponse.json(
+          { error: 'Standard プランでは予約投稿は月20件までです。Pro プランにアップグレードすると無制限になります。' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const scheduledAt = await getNextFreeSlot(account.id);
+    if (!scheduledAt) {
+      return NextResponse.json({ error: '先に投稿枠を設定してください。' }, { status: 400 });
+    }
+
+    const scheduledPost = await prisma!.scheduledPost.create({
+      data: {
+        userId,
+        accountId: account.id,
+        type: 'text',
+        text: text.trim(),
+        isTemplate: Boolean(isTemplate),
+        scheduledAt,
+        status: 'pending',
+        queuePosition: await nextQueuePosition(account.id),
+      },
+    });
+
+    return NextResponse.json({ success: true, scheduledPost });
+  } catch (error) {
+    console.error('Add to queue error:', error);
+    return NextResponse.json({ error: 'Failed to add to queue' }, { status: 500 });
+  }
+}
+
+// PATCH: キューの一時停止・再開（paused）、並び替え（order: 投稿IDの配列）
+export async function PATCH(request: NextRequest) {
+  try {
+    const { accountId, paused, order } = await request.json();
+
+    const found = await findQueueAccount(accountId);
+    if (found.error) return found.error;
+    const { account } = found;
+
+    if (order !== undefined) {
+      if (!Array.isArray(order) || !order.every(id => typeof id === 'string')) {
+        return NextResponse.json({ error: 'order は投稿IDの配列で指定してください。' }, { status: 400 });
+      }
+      await reorderQueue(account.id, order);
+    }
+
+    if (typeof paused === 'boolean' && paused !== account.queuePaused) {
+      await prisma!.threadsAccount.update({
+        where: { id: account.id },
+        data: { queuePaused: paused },
+      });
+      // 再開時は停止中に過ぎた枠を飛ばして、これからの枠に割り当て直す
+      if (!paused) {
+        await reflowQueue(account.id);
+      }
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Update queue error:', error);
+    return NextResponse.json({ error: 'Failed to update queue' }, { status: 500 });
+  }
+}
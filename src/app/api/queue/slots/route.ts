@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma, isDatabaseAvailable } from '@/lib/db';
+import { auth } from '@/lib/auth';
+import { findUserAccount } from '@/lib/threads/accounts';
+import { isValidTimezone } from '@/lib/scheduler/recurrence';
+import { reflowQueue, validateSlots } from '@/lib/scheduler/slots';
+
+// PUT: 投稿枠をまとめて置き換え、キューの投稿の時刻を割り当て直す
+// body: { accountId, slots: [{ dayOfWeek, hour, minute }], timezone? }
+export async function PUT(request: NextRequest) {
+  if (!isDatabaseAvailable() || !prisma) {
+    return NextResponse.json({ error: 'Database not available' }, { status: 503 });
+  }
+
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { accountId, slots: input, timezone } = await request.json();
+    if (!accountId) {
+      return NextResponse.json({ error: 'accountId is required' }, { status: 400 });
+    }
+
+    const account = await findUserAccount(session.user.id, accountId);
+    if (!account) {
+      return NextResponse.json({ error: 'アカウントが見つかりません。' }, { status: 404 });
+    }
+
+    const validated = validateSlots(input);
+    if (validated.error !== undefined) {
+      return NextResponse.json({ error: validated.error }, { status: 400 });
+    }
+    if (timezone !== undefined && (typeof timezone !== 'string' || !isValidTimezone(timezone))) {
+      return NextResponse.json({ error: 'タイムゾーンが不正です。' }, { status: 400 });
+    }
+
+    // 枠がなくなるとキューの投稿に時刻を割り当てられない
+    if (validated.slots.length === 0) {
+      const queued = await prisma.scheduledPost.count({
+        where: { accountId: account.id, status: 'pending', queuePosition: { not: null } },
+      });
+      if (queued > 0) {
+        return NextResponse.json(
+          { error: 'キューに投稿があるため、投稿枠をすべて削除することはできません。' },
+          { status: 400 }
+        );
+      }
+    }
+
+    await prisma.$transaction([
+      prisma.postingSlot.deleteMany({ where: { accountId: account.id } }),
+      prisma.postingSlot.createMany({
+        data: validated.slots.map(slot => ({ accountId: account.id, ...slot })),
+      }),
+      ...(timezone !== undefined
+        ? [prisma.threadsAccount.update({ where: { id: account.id }, data: { timezone } })]
+        : []),
+    ]);
+    await reflowQueue(account.id);
+
+    const slots = await prisma.postingSlot.findMany({
+      where: { accountId: account.id },
+      orderBy: [{ dayOfWeek: 'asc' }, { hour: 'asc' }, { minute: 'asc' }],
+      select: { id: true, dayOfWeek: true, hour: true, minute: true },
+    });
+    return NextResponse.json({ success: true, slots });
+  } catch (error) {
+    console.error('Update posting slots error:', error);
+    return NextResponse.json({ error: 'Failed to update posting slots' }, { status: 500 });
+  }
+}
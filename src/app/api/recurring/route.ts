@@ -1,6 +1,116 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma, isDatabaseAvailable } from '@/lib/db';
 import { auth } from '@/lib/auth';
+import {
+  DEFAULT_TIMEZONE,
+  getNextOccurrence,
+  isValidTimezone,
+  legacyToRRule,
+  parseRRule,
+} from '@/lib/scheduler/recurrence';
+import { getVariantType, isRotationStrategy } from '@/lib/scheduler/rotation';
+import { toStoredFollowUps, validateFollowUps } from '@/lib/scheduler/follow-ups';
+import { POST_TEMPLATE_VARIABLES, validateTemplate } from '@/lib/templates/render';
+
+const EXDATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2})?$/;
+
+// 繰り返し設定を検証し、保存する値と最初の投稿日時を求める
+function prepareRecurrence(input: {
+  rrule?: string | null;
+  timezone?: string | null;
+  exdates?: string[] | null;
+  recurringType?: string | null;
+  recurringDays?: number[] | null;
+  recurrenceStart: Date;
+}, now: Date):
+  | { error: string }
+  | { rrule: string; timezone: string; exdates: string[]; recurrenceStart: Date; scheduledAt: Date } {
+  const rrule = input.rrule?.trim().replace(/^RRULE:/i, '')
+    || legacyToRRule(input.recurringType ?? null, input.recurringDays ?? []);
+  if (!rrule) {
+    return { error: '繰り返しルールを指定してください' };
+  }
+
+  try {
+    parseRRule(rrule);
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : '繰り返しルールが不正です' };
+  }
+
+  const timezone = input.timezone || DEFAULT_TIMEZONE;
+  if (!isValidTimezone(timezone)) {
+    return { error: `タイムゾーンが不正です: ${timezone}` };
+  }
+
+  const exdates = input.exdates ?? [];
+  if (!Array.isArray(exdates) || exdates.some(d => typeof d !== 'string' || !EXDATE_PATTERN.test(d))) {
+    return { error: '除外日は yyyy-MM-dd 形式で指定してください' };
+  }
+
+  const searchFrom = new Date(Math.max(now.getTime(), input.recurrenceStart.getTime()) - 1);
+  const scheduledAt = getNextOccurrence(
+    { rrule, timezone, exdates, dtstart: input.recurrenceStart },
+    searchFrom
+  );
+  if (!scheduledAt) {
+    return { error: 'この繰り返しルールでは今後の投稿日時がありません' };
+  }
+
+  return { rrule, timezone, exdates, recurrenceStart: input.recurrenceStart, scheduledAt };
+}
+
+// 定期投稿の本文は投稿のたびにテンプレートとして展開するため、書式を検証する
+function getTemplateError(text: unknown): string | null {
+  if (typeof text !== 'string' || !text) return null;
+  return validateTemplate(text, { variables: POST_TEMPLATE_VARIABLES })[0] ?? null;
+}
+
+interface VariantInput {
+  id?: string;
+  text?: string;
+  mediaUrls?: string[];
+}
+
+// バリエーションの入力を検証して保存形式に変換
+function normalizeVariants(input: unknown):
+  | { error: string }
+  | { variants: Array<{ id?: string; type: string; text: string | null; mediaUrls: string | null; position: number }> } {
+  if (!Array.isArray(input)) {
+    return { error: 'バリエーションの形式が不正です' };
+  }
+
+  const variants = [];
+  for (const [index, item] of (input as VariantInput[]).entries()) {
+    const text = typeof item?.text === 'string' ? item.text.trim() : '';
+    const mediaUrls = Array.isArray(item?.mediaUrls)
+      ? item.mediaUrls.filter((url): url is string => typeof url === 'string' && url.trim() !== '').map(url => url.trim())
+      : [];
+
+    if (!text && mediaUrls.length === 0) {
+      return { error: `バリエーション${index + 1}の内容が空です` };
+    }
+    if (text.length > 500) {
+      return { error: `バリエーション${index + 1}が500文字を超えています` };
+    }
+    if (mediaUrls.length > 20) {
+      return { error: `バリエーション${index + 1}のメディアは20件までです` };
+    }
+    const templateError = getTemplateError(text);
+    if (templateError) {
+      return { error: `バリエーション${index + 1}: ${templateError}` };
+    }
+
+    variants.push({
+      ...(typeof item.id === 'string' && { id: item.id }),
+      type: getVariantType(mediaUrls),
+      text: text || null,
+      mediaUrls: mediaUrls.length > 0 ? JSON.stringify(mediaUrls) : null,
+      position: index,
+    });
+  }
+
+  return { variants };
+}
 
 // 定期投稿一覧取得
 export async function GET() {
@@ -20,7 +130,18 @@ export async function GET() {
         userId: session.user.id,
         isRecurring: true,
       },
-      include: { account: true },
+      include: {
+        account: { select: { id: true, username: true, name: true, profilePicture: true } },
+        variants: {
+          where: { isActive: true },
+          orderBy: { position: 'asc' },
+        },
+        variantPublications: {
+          orderBy: { createdAt: 'desc' },
+          take: 10,
+          include: { variant: { select: { text: true, position: true } } },
+        },
+      },
       orderBy: { scheduledAt: 'asc' },
     });
 
@@ -66,12 +187,56 @@ export async function POST(request: NextRequest) {
       recurringType,
       recurringDays,
       scheduledAt,
+      rrule,
+      timezone,
+      exdates,
+      rotationStrategy,
+      variants,
+      followUps,
     } = await request.json();
 
-    if (!accountId || !text || !recurringType || !scheduledAt) {
+    if (!accountId || (!text && !variants?.length) || (!rrule && !recurringType)) {
       return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
     }
 
+    const templateError = getTemplateError(text);
+    if (templateError) {
+      return NextResponse.json({ error: templateError }, { status: 400 });
+    }
+
+    // コンテンツローテーションの検証
+    if (rotationStrategy && !isRotationStrategy(rotationStrategy)) {
+      return NextResponse.json({ error: 'ローテーション方式が不正です' }, { status: 400 });
+    }
+    const normalized = normalizeVariants(variants ?? []);
+    if ('error' in normalized) {
+      return NextResponse.json({ error: normalized.error }, { status: 400 });
+    }
+    if (rotationStrategy && normalized.variants.length === 0) {
+      return NextResponse.json({ error: 'ローテーションにはバリエーションが1つ以上必要です' }, { status: 400 });
+    }
+
+    // フォローアップ返信は毎回の投稿ごとに送る
+    const followUpResult = validateFollowUps(followUps);
+    if (followUpResult.error !== undefined) {
+      return NextResponse.json({ error: followUpResult.error }, { status: 400 });
+    }
+
+    // 起点（指定がなければ現在時刻）から最初の投稿日時を計算
+    const now = new Date();
+    const recurrence = prepareRecurrence({
+      rrule,
+      timezone,
+      exdates,
+      recurringType,
+      recurringDays,
+      recurrenceStart: scheduledAt ? new Date(scheduledAt) : now,
+    }, now);
+
+    if ('error' in recurrence) {
+      return NextResponse.json({ error: recurrence.error }, { status: 400 });
+    }
+
     // accountIdがThreadsUserIdの場合、データベースのアカウントを検索
     let dbAccountId = accountId;
     const account = await prisma.threadsAccount.findFirst({
@@ -98,13 +263,28 @@ export async function POST(request: NextRequest) {
         userId: session.user.id,
         accountId: dbAccountId,
         type: 'text',
-        text,
-        scheduledAt: new Date(scheduledAt),
+        text: text || normalized.variants[0].text,
+        scheduledAt: recurrence.scheduledAt,
         status: 'pending',
         isRecurring: true,
-        recurringType,
+        recurringType: recurringType || null,
         recurringDays: recurringDays ? JSON.stringify(recurringDays) : null,
+        rrule: recurrence.rrule,
+        timezone: recurrence.timezone,
+        recurrenceStart: recurrence.recurrenceStart,
+        exdates: recurrence.exdates.length > 0 ? JSON.stringify(recurrence.exdates) : null,
+        rotationStrategy: rotationStrategy || null,
+        followUps: toStoredFollowUps(followUpResult.followUps),
+        variants: {
+          create: normalized.variants.map(({ type, text, mediaUrls, position }) => ({
+            type,
+            text,
+            mediaUrls,
+            position,
+          })),
+        },
       },
+      include: { variants: { orderBy: { position: 'asc' } } },
     });
 
     return NextResponse.json({ success: true, recurringPost });
@@ -127,7 +307,20 @@ export async function PUT(request: NextRequest) {
   }
 
   try {
-    const { id, text, recurringType, recurringDays, scheduledAt, status } = await request.json();
+    const {
+      id,
+      text,
+      recurringType,
+      recurringDays,
+      scheduledAt,
+      status,
+      rrule,
+      timezone,
+      exdates,
+      rotationStrategy,
+      variants,
+      followUps,
+    } = await request.json();
 
     if (!id) {
       return NextResponse.json({ error: 'ID required' }, { status: 400 });
@@ -142,17 +335,114 @@ export async function PUT(request: NextRequest) {
       return NextResponse.json({ error: 'Not found' }, { status: 404 });
     }
 
+    const templateError = getTemplateError(text);
+    if (templateError) {
+      return NextResponse.json({ error: templateError }, { status: 400 });
+    }
+
+    if (rotationStrategy !== undefined && rotationStrategy !== null && !isRotationStrategy(rotationStrategy)) {
+      return NextResponse.json({ error: 'ローテーション方式が不正です' }, { status: 400 });
+    }
+    const normalized = variants !== undefined ? normalizeVariants(variants) : null;
+    if (normalized && 'error' in normalized) {
+      return NextResponse.json({ error: normalized.error }, { status: 400 });
+    }
+    const strategy = rotationStrategy !== undefined ? rotationStrategy : existingPost.rotationStrategy;
+    if (strategy) {
+      const variantCount = normalized
+        ? normalized.variants.length
+        : await prisma.postVariant.count({ where: { scheduledPostId: id, isActive: true } });
+      if (variantCount === 0) {
+        return NextResponse.json({ error: 'ローテーションにはバリエーションが1つ以上必要です' }, { status: 400 });
+      }
+    }
+
+    const followUpResult = followUps !== undefined ? validateFollowUps(followUps) : null;
+    if (followUpResult && followUpResult.error !== undefined) {
+      return NextResponse.json({ error: followUpResult.error }, { status: 400 });
+    }
+
+    // ルールの変更時・再開時は次回の投稿日時を計算し直す
+    const ruleChanged = rrule !== undefined || recurringType !== undefined || recurringDays !== undefined;
+    const resumed = status === 'pending' && existingPost.status !== 'pending';
+    let recurrenceData = {};
+
+    if (ruleChanged || timezone !== undefined || exdates !== undefined || scheduledAt !== undefined || resumed) {
+      const now = new Date();
+      let existingExdates: string[] = [];
+      try {
+        existingExdates = existingPost.exdates ? JSON.parse(existingPost.exdates) : [];
+      } catch {
+        existingExdates = [];
+      }
+
+      const recurrence = prepareRecurrence({
+        rrule: rrule !== undefined ? rrule : (recurringType !== undefined || recurringDays !== undefined) ? null : existingPost.rrule,
+        timezone: timezone !== undefined ? timezone : existingPost.timezone,
+        exdates: exdates !== undefined ? exdates : existingExdates,
+        recurringType: recurringType !== undefined ? recurringType : existingPost.recurringType,
+        recurringDays: recurringDays !== undefined
+          ? recurringDays
+          : existingPost.recurringDays ? JSON.parse(existingPost.recurringDays) : [],
+        // ルールを変更した場合は起点を現在時刻（または指定日時）にリセット
+        recurrenceStart: scheduledAt !== undefined
+          ? new Date(scheduledAt)
+          : ruleChanged || !existingPost.recurrenceStart ? now : existingPost.recurrenceStart,
+      }, now);
+
+      if ('error' in recurrence) {
+        return NextResponse.json({ error: recurrence.error }, { status: 400 });
+      }
+
+      recurrenceData = {
+        rrule: recurrence.rrule,
+        timezone: recurrence.timezone,
+        recurrenceStart: recurrence.recurrenceStart,
+        exdates: recurrence.exdates.length > 0 ? JSON.stringify(recurrence.exdates) : null,
+        scheduledAt: recurrence.scheduledAt,
+      };
+    }
+
+    // バリエーションを同期（投稿履歴のあるものは削除せず無効化）
+    if (normalized) {
+      const existingVariants = await prisma.postVariant.findMany({
+        where: { scheduledPostId: id, isActive: true },
+      });
+      const keepIds = new Set(normalized.variants.map(v => v.id).filter(Boolean));
+
+      await prisma.$transaction([
+        ...existingVariants
+          .filter(v => !keepIds.has(v.id))
+          .map(v => v.usageCount > 0
+            ? prisma!.postVariant.update({ where: { id: v.id }, data: { isActive: false } })
+            : prisma!.postVariant.delete({ where: { id: v.id } })),
+        ...normalized.variants.map(({ id: variantId, ...data }) =>
+          variantId && existingVariants.some(v => v.id === variantId)
+            ? prisma!.postVariant.update({ where: { id: variantId }, data })
+            : prisma!.postVariant.create({ data: { ...data, scheduledPostId: id } })),
+      ]);
+    }
+
     const recurringPost = await prisma.scheduledPost.update({
       where: { id },
       data: {
-        ...(text !== undefined && { text }),
+        ...(text !== undefined
+          ? { text }
+          : normalized?.variants.length && { text: normalized.variants[0].text }),
         ...(recurringType !== undefined && { recurringType }),
         ...(recurringDays !== undefined && {
           recurringDays: recurringDays ? JSON.stringify(recurringDays) : null,
         }),
-        ...(scheduledAt !== undefined && { scheduledAt: new Date(scheduledAt) }),
-        ...(status !== undefined && { status }),
+        ...recurrenceData,
+        // 手動で停止・再開した場合は、再認証で自動的に再開しない
+        ...(status !== undefined && { status, pausedReason: null }),
+        ...(rotationStrategy !== undefined && { rotationStrategy: rotationStrategy || null }),
+        // 変更は次回以降の投稿から適用（送信待ちの返信はそのまま）
+        ...(followUpResult && { followUps: toStoredFollowUps(followUpResult.followUps) }),
+        // バリエーションを変更した場合は次回の選択からやり直す
+        ...(normalized && { currentVariantId: null }),
       },
+      include: { variants: { where: { isActive: true }, orderBy: { position: 'asc' } } },
     });
 
     return NextResponse.json({ success: true, recurringPost });
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAccountClient } from '@/lib/threads/accounts';
+import { threadsErrorResponse } from '@/lib/threads/errors';
+import {
+  buildQuotaForecast,
+  fetchAccountQuota,
+  listPlannedPublications,
+  QUOTA_WINDOW_MS,
+} from '@/lib/scheduler/quota';
+
+// 今後24時間の公開クォータの見込み（予約投稿・定期投稿・送信待ちの自動リプライ）
+export async function GET(request: NextRequest) {
+  const resolved = await requireAccountClient(request.nextUrl.searchParams.get('accountId'));
+  if (resolved.error) return resolved.error;
+
+  try {
+    const now = new Date();
+    const [quota, planned] = await Promise.all([
+      fetchAccountQuota(resolved.account.id, now),
+      listPlannedPublications(resolved.account.id, now, new Date(now.getTime() + QUOTA_WINDOW_MS), now),
+    ]);
+
+    return NextResponse.json({ forecast: buildQuotaForecast(quota, planned, now) });
+  } catch (error) {
+    console.error('Get quota forecast error:', error);
+    return threadsErrorResponse(error, 'Failed to get quota forecast');
+  }
+}
@@ -1,6 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma, isDatabaseAvailable } from '@/lib/db';
 import { auth } from '@/lib/auth';
+import { MAX_FOLLOW_UPS, toStoredFollowUps, validateFollowUps } from '@/lib/scheduler/follow-ups';
+import { requeueJob } from '@/lib/scheduler/queue';
+import { getOverbookedDayWarning, getPostQuotaCost } from '@/lib/scheduler/quota';
+import { POST_TEMPLATE_VARIABLES, validateTemplate } from '@/lib/templates/render';
+import { createAccountClient } from '@/lib/threads/accounts';
+import { toStoredPostOptions, validatePostOptions } from '@/lib/threads/post-options';
+import { resolvePostTarget } from '@/lib/threads/resolve-post';
 
 // 予約投稿一覧取得
 export async function GET() {
@@ -17,7 +24,23 @@ export async function GET() {
   try {
     const scheduledPosts = await prisma.scheduledPost.findMany({
       where: { userId: session.user.id },
-      include: { account: true },
+      include: {
+        account: { select: { id: true, username: true, name: true, profilePicture: true } },
+        // フォローアップ返信の送信状況（新しい順。定期投稿は直近の回の分）
+        followUpReplies: {
+          select: {
+            id: true,
+            position: true,
+            status: true,
+            sendAt: true,
+            sentAt: true,
+            metricValue: true,
+            errorMessage: true,
+          },
+          orderBy: [{ sendAt: 'desc' }, { position: 'asc' }],
+          take: MAX_FOLLOW_UPS,
+        },
+      },
       orderBy: { scheduledAt: 'asc' },
     });
 
@@ -41,7 +64,39 @@ export async function POST(request: NextRequest) {
   }
 
   try {
-    const { accountId, type, text, mediaUrls, threadPosts, scheduledAt } = await request.json();
+    const body = await request.json();
+    const { accountId, type, text, mediaUrls, threadPosts, scheduledAt, isTemplate, targetUrl } = body;
+
+    // 投稿オプション（返信できるユーザー・アンケート・トピックタグ・リンク・代替テキスト）
+    const postOptions = validatePostOptions(body, {
+      type,
+      rootHasMedia: type === 'thread' && Boolean(threadPosts?.[0]?.imageUrl || threadPosts?.[0]?.videoUrl),
+    });
+    if (postOptions.error !== undefined) {
+      return NextResponse.json({ error: postOptions.error }, { status: 400 });
+    }
+
+    // フォローアップ返信（公開後に自分の投稿へ返信する）
+    const followUps = validateFollowUps(body.followUps);
+    if (followUps.error !== undefined) {
+      return NextResponse.json({ error: followUps.error }, { status: 400 });
+    }
+
+    // 引用投稿はコメントが必要。リポストは本文・フォローアップ返信を付けられない
+    if (type === 'quote' && !(typeof text === 'string' && text.trim())) {
+      return NextResponse.json({ error: '引用投稿のコメントを入力してください。' }, { status: 400 });
+    }
+    if (type === 'repost' && followUps.followUps.length > 0) {
+      return NextResponse.json({ error: 'リポストにはフォローアップ返信を付けられません。' }, { status: 400 });
+    }
+
+    // テンプレートとして保存する場合は書式を検証（変数は投稿時に展開）
+    if (isTemplate && typeof text === 'string') {
+      const templateErrors = validateTemplate(text, { variables: POST_TEMPLATE_VARIABLES });
+      if (templateErrors.length > 0) {
+        return NextResponse.json({ error: templateErrors[0] }, { status: 400 });
+      }
+    }
 
     // プランに基づく制限チェック
     const user = await prisma.user.findUnique({
@@ -109,20 +164,42 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // 引用・リポストする投稿をURLから特定
+    let target: { targetPostId: string; targetPermalink: string } | null = null;
+    if (type === 'quote' || type === 'repost') {
+      const resolvedTarget = await resolvePostTarget(createAccountClient(account), account, type, targetUrl);
+      if (resolvedTarget.error !== undefined) {
+        return NextResponse.json({ error: resolvedTarget.error }, { status: 400 });
+      }
+      target = { targetPostId: resolvedTarget.post.mediaId, targetPermalink: resolvedTarget.post.permalink };
+    }
+
+    // 予約日の投稿数が公開クォータを超える場合は警告（予約自体は受け付け、Cronで分散して投稿する）
+    const threadPostsJson = threadPosts ? JSON.stringify(threadPosts) : null;
+    const warning = await getOverbookedDayWarning(
+      account,
+      scheduleDate,
+      getPostQuotaCost({ type, threadPosts: threadPostsJson })
+    ).catch(() => null);
+
     const scheduledPost = await prisma.scheduledPost.create({
       data: {
         userId: session.user.id,
         accountId: dbAccountId,
         type,
-        text,
+        text: type === 'repost' ? null : text,
         mediaUrls: mediaUrls ? JSON.stringify(mediaUrls) : null,
-        threadPosts: threadPosts ? JSON.stringify(threadPosts) : null,
+        threadPosts: threadPostsJson,
+        isTemplate: Boolean(isTemplate),
+        ...target,
+        ...(type !== 'repost' && toStoredPostOptions(postOptions.options)),
+        followUps: toStoredFollowUps(followUps.followUps),
         scheduledAt: scheduleDate,
         status: 'pending',
       },
     });
 
-    return NextResponse.json({ success: true, scheduledPost });
+    return NextResponse.json({ success: true, scheduledPost, ...(warning && { warning }) });
   } catch (error) {
     console.error('Create scheduled post error:', error);
     return NextResponse.json({ error: 'Failed to create scheduled post' }, { status: 500 });
@@ -187,8 +264,8 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: 'Scheduled post not found' }, { status: 404 });
     }
 
-    // 処理中・完了済みは削除不可
-    if (existingPost.status !== 'pending') {
+    // 処理中・完了済みは削除不可（失敗した投稿は削除可能）
+    if (existingPost.status !== 'pending' && existingPost.status !== 'failed') {
       return NextResponse.json(
         { error: '処理中または完了済みの予約投稿はキャンセルできません。' },
         { status: 400 }
@@ -203,3 +280,47 @@ export async function DELETE(request: NextRequest) {
     return NextResponse.json({ error: 'Failed to delete scheduled post' }, { status: 500 });
   }
 }
+
+// 失敗した予約投稿を再試行キューに戻す
+export async function PATCH(request: NextRequest) {
+  if (!isDatabaseAvailable() || !prisma) {
+    return NextResponse.json({ error: 'Database not available' }, { status: 503 });
+  }
+
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { id, action } = await request.json();
+
+    if (!id || action !== 'retry') {
+      return NextResponse.json({ error: 'Invalid request' }, { status: 400 });
+    }
+
+    // 所有者確認
+    const existingPost = await prisma.scheduledPost.findUnique({
+      where: { id },
+    });
+
+    if (!existingPost || existingPost.userId !== session.user.id) {
+      return NextResponse.json({ error: 'Scheduled post not found' }, { status: 404 });
+    }
+
+    if (existingPost.status !== 'failed') {
+      return NextResponse.json(
+        { error: '失敗した予約投稿のみ再試行できます。' },
+        { status: 400 }
+      );
+    }
+
+    await requeueJob(id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Retry scheduled post error:', error);
+    return NextResponse.json({ error: 'Failed to retry scheduled post' }, { status: 500 });
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findUserAccount, requireAccountClient } from '@/lib/threads/accounts';
+import { threadsErrorResponse } from '@/lib/threads/errors';
+import {
+  collectDemographicsSnapshot,
+  DEMOGRAPHICS_MIN_FOLLOWERS,
+  getDemographicsHistory,
+  type DemographicsData,
+} from '@/lib/analytics/demographics';
+
+// 保存済みの属性がこれより古い場合はAPIから取得し直す
+const DEMOGRAPHICS_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+const MAX_COMPARE_ACCOUNTS = 5;
+
+// 最新の属性（保存済みが古い場合は取得して保存）
+// 取得に失敗した場合は保存済みの属性を返し、保存済みもなければエラーを投げる
+async function getLatest(
+  account: { id: string; accessToken: string },
+  history: DemographicsData[],
+  now: Date
+): Promise<DemographicsData | null> {
+  const stored = history[history.length - 1];
+  if (stored && now.getTime() - new Date(stored.capturedAt).getTime() < DEMOGRAPHICS_MAX_AGE_MS) {
+    return stored;
+  }
+  try {
+    return (await collectDemographicsSnapshot(account, now)) ?? stored ?? null;
+  } catch (error) {
+    if (!stored) throw error;
+    console.warn(`Could not collect demographics for ${account.id}, using stored snapshot:`, error);
+    return stored;
+  }
+}
+
+// GET: フォロワー属性（最新・履歴）と他のアカウントとの比較
+// ?accountId=...&days=90&compare=<accountId>,<accountId>
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const resolved = await requireAccountClient(searchParams.get('accountId'));
+  if (resolved.error) return resolved.error;
+
+  try {
+    const now = new Date();
+    const days = Math.min(Math.max(parseInt(searchParams.get('days') || '90', 10) || 90, 1), 365);
+
+    let history = await getDemographicsHistory(resolved.account.id, days);
+    const latest = await getLatest(resolved.account, history, now);
+    if (latest && latest !== history[history.length - 1]) {
+      // 今回取得して保存した分を含めて読み直す
+      history = await getDemographicsHistory(resolved.account.id, days);
+    }
+
+    // 比較するアカウント（ログインユーザーのアカウントのみ）
+    const compareIds = (searchParams.get('compare') || '')
+      .split(',')
+      .map(id => id.trim())
+      .filter(id => id && id !== resolved.account.id && id !== resolved.account.threadsUserId)
+      .slice(0, MAX_COMPARE_ACCOUNTS);
+
+    const comparisons = [];
+    for (const compareId of compareIds) {
+      const account = await findUserAccount(resolved.userId, compareId);
+      if (!account) continue;
+
+      // 比較するアカウントの取得に失敗しても、表示中のアカウントの結果は返す
+      const compareHistory = await getDemographicsHistory(account.id, 1);
+      const compareLatest = await getLatest(account, compareHistory, now).catch(error => {
+        console.warn(`Could not get demographics for compared account ${account.id}:`, error);
+        return null;
+      });
+      comparisons.push({
+        accountId: account.threadsUserId,
+        username: account.username,
+        latest: compareLatest,
+      });
+    }
+
+    return NextResponse.json({
+      latest,
+      history,
+      comparisons,
+      minFollowers: DEMOGRAPHICS_MIN_FOLLOWERS,
+    });
+  } catch (error) {
+    console.error('Get demographics error:', error);
+    return threadsErrorResponse(error, 'Failed to get demographics');
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAccountClient } from '@/lib/threads/accounts';
+import { threadsErrorResponse } from '@/lib/threads/errors';
+import { getInsightComparison, resolveRange } from '@/lib/analytics/timeseries';
+
+// GET: アカウントの日別インサイト
+// ?accountId=...&since=yyyy-MM-dd&until=yyyy-MM-dd&compare=previous（前の期間と比較）
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const resolved = await requireAccountClient(searchParams.get('accountId'));
+  if (resolved.error) return resolved.error;
+
+  const now = new Date();
+  const range = resolveRange(searchParams.get('since'), searchParams.get('until'), now);
+  if ('error' in range) {
+    return NextResponse.json({ error: range.error }, { status: 400 });
+  }
+
+  try {
+    const comparison = await getInsightComparison(resolved.client, resolved.account.id, range.since, range.until, {
+      compare: searchParams.get('compare') === 'previous',
+      now,
+    });
+    return NextResponse.json(comparison);
+  } catch (error) {
+    console.error('Get account insights error:', error);
+    return threadsErrorResponse(error, 'Failed to get account insights');
+  }
+}
@@ -1,6 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
-import { ThreadsAPIClient } from '@/lib/threads/client';
+import { ThreadsAPIClient, type ThreadsMedia } from '@/lib/threads/client';
+import type { ThreadsAccount } from '@prisma/client';
+import { requireAccountClient } from '@/lib/threads/accounts';
+import { threadsErrorResponse } from '@/lib/threads/errors';
+import { getAccountHistory, type AccountHistory, type SnapshotPost } from '@/lib/analytics/snapshots';
+import { listSyncedPosts, mapWithConcurrency, syncAccountPosts } from '@/lib/analytics/post-sync';
 import {
   analyzePostsPerformance,
   analyzeHashtags,
@@ -10,45 +15,73 @@ import {
   analyzeDailyTrends,
   type PostData,
 } from '@/lib/analytics/calculations';
+import {
+  DEFAULT_MIN_SAMPLES,
+  DEFAULT_RECENCY_HALF_LIFE_DAYS,
+  resolveTimezone,
+  type TimeAnalysisOptions,
+} from '@/lib/analytics/best-time';
+
+// 前回の同期からこの時間が経っていれば、表示前に新しい投稿を同期する（それ以外はCronに任せる）
+const DASHBOARD_SYNC_INTERVAL_MS = 10 * 60 * 1000;
+// 表示前の同期で更新するインサイトの最大件数
+const DASHBOARD_INSIGHTS_LIMIT = 50;
+const INSIGHTS_CONCURRENCY = 5;
 
 export async function GET(request: NextRequest) {
-  // Authorizationヘッダーからトークンを取得（アカウント切り替え対応）
-  const authHeader = request.headers.get('Authorization');
-  const headerToken = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : null;
-
-  const cookieStore = await cookies();
-  const cookieToken = cookieStore.get('threads_access_token')?.value;
-
-  // 優先順位: Authorizationヘッダー > cookie > 環境変数
-  const accessToken = headerToken || cookieToken || process.env.THREADS_ACCESS_TOKEN;
-
-  if (!accessToken) {
-    return NextResponse.json(
-      { error: 'Not authenticated', code: 'NOT_AUTHENTICATED' },
-      { status: 401 }
-    );
-  }
-
-  // クエリパラメータで取得件数を制御
+  // クエリパラメータで対象アカウントと取得件数を制御
   const { searchParams } = new URL(request.url);
+  const accountId = searchParams.get('accountId');
   const fetchAll = searchParams.get('all') === 'true';
   const limit = parseInt(searchParams.get('limit') || '50', 10);
 
+  // アカウント指定時は保存済みのトークンを使う（アカウント切り替え対応）
+  // 指定がない場合は cookie > 環境変数
+  let client: ThreadsAPIClient;
+  let account: ThreadsAccount | null = null;
+  if (accountId) {
+    const resolved = await requireAccountClient(accountId);
+    if (resolved.error) return resolved.error;
+    client = resolved.client;
+    account = resolved.account;
+  } else {
+    const cookieStore = await cookies();
+    const accessToken = cookieStore.get('threads_access_token')?.value || process.env.THREADS_ACCESS_TOKEN;
+
+    if (!accessToken) {
+      return NextResponse.json(
+        { error: 'Not authenticated', code: 'NOT_AUTHENTICATED' },
+        { status: 401 }
+      );
+    }
+    client = new ThreadsAPIClient(accessToken);
+  }
+
   try {
-    const client = new ThreadsAPIClient(accessToken);
 
-    // プロフィール、投稿、インサイト、フォロワー数、自分のリプライを並行取得
-    const [profile, threads, insights, followersCount, myReplies] = await Promise.all([
-      client.getMe(),
-      fetchAll ? client.getAllMyThreads(500) : client.getMyThreads(Math.min(limit, 100)),
-      client.getMyInsights().catch(() => null),
-      client.getFollowersCount().catch(() => 0),
-      client.getMyReplies(50).catch(() => ({ data: [] })),
-    ]);
+    const profile = await client.getMe();
+
+    let threadsWithInsights: Array<ThreadsMedia & { insights: SnapshotPost['insights'] }>;
+    let history: AccountHistory | null = null;
 
-    // 各投稿のインサイトを取得（全投稿）
-    const threadsWithInsights = await Promise.all(
-      threads.data.map(async (thread) => {
+    if (account) {
+      // 登録済みアカウントは同期済みの投稿とインサイトをDBから読む
+      const now = new Date();
+      if (!account.postsSyncedAt || now.getTime() - account.postsSyncedAt.getTime() >= DASHBOARD_SYNC_INTERVAL_MS) {
+        await syncAccountPosts(account, now, { backfillPages: 0, insightsLimit: DASHBOARD_INSIGHTS_LIMIT })
+          .catch(error => console.warn(`Could not sync posts for ${account.id}:`, error));
+      }
+
+      const [posts, accountHistory] = await Promise.all([
+        listSyncedPosts(account.id, fetchAll ? undefined : Math.min(limit, 100)),
+        getAccountHistory(account.id).catch(() => null),
+      ]);
+      threadsWithInsights = posts.map(post => ({ ...post, username: profile.username }));
+      history = accountHistory;
+    } else {
+      // 未登録のトークンはAPIから直接取得（同時実行数を制限してインサイトを取得）
+      const threads = fetchAll ? await client.getAllMyThreads(500) : await client.getMyThreads(Math.min(limit, 100));
+      threadsWithInsights = await mapWithConcurrency(threads.data, INSIGHTS_CONCURRENCY, async (thread) => {
         try {
           const mediaInsight = await client.getMediaInsights(thread.id);
           return { ...thread, insights: mediaInsight };
@@ -66,8 +99,15 @@ export async function GET(request: NextRequest) {
             },
           };
         }
-      })
-    );
+      });
+    }
+
+    // アカウントのインサイト、フォロワー数、自分のリプライを並行取得
+    const [insights, followersCount, myReplies] = await Promise.all([
+      client.getMyInsights().catch(() => null),
+      client.getFollowersCount().catch(() => 0),
+      client.getMyReplies(50).catch(() => ({ data: [] })),
+    ]);
 
     // PostData形式に変換
     const postsForAnalysis: PostData[] = threadsWithInsights.map((t) => ({
@@ -79,13 +119,20 @@ export async function GET(request: NextRequest) {
       insights: t.insights,
     }));
 
+    // 曜日・時間帯はユーザーが選んだタイムゾーンで数える（?timezone= > アカウントの設定 > Asia/Tokyo）
+    // ?recency=1 で直近の投稿を重視する
+    const timeOptions: TimeAnalysisOptions = {
+      timezone: resolveTimezone(searchParams.get('timezone') || account?.timezone),
+      recencyHalfLifeDays: searchParams.get('recency') === '1' ? DEFAULT_RECENCY_HALF_LIFE_DAYS : null,
+    };
+
     // 分析を実行
-    const analytics = analyzePostsPerformance(postsForAnalysis);
+    const analytics = analyzePostsPerformance(postsForAnalysis, timeOptions);
 
     // 追加分析
     const hashtagAnalysis = analyzeHashtags(postsForAnalysis);
     const keywordAnalysis = analyzeKeywords(postsForAnalysis);
-    const heatmapData = generateHeatmapData(postsForAnalysis);
+    const heatmapData = generateHeatmapData(postsForAnalysis, timeOptions);
     const aiInsights = generateAIInsights(analytics, postsForAnalysis);
     const dailyTrends = analyzeDailyTrends(postsForAnalysis);
 
@@ -138,6 +185,12 @@ export async function GET(request: NextRequest) {
       insights,
       aggregatedStats,
       analytics,
+      timeAnalysis: {
+        timezone: timeOptions.timezone,
+        recencyHalfLifeDays: timeOptions.recencyHalfLifeDays,
+        minSamples: DEFAULT_MIN_SAMPLES,
+      },
+      history,
       engagement: {
         topFans,
         recentReplies: repliesData,
@@ -153,9 +206,6 @@ export async function GET(request: NextRequest) {
     });
   } catch (err) {
     console.error('Threads API error:', err);
-    return NextResponse.json(
-      { error: 'Failed to fetch data', code: 'API_ERROR' },
-      { status: 500 }
-    );
+    return threadsErrorResponse(err, 'Failed to fetch data');
   }
 }
@@ -1,48 +1,58 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { ThreadsAPIClient } from '@/lib/threads/client';
+import { requireAccountClient } from '@/lib/threads/accounts';
+import { fetchAccountQuota, hasQuotaFor } from '@/lib/scheduler/quota';
+import { threadsErrorResponse } from '@/lib/threads/errors';
+import { validatePostOptions, type ReplyControl } from '@/lib/threads/post-options';
+import { resolvePostTarget } from '@/lib/threads/resolve-post';
 
 export interface PostRequest {
-  type: 'text' | 'image' | 'video' | 'carousel' | 'thread';
+  accountId: string;
+  type: 'text' | 'image' | 'video' | 'carousel' | 'thread' | 'quote' | 'repost';
   text?: string;
   imageUrl?: string;
   videoUrl?: string;
   carouselItems?: Array<{ type: 'IMAGE' | 'VIDEO'; url: string }>;
-  threadPosts?: Array<{ text: string; imageUrl?: string; videoUrl?: string }>;
+  threadPosts?: Array<{ text: string; imageUrl?: string; videoUrl?: string; altText?: string }>;
   replyToId?: string;
+  targetUrl?: string; // 引用・リポストする投稿のURL
+  // 投稿オプション（altTexts は画像・動画・カルーセルのメディアと同じ順。スレッドは threadPosts の altText）
+  replyControl?: ReplyControl;
+  pollOptions?: string[];
+  topicTag?: string;
+  linkAttachment?: string;
+  altTexts?: string[];
 }
 
 export async function POST(request: NextRequest) {
-  const authHeader = request.headers.get('Authorization');
-  const accessToken = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : null;
-
-  if (!accessToken) {
-    return NextResponse.json(
-      { error: 'Not authenticated', code: 'NOT_AUTHENTICATED' },
-      { status: 401 }
-    );
-  }
-
   try {
     const body: PostRequest = await request.json();
-    const client = new ThreadsAPIClient(accessToken);
-
-    // 投稿制限を確認（エラーでも投稿は試みる）
-    let remainingQuota: number | null = null;
-    try {
-      const limit = await client.getPublishingLimit();
-      if (limit?.config?.quota_total && limit?.quota_usage !== undefined) {
-        remainingQuota = limit.config.quota_total - limit.quota_usage;
-        if (limit.quota_usage >= limit.config.quota_total) {
-          return NextResponse.json(
-            { error: '投稿制限に達しています。しばらく待ってから再試行してください。', code: 'RATE_LIMIT' },
-            { status: 429 }
-          );
-        }
-      }
-    } catch (limitError) {
-      console.warn('Could not check publishing limit:', limitError);
-      // 制限チェックに失敗しても投稿は試みる
+
+    // トークンはクライアントから受け取らず、ログインユーザーのアカウントから取得
+    const resolved = await requireAccountClient(body.accountId);
+    if (resolved.error) return resolved.error;
+    const { client } = resolved;
+
+    // 公開クォータを確認（取得できない場合も投稿は試みる）
+    const cost = body.replyToId
+      ? { posts: 0, replies: 1 }
+      : { posts: 1, replies: body.type === 'thread' ? Math.max(0, (body.threadPosts?.length ?? 1) - 1) : 0 };
+    const quota = await fetchAccountQuota(resolved.account.id);
+    if (quota && !hasQuotaFor(quota, cost)) {
+      return NextResponse.json(
+        { error: '投稿制限に達しています。しばらく待ってから再試行してください。', code: 'RATE_LIMIT' },
+        { status: 429 }
+      );
+    }
+    const remainingQuota = quota ? quota.posts.total - quota.posts.usage : null;
+
+    const validated = validatePostOptions(body as unknown as Record<string, unknown>, {
+      type: body.type,
+      rootHasMedia: body.type === 'thread' && Boolean(body.threadPosts?.[0]?.imageUrl || body.threadPosts?.[0]?.videoUrl),
+    });
+    if (validated.error !== undefined) {
+      return NextResponse.json({ error: validated.error }, { status: 400 });
     }
+    const { altTexts, ...options } = validated.options;
 
     let result: { id: string } | { ids: string[] };
 
@@ -51,21 +61,21 @@ export async function POST(request: NextRequest) {
         if (!body.text) {
           return NextResponse.json({ error: 'テキストが必要です' }, { status: 400 });
         }
-        result = await client.postText(body.text, body.replyToId);
+        result = await client.postText(body.text, body.replyToId, options);
         break;
 
       case 'image':
         if (!body.imageUrl) {
           return NextResponse.json({ error: '画像URLが必要です' }, { status: 400 });
         }
-        result = await client.postImage(body.imageUrl, body.text, body.replyToId);
+        result = await client.postImage(body.imageUrl, body.text, body.replyToId, { ...options, altText: altTexts?.[0] });
         break;
 
       case 'video':
         if (!body.videoUrl) {
           return NextResponse.json({ error: '動画URLが必要です' }, { status: 400 });
         }
-        result = await client.postVideo(body.videoUrl, body.text, body.replyToId);
+        result = await client.postVideo(body.videoUrl, body.text, body.replyToId, { ...options, altText: altTexts?.[0] });
         break;
 
       case 'carousel':
@@ -75,16 +85,36 @@ export async function POST(request: NextRequest) {
         if (body.carouselItems.length > 20) {
           return NextResponse.json({ error: 'カルーセルは最大20アイテムまでです' }, { status: 400 });
         }
-        result = await client.postCarousel(body.carouselItems, body.text, body.replyToId);
+        result = await client.postCarousel(
+          body.carouselItems.map((item, i) => ({ ...item, altText: altTexts?.[i] || undefined })),
+          body.text,
+          body.replyToId,
+          options
+        );
         break;
 
       case 'thread':
         if (!body.threadPosts || body.threadPosts.length < 2) {
           return NextResponse.json({ error: 'スレッドには2つ以上の投稿が必要です' }, { status: 400 });
         }
-        result = await client.postThread(body.threadPosts);
+        result = await client.postThread(body.threadPosts, options);
         break;
 
+      case 'quote':
+      case 'repost': {
+        if (body.type === 'quote' && !body.text) {
+          return NextResponse.json({ error: '引用投稿のコメントが必要です' }, { status: 400 });
+        }
+        const target = await resolvePostTarget(client, resolved.account, body.type, body.targetUrl);
+        if (target.error !== undefined) {
+          return NextResponse.json({ error: target.error }, { status: 400 });
+        }
+        result = body.type === 'quote'
+          ? await client.postText(body.text!, undefined, { ...options, quotePostId: target.post.mediaId })
+          : await client.repost(target.post.mediaId);
+        break;
+      }
+
       default:
         return NextResponse.json({ error: '無効な投稿タイプです' }, { status: 400 });
     }
@@ -92,33 +122,21 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       success: true,
       ...result,
-      remainingQuota: remainingQuota !== null ? remainingQuota - 1 : null,
+      remainingQuota: remainingQuota !== null ? remainingQuota - cost.posts : null,
     });
   } catch (err) {
     console.error('Post error:', err);
-    const message = err instanceof Error ? err.message : 'Failed to create post';
-    return NextResponse.json(
-      { error: message, code: 'POST_ERROR' },
-      { status: 500 }
-    );
+    return threadsErrorResponse(err, 'Failed to create post');
   }
 }
 
 // 投稿制限の確認
 export async function GET(request: NextRequest) {
-  const authHeader = request.headers.get('Authorization');
-  const accessToken = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : null;
-
-  if (!accessToken) {
-    return NextResponse.json(
-      { error: 'Not authenticated', code: 'NOT_AUTHENTICATED' },
-      { status: 401 }
-    );
-  }
+  const resolved = await requireAccountClient(request.nextUrl.searchParams.get('accountId'));
+  if (resolved.error) return resolved.error;
 
   try {
-    const client = new ThreadsAPIClient(accessToken);
-    const limit = await client.getPublishingLimit();
+    const limit = await resolved.client.getPublishingLimit();
 
     // 安全にアクセス
     const quotaUsage = limit?.quota_usage ?? 0;
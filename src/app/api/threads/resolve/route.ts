@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAccountClient } from '@/lib/threads/accounts';
+import { threadsErrorResponse } from '@/lib/threads/errors';
+import { resolveThreadsPost } from '@/lib/threads/resolve-post';
+
+// 投稿URLから引用・リポストする投稿を特定し、プレビューを返す
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const resolved = await requireAccountClient(searchParams.get('accountId'));
+  if (resolved.error) return resolved.error;
+
+  const url = searchParams.get('url');
+  if (!url) {
+    return NextResponse.json({ error: 'url is required' }, { status: 400 });
+  }
+
+  try {
+    const post = await resolveThreadsPost(resolved.client, resolved.account, url);
+    if (!post) {
+      return NextResponse.json(
+        { error: '投稿URL（https://www.threads.net/@ユーザー名/post/...）を入力してください。' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ post });
+  } catch (err) {
+    console.error('Resolve post error:', err);
+    return threadsErrorResponse(err, 'Failed to resolve post');
+  }
+}
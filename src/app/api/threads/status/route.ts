@@ -1,17 +1,16 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
 import { ThreadsAPIClient } from '@/lib/threads/client';
+import { ThreadsAPIError, threadsErrorResponse } from '@/lib/threads/errors';
 
-export async function GET(request: NextRequest) {
-  // URLパラメータからトークンを取得（アカウント追加時の検証用）
-  const tokenParam = request.nextUrl.searchParams.get('token');
-
+// アカウント追加時のトークン検証は POST /api/accounts で行う
+export async function GET() {
   const cookieStore = await cookies();
   const cookieToken = cookieStore.get('threads_access_token')?.value;
   const userId = cookieStore.get('threads_user_id')?.value;
 
-  // 優先順位: URLパラメータ > cookie > 環境変数
-  const accessToken = tokenParam || cookieToken || process.env.THREADS_ACCESS_TOKEN;
+  // 優先順位: cookie > 環境変数
+  const accessToken = cookieToken || process.env.THREADS_ACCESS_TOKEN;
 
   if (!accessToken) {
     return NextResponse.json({
@@ -33,13 +32,17 @@ export async function GET(request: NextRequest) {
         profilePicture: profile.threads_profile_picture_url,
       },
     });
-  } catch {
-    // トークンが無効な場合
-    return NextResponse.json({
-      connected: false,
-      user: null,
-      error: 'Token expired or invalid',
-    });
+  } catch (error) {
+    // トークンが無効な場合は未接続として返す（レート制限・タイムアウトなどはエラーとして返す）
+    if (error instanceof ThreadsAPIError && error.kind === 'auth') {
+      return NextResponse.json({
+        connected: false,
+        user: null,
+        error: 'Token expired or invalid',
+      });
+    }
+    console.error('Check Threads status error:', error);
+    return threadsErrorResponse(error, 'Failed to check status');
   }
 }
 
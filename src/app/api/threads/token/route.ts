@@ -1,11 +1,37 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { exchangeForLongLivedTokenWithSecret, refreshLongLivedToken } from '@/lib/threads/auth';
+import { exchangeForLongLivedTokenWithSecret } from '@/lib/threads/auth';
+import { requireAccountClient } from '@/lib/threads/accounts';
+import { refreshAccountToken } from '@/lib/threads/token-refresh';
 
 // 短期トークン → 長期トークンに変換
+// action: 'refresh' の場合は保存済みアカウントの長期トークンをリフレッシュして保存し直す
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { shortLivedToken, action, appSecret: clientAppSecret } = body;
+    const { shortLivedToken, action, accountId, appSecret: clientAppSecret } = body;
+
+    if (action === 'refresh') {
+      const resolved = await requireAccountClient(accountId);
+      if (resolved.error) return resolved.error;
+
+      const result = await refreshAccountToken(resolved.account);
+      if (result.status !== 'refreshed') {
+        return NextResponse.json(
+          {
+            error: result.error,
+            hint: result.status === 'invalid'
+              ? 'トークンが失効しています。新しいトークンを登録し直してください。'
+              : '時間をおいて再度お試しください（発行から24時間以内のトークンはリフレッシュできません）。',
+          },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        tokenExpiresAt: result.tokenExpiresAt.toISOString(),
+      });
+    }
 
     if (!shortLivedToken) {
       return NextResponse.json(
@@ -27,15 +53,8 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    let result;
-
-    if (action === 'refresh') {
-      // 長期トークンのリフレッシュ
-      result = await refreshLongLivedToken(shortLivedToken);
-    } else {
-      // 短期トークン → 長期トークンに変換（App Secretを渡す）
-      result = await exchangeForLongLivedTokenWithSecret(shortLivedToken, appSecret);
-    }
+    // 短期トークン → 長期トークンに変換（App Secretを渡す）
+    const result = await exchangeForLongLivedTokenWithSecret(shortLivedToken, appSecret);
 
     return NextResponse.json({
       success: true,
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, Suspense } from 'react';
 import {
   KPICard,
   TopPostsList,
@@ -18,6 +18,10 @@ import { PostCalendar } from '@/components/PostCalendar';
 import { AutoReplyManager } from '@/components/AutoReplyManager';
 import { PostQueueManager } from '@/components/PostQueueManager';
 import { ABTestManager } from '@/components/ABTestManager';
+import { DemographicsDashboard } from '@/components/DemographicsDashboard';
+import { InsightsTrend } from '@/components/InsightsTrend';
+import { CompetitorWatchlist } from '@/components/CompetitorWatchlist';
+import { ReplyInbox } from '@/components/ReplyInbox';
 import { useTheme } from '@/contexts/ThemeContext';
 import Link from 'next/link';
 import { Role, hasPermission, getRoleName, getPermissions } from '@/lib/permissions';
@@ -31,17 +35,20 @@ import {
   ContentStrategyChart,
   PostingHeatmap,
   DailyTrendChart,
+  GrowthHistoryChart,
   HashtagChart,
   KeywordList,
   AIInsightsPanel,
 } from '@/components/analytics/AdvancedCharts';
 import { useAccountManager } from '@/hooks/useAccountManager';
+import { TIMEZONES } from '@/lib/scheduler/recurrence';
 import { AccountManagerModal } from '@/components/AccountManagerModal';
 import { useSession, signOut } from 'next-auth/react';
-import { useRouter } from 'next/navigation';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
 import type { AnalyticsResult, HashtagAnalysis, KeywordAnalysis, HeatmapData, AIInsight, DailyTrend } from '@/lib/analytics/calculations';
+import type { AccountHistory } from '@/lib/analytics/snapshots';
 
-type TabType = 'overview' | 'compose' | 'bulk' | 'schedule' | 'recurring' | 'autoreply' | 'drafts' | 'templates' | 'queue' | 'abtest' | 'calendar' | 'posts' | 'timing' | 'content' | 'keywords' | 'engagement' | 'insights' | 'reports' | 'export';
+type TabType = 'overview' | 'compose' | 'bulk' | 'schedule' | 'recurring' | 'autoreply' | 'inbox' | 'drafts' | 'templates' | 'queue' | 'abtest' | 'calendar' | 'posts' | 'timing' | 'content' | 'keywords' | 'engagement' | 'trends' | 'competitors' | 'demographics' | 'insights' | 'reports' | 'export';
 
 interface ThreadWithInsights {
   id: string;
@@ -83,6 +90,8 @@ interface APIResponse {
     followersCount: number;
   };
   analytics: AnalyticsResult;
+  timeAnalysis?: { timezone: string; recencyHalfLifeDays: number | null; minSamples: number };
+  history?: AccountHistory | null;
   engagement?: {
     topFans: Array<{ username: string; replyCount: number; totalLikes: number }>;
     recentReplies: Array<{ postId: string; postText?: string; replies: ReplyData[] }>;
@@ -97,11 +106,19 @@ interface APIResponse {
   };
 }
 
-export default function AnalyticsDashboard() {
+function AnalyticsDashboard() {
   const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
   const { data: session, status: authStatus } = useSession();
 
-  const [activeTab, setActiveTab] = useState<TabType>('overview');
+  // 表示中のタブはURLの ?tab= から復元する（期間指定などと合わせて共有できる）
+  const [activeTab, setActiveTab] = useState<TabType>(() => (searchParams.get('tab') as TabType) || 'overview');
+
+  // 投稿時間の分析に使うタイムゾーン（?tz=、未指定はブラウザのタイムゾーン）と直近の投稿の重視（?recency=1）
+  const analysisTimezone = searchParams.get('tz') || Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const recencyWeighted = searchParams.get('recency') === '1';
+  const analysisQuery = `&timezone=${encodeURIComponent(analysisTimezone)}${recencyWeighted ? '&recency=1' : ''}`;
   const [data, setData] = useState<APIResponse | null>(null);
   const [loading, setLoading] = useState(false);
   const [loadingAllPosts, setLoadingAllPosts] = useState(false);
@@ -151,11 +168,7 @@ export default function AnalyticsDashboard() {
     setLoading(true);
     setError(null);
     try {
-      const res = await fetch('/api/threads/me', {
-        headers: {
-          Authorization: `Bearer ${currentAccount.accessToken}`,
-        },
-      });
+      const res = await fetch(`/api/threads/me?accountId=${encodeURIComponent(currentAccount.id)}${analysisQuery}`);
 
       if (!res.ok) {
         const errorData = await res.json().catch(() => ({}));
@@ -172,7 +185,7 @@ export default function AnalyticsDashboard() {
     } finally {
       setLoading(false);
     }
-  }, [currentAccount]);
+  }, [currentAccount, analysisQuery]);
 
   // 全投稿を読み込む
   const fetchAllPosts = useCallback(async () => {
@@ -180,11 +193,7 @@ export default function AnalyticsDashboard() {
 
     setLoadingAllPosts(true);
     try {
-      const res = await fetch('/api/threads/me?all=true', {
-        headers: {
-          Authorization: `Bearer ${currentAccount.accessToken}`,
-        },
-      });
+      const res = await fetch(`/api/threads/me?accountId=${encodeURIComponent(currentAccount.id)}&all=true${analysisQuery}`);
 
       if (!res.ok) {
         throw new Error('全投稿の取得に失敗しました');
@@ -197,7 +206,7 @@ export default function AnalyticsDashboard() {
     } finally {
       setLoadingAllPosts(false);
     }
-  }, [currentAccount]);
+  }, [currentAccount, analysisQuery]);
 
   useEffect(() => {
     if (currentAccount) {
@@ -260,6 +269,7 @@ export default function AnalyticsDashboard() {
     { id: 'schedule', label: '予約投稿', permission: 'scheduledPosts' },
     { id: 'recurring', label: '定期投稿', permission: 'recurringPosts' },
     { id: 'autoreply', label: '自動リプライ', permission: 'autoReply' },
+    { id: 'inbox', label: '受信箱', permission: 'autoReply' },
     { id: 'drafts', label: '下書き', permission: 'drafts' },
     { id: 'templates', label: 'テンプレート', permission: 'templates' },
     { id: 'queue', label: 'キュー', permission: 'scheduledPosts' },
@@ -270,6 +280,9 @@ export default function AnalyticsDashboard() {
     { id: 'content', label: 'コンテンツ' },
     { id: 'keywords', label: 'キーワード' },
     { id: 'engagement', label: 'ファン分析' },
+    { id: 'trends', label: 'インサイト推移' },
+    { id: 'competitors', label: '競合', permission: 'advancedAnalytics' },
+    { id: 'demographics', label: 'フォロワー属性', permission: 'advancedAnalytics' },
     { id: 'insights', label: 'AIインサイト', permission: 'advancedAnalytics' },
     { id: 'reports', label: 'レポート', permission: 'weeklyReports' },
     { id: 'export', label: 'エクスポート', permission: 'exportData' },
@@ -281,6 +294,22 @@ export default function AnalyticsDashboard() {
     return permissions[tab.permission];
   });
 
+  // 表示の設定をURLに反映（そのままURLを共有できる）
+  const replaceParams = (changes: Record<string, string | null>) => {
+    const params = new URLSearchParams(searchParams.toString());
+    for (const [key, value] of Object.entries(changes)) {
+      if (value === null) params.delete(key);
+      else params.set(key, value);
+    }
+    router.replace(`${pathname}?${params.toString()}`, { scroll: false });
+  };
+
+  // タブを切り替えてURLにも反映
+  const selectTab = (tab: TabType) => {
+    setActiveTab(tab);
+    replaceParams({ tab });
+  };
+
   const analytics = data?.analytics;
   const stats = data?.aggregatedStats;
 
@@ -539,10 +568,10 @@ export default function AnalyticsDashboard() {
           <div className="mt-4 space-y-2">
             {/* 1行目: メイン機能 */}
             <div className="flex flex-wrap gap-1">
-              {tabs.filter(t => ['overview', 'compose', 'bulk', 'schedule', 'recurring', 'autoreply', 'drafts', 'templates', 'queue', 'abtest'].includes(t.id)).map((tab) => (
+              {tabs.filter(t => ['overview', 'compose', 'bulk', 'schedule', 'recurring', 'autoreply', 'inbox', 'drafts', 'templates', 'queue', 'abtest'].includes(t.id)).map((tab) => (
                 <button
                   key={tab.id}
-                  onClick={() => setActiveTab(tab.id)}
+                  onClick={() => selectTab(tab.id)}
                   className={`px-3 py-1.5 text-sm font-medium rounded-lg transition-colors whitespace-nowrap ${
                     activeTab === tab.id
                       ? 'bg-violet-100 text-violet-700'
@@ -555,10 +584,10 @@ export default function AnalyticsDashboard() {
             </div>
             {/* 2行目: 分析・その他 */}
             <div className="flex flex-wrap gap-1">
-              {tabs.filter(t => ['calendar', 'posts', 'timing', 'content', 'keywords', 'engagement', 'insights', 'reports', 'export'].includes(t.id)).map((tab) => (
+              {tabs.filter(t => ['calendar', 'posts', 'timing', 'content', 'keywords', 'engagement', 'trends', 'competitors', 'demographics', 'insights', 'reports', 'export'].includes(t.id)).map((tab) => (
                 <button
                   key={tab.id}
-                  onClick={() => setActiveTab(tab.id)}
+                  onClick={() => selectTab(tab.id)}
                   className={`px-3 py-1.5 text-sm font-medium rounded-lg transition-colors whitespace-nowrap ${
                     activeTab === tab.id
                       ? 'bg-cyan-100 text-cyan-700'
@@ -610,7 +639,6 @@ export default function AnalyticsDashboard() {
               <div className="space-y-6">
                 <PostComposer
                   key={`compose-${composerKey}`}
-                  accessToken={currentAccount.accessToken}
                   accountId={currentAccount.id}
                   onPostSuccess={fetchData}
                   initialText={initialComposeText}
@@ -628,14 +656,23 @@ export default function AnalyticsDashboard() {
             {activeTab === 'overview' && (
               <div className="space-y-6">
                 <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4">
-                  <KPICard title="フォロワー" value={stats.followersCount} />
-                  <KPICard title="総閲覧数" value={stats.totalViews} />
-                  <KPICard title="総いいね" value={stats.totalLikes} />
-                  <KPICard title="総リプライ" value={stats.totalReplies} />
-                  <KPICard title="総リポスト" value={stats.totalReposts} />
-                  <KPICard title="総シェア" value={stats.totalShares} />
+                  <KPICard title="フォロワー" value={stats.followersCount} change={data.history?.weekOverWeek.followers ?? undefined} />
+                  <KPICard
+                    title="総閲覧数"
+                    value={stats.totalViews}
+                    change={data.history?.weekOverWeek.views ?? undefined}
+                    description={data.history?.viewsLast24h != null ? `24時間で +${data.history.viewsLast24h.toLocaleString()}` : undefined}
+                  />
+                  <KPICard title="総いいね" value={stats.totalLikes} change={data.history?.weekOverWeek.likes ?? undefined} />
+                  <KPICard title="総リプライ" value={stats.totalReplies} change={data.history?.weekOverWeek.replies ?? undefined} />
+                  <KPICard title="総リポスト" value={stats.totalReposts} change={data.history?.weekOverWeek.reposts ?? undefined} />
+                  <KPICard title="総シェア" value={stats.totalShares} change={data.history?.weekOverWeek.shares ?? undefined} />
                 </div>
 
+                {data.history && (
+                  <GrowthHistoryChart data={data.history.points} />
+                )}
+
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                   <div className="bg-white rounded-xl border border-slate-200 p-5">
                     <h3 className="text-sm font-semibold text-slate-700 mb-2">エンゲージメント率</h3>
@@ -682,7 +719,6 @@ export default function AnalyticsDashboard() {
             {activeTab === 'bulk' && currentAccount && (
               <div className="space-y-6">
                 <BulkPostGenerator
-                  accessToken={currentAccount.accessToken}
                   accountId={currentAccount.id}
                   embedded={true}
                   onPostsScheduled={() => {
@@ -695,7 +731,6 @@ export default function AnalyticsDashboard() {
             {/* Schedule Tab */}
             {activeTab === 'schedule' && currentAccount && (
               <ScheduleManager
-                accessToken={currentAccount.accessToken}
                 accountId={currentAccount.id}
                 onRefresh={fetchData}
               />
@@ -704,7 +739,6 @@ export default function AnalyticsDashboard() {
             {/* Drafts Tab */}
             {activeTab === 'drafts' && currentAccount && (
               <DraftManager
-                accessToken={currentAccount.accessToken}
                 onSelectDraft={(draft) => {
                   // 下書きを選択したら投稿作成タブに移動
                   setInitialComposeText(draft.text || '');
@@ -725,13 +759,13 @@ export default function AnalyticsDashboard() {
                   setActiveTab('compose');
                 }}
                 maxTemplates={permissions.maxTemplates}
+                followerCount={stats?.followersCount ?? null}
               />
             )}
 
             {/* Recurring Posts Tab */}
             {activeTab === 'recurring' && currentAccount && (
               <RecurringPostManager
-                accessToken={currentAccount.accessToken}
                 accountId={currentAccount.id}
                 onRefresh={fetchData}
               />
@@ -740,17 +774,25 @@ export default function AnalyticsDashboard() {
             {/* Auto Reply Tab */}
             {activeTab === 'autoreply' && currentAccount && (
               <AutoReplyManager
-                accessToken={currentAccount.accessToken}
                 accountId={currentAccount.id}
+                accountUsername={currentAccount.username}
+                followerCount={stats?.followersCount ?? null}
                 onRefresh={fetchData}
               />
             )}
 
+            {/* Inbox Tab */}
+            {activeTab === 'inbox' && (
+              <ReplyInbox accounts={accounts} />
+            )}
+
             {/* Queue Tab */}
             {activeTab === 'queue' && currentAccount && (
               <PostQueueManager
                 accountId={currentAccount.id}
-                bestPostingHours={analytics.bestPostingHours}
+                // 信頼できる時間帯のみ（キューと同じタイムゾーンで集計した場合だけ投稿枠の提案に使われる）
+                bestPostingHours={analytics.bestPostingHours.filter(h => h.reliable)}
+                bestHoursTimezone={analysisTimezone}
                 onRefresh={fetchData}
               />
             )}
@@ -759,7 +801,6 @@ export default function AnalyticsDashboard() {
             {activeTab === 'abtest' && currentAccount && (
               <ABTestManager
                 accountId={currentAccount.id}
-                accessToken={currentAccount.accessToken}
                 onRefresh={fetchData}
               />
             )}
@@ -847,20 +888,55 @@ export default function AnalyticsDashboard() {
             {activeTab === 'timing' && (
               <div className="space-y-6">
                 <div className="bg-white rounded-xl border border-slate-200 p-5">
-                  <h3 className="text-sm font-semibold text-slate-700 mb-4">最適な投稿時間</h3>
-                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                    {analytics.bestPostingHours.slice(0, 3).map((h, i) => (
-                      <div key={h.hour} className={`p-4 rounded-lg ${
-                        i === 0 ? 'bg-violet-50 border-2 border-violet-200' : 'bg-slate-50'
-                      }`}>
-                        <p className="text-xs text-slate-500">{i === 0 ? 'ベスト' : `${i + 1}位`}</p>
-                        <p className="text-2xl font-bold text-slate-900">{h.hour}:00</p>
-                        <p className="text-sm text-slate-600">
-                          平均エンゲージメント: {h.avgEngagement.toFixed(1)}
-                        </p>
-                      </div>
-                    ))}
+                  <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                    <h3 className="text-sm font-semibold text-slate-700">最適な投稿時間</h3>
+                    <div className="flex flex-wrap items-center gap-3 text-sm">
+                      <select
+                        value={analysisTimezone}
+                        onChange={(e) => replaceParams({ tz: e.target.value })}
+                        className="px-2 py-1 border border-slate-300 rounded-lg"
+                      >
+                        {(TIMEZONES.includes(analysisTimezone) ? TIMEZONES : [analysisTimezone, ...TIMEZONES]).map(tz => (
+                          <option key={tz} value={tz}>{tz}</option>
+                        ))}
+                      </select>
+                      <label className="flex items-center gap-2 text-slate-700">
+                        <input
+                          type="checkbox"
+                          checked={recencyWeighted}
+                          onChange={(e) => replaceParams({ recency: e.target.checked ? '1' : null })}
+                          className="rounded border-slate-300"
+                        />
+                        直近の投稿を重視
+                      </label>
+                    </div>
                   </div>
+                  {analytics.bestPostingHours.some(h => h.reliable) ? (
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      {analytics.bestPostingHours.filter(h => h.reliable).slice(0, 3).map((h, i) => (
+                        <div key={h.hour} className={`p-4 rounded-lg ${
+                          i === 0 ? 'bg-violet-50 border-2 border-violet-200' : 'bg-slate-50'
+                        }`}>
+                          <p className="text-xs text-slate-500">{i === 0 ? 'ベスト' : `${i + 1}位`}</p>
+                          <p className="text-2xl font-bold text-slate-900">{h.hour}:00</p>
+                          <p className="text-sm text-slate-600">
+                            推定エンゲージメント: {h.avgEngagement.toFixed(1)}
+                          </p>
+                          <p className="text-xs text-slate-400">
+                            95%区間 {h.lower.toFixed(1)}〜{h.upper.toFixed(1)}・{h.count}件
+                          </p>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-slate-500 text-sm text-center py-6">
+                      おすすめを出すには、同じ時間帯に{data.timeAnalysis?.minSamples ?? 3}件以上の投稿が必要です
+                    </p>
+                  )}
+                  <p className="mt-3 text-xs text-slate-400">
+                    {data.timeAnalysis?.timezone ?? analysisTimezone} の時刻で集計。投稿数の少ない時間帯はアカウント全体の平均に近づけて推定しています
+                    {data.timeAnalysis?.recencyHalfLifeDays && `（${data.timeAnalysis.recencyHalfLifeDays}日前の投稿の重みは半分）`}
+                  </p>
                 </div>
                 <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                   <PostingHoursChart data={analytics.bestPostingHours} />
@@ -935,6 +1011,21 @@ export default function AnalyticsDashboard() {
               </div>
             )}
 
+            {/* Trends Tab */}
+            {activeTab === 'trends' && currentAccount && (
+              <InsightsTrend accountId={currentAccount.id} />
+            )}
+
+            {/* Competitors Tab */}
+            {activeTab === 'competitors' && currentAccount && (
+              <CompetitorWatchlist key={currentAccount.id} accountId={currentAccount.id} username={currentAccount.username} />
+            )}
+
+            {/* Demographics Tab */}
+            {activeTab === 'demographics' && currentAccount && (
+              <DemographicsDashboard key={currentAccount.id} accountId={currentAccount.id} accounts={accounts} />
+            )}
+
             {/* Insights Tab */}
             {activeTab === 'insights' && data.advancedAnalysis && (
               <div className="space-y-6">
@@ -953,6 +1044,7 @@ export default function AnalyticsDashboard() {
                   analytics: analytics,
                   threads: data.threads,
                 }}
+                history={data.history?.points}
                 weeklyEnabled={permissions.weeklyReports}
                 monthlyEnabled={permissions.monthlyReports}
               />
@@ -1003,3 +1095,22 @@ export default function AnalyticsDashboard() {
     </div>
   );
 }
+
+function DashboardLoading() {
+  return (
+    <div className="min-h-screen bg-slate-50 flex items-center justify-center">
+      <div className="flex items-center gap-3 bg-white px-6 py-4 rounded-xl shadow-lg">
+        <div className="w-5 h-5 border-2 border-violet-600 border-t-transparent rounded-full animate-spin" />
+        <span className="text-slate-600">読み込み中...</span>
+      </div>
+    </div>
+  );
+}
+
+export default function DashboardPage() {
+  return (
+    <Suspense fallback={<DashboardLoading />}>
+      <AnalyticsDashboard />
+    </Suspense>
+  );
+}
@@ -1,140 +1,170 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
+import type { ABTestEvaluation } from '@/lib/analytics/abtest';
 
 interface ABTestManagerProps {
   accountId: string;
-  accessToken: string;
   onRefresh?: () => void;
 }
 
+interface Measurement {
+  horizonHours: number;
+  views: number;
+  likes: number;
+  replies: number;
+  reposts: number;
+  quotes: number;
+  shares: number;
+  measuredAt: string;
+}
+
+interface ABTestVariant {
+  id: string;
+  label: string;
+  text: string;
+  publishedAt: string | null;
+  scheduledPost: {
+    status: string;
+    scheduledAt: string;
+    postedId: string | null;
+    errorMessage: string | null;
+  } | null;
+  measurements: Measurement[];
+}
+
 interface ABTest {
   id: string;
   name: string;
-  variantA: { text: string; scheduledPostId?: string; status: string; postedId?: string };
-  variantB: { text: string; scheduledPostId?: string; status: string; postedId?: string };
+  status: 'running' | 'completed';
+  primaryHorizon: number;
+  confidenceLevel: number;
+  winnerVariantId: string | null;
+  concludedAt: string | null;
+  winnerPublishedAt: string | null;
   createdAt: string;
-  resultA?: PostResult;
-  resultB?: PostResult;
+  variants: ABTestVariant[];
+  evaluations: ABTestEvaluation[];
 }
 
-interface PostResult {
-  views: number;
-  likes: number;
-  replies: number;
-  reposts: number;
+interface VariantDraft {
+  text: string;
+  time: string;
+}
+
+const VARIANT_LABELS = ['A', 'B', 'C', 'D', 'E', 'F'];
+const VARIANT_COLORS: Record<string, { badge: string; bar: string; highlight: string }> = {
+  A: { badge: 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400', bar: 'bg-blue-400', highlight: 'bg-blue-50/50 dark:bg-blue-900/10' },
+  B: { badge: 'bg-orange-100 dark:bg-orange-900/30 text-orange-700 dark:text-orange-400', bar: 'bg-orange-400', highlight: 'bg-orange-50/50 dark:bg-orange-900/10' },
+  C: { badge: 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400', bar: 'bg-green-400', highlight: 'bg-green-50/50 dark:bg-green-900/10' },
+  D: { badge: 'bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-400', bar: 'bg-purple-400', highlight: 'bg-purple-50/50 dark:bg-purple-900/10' },
+  E: { badge: 'bg-pink-100 dark:bg-pink-900/30 text-pink-700 dark:text-pink-400', bar: 'bg-pink-400', highlight: 'bg-pink-50/50 dark:bg-pink-900/10' },
+  F: { badge: 'bg-teal-100 dark:bg-teal-900/30 text-teal-700 dark:text-teal-400', bar: 'bg-teal-400', highlight: 'bg-teal-50/50 dark:bg-teal-900/10' },
+};
+const HORIZONS = [1, 24, 72];
+const CONFIDENCE_LEVELS = [0.9, 0.95, 0.99];
+const MAX_VARIANTS = 6;
+
+function formatPercent(value: number, digits = 2): string {
+  return `${(value * 100).toFixed(digits)}%`;
+}
+
+function formatSignedPercent(value: number): string {
+  return `${value >= 0 ? '+' : ''}${(value * 100).toFixed(1)}%`;
 }
 
-export function ABTestManager({ accountId, accessToken, onRefresh }: ABTestManagerProps) {
+export function ABTestManager({ accountId, onRefresh }: ABTestManagerProps) {
   const [tests, setTests] = useState<ABTest[]>([]);
+  const [loading, setLoading] = useState(true);
   const [showCreator, setShowCreator] = useState(false);
   const [testName, setTestName] = useState('');
-  const [textA, setTextA] = useState('');
-  const [textB, setTextB] = useState('');
+  const [variants, setVariants] = useState<VariantDraft[]>([{ text: '', time: '' }, { text: '', time: '' }]);
   const [scheduleDate, setScheduleDate] = useState('');
-  const [scheduleTimeA, setScheduleTimeA] = useState('');
-  const [scheduleTimeB, setScheduleTimeB] = useState('');
+  const [primaryHorizon, setPrimaryHorizon] = useState(24);
+  const [confidenceLevel, setConfidenceLevel] = useState(0.95);
   const [creating, setCreating] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [loadingResults, setLoadingResults] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [selectedHorizons, setSelectedHorizons] = useState<Record<string, number>>({});
+  const [publishingId, setPublishingId] = useState<string | null>(null);
 
-  // localStorage から読み込み
-  useEffect(() => {
-    const saved = localStorage.getItem(`ab_tests_${accountId}`);
-    if (saved) {
-      try { setTests(JSON.parse(saved)); } catch { /* ignore */ }
+  // サーバーから取得
+  const fetchTests = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/abtests?accountId=${encodeURIComponent(accountId)}`);
+      if (res.ok) {
+        const data = await res.json();
+        setTests(data.tests || []);
+      } else {
+        const data = await res.json().catch(() => ({}));
+        setError(data.error || 'A/Bテストの取得に失敗しました');
+      }
+    } catch {
+      setError('A/Bテストの取得に失敗しました');
+    } finally {
+      setLoading(false);
     }
   }, [accountId]);
 
-  const saveTests = (newTests: ABTest[]) => {
-    setTests(newTests);
-    localStorage.setItem(`ab_tests_${accountId}`, JSON.stringify(newTests));
+  useEffect(() => {
+    fetchTests();
+  }, [fetchTests]);
+
+  const updateVariant = (index: number, changes: Partial<VariantDraft>) => {
+    setVariants(variants.map((v, i) => (i === index ? { ...v, ...changes } : v)));
   };
 
-  // A/Bテスト作成: 2つの予約投稿を作成
+  const resetCreator = () => {
+    setTestName('');
+    setVariants([{ text: '', time: '' }, { text: '', time: '' }]);
+    setScheduleDate('');
+    setPrimaryHorizon(24);
+    setConfidenceLevel(0.95);
+  };
+
+  const canCreate = !!testName.trim() && !!scheduleDate && variants.every(v => v.text.trim() && v.time);
+
+  // A/Bテスト作成: バリアントごとに予約投稿を作成
   const createTest = async () => {
-    if (!testName.trim() || !textA.trim() || !textB.trim() || !scheduleDate || !scheduleTimeA || !scheduleTimeB) return;
+    if (!canCreate) return;
 
     setCreating(true);
     setError(null);
 
     try {
-      const scheduledAtA = new Date(`${scheduleDate}T${scheduleTimeA}`);
-      const scheduledAtB = new Date(`${scheduleDate}T${scheduleTimeB}`);
       const now = new Date();
+      const payload = variants.map(v => ({
+        text: v.text,
+        scheduledAt: new Date(`${scheduleDate}T${v.time}`),
+      }));
 
-      if (scheduledAtA <= now || scheduledAtB <= now) {
+      if (payload.some(v => v.scheduledAt <= now)) {
         setError('未来の日時を指定してください');
-        setCreating(false);
         return;
       }
 
-      // Variant A を予約
-      const resA = await fetch('/api/scheduled', {
+      const res = await fetch('/api/abtests', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           accountId,
-          type: 'text',
-          text: `[A/B: ${testName} - A] ${textA}`,
-          scheduledAt: scheduledAtA.toISOString(),
+          name: testName,
+          primaryHorizon,
+          confidenceLevel,
+          variants: payload.map(v => ({ text: v.text, scheduledAt: v.scheduledAt.toISOString() })),
         }),
       });
 
-      if (!resA.ok) {
-        const data = await resA.json();
-        setError(`Variant A: ${data.error}`);
-        setCreating(false);
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        setError(data.error || 'テスト作成に失敗しました');
         return;
       }
 
-      const dataA = await resA.json();
-
-      // Variant B を予約
-      const resB = await fetch('/api/scheduled', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          accountId,
-          type: 'text',
-          text: `[A/B: ${testName} - B] ${textB}`,
-          scheduledAt: scheduledAtB.toISOString(),
-        }),
-      });
-
-      if (!resB.ok) {
-        const data = await resB.json();
-        setError(`Variant B: ${data.error}`);
-        setCreating(false);
-        return;
-      }
-
-      const dataB = await resB.json();
-
-      const newTest: ABTest = {
-        id: `ab-${Date.now()}`,
-        name: testName,
-        variantA: {
-          text: textA,
-          scheduledPostId: dataA.post?.id,
-          status: 'pending',
-        },
-        variantB: {
-          text: textB,
-          scheduledPostId: dataB.post?.id,
-          status: 'pending',
-        },
-        createdAt: new Date().toISOString(),
-      };
-
-      saveTests([newTest, ...tests]);
       setShowCreator(false);
-      setTestName('');
-      setTextA('');
-      setTextB('');
-      setScheduleDate('');
-      setScheduleTimeA('');
-      setScheduleTimeB('');
+      resetCreator();
+      await fetchTests();
       onRefresh?.();
     } catch {
       setError('テスト作成に失敗しました');
@@ -143,80 +173,78 @@ export function ABTestManager({ accountId, accessToken, onRefresh }: ABTestManag
     }
   };
 
-  // 投稿結果を取得
-  const fetchResults = useCallback(async () => {
-    if (!accessToken) return;
-    setLoadingResults(true);
+  const deleteTest = async (id: string) => {
+    if (!confirm('このA/Bテストを削除しますか？（未投稿のバリアントの予約も取り消されます）')) return;
 
     try {
-      const res = await fetch(`/api/threads/me?token=${encodeURIComponent(accessToken)}`);
-      if (!res.ok) { setLoadingResults(false); return; }
-      const data = await res.json();
-      const threads = data.threads?.data || [];
-
-      const updatedTests = tests.map(test => {
-        const updated = { ...test };
-
-        // Variant A の結果を検索
-        if (test.variantA.scheduledPostId) {
-          // postedId を予約投稿から取得するため、投稿テキストで検索
-          const matchA = threads.find((t: { text?: string }) =>
-            t.text?.includes(`[A/B: ${test.name} - A]`)
-          );
-          if (matchA) {
-            updated.variantA = { ...updated.variantA, status: 'completed', postedId: matchA.id };
-            updated.resultA = matchA.insights || { views: 0, likes: 0, replies: 0, reposts: 0 };
-          }
-        }
-
-        // Variant B の結果を検索
-        if (test.variantB.scheduledPostId) {
-          const matchB = threads.find((t: { text?: string }) =>
-            t.text?.includes(`[A/B: ${test.name} - B]`)
-          );
-          if (matchB) {
-            updated.variantB = { ...updated.variantB, status: 'completed', postedId: matchB.id };
-            updated.resultB = matchB.insights || { views: 0, likes: 0, replies: 0, reposts: 0 };
-          }
-        }
-
-        return updated;
+      const res = await fetch(`/api/abtests/${id}`, { method: 'DELETE' });
+      if (res.ok) {
+        setTests(tests.filter(t => t.id !== id));
+        onRefresh?.();
+      }
+    } catch {
+      setError('削除に失敗しました');
+    }
+  };
+
+  // 勝者を他のアカウントに投稿
+  const publishWinner = async (test: ABTest, variant: ABTestVariant) => {
+    const note = test.winnerVariantId ? '' : '\n※ 統計的な有意差はありません。';
+    if (!confirm(`バリアント${variant.label}を他のすべてのアカウントに投稿しますか？${note}`)) return;
+
+    setPublishingId(test.id);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const res = await fetch(`/api/abtests/${test.id}/publish-winner`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ variantId: variant.id }),
       });
+      const data = await res.json().catch(() => ({}));
 
-      saveTests(updatedTests);
+      if (!res.ok) {
+        setError(data.error || '投稿の予約に失敗しました');
+        return;
+      }
+
+      setMessage(`${data.scheduled}件のアカウント（${(data.accounts || []).map((u: string) => `@${u}`).join(', ')}）に投稿を予約しました`);
+      await fetchTests();
+      onRefresh?.();
     } catch {
-      console.error('Failed to fetch AB test results');
+      setError('投稿の予約に失敗しました');
     } finally {
-      setLoadingResults(false);
+      setPublishingId(null);
     }
-  }, [accessToken, tests]);
-
-  const deleteTest = (id: string) => {
-    saveTests(tests.filter(t => t.id !== id));
   };
 
-  const getWinner = (test: ABTest): 'A' | 'B' | 'tie' | null => {
-    if (!test.resultA || !test.resultB) return null;
-    const scoreA = test.resultA.views + test.resultA.likes * 5 + test.resultA.replies * 3 + test.resultA.reposts * 4;
-    const scoreB = test.resultB.views + test.resultB.likes * 5 + test.resultB.replies * 3 + test.resultB.reposts * 4;
-    if (scoreA > scoreB * 1.05) return 'A';
-    if (scoreB > scoreA * 1.05) return 'B';
-    return 'tie';
+  const getPostStatusLabel = (variant: ABTestVariant) => {
+    switch (variant.scheduledPost?.status) {
+      case 'completed':
+        return { label: '投稿済み', className: 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400' };
+      case 'failed':
+        return { label: '失敗', className: 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400' };
+      case undefined:
+        return { label: '削除済み', className: 'bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300' };
+      default:
+        return { label: '待機中', className: 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400' };
+    }
   };
 
-  const MetricBar = ({ label, valueA, valueB }: { label: string; valueA: number; valueB: number }) => {
-    const max = Math.max(valueA, valueB, 1);
+  const RateBar = ({ stats, max }: { stats: ABTestEvaluation['variants'][number]; max: number }) => {
+    const scale = (value: number) => `${max > 0 ? (value / max) * 100 : 0}%`;
     return (
-      <div className="space-y-1">
-        <p className="text-xs text-slate-500 dark:text-slate-400">{label}</p>
-        <div className="flex gap-2 items-center">
-          <span className="text-xs font-medium text-blue-600 dark:text-blue-400 w-10 text-right">{valueA}</span>
-          <div className="flex-1 flex gap-0.5">
-            <div className="h-3 bg-blue-400 rounded-l" style={{ width: `${(valueA / max) * 100}%` }} />
-            <div className="h-3 bg-orange-400 rounded-r" style={{ width: `${(valueB / max) * 100}%` }} />
-          </div>
-          <span className="text-xs font-medium text-orange-600 dark:text-orange-400 w-10">{valueB}</span>
-        </div>
+      <div className="relative h-3 bg-slate-100 dark:bg-slate-800 rounded">
+        {/* 信頼区間 */}
+        <div
+          className="absolute h-3 bg-slate-300 dark:bg-slate-600 rounded opacity-60"
+          style={{ left: scale(stats.rateInterval[0]), width: `calc(${scale(stats.rateInterval[1])} - ${scale(stats.rateInterval[0])})` }}
+        />
+        <div
+          className={`absolute h-3 w-1 rounded ${VARIANT_COLORS[stats.label]?.bar || 'bg-slate-400'}`}
+          style={{ left: scale(stats.rate) }}
+        />
       </div>
     );
   };
@@ -229,19 +257,17 @@ export function ABTestManager({ accountId, accessToken, onRefresh }: ABTestManag
           <div>
             <h2 className="text-lg font-bold text-slate-900 dark:text-slate-100">A/Bテスト</h2>
             <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
-              2つのバリエーションを投稿し、パフォーマンスを比較します
+              複数のバリエーションを投稿し、1時間・24時間・72時間後のエンゲージメント率を統計的に比較します
             </p>
           </div>
           <div className="flex gap-2">
-            {tests.some(t => t.variantA.status === 'pending' || t.variantB.status === 'pending' || (!t.resultA && t.variantA.postedId)) && (
-              <button
-                onClick={fetchResults}
-                disabled={loadingResults}
-                className="px-4 py-2 text-sm bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 rounded-lg hover:bg-slate-200 dark:hover:bg-slate-700 disabled:opacity-50"
-              >
-                {loadingResults ? '取得中...' : '結果を更新'}
-              </button>
-            )}
+            <button
+              onClick={fetchTests}
+              disabled={loading}
+              className="px-4 py-2 text-sm bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 rounded-lg hover:bg-slate-200 dark:hover:bg-slate-700 disabled:opacity-50"
+            >
+              {loading ? '取得中...' : '結果を更新'}
+            </button>
             <button
               onClick={() => setShowCreator(!showCreator)}
               className="px-4 py-2 bg-indigo-600 text-white text-sm rounded-lg hover:bg-indigo-700"
@@ -250,6 +276,13 @@ export function ABTestManager({ accountId, accessToken, onRefresh }: ABTestManag
             </button>
           </div>
         </div>
+
+        {error && !showCreator && (
+          <p className="text-sm text-red-600 bg-red-50 dark:bg-red-900/20 p-3 rounded-lg mt-4">{error}</p>
+        )}
+        {message && (
+          <p className="text-sm text-green-700 bg-green-50 dark:bg-green-900/20 p-3 rounded-lg mt-4">{message}</p>
+        )}
       </div>
 
       {/* テスト作成フォーム */}
@@ -273,66 +306,96 @@ export function ABTestManager({ accountId, accessToken, onRefresh }: ABTestManag
               />
             </div>
 
+            <div>
+              <label className="block text-xs text-slate-500 dark:text-slate-400 mb-1">投稿日</label>
+              <input
+                type="date"
+                value={scheduleDate}
+                onChange={(e) => setScheduleDate(e.target.value)}
+                min={new Date().toISOString().split('T')[0]}
+                className="px-3 py-2 border border-slate-200 dark:border-slate-600 rounded-lg text-sm bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100"
+              />
+            </div>
+
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div>
-                <label className="block text-sm font-medium mb-1">
-                  <span className="inline-block w-5 h-5 bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400 rounded text-xs text-center leading-5 mr-1">A</span>
-                  <span className="text-slate-600 dark:text-slate-300">バリアント A</span>
-                </label>
-                <textarea
-                  value={textA}
-                  onChange={(e) => setTextA(e.target.value)}
-                  placeholder="バリアントAのテキスト..."
-                  className="w-full px-3 py-2 border border-slate-200 dark:border-slate-600 rounded-lg h-28 resize-none text-sm bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
-                />
-              </div>
-              <div>
-                <label className="block text-sm font-medium mb-1">
-                  <span className="inline-block w-5 h-5 bg-orange-100 dark:bg-orange-900/30 text-orange-700 dark:text-orange-400 rounded text-xs text-center leading-5 mr-1">B</span>
-                  <span className="text-slate-600 dark:text-slate-300">バリアント B</span>
-                </label>
-                <textarea
-                  value={textB}
-                  onChange={(e) => setTextB(e.target.value)}
-                  placeholder="バリアントBのテキスト..."
-                  className="w-full px-3 py-2 border border-slate-200 dark:border-slate-600 rounded-lg h-28 resize-none text-sm bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-orange-500"
-                />
-              </div>
+              {variants.map((variant, index) => {
+                const label = VARIANT_LABELS[index];
+                return (
+                  <div key={label} className="p-3 border border-slate-200 dark:border-slate-700 rounded-lg">
+                    <div className="flex items-center justify-between mb-2">
+                      <label className="text-sm font-medium">
+                        <span className={`inline-block w-5 h-5 rounded text-xs text-center leading-5 mr-1 ${VARIANT_COLORS[label].badge}`}>{label}</span>
+                        <span className="text-slate-600 dark:text-slate-300">バリアント {label}{index === 0 && '（対照群）'}</span>
+                      </label>
+                      {variants.length > 2 && (
+                        <button
+                          onClick={() => setVariants(variants.filter((_, i) => i !== index))}
+                          className="text-xs text-slate-400 hover:text-red-500"
+                        >
+                          削除
+                        </button>
+                      )}
+                    </div>
+                    <textarea
+                      value={variant.text}
+                      onChange={(e) => updateVariant(index, { text: e.target.value })}
+                      placeholder={`バリアント${label}のテキスト...`}
+                      maxLength={500}
+                      className="w-full px-3 py-2 border border-slate-200 dark:border-slate-600 rounded-lg h-28 resize-none text-sm bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    />
+                    <div className="flex items-center gap-2 mt-2">
+                      <label className="text-xs text-slate-500 dark:text-slate-400">投稿時間</label>
+                      <input
+                        type="time"
+                        value={variant.time}
+                        onChange={(e) => updateVariant(index, { time: e.target.value })}
+                        className="px-2 py-1 border border-slate-200 dark:border-slate-600 rounded-lg text-sm bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100"
+                      />
+                    </div>
+                  </div>
+                );
+              })}
             </div>
 
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
-              <div>
-                <label className="block text-xs text-slate-500 dark:text-slate-400 mb-1">投稿日</label>
-                <input
-                  type="date"
-                  value={scheduleDate}
-                  onChange={(e) => setScheduleDate(e.target.value)}
-                  min={new Date().toISOString().split('T')[0]}
-                  className="w-full px-3 py-2 border border-slate-200 dark:border-slate-600 rounded-lg text-sm bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100"
-                />
-              </div>
+            {variants.length < MAX_VARIANTS && (
+              <button
+                onClick={() => setVariants([...variants, { text: '', time: '' }])}
+                className="w-full py-2 text-sm text-indigo-600 border border-dashed border-indigo-300 rounded-lg hover:bg-indigo-50 dark:hover:bg-indigo-900/20"
+              >
+                + バリアントを追加
+              </button>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
               <div>
-                <label className="block text-xs text-slate-500 dark:text-slate-400 mb-1">A の投稿時間</label>
-                <input
-                  type="time"
-                  value={scheduleTimeA}
-                  onChange={(e) => setScheduleTimeA(e.target.value)}
+                <label className="block text-xs text-slate-500 dark:text-slate-400 mb-1">勝者を判定する時点</label>
+                <select
+                  value={primaryHorizon}
+                  onChange={(e) => setPrimaryHorizon(Number(e.target.value))}
                   className="w-full px-3 py-2 border border-slate-200 dark:border-slate-600 rounded-lg text-sm bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100"
-                />
+                >
+                  {HORIZONS.map(h => (
+                    <option key={h} value={h}>投稿から{h}時間後以降</option>
+                  ))}
+                </select>
               </div>
               <div>
-                <label className="block text-xs text-slate-500 dark:text-slate-400 mb-1">B の投稿時間</label>
-                <input
-                  type="time"
-                  value={scheduleTimeB}
-                  onChange={(e) => setScheduleTimeB(e.target.value)}
+                <label className="block text-xs text-slate-500 dark:text-slate-400 mb-1">信頼水準</label>
+                <select
+                  value={confidenceLevel}
+                  onChange={(e) => setConfidenceLevel(Number(e.target.value))}
                   className="w-full px-3 py-2 border border-slate-200 dark:border-slate-600 rounded-lg text-sm bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100"
-                />
+                >
+                  {CONFIDENCE_LEVELS.map(level => (
+                    <option key={level} value={level}>{level * 100}%</option>
+                  ))}
+                </select>
               </div>
             </div>
 
             <p className="text-xs text-slate-500 dark:text-slate-400">
-              比較を公正にするため、同じ日の近い時間帯（1〜2時間差）に設定することをお勧めします
+              比較を公正にするため、同じ日の近い時間帯（1〜2時間差）に設定することをお勧めします。
+              72時間後までに有意差が出なかった場合は「有意差なし」で終了します。
             </p>
 
             <div className="flex justify-end gap-2 pt-2">
@@ -344,7 +407,7 @@ export function ABTestManager({ accountId, accessToken, onRefresh }: ABTestManag
               </button>
               <button
                 onClick={createTest}
-                disabled={creating || !testName.trim() || !textA.trim() || !textB.trim() || !scheduleDate || !scheduleTimeA || !scheduleTimeB}
+                disabled={creating || !canCreate}
                 className="px-6 py-2 bg-indigo-600 text-white text-sm rounded-lg hover:bg-indigo-700 disabled:opacity-50"
               >
                 {creating ? '作成中...' : 'テストを作成'}
@@ -358,7 +421,14 @@ export function ABTestManager({ accountId, accessToken, onRefresh }: ABTestManag
       {tests.length > 0 ? (
         <div className="space-y-4">
           {tests.map(test => {
-            const winner = getWinner(test);
+            const latestEvaluation = test.evaluations[test.evaluations.length - 1];
+            const selectedHorizon = selectedHorizons[test.id] ?? latestEvaluation?.horizonHours;
+            const evaluation = test.evaluations.find(e => e.horizonHours === selectedHorizon);
+            const winner = test.variants.find(v => v.id === test.winnerVariantId);
+            const publishCandidate = winner
+              || (test.status === 'completed' ? test.variants.find(v => v.id === latestEvaluation?.leaderId) : undefined);
+            const maxRate = evaluation ? Math.max(...evaluation.variants.map(v => v.rateInterval[1]), 0.01) : 0;
+
             return (
               <div key={test.id} className="bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-700 overflow-hidden">
                 <div className="px-5 py-4 border-b border-slate-200 dark:border-slate-700 flex items-center justify-between">
@@ -366,107 +436,164 @@ export function ABTestManager({ accountId, accessToken, onRefresh }: ABTestManag
                     <h4 className="font-semibold text-slate-900 dark:text-slate-100">{test.name}</h4>
                     <p className="text-xs text-slate-500 dark:text-slate-400">
                       作成日: {new Date(test.createdAt).toLocaleDateString('ja-JP')}
+                      ・判定: {test.primaryHorizon}時間後以降・信頼水準 {test.confidenceLevel * 100}%
                     </p>
                   </div>
                   <div className="flex items-center gap-2">
-                    {winner === 'A' && <span className="px-2 py-1 text-xs bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400 rounded-full font-medium">A 勝利</span>}
-                    {winner === 'B' && <span className="px-2 py-1 text-xs bg-orange-100 dark:bg-orange-900/30 text-orange-700 dark:text-orange-400 rounded-full font-medium">B 勝利</span>}
-                    {winner === 'tie' && <span className="px-2 py-1 text-xs bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 rounded-full font-medium">引き分け</span>}
-                    {!winner && <span className="px-2 py-1 text-xs bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400 rounded-full">結果待ち</span>}
+                    {winner && (
+                      <span className={`px-2 py-1 text-xs rounded-full font-medium ${VARIANT_COLORS[winner.label]?.badge}`}>
+                        {winner.label} 勝利
+                      </span>
+                    )}
+                    {test.status === 'completed' && !winner && (
+                      <span className="px-2 py-1 text-xs bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 rounded-full font-medium">有意差なし</span>
+                    )}
+                    {test.status === 'running' && (
+                      <span className="px-2 py-1 text-xs bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400 rounded-full">計測中</span>
+                    )}
                     <button onClick={() => deleteTest(test.id)} className="text-slate-400 hover:text-red-500">
                       <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
                     </button>
                   </div>
                 </div>
 
-                <div className="grid grid-cols-1 md:grid-cols-2 divide-y md:divide-y-0 md:divide-x divide-slate-200 dark:divide-slate-700">
-                  {/* Variant A */}
-                  <div className={`p-4 ${winner === 'A' ? 'bg-blue-50/50 dark:bg-blue-900/10' : ''}`}>
-                    <div className="flex items-center gap-2 mb-2">
-                      <span className="w-6 h-6 bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400 rounded text-xs font-bold flex items-center justify-center">A</span>
-                      <span className={`text-xs px-2 py-0.5 rounded-full ${
-                        test.variantA.status === 'completed' ? 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400' :
-                        'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400'
-                      }`}>
-                        {test.variantA.status === 'completed' ? '投稿済み' : '待機中'}
-                      </span>
-                    </div>
-                    <p className="text-sm text-slate-700 dark:text-slate-200 whitespace-pre-wrap line-clamp-3 mb-3">{test.variantA.text}</p>
-                    {test.resultA && (
-                      <div className="grid grid-cols-2 gap-2 text-center">
-                        <div className="bg-slate-50 dark:bg-slate-800 rounded p-2">
-                          <p className="text-lg font-bold text-slate-900 dark:text-slate-100">{test.resultA.views}</p>
-                          <p className="text-xs text-slate-500">閲覧</p>
-                        </div>
-                        <div className="bg-slate-50 dark:bg-slate-800 rounded p-2">
-                          <p className="text-lg font-bold text-slate-900 dark:text-slate-100">{test.resultA.likes}</p>
-                          <p className="text-xs text-slate-500">いいね</p>
-                        </div>
-                        <div className="bg-slate-50 dark:bg-slate-800 rounded p-2">
-                          <p className="text-lg font-bold text-slate-900 dark:text-slate-100">{test.resultA.replies}</p>
-                          <p className="text-xs text-slate-500">リプライ</p>
-                        </div>
-                        <div className="bg-slate-50 dark:bg-slate-800 rounded p-2">
-                          <p className="text-lg font-bold text-slate-900 dark:text-slate-100">{test.resultA.reposts}</p>
-                          <p className="text-xs text-slate-500">リポスト</p>
+                {/* バリアント */}
+                <div className={`grid grid-cols-1 ${test.variants.length > 2 ? 'md:grid-cols-3' : 'md:grid-cols-2'} divide-y md:divide-y-0 md:divide-x divide-slate-200 dark:divide-slate-700`}>
+                  {test.variants.map(variant => {
+                    const status = getPostStatusLabel(variant);
+                    const latest = variant.measurements[variant.measurements.length - 1];
+                    return (
+                      <div key={variant.id} className={`p-4 ${variant.id === test.winnerVariantId ? VARIANT_COLORS[variant.label]?.highlight : ''}`}>
+                        <div className="flex items-center gap-2 mb-2">
+                          <span className={`w-6 h-6 rounded text-xs font-bold flex items-center justify-center ${VARIANT_COLORS[variant.label]?.badge}`}>{variant.label}</span>
+                          <span className={`text-xs px-2 py-0.5 rounded-full ${status.className}`}>{status.label}</span>
+                          {variant.scheduledPost && variant.scheduledPost.status !== 'completed' && (
+                            <span className="text-xs text-slate-400">
+                              {new Date(variant.scheduledPost.scheduledAt).toLocaleString('ja-JP', { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                            </span>
+                          )}
                         </div>
+                        <p className="text-sm text-slate-700 dark:text-slate-200 whitespace-pre-wrap line-clamp-3 mb-2">{variant.text}</p>
+                        {variant.scheduledPost?.status === 'failed' && variant.scheduledPost.errorMessage && (
+                          <p className="text-xs text-red-600 mb-2">{variant.scheduledPost.errorMessage}</p>
+                        )}
+                        {latest && (
+                          <p className="text-xs text-slate-500">
+                            {latest.horizonHours}時間後: 閲覧 {latest.views.toLocaleString()}・いいね {latest.likes}・リプライ {latest.replies}・リポスト {latest.reposts}
+                          </p>
+                        )}
                       </div>
-                    )}
-                  </div>
+                    );
+                  })}
+                </div>
 
-                  {/* Variant B */}
-                  <div className={`p-4 ${winner === 'B' ? 'bg-orange-50/50 dark:bg-orange-900/10' : ''}`}>
-                    <div className="flex items-center gap-2 mb-2">
-                      <span className="w-6 h-6 bg-orange-100 dark:bg-orange-900/30 text-orange-700 dark:text-orange-400 rounded text-xs font-bold flex items-center justify-center">B</span>
-                      <span className={`text-xs px-2 py-0.5 rounded-full ${
-                        test.variantB.status === 'completed' ? 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400' :
-                        'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400'
-                      }`}>
-                        {test.variantB.status === 'completed' ? '投稿済み' : '待機中'}
-                      </span>
+                {/* 計測時点ごとの比較 */}
+                {test.evaluations.length > 0 && (
+                  <div className="px-5 py-4 border-t border-slate-200 dark:border-slate-700">
+                    <div className="flex items-center gap-2 mb-3">
+                      {test.evaluations.map(e => (
+                        <button
+                          key={e.horizonHours}
+                          onClick={() => setSelectedHorizons({ ...selectedHorizons, [test.id]: e.horizonHours })}
+                          className={`px-3 py-1 text-xs rounded-full ${
+                            e.horizonHours === selectedHorizon
+                              ? 'bg-indigo-600 text-white'
+                              : 'bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 hover:bg-slate-200'
+                          }`}
+                        >
+                          {e.horizonHours}時間後
+                        </button>
+                      ))}
                     </div>
-                    <p className="text-sm text-slate-700 dark:text-slate-200 whitespace-pre-wrap line-clamp-3 mb-3">{test.variantB.text}</p>
-                    {test.resultB && (
-                      <div className="grid grid-cols-2 gap-2 text-center">
-                        <div className="bg-slate-50 dark:bg-slate-800 rounded p-2">
-                          <p className="text-lg font-bold text-slate-900 dark:text-slate-100">{test.resultB.views}</p>
-                          <p className="text-xs text-slate-500">閲覧</p>
-                        </div>
-                        <div className="bg-slate-50 dark:bg-slate-800 rounded p-2">
-                          <p className="text-lg font-bold text-slate-900 dark:text-slate-100">{test.resultB.likes}</p>
-                          <p className="text-xs text-slate-500">いいね</p>
-                        </div>
-                        <div className="bg-slate-50 dark:bg-slate-800 rounded p-2">
-                          <p className="text-lg font-bold text-slate-900 dark:text-slate-100">{test.resultB.replies}</p>
-                          <p className="text-xs text-slate-500">リプライ</p>
-                        </div>
-                        <div className="bg-slate-50 dark:bg-slate-800 rounded p-2">
-                          <p className="text-lg font-bold text-slate-900 dark:text-slate-100">{test.resultB.reposts}</p>
-                          <p className="text-xs text-slate-500">リポスト</p>
-                        </div>
+
+                    {evaluation && (
+                      <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                          <thead>
+                            <tr className="text-xs text-slate-500 dark:text-slate-400 text-left">
+                              <th className="py-1 pr-3 font-medium">バリアント</th>
+                              <th className="py-1 pr-3 font-medium text-right">閲覧</th>
+                              <th className="py-1 pr-3 font-medium text-right">反応</th>
+                              <th className="py-1 pr-3 font-medium">エンゲージメント率（{test.confidenceLevel * 100}%信頼区間）</th>
+                              <th className="py-1 pr-3 font-medium text-right">A比リフト</th>
+                              <th className="py-1 font-medium text-right">p値</th>
+                            </tr>
+                          </thead>
+                          <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+                            {evaluation.variants.map(stats => (
+                              <tr key={stats.id}>
+                                <td className="py-2 pr-3">
+                                  <span className={`inline-block w-5 h-5 rounded text-xs font-bold text-center leading-5 ${VARIANT_COLORS[stats.label]?.badge}`}>{stats.label}</span>
+                                  {stats.id === evaluation.winnerId && <span className="ml-1 text-xs text-green-600">有意</span>}
+                                  {stats.id === evaluation.leaderId && stats.id !== evaluation.winnerId && <span className="ml-1 text-xs text-slate-400">首位</span>}
+                                </td>
+                                <td className="py-2 pr-3 text-right text-slate-700 dark:text-slate-200">{stats.views.toLocaleString()}</td>
+                                <td className="py-2 pr-3 text-right text-slate-700 dark:text-slate-200">{stats.engagements.toLocaleString()}</td>
+                                <td className="py-2 pr-3 min-w-[200px]">
+                                  <div className="flex items-center gap-2">
+                                    <span className="w-14 text-right text-slate-900 dark:text-slate-100 font-medium">{formatPercent(stats.rate)}</span>
+                                    <div className="flex-1">
+                                      <RateBar stats={stats} max={maxRate} />
+                                    </div>
+                                  </div>
+                                  <p className="text-xs text-slate-400 mt-0.5">
+                                    {formatPercent(stats.rateInterval[0])} 〜 {formatPercent(stats.rateInterval[1])}
+                                  </p>
+                                </td>
+                                <td className="py-2 pr-3 text-right">
+                                  {stats.lift !== null ? (
+                                    <>
+                                      <span className={stats.lift >= 0 ? 'text-green-600' : 'text-red-600'}>{formatSignedPercent(stats.lift)}</span>
+                                      {stats.liftInterval && (
+                                        <p className="text-xs text-slate-400">
+                                          {formatSignedPercent(stats.liftInterval[0])} 〜 {formatSignedPercent(stats.liftInterval[1])}
+                                        </p>
+                                      )}
+                                    </>
+                                  ) : (
+                                    <span className="text-xs text-slate-400">{stats.label === 'A' ? '対照群' : '-'}</span>
+                                  )}
+                                </td>
+                                <td className="py-2 text-right text-slate-600 dark:text-slate-300">
+                                  {stats.pValue !== null ? stats.pValue.toFixed(3) : '-'}
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                        <p className="text-xs text-slate-400 mt-2">
+                          エンゲージメント率 =（いいね + リプライ + リポスト + 引用 + シェア）÷ 閲覧数。
+                          3つ以上のバリアントでは多重比較を補正して判定します。
+                        </p>
                       </div>
                     )}
                   </div>
-                </div>
+                )}
 
-                {/* 比較バー（両方の結果がある場合） */}
-                {test.resultA && test.resultB && (
-                  <div className="px-5 py-4 border-t border-slate-200 dark:border-slate-700 space-y-3">
-                    <div className="flex items-center gap-4 text-xs mb-2">
-                      <span className="flex items-center gap-1"><span className="w-3 h-3 bg-blue-400 rounded" /> A</span>
-                      <span className="flex items-center gap-1"><span className="w-3 h-3 bg-orange-400 rounded" /> B</span>
-                    </div>
-                    <MetricBar label="閲覧数" valueA={test.resultA.views} valueB={test.resultB.views} />
-                    <MetricBar label="いいね" valueA={test.resultA.likes} valueB={test.resultB.likes} />
-                    <MetricBar label="リプライ" valueA={test.resultA.replies} valueB={test.resultB.replies} />
-                    <MetricBar label="リポスト" valueA={test.resultA.reposts} valueB={test.resultB.reposts} />
+                {/* 勝者を他のアカウントに投稿 */}
+                {publishCandidate && (
+                  <div className="px-5 py-3 border-t border-slate-200 dark:border-slate-700 flex items-center justify-between">
+                    <p className="text-xs text-slate-500 dark:text-slate-400">
+                      {test.winnerPublishedAt
+                        ? `${new Date(test.winnerPublishedAt).toLocaleString('ja-JP')} に他のアカウントへ投稿を予約しました`
+                        : winner
+                          ? `バリアント${winner.label}が勝者です`
+                          : `有意差はありませんが、バリアント${publishCandidate.label}が首位です`}
+                    </p>
+                    <button
+                      onClick={() => publishWinner(test, publishCandidate)}
+                      disabled={publishingId === test.id}
+                      className="px-3 py-1.5 text-sm bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+                    >
+                      {publishingId === test.id ? '予約中...' : `${publishCandidate.label}を他のアカウントに投稿`}
+                    </button>
                   </div>
                 )}
               </div>
             );
           })}
         </div>
-      ) : !showCreator ? (
+      ) : !showCreator && !loading ? (
         <div className="bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-700 p-8 text-center">
           <p className="text-slate-500 dark:text-slate-400 mb-2">A/Bテストがありません</p>
           <p className="text-xs text-slate-400 dark:text-slate-500">「新規テスト」ボタンからテストを作成してください</p>
@@ -98,17 +98,15 @@ export function AccountManagerModal({
     }
   };
 
-  // トークンリフレッシュ
+  // トークンリフレッシュ（サーバーに保存されたトークンを更新し、有効期限だけを受け取る）
   const handleRefreshToken = async (account: Account) => {
-    if (!account.accessToken) return;
-
     try {
       const res = await fetch('/api/threads/token', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          shortLivedToken: account.accessToken,
           action: 'refresh',
+          accountId: account.id,
         }),
       });
       const data = await res.json();
@@ -116,11 +114,8 @@ export function AccountManagerModal({
       if (!res.ok || !data.success) {
         setError(`トークンのリフレッシュに失敗しました: ${data.error || '不明なエラー'}`);
       } else {
-        // トークンと有効期限を更新
-        const expiresAt = new Date(Date.now() + data.expiresIn * 1000).toISOString();
         onUpdateAccount(account.id, {
-          accessToken: data.accessToken,
-          tokenExpiresAt: expiresAt,
+          tokenExpiresAt: data.tokenExpiresAt,
         });
         setError(null);
         alert('トークンをリフレッシュしました');
@@ -187,6 +182,7 @@ export function AccountManagerModal({
       valid: { bg: 'bg-emerald-100', text: 'text-emerald-700', label: daysLeft !== null ? `${daysLeft}日` : '有効' },
       expiring_soon: { bg: 'bg-amber-100', text: 'text-amber-700', label: `残り${daysLeft}日` },
       expired: { bg: 'bg-red-100', text: 'text-red-700', label: '期限切れ' },
+      invalid: { bg: 'bg-red-100', text: 'text-red-700', label: '再認証が必要' },
       unknown: { bg: 'bg-slate-100', text: 'text-slate-500', label: '不明' },
     };
     const { bg, text, label } = config[status];
@@ -252,7 +248,7 @@ export function AccountManagerModal({
                 </p>
               ) : (
                 accounts.map((account) => {
-                  const tokenStatus = getTokenStatus(account.tokenExpiresAt);
+                  const tokenStatus = getTokenStatus(account.tokenExpiresAt, account.tokenStatus);
                   const daysLeft = getDaysUntilExpiry(account.tokenExpiresAt);
                   const isEditing = editingAccountId === account.id;
 
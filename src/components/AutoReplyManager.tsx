@@ -1,20 +1,49 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  CONDITION_LABELS,
+  LANGUAGE_LABELS,
+  MAX_COOLDOWN_MINUTES,
+  MAX_RESPONSE_DELAY_SECONDS,
+  describeCondition,
+  detectLanguage,
+  findMatchingRule,
+  parseConditions,
+  parseStoredConditions,
+  ruleMatches,
+  type ConditionGroup,
+  type ConditionLeafType,
+  type ConditionNode,
+  type DetectedLanguage,
+  type ReplyContext,
+} from '@/lib/autoreply/conditions';
+import { REPLY_TEMPLATE_VARIABLES, renderTemplate, validateTemplate } from '@/lib/templates/render';
+import { getAISettings } from './AISettings';
+import { TemplatePreview, TemplateVariableButtons } from './TemplatePreview';
+import { ModerationPanel } from './ModerationPanel';
+
+type TriggerType = 'keyword' | 'mention' | 'all' | 'conditions';
+type ResponseType = 'fixed' | 'template' | 'ai';
 
 interface AutoReplyRule {
   id: string;
   name: string;
   isActive: boolean;
   accountId: string;
-  triggerType: 'keyword' | 'mention' | 'all';
+  triggerType: TriggerType;
   triggerKeywords: string | null;
+  conditions: string | null;
+  priority: number;
   responseType: string;
   responseText: string;
+  requireApproval: boolean;
   responseDelay: number;
+  responseJitter: number;
   onlyNewFollowers: boolean;
   excludeFollowing: boolean;
   maxRepliesPerDay: number;
+  cooldownMinutes: number;
   totalReplies: number;
   todayReplies: number;
   lastReplyAt: string | null;
@@ -26,19 +55,24 @@ interface LocalAutoReplyRule {
   id: string;
   name: string;
   isActive: boolean;
+  priority?: number;
   trigger: {
-    type: 'keyword' | 'mention' | 'all';
+    type: TriggerType;
     keywords?: string[];
+    conditions?: ConditionGroup;
   };
   response: {
-    type: 'fixed' | 'template';
-    text: string;
+    type: ResponseType;
+    text: string; // ai の場合は返信方針
     delay: number;
+    jitter?: number;
+    requireApproval?: boolean;
   };
   conditions: {
     onlyNewFollowers?: boolean;
     excludeFollowing?: boolean;
     maxRepliesPerDay?: number;
+    cooldownMinutes?: number;
   };
   stats: {
     totalReplies: number;
@@ -48,31 +82,75 @@ interface LocalAutoReplyRule {
   createdAt: string;
 }
 
+// 承認待ちの返信
+interface PendingApproval {
+  id: string;
+  originalUsername: string;
+  originalText: string | null;
+  originalPostText: string | null;
+  replyText: string;
+  errorMessage: string | null;
+  createdAt: string;
+  rule: { id: string; name: string; responseType: string; responseText: string };
+}
+
 interface AutoReplyManagerProps {
-  accessToken: string;
   accountId?: string;
+  accountUsername?: string;
+  followerCount?: number | null;
   onRefresh?: () => void;
 }
 
+const EMPTY_GROUP: ConditionGroup = { type: 'group', operator: 'and', children: [] };
+
+// 条件ツリーのルートは常にグループとして扱う
+function toGroup(node: ConditionNode | null): ConditionGroup | undefined {
+  if (!node) return undefined;
+  return node.type === 'group' ? node : { type: 'group', operator: 'and', children: [node] };
+}
+
+function createLeaf(type: ConditionLeafType): ConditionNode {
+  switch (type) {
+    case 'keyword':
+    case 'exclude_keyword':
+      return { type, keywords: [] };
+    case 'regex':
+      return { type, pattern: '', flags: 'i' };
+    case 'language':
+      return { type, languages: ['ja'] };
+    case 'length':
+      return { type, min: undefined, max: 140 };
+    case 'post_hashtag':
+      return { type, hashtags: [] };
+    case 'mention':
+      return { type };
+  }
+}
+
 // API形式とローカル形式の変換
 function apiToLocal(rule: AutoReplyRule): LocalAutoReplyRule {
   return {
     id: rule.id,
     name: rule.name,
     isActive: rule.isActive,
+    priority: rule.priority,
     trigger: {
       type: rule.triggerType,
       keywords: rule.triggerKeywords ? JSON.parse(rule.triggerKeywords) : undefined,
+      conditions: toGroup(parseStoredConditions(rule.conditions)),
     },
     response: {
-      type: rule.responseType as 'fixed' | 'template',
+      type: rule.responseType as ResponseType,
       text: rule.responseText,
       delay: rule.responseDelay,
+      jitter: rule.responseJitter,
+      requireApproval: rule.requireApproval,
     },
     conditions: {
       onlyNewFollowers: rule.onlyNewFollowers,
       excludeFollowing: rule.excludeFollowing,
       maxRepliesPerDay: rule.maxRepliesPerDay,
+      cooldownMinutes: rule.cooldownMinutes,
     },
     stats: {
       totalReplies: rule.totalReplies,
@@ -83,7 +161,234 @@ function apiToLocal(rule: AutoReplyRule): LocalAutoReplyRule {
   };
 }
 
-export function AutoReplyManager({ accessToken, accountId, onRefresh }: AutoReplyManagerProps) {
+// 条件評価用の形式に変換
+function toMatchable(rule: LocalAutoReplyRule) {
+  return {
+    rule,
+    isActive: rule.isActive,
+    priority: rule.priority ?? 0,
+    triggerType: rule.trigger.type,
+    triggerKeywords: rule.trigger.keywords ?? [],
+    conditions: rule.trigger.type === 'conditions' ? rule.trigger.conditions ?? null : null,
+  };
+}
+
+const LEAF_TYPES = Object.keys(CONDITION_LABELS) as ConditionLeafType[];
+const inputClass = 'w-full px-3 py-2 border border-slate-200 dark:border-slate-700 rounded-lg dark:bg-slate-800 text-sm';
+
+// 条件1件の入力欄
+function ConditionLeafEditor({ node, onChange }: { node: ConditionNode; onChange: (node: ConditionNode) => void }) {
+  switch (node.type) {
+    case 'keyword':
+    case 'exclude_keyword':
+      return (
+        <input
+          type="text"
+          value={node.keywords.join(',')}
+          onChange={(e) => onChange({ ...node, keywords: e.target.value.split(',') })}
+          placeholder={node.type === 'keyword' ? 'ありがとう, thanks（いずれかを含む）' : '宣伝, http（いずれかを含めば除外）'}
+          className={inputClass}
+        />
+      );
+
+    case 'regex': {
+      let invalid = false;
+      try {
+        new RegExp(node.pattern, node.flags);
+      } catch {
+        invalid = true;
+      }
+      return (
+        <div className="space-y-1">
+          <input
+            type="text"
+            value={node.pattern}
+            onChange={(e) => onChange({ ...node, pattern: e.target.value })}
+            placeholder="^(質問|教えて)"
+            className={`${inputClass} font-mono ${invalid ? 'border-red-400' : ''}`}
+          />
+          <label className="flex items-center gap-2 text-xs text-slate-500">
+            <input
+              type="checkbox"
+              checked={(node.flags ?? 'i').includes('i')}
+              onChange={(e) => onChange({ ...node, flags: e.target.checked ? 'i' : '' })}
+              className="w-3 h-3 rounded border-slate-300"
+            />
+            大文字・小文字を区別しない
+            {invalid && <span className="text-red-500">正規表現が不正です</span>}
+          </label>
+        </div>
+      );
+    }
+
+    case 'language':
+      return (
+        <div className="flex flex-wrap gap-1">
+          {(Object.keys(LANGUAGE_LABELS) as DetectedLanguage[]).map(lang => {
+            const selected = node.languages.includes(lang);
+            return (
+              <button
+                key={lang}
+                type="button"
+                onClick={() => onChange({
+                  ...node,
+                  languages: selected ? node.languages.filter(l => l !== lang) : [...node.languages, lang],
+                })}
+                className={`px-2 py-1 text-xs rounded-lg border ${
+                  selected
+                    ? 'bg-indigo-600 text-white border-indigo-600'
+                    : 'border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-400'
+                }`}
+              >
+                {LANGUAGE_LABELS[lang]}
+              </button>
+            );
+          })}
+        </div>
+      );
+
+    case 'length':
+      return (
+        <div className="flex items-center gap-2 text-sm text-slate-500">
+          <input
+            type="number"
+            value={node.min ?? ''}
+            onChange={(e) => onChange({ ...node, min: e.target.value === '' ? undefined : Math.trunc(Number(e.target.value)) })}
+            min={0}
+            placeholder="下限なし"
+            className={inputClass}
+          />
+          <span>〜</span>
+          <input
+            type="number"
+            value={node.max ?? ''}
+            onChange={(e) => onChange({ ...node, max: e.target.value === '' ? undefined : Math.trunc(Number(e.target.value)) })}
+            min={0}
+            placeholder="上限なし"
+            className={inputClass}
+          />
+          <span className="whitespace-nowrap">文字</span>
+        </div>
+      );
+
+    case 'post_hashtag':
+      return (
+        <input
+          type="text"
+          value={node.hashtags.join(',')}
+          onChange={(e) => onChange({ ...node, hashtags: e.target.value.split(',') })}
+          placeholder="#キャンペーン, #質問募集"
+          className={inputClass}
+        />
+      );
+
+    case 'mention':
+    case 'group':
+      return null;
+  }
+}
+
+// AND/OR グループの編集（入れ子は1階層まで）
+function ConditionGroupEditor({
+  group,
+  depth,
+  onChange,
+  onRemove,
+}: {
+  group: ConditionGroup;
+  depth: number;
+  onChange: (group: ConditionGroup) => void;
+  onRemove?: () => void;
+}) {
+  const updateChild = (index: number, child: ConditionNode) => {
+    onChange({ ...group, children: group.children.map((c, i) => (i === index ? child : c)) });
+  };
+  const removeChild = (index: number) => {
+    onChange({ ...group, children: group.children.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className={`space-y-2 p-3 rounded-lg border ${depth === 0 ? 'border-slate-200 dark:border-slate-700' : 'border-dashed border-indigo-300 dark:border-indigo-700'}`}>
+      <div className="flex items-center gap-2 text-sm">
+        <select
+          value={group.operator}
+          onChange={(e) => onChange({ ...group, operator: e.target.value as ConditionGroup['operator'] })}
+          className="px-2 py-1 border border-slate-200 dark:border-slate-700 rounded-lg dark:bg-slate-800"
+        >
+          <option value="and">すべて満たす（AND）</option>
+          <option value="or">いずれかを満たす（OR）</option>
+        </select>
+        {onRemove && (
+          <button type="button" onClick={onRemove} className="ml-auto text-xs text-slate-400 hover:text-red-500">
+            グループを削除
+          </button>
+        )}
+      </div>
+
+      {group.children.length === 0 && (
+        <p className="text-xs text-slate-400">条件がありません（すべてのリプライに一致します）</p>
+      )}
+
+      {group.children.map((child, index) => (
+        child.type === 'group' ? (
+          <ConditionGroupEditor
+            key={index}
+            group={child}
+            depth={depth + 1}
+            onChange={(updated) => updateChild(index, updated)}
+            onRemove={() => removeChild(index)}
+          />
+        ) : (
+          <div key={index} className="flex items-start gap-2">
+            <select
+              value={child.type}
+              onChange={(e) => updateChild(index, createLeaf(e.target.value as ConditionLeafType))}
+              className="px-2 py-2 text-sm border border-slate-200 dark:border-slate-700 rounded-lg dark:bg-slate-800 shrink-0"
+            >
+              {LEAF_TYPES.map(type => (
+                <option key={type} value={type}>{CONDITION_LABELS[type]}</option>
+              ))}
+            </select>
+            <div className="flex-1 min-w-0">
+              <ConditionLeafEditor node={child} onChange={(updated) => updateChild(index, updated)} />
+            </div>
+            <button
+              type="button"
+              onClick={() => removeChild(index)}
+              className="p-2 text-slate-400 hover:text-red-500"
+            >
+              ×
+            </button>
+          </div>
+        )
+      ))}
+
+      <div className="flex gap-3 text-xs">
+        <button
+          type="button"
+          onClick={() => onChange({ ...group, children: [...group.children, createLeaf('keyword')] })}
+          className="text-indigo-600 hover:text-indigo-700"
+        >
+          + 条件を追加
+        </button>
+        {depth === 0 && (
+          <button
+            type="button"
+            onClick={() => onChange({
+              ...group,
+              children: [...group.children, { type: 'group', operator: group.operator === 'and' ? 'or' : 'and', children: [] }],
+            })}
+            className="text-indigo-600 hover:text-indigo-700"
+          >
+            + グループを追加
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function AutoReplyManager({ accountId, accountUsername, followerCount = null, onRefresh }: AutoReplyManagerProps) {
   const [rules, setRules] = useState<LocalAutoReplyRule[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -94,14 +399,29 @@ export function AutoReplyManager({ accessToken, accountId, onRefresh }: AutoRepl
 
   // フォーム状態
   const [name, setName] = useState('');
-  const [triggerType, setTriggerType] = useState<'keyword' | 'mention' | 'all'>('keyword');
+  const [triggerType, setTriggerType] = useState<TriggerType>('keyword');
   const [keywords, setKeywords] = useState('');
+  const [conditionTree, setConditionTree] = useState<ConditionGroup>(EMPTY_GROUP);
+  const [priority, setPriority] = useState(0);
+  const [cooldownMinutes, setCooldownMinutes] = useState(0);
+  const [responseType, setResponseType] = useState<ResponseType>('fixed');
   const [responseText, setResponseText] = useState('');
+  const [requireApproval, setRequireApproval] = useState(false);
   const [delay, setDelay] = useState(60);
+  const [jitter, setJitter] = useState(0);
   const [onlyNewFollowers, setOnlyNewFollowers] = useState(false);
   const [excludeFollowing, setExcludeFollowing] = useState(false);
   const [maxRepliesPerDay, setMaxRepliesPerDay] = useState(50);
 
+  // ドライラン
+  const [testText, setTestText] = useState('');
+  const [testPostText, setTestPostText] = useState('');
+
+  // 承認待ち
+  const [approvals, setApprovals] = useState<PendingApproval[]>([]);
+  const [approvalEdits, setApprovalEdits] = useState<Record<string, string>>({});
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+
   // ローカルルールをAPIにマイグレーション
   const migrateLocalRulesToApi = useCallback(async (localRules: LocalAutoReplyRule[]) => {
     if (!accountId) return;
@@ -117,12 +437,17 @@ export function AutoReplyManager({ accessToken, accountId, onRefresh }: AutoRepl
             isActive: rule.isActive,
             triggerType: rule.trigger.type,
             triggerKeywords: rule.trigger.keywords,
+            conditions: rule.trigger.type === 'conditions' ? rule.trigger.conditions : null,
+            priority: rule.priority ?? 0,
             responseType: rule.response.type,
             responseText: rule.response.text,
+            requireApproval: rule.response.requireApproval ?? false,
             responseDelay: rule.response.delay,
+            responseJitter: rule.response.jitter ?? 0,
             onlyNewFollowers: rule.conditions.onlyNewFollowers,
             excludeFollowing: rule.conditions.excludeFollowing,
             maxRepliesPerDay: rule.conditions.maxRepliesPerDay,
+            cooldownMinutes: rule.conditions.cooldownMinutes ?? 0,
           }),
         });
       } catch (e) {
@@ -195,6 +520,95 @@ export function AutoReplyManager({ accessToken, accountId, onRefresh }: AutoRepl
     fetchRules();
   }, [fetchRules]);
 
+  // 承認待ちの返信を取得
+  const fetchApprovals = useCallback(async () => {
+    if (!accountId) return;
+    try {
+      const response = await fetch(`/api/autoreply/approvals?accountId=${accountId}`);
+      if (response.ok) {
+        setApprovals(await response.json());
+      }
+    } catch (e) {
+      console.error('Failed to fetch approvals', e);
+    }
+  }, [accountId]);
+
+  useEffect(() => {
+    if (useApi) fetchApprovals();
+  }, [useApi, fetchApprovals]);
+
+  // 承認待ちの返信を保存・承認・却下
+  const reviewApproval = async (approval: PendingApproval, action: 'save' | 'approve' | 'reject') => {
+    if (action === 'reject' && !confirm('この返信を却下しますか？')) return;
+
+    setReviewingId(approval.id);
+    setError(null);
+    try {
+      const response = await fetch(`/api/autoreply/approvals/${approval.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          action,
+          replyText: approvalEdits[approval.id] ?? approval.replyText,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || '処理に失敗しました');
+      } else {
+        setApprovalEdits(prev => {
+          const next = { ...prev };
+          delete next[approval.id];
+          return next;
+        });
+      }
+      await fetchApprovals();
+      if (action === 'approve') await fetchRules();
+    } catch (e) {
+      console.error('Failed to review approval', e);
+      setError('処理に失敗しました');
+    }
+    setReviewingId(null);
+  };
+
+  // AIで返信文を作り直す（ブラウザに保存されたAPIキーを使用）
+  const regenerateApproval = async (approval: PendingApproval) => {
+    const { apiKey } = getAISettings();
+    if (!apiKey) {
+      setError('AI設定でGemini APIキーを入力してください');
+      return;
+    }
+
+    setReviewingId(approval.id);
+    setError(null);
+    try {
+      const response = await fetch('/api/ai/generate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          type: 'reply',
+          apiKey,
+          reply: {
+            instructions: approval.rule.responseType === 'ai' ? approval.rule.responseText : null,
+            postText: approval.originalPostText,
+            replyText: approval.originalText || '',
+            username: approval.originalUsername,
+          },
+        }),
+      });
+      const data = await response.json();
+      if (response.ok && data.text) {
+        setApprovalEdits(prev => ({ ...prev, [approval.id]: data.text }));
+      } else {
+        setError(data.error || '返信文の生成に失敗しました');
+      }
+    } catch (e) {
+      console.error('Failed to regenerate reply', e);
+      setError('返信文の生成に失敗しました');
+    }
+    setReviewingId(null);
+  };
+
   // ローカル保存
   const saveToLocal = (newRules: LocalAutoReplyRule[]) => {
     setRules(newRules);
@@ -205,13 +619,34 @@ export function AutoReplyManager({ accessToken, accountId, onRefresh }: AutoRepl
   const handleSave = async () => {
     if (!name.trim() || !responseText.trim()) return;
 
-    setSaving(true);
     setError(null);
 
     const keywordsList = triggerType === 'keyword'
       ? keywords.split(',').map(k => k.trim()).filter(Boolean)
       : undefined;
 
+    // 詳細条件は保存前に検証（空白の除去なども反映される）
+    let conditions: ConditionGroup | undefined;
+    if (triggerType === 'conditions') {
+      try {
+        conditions = toGroup(parseConditions(conditionTree));
+      } catch (e) {
+        setError(e instanceof Error ? e.message : '条件が不正です');
+        return;
+      }
+    }
+
+    // 定型文はテンプレートとして検証
+    if (responseType !== 'ai') {
+      const templateErrors = validateTemplate(responseText, { variables: REPLY_TEMPLATE_VARIABLES });
+      if (templateErrors.length > 0) {
+        setError(`返信メッセージ: ${templateErrors[0]}`);
+        return;
+      }
+    }
+
+    setSaving(true);
+
     // APIに保存を試みる
     if (useApi && accountId) {
       try {
@@ -221,12 +656,19 @@ export function AutoReplyManager({ accessToken, accountId, onRefresh }: AutoRepl
           isActive: editingRule?.isActive ?? true,
           triggerType,
           triggerKeywords: keywordsList,
-          responseType: 'fixed',
+          conditions: conditions ?? null,
+          priority,
+          responseType,
           responseText,
+          requireApproval,
+          // AI返信の下書きはサーバーで生成するため、APIキーを一緒に送る
+          aiApiKey: responseType === 'ai' ? getAISettings().apiKey : undefined,
           responseDelay: delay,
+          responseJitter: jitter,
           onlyNewFollowers,
           excludeFollowing,
           maxRepliesPerDay,
+          cooldownMinutes,
         };
 
         let response;
@@ -252,6 +694,13 @@ export function AutoReplyManager({ accessToken, accountId, onRefresh }: AutoRepl
           if (onRefresh) onRefresh();
           return;
         }
+
+        if (response.status === 400) {
+          const data = await response.json();
+          setError(data.error || '保存に失敗しました');
+          setSaving(false);
+          return;
+        }
       } catch (e) {
         console.error('API save failed, falling back to localStorage', e);
       }
@@ -262,19 +711,24 @@ export function AutoReplyManager({ accessToken, accountId, onRefresh }: AutoRepl
       id: editingRule?.id || `rule-${Date.now()}`,
       name,
       isActive: editingRule?.isActive ?? true,
+      priority,
       trigger: {
         type: triggerType,
         keywords: keywordsList,
+        conditions,
       },
       response: {
-        type: 'fixed',
+        type: responseType,
         text: responseText,
         delay,
+        jitter,
+        requireApproval,
       },
       conditions: {
         onlyNewFollowers,
         excludeFollowing,
         maxRepliesPerDay,
+        cooldownMinutes,
       },
       stats: editingRule?.stats || {
         totalReplies: 0,
@@ -349,8 +803,14 @@ export function AutoReplyManager({ accessToken, accountId, onRefresh }: AutoRepl
     setName('');
     setTriggerType('keyword');
     setKeywords('');
+    setConditionTree(EMPTY_GROUP);
+    setPriority(0);
+    setCooldownMinutes(0);
+    setResponseType('fixed');
     setResponseText('');
+    setRequireApproval(false);
     setDelay(60);
+    setJitter(0);
     setOnlyNewFollowers(false);
     setExcludeFollowing(false);
     setMaxRepliesPerDay(50);
@@ -363,8 +823,14 @@ export function AutoReplyManager({ accessToken, accountId, onRefresh }: AutoRepl
     setName(rule.name);
     setTriggerType(rule.trigger.type);
     setKeywords(rule.trigger.keywords?.join(', ') || '');
+    setConditionTree(rule.trigger.conditions ?? EMPTY_GROUP);
+    setPriority(rule.priority ?? 0);
+    setCooldownMinutes(rule.conditions.cooldownMinutes ?? 0);
+    setResponseType(rule.response.type === 'ai' ? 'ai' : 'fixed');
     setResponseText(rule.response.text);
+    setRequireApproval(rule.response.requireApproval ?? false);
     setDelay(rule.response.delay);
+    setJitter(rule.response.jitter ?? 0);
     setOnlyNewFollowers(rule.conditions.onlyNewFollowers || false);
     setExcludeFollowing(rule.conditions.excludeFollowing || false);
     setMaxRepliesPerDay(rule.conditions.maxRepliesPerDay || 50);
@@ -380,11 +846,75 @@ export function AutoReplyManager({ accessToken, accountId, onRefresh }: AutoRepl
         return 'メンション時';
       case 'all':
         return '全てのリプライ';
+      case 'conditions':
+        return `詳細条件: ${rule.trigger.conditions ? describeCondition(rule.trigger.conditions) : '未設定'}`;
       default:
         return '';
     }
   };
 
+  // 優先順位順（同順位は作成順）に並べたルール
+  const sortedRules = useMemo(
+    () => [...rules].sort((a, b) => (a.priority ?? 0) - (b.priority ?? 0)),
+    [rules]
+  );
+
+  // ドライラン: 編集中のルールは保存前の内容で評価する
+  const dryRun = useMemo(() => {
+    if (!testText.trim()) return null;
+
+    const context: ReplyContext = {
+      text: testText,
+      postText: testPostText,
+      username: 'sample_user',
+      accountUsername: accountUsername || '',
+    };
+
+    const candidates = sortedRules.filter(rule => rule.id !== editingRule?.id);
+    if (showEditor) {
+      candidates.push({
+        id: editingRule?.id || 'draft',
+        name: name || '（編集中のルール）',
+        isActive: editingRule?.isActive ?? true,
+        priority,
+        trigger: {
+          type: triggerType,
+          keywords: keywords.split(',').map(k => k.trim()).filter(Boolean),
+          conditions: conditionTree,
+        },
+        response: { type: responseType, text: responseText, delay, requireApproval },
+        conditions: { cooldownMinutes },
+        stats: { totalReplies: 0, todayReplies: 0 },
+        createdAt: new Date().toISOString(),
+      });
+    }
+
+    const matchable = candidates
+      .sort((a, b) => (a.priority ?? 0) - (b.priority ?? 0))
+      .map(toMatchable);
+    const fired = findMatchingRule(matchable, context);
+
+    return {
+      language: detectLanguage(testText),
+      fired: fired?.rule ?? null,
+      replyText: fired?.rule.response.type === 'ai'
+        ? '（AIがリプライ内容に合わせて返信文を生成します）'
+        : fired && renderTemplate(fired.rule.response.text, {
+          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          username: context.username,
+          originalText: testText,
+          followerCount,
+        }),
+      evaluations: matchable.map(m => ({
+        rule: m.rule,
+        matched: m.isActive && ruleMatches(m, context),
+      })),
+    };
+  }, [
+    testText, testPostText, accountUsername, followerCount, sortedRules, showEditor, editingRule, name, priority,
+    triggerType, keywords, conditionTree, responseType, responseText, requireApproval, delay, cooldownMinutes,
+  ]);
+
   return (
     <div className="space-y-6">
       {/* ヘッダー */}
@@ -437,6 +967,73 @@ export function AutoReplyManager({ accessToken, accountId, onRefresh }: AutoRepl
         </div>
       </div>
 
+      {/* 承認待ち */}
+      {approvals.length > 0 && (
+        <div className="bg-white dark:bg-slate-900 rounded-xl border border-amber-200 dark:border-amber-800 p-5">
+          <h3 className="font-semibold text-slate-900 dark:text-white mb-1">
+            承認待ち <span className="text-sm font-normal text-slate-500">{approvals.length}件</span>
+          </h3>
+          <p className="text-sm text-slate-500 mb-4">内容を確認・編集してから送信できます</p>
+          <div className="space-y-4">
+            {approvals.map(approval => (
+              <div key={approval.id} className="p-4 border border-slate-200 dark:border-slate-700 rounded-lg space-y-2">
+                <div className="flex items-center justify-between text-xs text-slate-500">
+                  <span>{approval.rule.name}</span>
+                  <span>{new Date(approval.createdAt).toLocaleString('ja-JP')}</span>
+                </div>
+                {approval.originalPostText && (
+                  <p className="text-xs text-slate-400 line-clamp-2">元の投稿: {approval.originalPostText}</p>
+                )}
+                <p className="text-sm text-slate-700 dark:text-slate-300">
+                  <span className="font-medium">@{approval.originalUsername}</span>: {approval.originalText || '（本文なし）'}
+                </p>
+                <textarea
+                  value={approvalEdits[approval.id] ?? approval.replyText}
+                  onChange={(e) => setApprovalEdits(prev => ({ ...prev, [approval.id]: e.target.value }))}
+                  className="w-full px-3 py-2 border border-slate-200 dark:border-slate-700 rounded-lg dark:bg-slate-800 h-20 resize-none text-sm"
+                  maxLength={500}
+                />
+                {approval.errorMessage && (
+                  <p className="text-xs text-red-500">前回の送信エラー: {approval.errorMessage}</p>
+                )}
+                <div className="flex flex-wrap justify-end gap-2">
+                  <button
+                    onClick={() => regenerateApproval(approval)}
+                    disabled={reviewingId === approval.id}
+                    className="px-3 py-1.5 text-sm text-indigo-600 hover:text-indigo-700 disabled:opacity-50"
+                  >
+                    AIで再生成
+                  </button>
+                  {approvalEdits[approval.id] !== undefined && (
+                    <button
+                      onClick={() => reviewApproval(approval, 'save')}
+                      disabled={reviewingId === approval.id}
+                      className="px-3 py-1.5 text-sm text-slate-600 hover:text-slate-800 disabled:opacity-50"
+                    >
+                      編集を保存
+                    </button>
+                  )}
+                  <button
+                    onClick={() => reviewApproval(approval, 'reject')}
+                    disabled={reviewingId === approval.id}
+                    className="px-3 py-1.5 text-sm bg-slate-100 text-slate-600 rounded-lg hover:bg-slate-200 disabled:opacity-50"
+                  >
+                    却下
+                  </button>
+                  <button
+                    onClick={() => reviewApproval(approval, 'approve')}
+                    disabled={reviewingId === approval.id || !(approvalEdits[approval.id] ?? approval.replyText).trim()}
+                    className="px-3 py-1.5 text-sm bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+                  >
+                    {reviewingId === approval.id ? '処理中...' : '承認して送信'}
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* エディター */}
       {showEditor && (
         <div className="bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-700 p-5">
@@ -459,12 +1056,13 @@ export function AutoReplyManager({ accessToken, accountId, onRefresh }: AutoRepl
               <label className="block text-sm text-slate-600 dark:text-slate-400 mb-1">トリガー条件</label>
               <select
                 value={triggerType}
-                onChange={(e) => setTriggerType(e.target.value as 'keyword' | 'mention' | 'all')}
+                onChange={(e) => setTriggerType(e.target.value as TriggerType)}
                 className="w-full px-3 py-2 border border-slate-200 dark:border-slate-700 rounded-lg dark:bg-slate-800"
               >
                 <option value="keyword">特定のキーワードを含む</option>
                 <option value="mention">メンションされた時</option>
                 <option value="all">全てのリプライ（注意）</option>
+                <option value="conditions">詳細条件（AND/OR・正規表現・除外など）</option>
               </select>
             </div>
 
@@ -483,18 +1081,70 @@ export function AutoReplyManager({ accessToken, accountId, onRefresh }: AutoRepl
               </div>
             )}
 
+            {triggerType === 'conditions' && (
+              <div>
+                <label className="block text-sm text-slate-600 dark:text-slate-400 mb-1">詳細条件</label>
+                <ConditionGroupEditor group={conditionTree} depth={0} onChange={setConditionTree} />
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm text-slate-600 dark:text-slate-400 mb-1">返信方法</label>
+              <select
+                value={responseType}
+                onChange={(e) => setResponseType(e.target.value as ResponseType)}
+                className="w-full px-3 py-2 border border-slate-200 dark:border-slate-700 rounded-lg dark:bg-slate-800"
+              >
+                <option value="fixed">固定のメッセージ</option>
+                <option value="ai">AIが元の投稿とリプライに合わせて作成（Gemini）</option>
+              </select>
+              {responseType === 'ai' && !getAISettings().apiKey && (
+                <p className="text-xs text-amber-600 mt-1">
+                  AI設定でGemini APIキーを入力してから保存してください（サーバーでの下書き生成に使用します）
+                </p>
+              )}
+            </div>
+
             <div>
               <label className="block text-sm text-slate-600 dark:text-slate-400 mb-1">
-                返信メッセージ
-                <span className="text-slate-400 ml-2">（{'{username}'} で相手の名前を挿入）</span>
+                {responseType === 'ai' ? (
+                  <>
+                    返信の方針
+                    <span className="text-slate-400 ml-2">（口調や伝えたいことをAIに指示）</span>
+                  </>
+                ) : (
+                  <>
+                    返信メッセージ
+                    <span className="text-slate-400 ml-2">（{'{username}'} などの変数や {'{A|B}'} のランダム表現が使えます）</span>
+                  </>
+                )}
               </label>
               <textarea
                 value={responseText}
                 onChange={(e) => setResponseText(e.target.value)}
-                placeholder="@{username} リプライありがとうございます！"
+                placeholder={responseType === 'ai'
+                  ? '丁寧な口調でお礼を伝え、質問には分かる範囲で答える。商品の価格には触れない。'
+                  : '@{username} リプライありがとうございます！'}
                 className="w-full px-3 py-2 border border-slate-200 dark:border-slate-700 rounded-lg dark:bg-slate-800 h-24 resize-none"
                 maxLength={500}
               />
+              {responseType !== 'ai' && (
+                <>
+                  <TemplateVariableButtons
+                    variables={REPLY_TEMPLATE_VARIABLES}
+                    onInsert={(tag) => setResponseText(prev => prev + tag)}
+                  />
+                  <TemplatePreview
+                    text={responseText}
+                    variables={REPLY_TEMPLATE_VARIABLES}
+                    context={{
+                      username: 'sample_user',
+                      originalText: testText || 'いつも参考にしています！質問なのですが、おすすめの本はありますか？',
+                      followerCount,
+                    }}
+                  />
+                </>
+              )}
             </div>
 
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -505,12 +1155,27 @@ export function AutoReplyManager({ accessToken, accountId, onRefresh }: AutoRepl
                 <input
                   type="number"
                   value={delay}
-                  onChange={(e) => setDelay(Number(e.target.value))}
-                  min={30}
-                  max={300}
+                  onChange={(e) => setDelay(Math.trunc(Number(e.target.value)))}
+                  min={0}
+                  max={MAX_RESPONSE_DELAY_SECONDS}
                   className="w-full px-3 py-2 border border-slate-200 dark:border-slate-700 rounded-lg dark:bg-slate-800"
                 />
-                <p className="text-xs text-slate-400 mt-1">30〜300秒</p>
+                <p className="text-xs text-slate-400 mt-1">最大24時間。送信は5分ごとの定期実行で行われます</p>
+              </div>
+
+              <div>
+                <label className="block text-sm text-slate-600 dark:text-slate-400 mb-1">
+                  ランダムな幅（秒）
+                </label>
+                <input
+                  type="number"
+                  value={jitter}
+                  onChange={(e) => setJitter(Math.trunc(Number(e.target.value)))}
+                  min={0}
+                  max={MAX_RESPONSE_DELAY_SECONDS}
+                  className="w-full px-3 py-2 border border-slate-200 dark:border-slate-700 rounded-lg dark:bg-slate-800"
+                />
+                <p className="text-xs text-slate-400 mt-1">遅延に0〜この秒数を加えて自然なタイミングにします</p>
               </div>
 
               <div>
@@ -526,9 +1191,48 @@ export function AutoReplyManager({ accessToken, accountId, onRefresh }: AutoRepl
                   className="w-full px-3 py-2 border border-slate-200 dark:border-slate-700 rounded-lg dark:bg-slate-800"
                 />
               </div>
+
+              <div>
+                <label className="block text-sm text-slate-600 dark:text-slate-400 mb-1">
+                  優先順位
+                </label>
+                <input
+                  type="number"
+                  value={priority}
+                  onChange={(e) => setPriority(Math.trunc(Number(e.target.value)))}
+                  className="w-full px-3 py-2 border border-slate-200 dark:border-slate-700 rounded-lg dark:bg-slate-800"
+                />
+                <p className="text-xs text-slate-400 mt-1">小さいほど優先</p>
+              </div>
+
+              <div>
+                <label className="block text-sm text-slate-600 dark:text-slate-400 mb-1">
+                  同じ人へのクールダウン（分）
+                </label>
+                <input
+                  type="number"
+                  value={cooldownMinutes}
+                  onChange={(e) => setCooldownMinutes(Math.trunc(Number(e.target.value)))}
+                  min={0}
+                  max={MAX_COOLDOWN_MINUTES}
+                  className="w-full px-3 py-2 border border-slate-200 dark:border-slate-700 rounded-lg dark:bg-slate-800"
+                />
+                <p className="text-xs text-slate-400 mt-1">0で制限なし</p>
+              </div>
             </div>
 
             <div className="space-y-2">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={requireApproval}
+                  onChange={(e) => setRequireApproval(e.target.checked)}
+                  className="w-4 h-4 rounded border-slate-300"
+                />
+                <span className="text-sm text-slate-600 dark:text-slate-400">
+                  送信前に承認する（承認待ちに追加され、確認・編集してから送信します）
+                </span>
+              </label>
               <label className="flex items-center gap-2">
                 <input
                   type="checkbox"
@@ -575,6 +1279,74 @@ export function AutoReplyManager({ accessToken, accountId, onRefresh }: AutoRepl
         </div>
       )}
 
+      {/* ドライラン */}
+      {(rules.length > 0 || showEditor) && (
+        <div className="bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-700 p-5">
+          <h3 className="font-semibold text-slate-900 dark:text-white mb-1">ドライラン</h3>
+          <p className="text-sm text-slate-500 mb-4">
+            サンプルのリプライに対して、どのルールが返信するかを確認できます（実際には送信されません）
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm text-slate-600 dark:text-slate-400 mb-1">リプライ本文</label>
+              <textarea
+                value={testText}
+                onChange={(e) => setTestText(e.target.value)}
+                placeholder="素敵な投稿ありがとうございます！"
+                className="w-full px-3 py-2 border border-slate-200 dark:border-slate-700 rounded-lg dark:bg-slate-800 h-20 resize-none"
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-slate-600 dark:text-slate-400 mb-1">
+                元の投稿（任意）
+                <span className="text-slate-400 ml-2">ハッシュタグ条件の確認用</span>
+              </label>
+              <textarea
+                value={testPostText}
+                onChange={(e) => setTestPostText(e.target.value)}
+                placeholder="新作を公開しました #お知らせ"
+                className="w-full px-3 py-2 border border-slate-200 dark:border-slate-700 rounded-lg dark:bg-slate-800 h-20 resize-none"
+              />
+            </div>
+          </div>
+
+          {dryRun && (
+            <div className="mt-4 space-y-3">
+              <div className={`p-3 rounded-lg border text-sm ${
+                dryRun.fired
+                  ? 'bg-green-50 border-green-200 text-green-700 dark:bg-green-900/20 dark:border-green-800 dark:text-green-400'
+                  : 'bg-slate-50 border-slate-200 text-slate-600 dark:bg-slate-800 dark:border-slate-700 dark:text-slate-400'
+              }`}>
+                {dryRun.fired ? (
+                  <>
+                    <p><strong>「{dryRun.fired.name}」</strong> が返信します</p>
+                    <p className="mt-1 whitespace-pre-wrap">{dryRun.replyText}</p>
+                  </>
+                ) : (
+                  <p>一致するルールはありません（返信されません）</p>
+                )}
+                <p className="mt-1 text-xs opacity-75">判定された言語: {LANGUAGE_LABELS[dryRun.language]}</p>
+              </div>
+              <ul className="text-sm space-y-1">
+                {dryRun.evaluations.map(({ rule, matched }) => (
+                  <li key={rule.id} className="flex items-center gap-2">
+                    <span className={`w-2 h-2 rounded-full ${matched ? 'bg-green-500' : 'bg-slate-300'}`} />
+                    <span className="text-slate-500 w-10">#{rule.priority ?? 0}</span>
+                    <span className="text-slate-700 dark:text-slate-300">{rule.name}</span>
+                    <span className="text-xs text-slate-400">
+                      {!rule.isActive ? '無効' : matched ? (rule.id === dryRun.fired?.id ? '一致（返信）' : '一致（優先順位が低いため返信しない）') : '不一致'}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+              {!accountUsername && (
+                <p className="text-xs text-slate-400">アカウント名が不明なため、メンション条件は一致しません</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* ルール一覧 */}
       <div className="bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-700 overflow-hidden">
         {loading ? (
@@ -593,13 +1365,22 @@ export function AutoReplyManager({ accessToken, accountId, onRefresh }: AutoRepl
           </div>
         ) : (
           <div className="divide-y divide-slate-200 dark:divide-slate-700">
-            {rules.map((rule) => (
+            {sortedRules.map((rule) => (
               <div key={rule.id} className="p-4 hover:bg-slate-50 dark:hover:bg-slate-800">
                 <div className="flex items-start justify-between gap-4">
                   <div className="flex-1 min-w-0">
                     <div className="flex items-center gap-2 mb-1">
                       <span className={`w-2 h-2 rounded-full ${rule.isActive ? 'bg-green-500' : 'bg-slate-300'}`} />
                       <p className="font-medium text-slate-900 dark:text-white">{rule.name}</p>
+                      <span className="px-1.5 py-0.5 text-xs bg-slate-100 dark:bg-slate-800 text-slate-500 rounded">
+                        優先 {rule.priority ?? 0}
+                      </span>
+                      {rule.response.type === 'ai' && (
+                        <span className="px-1.5 py-0.5 text-xs bg-purple-100 text-purple-700 rounded">AI返信</span>
+                      )}
+                      {rule.response.requireApproval && (
+                        <span className="px-1.5 py-0.5 text-xs bg-amber-100 text-amber-700 rounded">承認制</span>
+                      )}
                     </div>
                     <p className="text-sm text-slate-500 mb-2">{getTriggerLabel(rule)}</p>
                     <div className="p-2 bg-slate-50 dark:bg-slate-800 rounded text-sm text-slate-600 dark:text-slate-400 line-clamp-2">
@@ -608,7 +1389,13 @@ export function AutoReplyManager({ accessToken, accountId, onRefresh }: AutoRepl
                     <div className="mt-2 flex gap-4 text-xs text-slate-500">
                       <span>累計: {rule.stats.totalReplies}件</span>
                       <span>今日: {rule.stats.todayReplies}件</span>
-                      <span>遅延: {rule.response.delay}秒</span>
+                      <span>
+                        遅延: {rule.response.delay}秒
+                        {(rule.response.jitter ?? 0) > 0 && `〜${rule.response.delay + (rule.response.jitter ?? 0)}秒`}
+                      </span>
+                      {(rule.conditions.cooldownMinutes ?? 0) > 0 && (
+                        <span>クールダウン: {rule.conditions.cooldownMinutes}分</span>
+                      )}
                     </div>
                   </div>
                   <div className="flex items-center gap-1">
@@ -646,18 +1433,24 @@ export function AutoReplyManager({ accessToken, accountId, onRefresh }: AutoRepl
         )}
       </div>
 
+      {/* リプライのモデレーション（サーバー保存時のみ） */}
+      {useApi && accountId && <ModerationPanel accountId={accountId} />}
+
       {/* 使い方ガイド */}
       <div className="bg-slate-50 dark:bg-slate-800 rounded-xl p-5">
         <h3 className="font-medium text-slate-900 dark:text-white mb-3">使い方</h3>
         <ul className="text-sm text-slate-600 dark:text-slate-400 space-y-2">
           <li>1. 「新規ルール」でルールを作成</li>
-          <li>2. トリガー条件を設定（キーワード、メンションなど）</li>
-          <li>3. 返信メッセージを設定（{'{username}'} で相手の名前を挿入可能）</li>
+          <li>2. トリガー条件を設定（キーワード、メンション、詳細条件など）</li>
+          <li>3. 返信メッセージを設定（{'{username}'}・{'{date}'}・{'{original_text_excerpt}'} などの変数、{'{A|B|C}'} のランダム表現、{'{#if …}…{/if}'} の条件分岐が使えます）。AI返信では方針を書くと返信文を自動で作成</li>
           <li>4. ルールを有効にすると自動返信が開始</li>
+          <li>5. 複数のルールに一致した場合は、優先順位が最も高い（数値が小さい）ルールだけが返信します</li>
+          <li>6. 「送信前に承認する」を有効にすると、返信は承認待ちに追加され、確認してから送信できます</li>
         </ul>
         <div className="mt-4 p-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg">
           <p className="text-xs text-amber-700 dark:text-amber-400">
-            <strong>ポーリング方式:</strong> 5分ごとに新着リプライをチェックし、条件に合致するものに自動返信します。
+            <strong>ポーリング方式:</strong> 5分ごとに新着リプライをチェックし、条件に合致するものを返信予定に登録します。
+            返信は設定した遅延の経過後、次回以降の定期実行で送信されます。
             Threads APIの制限により、短時間での大量リプライは制限される場合があります。
           </p>
         </div>
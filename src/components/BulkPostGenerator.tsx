@@ -1,6 +1,7 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
+import { renderTemplate } from '@/lib/templates/render';
 
 interface GeneratedPost {
   id: string;
@@ -11,7 +12,6 @@ interface GeneratedPost {
 
 interface BulkPostGeneratorProps {
   apiKey?: string | null;
-  accessToken: string;
   accountId: string;
   onClose?: () => void;
   onOpenSettings?: () => void;
@@ -60,7 +60,6 @@ function Icon({ name, className = '' }: { name: string; className?: string }) {
 
 export function BulkPostGenerator({
   apiKey: initialApiKey,
-  accessToken,
   accountId,
   onClose,
   onOpenSettings,
@@ -340,6 +339,8 @@ Threads用の投稿を1つだけ生成してください。投稿文のみを出
     setSchedulingProgress(0);
     setSchedulingErrors([]);
     const errors: string[] = [];
+    // 予約日が公開クォータを超える場合の警告（同じ日の警告は1回だけ表示）
+    const quotaWarnings = new Set<string>();
     let successCount = 0;
 
     for (let i = 0; i < postsToSchedule.length; i++) {
@@ -356,6 +357,8 @@ Threads用の投稿を1つだけ生成してください。投稿文のみを出
             accountId,
             type: 'text',
             text: post.text,
+            // {date} などの変数は投稿時に展開する
+            isTemplate: true,
             scheduledAt: post.scheduledTime.toISOString(),
           }),
         });
@@ -370,6 +373,7 @@ Threads用の投稿を1つだけ生成してください。投稿文のみを出
           );
         } else {
           successCount++;
+          if (data.warning) quotaWarnings.add(data.warning);
           // 投稿のステータスを完了に更新
           setGeneratedPosts(posts =>
             posts.map(p => p.id === post.id ? { ...p, status: 'posted' as const } : p)
@@ -387,6 +391,10 @@ Threads用の投稿を1つだけ生成してください。投稿文のみを出
     setSchedulingErrors(errors);
     setScheduling(false);
 
+    if (quotaWarnings.size > 0) {
+      alert(Array.from(quotaWarnings).join('\n'));
+    }
+
     if (errors.length === 0) {
       // 全て成功した場合
       if (onPostsScheduled) {
@@ -416,11 +424,12 @@ Threads用の投稿を1つだけ生成してください。投稿文のみを出
     try {
       const res = await fetch('/api/threads/post', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${accessToken}`,
-        },
-        body: JSON.stringify({ type: 'text', text: post.text }),
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          accountId,
+          type: 'text',
+          text: renderTemplate(post.text, { timezone: Intl.DateTimeFormat().resolvedOptions().timeZone }),
+        }),
       });
 
       if (res.ok) {
@@ -653,7 +662,12 @@ Threads用の投稿を1つだけ生成してください。投稿文のみを出
           {step === 'review' && (
             <div className="space-y-4">
               <div className="flex items-center justify-between">
-                <p className="text-sm text-slate-500">生成された投稿を確認・編集してください</p>
+                <div>
+                  <p className="text-sm text-slate-500">生成された投稿を確認・編集してください</p>
+                  <p className="text-xs text-slate-400 mt-0.5">
+                    {'{date}'}・{'{weekday}'}・{'{follower_count}'} などの変数や {'{A|B}'} のランダム表現は投稿時に展開されます
+                  </p>
+                </div>
                 <span className="text-sm text-slate-500">
                   {generatedPosts.filter(p => p.status !== 'error').length}件生成成功
                 </span>
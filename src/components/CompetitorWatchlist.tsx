@@ -0,0 +1,420 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  BarChart,
+  Bar,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from 'recharts';
+import { CompetitorRadarChart } from '@/components/analytics/AdvancedCharts';
+import type { BenchmarkWeek, CompetitorSummary } from '@/lib/analytics/competitors';
+
+interface CompetitorWatchlistProps {
+  accountId: string;
+  username: string;
+}
+
+interface Snapshot extends CompetitorSummary {
+  capturedAt: string;
+  followers: number | null;
+}
+
+interface Competitor {
+  id: string;
+  username: string;
+  name: string | null;
+  profilePicture: string | null;
+  isActive: boolean;
+  alertMultiplier: number;
+  lastSnapshotAt: string | null;
+  lastError: string | null;
+  latest: Snapshot | null;
+}
+
+interface CompetitorPost {
+  id: string;
+  text: string | null;
+  permalink: string | null;
+  publishedAt: string;
+  engagement: number;
+  alertedAt: string | null;
+}
+
+interface CompetitorDetail {
+  snapshots: Snapshot[];
+  benchmark: BenchmarkWeek[];
+  topPosts: CompetitorPost[];
+  ours: CompetitorSummary;
+}
+
+const ALERT_MULTIPLIERS = [2, 3, 5, 10];
+
+const tooltipStyle = {
+  backgroundColor: '#fff',
+  border: '1px solid #e2e8f0',
+  borderRadius: '8px',
+};
+
+function formatNumber(value: number, digits = 1): string {
+  return value.toLocaleString('ja-JP', { maximumFractionDigits: digits });
+}
+
+// 競合ウォッチリスト: 登録した競合の推移と、自分のアカウントとの比較
+export function CompetitorWatchlist({ accountId, username }: CompetitorWatchlistProps) {
+  const [competitors, setCompetitors] = useState<Competitor[]>([]);
+  const [maxCompetitors, setMaxCompetitors] = useState(10);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [input, setInput] = useState('');
+  const [adding, setAdding] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [detail, setDetail] = useState<{ id: string; data: CompetitorDetail } | null>(null);
+
+  const fetchCompetitors = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/competitors?accountId=${encodeURIComponent(accountId)}`);
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || '競合の取得に失敗しました');
+      setCompetitors(json.competitors);
+      setMaxCompetitors(json.maxCompetitors);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  }, [accountId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/competitors?accountId=${encodeURIComponent(accountId)}`)
+      .then(async res => {
+        const json = await res.json();
+        if (!res.ok) throw new Error(json.error || '競合の取得に失敗しました');
+        return json;
+      })
+      .then(json => {
+        if (cancelled) return;
+        setCompetitors(json.competitors);
+        setMaxCompetitors(json.maxCompetitors);
+        setSelectedId(prev => prev ?? json.competitors[0]?.id ?? null);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Unknown error');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [accountId]);
+
+  useEffect(() => {
+    if (!selectedId) return;
+    let cancelled = false;
+
+    fetch(`/api/competitors/${selectedId}`)
+      .then(res => (res.ok ? res.json() : null))
+      .then(json => {
+        if (!cancelled && json) setDetail({ id: selectedId, data: json });
+      })
+      .catch(() => {});
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedId]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!input.trim()) return;
+
+    setAdding(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/competitors', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ accountId, username: input }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || '競合の追加に失敗しました');
+
+      setInput('');
+      setSelectedId(json.competitor.id);
+      await fetchCompetitors();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleUpdate = async (id: string, data: { isActive?: boolean; alertMultiplier?: number }) => {
+    const res = await fetch(`/api/competitors/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    });
+    if (res.ok) {
+      await fetchCompetitors();
+    } else {
+      const json = await res.json();
+      setError(json.error || '競合の更新に失敗しました');
+    }
+  };
+
+  const handleDelete = async (competitor: Competitor) => {
+    if (!confirm(`@${competitor.username} をウォッチリストから削除しますか？記録した推移も削除されます。`)) return;
+
+    const res = await fetch(`/api/competitors/${competitor.id}`, { method: 'DELETE' });
+    if (res.ok) {
+      if (selectedId === competitor.id) setSelectedId(null);
+      await fetchCompetitors();
+    }
+  };
+
+  const selected = competitors.find(c => c.id === selectedId) ?? null;
+  const data = detail && detail.id === selectedId ? detail.data : null;
+  const latest = data?.snapshots[data.snapshots.length - 1];
+
+  return (
+    <div className="space-y-6">
+      {/* ウォッチリスト */}
+      <div className="bg-white rounded-xl border border-slate-200 p-5">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-sm font-semibold text-slate-700">競合ウォッチリスト</h3>
+          <span className="text-xs text-slate-500">{competitors.length} / {maxCompetitors}</span>
+        </div>
+
+        <form onSubmit={handleAdd} className="flex gap-2 mb-4">
+          <input
+            type="text"
+            value={input}
+            onChange={e => setInput(e.target.value)}
+            placeholder="@username またはプロフィールURL"
+            className="flex-1 px-3 py-2 text-sm border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-cyan-500"
+            disabled={adding || competitors.length >= maxCompetitors}
+          />
+          <button
+            type="submit"
+            disabled={adding || !input.trim() || competitors.length >= maxCompetitors}
+            className="px-4 py-2 text-sm font-medium text-white bg-cyan-600 rounded-lg hover:bg-cyan-700 disabled:opacity-50"
+          >
+            {adding ? '確認中...' : '追加'}
+          </button>
+        </form>
+
+        {error && (
+          <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{error}</div>
+        )}
+
+        {loading ? (
+          <p className="text-slate-500 text-sm text-center py-6">読み込み中...</p>
+        ) : competitors.length === 0 ? (
+          <p className="text-slate-500 text-sm text-center py-6">
+            競合のアカウントを追加すると、6時間ごとに公開プロフィールと投稿を記録します
+          </p>
+        ) : (
+          <div className="divide-y divide-slate-100">
+            {competitors.map(competitor => (
+              <div
+                key={competitor.id}
+                className={`flex items-center gap-3 py-3 px-2 rounded-lg cursor-pointer ${
+                  competitor.id === selectedId ? 'bg-cyan-50' : 'hover:bg-slate-50'
+                }`}
+                onClick={() => setSelectedId(competitor.id)}
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-slate-800 truncate">
+                    @{competitor.username}
+                    {competitor.name && <span className="ml-2 text-slate-500 font-normal">{competitor.name}</span>}
+                  </p>
+                  <p className="text-xs text-slate-500">
+                    {competitor.latest
+                      ? `フォロワー ${competitor.latest.followers?.toLocaleString() ?? '-'} ・ ${formatNumber(competitor.latest.postsPerDay)}投稿/日 ・ 平均反応 ${formatNumber(competitor.latest.avgEngagement)}`
+                      : 'まだ記録がありません'}
+                  </p>
+                  {competitor.lastError && (
+                    <p className="text-xs text-red-600 truncate">取得エラー: {competitor.lastError}</p>
+                  )}
+                </div>
+                {!competitor.isActive && (
+                  <span className="px-2 py-0.5 text-xs rounded bg-slate-100 text-slate-500">停止中</span>
+                )}
+                <button
+                  onClick={e => {
+                    e.stopPropagation();
+                    handleUpdate(competitor.id, { isActive: !competitor.isActive });
+                  }}
+                  className="text-xs text-slate-500 hover:text-slate-700"
+                >
+                  {competitor.isActive ? '停止' : '再開'}
+                </button>
+                <button
+                  onClick={e => {
+                    e.stopPropagation();
+                    handleDelete(competitor);
+                  }}
+                  className="text-xs text-red-500 hover:text-red-700"
+                >
+                  削除
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {selected && !data && (
+        <p className="text-slate-500 text-sm text-center py-6">@{selected.username} の推移を読み込み中...</p>
+      )}
+
+      {selected && data && (
+        <>
+          {/* 比較 */}
+          {latest && (
+            <CompetitorRadarChart
+              myName={`@${username}`}
+              competitorName={`@${selected.username}`}
+              myData={{
+                avgLikes: data.ours.avgLikes,
+                avgReplies: data.ours.avgReplies,
+                avgReposts: data.ours.avgReposts,
+                postFrequency: data.ours.postsPerDay,
+                textLength: data.ours.avgTextLength,
+              }}
+              competitorData={{
+                avgLikes: latest.avgLikes,
+                avgReplies: latest.avgReplies,
+                avgReposts: latest.avgReposts,
+                postFrequency: latest.postsPerDay,
+                textLength: latest.avgTextLength,
+              }}
+            />
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* 週ごとの投稿数 */}
+            <div className="bg-white rounded-xl border border-slate-200 p-5">
+              <h3 className="text-sm font-semibold text-slate-700 mb-4">週ごとの投稿数</h3>
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={data.benchmark.map(w => ({ week: w.weekStart.slice(5), ours: w.ours.posts, competitor: w.competitor.posts }))}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                    <XAxis dataKey="week" tick={{ fontSize: 10 }} stroke="#94a3b8" />
+                    <YAxis tick={{ fontSize: 10 }} stroke="#94a3b8" allowDecimals={false} />
+                    <Tooltip contentStyle={tooltipStyle} />
+                    <Legend />
+                    <Bar dataKey="ours" fill="#8b5cf6" name={`@${username}`} radius={[4, 4, 0, 0]} />
+                    <Bar dataKey="competitor" fill="#06b6d4" name={`@${selected.username}`} radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+
+            {/* 週ごとの1投稿あたりの反応 */}
+            <div className="bg-white rounded-xl border border-slate-200 p-5">
+              <h3 className="text-sm font-semibold text-slate-700 mb-4">1投稿あたりの反応（週ごと）</h3>
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart
+                    data={data.benchmark.map(w => ({
+                      week: w.weekStart.slice(5),
+                      ours: w.ours.posts > 0 ? Math.round(w.ours.avgEngagement * 10) / 10 : null,
+                      competitor: w.competitor.posts > 0 ? Math.round(w.competitor.avgEngagement * 10) / 10 : null,
+                    }))}
+                  >
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                    <XAxis dataKey="week" tick={{ fontSize: 10 }} stroke="#94a3b8" />
+                    <YAxis tick={{ fontSize: 10 }} stroke="#94a3b8" />
+                    <Tooltip contentStyle={tooltipStyle} />
+                    <Legend />
+                    <Line type="monotone" dataKey="ours" stroke="#8b5cf6" strokeWidth={2} connectNulls name={`@${username}`} />
+                    <Line type="monotone" dataKey="competitor" stroke="#06b6d4" strokeWidth={2} connectNulls name={`@${selected.username}`} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+              <p className="mt-2 text-xs text-slate-400">反応 = いいね + リプライ + リポスト + 引用</p>
+            </div>
+          </div>
+
+          {/* フォロワー数の推移 */}
+          <div className="bg-white rounded-xl border border-slate-200 p-5">
+            <h3 className="text-sm font-semibold text-slate-700 mb-4">@{selected.username} のフォロワー数の推移</h3>
+            {data.snapshots.filter(s => s.followers !== null).length > 1 ? (
+              <div className="h-56">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={data.snapshots.map(s => ({ date: s.capturedAt.slice(5, 10), followers: s.followers }))}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                    <XAxis dataKey="date" tick={{ fontSize: 10 }} stroke="#94a3b8" interval="preserveStartEnd" />
+                    <YAxis tick={{ fontSize: 10 }} stroke="#94a3b8" domain={['auto', 'auto']} />
+                    <Tooltip contentStyle={tooltipStyle} />
+                    <Line type="monotone" dataKey="followers" stroke="#f59e0b" strokeWidth={2} dot={false} connectNulls name="フォロワー" />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            ) : (
+              <p className="text-slate-500 text-sm text-center py-8">記録が蓄積されるとグラフが表示されます</p>
+            )}
+          </div>
+
+          {/* 反応の多かった投稿 */}
+          <div className="bg-white rounded-xl border border-slate-200 p-5">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-sm font-semibold text-slate-700">反応の多かった投稿</h3>
+              <label className="flex items-center gap-2 text-xs text-slate-600">
+                通常の
+                <select
+                  value={selected.alertMultiplier}
+                  onChange={e => handleUpdate(selected.id, { alertMultiplier: Number(e.target.value) })}
+                  className="px-2 py-1 border border-slate-300 rounded"
+                >
+                  {!ALERT_MULTIPLIERS.includes(selected.alertMultiplier) && (
+                    <option value={selected.alertMultiplier}>{selected.alertMultiplier}</option>
+                  )}
+                  {ALERT_MULTIPLIERS.map(m => (
+                    <option key={m} value={m}>{m}</option>
+                  ))}
+                </select>
+                倍以上の反応で通知
+              </label>
+            </div>
+            {data.topPosts.length === 0 ? (
+              <p className="text-slate-500 text-sm text-center py-6">投稿がありません</p>
+            ) : (
+              <ul className="space-y-3">
+                {data.topPosts.map(post => (
+                  <li key={post.id} className="flex items-start gap-3 text-sm">
+                    <span className="w-16 shrink-0 text-right font-semibold text-slate-800">{post.engagement.toLocaleString()}</span>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-slate-700 line-clamp-2">{post.text || '（テキストなし）'}</p>
+                      <p className="text-xs text-slate-400">
+                        {new Date(post.publishedAt).toLocaleString('ja-JP')}
+                        {post.alertedAt && <span className="ml-2 text-amber-600">通知済み</span>}
+                        {post.permalink && (
+                          <a href={post.permalink} target="_blank" rel="noopener noreferrer" className="ml-2 text-cyan-600 hover:underline">
+                            開く
+                          </a>
+                        )}
+                      </p>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useRef, useCallback } from 'react';
-import { parseCSV, generateCsvTemplate, type CsvRow, type CsvValidationError } from '@/lib/csv-utils';
+import { parseCSV, generateCsvTemplate, csvRowToPostOptions, type CsvRow, type CsvValidationError } from '@/lib/csv-utils';
 
 interface CsvImportModalProps {
   isOpen: boolean;
@@ -138,6 +138,7 @@ export function CsvImportModal({ isOpen, onClose, accountId, onImportComplete }:
           accountId,
           type: rowType,
           scheduledAt: scheduledAt.toISOString(),
+          ...csvRowToPostOptions(row),
         };
 
         if (rowType === 'thread') {
@@ -296,6 +297,31 @@ export function CsvImportModal({ isOpen, onClose, accountId, onImportComplete }:
                           <td className="py-1 pr-4 text-slate-400">任意</td>
                           <td className="py-1">メディアURL（image/video時に必要）</td>
                         </tr>
+                        <tr>
+                          <td className="py-1 pr-4"><code className="bg-slate-200 dark:bg-slate-700 px-1 rounded">replyControl</code></td>
+                          <td className="py-1 pr-4 text-slate-400">任意</td>
+                          <td className="py-1">返信できるユーザー（everyone / accounts_you_follow / mentioned_only）</td>
+                        </tr>
+                        <tr>
+                          <td className="py-1 pr-4"><code className="bg-slate-200 dark:bg-slate-700 px-1 rounded">topicTag</code></td>
+                          <td className="py-1 pr-4 text-slate-400">任意</td>
+                          <td className="py-1">トピックタグ</td>
+                        </tr>
+                        <tr>
+                          <td className="py-1 pr-4"><code className="bg-slate-200 dark:bg-slate-700 px-1 rounded">pollOptions</code></td>
+                          <td className="py-1 pr-4 text-slate-400">任意</td>
+                          <td className="py-1">アンケートの選択肢（| 区切りで2〜4個。textのみ）</td>
+                        </tr>
+                        <tr>
+                          <td className="py-1 pr-4"><code className="bg-slate-200 dark:bg-slate-700 px-1 rounded">linkAttachment</code></td>
+                          <td className="py-1 pr-4 text-slate-400">任意</td>
+                          <td className="py-1">添付するリンクのURL（textのみ）</td>
+                        </tr>
+                        <tr>
+                          <td className="py-1 pr-4"><code className="bg-slate-200 dark:bg-slate-700 px-1 rounded">altText</code></td>
+                          <td className="py-1 pr-4 text-slate-400">任意</td>
+                          <td className="py-1">画像・動画の代替テキスト</td>
+                        </tr>
                       </tbody>
                     </table>
                   </div>
@@ -0,0 +1,317 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  Legend,
+} from 'recharts';
+import type { DemographicBreakdown, DemographicEntry, DemographicsData } from '@/lib/analytics/demographics';
+
+interface DemographicsDashboardProps {
+  accountId: string;
+  accounts: Array<{ id: string; username: string }>;
+}
+
+interface DemographicsResponse {
+  latest: DemographicsData | null;
+  history: DemographicsData[];
+  comparisons: Array<{ accountId: string; username: string; latest: DemographicsData | null }>;
+  minFollowers: number;
+}
+
+const BREAKDOWNS: Array<{ id: DemographicBreakdown; label: string }> = [
+  { id: 'country', label: '国' },
+  { id: 'city', label: '都市' },
+  { id: 'age', label: '年齢' },
+  { id: 'gender', label: '性別' },
+];
+
+const COLORS = ['#8b5cf6', '#06b6d4', '#10b981', '#f59e0b', '#ef4444', '#ec4899'];
+const GENDER_LABELS: Record<string, string> = { F: '女性', M: '男性', U: '不明' };
+const TOP_ENTRIES = 8;
+const HISTORY_KEYS = 5;
+
+const regionNames = typeof Intl !== 'undefined' && 'DisplayNames' in Intl
+  ? new Intl.DisplayNames(['ja'], { type: 'region' })
+  : null;
+
+function formatKey(breakdown: DemographicBreakdown, key: string): string {
+  if (breakdown === 'gender') return GENDER_LABELS[key] ?? key;
+  if (breakdown === 'country') {
+    try {
+      return regionNames?.of(key) ?? key;
+    } catch {
+      return key;
+    }
+  }
+  return key;
+}
+
+function shareOf(entries: DemographicEntry[], key: string): number {
+  return entries.find(e => e.key === key)?.share ?? 0;
+}
+
+const tooltipStyle = {
+  backgroundColor: '#fff',
+  border: '1px solid #e2e8f0',
+  borderRadius: '8px',
+};
+
+// フォロワー属性（国・都市・年齢・性別）の構成、推移、アカウント間の比較
+export function DemographicsDashboard({ accountId, accounts }: DemographicsDashboardProps) {
+  const [data, setData] = useState<DemographicsResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [breakdown, setBreakdown] = useState<DemographicBreakdown>('age');
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  const otherAccounts = accounts.filter(a => a.id !== accountId);
+
+  useEffect(() => {
+    let cancelled = false;
+    const params = new URLSearchParams({ accountId });
+    if (compareIds.length > 0) params.set('compare', compareIds.join(','));
+
+    fetch(`/api/threads/demographics?${params.toString()}`)
+      .then(async res => {
+        const json = await res.json();
+        if (!res.ok) throw new Error(json.error || 'フォロワー属性の取得に失敗しました');
+        return json as DemographicsResponse;
+      })
+      .then(json => {
+        if (cancelled) return;
+        setData(json);
+        setError(null);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Unknown error');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [accountId, compareIds]);
+
+  const toggleCompare = (id: string) => {
+    setLoading(true);
+    setCompareIds(prev => (prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]));
+  };
+
+  if (loading && !data) {
+    return (
+      <div className="bg-white rounded-xl border border-slate-200 p-5">
+        <p className="text-slate-500 text-sm text-center py-8">フォロワー属性を取得中...</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-xl p-4 text-sm text-red-700">{error}</div>
+    );
+  }
+
+  if (!data?.latest) {
+    return (
+      <div className="bg-white rounded-xl border border-slate-200 p-5">
+        <p className="text-slate-500 text-sm text-center py-8">
+          フォロワー属性を取得できませんでした（フォロワーが{data?.minFollowers ?? 100}人以上のアカウントのみ利用できます）
+        </p>
+      </div>
+    );
+  }
+
+  const latest = data.latest;
+  const label = BREAKDOWNS.find(b => b.id === breakdown)?.label ?? '';
+
+  // 推移: 最新の上位項目の構成比
+  const historyKeys = latest.breakdowns[breakdown].slice(0, HISTORY_KEYS).map(e => e.key);
+  const historyData = data.history.map(point => ({
+    date: point.capturedAt.slice(5, 10),
+    ...Object.fromEntries(historyKeys.map(key => [key, shareOf(point.breakdowns[breakdown], key)])),
+  }));
+  const first = data.history[0];
+
+  // 比較: 各アカウントの上位項目をまとめて並べる
+  const compared = [
+    { accountId, username: 'このアカウント', latest },
+    ...data.comparisons,
+  ];
+  const compareKeys = Array.from(new Set(
+    compared.flatMap(c => (c.latest?.breakdowns[breakdown] ?? []).slice(0, 6).map(e => e.key))
+  )).slice(0, 10);
+  const compareData = compareKeys.map(key => ({
+    key: formatKey(breakdown, key),
+    ...Object.fromEntries(compared.map(c => [c.accountId, c.latest ? shareOf(c.latest.breakdowns[breakdown], key) : 0])),
+  }));
+
+  return (
+    <div className="space-y-6">
+      {/* 構成 */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {BREAKDOWNS.map(({ id, label: breakdownLabel }) => {
+          const entries = latest.breakdowns[id].slice(0, TOP_ENTRIES).map(e => ({
+            name: formatKey(id, e.key),
+            share: e.share,
+            value: e.value,
+          }));
+          return (
+            <div key={id} className="bg-white rounded-xl border border-slate-200 p-5">
+              <h3 className="text-sm font-semibold text-slate-700 mb-4">{breakdownLabel}別のフォロワー</h3>
+              {entries.length > 0 ? (
+                <div className="h-64">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={entries} layout="vertical">
+                      <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                      <XAxis type="number" unit="%" tick={{ fontSize: 10 }} stroke="#94a3b8" />
+                      <YAxis dataKey="name" type="category" tick={{ fontSize: 11 }} stroke="#94a3b8" width={90} />
+                      <Tooltip
+                        contentStyle={tooltipStyle}
+                        formatter={(value, _name, item) => [`${value}%（${(item.payload as { value: number }).value.toLocaleString()}人）`, '構成比']}
+                      />
+                      <Bar dataKey="share" fill={COLORS[BREAKDOWNS.findIndex(b => b.id === id)]} radius={[0, 4, 4, 0]} />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              ) : (
+                <p className="text-slate-500 text-sm text-center py-8">データがありません</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* 表示する属性 */}
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm text-slate-600">推移・比較する属性:</span>
+        {BREAKDOWNS.map(b => (
+          <button
+            key={b.id}
+            onClick={() => setBreakdown(b.id)}
+            className={`px-3 py-1.5 text-sm font-medium rounded-lg transition-colors ${
+              breakdown === b.id ? 'bg-cyan-100 text-cyan-700' : 'text-slate-600 hover:bg-slate-100'
+            }`}
+          >
+            {b.label}
+          </button>
+        ))}
+      </div>
+
+      {/* 推移 */}
+      <div className="bg-white rounded-xl border border-slate-200 p-5">
+        <h3 className="text-sm font-semibold text-slate-700 mb-4">{label}別の構成比の推移</h3>
+        {historyData.length > 1 ? (
+          <>
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={historyData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                  <XAxis dataKey="date" tick={{ fontSize: 10 }} stroke="#94a3b8" interval="preserveStartEnd" />
+                  <YAxis unit="%" tick={{ fontSize: 10 }} stroke="#94a3b8" />
+                  <Tooltip contentStyle={tooltipStyle} />
+                  <Legend />
+                  {historyKeys.map((key, i) => (
+                    <Line
+                      key={key}
+                      type="monotone"
+                      dataKey={key}
+                      stroke={COLORS[i % COLORS.length]}
+                      strokeWidth={2}
+                      dot={false}
+                      name={formatKey(breakdown, key)}
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="mt-4 flex flex-wrap gap-3 text-xs">
+              {historyKeys.map(key => {
+                const change = shareOf(latest.breakdowns[breakdown], key) - shareOf(first.breakdowns[breakdown], key);
+                return (
+                  <span key={key} className="px-2 py-1 rounded bg-slate-50 text-slate-600">
+                    {formatKey(breakdown, key)}:{' '}
+                    <span className={change > 0 ? 'text-emerald-600' : change < 0 ? 'text-red-600' : ''}>
+                      {change > 0 ? '+' : ''}{change.toFixed(1)}pt
+                    </span>
+                  </span>
+                );
+              })}
+              <span className="text-slate-400 py-1">（{first.capturedAt.slice(0, 10)} からの変化）</span>
+            </div>
+          </>
+        ) : (
+          <p className="text-slate-500 text-sm text-center py-8">
+            履歴データが蓄積されるとグラフが表示されます
+          </p>
+        )}
+      </div>
+
+      {/* アカウント比較 */}
+      <div className="bg-white rounded-xl border border-slate-200 p-5">
+        <h3 className="text-sm font-semibold text-slate-700 mb-4">アカウント間の比較（{label}）</h3>
+        {otherAccounts.length === 0 ? (
+          <p className="text-slate-500 text-sm text-center py-8">
+            複数のアカウントを登録すると、フォロワー属性を比較できます
+          </p>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-3 mb-4">
+              {otherAccounts.map(account => (
+                <label key={account.id} className="flex items-center gap-2 text-sm text-slate-700">
+                  <input
+                    type="checkbox"
+                    checked={compareIds.includes(account.id)}
+                    onChange={() => toggleCompare(account.id)}
+                    className="rounded border-slate-300"
+                  />
+                  @{account.username}
+                </label>
+              ))}
+              {loading && <span className="text-xs text-slate-400">読み込み中...</span>}
+            </div>
+            {data.comparisons.some(c => !c.latest) && (
+              <p className="text-xs text-amber-700 mb-3">
+                フォロワー属性を取得できないアカウントがあります（フォロワー{data.minFollowers}人未満など）
+              </p>
+            )}
+            {compareIds.length > 0 && compareData.length > 0 ? (
+              <div className="h-72">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={compareData}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                    <XAxis dataKey="key" tick={{ fontSize: 10 }} stroke="#94a3b8" />
+                    <YAxis unit="%" tick={{ fontSize: 10 }} stroke="#94a3b8" />
+                    <Tooltip contentStyle={tooltipStyle} />
+                    <Legend />
+                    {compared.map((c, i) => (
+                      <Bar
+                        key={c.accountId}
+                        dataKey={c.accountId}
+                        fill={COLORS[i % COLORS.length]}
+                        radius={[4, 4, 0, 0]}
+                        name={i === 0 ? 'このアカウント' : `@${c.username}`}
+                      />
+                    ))}
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            ) : (
+              <p className="text-slate-500 text-sm text-center py-8">比較するアカウントを選択してください</p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
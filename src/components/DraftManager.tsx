@@ -13,13 +13,12 @@ interface Draft {
 }
 
 interface DraftManagerProps {
-  accessToken: string;
   onSelectDraft?: (draft: Draft) => void;
   onRefresh?: () => void;
   maxDrafts?: number;
 }
 
-export function DraftManager({ accessToken, onSelectDraft, onRefresh, maxDrafts = -1 }: DraftManagerProps) {
+export function DraftManager({ onSelectDraft, onRefresh, maxDrafts = -1 }: DraftManagerProps) {
   const [drafts, setDrafts] = useState<Draft[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -51,7 +50,7 @@ export function DraftManager({ accessToken, onSelectDraft, onRefresh, maxDrafts
 
   useEffect(() => {
     fetchDrafts();
-  }, [accessToken]);
+  }, []);
 
   // 保存
   const saveDrafts = (newDrafts: Draft[]) => {
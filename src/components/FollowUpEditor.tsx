@@ -0,0 +1,112 @@
+'use client';
+
+import {
+  FOLLOW_UP_METRIC_LABELS,
+  MAX_FOLLOW_UPS,
+  type FollowUpDefinition,
+  type FollowUpMetric,
+} from '@/lib/scheduler/follow-ups';
+
+// 編集中のフォローアップ返信（metric が空なら条件なし）
+export interface FollowUpDraft {
+  text: string;
+  delayMinutes: number;
+  metric: FollowUpMetric | '';
+  threshold: number;
+}
+
+export function toFollowUpDefinitions(drafts: FollowUpDraft[]): FollowUpDefinition[] {
+  return drafts.map(f => ({
+    text: f.text,
+    delayMinutes: f.delayMinutes,
+    ...(f.metric && { condition: { metric: f.metric, threshold: f.threshold } }),
+  }));
+}
+
+export function toFollowUpDrafts(followUps: FollowUpDefinition[]): FollowUpDraft[] {
+  return followUps.map(f => ({
+    text: f.text,
+    delayMinutes: f.delayMinutes,
+    metric: f.condition?.metric ?? '',
+    threshold: f.condition?.threshold ?? 1000,
+  }));
+}
+
+interface FollowUpEditorProps {
+  value: FollowUpDraft[];
+  onChange: (value: FollowUpDraft[]) => void;
+}
+
+// フォローアップ返信（公開後に自分の投稿へ返信）の入力欄
+export function FollowUpEditor({ value, onChange }: FollowUpEditorProps) {
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="text-xs text-slate-500">フォローアップ返信（公開後に自分の投稿へ返信）</label>
+        {value.length < MAX_FOLLOW_UPS && (
+          <button
+            type="button"
+            onClick={() => onChange([...value, { text: '', delayMinutes: 5, metric: '', threshold: 1000 }])}
+            className="text-xs text-indigo-600 hover:text-indigo-700"
+          >
+            + 追加
+          </button>
+        )}
+      </div>
+      {value.map((followUp, i) => {
+        const update = (patch: Partial<FollowUpDraft>) =>
+          onChange(value.map((f, j) => (j === i ? { ...f, ...patch } : f)));
+        return (
+          <div key={i} className="mb-2 p-3 bg-white rounded-lg border border-slate-200">
+            <textarea
+              value={followUp.text}
+              onChange={(e) => update({ text: e.target.value })}
+              placeholder="返信の本文（リンク・告知・続きなど）"
+              className="w-full h-16 px-3 py-2 border border-slate-200 rounded-lg text-sm text-slate-900 resize-none"
+            />
+            <div className="flex flex-wrap items-center gap-2 mt-2 text-xs text-slate-600">
+              <span>投稿の</span>
+              <input
+                type="number"
+                min={0}
+                value={followUp.delayMinutes}
+                onChange={(e) => update({ delayMinutes: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+                className="w-20 px-2 py-1 border border-slate-200 rounded text-slate-900"
+              />
+              <span>分後に</span>
+              <select
+                value={followUp.metric}
+                onChange={(e) => update({ metric: e.target.value as FollowUpMetric | '' })}
+                className="px-2 py-1 border border-slate-200 rounded text-slate-900"
+              >
+                <option value="">必ず返信</option>
+                {(Object.keys(FOLLOW_UP_METRIC_LABELS) as FollowUpMetric[]).map(metric => (
+                  <option key={metric} value={metric}>{FOLLOW_UP_METRIC_LABELS[metric]}が</option>
+                ))}
+              </select>
+              {followUp.metric && (
+                <>
+                  <input
+                    type="number"
+                    min={0}
+                    value={followUp.threshold}
+                    onChange={(e) => update({ threshold: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+                    className="w-24 px-2 py-1 border border-slate-200 rounded text-slate-900"
+                  />
+                  <span>を超えたら返信</span>
+                </>
+              )}
+              <button
+                type="button"
+                onClick={() => onChange(value.filter((_, j) => j !== i))}
+                className="ml-auto text-red-500 hover:text-red-600"
+              >
+                削除
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from 'recharts';
+import { KPICard } from '@/components/analytics';
+import type { DailyInsightPoint, InsightComparison, InsightTotals } from '@/lib/analytics/timeseries';
+
+interface InsightsTrendProps {
+  accountId: string;
+}
+
+type MetricKey = keyof Omit<DailyInsightPoint, 'date'> & keyof InsightTotals;
+
+const METRICS: Array<{ key: MetricKey; label: string; color: string }> = [
+  { key: 'views', label: '閲覧数', color: '#8b5cf6' },
+  { key: 'likes', label: 'いいね', color: '#ec4899' },
+  { key: 'replies', label: 'リプライ', color: '#06b6d4' },
+  { key: 'reposts', label: 'リポスト', color: '#10b981' },
+  { key: 'followers', label: 'フォロワー', color: '#f59e0b' },
+];
+
+const PRESETS = [7, 30, 90];
+const DEFAULT_DAYS = 30;
+
+function formatDay(date: Date): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${y}-${m}-${d}`;
+}
+
+function daysAgo(days: number): string {
+  const now = new Date();
+  return formatDay(new Date(now.getFullYear(), now.getMonth(), now.getDate() - days));
+}
+
+const tooltipStyle = {
+  backgroundColor: '#fff',
+  border: '1px solid #e2e8f0',
+  borderRadius: '8px',
+};
+
+// アカウントの日別インサイトの推移（期間はURLの from / to / compare で共有できる）
+export function InsightsTrend({ accountId }: InsightsTrendProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  const until = searchParams.get('to') || daysAgo(0);
+  const since = searchParams.get('from') || daysAgo(DEFAULT_DAYS - 1);
+  const compare = searchParams.get('compare') === '1';
+  const requestKey = `${accountId}|${since}|${until}|${compare}`;
+
+  const [result, setResult] = useState<{ key: string; data: InsightComparison | null; error: string | null } | null>(null);
+  const loading = result?.key !== requestKey;
+
+  useEffect(() => {
+    let cancelled = false;
+    const params = new URLSearchParams({ accountId, since, until });
+    if (compare) params.set('compare', 'previous');
+
+    fetch(`/api/threads/insights?${params.toString()}`)
+      .then(async res => {
+        const json = await res.json();
+        if (!res.ok) throw new Error(json.error || 'インサイトの取得に失敗しました');
+        return json as InsightComparison;
+      })
+      .then(data => {
+        if (!cancelled) setResult({ key: requestKey, data, error: null });
+      })
+      .catch(err => {
+        if (!cancelled) setResult({ key: requestKey, data: null, error: err instanceof Error ? err.message : 'Unknown error' });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [accountId, since, until, compare, requestKey]);
+
+  // 期間の変更はURLに反映する（そのままURLを共有できる）
+  const updateParams = (changes: Record<string, string | null>) => {
+    const params = new URLSearchParams(searchParams.toString());
+    for (const [key, value] of Object.entries(changes)) {
+      if (value === null) params.delete(key);
+      else params.set(key, value);
+    }
+    router.replace(`${pathname}?${params.toString()}`, { scroll: false });
+  };
+
+  const data = result?.data ?? null;
+  const activePreset = until === daysAgo(0) ? PRESETS.find(days => since === daysAgo(days - 1)) : undefined;
+
+  return (
+    <div className="space-y-6">
+      {/* 期間の選択 */}
+      <div className="bg-white rounded-xl border border-slate-200 p-4 flex flex-wrap items-center gap-3">
+        <div className="flex gap-1">
+          {PRESETS.map(days => (
+            <button
+              key={days}
+              onClick={() => updateParams({ from: daysAgo(days - 1), to: daysAgo(0) })}
+              className={`px-3 py-1.5 text-sm font-medium rounded-lg transition-colors ${
+                activePreset === days ? 'bg-cyan-100 text-cyan-700' : 'text-slate-600 hover:bg-slate-100'
+              }`}
+            >
+              {days}日間
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2 text-sm">
+          <input
+            type="date"
+            value={since}
+            max={until}
+            onChange={e => e.target.value && updateParams({ from: e.target.value })}
+            className="px-2 py-1 border border-slate-300 rounded-lg"
+          />
+          <span className="text-slate-400">〜</span>
+          <input
+            type="date"
+            value={until}
+            min={since}
+            max={daysAgo(0)}
+            onChange={e => e.target.value && updateParams({ to: e.target.value })}
+            className="px-2 py-1 border border-slate-300 rounded-lg"
+          />
+        </div>
+        <label className="flex items-center gap-2 text-sm text-slate-700">
+          <input
+            type="checkbox"
+            checked={compare}
+            onChange={e => updateParams({ compare: e.target.checked ? '1' : null })}
+            className="rounded border-slate-300"
+          />
+          前の期間と比較
+        </label>
+        {loading && <span className="text-xs text-slate-400">読み込み中...</span>}
+      </div>
+
+      {result?.error && !loading && (
+        <div className="bg-red-50 border border-red-200 rounded-xl p-4 text-sm text-red-700">{result.error}</div>
+      )}
+
+      {data && (
+        <>
+          {/* 期間の合計 */}
+          <div className="grid grid-cols-2 lg:grid-cols-5 gap-4">
+            {METRICS.map(metric => {
+              const value = data.current.totals[metric.key];
+              const change = data.deltas?.[metric.key];
+              return (
+                <KPICard
+                  key={metric.key}
+                  title={metric.key === 'followers' ? metric.label : `${metric.label}（期間合計）`}
+                  value={value ?? '-'}
+                  change={change ?? undefined}
+                  changeLabel="vs 前の期間"
+                />
+              );
+            })}
+          </div>
+          {data.previous && (
+            <p className="text-xs text-slate-500">
+              比較期間: {data.previous.since} 〜 {data.previous.until}
+            </p>
+          )}
+
+          {/* 日別の推移 */}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {METRICS.map(metric => {
+              const chartData = data.current.points.map((point, i) => ({
+                date: point.date.slice(5),
+                current: point[metric.key],
+                previous: data.previous?.points[i]?.[metric.key] ?? null,
+              }));
+              const hasValues = chartData.some(d => d.current !== null);
+
+              return (
+                <div key={metric.key} className="bg-white rounded-xl border border-slate-200 p-5">
+                  <h3 className="text-sm font-semibold text-slate-700 mb-4">{metric.label}の推移</h3>
+                  {hasValues ? (
+                    <div className="h-56">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <LineChart data={chartData}>
+                          <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                          <XAxis dataKey="date" tick={{ fontSize: 10 }} stroke="#94a3b8" interval="preserveStartEnd" />
+                          <YAxis tick={{ fontSize: 10 }} stroke="#94a3b8" />
+                          <Tooltip contentStyle={tooltipStyle} />
+                          {data.previous && <Legend />}
+                          <Line
+                            type="monotone"
+                            dataKey="current"
+                            stroke={metric.color}
+                            strokeWidth={2}
+                            dot={false}
+                            connectNulls
+                            name="選択した期間"
+                          />
+                          {data.previous && (
+                            <Line
+                              type="monotone"
+                              dataKey="previous"
+                              stroke="#94a3b8"
+                              strokeWidth={2}
+                              strokeDasharray="4 4"
+                              dot={false}
+                              connectNulls
+                              name="前の期間"
+                            />
+                          )}
+                        </LineChart>
+                      </ResponsiveContainer>
+                    </div>
+                  ) : (
+                    <p className="text-slate-500 text-sm text-center py-8">
+                      {metric.key === 'followers'
+                        ? 'フォロワー数は日次スナップショットが蓄積されると表示されます'
+                        : 'データがありません'}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
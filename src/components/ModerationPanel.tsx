@@ -0,0 +1,346 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  DEFAULT_MODERATION_SETTINGS,
+  evaluateModeration,
+  MODERATION_REASON_LABELS,
+  type ModerationReason,
+  type ModerationSettings,
+} from '@/lib/moderation/rules';
+import { scoreToxicity } from '@/lib/moderation/toxicity';
+
+interface ModerationLogItem {
+  id: string;
+  replyId: string;
+  username: string | null;
+  text: string | null;
+  action: 'hide' | 'unhide' | 'flag';
+  reason: ModerationReason;
+  detail: string | null;
+  toxicityScore: number | null;
+  automatic: boolean;
+  status: 'success' | 'failed';
+  errorMessage: string | null;
+  createdAt: string;
+}
+
+interface ModerationPanelProps {
+  accountId: string;
+}
+
+const ACTION_LABELS: Record<ModerationLogItem['action'], string> = {
+  hide: '非表示',
+  unhide: '再表示',
+  flag: '要確認',
+};
+
+// 最新のログからリプライが非表示の状態かを判定（失敗した操作は状態を変えない）
+function isHidden(log: ModerationLogItem): boolean {
+  return (log.action === 'hide') === (log.status === 'success');
+}
+
+function toNumberOrNull(value: string): number | null {
+  return value.trim() === '' ? null : Number(value);
+}
+
+// リプライのモデレーション: 自動非表示のルール設定とモデレーションログ
+export function ModerationPanel({ accountId }: ModerationPanelProps) {
+  const [loaded, setLoaded] = useState<{ accountId: string; logs: ModerationLogItem[] } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [actingId, setActingId] = useState<string | null>(null);
+
+  const [isActive, setIsActive] = useState(false);
+  const [action, setAction] = useState<ModerationSettings['action']>('hide');
+  const [blockedWords, setBlockedWords] = useState('');
+  const [maxLinks, setMaxLinks] = useState('');
+  const [repeatThreshold, setRepeatThreshold] = useState('');
+  const [toxicityThreshold, setToxicityThreshold] = useState('');
+  const [testText, setTestText] = useState('');
+
+  const loading = loaded?.accountId !== accountId;
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/moderation?accountId=${accountId}`)
+      .then(async res => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || '読み込みに失敗しました');
+        return data as { settings: ModerationSettings; logs: ModerationLogItem[] };
+      })
+      .then(({ settings, logs }) => {
+        if (cancelled) return;
+        setIsActive(settings.isActive);
+        setAction(settings.action);
+        setBlockedWords(settings.blockedWords.join('\n'));
+        setMaxLinks(settings.maxLinks?.toString() ?? '');
+        setRepeatThreshold(settings.repeatThreshold?.toString() ?? '');
+        setToxicityThreshold(settings.toxicityThreshold?.toString() ?? '');
+        setLoaded({ accountId, logs });
+        setError(null);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Unknown error');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [accountId]);
+
+  const settings: ModerationSettings = {
+    ...DEFAULT_MODERATION_SETTINGS,
+    isActive,
+    action,
+    blockedWords: blockedWords.split(/[\n,、]/).map(w => w.trim()).filter(Boolean),
+    maxLinks: toNumberOrNull(maxLinks),
+    repeatThreshold: toNumberOrNull(repeatThreshold),
+    toxicityThreshold: toNumberOrNull(toxicityThreshold),
+  };
+
+  // テスト欄の判定（繰り返しは実際の履歴が必要なため対象外）
+  const testVerdict = testText.trim() ? evaluateModeration(testText, { ...settings, repeatThreshold: null }) : null;
+  const testToxicity = testText.trim() ? scoreToxicity(testText) : null;
+
+  const handleSave = async () => {
+    setSaving(true);
+    setSaved(false);
+    try {
+      const res = await fetch('/api/moderation', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ accountId, ...settings }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || '保存に失敗しました');
+      setError(null);
+      setSaved(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // ログのリプライを非表示・再表示にする
+  const setHidden = async (log: ModerationLogItem, hidden: boolean) => {
+    setActingId(log.id);
+    try {
+      const res = await fetch('/api/moderation/replies', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ accountId, replyId: log.replyId, hidden }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || '操作に失敗しました');
+
+      const entry: ModerationLogItem = {
+        ...log,
+        id: `${log.id}-${Date.now()}`,
+        action: hidden ? 'hide' : 'unhide',
+        reason: 'manual',
+        detail: null,
+        toxicityScore: null,
+        automatic: false,
+        status: 'success',
+        errorMessage: null,
+        createdAt: new Date().toISOString(),
+      };
+      setLoaded(prev => prev && { ...prev, logs: [entry, ...prev.logs] });
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setActingId(null);
+    }
+  };
+
+  // リプライごとの最新のログだけに操作ボタンを出す（ログは新しい順）
+  const latestByReply = new Set<string>();
+  const actionable = new Set<string>();
+  for (const log of loaded?.logs ?? []) {
+    if (latestByReply.has(log.replyId)) continue;
+    latestByReply.add(log.replyId);
+    actionable.add(log.id);
+  }
+
+  const inputClass = 'w-full px-3 py-2 border border-slate-200 dark:border-slate-600 rounded-lg text-sm bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100';
+
+  return (
+    <div className="bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-700 p-5 space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <h3 className="font-medium text-slate-900 dark:text-white">リプライのモデレーション</h3>
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            新着リプライを自動でチェックし、該当したものを非表示にします（該当したリプライには自動返信しません）
+          </p>
+        </div>
+        <button
+          onClick={() => setIsActive(!isActive)}
+          disabled={loading}
+          className={`px-3 py-1.5 text-sm rounded-lg ${
+            isActive ? 'bg-green-100 text-green-700 hover:bg-green-200' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+          }`}
+        >
+          {isActive ? '有効' : '無効'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-sm text-red-600 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="py-6 text-center">
+          <div className="w-6 h-6 border-2 border-indigo-600 border-t-transparent rounded-full animate-spin mx-auto" />
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">禁止ワード（1行に1つ）</label>
+              <textarea
+                value={blockedWords}
+                onChange={(e) => setBlockedWords(e.target.value)}
+                rows={5}
+                placeholder={'副業\n稼げる'}
+                className={inputClass}
+              />
+              <p className="text-xs text-slate-500 mt-1">カタカナ・ひらがな、全角・半角の違いは区別しません</p>
+            </div>
+            <div className="space-y-3">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">該当したときの動作</label>
+                <select value={action} onChange={(e) => setAction(e.target.value as ModerationSettings['action'])} className={inputClass}>
+                  <option value="hide">非表示にする</option>
+                  <option value="flag">ログに記録のみ（要確認）</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">リンク数の上限</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={10}
+                  value={maxLinks}
+                  onChange={(e) => setMaxLinks(e.target.value)}
+                  placeholder="空欄でチェックしない（0でリンクを含むものすべて）"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">同じ文面の繰り返し（24時間の件数）</label>
+                <input
+                  type="number"
+                  min={2}
+                  max={100}
+                  value={repeatThreshold}
+                  onChange={(e) => setRepeatThreshold(e.target.value)}
+                  placeholder="空欄でチェックしない"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">攻撃的な表現のしきい値（0.1〜1）</label>
+                <input
+                  type="number"
+                  min={0.1}
+                  max={1}
+                  step={0.05}
+                  value={toxicityThreshold}
+                  onChange={(e) => setToxicityThreshold(e.target.value)}
+                  placeholder="空欄でチェックしない（目安: 0.7）"
+                  className={inputClass}
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* テスト */}
+          <div className="p-3 bg-slate-50 dark:bg-slate-800 rounded-lg space-y-2">
+            <input
+              value={testText}
+              onChange={(e) => setTestText(e.target.value)}
+              placeholder="リプライの文面を入力して判定を確認"
+              className={inputClass}
+            />
+            {testToxicity && (
+              <p className="text-sm text-slate-600 dark:text-slate-400">
+                {testVerdict ? (
+                  <span className="text-red-600 dark:text-red-400">
+                    該当: {MODERATION_REASON_LABELS[testVerdict.reason]}
+                    {testVerdict.detail && `（${testVerdict.detail}）`}
+                  </span>
+                ) : (
+                  <span className="text-green-600 dark:text-green-400">該当なし</span>
+                )}
+                <span className="ml-3 text-xs text-slate-500">攻撃的な表現のスコア: {testToxicity.score.toFixed(2)}</span>
+              </p>
+            )}
+          </div>
+
+          <div className="flex items-center justify-end gap-3">
+            {saved && <span className="text-sm text-green-600 dark:text-green-400">保存しました</span>}
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="px-4 py-2 text-sm bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {saving ? '保存中...' : '設定を保存'}
+            </button>
+          </div>
+
+          {/* モデレーションログ */}
+          <div>
+            <h4 className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">モデレーションログ</h4>
+            {loaded.logs.length === 0 ? (
+              <p className="text-sm text-slate-500 dark:text-slate-400">まだ記録はありません</p>
+            ) : (
+              <ul className="divide-y divide-slate-100 dark:divide-slate-800 max-h-96 overflow-y-auto">
+                {loaded.logs.map(log => (
+                  <li key={log.id} className="py-2 flex items-start justify-between gap-3 text-sm">
+                    <div className="min-w-0">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className={`px-1.5 py-0.5 text-xs rounded ${
+                          log.status === 'failed'
+                            ? 'bg-red-100 text-red-700'
+                            : log.action === 'flag'
+                              ? 'bg-amber-100 text-amber-700'
+                              : 'bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-300'
+                        }`}>
+                          {ACTION_LABELS[log.action]}{log.status === 'failed' && '（失敗）'}
+                        </span>
+                        <span className="text-xs text-slate-500">
+                          {log.automatic ? '自動' : '手動'}
+                          {log.reason !== 'manual' && `: ${MODERATION_REASON_LABELS[log.reason]}`}
+                          {log.detail && `（${log.detail}）`}
+                        </span>
+                        {log.username && <span className="text-xs text-slate-500">@{log.username}</span>}
+                        <span className="text-xs text-slate-400">{new Date(log.createdAt).toLocaleString('ja-JP')}</span>
+                      </div>
+                      {log.text && <p className="text-slate-600 dark:text-slate-400 line-clamp-2 mt-1">{log.text}</p>}
+                      {log.errorMessage && <p className="text-xs text-red-500 mt-1">{log.errorMessage}</p>}
+                    </div>
+                    {actionable.has(log.id) && (
+                      <button
+                        onClick={() => setHidden(log, !isHidden(log))}
+                        disabled={actingId === log.id}
+                        className="flex-shrink-0 px-2 py-1 text-xs bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 rounded hover:bg-slate-200 dark:hover:bg-slate-700 disabled:opacity-50"
+                      >
+                        {isHidden(log) ? '再表示' : '非表示にする'}
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -9,7 +9,39 @@ interface Notification {
   message: string;
   read: boolean;
   createdAt: string;
-  link?: string;
+}
+
+// サーバーに保存された通知（Notification モデル）
+interface ServerNotification {
+  id: string;
+  type: string;
+  title: string;
+  message: string;
+  isRead: boolean;
+  createdAt: string;
+}
+
+// 通知の種類ごとのアイコン
+const NOTIFICATION_TYPES: Record<string, Notification['type']> = {
+  post_success: 'success',
+  post_failed: 'error',
+  token_expiring: 'warning',
+  token_invalid: 'error',
+};
+
+async function fetchNotifications(): Promise<Notification[]> {
+  const res = await fetch('/api/notifications');
+  if (!res.ok) return [];
+
+  const data = await res.json();
+  return (data.notifications as ServerNotification[]).map(n => ({
+    id: n.id,
+    type: NOTIFICATION_TYPES[n.type] ?? 'info',
+    title: n.title,
+    message: n.message,
+    read: n.isRead,
+    createdAt: n.createdAt,
+  }));
 }
 
 interface NotificationCenterProps {
@@ -43,64 +75,46 @@ export function NotificationCenter({ onClose }: NotificationCenterProps) {
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [loading, setLoading] = useState(true);
 
-  // 通知を読み込み（localStorage使用）
+  // 通知を読み込み
   useEffect(() => {
-    const saved = localStorage.getItem('notifications');
-    if (saved) {
-      setNotifications(JSON.parse(saved));
-    } else {
-      // 初回はサンプル通知を表示
-      const sampleNotifications: Notification[] = [
-        {
-          id: '1',
-          type: 'success',
-          title: 'ようこそ！',
-          message: 'Threads Studioへようこそ。まずはアクセストークンを設定してください。',
-          read: false,
-          createdAt: new Date().toISOString(),
-        },
-        {
-          id: '2',
-          type: 'info',
-          title: '新機能のお知らせ',
-          message: 'AI一括生成機能が追加されました。複数の投稿を一度に生成できます。',
-          read: false,
-          createdAt: new Date(Date.now() - 86400000).toISOString(),
-        },
-      ];
-      setNotifications(sampleNotifications);
-      localStorage.setItem('notifications', JSON.stringify(sampleNotifications));
-    }
-    setLoading(false);
+    fetchNotifications()
+      .then(setNotifications)
+      .catch(() => setNotifications([]))
+      .finally(() => setLoading(false));
   }, []);
 
   // 通知を既読にする
   const markAsRead = (id: string) => {
-    const updated = notifications.map(n =>
+    setNotifications(prev => prev.map(n =>
       n.id === id ? { ...n, read: true } : n
-    );
-    setNotifications(updated);
-    localStorage.setItem('notifications', JSON.stringify(updated));
+    ));
+    fetch('/api/notifications', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ id }),
+    }).catch(() => {});
   };
 
   // 全て既読にする
   const markAllAsRead = () => {
-    const updated = notifications.map(n => ({ ...n, read: true }));
-    setNotifications(updated);
-    localStorage.setItem('notifications', JSON.stringify(updated));
+    setNotifications(prev => prev.map(n => ({ ...n, read: true })));
+    fetch('/api/notifications', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({}),
+    }).catch(() => {});
   };
 
   // 通知を削除
   const deleteNotification = (id: string) => {
-    const updated = notifications.filter(n => n.id !== id);
-    setNotifications(updated);
-    localStorage.setItem('notifications', JSON.stringify(updated));
+    setNotifications(prev => prev.filter(n => n.id !== id));
+    fetch(`/api/notifications?id=${encodeURIComponent(id)}`, { method: 'DELETE' }).catch(() => {});
   };
 
   // 全て削除
   const clearAll = () => {
     setNotifications([]);
-    localStorage.setItem('notifications', JSON.stringify([]));
+    fetch('/api/notifications', { method: 'DELETE' }).catch(() => {});
   };
 
   const unreadCount = notifications.filter(n => !n.read).length;
@@ -226,11 +240,9 @@ export function NotificationBell({ onClick }: { onClick: () => void }) {
   const [unreadCount, setUnreadCount] = useState(0);
 
   useEffect(() => {
-    const saved = localStorage.getItem('notifications');
-    if (saved) {
-      const notifications = JSON.parse(saved) as Notification[];
-      setUnreadCount(notifications.filter(n => !n.read).length);
-    }
+    fetchNotifications()
+      .then(notifications => setUnreadCount(notifications.filter(n => !n.read).length))
+      .catch(() => {});
   }, []);
 
   return (
@@ -250,25 +262,3 @@ export function NotificationBell({ onClick }: { onClick: () => void }) {
     </button>
   );
 }
-
-// 通知を追加するユーティリティ関数
-export function addNotification(notification: Omit<Notification, 'id' | 'read' | 'createdAt'>) {
-  const saved = localStorage.getItem('notifications');
-  const notifications: Notification[] = saved ? JSON.parse(saved) : [];
-
-  const newNotification: Notification = {
-    ...notification,
-    id: `notification-${Date.now()}`,
-    read: false,
-    createdAt: new Date().toISOString(),
-  };
-
-  notifications.unshift(newNotification);
-
-  // 最大100件まで保持
-  const limited = notifications.slice(0, 100);
-  localStorage.setItem('notifications', JSON.stringify(limited));
-
-  // イベントを発火して他のコンポーネントに通知
-  window.dispatchEvent(new CustomEvent('notification-added', { detail: newNotification }));
-}
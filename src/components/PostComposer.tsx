@@ -5,6 +5,15 @@ import { AISettings, getAISettings } from './AISettings';
 import { ImageUpload } from './ImageUpload';
 import { MediaUpload } from './MediaUpload';
 import { ImageGenerator } from './ImageGenerator';
+import { FollowUpEditor, toFollowUpDefinitions, type FollowUpDraft } from './FollowUpEditor';
+import {
+  ALT_TEXT_MAX_LENGTH,
+  MAX_POLL_OPTIONS,
+  POLL_OPTION_MAX_LENGTH,
+  REPLY_CONTROL_LABELS,
+  TOPIC_TAG_MAX_LENGTH,
+  type ReplyControl,
+} from '@/lib/threads/post-options';
 
 interface HashtagSuggestion {
   tag: string;
@@ -13,7 +22,6 @@ interface HashtagSuggestion {
 }
 
 interface PostComposerProps {
-  accessToken: string;
   accountId?: string;
   onPostSuccess?: () => void;
   initialText?: string;
@@ -21,22 +29,63 @@ interface PostComposerProps {
   suggestedHashtags?: HashtagSuggestion[];
 }
 
-type PostType = 'text' | 'image' | 'video' | 'carousel' | 'thread';
+type PostType = 'text' | 'image' | 'video' | 'carousel' | 'thread' | 'quote' | 'repost';
+
+// 引用・リポストする投稿（/api/threads/resolve の結果）
+interface TargetPost {
+  mediaId: string;
+  permalink: string;
+  isOwn: boolean;
+  preview: {
+    username: string;
+    text: string | null;
+    mediaType: string;
+    mediaUrl: string | null;
+    timestamp: string;
+  } | null;
+}
 
 interface ThreadPost {
   text: string;
   imageUrl?: string;
   videoUrl?: string;
+  altText?: string;
+}
+
+function AltTextInput({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  return (
+    <input
+      type="text"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      maxLength={ALT_TEXT_MAX_LENGTH}
+      placeholder="代替テキスト（任意。画像・動画の内容の説明）"
+      className="w-full mt-2 px-2 py-1.5 border border-slate-200 rounded text-xs text-slate-900 placeholder-slate-400"
+    />
+  );
 }
 
-export function PostComposer({ accessToken, accountId, onPostSuccess, initialText, onInitialTextUsed, suggestedHashtags }: PostComposerProps) {
+export function PostComposer({ accountId, onPostSuccess, initialText, onInitialTextUsed, suggestedHashtags }: PostComposerProps) {
   const [postType, setPostType] = useState<PostType>('text');
   const [text, setText] = useState(initialText || '');
   const [imageUrl, setImageUrl] = useState('');
   const [videoUrl, setVideoUrl] = useState('');
-  const [carouselItems, setCarouselItems] = useState<Array<{ type: 'IMAGE' | 'VIDEO'; url: string }>>([]);
+  const [carouselItems, setCarouselItems] = useState<Array<{ type: 'IMAGE' | 'VIDEO'; url: string; altText?: string }>>([]);
   const [threadPosts, setThreadPosts] = useState<ThreadPost[]>([{ text: '' }]);
 
+  // 投稿オプション
+  const [altText, setAltText] = useState('');
+  const [replyControl, setReplyControl] = useState<ReplyControl>('everyone');
+  const [topicTag, setTopicTag] = useState('');
+  const [pollOptions, setPollOptions] = useState<string[] | null>(null);
+  const [linkAttachment, setLinkAttachment] = useState('');
+
+  // 引用・リポストする投稿
+  const [targetUrl, setTargetUrl] = useState('');
+  const [targetPost, setTargetPost] = useState<TargetPost | null>(null);
+  const [resolvingTarget, setResolvingTarget] = useState(false);
+  const [targetError, setTargetError] = useState<string | null>(null);
+
   const [posting, setPosting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
@@ -56,6 +105,8 @@ export function PostComposer({ accessToken, accountId, onPostSuccess, initialTex
   const [scheduleTime, setScheduleTime] = useState('');
   const [scheduling, setScheduling] = useState(false);
   const [scheduleSuccess, setScheduleSuccess] = useState(false);
+  // フォローアップ返信（公開後に自分の投稿へ返信）
+  const [followUps, setFollowUps] = useState<FollowUpDraft[]>([]);
 
   // 画像生成モーダル
   const [showImageGenerator, setShowImageGenerator] = useState(false);
@@ -95,13 +146,69 @@ export function PostComposer({ accessToken, accountId, onPostSuccess, initialTex
     }
   }, [initialText]);
 
+  // アンケートとリンクはメディアのないテキスト投稿（スレッドは1投稿目）のみ
+  const textOnly = postType === 'text'
+    || (postType === 'thread' && !threadPosts[0]?.imageUrl && !threadPosts[0]?.videoUrl);
+
+  // 本文（テキスト・引用）や対象の投稿URL（引用・リポスト）が未入力
+  const missingContent = ((postType === 'text' || postType === 'quote') && !text.trim())
+    || ((postType === 'quote' || postType === 'repost') && !targetUrl.trim());
+
+  // 投稿・予約で共通の投稿オプション
+  const buildPostOptions = (): Record<string, unknown> => {
+    const options: Record<string, unknown> = {};
+    if (postType === 'repost') return options;
+    if (replyControl !== 'everyone') options.replyControl = replyControl;
+    if (topicTag.trim()) options.topicTag = topicTag.trim();
+    if (textOnly && pollOptions) options.pollOptions = pollOptions.map(o => o.trim()).filter(Boolean);
+    if (textOnly && !pollOptions && linkAttachment.trim()) options.linkAttachment = linkAttachment.trim();
+    if (postType === 'image' || postType === 'video') {
+      if (altText.trim()) options.altTexts = [altText.trim()];
+    } else if (postType === 'carousel' && carouselItems.some(item => item.altText?.trim())) {
+      options.altTexts = carouselItems.map(item => item.altText?.trim() ?? '');
+    }
+    return options;
+  };
+
+  const resetPostOptions = () => {
+    setAltText('');
+    setReplyControl('everyone');
+    setTopicTag('');
+    setPollOptions(null);
+    setLinkAttachment('');
+    setTargetUrl('');
+    setTargetPost(null);
+    setTargetError(null);
+  };
+
+  // 貼り付けたURLの投稿を読み込んでプレビューを表示
+  const handleResolveTarget = async () => {
+    if (!accountId || !targetUrl.trim()) return;
+    setResolvingTarget(true);
+    setTargetError(null);
+    setTargetPost(null);
+    try {
+      const res = await fetch(`/api/threads/resolve?accountId=${encodeURIComponent(accountId)}&url=${encodeURIComponent(targetUrl.trim())}`);
+      const data = await res.json();
+      if (!res.ok) {
+        setTargetError(data.error || '投稿を読み込めませんでした');
+      } else {
+        setTargetPost(data.post);
+      }
+    } catch {
+      setTargetError('投稿を読み込めませんでした');
+    } finally {
+      setResolvingTarget(false);
+    }
+  };
+
   const handlePost = async () => {
     setPosting(true);
     setError(null);
     setSuccess(false);
 
     try {
-      const body: Record<string, unknown> = { type: postType };
+      const body: Record<string, unknown> = { type: postType, accountId, ...buildPostOptions() };
 
       if (postType === 'text') {
         body.text = text;
@@ -116,14 +223,14 @@ export function PostComposer({ accessToken, accountId, onPostSuccess, initialTex
         body.text = text || undefined;
       } else if (postType === 'thread') {
         body.threadPosts = threadPosts;
+      } else if (postType === 'quote' || postType === 'repost') {
+        body.targetUrl = targetUrl.trim();
+        if (postType === 'quote') body.text = text;
       }
 
       const res = await fetch('/api/threads/post', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${accessToken}`,
-        },
+        headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(body),
       });
 
@@ -138,6 +245,7 @@ export function PostComposer({ accessToken, accountId, onPostSuccess, initialTex
         setVideoUrl('');
         setCarouselItems([]);
         setThreadPosts([{ text: '' }]);
+        resetPostOptions();
         onPostSuccess?.();
       }
     } catch {
@@ -166,10 +274,17 @@ export function PostComposer({ accessToken, accountId, onPostSuccess, initialTex
         accountId,
         type: postType,
         scheduledAt: scheduledAt.toISOString(),
+        ...buildPostOptions(),
       };
+      if (followUps.length > 0 && postType !== 'repost') {
+        body.followUps = toFollowUpDefinitions(followUps);
+      }
 
       if (postType === 'thread') {
         body.threadPosts = threadPosts;
+      } else if (postType === 'quote' || postType === 'repost') {
+        body.targetUrl = targetUrl.trim();
+        if (postType === 'quote') body.text = text;
       } else {
         if (text) body.text = text;
         if (postType === 'image' && imageUrl) {
@@ -193,11 +308,15 @@ export function PostComposer({ accessToken, accountId, onPostSuccess, initialTex
         setError(data.error || '予約に失敗しました');
       } else {
         setScheduleSuccess(true);
+        // 予約日が公開クォータを超える場合の警告
+        if (data.warning) alert(data.warning);
         setText('');
         setImageUrl('');
         setVideoUrl('');
         setCarouselItems([]);
         setThreadPosts([{ text: '' }]);
+        resetPostOptions();
+        setFollowUps([]);
         setShowSchedulePicker(false);
         setScheduleDate('');
         setScheduleTime('');
@@ -308,10 +427,8 @@ export function PostComposer({ accessToken, accountId, onPostSuccess, initialTex
     setCarouselItems([...carouselItems, { type, url: '' }]);
   };
 
-  const updateCarouselItem = (index: number, url: string) => {
-    const newItems = [...carouselItems];
-    newItems[index].url = url;
-    setCarouselItems(newItems);
+  const updateCarouselItem = (index: number, changes: { url?: string; altText?: string }) => {
+    setCarouselItems(carouselItems.map((item, i) => (i === index ? { ...item, ...changes } : item)));
   };
 
   const removeCarouselItem = (index: number) => {
@@ -357,7 +474,7 @@ export function PostComposer({ accessToken, accountId, onPostSuccess, initialTex
 
       {/* Post Type Selector */}
       <div className="flex flex-wrap gap-2 mb-4">
-        {(['text', 'image', 'video', 'carousel', 'thread'] as PostType[]).map((type) => (
+        {(['text', 'image', 'video', 'carousel', 'thread', 'quote', 'repost'] as PostType[]).map((type) => (
           <button
             key={type}
             onClick={() => setPostType(type)}
@@ -372,16 +489,71 @@ export function PostComposer({ accessToken, accountId, onPostSuccess, initialTex
             {type === 'video' && '動画'}
             {type === 'carousel' && 'カルーセル'}
             {type === 'thread' && 'スレッド'}
+            {type === 'quote' && '引用'}
+            {type === 'repost' && 'リポスト'}
           </button>
         ))}
       </div>
 
-      {/* Text Input (for text, image, video, carousel) */}
-      {postType !== 'thread' && (
+      {/* Quote / Repost Target */}
+      {(postType === 'quote' || postType === 'repost') && (
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-slate-700 mb-1">
+            {postType === 'quote' ? '引用する投稿のURL' : 'リポストする投稿のURL（自分の投稿のみ）'}
+          </label>
+          <div className="flex gap-2">
+            <input
+              type="url"
+              value={targetUrl}
+              onChange={(e) => {
+                setTargetUrl(e.target.value);
+                setTargetPost(null);
+                setTargetError(null);
+              }}
+              placeholder="https://www.threads.net/@username/post/..."
+              className="flex-1 px-3 py-2 border border-slate-200 rounded-lg text-sm text-slate-900 placeholder-slate-400"
+            />
+            <button
+              type="button"
+              onClick={handleResolveTarget}
+              disabled={!accountId || resolvingTarget || !targetUrl.trim()}
+              className="px-4 py-2 text-sm bg-slate-100 text-slate-700 rounded-lg hover:bg-slate-200 disabled:opacity-50"
+            >
+              {resolvingTarget ? '読み込み中...' : '読み込む'}
+            </button>
+          </div>
+          {targetError && <p className="text-xs text-red-600 mt-1">{targetError}</p>}
+          {targetPost && (
+            <div className="mt-2 p-3 bg-slate-50 rounded-lg border border-slate-200 text-sm">
+              {targetPost.preview ? (
+                <div className="min-w-0">
+                  <p className="text-xs text-slate-500">
+                    @{targetPost.preview.username}・{new Date(targetPost.preview.timestamp).toLocaleString('ja-JP')}
+                    {targetPost.preview.mediaType !== 'TEXT_POST' && '・メディアあり'}
+                  </p>
+                  <p className="text-slate-800 whitespace-pre-wrap break-words line-clamp-4">
+                    {targetPost.preview.text || '（テキストなし）'}
+                  </p>
+                </div>
+              ) : (
+                <p className="text-xs text-slate-500">
+                  投稿ID {targetPost.mediaId} として扱います（プレビューを取得できませんでした）
+                </p>
+              )}
+              {postType === 'repost' && !targetPost.isOwn && (
+                <p className="text-xs text-amber-600 mt-2">リポストできるのは自分の投稿のみです</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Text Input (for text, image, video, carousel, quote) */}
+      {postType !== 'thread' && postType !== 'repost' && (
         <div className="mb-4">
           <div className="flex items-center justify-between mb-1">
             <label className="text-sm font-medium text-slate-700">
-              テキスト {postType !== 'text' && '（任意）'}
+              {postType === 'quote' ? '引用コメント' : 'テキスト'} {postType !== 'text' && postType !== 'quote' && '（任意）'}
             </label>
             <div className="flex items-center gap-2">
               {/* 高さ調整ボタン */}
@@ -590,6 +762,7 @@ export function PostComposer({ accessToken, accountId, onPostSuccess, initialTex
               placeholder="https://example.com/image.jpg"
               className="w-full px-3 py-2 text-sm border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-violet-500 text-slate-900 placeholder-slate-400"
             />
+            <AltTextInput value={altText} onChange={setAltText} />
           </div>
         </div>
       )}
@@ -620,6 +793,7 @@ export function PostComposer({ accessToken, accountId, onPostSuccess, initialTex
               placeholder="https://example.com/video.mp4"
               className="w-full px-3 py-2 text-sm border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-violet-500 text-slate-900 placeholder-slate-400"
             />
+            <AltTextInput value={altText} onChange={setAltText} />
           </div>
         </div>
       )}
@@ -648,19 +822,20 @@ export function PostComposer({ accessToken, accountId, onPostSuccess, initialTex
               </div>
               <MediaUpload
                 accept={item.type === 'IMAGE' ? 'image' : 'video'}
-                onUpload={(url) => updateCarouselItem(index, url)}
+                onUpload={(url) => updateCarouselItem(index, { url })}
                 currentUrl={item.url}
-                onRemove={() => updateCarouselItem(index, '')}
+                onRemove={() => updateCarouselItem(index, { url: '' })}
                 compact
               />
               <div className="mt-2 pt-2 border-t border-slate-200">
                 <input
                   type="url"
                   value={item.url}
-                  onChange={(e) => updateCarouselItem(index, e.target.value)}
+                  onChange={(e) => updateCarouselItem(index, { url: e.target.value })}
                   placeholder="またはURLを直接入力"
                   className="w-full px-2 py-1.5 border border-slate-200 rounded text-xs text-slate-900 placeholder-slate-400"
                 />
+                <AltTextInput value={item.altText ?? ''} onChange={(value) => updateCarouselItem(index, { altText: value })} />
               </div>
             </div>
           ))}
@@ -751,6 +926,12 @@ export function PostComposer({ accessToken, accountId, onPostSuccess, initialTex
                   />
                 </div>
               </div>
+              {(post.imageUrl || post.videoUrl) && (
+                <AltTextInput
+                  value={post.altText ?? ''}
+                  onChange={(value) => updateThreadPost(index, { ...post, altText: value || undefined })}
+                />
+              )}
             </div>
           ))}
           <button
@@ -765,6 +946,99 @@ export function PostComposer({ accessToken, accountId, onPostSuccess, initialTex
         </div>
       )}
 
+      {/* 投稿オプション（リポストには付けられない） */}
+      {postType !== 'repost' && (
+        <div className="mb-4 p-4 bg-slate-50 rounded-lg border border-slate-200 space-y-3">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs text-slate-500 mb-1">返信できるユーザー</label>
+              <select
+                value={replyControl}
+                onChange={(e) => setReplyControl(e.target.value as ReplyControl)}
+                className="w-full px-3 py-2 border border-slate-200 rounded-lg text-sm text-slate-900 bg-white"
+              >
+                {(Object.keys(REPLY_CONTROL_LABELS) as ReplyControl[]).map(value => (
+                  <option key={value} value={value}>{REPLY_CONTROL_LABELS[value]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs text-slate-500 mb-1">トピックタグ（任意）</label>
+              <input
+                type="text"
+                value={topicTag}
+                onChange={(e) => setTopicTag(e.target.value)}
+                maxLength={TOPIC_TAG_MAX_LENGTH}
+                placeholder="例: 料理"
+                className="w-full px-3 py-2 border border-slate-200 rounded-lg text-sm text-slate-900 placeholder-slate-400"
+              />
+            </div>
+          </div>
+
+          {textOnly && (
+            <>
+              {pollOptions ? (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <label className="text-xs text-slate-500">アンケート（2〜{MAX_POLL_OPTIONS}個）</label>
+                    <button onClick={() => setPollOptions(null)} className="text-xs text-red-500 hover:text-red-700">
+                      アンケートを削除
+                    </button>
+                  </div>
+                  {pollOptions.map((option, index) => (
+                    <div key={index} className="flex gap-2">
+                      <input
+                        type="text"
+                        value={option}
+                        onChange={(e) => setPollOptions(pollOptions.map((o, i) => (i === index ? e.target.value : o)))}
+                        maxLength={POLL_OPTION_MAX_LENGTH}
+                        placeholder={`選択肢${index + 1}`}
+                        className="flex-1 px-3 py-2 border border-slate-200 rounded-lg text-sm text-slate-900 placeholder-slate-400"
+                      />
+                      {pollOptions.length > 2 && (
+                        <button
+                          onClick={() => setPollOptions(pollOptions.filter((_, i) => i !== index))}
+                          className="px-2 text-slate-400 hover:text-red-500 text-sm"
+                        >
+                          ×
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                  {pollOptions.length < MAX_POLL_OPTIONS && (
+                    <button
+                      onClick={() => setPollOptions([...pollOptions, ''])}
+                      className="px-3 py-1.5 text-xs bg-slate-100 text-slate-600 rounded hover:bg-slate-200"
+                    >
+                      + 選択肢を追加
+                    </button>
+                  )}
+                </div>
+              ) : (
+                <div className="flex flex-wrap items-end gap-3">
+                  <button
+                    onClick={() => setPollOptions(['', ''])}
+                    className="px-3 py-2 text-xs bg-white border border-slate-200 text-slate-600 rounded-lg hover:bg-slate-100"
+                  >
+                    + アンケートを追加
+                  </button>
+                  <div className="flex-1 min-w-[200px]">
+                    <label className="block text-xs text-slate-500 mb-1">リンクを添付（任意）</label>
+                    <input
+                      type="url"
+                      value={linkAttachment}
+                      onChange={(e) => setLinkAttachment(e.target.value)}
+                      placeholder="https://example.com"
+                      className="w-full px-3 py-2 border border-slate-200 rounded-lg text-sm text-slate-900 placeholder-slate-400"
+                    />
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+
       {/* Error/Success Messages */}
       {error && (
         <p className="text-sm text-red-600 bg-red-50 p-3 rounded-lg mb-4">{error}</p>
@@ -805,6 +1079,11 @@ export function PostComposer({ accessToken, accountId, onPostSuccess, initialTex
               />
             </div>
           </div>
+          {postType !== 'repost' && (
+            <div className="mb-3">
+              <FollowUpEditor value={followUps} onChange={setFollowUps} />
+            </div>
+          )}
           <div className="flex gap-2">
             <button
               onClick={handleSchedule}
@@ -827,7 +1106,7 @@ export function PostComposer({ accessToken, accountId, onPostSuccess, initialTex
       <div className="flex gap-3">
         <button
           onClick={handlePost}
-          disabled={posting || (postType === 'text' && !text.trim()) || charCount > maxChars}
+          disabled={posting || missingContent || charCount > maxChars}
           className="flex-1 py-3 bg-violet-600 text-white font-semibold rounded-lg hover:bg-violet-700 transition-colors disabled:opacity-50"
         >
           {posting ? '投稿中...' : '投稿する'}
@@ -835,7 +1114,7 @@ export function PostComposer({ accessToken, accountId, onPostSuccess, initialTex
         {accountId && (
           <button
             onClick={() => setShowSchedulePicker(!showSchedulePicker)}
-            disabled={posting || (postType === 'text' && !text.trim()) || charCount > maxChars}
+            disabled={posting || missingContent || charCount > maxChars}
             className="px-6 py-3 bg-indigo-600 text-white font-semibold rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
           >
             予約投稿
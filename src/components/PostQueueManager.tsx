@@ -1,6 +1,7 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect, useCallback } from 'react';
+import { TIMEZONES } from '@/lib/scheduler/recurrence';
 
 interface BestHour {
   hour: number;
@@ -10,217 +11,341 @@ interface BestHour {
 interface PostQueueManagerProps {
   accountId: string;
   bestPostingHours?: BestHour[];
+  bestHoursTimezone?: string; // bestPostingHours を集計したタイムゾーン（キューと同じ場合のみ提案に使う）
   onRefresh?: () => void;
 }
 
+interface PostingSlot {
+  dayOfWeek: number;
+  hour: number;
+  minute: number;
+}
+
 interface QueueItem {
   id: string;
-  text: string;
-  status: 'queued' | 'scheduled' | 'error';
-  scheduledAt?: string;
-  errorMessage?: string;
+  text: string | null;
+  scheduledAt: string;
+  status: string;
+  attemptCount: number;
+  nextAttemptAt: string | null;
+  errorMessage: string | null;
+}
+
+interface QueueData {
+  paused: boolean;
+  timezone: string;
+  slots: PostingSlot[];
+  items: QueueItem[];
+}
+
+// 投稿枠の編集用: 同じ時刻の枠を1行にまとめる
+interface SlotRow {
+  time: string; // HH:mm
+  days: number[];
 }
 
-const DEFAULT_SLOTS = [
-  { hour: 8, minute: 0 },
-  { hour: 12, minute: 0 },
-  { hour: 18, minute: 0 },
-  { hour: 21, minute: 0 },
+const DAY_LABELS = ['日', '月', '火', '水', '木', '金', '土'];
+const WEEKDAYS = [1, 2, 3, 4, 5];
+const EVERY_DAY = [0, 1, 2, 3, 4, 5, 6];
+
+const DEFAULT_ROWS: SlotRow[] = [
+  { time: '08:00', days: WEEKDAYS },
+  { time: '12:30', days: WEEKDAYS },
+  { time: '21:00', days: WEEKDAYS },
 ];
 
-export function PostQueueManager({ accountId, bestPostingHours, onRefresh }: PostQueueManagerProps) {
-  const [queueItems, setQueueItems] = useState<QueueItem[]>([]);
+function formatTime(hour: number, minute: number): string {
+  return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+}
+
+function toRows(slots: PostingSlot[]): SlotRow[] {
+  const byTime = new Map<string, number[]>();
+  for (const slot of slots) {
+    const time = formatTime(slot.hour, slot.minute);
+    byTime.set(time, [...(byTime.get(time) ?? []), slot.dayOfWeek]);
+  }
+  return [...byTime.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([time, days]) => ({ time, days: days.sort() }));
+}
+
+function toSlots(rows: SlotRow[]): PostingSlot[] {
+  return rows.flatMap(row => {
+    const [hour, minute] = row.time.split(':').map(Number);
+    return row.days.map(dayOfWeek => ({ dayOfWeek, hour, minute }));
+  });
+}
+
+function describeDays(days: number[]): string {
+  const key = [...days].sort().join(',');
+  if (key === EVERY_DAY.join(',')) return '毎日';
+  if (key === WEEKDAYS.join(',')) return '平日';
+  if (key === '0,6') return '土日';
+  return [...days].sort().map(d => DAY_LABELS[d]).join('・');
+}
+
+async function loadQueue(accountId: string): Promise<QueueData> {
+  const res = await fetch(`/api/queue?accountId=${encodeURIComponent(accountId)}`);
+  const json = await res.json();
+  if (!res.ok) throw new Error(json.error || 'キューの取得に失敗しました');
+  return json;
+}
+
+// 投稿キュー: 投稿枠（曜日・時刻）を設定し、追加した投稿を次の空き枠で自動投稿する（投稿はCronが行う）
+export function PostQueueManager({ accountId, bestPostingHours, bestHoursTimezone, onRefresh }: PostQueueManagerProps) {
+  const [queue, setQueue] = useState<QueueData | null>(null);
+  const [error, setError] = useState<string | null>(null);
   const [newText, setNewText] = useState('');
-  const [scheduling, setScheduling] = useState(false);
-  const [slots, setSlots] = useState(() => {
-    // ベストタイムがあればそれを使用、なければデフォルト
-    if (bestPostingHours && bestPostingHours.length >= 3) {
-      return bestPostingHours.slice(0, 4).map(h => ({ hour: h.hour, minute: 0 }));
+  const [busy, setBusy] = useState(false);
+  const [slotDraft, setSlotDraft] = useState<{ rows: SlotRow[]; timezone: string } | null>(null);
+
+  const applyQueue = useCallback((data: QueueData) => {
+    setQueue(data);
+    setError(null);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadQueue(accountId)
+      .then(data => {
+        if (!cancelled) applyQueue(data);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Unknown error');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [accountId, applyQueue]);
+
+  // 変更系のリクエストを送り、成功したらキューを読み直す
+  const mutate = async (url: string, method: string, body: Record<string, unknown>) => {
+    setBusy(true);
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || '更新に失敗しました');
+      applyQueue(await loadQueue(accountId));
+      onRefresh?.();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      return false;
+    } finally {
+      setBusy(false);
     }
-    return DEFAULT_SLOTS;
-  });
-  const [showSlotEditor, setShowSlotEditor] = useState(false);
+  };
 
-  const addToQueue = () => {
+  const addToQueue = async () => {
     if (!newText.trim()) return;
-    setQueueItems(prev => [...prev, {
-      id: `q-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
-      text: newText.trim(),
-      status: 'queued',
-    }]);
-    setNewText('');
+    if (await mutate('/api/queue', 'POST', { accountId, text: newText.trim() })) {
+      setNewText('');
+    }
   };
 
-  const removeFromQueue = (id: string) => {
-    setQueueItems(prev => prev.filter(item => item.id !== id));
+  const moveItem = (id: string, direction: 'up' | 'down') => {
+    if (!queue) return;
+    const ids = queue.items.map(item => item.id);
+    const idx = ids.indexOf(id);
+    const newIdx = direction === 'up' ? idx - 1 : idx + 1;
+    if (idx < 0 || newIdx < 0 || newIdx >= ids.length) return;
+    [ids[idx], ids[newIdx]] = [ids[newIdx], ids[idx]];
+    mutate('/api/queue', 'PATCH', { accountId, order: ids });
   };
 
-  const moveItem = (id: string, direction: 'up' | 'down') => {
-    setQueueItems(prev => {
-      const idx = prev.findIndex(i => i.id === id);
-      if (idx < 0) return prev;
-      const newIdx = direction === 'up' ? idx - 1 : idx + 1;
-      if (newIdx < 0 || newIdx >= prev.length) return prev;
-      const copy = [...prev];
-      [copy[idx], copy[newIdx]] = [copy[newIdx], copy[idx]];
-      return copy;
+  const saveSlots = async () => {
+    if (!slotDraft) return;
+    const saved = await mutate('/api/queue/slots', 'PUT', {
+      accountId,
+      slots: toSlots(slotDraft.rows),
+      timezone: slotDraft.timezone,
     });
+    if (saved) setSlotDraft(null);
   };
 
-  // 次の空きスロットを計算
-  const calculateNextSlots = (count: number): Date[] => {
-    const result: Date[] = [];
-    const now = new Date();
-    let currentDate = new Date(now);
-    // 今日のまだ来ていないスロットから埋める
-    let slotsPerDay = slots.length;
-    let maxDays = Math.ceil(count / slotsPerDay) + 1;
-
-    for (let d = 0; d < maxDays && result.length < count; d++) {
-      for (const slot of slots) {
-        if (result.length >= count) break;
-        const dt = new Date(currentDate);
-        dt.setHours(slot.hour, slot.minute, 0, 0);
-        // 5分以上先のスロットのみ
-        if (dt.getTime() > now.getTime() + 5 * 60 * 1000) {
-          result.push(dt);
-        }
-      }
-      currentDate.setDate(currentDate.getDate() + 1);
-      currentDate.setHours(0, 0, 0, 0);
-    }
-
-    return result;
+  const updateRow = (index: number, changes: Partial<SlotRow>) => {
+    setSlotDraft(prev => prev && {
+      ...prev,
+      rows: prev.rows.map((row, i) => (i === index ? { ...row, ...changes } : row)),
+    });
   };
 
-  const scheduleAll = async () => {
-    const pendingItems = queueItems.filter(i => i.status === 'queued');
-    if (pendingItems.length === 0) return;
-
-    setScheduling(true);
-    const nextSlots = calculateNextSlots(pendingItems.length);
-
-    for (let i = 0; i < pendingItems.length; i++) {
-      const item = pendingItems[i];
-      const scheduledAt = nextSlots[i];
-
-      if (!scheduledAt) {
-        setQueueItems(prev => prev.map(q =>
-          q.id === item.id ? { ...q, status: 'error' as const, errorMessage: 'スロット不足' } : q
-        ));
-        continue;
-      }
-
-      try {
-        const res = await fetch('/api/scheduled', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            accountId,
-            type: 'text',
-            text: item.text,
-            scheduledAt: scheduledAt.toISOString(),
-          }),
-        });
-
-        if (res.ok) {
-          setQueueItems(prev => prev.map(q =>
-            q.id === item.id ? { ...q, status: 'scheduled' as const, scheduledAt: scheduledAt.toISOString() } : q
-          ));
-        } else {
-          const data = await res.json();
-          setQueueItems(prev => prev.map(q =>
-            q.id === item.id ? { ...q, status: 'error' as const, errorMessage: data.error } : q
-          ));
-        }
-      } catch {
-        setQueueItems(prev => prev.map(q =>
-          q.id === item.id ? { ...q, status: 'error' as const, errorMessage: '通信エラー' } : q
-        ));
-      }
-    }
-
-    setScheduling(false);
-    onRefresh?.();
+  const toggleDay = (index: number, day: number) => {
+    const row = slotDraft?.rows[index];
+    if (!row) return;
+    updateRow(index, {
+      days: row.days.includes(day) ? row.days.filter(d => d !== day) : [...row.days, day].sort(),
+    });
   };
 
-  const clearCompleted = () => {
-    setQueueItems(prev => prev.filter(i => i.status === 'queued'));
-  };
+  if (!queue) {
+    return (
+      <div className="bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-700 p-8 text-center">
+        {error ? (
+          <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+        ) : (
+          <div className="animate-spin rounded-full h-8 w-8 border-2 border-indigo-600 border-t-transparent mx-auto" />
+        )}
+      </div>
+    );
+  }
 
-  const pendingCount = queueItems.filter(i => i.status === 'queued').length;
-  const scheduledCount = queueItems.filter(i => i.status === 'scheduled').length;
+  const rows = toRows(queue.slots);
+  const timezoneOptions = TIMEZONES.includes(queue.timezone) ? TIMEZONES : [queue.timezone, ...TIMEZONES];
+  // ベストタイムはキューと同じタイムゾーンで集計したものだけ提案する
+  const suggestedRows = bestPostingHours && bestPostingHours.length >= 3 && bestHoursTimezone === (slotDraft?.timezone ?? queue.timezone)
+    ? bestPostingHours.slice(0, 3).map(h => ({ time: formatTime(h.hour, 0), days: EVERY_DAY }))
+    : null;
 
-  const formatSlotTime = (hour: number, minute: number) =>
-    `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+  const formatScheduledAt = (value: string) =>
+    new Date(value).toLocaleString('ja-JP', {
+      timeZone: queue.timezone,
+      month: 'short',
+      day: 'numeric',
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
 
   return (
     <div className="space-y-6">
       {/* ヘッダー */}
-      <div className="bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-700 p-5">
-        <h2 className="text-lg font-bold text-slate-900 dark:text-slate-100 mb-1">投稿キュー</h2>
-        <p className="text-sm text-slate-500 dark:text-slate-400">
-          複数の投稿をキューに追加し、最適な時間帯に自動で予約投稿します
-        </p>
+      <div className="bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-700 p-5 flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-bold text-slate-900 dark:text-slate-100 mb-1">投稿キュー</h2>
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            キューに追加した投稿は、設定した投稿枠に順番に自動投稿されます（{queue.timezone}）
+          </p>
+        </div>
+        <button
+          onClick={() => mutate('/api/queue', 'PATCH', { accountId, paused: !queue.paused })}
+          disabled={busy}
+          className={`px-4 py-2 text-sm rounded-lg flex-shrink-0 disabled:opacity-50 ${
+            queue.paused
+              ? 'bg-green-600 text-white hover:bg-green-700'
+              : 'bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700'
+          }`}
+        >
+          {queue.paused ? 'キューを再開' : 'キューを一時停止'}
+        </button>
       </div>
 
-      {/* タイムスロット設定 */}
+      {queue.paused && (
+        <div className="p-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg text-sm text-amber-700 dark:text-amber-300">
+          キューは一時停止中です。再開すると、これからの投稿枠に順番に割り当て直します。
+        </div>
+      )}
+
+      {error && (
+        <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-sm text-red-600 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {/* 投稿枠 */}
       <div className="bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-700 p-5">
         <div className="flex items-center justify-between mb-3">
-          <h3 className="font-semibold text-slate-900 dark:text-slate-100">投稿スロット</h3>
+          <h3 className="font-semibold text-slate-900 dark:text-slate-100">投稿枠</h3>
           <button
-            onClick={() => setShowSlotEditor(!showSlotEditor)}
+            onClick={() => setSlotDraft(slotDraft ? null : { rows: rows.length > 0 ? rows : DEFAULT_ROWS, timezone: queue.timezone })}
             className="text-sm text-indigo-600 dark:text-indigo-400 hover:underline"
           >
-            {showSlotEditor ? '閉じる' : '編集'}
+            {slotDraft ? '閉じる' : '編集'}
           </button>
         </div>
-        <div className="flex flex-wrap gap-2 mb-3">
-          {slots.map((slot, i) => (
-            <div key={i} className="flex items-center gap-1.5 px-3 py-1.5 bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300 rounded-lg text-sm font-medium">
-              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
-              {formatSlotTime(slot.hour, slot.minute)}
+
+        {!slotDraft && (
+          rows.length > 0 ? (
+            <div className="flex flex-wrap gap-2">
+              {rows.map(row => (
+                <div key={row.time} className="px-3 py-1.5 bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300 rounded-lg text-sm font-medium">
+                  {describeDays(row.days)} {row.time}
+                </div>
+              ))}
             </div>
-          ))}
-        </div>
-        {bestPostingHours && bestPostingHours.length > 0 && (
-          <p className="text-xs text-slate-500 dark:text-slate-400">
-            * 分析データに基づく最適時間帯を使用中
-          </p>
+          ) : (
+            <p className="text-sm text-slate-500 dark:text-slate-400">投稿枠が設定されていません。「編集」から追加してください。</p>
+          )
         )}
 
-        {showSlotEditor && (
-          <div className="mt-3 pt-3 border-t border-slate-200 dark:border-slate-700 space-y-3">
-            {slots.map((slot, i) => (
-              <div key={i} className="flex items-center gap-2">
-                <span className="text-sm text-slate-500 w-16">スロット {i + 1}</span>
+        {slotDraft && (
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <label className="text-sm text-slate-600 dark:text-slate-400">タイムゾーン</label>
+              <select
+                value={slotDraft.timezone}
+                onChange={(e) => setSlotDraft({ ...slotDraft, timezone: e.target.value })}
+                className="px-3 py-1.5 border border-slate-200 dark:border-slate-600 rounded-lg text-sm bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100"
+              >
+                {timezoneOptions.map(tz => (
+                  <option key={tz} value={tz}>{tz}</option>
+                ))}
+              </select>
+            </div>
+
+            {slotDraft.rows.map((row, i) => (
+              <div key={i} className="flex flex-wrap items-center gap-2">
                 <input
                   type="time"
-                  value={formatSlotTime(slot.hour, slot.minute)}
-                  onChange={(e) => {
-                    const [h, m] = e.target.value.split(':').map(Number);
-                    setSlots(prev => prev.map((s, idx) => idx === i ? { hour: h, minute: m } : s));
-                  }}
+                  value={row.time}
+                  onChange={(e) => updateRow(i, { time: e.target.value })}
                   className="px-3 py-1.5 border border-slate-200 dark:border-slate-600 rounded-lg text-sm bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100"
                 />
-                {slots.length > 1 && (
-                  <button
-                    onClick={() => setSlots(prev => prev.filter((_, idx) => idx !== i))}
-                    className="text-red-500 hover:text-red-700 text-sm"
-                  >
-                    削除
-                  </button>
-                )}
+                <div className="flex gap-1">
+                  {DAY_LABELS.map((label, day) => (
+                    <button
+                      key={day}
+                      onClick={() => toggleDay(i, day)}
+                      className={`w-8 h-8 rounded-lg text-xs font-medium ${
+                        row.days.includes(day)
+                          ? 'bg-indigo-600 text-white'
+                          : 'bg-slate-100 dark:bg-slate-800 text-slate-500 dark:text-slate-400'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                <button
+                  onClick={() => setSlotDraft({ ...slotDraft, rows: slotDraft.rows.filter((_, idx) => idx !== i) })}
+                  className="text-red-500 hover:text-red-700 text-sm"
+                >
+                  削除
+                </button>
               </div>
             ))}
-            {slots.length < 6 && (
+
+            <div className="flex flex-wrap items-center gap-4">
               <button
-                onClick={() => setSlots(prev => [...prev, { hour: 12, minute: 0 }])}
+                onClick={() => setSlotDraft({ ...slotDraft, rows: [...slotDraft.rows, { time: '12:00', days: WEEKDAYS }] })}
                 className="text-sm text-indigo-600 dark:text-indigo-400 hover:underline"
               >
-                + スロット追加
+                + 時刻を追加
               </button>
-            )}
+              {suggestedRows && (
+                <button
+                  onClick={() => setSlotDraft({ ...slotDraft, rows: suggestedRows })}
+                  className="text-sm text-indigo-600 dark:text-indigo-400 hover:underline"
+                >
+                  ベストタイムから設定
+                </button>
+              )}
+            </div>
+
+            <div className="flex justify-end">
+              <button
+                onClick={saveSlots}
+                disabled={busy || slotDraft.rows.some(row => !row.time)}
+                className="px-4 py-2 bg-indigo-600 text-white text-sm rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+              >
+                保存してキューに反映
+              </button>
+            </div>
           </div>
         )}
       </div>
@@ -238,7 +363,7 @@ export function PostQueueManager({ accountId, bestPostingHours, onRefresh }: Pos
           <span className="text-xs text-slate-500 dark:text-slate-400">{newText.length}/500</span>
           <button
             onClick={addToQueue}
-            disabled={!newText.trim() || newText.length > 500}
+            disabled={busy || !newText.trim() || newText.length > 500 || queue.slots.length === 0}
             className="px-4 py-2 bg-indigo-600 text-white text-sm rounded-lg hover:bg-indigo-700 disabled:opacity-50"
           >
             キューに追加
@@ -247,96 +372,96 @@ export function PostQueueManager({ accountId, bestPostingHours, onRefresh }: Pos
       </div>
 
       {/* キュー一覧 */}
-      {queueItems.length > 0 && (
+      {queue.items.length > 0 ? (
         <div className="bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-700 overflow-hidden">
-          <div className="px-5 py-4 border-b border-slate-200 dark:border-slate-700 flex items-center justify-between">
-            <div>
-              <h3 className="font-semibold text-slate-900 dark:text-slate-100">
-                キュー ({pendingCount}件待機 / {scheduledCount}件予約済み)
-              </h3>
-            </div>
-            <div className="flex gap-2">
-              {scheduledCount > 0 && (
-                <button
-                  onClick={clearCompleted}
-                  className="px-3 py-1.5 text-xs text-slate-600 dark:text-slate-300 bg-slate-100 dark:bg-slate-800 rounded-lg hover:bg-slate-200 dark:hover:bg-slate-700"
-                >
-                  完了を削除
-                </button>
-              )}
-              {pendingCount > 0 && (
-                <button
-                  onClick={scheduleAll}
-                  disabled={scheduling}
-                  className="px-4 py-1.5 text-sm bg-violet-600 text-white rounded-lg hover:bg-violet-700 disabled:opacity-50"
-                >
-                  {scheduling ? '予約中...' : `${pendingCount}件を一括予約`}
-                </button>
-              )}
-            </div>
+          <div className="px-5 py-4 border-b border-slate-200 dark:border-slate-700">
+            <h3 className="font-semibold text-slate-900 dark:text-slate-100">キュー ({queue.items.length}件)</h3>
           </div>
 
           <div className="divide-y divide-slate-100 dark:divide-slate-800">
-            {queueItems.map((item, idx) => (
-              <div key={item.id} className="px-5 py-3 flex items-start gap-3">
-                {/* Status dot */}
-                <div className={`mt-1.5 w-2.5 h-2.5 rounded-full flex-shrink-0 ${
-                  item.status === 'queued' ? 'bg-amber-400' :
-                  item.status === 'scheduled' ? 'bg-green-500' :
-                  'bg-red-500'
-                }`} />
-
-                {/* Content */}
-                <div className="flex-1 min-w-0">
-                  <p className="text-sm text-slate-800 dark:text-slate-200 whitespace-pre-wrap line-clamp-3">{item.text}</p>
-                  {item.scheduledAt && (
-                    <p className="text-xs text-green-600 dark:text-green-400 mt-1">
-                      予約済み: {new Date(item.scheduledAt).toLocaleString('ja-JP', {
-                        month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit'
-                      })}
+            {queue.items.map((item, idx) => {
+              const retrying = item.attemptCount > 0 || item.nextAttemptAt !== null;
+              const movable = item.status === 'pending' && !retrying;
+              return (
+                <div key={item.id} className="px-5 py-3 flex items-start gap-3">
+                  <div className={`mt-1.5 w-2.5 h-2.5 rounded-full flex-shrink-0 ${
+                    item.status === 'processing' ? 'bg-blue-500' :
+                    retrying ? 'bg-amber-400' :
+                    queue.paused ? 'bg-slate-400' :
+                    'bg-green-500'
+                  }`} />
+
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-slate-800 dark:text-slate-200 whitespace-pre-wrap line-clamp-3">{item.text}</p>
+                    <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                      {item.status === 'processing' ? '投稿中...' : formatScheduledAt(item.scheduledAt)}
+                      {retrying && item.nextAttemptAt && ` ・ 再試行: ${formatScheduledAt(item.nextAttemptAt)}`}
                     </p>
-                  )}
-                  {item.errorMessage && (
-                    <p className="text-xs text-red-600 dark:text-red-400 mt-1">エラー: {item.errorMessage}</p>
+                    {item.errorMessage && (
+                      <p className="text-xs text-amber-600 dark:text-amber-400 mt-1">{item.errorMessage}</p>
+                    )}
+                  </div>
+
+                  {item.status === 'pending' && (
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      {movable && (
+                        <>
+                          <button
+                            onClick={() => moveItem(item.id, 'up')}
+                            disabled={busy || idx === 0}
+                            className="p-1 text-slate-400 hover:text-slate-600 disabled:opacity-30"
+                            title="上に移動"
+                          >
+                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" /></svg>
+                          </button>
+                          <button
+                            onClick={() => moveItem(item.id, 'down')}
+                            disabled={busy || idx === queue.items.length - 1}
+                            className="p-1 text-slate-400 hover:text-slate-600 disabled:opacity-30"
+                            title="下に移動"
+                          >
+                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" /></svg>
+                          </button>
+                          <button
+                            onClick={() => mutate(`/api/queue/${item.id}`, 'POST', { action: 'share_next' })}
+                            disabled={busy || idx === 0}
+                            className="px-2 py-1 text-xs text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 rounded disabled:opacity-30"
+                          >
+                            次に投稿
+                          </button>
+                        </>
+                      )}
+                      <button
+                        onClick={() => {
+                          if (confirm('この投稿をすぐに投稿しますか？（数分以内に投稿されます）')) {
+                            mutate(`/api/queue/${item.id}`, 'POST', { action: 'share_now' });
+                          }
+                        }}
+                        disabled={busy}
+                        className="px-2 py-1 text-xs text-violet-600 dark:text-violet-400 hover:bg-violet-50 dark:hover:bg-violet-900/30 rounded disabled:opacity-30"
+                      >
+                        今すぐ投稿
+                      </button>
+                      <button
+                        onClick={() => {
+                          if (confirm('この投稿をキューから削除しますか？')) {
+                            mutate(`/api/queue/${item.id}`, 'DELETE', {});
+                          }
+                        }}
+                        disabled={busy}
+                        className="p-1 text-slate-400 hover:text-red-500 disabled:opacity-30"
+                        title="削除"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                      </button>
+                    </div>
                   )}
                 </div>
-
-                {/* Actions */}
-                {item.status === 'queued' && (
-                  <div className="flex items-center gap-1 flex-shrink-0">
-                    <button
-                      onClick={() => moveItem(item.id, 'up')}
-                      disabled={idx === 0 || queueItems[idx - 1]?.status !== 'queued'}
-                      className="p-1 text-slate-400 hover:text-slate-600 disabled:opacity-30"
-                      title="上に移動"
-                    >
-                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" /></svg>
-                    </button>
-                    <button
-                      onClick={() => moveItem(item.id, 'down')}
-                      disabled={idx === queueItems.length - 1 || queueItems[idx + 1]?.status !== 'queued'}
-                      className="p-1 text-slate-400 hover:text-slate-600 disabled:opacity-30"
-                      title="下に移動"
-                    >
-                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" /></svg>
-                    </button>
-                    <button
-                      onClick={() => removeFromQueue(item.id)}
-                      className="p-1 text-slate-400 hover:text-red-500"
-                      title="削除"
-                    >
-                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
-                    </button>
-                  </div>
-                )}
-              </div>
-            ))}
+              );
+            })}
           </div>
         </div>
-      )}
-
-      {/* 空状態 */}
-      {queueItems.length === 0 && (
+      ) : (
         <div className="bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-700 p-8 text-center">
           <p className="text-slate-500 dark:text-slate-400 mb-2">キューに投稿がありません</p>
           <p className="text-xs text-slate-400 dark:text-slate-500">上のフォームから投稿テキストを追加してください</p>
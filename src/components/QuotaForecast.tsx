@@ -0,0 +1,87 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { QuotaForecast as QuotaForecastData } from '@/lib/scheduler/quota';
+
+interface QuotaForecastProps {
+  accountId: string;
+  refreshKey?: number; // 変わるたびに再取得する
+}
+
+// 今後24時間の公開クォータの見込み（予約投稿管理用）
+export function QuotaForecast({ accountId, refreshKey }: QuotaForecastProps) {
+  const [forecast, setForecast] = useState<QuotaForecastData | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/scheduled/quota?accountId=${encodeURIComponent(accountId)}`)
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => {
+        if (!cancelled) setForecast(data?.forecast ?? null);
+      })
+      .catch(() => {
+        if (!cancelled) setForecast(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [accountId, refreshKey]);
+
+  if (!forecast) return null;
+
+  const plannedPosts = forecast.hours.reduce((sum, h) => sum + h.posts, 0);
+  const plannedReplies = forecast.hours.reduce((sum, h) => sum + h.replies, 0);
+  const maxHourly = Math.max(1, ...forecast.hours.map(h => h.posts + h.replies));
+  const overbooked = forecast.deferredPosts > 0 || forecast.deferredReplies > 0;
+
+  return (
+    <div className="bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-700 p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-slate-900 dark:text-white">今後24時間のクォータ見込み</h3>
+        <span className="text-xs text-slate-500">
+          {forecast.quota ? '現在の使用量を含む' : '使用量を取得できませんでした'}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 mb-3 text-sm">
+        <div>
+          <p className="text-xs text-slate-500">投稿</p>
+          <p className="font-medium text-slate-900 dark:text-white">
+            {forecast.quota?.posts.usage ?? 0} 使用済み + {plannedPosts} 予定 / {forecast.postLimit}
+          </p>
+        </div>
+        <div>
+          <p className="text-xs text-slate-500">返信</p>
+          <p className="font-medium text-slate-900 dark:text-white">
+            {forecast.quota?.replies.usage ?? 0} 使用済み + {plannedReplies} 予定 / {forecast.replyLimit}
+          </p>
+        </div>
+      </div>
+
+      {/* 1時間ごとの予定数（上限を超える時間帯は赤） */}
+      <div className="flex items-end gap-0.5 h-12">
+        {forecast.hours.map(hour => {
+          const count = hour.posts + hour.replies;
+          return (
+            <div
+              key={hour.start}
+              className={`flex-1 rounded-sm ${hour.overLimit ? 'bg-red-400' : count > 0 ? 'bg-indigo-400' : 'bg-slate-100 dark:bg-slate-800'}`}
+              style={{ height: `${Math.max(8, (count / maxHourly) * 100)}%` }}
+              title={`${new Date(hour.start).toLocaleString('ja-JP', { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' })}〜 投稿${hour.posts}件・返信${hour.replies}件`}
+            />
+          );
+        })}
+      </div>
+      <div className="flex justify-between text-xs text-slate-400 mt-1">
+        <span>現在</span>
+        <span>24時間後</span>
+      </div>
+
+      {overbooked && (
+        <p className="mt-3 text-xs text-amber-700 dark:text-amber-400">
+          上限を超える見込みです（投稿{forecast.deferredPosts}件・返信{forecast.deferredReplies}件）。超えた分は自動的に延期され、クォータが空き次第投稿されます。
+        </p>
+      )}
+    </div>
+  );
+}
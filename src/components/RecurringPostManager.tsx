@@ -1,6 +1,20 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  DEFAULT_TIMEZONE,
+  TIMEZONES,
+  describeRRule,
+  formatRRule,
+  getNextOccurrence,
+  getUpcomingOccurrences,
+  getWallTime,
+  legacyToRRule,
+  parseRRule,
+  type RecurrenceRule,
+} from '@/lib/scheduler/recurrence';
+import { formatFollowUpDelay, parseStoredFollowUps } from '@/lib/scheduler/follow-ups';
+import { FollowUpEditor, toFollowUpDefinitions, toFollowUpDrafts, type FollowUpDraft } from './FollowUpEditor';
 
 interface RecurringPost {
   id: string;
@@ -9,13 +23,50 @@ interface RecurringPost {
   status: string;
   recurringType: string | null;
   recurringDays: string | null;
+  rrule: string | null;
+  timezone: string | null;
+  exdates: string | null;
+  rotationStrategy: string | null;
+  followUps: string | null;
+  variants?: Array<{
+    id: string;
+    text: string | null;
+    mediaUrls: string | null;
+    usageCount: number;
+  }>;
+  variantPublications?: Array<{
+    id: string;
+    variantId: string;
+    occurrenceAt: string;
+    views: number;
+    likes: number;
+    replies: number;
+    variant: { text: string | null; position: number };
+  }>;
+}
+
+type RotationStrategy = 'sequential' | 'random' | 'weighted';
+
+interface VariantDraft {
+  id?: string;
+  text: string;
+  mediaUrls: string;  // 1行に1URL
+  usageCount?: number;
 }
 
 interface LocalRecurringPost {
   id: string;
   name: string;
   text: string;
-  frequency: 'daily' | 'weekly' | 'monthly';
+  rrule?: string;
+  timezone?: string;
+  exdates?: string[];
+  rotationStrategy?: RotationStrategy | null;
+  variants?: VariantDraft[];
+  followUps?: FollowUpDraft[];
+  publications?: RecurringPost['variantPublications'];
+  // 旧形式（RRULE対応前にブラウザに保存されたデータ）
+  frequency?: 'daily' | 'weekly' | 'monthly';
   dayOfWeek?: number;
   dayOfMonth?: number;
   time: string;
@@ -26,26 +77,63 @@ interface LocalRecurringPost {
 }
 
 interface RecurringPostManagerProps {
-  accessToken: string;
   accountId?: string;
   onRefresh?: () => void;
 }
 
+type Frequency = 'daily' | 'weekly' | 'monthly' | 'custom';
+
 const DAYS_OF_WEEK = ['日', '月', '火', '水', '木', '金', '土'];
+const WEEK_ORDINALS = [
+  { value: 1, label: '第1' },
+  { value: 2, label: '第2' },
+  { value: 3, label: '第3' },
+  { value: 4, label: '第4' },
+  { value: -1, label: '最終' },
+];
+const PREVIEW_COUNT = 5;
+const ROTATION_LABELS: Record<RotationStrategy, string> = {
+  sequential: '順番',
+  random: 'ランダム（一巡するまで重複なし）',
+  weighted: 'エンゲージメント重み付け',
+};
+
+function padTime(n: number): string {
+  return n.toString().padStart(2, '0');
+}
+
+function parseJsonArray<T>(value: string | null): T[] {
+  if (!value) return [];
+  try {
+    return JSON.parse(value) as T[];
+  } catch {
+    return [];
+  }
+}
 
 // API形式からローカル形式への変換
 function apiToLocal(post: RecurringPost): LocalRecurringPost {
-  const days = post.recurringDays ? JSON.parse(post.recurringDays) : [];
-  const scheduledDate = new Date(post.scheduledAt);
-  const time = `${scheduledDate.getHours().toString().padStart(2, '0')}:${scheduledDate.getMinutes().toString().padStart(2, '0')}`;
+  const timezone = post.timezone || DEFAULT_TIMEZONE;
+  const wall = getWallTime(new Date(post.scheduledAt), timezone);
+  const time = `${padTime(wall.hour)}:${padTime(wall.minute)}`;
+  const days = parseJsonArray<number>(post.recurringDays);
 
   return {
     id: post.id,
     name: post.text?.slice(0, 20) || '定期投稿',
     text: post.text || '',
-    frequency: (post.recurringType as 'daily' | 'weekly' | 'monthly') || 'weekly',
-    dayOfWeek: post.recurringType === 'weekly' ? days[0] : undefined,
-    dayOfMonth: post.recurringType === 'monthly' ? days[0] : undefined,
+    rrule: post.rrule || legacyToRRule(post.recurringType, days) || 'FREQ=WEEKLY',
+    timezone,
+    exdates: parseJsonArray<string>(post.exdates),
+    rotationStrategy: (post.rotationStrategy as RotationStrategy | null) || null,
+    variants: (post.variants || []).map(v => ({
+      id: v.id,
+      text: v.text || '',
+      mediaUrls: parseJsonArray<string>(v.mediaUrls).join('\n'),
+      usageCount: v.usageCount,
+    })),
+    followUps: toFollowUpDrafts(parseStoredFollowUps(post.followUps)),
+    publications: post.variantPublications || [],
     time,
     isActive: post.status === 'pending',
     nextScheduled: post.scheduledAt,
@@ -53,7 +141,42 @@ function apiToLocal(post: RecurringPost): LocalRecurringPost {
   };
 }
 
-export function RecurringPostManager({ accessToken, accountId, onRefresh }: RecurringPostManagerProps) {
+// ローカル保存データの繰り返しルール（旧形式はRRULEに変換）
+function getLocalRule(post: LocalRecurringPost): string {
+  if (post.rrule) return post.rrule;
+
+  const days = post.frequency === 'weekly'
+    ? [post.dayOfWeek || 0]
+    : post.frequency === 'monthly'
+      ? [post.dayOfMonth || 1]
+      : [];
+  const [hours, minutes] = post.time.split(':').map(Number);
+  return `${legacyToRRule(post.frequency || 'weekly', days)};BYHOUR=${hours};BYMINUTE=${minutes}`;
+}
+
+// 次の投稿日時を計算
+function calculateNextScheduled(rrule: string, timezone: string, exdates: string[]): Date | null {
+  const now = new Date();
+  try {
+    return getNextOccurrence({ rrule, timezone, exdates, dtstart: now }, now);
+  } catch {
+    return null;
+  }
+}
+
+function formatInTimezone(date: Date, timezone: string): string {
+  return date.toLocaleString('ja-JP', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export function RecurringPostManager({ accountId, onRefresh }: RecurringPostManagerProps) {
   const [posts, setPosts] = useState<LocalRecurringPost[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -65,38 +188,88 @@ export function RecurringPostManager({ accessToken, accountId, onRefresh }: Recu
   // フォーム状態
   const [name, setName] = useState('');
   const [text, setText] = useState('');
-  const [frequency, setFrequency] = useState<'daily' | 'weekly' | 'monthly'>('weekly');
-  const [dayOfWeek, setDayOfWeek] = useState(1);
+  const [frequency, setFrequency] = useState<Frequency>('weekly');
+  const [repeatInterval, setRepeatInterval] = useState(1);
+  const [weekdays, setWeekdays] = useState<number[]>([1]);
+  const [monthlyMode, setMonthlyMode] = useState<'day' | 'weekday'>('day');
   const [dayOfMonth, setDayOfMonth] = useState(1);
+  const [weekOrdinal, setWeekOrdinal] = useState(1);
+  const [dayOfWeek, setDayOfWeek] = useState(1);
   const [time, setTime] = useState('09:00');
+  const [timezone, setTimezone] = useState(DEFAULT_TIMEZONE);
+  const [endType, setEndType] = useState<'never' | 'until' | 'count'>('never');
+  const [untilDate, setUntilDate] = useState('');
+  const [count, setCount] = useState(10);
+  const [exdates, setExdates] = useState<string[]>([]);
+  const [newExdate, setNewExdate] = useState('');
+  const [customRule, setCustomRule] = useState('');
+  const [rotationStrategy, setRotationStrategy] = useState<RotationStrategy | ''>('');
+  const [variants, setVariants] = useState<VariantDraft[]>([]);
+  // フォローアップ返信（毎回の投稿の公開後に送る）
+  const [followUps, setFollowUps] = useState<FollowUpDraft[]>([]);
 
-  // 次の投稿日時を計算（マイグレーション用）
-  const calculateNextScheduledForMigration = useCallback((post: LocalRecurringPost): Date => {
-    const now = new Date();
-    const [hours, minutes] = post.time.split(':').map(Number);
-    const next = new Date();
-    next.setHours(hours, minutes, 0, 0);
+  // 選択肢にブラウザのタイムゾーンを追加
+  const timezoneOptions = useMemo(() => {
+    const browserTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    return browserTimezone && !TIMEZONES.includes(browserTimezone)
+      ? [browserTimezone, ...TIMEZONES]
+      : TIMEZONES;
+  }, []);
 
-    if (post.frequency === 'daily') {
-      if (next <= now) {
-        next.setDate(next.getDate() + 1);
-      }
-    } else if (post.frequency === 'weekly') {
-      const currentDay = now.getDay();
-      const targetDay = post.dayOfWeek || 0;
-      let daysUntil = targetDay - currentDay;
-      if (daysUntil < 0 || (daysUntil === 0 && next <= now)) {
-        daysUntil += 7;
-      }
-      next.setDate(next.getDate() + daysUntil);
-    } else if (post.frequency === 'monthly') {
-      next.setDate(post.dayOfMonth || 1);
-      if (next <= now) {
-        next.setMonth(next.getMonth() + 1);
+  // フォームの入力からRRULEを組み立てる
+  const buildRule = useCallback((): string => {
+    if (frequency === 'custom') {
+      return customRule.trim().replace(/^RRULE:/i, '');
+    }
+
+    const [hours, minutes] = time.split(':').map(Number);
+    const rule: RecurrenceRule = {
+      freq: frequency === 'daily' ? 'DAILY' : frequency === 'weekly' ? 'WEEKLY' : 'MONTHLY',
+      interval: Math.max(1, repeatInterval),
+      byHour: [hours],
+      byMinute: [minutes],
+    };
+
+    if (frequency === 'weekly') {
+      rule.byDay = [...weekdays].sort((a, b) => a - b).map(weekday => ({ weekday }));
+    } else if (frequency === 'monthly') {
+      if (monthlyMode === 'day') {
+        rule.byMonthDay = [dayOfMonth];
+      } else {
+        rule.byDay = [{ weekday: dayOfWeek, ordinal: weekOrdinal }];
       }
     }
-    return next;
-  }, []);
+
+    if (endType === 'until' && untilDate) {
+      rule.until = { type: 'date', value: untilDate };
+    } else if (endType === 'count') {
+      rule.count = Math.max(1, count);
+    }
+
+    return formatRRule(rule);
+  }, [frequency, customRule, time, repeatInterval, weekdays, monthlyMode, dayOfMonth, dayOfWeek, weekOrdinal, endType, untilDate, count]);
+
+  // 次回以降の投稿日時プレビュー
+  const preview = useMemo((): { occurrences: Date[]; error: string | null } => {
+    const rrule = buildRule();
+    if (!rrule) {
+      return { occurrences: [], error: 'RRULEを入力してください' };
+    }
+    if (frequency === 'weekly' && weekdays.length === 0) {
+      return { occurrences: [], error: '曜日を1つ以上選択してください' };
+    }
+
+    try {
+      const now = new Date();
+      const occurrences = getUpcomingOccurrences({ rrule, timezone, exdates, dtstart: now }, now, PREVIEW_COUNT);
+      return {
+        occurrences,
+        error: occurrences.length === 0 ? 'このルールでは今後の投稿日時がありません' : null,
+      };
+    } catch (e) {
+      return { occurrences: [], error: e instanceof Error ? e.message : 'ルールが不正です' };
+    }
+  }, [buildRule, frequency, weekdays, timezone, exdates]);
 
   // ローカルの定期投稿をAPIにマイグレーション
   const migrateLocalPostsToApi = useCallback(async (localPosts: LocalRecurringPost[]) => {
@@ -106,22 +279,15 @@ export function RecurringPostManager({ accessToken, accountId, onRefresh }: Recu
       if (!post.isActive) continue;
 
       try {
-        const nextScheduled = calculateNextScheduledForMigration(post);
-        const recurringDays = post.frequency === 'weekly'
-          ? [post.dayOfWeek]
-          : post.frequency === 'monthly'
-            ? [post.dayOfMonth]
-            : [];
-
         await fetch('/api/recurring', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
             accountId,
             text: post.text,
-            recurringType: post.frequency,
-            recurringDays,
-            scheduledAt: nextScheduled.toISOString(),
+            rrule: getLocalRule(post),
+            timezone: post.timezone || DEFAULT_TIMEZONE,
+            exdates: post.exdates || [],
           }),
         });
       } catch (e) {
@@ -130,7 +296,7 @@ export function RecurringPostManager({ accessToken, accountId, onRefresh }: Recu
     }
     // マイグレーション完了後、ローカルストレージをクリア
     localStorage.removeItem('recurring_posts');
-  }, [accountId, calculateNextScheduledForMigration]);
+  }, [accountId]);
 
   // データ取得
   const fetchPosts = useCallback(async () => {
@@ -200,54 +366,47 @@ export function RecurringPostManager({ accessToken, accountId, onRefresh }: Recu
     localStorage.setItem('recurring_posts', JSON.stringify(newPosts));
   };
 
-  // 次の投稿日時を計算
-  const calculateNextScheduled = (post: { frequency: string; dayOfWeek?: number; dayOfMonth?: number; time: string }): Date => {
-    const now = new Date();
-    const [hours, minutes] = post.time.split(':').map(Number);
-    const next = new Date();
-    next.setHours(hours, minutes, 0, 0);
+  // バリエーションの編集
+  const updateVariant = (index: number, changes: Partial<VariantDraft>) => {
+    setVariants(variants.map((v, i) => (i === index ? { ...v, ...changes } : v)));
+  };
 
-    if (post.frequency === 'daily') {
-      if (next <= now) {
-        next.setDate(next.getDate() + 1);
-      }
-    } else if (post.frequency === 'weekly') {
-      const currentDay = now.getDay();
-      const targetDay = post.dayOfWeek || 0;
-      let daysUntil = targetDay - currentDay;
-      if (daysUntil < 0 || (daysUntil === 0 && next <= now)) {
-        daysUntil += 7;
-      }
-      next.setDate(next.getDate() + daysUntil);
-    } else if (post.frequency === 'monthly') {
-      next.setDate(post.dayOfMonth || 1);
-      if (next <= now) {
-        next.setMonth(next.getMonth() + 1);
-      }
-    }
+  const toVariantPayload = (variant: VariantDraft) => ({
+    ...(variant.id && { id: variant.id }),
+    text: variant.text,
+    mediaUrls: variant.mediaUrls.split('\n').map(url => url.trim()).filter(Boolean),
+  });
 
-    return next;
-  };
+  const canSave = !!name.trim() && (rotationStrategy
+    ? variants.length > 0 && variants.every(v => v.text.trim() || v.mediaUrls.trim())
+    : !!text.trim());
 
   // 保存
   const handleSave = async () => {
-    if (!name.trim() || !text.trim()) return;
+    if (!canSave) return;
+    if (preview.error) {
+      setError(preview.error);
+      return;
+    }
 
     setSaving(true);
     setError(null);
 
-    const nextScheduled = calculateNextScheduled({ frequency, dayOfWeek, dayOfMonth, time });
-    const recurringDays = frequency === 'weekly' ? [dayOfWeek] : frequency === 'monthly' ? [dayOfMonth] : [];
+    const rrule = buildRule();
+    const nextScheduled = preview.occurrences[0];
 
     // APIに保存を試みる
     if (useApi && accountId) {
       try {
         const body = {
           accountId,
-          text,
-          recurringType: frequency,
-          recurringDays,
-          scheduledAt: nextScheduled.toISOString(),
+          text: rotationStrategy ? variants[0]?.text || text : text,
+          rrule,
+          timezone,
+          exdates,
+          rotationStrategy: rotationStrategy || null,
+          variants: rotationStrategy ? variants.map(toVariantPayload) : [],
+          followUps: toFollowUpDefinitions(followUps),
         };
 
         let response;
@@ -286,9 +445,9 @@ export function RecurringPostManager({ accessToken, accountId, onRefresh }: Recu
       id: editingPost?.id || `recurring-${Date.now()}`,
       name,
       text,
-      frequency,
-      dayOfWeek: frequency === 'weekly' ? dayOfWeek : undefined,
-      dayOfMonth: frequency === 'monthly' ? dayOfMonth : undefined,
+      rrule,
+      timezone,
+      exdates,
       time,
       isActive: true,
       nextScheduled: nextScheduled.toISOString(),
@@ -355,7 +514,8 @@ export function RecurringPostManager({ accessToken, accountId, onRefresh }: Recu
         const isActive = !p.isActive;
         let nextScheduled = p.nextScheduled;
         if (isActive) {
-          nextScheduled = calculateNextScheduled(p).toISOString();
+          const next = calculateNextScheduled(getLocalRule(p), p.timezone || DEFAULT_TIMEZONE, p.exdates || []);
+          nextScheduled = next?.toISOString();
         }
         return { ...p, isActive, nextScheduled };
       }
@@ -368,33 +528,111 @@ export function RecurringPostManager({ accessToken, accountId, onRefresh }: Recu
     setName('');
     setText('');
     setFrequency('weekly');
-    setDayOfWeek(1);
+    setRepeatInterval(1);
+    setWeekdays([1]);
+    setMonthlyMode('day');
     setDayOfMonth(1);
+    setWeekOrdinal(1);
+    setDayOfWeek(1);
     setTime('09:00');
+    setTimezone(DEFAULT_TIMEZONE);
+    setEndType('never');
+    setUntilDate('');
+    setCount(10);
+    setExdates([]);
+    setNewExdate('');
+    setCustomRule('');
+    setRotationStrategy('');
+    setVariants([]);
+    setFollowUps([]);
     setEditingPost(null);
   };
 
+  // RRULEをフォームの入力に展開（フォームで表現できないルールはRRULE直接入力にする）
+  const applyRuleToForm = (rrule: string, fallbackTime: string) => {
+    setCustomRule(rrule);
+    setTime(fallbackTime);
+
+    let rule: RecurrenceRule;
+    try {
+      rule = parseRRule(rrule);
+    } catch {
+      setFrequency('custom');
+      return;
+    }
+
+    const simpleTime = (rule.byHour?.length ?? 1) === 1 && (rule.byMinute?.length ?? 1) === 1;
+    const byDay = rule.byDay ?? [];
+    const isWeekly = rule.freq === 'WEEKLY' && !rule.byMonthDay && byDay.every(d => d.ordinal === undefined);
+    const isMonthly = rule.freq === 'MONTHLY' && (
+      (rule.byMonthDay?.length === 1 && !rule.byDay)
+      || (!rule.byMonthDay && byDay.length === 1 && byDay[0].ordinal !== undefined)
+    );
+    const isDaily = rule.freq === 'DAILY' && !rule.byDay && !rule.byMonthDay;
+
+    if (!simpleTime || rule.byMonth || !(isDaily || isWeekly || isMonthly)) {
+      setFrequency('custom');
+      return;
+    }
+
+    setFrequency(isDaily ? 'daily' : isWeekly ? 'weekly' : 'monthly');
+    setRepeatInterval(rule.interval);
+    if (rule.byHour) {
+      setTime(`${padTime(rule.byHour[0])}:${padTime(rule.byMinute?.[0] ?? 0)}`);
+    }
+    if (isWeekly && byDay.length > 0) {
+      setWeekdays(byDay.map(d => d.weekday));
+    }
+    if (isMonthly) {
+      if (rule.byMonthDay) {
+        setMonthlyMode('day');
+        setDayOfMonth(rule.byMonthDay[0]);
+      } else {
+        setMonthlyMode('weekday');
+        setDayOfWeek(byDay[0].weekday);
+        setWeekOrdinal(byDay[0].ordinal ?? 1);
+      }
+    }
+    if (rule.until) {
+      setEndType('until');
+      setUntilDate(rule.until.type === 'date' ? rule.until.value : rule.until.value.toISOString().slice(0, 10));
+    } else if (rule.count !== undefined) {
+      setEndType('count');
+      setCount(rule.count);
+    }
+  };
+
   // 編集開始
   const startEdit = (post: LocalRecurringPost) => {
+    resetForm();
     setEditingPost(post);
     setName(post.name);
     setText(post.text);
-    setFrequency(post.frequency);
-    setDayOfWeek(post.dayOfWeek || 1);
-    setDayOfMonth(post.dayOfMonth || 1);
-    setTime(post.time);
+    setTimezone(post.timezone || DEFAULT_TIMEZONE);
+    setExdates(post.exdates || []);
+    setRotationStrategy(post.rotationStrategy || '');
+    setVariants(post.variants || []);
+    setFollowUps(post.followUps || []);
+    applyRuleToForm(getLocalRule(post), post.time);
     setShowEditor(true);
   };
 
+  // 除外日の追加・削除
+  const addExdate = () => {
+    if (!newExdate || exdates.includes(newExdate)) return;
+    setExdates([...exdates, newExdate].sort());
+    setNewExdate('');
+  };
+
+  const toggleWeekday = (day: number) => {
+    setWeekdays(weekdays.includes(day) ? weekdays.filter(d => d !== day) : [...weekdays, day]);
+  };
+
   // 頻度のラベル
   const getFrequencyLabel = (post: LocalRecurringPost) => {
-    if (post.frequency === 'daily') {
-      return `毎日 ${post.time}`;
-    } else if (post.frequency === 'weekly') {
-      return `毎週${DAYS_OF_WEEK[post.dayOfWeek || 0]}曜日 ${post.time}`;
-    } else {
-      return `毎月${post.dayOfMonth}日 ${post.time}`;
-    }
+    const label = describeRRule(getLocalRule(post), post.time);
+    const postTimezone = post.timezone || DEFAULT_TIMEZONE;
+    return postTimezone === DEFAULT_TIMEZONE ? label : `${label}（${postTimezone}）`;
   };
 
   return (
@@ -405,7 +643,7 @@ export function RecurringPostManager({ accessToken, accountId, onRefresh }: Recu
           <div>
             <h2 className="text-lg font-bold text-slate-900 dark:text-white">定期投稿</h2>
             <p className="text-sm text-slate-500 mt-1">
-              毎日・毎週・毎月の自動投稿を設定できます
+              毎日・毎週・毎月・第n曜日などの自動投稿をタイムゾーン指定で設定できます
             </p>
           </div>
           <div className="flex items-center gap-2">
@@ -466,71 +704,357 @@ export function RecurringPostManager({ accessToken, accountId, onRefresh }: Recu
               />
             </div>
 
-            <div>
-              <label className="block text-sm text-slate-600 dark:text-slate-400 mb-1">投稿内容</label>
-              <textarea
-                value={text}
-                onChange={(e) => setText(e.target.value)}
-                placeholder="投稿テキストを入力..."
-                className="w-full px-3 py-2 border border-slate-200 dark:border-slate-700 rounded-lg dark:bg-slate-800 h-24 resize-none"
-                maxLength={500}
-              />
-              <p className="text-xs text-slate-400 mt-1 text-right">{text.length}/500</p>
-            </div>
+            {useApi && (
+              <div>
+                <label className="block text-sm text-slate-600 dark:text-slate-400 mb-1">コンテンツローテーション</label>
+                <select
+                  value={rotationStrategy}
+                  onChange={(e) => {
+                    const strategy = e.target.value as RotationStrategy | '';
+                    setRotationStrategy(strategy);
+                    // 初回は現在の投稿内容を最初のバリエーションにする
+                    if (strategy && variants.length === 0) {
+                      setVariants([{ text, mediaUrls: '' }]);
+                    }
+                  }}
+                  className="w-full px-3 py-2 border border-slate-200 dark:border-slate-700 rounded-lg text-slate-900 placeholder-slate-400 dark:bg-slate-800 dark:text-white"
+                >
+                  <option value="">使わない（毎回同じ内容を投稿）</option>
+                  {(Object.keys(ROTATION_LABELS) as RotationStrategy[]).map(strategy => (
+                    <option key={strategy} value={strategy}>{ROTATION_LABELS[strategy]}</option>
+                  ))}
+                </select>
+                {rotationStrategy === 'weighted' && (
+                  <p className="text-xs text-slate-500 mt-1">
+                    過去の投稿のエンゲージメント率が高いバリエーションほど選ばれやすくなります
+                  </p>
+                )}
+              </div>
+            )}
+
+            {rotationStrategy ? (
+              <div className="space-y-3">
+                {variants.map((variant, index) => (
+                  <div key={variant.id || index} className="p-3 border border-slate-200 dark:border-slate-700 rounded-lg">
+                    <div className="flex items-center justify-between mb-2">
+                      <span className="text-sm font-medium text-slate-700 dark:text-slate-300">
+                        バリエーション {index + 1}
+                        {variant.usageCount !== undefined && variant.usageCount > 0 && (
+                          <span className="ml-2 text-xs text-slate-400">{variant.usageCount}回投稿</span>
+                        )}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => setVariants(variants.filter((_, i) => i !== index))}
+                        className="text-xs text-slate-400 hover:text-red-500"
+                      >
+                        削除
+                      </button>
+                    </div>
+                    <textarea
+                      value={variant.text}
+                      onChange={(e) => updateVariant(index, { text: e.target.value })}
+                      placeholder="投稿テキストを入力..."
+                      className="w-full px-3 py-2 border border-slate-200 dark:border-slate-700 rounded-lg dark:bg-slate-800 h-20 resize-none"
+                      maxLength={500}
+                    />
+                    <textarea
+                      value={variant.mediaUrls}
+                      onChange={(e) => updateVariant(index, { mediaUrls: e.target.value })}
+                      placeholder="画像・動画のURL（1行に1つ、任意）"
+                      className="w-full mt-2 px-3 py-2 border border-slate-200 dark:border-slate-700 rounded-lg dark:bg-slate-800 h-14 resize-none text-sm font-mono"
+                    />
+                    <p className="text-xs text-slate-400 text-right">{variant.text.length}/500</p>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => setVariants([...variants, { text: '', mediaUrls: '' }])}
+                  className="w-full py-2 text-sm text-indigo-600 border border-dashed border-indigo-300 rounded-lg hover:bg-indigo-50 dark:hover:bg-indigo-900/20"
+                >
+                  + バリエーションを追加
+                </button>
+              </div>
+            ) : (
+              <div>
+                <label className="block text-sm text-slate-600 dark:text-slate-400 mb-1">投稿内容</label>
+                <textarea
+                  value={text}
+                  onChange={(e) => setText(e.target.value)}
+                  placeholder="投稿テキストを入力..."
+                  className="w-full px-3 py-2 border border-slate-200 dark:border-slate-700 rounded-lg dark:bg-slate-800 h-24 resize-none"
+                  maxLength={500}
+                />
+                <p className="text-xs text-slate-400 mt-1 text-right">{text.length}/500</p>
+              </div>
+            )}
 
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <div>
                 <label className="block text-sm text-slate-600 dark:text-slate-400 mb-1">頻度</label>
                 <select
                   value={frequency}
-                  onChange={(e) => setFrequency(e.target.value as 'daily' | 'weekly' | 'monthly')}
+                  onChange={(e) => setFrequency(e.target.value as Frequency)}
                   className="w-full px-3 py-2 border border-slate-200 dark:border-slate-700 rounded-lg text-slate-900 placeholder-slate-400 dark:bg-slate-800 dark:text-white"
                 >
                   <option value="daily">毎日</option>
                   <option value="weekly">毎週</option>
                   <option value="monthly">毎月</option>
+                  <option value="custom">カスタム（RRULE）</option>
                 </select>
               </div>
 
-              {frequency === 'weekly' && (
+              {frequency !== 'custom' && (
+                <div>
+                  <label className="block text-sm text-slate-600 dark:text-slate-400 mb-1">間隔</label>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="number"
+                      min={1}
+                      max={99}
+                      value={repeatInterval}
+                      onChange={(e) => setRepeatInterval(Math.max(1, Number(e.target.value) || 1))}
+                      className="w-20 px-3 py-2 border border-slate-200 dark:border-slate-700 rounded-lg text-slate-900 dark:bg-slate-800 dark:text-white"
+                    />
+                    <span className="text-sm text-slate-600 dark:text-slate-400">
+                      {frequency === 'daily' ? '日' : frequency === 'weekly' ? '週間' : 'か月'}ごと
+                    </span>
+                  </div>
+                </div>
+              )}
+
+              {frequency !== 'custom' && (
+                <div>
+                  <label className="block text-sm text-slate-600 dark:text-slate-400 mb-1">時間</label>
+                  <input
+                    type="time"
+                    value={time}
+                    onChange={(e) => setTime(e.target.value)}
+                    className="w-full px-3 py-2 border border-slate-200 dark:border-slate-700 rounded-lg text-slate-900 placeholder-slate-400 dark:bg-slate-800 dark:text-white"
+                  />
+                </div>
+              )}
+
+              {frequency === 'custom' && (
+                <div className="md:col-span-2">
+                  <label className="block text-sm text-slate-600 dark:text-slate-400 mb-1">RRULE</label>
+                  <input
+                    type="text"
+                    value={customRule}
+                    onChange={(e) => setCustomRule(e.target.value)}
+                    placeholder="例: FREQ=MONTHLY;BYDAY=2TU;BYHOUR=9;BYMINUTE=0"
+                    className="w-full px-3 py-2 border border-slate-200 dark:border-slate-700 rounded-lg text-slate-900 placeholder-slate-400 dark:bg-slate-800 dark:text-white font-mono text-sm"
+                  />
+                </div>
+              )}
+            </div>
+
+            {frequency === 'weekly' && (
+              <div>
+                <label className="block text-sm text-slate-600 dark:text-slate-400 mb-1">曜日</label>
+                <div className="flex flex-wrap gap-2">
+                  {DAYS_OF_WEEK.map((day, i) => (
+                    <button
+                      key={i}
+                      type="button"
+                      onClick={() => toggleWeekday(i)}
+                      className={`w-10 h-10 rounded-lg text-sm font-medium ${
+                        weekdays.includes(i)
+                          ? 'bg-indigo-600 text-white'
+                          : 'bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-400 hover:bg-slate-200'
+                      }`}
+                    >
+                      {day}
+                    </button>
+                  ))}
+                  <button
+                    type="button"
+                    onClick={() => setWeekdays([1, 2, 3, 4, 5])}
+                    className="px-3 h-10 rounded-lg text-sm text-indigo-600 hover:bg-indigo-50 dark:hover:bg-indigo-900/20"
+                  >
+                    平日
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {frequency === 'monthly' && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                 <div>
-                  <label className="block text-sm text-slate-600 dark:text-slate-400 mb-1">曜日</label>
+                  <label className="block text-sm text-slate-600 dark:text-slate-400 mb-1">指定方法</label>
                   <select
-                    value={dayOfWeek}
-                    onChange={(e) => setDayOfWeek(Number(e.target.value))}
+                    value={monthlyMode}
+                    onChange={(e) => setMonthlyMode(e.target.value as 'day' | 'weekday')}
                     className="w-full px-3 py-2 border border-slate-200 dark:border-slate-700 rounded-lg text-slate-900 placeholder-slate-400 dark:bg-slate-800 dark:text-white"
                   >
-                    {DAYS_OF_WEEK.map((day, i) => (
-                      <option key={i} value={i}>{day}曜日</option>
-                    ))}
+                    <option value="day">日付</option>
+                    <option value="weekday">第n曜日</option>
                   </select>
                 </div>
-              )}
 
-              {frequency === 'monthly' && (
+                {monthlyMode === 'day' ? (
+                  <div>
+                    <label className="block text-sm text-slate-600 dark:text-slate-400 mb-1">日付</label>
+                    <select
+                      value={dayOfMonth}
+                      onChange={(e) => setDayOfMonth(Number(e.target.value))}
+                      className="w-full px-3 py-2 border border-slate-200 dark:border-slate-700 rounded-lg text-slate-900 placeholder-slate-400 dark:bg-slate-800 dark:text-white"
+                    >
+                      {Array.from({ length: 31 }, (_, i) => i + 1).map(day => (
+                        <option key={day} value={day}>{day}日</option>
+                      ))}
+                      <option value={-1}>月末</option>
+                    </select>
+                    {dayOfMonth > 28 && (
+                      <p className="text-xs text-amber-600 mt-1">{dayOfMonth}日がない月はスキップされます</p>
+                    )}
+                  </div>
+                ) : (
+                  <div className="flex gap-2">
+                    <div className="flex-1">
+                      <label className="block text-sm text-slate-600 dark:text-slate-400 mb-1">週</label>
+                      <select
+                        value={weekOrdinal}
+                        onChange={(e) => setWeekOrdinal(Number(e.target.value))}
+                        className="w-full px-3 py-2 border border-slate-200 dark:border-slate-700 rounded-lg text-slate-900 placeholder-slate-400 dark:bg-slate-800 dark:text-white"
+                      >
+                        {WEEK_ORDINALS.map(o => (
+                          <option key={o.value} value={o.value}>{o.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="flex-1">
+                      <label className="block text-sm text-slate-600 dark:text-slate-400 mb-1">曜日</label>
+                      <select
+                        value={dayOfWeek}
+                        onChange={(e) => setDayOfWeek(Number(e.target.value))}
+                        className="w-full px-3 py-2 border border-slate-200 dark:border-slate-700 rounded-lg text-slate-900 placeholder-slate-400 dark:bg-slate-800 dark:text-white"
+                      >
+                        {DAYS_OF_WEEK.map((day, i) => (
+                          <option key={i} value={i}>{day}曜日</option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm text-slate-600 dark:text-slate-400 mb-1">タイムゾーン</label>
+                <select
+                  value={timezone}
+                  onChange={(e) => setTimezone(e.target.value)}
+                  className="w-full px-3 py-2 border border-slate-200 dark:border-slate-700 rounded-lg text-slate-900 placeholder-slate-400 dark:bg-slate-800 dark:text-white"
+                >
+                  {timezoneOptions.map(tz => (
+                    <option key={tz} value={tz}>{tz}</option>
+                  ))}
+                </select>
+              </div>
+
+              {frequency !== 'custom' && (
                 <div>
-                  <label className="block text-sm text-slate-600 dark:text-slate-400 mb-1">日付</label>
+                  <label className="block text-sm text-slate-600 dark:text-slate-400 mb-1">終了</label>
                   <select
-                    value={dayOfMonth}
-                    onChange={(e) => setDayOfMonth(Number(e.target.value))}
+                    value={endType}
+                    onChange={(e) => setEndType(e.target.value as 'never' | 'until' | 'count')}
                     className="w-full px-3 py-2 border border-slate-200 dark:border-slate-700 rounded-lg text-slate-900 placeholder-slate-400 dark:bg-slate-800 dark:text-white"
                   >
-                    {Array.from({ length: 31 }, (_, i) => i + 1).map(day => (
-                      <option key={day} value={day}>{day}日</option>
-                    ))}
+                    <option value="never">終了しない</option>
+                    <option value="until">終了日を指定</option>
+                    <option value="count">回数を指定</option>
                   </select>
                 </div>
               )}
 
-              <div>
-                <label className="block text-sm text-slate-600 dark:text-slate-400 mb-1">時間</label>
+              {frequency !== 'custom' && endType === 'until' && (
+                <div>
+                  <label className="block text-sm text-slate-600 dark:text-slate-400 mb-1">終了日</label>
+                  <input
+                    type="date"
+                    value={untilDate}
+                    onChange={(e) => setUntilDate(e.target.value)}
+                    className="w-full px-3 py-2 border border-slate-200 dark:border-slate-700 rounded-lg text-slate-900 dark:bg-slate-800 dark:text-white"
+                  />
+                </div>
+              )}
+
+              {frequency !== 'custom' && endType === 'count' && (
+                <div>
+                  <label className="block text-sm text-slate-600 dark:text-slate-400 mb-1">回数</label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={count}
+                    onChange={(e) => setCount(Math.max(1, Number(e.target.value) || 1))}
+                    className="w-full px-3 py-2 border border-slate-200 dark:border-slate-700 rounded-lg text-slate-900 dark:bg-slate-800 dark:text-white"
+                  />
+                </div>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm text-slate-600 dark:text-slate-400 mb-1">除外日</label>
+              <div className="flex items-center gap-2">
                 <input
-                  type="time"
-                  value={time}
-                  onChange={(e) => setTime(e.target.value)}
-                  className="w-full px-3 py-2 border border-slate-200 dark:border-slate-700 rounded-lg text-slate-900 placeholder-slate-400 dark:bg-slate-800 dark:text-white"
+                  type="date"
+                  value={newExdate}
+                  onChange={(e) => setNewExdate(e.target.value)}
+                  className="px-3 py-2 border border-slate-200 dark:border-slate-700 rounded-lg text-slate-900 dark:bg-slate-800 dark:text-white"
                 />
+                <button
+                  type="button"
+                  onClick={addExdate}
+                  disabled={!newExdate}
+                  className="px-3 py-2 text-sm bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-200 disabled:opacity-50"
+                >
+                  追加
+                </button>
               </div>
+              {exdates.length > 0 && (
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {exdates.map(date => (
+                    <span
+                      key={date}
+                      className="inline-flex items-center gap-1 px-2 py-1 text-xs bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-400 rounded"
+                    >
+                      {date}
+                      <button
+                        type="button"
+                        onClick={() => setExdates(exdates.filter(d => d !== date))}
+                        className="text-slate-400 hover:text-red-500"
+                      >
+                        ×
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* フォローアップ返信（予約はサーバーで行うため、API保存時のみ） */}
+            {useApi && accountId && (
+              <FollowUpEditor value={followUps} onChange={setFollowUps} />
+            )}
+
+            {/* 次回以降の投稿日時プレビュー */}
+            <div className="p-3 bg-slate-50 dark:bg-slate-800 rounded-lg">
+              <p className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                今後の投稿予定（{timezone}）
+              </p>
+              {preview.error ? (
+                <p className="text-sm text-red-600">{preview.error}</p>
+              ) : (
+                <ul className="space-y-1">
+                  {preview.occurrences.map(date => (
+                    <li key={date.toISOString()} className="text-sm text-slate-600 dark:text-slate-400">
+                      {formatInTimezone(date, timezone)}
+                    </li>
+                  ))}
+                </ul>
+              )}
             </div>
 
             <div className="flex justify-end gap-2 pt-2">
@@ -545,7 +1069,7 @@ export function RecurringPostManager({ accessToken, accountId, onRefresh }: Recu
               </button>
               <button
                 onClick={handleSave}
-                disabled={saving || !name.trim() || !text.trim()}
+                disabled={saving || !canSave || !!preview.error}
                 className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50"
               >
                 {saving ? '保存中...' : '保存'}
@@ -586,9 +1110,32 @@ export function RecurringPostManager({ accessToken, accountId, onRefresh }: Recu
                     <p className="text-sm text-slate-600 dark:text-slate-400 line-clamp-2 mb-2">
                       {post.text}
                     </p>
+                    {post.rotationStrategy && (
+                      <div className="mb-2">
+                        <span className="text-xs bg-indigo-50 dark:bg-indigo-900/20 text-indigo-700 dark:text-indigo-400 px-2 py-0.5 rounded">
+                          ローテーション: {ROTATION_LABELS[post.rotationStrategy]}・{post.variants?.length || 0}件
+                        </span>
+                        {post.publications && post.publications.length > 0 && (
+                          <ul className="mt-2 space-y-0.5">
+                            {post.publications.slice(0, 3).map(pub => (
+                              <li key={pub.id} className="text-xs text-slate-500 truncate">
+                                {formatInTimezone(new Date(pub.occurrenceAt), post.timezone || DEFAULT_TIMEZONE)}
+                                {' '}— #{pub.variant.position + 1} {pub.variant.text?.slice(0, 30)}
+                                {pub.views > 0 && `（閲覧 ${pub.views.toLocaleString()}・いいね ${pub.likes}・返信 ${pub.replies}）`}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    )}
+                    {post.followUps && post.followUps.length > 0 && (
+                      <p className="text-xs text-slate-500 mb-2">
+                        フォローアップ返信: {post.followUps.map(f => formatFollowUpDelay(f.delayMinutes)).join('・')}
+                      </p>
+                    )}
                     {post.nextScheduled && post.isActive && (
                       <p className="text-xs text-slate-500">
-                        次回: {new Date(post.nextScheduled).toLocaleString('ja-JP')}
+                        次回: {formatInTimezone(new Date(post.nextScheduled), post.timezone || DEFAULT_TIMEZONE)}
                       </p>
                     )}
                   </div>
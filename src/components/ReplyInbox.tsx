@@ -0,0 +1,587 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+interface ReplyInboxProps {
+  accounts: Array<{ id: string; username: string }>;
+}
+
+interface InboxReply {
+  id: string;
+  replyId: string;
+  parentReplyId: string | null;
+  username: string;
+  text: string | null;
+  permalink: string | null;
+  likes: number;
+  hideStatus: string | null;
+  isOwn: boolean;
+  publishedAt: string;
+  isRead: boolean;
+  answeredAt: string | null;
+  assignee: string | null;
+}
+
+interface InboxItem extends InboxReply {
+  post: { id: string; mediaId: string; text: string | null; permalink: string | null };
+  account: { id: string; threadsUserId: string; username: string };
+}
+
+interface InboxData {
+  replies: InboxItem[];
+  hasMore: boolean;
+  counts: { unread: number; unanswered: number };
+  assignees: string[];
+}
+
+interface Conversation {
+  post: { id: string; text: string | null; permalink: string | null; publishedAt: string } | null;
+  replies: InboxReply[];
+}
+
+type InboxFilter = 'all' | 'unread' | 'unanswered';
+
+const FILTERS: Array<{ id: InboxFilter; label: string }> = [
+  { id: 'all', label: 'すべて' },
+  { id: 'unread', label: '未読' },
+  { id: 'unanswered', label: '未返信' },
+];
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleString('ja-JP', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+}
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init);
+  const json = await res.json();
+  if (!res.ok) throw new Error(json.error || 'リクエストに失敗しました');
+  return json;
+}
+
+// スレッドを返信先ごとに入れ子にして表示
+function ConversationTree({
+  replies,
+  parentId,
+  depth,
+  selectedReplyId,
+  onSelect,
+  togglingId,
+  onToggleHidden,
+}: {
+  replies: InboxReply[];
+  parentId: string | null;
+  depth: number;
+  selectedReplyId: string | null;
+  onSelect: (reply: InboxReply) => void;
+  togglingId: string | null;
+  onToggleHidden: (reply: InboxReply) => void;
+}) {
+  const children = replies.filter(r => r.parentReplyId === parentId);
+  if (children.length === 0) return null;
+
+  return (
+    <div className={depth > 0 ? 'ml-4 pl-3 border-l border-slate-200 dark:border-slate-700' : ''}>
+      {children.map(reply => (
+        <div key={reply.id} className="mt-2">
+          <div
+            className={`p-3 rounded-lg text-sm ${
+              reply.isOwn
+                ? 'bg-violet-50 dark:bg-violet-900/20'
+                : reply.replyId === selectedReplyId
+                  ? 'bg-amber-50 dark:bg-amber-900/20 ring-1 ring-amber-300 dark:ring-amber-700'
+                  : 'bg-slate-50 dark:bg-slate-800'
+            }`}
+          >
+            <div className="flex items-center justify-between gap-2 mb-1">
+              <span className="font-medium text-slate-900 dark:text-slate-100">
+                @{reply.username}
+                {reply.isOwn && <span className="ml-2 text-xs text-violet-600 dark:text-violet-400">自分</span>}
+                {reply.hideStatus === 'HIDDEN' && (
+                  <span className="ml-2 text-xs px-1.5 py-0.5 rounded bg-slate-200 text-slate-600 dark:bg-slate-700 dark:text-slate-300">非表示</span>
+                )}
+              </span>
+              <span className="text-xs text-slate-500 dark:text-slate-400">{formatDate(reply.publishedAt)}</span>
+            </div>
+            <p className={`whitespace-pre-wrap ${reply.hideStatus === 'HIDDEN' ? 'text-slate-400 dark:text-slate-500' : 'text-slate-700 dark:text-slate-300'}`}>
+              {reply.text}
+            </p>
+            {!reply.isOwn && (
+              <div className="mt-1 flex gap-3">
+                {reply.replyId !== selectedReplyId && (
+                  <button
+                    onClick={() => onSelect(reply)}
+                    className="text-xs text-indigo-600 dark:text-indigo-400 hover:underline"
+                  >
+                    このリプライに返信
+                  </button>
+                )}
+                <button
+                  onClick={() => onToggleHidden(reply)}
+                  disabled={togglingId === reply.id}
+                  className="text-xs text-slate-500 dark:text-slate-400 hover:underline disabled:opacity-50"
+                >
+                  {reply.hideStatus === 'HIDDEN' ? '再表示する' : '非表示にする'}
+                </button>
+              </div>
+            )}
+          </div>
+          <ConversationTree
+            replies={replies}
+            parentId={reply.replyId}
+            depth={depth + 1}
+            selectedReplyId={selectedReplyId}
+            onSelect={onSelect}
+            togglingId={togglingId}
+            onToggleHidden={onToggleHidden}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// 受信箱: 全アカウントの投稿へのリプライを一覧し、既読・担当者の管理と返信を行う
+export function ReplyInbox({ accounts }: ReplyInboxProps) {
+  const [accountId, setAccountId] = useState('');
+  const [filter, setFilter] = useState<InboxFilter>('unanswered');
+  const [postFilter, setPostFilter] = useState<{ id: string; text: string | null } | null>(null);
+  const [keywordInput, setKeywordInput] = useState('');
+  const [keyword, setKeyword] = useState('');
+  const [assigneeFilter, setAssigneeFilter] = useState('');
+  const [reloadCount, setReloadCount] = useState(0);
+  const [result, setResult] = useState<{ query: string; data: InboxData } | null>(null);
+  const [more, setMore] = useState<{ replies: InboxItem[]; hasMore: boolean } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const [selected, setSelected] = useState<InboxItem | null>(null);
+  const [conversation, setConversation] = useState<{ id: string; data: Conversation } | null>(null);
+  const [target, setTarget] = useState<InboxReply | null>(null);
+  const [replyText, setReplyText] = useState('');
+  const [sending, setSending] = useState(false);
+  const [assigneeInput, setAssigneeInput] = useState('');
+  const [togglingId, setTogglingId] = useState<string | null>(null);
+
+  const query = new URLSearchParams({
+    filter,
+    ...(accountId && { accountId }),
+    ...(postFilter && { postId: postFilter.id }),
+    ...(keyword && { q: keyword }),
+    ...(assigneeFilter && { assignee: assigneeFilter }),
+  }).toString();
+  const requestKey = `${query}#${reloadCount}`;
+  const loading = result?.query !== requestKey;
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchJson<InboxData>(`/api/inbox?${query}`)
+      .then(data => {
+        if (cancelled) return;
+        setResult({ query: requestKey, data });
+        setMore(null);
+        setError(null);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Unknown error');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [query, requestKey]);
+
+  const selectedId = selected?.id;
+  useEffect(() => {
+    if (!selectedId) return;
+    let cancelled = false;
+    fetchJson<Conversation>(`/api/inbox/${selectedId}`)
+      .then(data => {
+        if (!cancelled) setConversation({ id: selectedId, data });
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Unknown error');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedId]);
+
+  const items = [...(result?.data.replies ?? []), ...(more?.replies ?? [])];
+  const hasMore = more ? more.hasMore : result?.data.hasMore;
+
+  const reload = () => setReloadCount(count => count + 1);
+
+  const loadMore = async () => {
+    const last = items[items.length - 1];
+    if (!last) return;
+    try {
+      const data = await fetchJson<InboxData>(`/api/inbox?${query}&before=${encodeURIComponent(last.publishedAt)}`);
+      setMore(prev => ({ replies: [...(prev?.replies ?? []), ...data.replies], hasMore: data.hasMore }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    }
+  };
+
+  const updateItem = (id: string, changes: Partial<InboxItem>) => {
+    setResult(prev => prev && {
+      ...prev,
+      data: { ...prev.data, replies: prev.data.replies.map(r => (r.id === id ? { ...r, ...changes } : r)) },
+    });
+    setMore(prev => prev && { ...prev, replies: prev.replies.map(r => (r.id === id ? { ...r, ...changes } : r)) });
+    setSelected(prev => (prev && prev.id === id ? { ...prev, ...changes } : prev));
+  };
+
+  const patchReply = async (id: string, changes: { isRead?: boolean; assignee?: string | null }) => {
+    try {
+      const { reply } = await fetchJson<{ reply: InboxReply }>(`/api/inbox/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      });
+      updateItem(id, { isRead: reply.isRead, assignee: reply.assignee });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    }
+  };
+
+  const openItem = (item: InboxItem) => {
+    setSelected(item);
+    setTarget(item);
+    setReplyText('');
+    setAssigneeInput(item.assignee ?? '');
+    if (!item.isRead) patchReply(item.id, { isRead: true });
+  };
+
+  const markAllRead = async () => {
+    try {
+      await fetchJson('/api/inbox', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ allRead: true, ...(accountId && { accountId }) }),
+      });
+      reload();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    }
+  };
+
+  const sendReply = async () => {
+    if (!selected || !replyText.trim()) return;
+    // スレッド内の別のリプライを選んだ場合はそのリプライに返信する
+    const targetId = target?.id ?? selected.id;
+
+    setSending(true);
+    try {
+      const { reply } = await fetchJson<{ reply: InboxReply }>(`/api/inbox/${targetId}/reply`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ text: replyText.trim() }),
+      });
+      setReplyText('');
+      setConversation(prev => prev && {
+        ...prev,
+        data: {
+          ...prev.data,
+          replies: [
+            ...prev.data.replies.map(r => (r.id === targetId ? { ...r, answeredAt: reply.publishedAt, isRead: true } : r)),
+            reply,
+          ],
+        },
+      });
+      updateItem(targetId, { answeredAt: reply.publishedAt, isRead: true });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  // リプライを非表示・再表示にする（Threads上でも非表示になる）
+  const toggleHidden = async (reply: InboxReply) => {
+    if (!selected) return;
+    const hidden = reply.hideStatus !== 'HIDDEN';
+    setTogglingId(reply.id);
+    try {
+      const { hideStatus } = await fetchJson<{ hideStatus: string }>('/api/moderation/replies', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ accountId: selected.account.id, replyId: reply.replyId, hidden }),
+      });
+      setConversation(prev => prev && {
+        ...prev,
+        data: { ...prev.data, replies: prev.data.replies.map(r => (r.id === reply.id ? { ...r, hideStatus } : r)) },
+      });
+      updateItem(reply.id, { hideStatus });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setTogglingId(null);
+    }
+  };
+
+  const counts = result?.data.counts;
+  const assignees = result?.data.assignees ?? [];
+  const thread = conversation && selected && conversation.id === selected.id ? conversation.data : null;
+
+  return (
+    <div className="space-y-4">
+      {/* ヘッダー・フィルター */}
+      <div className="bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-700 p-5 space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h2 className="text-lg font-bold text-slate-900 dark:text-slate-100">受信箱</h2>
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              自分の投稿へのリプライ（30分ごとに同期）
+              {counts && ` ・ 未読 ${counts.unread}件 / 未返信 ${counts.unanswered}件`}
+            </p>
+          </div>
+          <button
+            onClick={markAllRead}
+            disabled={!counts || counts.unread === 0}
+            className="px-3 py-1.5 text-sm text-slate-600 dark:text-slate-300 bg-slate-100 dark:bg-slate-800 rounded-lg hover:bg-slate-200 dark:hover:bg-slate-700 disabled:opacity-50"
+          >
+            すべて既読にする
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="flex gap-1">
+            {FILTERS.map(f => (
+              <button
+                key={f.id}
+                onClick={() => setFilter(f.id)}
+                className={`px-3 py-1.5 text-sm rounded-lg ${
+                  filter === f.id
+                    ? 'bg-violet-100 text-violet-700 dark:bg-violet-900/40 dark:text-violet-300'
+                    : 'text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800'
+                }`}
+              >
+                {f.label}
+              </button>
+            ))}
+          </div>
+          {accounts.length > 1 && (
+            <select
+              value={accountId}
+              onChange={(e) => setAccountId(e.target.value)}
+              className="px-3 py-1.5 border border-slate-200 dark:border-slate-600 rounded-lg text-sm bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100"
+            >
+              <option value="">すべてのアカウント</option>
+              {accounts.map(a => (
+                <option key={a.id} value={a.id}>@{a.username}</option>
+              ))}
+            </select>
+          )}
+          <select
+            value={assigneeFilter}
+            onChange={(e) => setAssigneeFilter(e.target.value)}
+            className="px-3 py-1.5 border border-slate-200 dark:border-slate-600 rounded-lg text-sm bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100"
+          >
+            <option value="">担当者: すべて</option>
+            <option value="none">担当者なし</option>
+            {assignees.map(name => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              setKeyword(keywordInput.trim());
+            }}
+            className="flex gap-1"
+          >
+            <input
+              type="search"
+              value={keywordInput}
+              onChange={(e) => setKeywordInput(e.target.value)}
+              placeholder="キーワード・ユーザー名"
+              className="px-3 py-1.5 border border-slate-200 dark:border-slate-600 rounded-lg text-sm bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100"
+            />
+            <button type="submit" className="px-3 py-1.5 text-sm bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-200 dark:hover:bg-slate-700">
+              検索
+            </button>
+          </form>
+          {postFilter && (
+            <button
+              onClick={() => setPostFilter(null)}
+              className="px-3 py-1.5 text-xs bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300 rounded-lg"
+              title="投稿の絞り込みを解除"
+            >
+              投稿: {(postFilter.text ?? '').slice(0, 20) || '(テキストなし)'} ✕
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-sm text-red-600 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        {/* 一覧 */}
+        <div className="bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-700 overflow-hidden">
+          {loading && items.length === 0 ? (
+            <div className="p-8 text-center">
+              <div className="animate-spin rounded-full h-8 w-8 border-2 border-indigo-600 border-t-transparent mx-auto" />
+            </div>
+          ) : items.length === 0 ? (
+            <div className="p-8 text-center text-sm text-slate-500 dark:text-slate-400">該当するリプライはありません</div>
+          ) : (
+            <div className="divide-y divide-slate-100 dark:divide-slate-800">
+              {items.map(item => (
+                <button
+                  key={item.id}
+                  onClick={() => openItem(item)}
+                  className={`w-full text-left px-4 py-3 hover:bg-slate-50 dark:hover:bg-slate-800/50 ${
+                    selected?.id === item.id ? 'bg-slate-50 dark:bg-slate-800/50' : ''
+                  }`}
+                >
+                  <div className="flex items-center gap-2 mb-1">
+                    {!item.isRead && <span className="w-2 h-2 rounded-full bg-indigo-500 flex-shrink-0" />}
+                    <span className={`text-sm ${item.isRead ? 'text-slate-700 dark:text-slate-300' : 'font-semibold text-slate-900 dark:text-slate-100'}`}>
+                      @{item.username}
+                    </span>
+                    {accounts.length > 1 && (
+                      <span className="text-xs text-slate-400">→ @{item.account.username}</span>
+                    )}
+                    <span className="ml-auto text-xs text-slate-500 dark:text-slate-400">{formatDate(item.publishedAt)}</span>
+                  </div>
+                  <p className="text-sm text-slate-600 dark:text-slate-400 line-clamp-2">{item.text}</p>
+                  <div className="flex flex-wrap items-center gap-2 mt-1">
+                    <span className={`text-xs px-1.5 py-0.5 rounded ${
+                      item.answeredAt
+                        ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400'
+                        : 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400'
+                    }`}>
+                      {item.answeredAt ? '返信済み' : '未返信'}
+                    </span>
+                    {item.assignee && (
+                      <span className="text-xs px-1.5 py-0.5 rounded bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-300">
+                        担当: {item.assignee}
+                      </span>
+                    )}
+                    {item.hideStatus === 'HIDDEN' && (
+                      <span className="text-xs px-1.5 py-0.5 rounded bg-slate-200 text-slate-600 dark:bg-slate-700 dark:text-slate-300">非表示</span>
+                    )}
+                    <span className="text-xs text-slate-400 truncate">投稿: {(item.post.text ?? '').slice(0, 30)}</span>
+                  </div>
+                </button>
+              ))}
+              {hasMore && (
+                <button
+                  onClick={loadMore}
+                  className="w-full px-4 py-3 text-sm text-indigo-600 dark:text-indigo-400 hover:bg-slate-50 dark:hover:bg-slate-800/50"
+                >
+                  さらに読み込む
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* 会話 */}
+        <div className="bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-700 p-5">
+          {!selected ? (
+            <p className="text-sm text-slate-500 dark:text-slate-400 text-center py-8">リプライを選択すると会話を表示します</p>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex flex-wrap items-center gap-2">
+                <button
+                  onClick={() => patchReply(selected.id, { isRead: !selected.isRead })}
+                  className="px-3 py-1.5 text-xs bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 rounded-lg hover:bg-slate-200 dark:hover:bg-slate-700"
+                >
+                  {selected.isRead ? '未読に戻す' : '既読にする'}
+                </button>
+                <button
+                  onClick={() => setPostFilter({ id: selected.post.id, text: selected.post.text })}
+                  className="px-3 py-1.5 text-xs bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 rounded-lg hover:bg-slate-200 dark:hover:bg-slate-700"
+                >
+                  この投稿のリプライのみ表示
+                </button>
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    patchReply(selected.id, { assignee: assigneeInput.trim() || null });
+                  }}
+                  className="flex gap-1 ml-auto"
+                >
+                  <input
+                    value={assigneeInput}
+                    onChange={(e) => setAssigneeInput(e.target.value)}
+                    list="inbox-assignees"
+                    placeholder="担当者"
+                    className="w-28 px-2 py-1 border border-slate-200 dark:border-slate-600 rounded-lg text-xs bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100"
+                  />
+                  <datalist id="inbox-assignees">
+                    {assignees.map(name => (
+                      <option key={name} value={name} />
+                    ))}
+                  </datalist>
+                  <button type="submit" className="px-2 py-1 text-xs bg-indigo-600 text-white rounded-lg hover:bg-indigo-700">
+                    割り当て
+                  </button>
+                </form>
+              </div>
+
+              {!thread ? (
+                <div className="py-8 text-center">
+                  <div className="animate-spin rounded-full h-6 w-6 border-2 border-indigo-600 border-t-transparent mx-auto" />
+                </div>
+              ) : (
+                <div className="max-h-[28rem] overflow-y-auto">
+                  {thread.post && (
+                    <div className="p-3 rounded-lg border border-slate-200 dark:border-slate-700 text-sm">
+                      <div className="flex items-center justify-between mb-1">
+                        <span className="font-medium text-slate-900 dark:text-slate-100">@{selected.account.username} の投稿</span>
+                        {thread.post.permalink && (
+                          <a href={thread.post.permalink} target="_blank" rel="noopener noreferrer" className="text-xs text-indigo-600 dark:text-indigo-400 hover:underline">
+                            Threadsで開く
+                          </a>
+                        )}
+                      </div>
+                      <p className="text-slate-700 dark:text-slate-300 whitespace-pre-wrap">{thread.post.text}</p>
+                    </div>
+                  )}
+                  <ConversationTree
+                    replies={thread.replies}
+                    parentId={null}
+                    depth={0}
+                    selectedReplyId={target?.replyId ?? null}
+                    onSelect={setTarget}
+                    togglingId={togglingId}
+                    onToggleHidden={toggleHidden}
+                  />
+                </div>
+              )}
+
+              {/* 返信 */}
+              <div>
+                <p className="text-xs text-slate-500 dark:text-slate-400 mb-1">
+                  @{target?.username ?? selected.username} への返信（@{selected.account.username} として投稿）
+                </p>
+                <textarea
+                  value={replyText}
+                  onChange={(e) => setReplyText(e.target.value)}
+                  placeholder="返信を入力..."
+                  className="w-full px-3 py-2 border border-slate-200 dark:border-slate-600 rounded-lg h-20 resize-none text-sm bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+                <div className="flex items-center justify-between mt-2">
+                  <span className="text-xs text-slate-500 dark:text-slate-400">{replyText.length}/500</span>
+                  <button
+                    onClick={sendReply}
+                    disabled={sending || !replyText.trim() || replyText.length > 500}
+                    className="px-4 py-2 bg-indigo-600 text-white text-sm rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+                  >
+                    {sending ? '送信中...' : '返信する'}
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -48,19 +48,28 @@ interface ReportGeneratorProps {
       }>;
     };
   };
+  // 日次スナップショットの推移（保存済みの場合）
+  history?: Array<{
+    date: string;
+    followersCount: number;
+    views: number;
+    likes: number;
+    replies: number;
+    reposts: number;
+  }>;
   weeklyEnabled?: boolean;
   monthlyEnabled?: boolean;
 }
 
 type ReportPeriod = 'week' | 'month' | 'custom';
 
-export function ReportGenerator({ data, weeklyEnabled = true, monthlyEnabled = true }: ReportGeneratorProps) {
+export function ReportGenerator({ data, history, weeklyEnabled = true, monthlyEnabled = true }: ReportGeneratorProps) {
   const [period, setPeriod] = useState<ReportPeriod>('week');
   const [generating, setGenerating] = useState(false);
   const [customStart, setCustomStart] = useState('');
   const [customEnd, setCustomEnd] = useState('');
 
-  const filterPostsByPeriod = () => {
+  const getPeriodRange = () => {
     const now = new Date();
     let startDate: Date;
     let endDate = now;
@@ -74,12 +83,44 @@ export function ReportGenerator({ data, weeklyEnabled = true, monthlyEnabled = t
       endDate = customEnd ? new Date(customEnd) : now;
     }
 
+    return { startDate, endDate };
+  };
+
+  const filterPostsByPeriod = () => {
+    const { startDate, endDate } = getPeriodRange();
+
     return data.threads.data.filter(post => {
       const postDate = new Date(post.timestamp);
       return postDate >= startDate && postDate <= endDate;
     });
   };
 
+  // 保存済みの履歴から期間中の増加分を計算（期間の前後にスナップショットが必要）
+  const getHistoryStats = () => {
+    if (!history || history.length < 2) return null;
+
+    const { startDate, endDate } = getPeriodRange();
+    const toDay = (d: Date) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+    const startDay = toDay(startDate);
+    const endDay = toDay(endDate);
+
+    const start = history.find(p => p.date >= startDay);
+    const end = [...history].reverse().find(p => p.date <= endDay);
+    if (!start || !end || start.date >= end.date) return null;
+
+    return {
+      from: start.date,
+      to: end.date,
+      followersStart: start.followersCount,
+      followersEnd: end.followersCount,
+      followersGained: end.followersCount - start.followersCount,
+      viewsGained: end.views - start.views,
+      likesGained: end.likes - start.likes,
+      repliesGained: end.replies - start.replies,
+      repostsGained: end.reposts - start.reposts,
+    };
+  };
+
   const generateReport = () => {
     setGenerating(true);
 
@@ -100,6 +141,8 @@ export function ReportGenerator({ data, weeklyEnabled = true, monthlyEnabled = t
       .sort((a, b) => b.insights.likes - a.insights.likes)
       .slice(0, 5);
 
+    const historyStats = getHistoryStats();
+
     const periodLabel = period === 'week' ? '週間' : period === 'month' ? '月間' : 'カスタム期間';
     const dateRange = period === 'custom' && customStart && customEnd
       ? `${customStart} - ${customEnd}`
@@ -126,7 +169,19 @@ export function ReportGenerator({ data, weeklyEnabled = true, monthlyEnabled = t
 | 総リプライ | ${stats.totalReplies.toLocaleString()} |
 | 総リポスト | ${stats.totalReposts.toLocaleString()} |
 | エンゲージメント率 | ${engagementRate.toFixed(2)}% |
+${historyStats ? `
+---
+
+## 期間中の推移（${historyStats.from} - ${historyStats.to}）
 
+| 指標 | 数値 |
+|------|------|
+| フォロワー | ${historyStats.followersStart.toLocaleString()} → ${historyStats.followersEnd.toLocaleString()}（${historyStats.followersGained >= 0 ? '+' : ''}${historyStats.followersGained.toLocaleString()}） |
+| 閲覧数の増加 | +${historyStats.viewsGained.toLocaleString()} |
+| いいねの増加 | +${historyStats.likesGained.toLocaleString()} |
+| リプライの増加 | +${historyStats.repliesGained.toLocaleString()} |
+| リポストの増加 | +${historyStats.repostsGained.toLocaleString()} |
+` : ''}
 ---
 
 ## トップ投稿
@@ -186,6 +241,8 @@ ${topPosts[0] ? `- 最もパフォーマンスの良かった投稿のスタイ
       .sort((a, b) => b.insights.likes - a.insights.likes)
       .slice(0, 5);
 
+    const historyStats = getHistoryStats();
+
     const periodLabel = period === 'week' ? '週間' : period === 'month' ? '月間' : 'カスタム期間';
 
     // HTML形式でレポートを生成（印刷用）
@@ -240,6 +297,16 @@ ${topPosts[0] ? `- 最もパフォーマンスの良かった投稿のスタイ
     </div>
   </div>
 
+  ${historyStats ? `
+  <h2>期間中の推移（${historyStats.from} - ${historyStats.to}）</h2>
+  <table>
+    <tr><th>フォロワー</th><td>${historyStats.followersStart.toLocaleString()} → ${historyStats.followersEnd.toLocaleString()}（${historyStats.followersGained >= 0 ? '+' : ''}${historyStats.followersGained.toLocaleString()}）</td></tr>
+    <tr><th>閲覧数の増加</th><td>+${historyStats.viewsGained.toLocaleString()}</td></tr>
+    <tr><th>いいねの増加</th><td>+${historyStats.likesGained.toLocaleString()}</td></tr>
+    <tr><th>リプライの増加</th><td>+${historyStats.repliesGained.toLocaleString()}</td></tr>
+  </table>
+  ` : ''}
+
   <h2>トップ投稿</h2>
   ${topPosts.map((post, i) => `
     <div class="post-card">
@@ -279,6 +346,8 @@ ${topPosts[0] ? `- 最もパフォーマンスの良かった投稿のスタイ
     setGenerating(false);
   };
 
+  const historyStats = getHistoryStats();
+
   return (
     <div className="space-y-6">
       {/* レポート設定 */}
@@ -376,6 +445,11 @@ ${topPosts[0] ? `- 最もパフォーマンスの良かった投稿のスタイ
       {/* プレビュー */}
       <div className="bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-700 p-5">
         <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300 mb-4">プレビュー</h3>
+        {historyStats && (
+          <p className="text-xs text-slate-500 mb-3">
+            保存済みの履歴（{historyStats.from} - {historyStats.to}）: フォロワー {historyStats.followersGained >= 0 ? '+' : ''}{historyStats.followersGained.toLocaleString()} / 閲覧数 +{historyStats.viewsGained.toLocaleString()}
+          </p>
+        )}
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
           <div className="bg-slate-50 dark:bg-slate-800 rounded-lg p-4 text-center">
             <p className="text-2xl font-bold text-violet-600">{filterPostsByPeriod().length}</p>
@@ -2,28 +2,76 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { CsvImportModal } from './CsvImportModal';
+import { QuotaForecast } from './QuotaForecast';
 import { exportScheduledPostsToCsv } from '@/lib/csv-utils';
+import {
+  describeFollowUpCondition,
+  FOLLOW_UP_STATUS_LABELS,
+  formatFollowUpDelay,
+  parseStoredFollowUps,
+} from '@/lib/scheduler/follow-ups';
+import { parseStoredPostOptions, REPLY_CONTROL_LABELS } from '@/lib/threads/post-options';
 
 interface ScheduledPost {
   id: string;
   text: string | null;
   threadPosts?: string | null;
   scheduledAt: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'paused';
   errorMessage?: string | null;
   type: string;
   mediaUrls?: string | null;
+  attemptCount?: number;
+  maxAttempts?: number;
+  nextAttemptAt?: string | null;
+  replyControl?: string | null;
+  pollOptions?: string | null;
+  topicTag?: string | null;
+  linkAttachment?: string | null;
+  altTexts?: string | null;
+  targetPostId?: string | null;
+  targetPermalink?: string | null;
+  followUps?: string | null;
+  followUpReplies?: Array<{
+    id: string;
+    position: number;
+    status: string;
+    sendAt: string;
+    metricValue: number | null;
+    errorMessage: string | null;
+  }>;
+}
+
+function getPostOptions(post: ScheduledPost) {
+  return parseStoredPostOptions({
+    replyControl: post.replyControl ?? null,
+    pollOptions: post.pollOptions ?? null,
+    topicTag: post.topicTag ?? null,
+    linkAttachment: post.linkAttachment ?? null,
+    altTexts: post.altTexts ?? null,
+  });
+}
+
+// 一覧に表示する投稿オプションのラベル
+function getPostOptionLabels(post: ScheduledPost): string[] {
+  const options = getPostOptions(post);
+  const labels: string[] = [];
+  if (options.replyControl) labels.push(`返信: ${REPLY_CONTROL_LABELS[options.replyControl]}`);
+  if (options.pollOptions) labels.push(`アンケート（${options.pollOptions.length}択）`);
+  if (options.topicTag) labels.push(`トピック: ${options.topicTag}`);
+  if (options.linkAttachment) labels.push('リンク付き');
+  if (options.altTexts) labels.push('代替テキストあり');
+  return labels;
 }
 
 interface ScheduleManagerProps {
-  accessToken: string;
   accountId?: string;
   onRefresh?: () => void;
 }
 
 type StatusFilter = 'all' | 'pending' | 'completed' | 'failed';
 
-export function ScheduleManager({ accessToken, accountId, onRefresh }: ScheduleManagerProps) {
+export function ScheduleManager({ accountId, onRefresh }: ScheduleManagerProps) {
   const [posts, setPosts] = useState<ScheduledPost[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -38,6 +86,10 @@ export function ScheduleManager({ accessToken, accountId, onRefresh }: ScheduleM
   const [newPostTime, setNewPostTime] = useState('');
   const [adding, setAdding] = useState(false);
 
+  // 公開クォータ
+  const [quotaRefreshKey, setQuotaRefreshKey] = useState(0);
+  const [quotaWarning, setQuotaWarning] = useState<string | null>(null);
+
   // CSVインポートモーダル
   const [showCsvImport, setShowCsvImport] = useState(false);
 
@@ -118,6 +170,7 @@ export function ScheduleManager({ accessToken, accountId, onRefresh }: ScheduleM
 
         setPosts(scheduled);
         setUseApi(true);
+        setQuotaRefreshKey(prev => prev + 1);
         setLoading(false);
         return;
       }
@@ -218,6 +271,9 @@ export function ScheduleManager({ accessToken, accountId, onRefresh }: ScheduleM
         });
 
         if (response.ok) {
+          const data = await response.json();
+          // 予約日が公開クォータを超える場合の警告
+          setQuotaWarning(data.warning ?? null);
           await fetchScheduledPosts();
           resetAddForm();
           if (onRefresh) onRefresh();
@@ -268,6 +324,28 @@ export function ScheduleManager({ accessToken, accountId, onRefresh }: ScheduleM
     if (onRefresh) onRefresh();
   };
 
+  // 失敗した投稿を再試行
+  const handleRetryPost = async (id: string) => {
+    setError(null);
+    try {
+      const response = await fetch('/api/scheduled', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id, action: 'retry' }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setError(data.error || '再試行の設定に失敗しました');
+        return;
+      }
+      await fetchScheduledPosts();
+      if (onRefresh) onRefresh();
+    } catch (e) {
+      console.error('Retry failed', e);
+      setError('再試行の設定に失敗しました');
+    }
+  };
+
   // 一括削除（実行）
   const executeBulkDelete = async () => {
     setBulkDeleting(true);
@@ -373,6 +451,8 @@ export function ScheduleManager({ accessToken, accountId, onRefresh }: ScheduleM
     if (editType === 'thread') {
       return editThreadPosts.length >= 2 && editThreadPosts.every(p => p.text.trim().length > 0);
     }
+    // リポストは日時のみ変更できる
+    if (editType === 'repost') return true;
     return editText.trim().length > 0;
   };
 
@@ -396,14 +476,20 @@ export function ScheduleManager({ accessToken, accountId, onRefresh }: ScheduleM
         await fetch(`/api/scheduled?id=${editingId}`, { method: 'DELETE' });
 
         if (accountId) {
+          // メディアと投稿オプションは編集前の設定を引き継ぐ
+          const original = posts.find(p => p.id === editingId);
           const body: Record<string, unknown> = {
             accountId,
             type: editType,
             scheduledAt: scheduledAt.toISOString(),
+            ...(original && getPostOptions(original)),
+            ...(original?.mediaUrls && { mediaUrls: JSON.parse(original.mediaUrls) }),
+            ...(original?.followUps && { followUps: parseStoredFollowUps(original.followUps) }),
+            ...(original?.targetPermalink && { targetUrl: original.targetPermalink }),
           };
           if (editType === 'thread') {
             body.threadPosts = editThreadPosts;
-          } else {
+          } else if (editType !== 'repost') {
             body.text = editText;
           }
 
@@ -475,6 +561,8 @@ export function ScheduleManager({ accessToken, accountId, onRefresh }: ScheduleM
         return <span className="px-2 py-1 text-xs rounded-full bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400">完了</span>;
       case 'failed':
         return <span className="px-2 py-1 text-xs rounded-full bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400">失敗</span>;
+      case 'paused':
+        return <span className="px-2 py-1 text-xs rounded-full bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-400" title="トークンの失効により停止中です。再認証すると再開します">停止中</span>;
       default:
         return null;
     }
@@ -505,6 +593,7 @@ export function ScheduleManager({ accessToken, accountId, onRefresh }: ScheduleM
       }
     }
     if (post.text) return post.text;
+    if (post.type === 'repost') return '';
     return '(内容なし)';
   };
 
@@ -515,6 +604,8 @@ export function ScheduleManager({ accessToken, accountId, onRefresh }: ScheduleM
       case 'image': return '画像';
       case 'video': return '動画';
       case 'carousel': return 'カルーセル';
+      case 'quote': return '引用';
+      case 'repost': return 'リポスト';
       default: return type;
     }
   };
@@ -540,6 +631,9 @@ export function ScheduleManager({ accessToken, accountId, onRefresh }: ScheduleM
     { key: 'failed', label: '失敗', count: counts.failed },
   ];
 
+  // リトライ待ちの投稿数
+  const retryingCount = posts.filter(p => p.status === 'pending' && (p.attemptCount ?? 0) > 0).length;
+
   return (
     <div className="space-y-6">
       {/* ヘッダー */}
@@ -796,6 +890,50 @@ export function ScheduleManager({ accessToken, accountId, onRefresh }: ScheduleM
         </div>
       )}
 
+      {/* デッドレター（リトライ上限に達した・恒久エラー・処理中に中断された投稿） */}
+      {useApi && counts.failed > 0 && statusFilter !== 'failed' && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl p-4 flex items-center justify-between gap-4">
+          <div>
+            <p className="text-sm font-medium text-red-700 dark:text-red-400">
+              配信に失敗した投稿が{counts.failed}件あります
+            </p>
+            <p className="text-xs text-red-600 dark:text-red-400 mt-1">
+              自動リトライの上限に達したか、再試行できないエラーです。処理中に中断された投稿は、二重投稿を避けるため自動では再試行しません。Threadsで投稿されていないか確認してから再試行または削除してください。
+            </p>
+          </div>
+          <button
+            onClick={() => setStatusFilter('failed')}
+            className="px-3 py-1.5 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700 whitespace-nowrap"
+          >
+            確認する
+          </button>
+        </div>
+      )}
+
+      {useApi && retryingCount > 0 && (
+        <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-xl p-3">
+          <p className="text-sm text-amber-700 dark:text-amber-400">
+            {retryingCount}件の投稿が一時的なエラーのため自動リトライ待ちです
+          </p>
+        </div>
+      )}
+
+      {useApi && quotaWarning && (
+        <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-xl p-3 flex items-start justify-between gap-3">
+          <p className="text-sm text-amber-700 dark:text-amber-400">{quotaWarning}</p>
+          <button
+            onClick={() => setQuotaWarning(null)}
+            className="text-amber-500 hover:text-amber-700 text-lg leading-none"
+          >
+            ×
+          </button>
+        </div>
+      )}
+
+      {useApi && accountId && (
+        <QuotaForecast accountId={accountId} refreshKey={quotaRefreshKey} />
+      )}
+
       {/* 一括操作バー */}
       {selectedIds.size > 0 && (
         <div className="bg-indigo-50 dark:bg-indigo-900/20 border border-indigo-200 dark:border-indigo-800 rounded-xl p-3">
@@ -943,6 +1081,8 @@ export function ScheduleManager({ accessToken, accountId, onRefresh }: ScheduleM
                             + 投稿を追加
                           </button>
                         </>
+                      ) : editType === 'repost' ? (
+                        <p className="text-sm text-slate-500 break-all">リポスト: {post.targetPermalink}</p>
                       ) : (
                         <>
                           <textarea
@@ -1003,22 +1143,89 @@ export function ScheduleManager({ accessToken, accountId, onRefresh }: ScheduleM
                             <span className="text-sm text-slate-500">
                               {formatDateTime(post.scheduledAt)}
                             </span>
+                            {post.status === 'pending' && (post.attemptCount ?? 0) > 0 && (
+                              <span className="px-2 py-0.5 text-xs rounded bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400">
+                                リトライ待ち（{post.attemptCount}/{post.maxAttempts}回失敗
+                                {post.nextAttemptAt ? `・次回 ${formatDateTime(post.nextAttemptAt)}` : ''}）
+                              </span>
+                            )}
+                            {post.status === 'failed' && (post.attemptCount ?? 0) > 0 && (
+                              <span className="text-xs text-slate-400">
+                                {post.attemptCount}回試行
+                              </span>
+                            )}
                             {post.type && post.type !== 'text' && (
                               <span className="px-2 py-0.5 text-xs rounded bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-400">
                                 {getTypeLabel(post.type)}
                               </span>
                             )}
+                            {getPostOptionLabels(post).map(label => (
+                              <span key={label} className="px-2 py-0.5 text-xs rounded bg-violet-50 dark:bg-violet-900/20 text-violet-600 dark:text-violet-400">
+                                {label}
+                              </span>
+                            ))}
                           </div>
                           <p className="text-slate-900 dark:text-white whitespace-pre-wrap break-words">
                             {getPostDisplayText(post)}
                           </p>
+                          {(post.type === 'quote' || post.type === 'repost') && post.targetPermalink && (
+                            <a
+                              href={post.targetPermalink}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="block mt-1 text-xs text-indigo-600 dark:text-indigo-400 hover:underline break-all"
+                            >
+                              {post.type === 'quote' ? '引用元' : 'リポスト'}: {post.targetPermalink}
+                            </a>
+                          )}
+                          {parseStoredFollowUps(post.followUps ?? null).map((followUp, i) => {
+                            const job = post.followUpReplies?.find(r => r.position === i);
+                            return (
+                              <div key={i} className="mt-2 pl-3 border-l-2 border-slate-200 dark:border-slate-700 text-sm">
+                                <div className="flex flex-wrap items-center gap-2 text-xs text-slate-500">
+                                  <span>フォローアップ返信 {formatFollowUpDelay(followUp.delayMinutes)}</span>
+                                  {followUp.condition && <span>（{describeFollowUpCondition(followUp.condition)}）</span>}
+                                  {job && (
+                                    <span className={`px-1.5 py-0.5 rounded ${job.status === 'failed' ? 'bg-red-50 text-red-600 dark:bg-red-900/20 dark:text-red-400' : 'bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-400'}`}>
+                                      {FOLLOW_UP_STATUS_LABELS[job.status] ?? job.status}
+                                      {job.status === 'scheduled' && `・${formatDateTime(job.sendAt)}`}
+                                      {job.metricValue !== null && `・判定時 ${job.metricValue.toLocaleString()}`}
+                                    </span>
+                                  )}
+                                </div>
+                                <p className="text-slate-600 dark:text-slate-400 whitespace-pre-wrap break-words">{followUp.text}</p>
+                                {job?.status === 'failed' && job.errorMessage && (
+                                  <p className="text-xs text-red-600 dark:text-red-400">エラー: {job.errorMessage}</p>
+                                )}
+                              </div>
+                            );
+                          })}
                           {post.errorMessage && (
-                            <p className="text-sm text-red-600 dark:text-red-400 mt-2">
-                              エラー: {post.errorMessage}
+                            <p className={`text-sm mt-2 ${post.status === 'pending' ? 'text-amber-600 dark:text-amber-400' : 'text-red-600 dark:text-red-400'}`}>
+                              {post.status === 'pending' ? '前回のエラー' : 'エラー'}: {post.errorMessage}
                             </p>
                           )}
                         </div>
                       </div>
+                      {post.status === 'failed' && useApi && (
+                        <div className="flex items-center gap-1">
+                          <button
+                            onClick={() => handleRetryPost(post.id)}
+                            className="px-3 py-1.5 text-xs bg-indigo-50 text-indigo-700 dark:bg-indigo-900/30 dark:text-indigo-400 rounded-lg hover:bg-indigo-100"
+                          >
+                            再試行
+                          </button>
+                          <button
+                            onClick={() => handleDeletePost(post.id)}
+                            className="p-2 text-slate-400 hover:text-red-500 transition-colors"
+                            title="削除"
+                          >
+                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                            </svg>
+                          </button>
+                        </div>
+                      )}
                       {post.status === 'pending' && (
                         <div className="flex items-center gap-1">
                           <button
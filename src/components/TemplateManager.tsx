@@ -1,6 +1,8 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import { POST_TEMPLATE_VARIABLES, renderTemplate, validateTemplate } from '@/lib/templates/render';
+import { TemplatePreview, TemplateVariableButtons } from './TemplatePreview';
 
 interface Template {
   id: string;
@@ -16,6 +18,7 @@ interface Template {
 interface TemplateManagerProps {
   onSelectTemplate?: (template: Template) => void;
   maxTemplates?: number;
+  followerCount?: number | null;
 }
 
 // プリセットカテゴリ
@@ -60,7 +63,7 @@ const PRESET_TEMPLATES: Omit<Template, 'id' | 'usageCount' | 'createdAt'>[] = [
   },
 ];
 
-export function TemplateManager({ onSelectTemplate, maxTemplates = -1 }: TemplateManagerProps) {
+export function TemplateManager({ onSelectTemplate, maxTemplates = -1, followerCount = null }: TemplateManagerProps) {
   const [templates, setTemplates] = useState<Template[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
@@ -73,6 +76,7 @@ export function TemplateManager({ onSelectTemplate, maxTemplates = -1 }: Templat
   const [templateCategory, setTemplateCategory] = useState('general');
   const [templateText, setTemplateText] = useState('');
   const [saving, setSaving] = useState(false);
+  const templateErrors = validateTemplate(templateText, { variables: POST_TEMPLATE_VARIABLES });
 
   // テンプレート読み込み（localStorage使用）
   useEffect(() => {
@@ -101,7 +105,7 @@ export function TemplateManager({ onSelectTemplate, maxTemplates = -1 }: Templat
 
   // テンプレート追加/編集
   const handleSave = () => {
-    if (!templateName.trim() || !templateText.trim()) return;
+    if (!templateName.trim() || !templateText.trim() || templateErrors.length > 0) return;
 
     if (maxTemplates !== -1 && templates.length >= maxTemplates && !editingTemplate) {
       alert(`テンプレートは最大${maxTemplates}件までです`);
@@ -139,30 +143,6 @@ export function TemplateManager({ onSelectTemplate, maxTemplates = -1 }: Templat
     saveTemplates(templates.filter(t => t.id !== id));
   };
 
-  // テンプレート変数を置換
-  const replaceVariables = (text: string): string => {
-    const now = new Date();
-    const dayNames = ['日', '月', '火', '水', '木', '金', '土'];
-    const replacements: Record<string, string> = {
-      '日付': `${now.getFullYear()}/${String(now.getMonth() + 1).padStart(2, '0')}/${String(now.getDate()).padStart(2, '0')}`,
-      'date': `${now.getFullYear()}/${String(now.getMonth() + 1).padStart(2, '0')}/${String(now.getDate()).padStart(2, '0')}`,
-      '時刻': `${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}`,
-      'time': `${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}`,
-      '曜日': `${dayNames[now.getDay()]}曜日`,
-      'day': `${dayNames[now.getDay()]}曜日`,
-      '年': `${now.getFullYear()}`,
-      'year': `${now.getFullYear()}`,
-      '月': `${now.getMonth() + 1}`,
-      'month': `${now.getMonth() + 1}`,
-      '日': `${now.getDate()}`,
-    };
-    let result = text;
-    for (const [key, value] of Object.entries(replacements)) {
-      result = result.replace(new RegExp(`\\{\\{${key}\\}\\}`, 'g'), value);
-    }
-    return result;
-  };
-
   // 使用
   const handleUse = (template: Template) => {
     // 使用回数を増やす
@@ -171,10 +151,15 @@ export function TemplateManager({ onSelectTemplate, maxTemplates = -1 }: Templat
     ));
 
     if (onSelectTemplate) {
-      // 変数を置換してからコールバック
+      // 変数を展開してからコールバック
       const resolvedTemplate = {
         ...template,
-        text: template.text ? replaceVariables(template.text) : template.text,
+        text: template.text
+          ? renderTemplate(template.text, {
+            timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+            followerCount,
+          })
+          : template.text,
       };
       onSelectTemplate(resolvedTemplate);
     }
@@ -311,25 +296,15 @@ export function TemplateManager({ onSelectTemplate, maxTemplates = -1 }: Templat
                 placeholder="投稿テンプレートを入力..."
                 className="w-full px-3 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 h-32 resize-none font-mono text-sm text-slate-900 placeholder-slate-400"
               />
-              <div className="mt-2 flex flex-wrap gap-1">
-                <span className="text-xs text-slate-400 mr-1">自動変数:</span>
-                {[
-                  { tag: '{{日付}}', label: '日付' },
-                  { tag: '{{時刻}}', label: '時刻' },
-                  { tag: '{{曜日}}', label: '曜日' },
-                  { tag: '{{年}}', label: '年' },
-                  { tag: '{{月}}', label: '月' },
-                ].map(v => (
-                  <button
-                    key={v.tag}
-                    type="button"
-                    onClick={() => setTemplateText(prev => prev + v.tag)}
-                    className="px-2 py-0.5 text-xs bg-indigo-50 text-indigo-600 rounded hover:bg-indigo-100"
-                  >
-                    {v.label}
-                  </button>
-                ))}
-              </div>
+              <TemplateVariableButtons
+                variables={POST_TEMPLATE_VARIABLES}
+                onInsert={(tag) => setTemplateText(prev => prev + tag)}
+              />
+              <TemplatePreview
+                text={templateText}
+                variables={POST_TEMPLATE_VARIABLES}
+                context={{ followerCount }}
+              />
             </div>
             <div className="flex justify-end gap-2">
               <button
@@ -343,7 +318,7 @@ export function TemplateManager({ onSelectTemplate, maxTemplates = -1 }: Templat
               </button>
               <button
                 onClick={handleSave}
-                disabled={saving || !templateName.trim() || !templateText.trim()}
+                disabled={saving || !templateName.trim() || !templateText.trim() || templateErrors.length > 0}
                 className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50"
               >
                 {saving ? '保存中...' : '保存'}
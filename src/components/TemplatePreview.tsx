@@ -0,0 +1,106 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  renderTemplate,
+  TEMPLATE_VARIABLES,
+  validateTemplate,
+  type TemplateContext,
+  type TemplateVariable,
+} from '@/lib/templates/render';
+
+// 変数以外に挿入できる書式
+const SNIPPETS = [
+  { text: '{A|B|C}', label: 'ランダム' },
+  { text: '{#if follower_count >= 1000}…{else}…{/if}', label: '条件分岐' },
+];
+
+// シードから決まる乱数（入力中にスピンタックスの選択が変わらないようにする）
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+interface TemplateVariableButtonsProps {
+  variables: readonly TemplateVariable[];
+  onInsert: (text: string) => void;
+}
+
+// テンプレート変数の挿入ボタン
+export function TemplateVariableButtons({ variables, onInsert }: TemplateVariableButtonsProps) {
+  return (
+    <div className="mt-2 flex flex-wrap gap-1">
+      <span className="text-xs text-slate-400 mr-1">自動変数:</span>
+      {TEMPLATE_VARIABLES.filter(v => variables.includes(v.name)).map(v => (
+        <button
+          key={v.name}
+          type="button"
+          title={v.description}
+          onClick={() => onInsert(`{${v.name}}`)}
+          className="px-2 py-0.5 text-xs bg-indigo-50 text-indigo-600 rounded hover:bg-indigo-100"
+        >
+          {v.label}
+        </button>
+      ))}
+      {SNIPPETS.map(snippet => (
+        <button
+          key={snippet.label}
+          type="button"
+          title={snippet.text}
+          onClick={() => onInsert(snippet.text)}
+          className="px-2 py-0.5 text-xs bg-slate-100 text-slate-600 rounded hover:bg-slate-200"
+        >
+          {snippet.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+interface TemplatePreviewProps {
+  text: string;
+  variables: readonly TemplateVariable[];
+  context?: TemplateContext;
+}
+
+// テンプレートの検証結果と展開後のプレビュー（日時はブラウザのタイムゾーン）
+export function TemplatePreview({ text, variables, context }: TemplatePreviewProps) {
+  const [seed, setSeed] = useState(1);
+
+  if (!text.trim()) return null;
+
+  const errors = validateTemplate(text, { variables });
+  const preview = renderTemplate(
+    text,
+    { timezone: Intl.DateTimeFormat().resolvedOptions().timeZone, ...context },
+    { random: seededRandom(seed) }
+  );
+
+  return (
+    <div className="mt-2 space-y-2">
+      {errors.length > 0 && (
+        <div className="p-2 bg-red-50 border border-red-200 rounded-lg text-xs text-red-600 space-y-0.5">
+          {errors.map(error => (
+            <p key={error}>{error}</p>
+          ))}
+        </div>
+      )}
+      <div className="p-3 bg-slate-50 border border-slate-200 rounded-lg">
+        <div className="flex items-center justify-between mb-1">
+          <span className="text-xs font-medium text-slate-500">プレビュー</span>
+          <button
+            type="button"
+            onClick={() => setSeed(prev => prev + 1)}
+            className="text-xs text-indigo-600 hover:text-indigo-700"
+          >
+            別の候補を表示
+          </button>
+        </div>
+        <p className="text-sm text-slate-700 whitespace-pre-wrap break-words">{preview}</p>
+      </div>
+    </div>
+  );
+}
@@ -19,23 +19,35 @@ import {
   PolarAngleAxis,
   PolarRadiusAxis,
   Radar,
+  ErrorBar,
 } from 'recharts';
 
 const COLORS = ['#8b5cf6', '#06b6d4', '#10b981', '#f59e0b', '#ef4444', '#ec4899'];
 
+// 推定値と95%区間（ErrorBarは推定値からの差で指定する）
+type EstimateBand = { avgEngagement: number; lower?: number; upper?: number; count?: number };
+
+function toErrorRange(d: EstimateBand | undefined): [number, number] {
+  if (!d || d.lower === undefined || d.upper === undefined) return [0, 0];
+  return [d.avgEngagement - d.lower, d.upper - d.avgEngagement];
+}
+
 // 投稿時間帯別パフォーマンスチャート
 export function PostingHoursChart({
   data,
 }: {
-  data: Array<{ hour: number; avgEngagement: number }>;
+  data: Array<{ hour: number } & EstimateBand>;
 }) {
   const chartData = Array.from({ length: 24 }, (_, i) => {
     const found = data.find((d) => d.hour === i);
     return {
       hour: `${i}時`,
       engagement: found?.avgEngagement || 0,
+      range: toErrorRange(found),
+      count: found?.count ?? 0,
     };
   });
+  const hasBands = data.some((d) => d.lower !== undefined);
 
   return (
     <div className="bg-white rounded-xl border border-slate-200 p-5">
@@ -60,10 +72,17 @@ export function PostingHoursChart({
                 borderRadius: '8px',
               }}
             />
-            <Bar dataKey="engagement" fill="#8b5cf6" radius={[4, 4, 0, 0]} />
+            <Bar dataKey="engagement" fill="#8b5cf6" radius={[4, 4, 0, 0]}>
+              {hasBands && <ErrorBar dataKey="range" width={3} stroke="#64748b" />}
+            </Bar>
           </BarChart>
         </ResponsiveContainer>
       </div>
+      {hasBands && (
+        <p className="mt-2 text-xs text-slate-400">
+          投稿数の少ない時間帯は全体の平均に近づけて推定しています（線は95%区間）
+        </p>
+      )}
     </div>
   );
 }
@@ -72,8 +91,11 @@ export function PostingHoursChart({
 export function PostingDaysChart({
   data,
 }: {
-  data: Array<{ day: string; avgEngagement: number }>;
+  data: Array<{ day: string } & EstimateBand>;
 }) {
+  const chartData = data.map((d) => ({ ...d, range: toErrorRange(d) }));
+  const hasBands = data.some((d) => d.lower !== undefined);
+
   return (
     <div className="bg-white rounded-xl border border-slate-200 p-5">
       <h3 className="text-sm font-semibold text-slate-700 mb-4">
@@ -81,7 +103,7 @@ export function PostingDaysChart({
       </h3>
       <div className="h-64">
         <ResponsiveContainer width="100%" height="100%">
-          <BarChart data={data} layout="vertical">
+          <BarChart data={chartData} layout="vertical">
             <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
             <XAxis type="number" tick={{ fontSize: 10 }} stroke="#94a3b8" />
             <YAxis
@@ -98,7 +120,9 @@ export function PostingDaysChart({
                 borderRadius: '8px',
               }}
             />
-            <Bar dataKey="avgEngagement" fill="#06b6d4" radius={[0, 4, 4, 0]} />
+            <Bar dataKey="avgEngagement" fill="#06b6d4" radius={[0, 4, 4, 0]}>
+              {hasBands && <ErrorBar dataKey="range" width={3} stroke="#64748b" direction="x" />}
+            </Bar>
           </BarChart>
         </ResponsiveContainer>
       </div>
@@ -484,7 +508,7 @@ export function ContentStrategyChart({
 export function PostingHeatmap({
   data,
 }: {
-  data: Array<{ day: number; hour: number; value: number; count: number }>;
+  data: Array<{ day: number; hour: number; value: number; count: number; lower?: number; upper?: number; reliable?: boolean }>;
 }) {
   const days = ['日', '月', '火', '水', '木', '金', '土'];
   const maxValue = Math.max(...data.map((d) => d.value), 1);
@@ -534,11 +558,16 @@ export function PostingHeatmap({
                 );
                 const value = cell?.value || 0;
                 const count = cell?.count || 0;
+                // 投稿数が少ないマスは薄く表示（推定の幅が広い）
+                const uncertain = count > 0 && cell?.reliable === false;
+                const band = cell?.lower !== undefined && cell.upper !== undefined && count > 0
+                  ? `（95%区間 ${cell.lower.toFixed(1)}〜${cell.upper.toFixed(1)}）`
+                  : '';
                 return (
                   <div
                     key={hour}
-                    className={`flex-1 h-6 ${getColor(value)} border border-white rounded-sm flex items-center justify-center cursor-default transition-transform hover:scale-110`}
-                    title={`${day}曜 ${hour}時: ${value.toFixed(1)} (${count}件)`}
+                    className={`flex-1 h-6 ${getColor(value)} ${uncertain ? 'opacity-40' : ''} border border-white rounded-sm flex items-center justify-center cursor-default transition-transform hover:scale-110`}
+                    title={`${day}曜 ${hour}時: ${value.toFixed(1)}${band} (${count}件)`}
                   >
                     {count > 0 && (
                       <span className={`text-[8px] font-medium ${getTextColor(value)}`}>
@@ -552,6 +581,9 @@ export function PostingHeatmap({
           ))}
           {/* 凡例 */}
           <div className="flex items-center justify-end mt-3 gap-2 text-xs text-slate-500">
+            {data.some((d) => d.reliable !== undefined) && (
+              <span className="mr-auto">薄いマスは投稿数が少なく、推定の幅が広い時間帯です</span>
+            )}
             <span>低</span>
             <div className="flex gap-0.5">
               <div className="w-4 h-4 bg-slate-100 rounded" />
@@ -626,6 +658,75 @@ export function DailyTrendChart({
   );
 }
 
+// フォロワー・閲覧数の推移（日次スナップショット）
+export function GrowthHistoryChart({
+  data,
+}: {
+  data: Array<{ date: string; followersCount: number; views: number }>;
+}) {
+  // 累計閲覧数を日別の増加分に変換
+  const chartData = data.map((d, i) => ({
+    date: d.date.slice(5), // MM-DD形式に
+    followers: d.followersCount,
+    viewsGained: i > 0 ? Math.max(0, d.views - data[i - 1].views) : 0,
+  }));
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 p-5">
+      <h3 className="text-sm font-semibold text-slate-700 mb-4">
+        フォロワー・閲覧数の推移
+      </h3>
+      {chartData.length > 1 ? (
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+              <XAxis
+                dataKey="date"
+                tick={{ fontSize: 10 }}
+                stroke="#94a3b8"
+                interval="preserveStartEnd"
+              />
+              <YAxis yAxisId="followers" tick={{ fontSize: 10 }} stroke="#94a3b8" />
+              <YAxis yAxisId="views" orientation="right" tick={{ fontSize: 10 }} stroke="#94a3b8" />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: '#fff',
+                  border: '1px solid #e2e8f0',
+                  borderRadius: '8px',
+                }}
+              />
+              <Legend />
+              <Line
+                yAxisId="followers"
+                type="monotone"
+                dataKey="followers"
+                stroke="#8b5cf6"
+                strokeWidth={2}
+                dot={false}
+                name="フォロワー"
+              />
+              <Line
+                yAxisId="views"
+                type="monotone"
+                dataKey="viewsGained"
+                stroke="#06b6d4"
+                strokeWidth={2}
+                dot={false}
+                name="閲覧数（日別増加）"
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      ) : (
+        <p className="text-slate-500 text-sm text-center py-8">
+          履歴データが蓄積されるとグラフが表示されます
+        </p>
+      )}
+    </div>
+  );
+}
+
 // ハッシュタグパフォーマンス
 export function HashtagChart({
   data,
@@ -4,6 +4,7 @@ interface KPICardProps {
   title: string;
   value: string | number;
   change?: number;
+  changeLabel?: string; // 増減の比較対象（例: vs 前週）
   icon?: React.ReactNode;
   suffix?: string;
   description?: string;
@@ -13,6 +14,7 @@ export function KPICard({
   title,
   value,
   change,
+  changeLabel = 'vs 前週',
   icon,
   suffix = '',
   description,
@@ -41,7 +43,7 @@ export function KPICard({
               >
                 {isPositive ? '↑' : '↓'} {Math.abs(change).toFixed(1)}%
               </span>
-              <span className="text-xs text-slate-400">vs 前週</span>
+              <span className="text-xs text-slate-400">{changeLabel}</span>
             </div>
           )}
           {description && (
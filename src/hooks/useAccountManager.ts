@@ -7,19 +7,21 @@ export interface Account {
   username: string;
   name?: string;
   profilePicture?: string;
-  accessToken: string;
   addedAt: string;
   // Meta App設定（アカウントごと）
   appId?: string;
   appSecret?: string;
   // トークン有効期限
   tokenExpiresAt?: string; // ISO 8601形式
+  // サーバーで失効を検出したトークンは invalid（再認証が必要）
+  tokenStatus?: 'valid' | 'invalid';
 }
 
 // トークンの状態を判定するユーティリティ
-export type TokenStatus = 'valid' | 'expiring_soon' | 'expired' | 'unknown';
+export type TokenStatus = 'valid' | 'expiring_soon' | 'expired' | 'invalid' | 'unknown';
 
-export function getTokenStatus(expiresAt?: string): TokenStatus {
+export function getTokenStatus(expiresAt?: string, serverStatus?: Account['tokenStatus']): TokenStatus {
+  if (serverStatus === 'invalid') return 'invalid';
   if (!expiresAt) return 'unknown';
 
   const now = new Date();
@@ -39,6 +41,34 @@ export function getDaysUntilExpiry(expiresAt?: string): number | null {
   return Math.ceil((expiry.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
 }
 
+// 以前のバージョンではアクセストークンもlocalStorageに保存していた
+type StoredAccount = Account & { accessToken?: string };
+
+interface ServerAccount {
+  threadsUserId: string;
+  username: string;
+  name: string | null;
+  profilePicture: string | null;
+  tokenExpiresAt: string | null;
+  tokenStatus: 'valid' | 'invalid';
+  createdAt: string;
+}
+
+// サーバーのアカウント情報に、ブラウザだけに保存しているApp設定を重ねる
+function toAccount(serverAccount: ServerAccount, local?: Account): Account {
+  return {
+    id: serverAccount.threadsUserId,
+    username: serverAccount.username,
+    name: serverAccount.name ?? undefined,
+    profilePicture: serverAccount.profilePicture ?? undefined,
+    addedAt: local?.addedAt || serverAccount.createdAt,
+    appId: local?.appId,
+    appSecret: local?.appSecret,
+    tokenExpiresAt: serverAccount.tokenExpiresAt ?? local?.tokenExpiresAt,
+    tokenStatus: serverAccount.tokenStatus,
+  };
+}
+
 const STORAGE_KEY = 'threads_accounts';
 const CURRENT_ACCOUNT_KEY = 'threads_current_account';
 
@@ -47,7 +77,8 @@ export function useAccountManager() {
   const [currentAccountId, setCurrentAccountId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
-  // Load accounts from localStorage and sync to database
+  // Load accounts from localStorage and merge with the database
+  // アクセストークンはサーバーで暗号化して保存し、ブラウザには残さない
   useEffect(() => {
     if (typeof window === 'undefined') return;
 
@@ -55,13 +86,12 @@ export function useAccountManager() {
       const savedAccounts = localStorage.getItem(STORAGE_KEY);
       const savedCurrentId = localStorage.getItem(CURRENT_ACCOUNT_KEY);
 
-      let localAccounts: Account[] = [];
+      let localAccounts: StoredAccount[] = [];
       if (savedAccounts) {
         try {
           localAccounts = JSON.parse(savedAccounts);
-          setAccounts(localAccounts);
         } catch {
-          setAccounts([]);
+          localAccounts = [];
         }
       }
 
@@ -69,27 +99,43 @@ export function useAccountManager() {
         setCurrentAccountId(savedCurrentId);
       }
 
-      // localStorageのアカウントをデータベースに同期
-      if (localAccounts.length > 0) {
-        for (const account of localAccounts) {
-          try {
-            await fetch('/api/accounts', {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({
-                threadsUserId: account.id,
-                username: account.username,
-                name: account.name,
-                profilePicture: account.profilePicture,
-                accessToken: account.accessToken,
-              }),
-            });
-          } catch (err) {
-            console.log('Failed to sync account to database', err);
-          }
+      // 以前のバージョンでlocalStorageに保存したトークンをサーバーへ移し、ブラウザから削除する
+      for (const account of localAccounts) {
+        if (!account.accessToken) continue;
+        try {
+          const res = await fetch('/api/accounts', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              accessToken: account.accessToken,
+              tokenExpiresAt: account.tokenExpiresAt,
+              timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+            }),
+          });
+          // 移行できなかったトークンは次回の読み込み時に再試行する
+          if (res.ok) delete account.accessToken;
+        } catch (err) {
+          console.log('Failed to migrate account token to database', err);
+        }
+      }
+
+      let merged: Account[] = localAccounts;
+      try {
+        const res = await fetch('/api/accounts');
+        if (res.ok) {
+          const data = await res.json();
+          merged = (data.accounts as ServerAccount[]).map(serverAccount =>
+            toAccount(serverAccount, localAccounts.find(a => a.id === serverAccount.threadsUserId))
+          );
         }
+      } catch (err) {
+        console.log('Failed to load accounts from database', err);
       }
 
+      // 移行できなかったトークンだけをlocalStorageに残す
+      const pending = localAccounts.filter(a => a.accessToken && !merged.some(m => m.id === a.id));
+      localStorage.setItem(STORAGE_KEY, JSON.stringify([...merged, ...pending]));
+      setAccounts(merged);
       setIsLoading(false);
     };
 
@@ -116,51 +162,31 @@ export function useAccountManager() {
     options?: AddAccountOptions
   ): Promise<{ success: boolean; error?: string; account?: Account }> => {
     try {
-      // Fetch profile with the token
-      const res = await fetch(`/api/threads/status?token=${encodeURIComponent(accessToken)}`);
-      if (!res.ok) {
-        return { success: false, error: 'Invalid access token' };
-      }
-
+      // トークンはサーバーで検証して暗号化保存する（ブラウザには保存しない）
+      const res = await fetch('/api/accounts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          accessToken,
+          tokenExpiresAt: options?.tokenExpiresAt,
+          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        }),
+      });
       const data = await res.json();
-      if (!data.connected || !data.user) {
-        return { success: false, error: 'Could not verify account' };
+      if (!res.ok || !data.account) {
+        return { success: false, error: data.error || 'Could not verify account' };
       }
 
       // 既存のアカウント情報を取得（App設定を保持するため）
-      const existingAccount = accounts.find(a => a.id === data.user.id);
+      const existingAccount = accounts.find(a => a.id === data.account.threadsUserId);
 
       const newAccount: Account = {
-        id: data.user.id,
-        username: data.user.username,
-        name: data.user.name,
-        profilePicture: data.user.threads_profile_picture_url,
-        accessToken,
-        addedAt: existingAccount?.addedAt || new Date().toISOString(),
+        ...toAccount(data.account, existingAccount),
         // App設定: 新しい値 > 既存値
         appId: options?.appId ?? existingAccount?.appId,
         appSecret: options?.appSecret ?? existingAccount?.appSecret,
-        // トークン有効期限
-        tokenExpiresAt: options?.tokenExpiresAt ?? existingAccount?.tokenExpiresAt,
       };
 
-      // データベースにも保存
-      try {
-        await fetch('/api/accounts', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            threadsUserId: data.user.id,
-            username: data.user.username,
-            name: data.user.name,
-            profilePicture: data.user.threads_profile_picture_url,
-            accessToken,
-          }),
-        });
-      } catch (dbErr) {
-        console.log('Failed to save to database, continuing with localStorage', dbErr);
-      }
-
       // Check if account already exists
       const existingIndex = accounts.findIndex(a => a.id === newAccount.id);
       let newAccounts: Account[];
@@ -26,7 +26,7 @@ export function useThreadsAuth() {
     try {
       const response = await fetch('/api/threads/status');
       const data = await response.json();
-      setStatus(data);
+      setStatus(response.ok ? data : { connected: false, user: null, error: data.error || 'Failed to check status' });
     } catch {
       setStatus({ connected: false, user: null, error: 'Failed to check status' });
     } finally {
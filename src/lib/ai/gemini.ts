@@ -0,0 +1,126 @@
+// Threads Studio - Gemini テキスト生成
+
+export const GEMINI_TEXT_MODEL = 'gemini-flash-latest';
+
+export interface GeminiGenerationConfig {
+  temperature: number;
+  maxOutputTokens: number;
+  topP?: number;
+  topK?: number;
+}
+
+// Gemini API でテキストを生成（失敗時は Error）
+export async function generateGeminiText(
+  prompt: string,
+  apiKey: string,
+  config: GeminiGenerationConfig
+): Promise<{ text: string; finishReason?: string }> {
+  const response = await fetch(
+    `https://generativelanguage.googleapis.com/v1beta/models/${GEMINI_TEXT_MODEL}:generateContent?key=${apiKey}`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        contents: [
+          {
+            parts: [
+              { text: prompt }
+            ]
+          }
+        ],
+        generationConfig: config,
+      }),
+    }
+  );
+
+  if (!response.ok) {
+    const error = await response.json();
+    console.error('Gemini API error:', error);
+
+    // より詳細なエラーメッセージ
+    const errorMessage = error.error?.message || 'Text generation failed';
+    if (errorMessage.includes('API key')) {
+      throw new Error('APIキーが無効です。正しいGemini APIキーを設定してください。');
+    }
+    throw new Error(errorMessage);
+  }
+
+  const data = await response.json();
+
+  const text = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
+
+  // 生成が途中で止まった場合のチェック
+  const finishReason = data.candidates?.[0]?.finishReason;
+  if (finishReason && finishReason !== 'STOP') {
+    console.warn('Generation did not complete normally:', finishReason);
+  }
+
+  return { text, finishReason };
+}
+
+// 生成テキストのクリーンアップ（マークダウン記号の除去）
+export function cleanGeneratedText(generatedText: string): string {
+  let cleanedText = generatedText.trim();
+
+  // コードブロックの削除
+  cleanedText = cleanedText
+    .replace(/^```[a-z]*\n?/gm, '')
+    .replace(/```$/gm, '');
+
+  // マークダウン記号の除去
+  return cleanedText
+    // 見出し記号（###、##、#）を削除
+    .replace(/^#{1,6}\s*/gm, '')
+    // 強調記号（**text** や *text*）からテキストを抽出
+    .replace(/\*\*([^*]+)\*\*/g, '$1')
+    .replace(/\*([^*]+)\*/g, '$1')
+    // リスト記号（- や *）を「・」に変換
+    .replace(/^[\-\*]\s+/gm, '・')
+    // 引用記号を削除
+    .replace(/^>\s*/gm, '')
+    // 連続する空行を1つに
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// リプライへの返信文を生成
+export async function generateReplyDraft(
+  apiKey: string,
+  input: {
+    instructions?: string | null;
+    postText?: string | null;
+    replyText: string;
+    username: string;
+  }
+): Promise<string> {
+  const prompt = `あなたはThreads（スレッズ）のアカウント運営者です。
+自分の投稿に届いたリプライに、アカウント本人として返信します。
+
+【元の投稿】
+${input.postText || '（本文なし）'}
+
+【届いたリプライ】
+@${input.username}: ${input.replyText || '（本文なし）'}
+
+${input.instructions ? `【返信の方針】\n${input.instructions}\n` : ''}
+【出力ルール - 必ず守ること】
+- 返信文のみを出力してください（前置き・説明・候補の列挙は不要）
+- 200文字以内で、相手のリプライの内容に具体的に触れてください
+- 事実が分からないことは断定せず、約束や個人情報の要求はしないでください
+- マークダウン記法やハッシュタグは使用しないでください
+- 相手への呼びかけが必要な場合は @${input.username} を使ってください`;
+
+  const { text } = await generateGeminiText(prompt, apiKey, {
+    temperature: 0.7,
+    maxOutputTokens: 512,
+    topP: 0.9,
+  });
+
+  const draft = cleanGeneratedText(text).slice(0, 500);
+  if (!draft) {
+    throw new Error('返信文を生成できませんでした');
+  }
+  return draft;
+}
@@ -0,0 +1,49 @@
+// Threads Studio - AI生成回数の制限
+
+import { prisma } from '@/lib/db';
+
+// プラン別AI生成制限（1日あたり）
+export const AI_LIMITS: Record<string, number> = {
+  free: 10,
+  standard: 30,
+  pro: 100,
+};
+
+// 生成1回分の使用量を記録（上限に達している場合は記録せず allowed: false）
+export async function consumeAIUsage(userId: string): Promise<{ allowed: boolean; plan: string; limit: number }> {
+  if (!prisma) return { allowed: true, plan: 'free', limit: AI_LIMITS.free };
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+  });
+
+  const plan = user?.plan || 'free';
+  const dailyLimit = AI_LIMITS[plan] || AI_LIMITS.free;
+
+  if (!user || user.role === 'ADMIN') {
+    return { allowed: true, plan, limit: dailyLimit };
+  }
+
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+
+  // リセット日が今日より前ならカウントをリセット
+  const resetDate = user.aiUsageResetDate ? new Date(user.aiUsageResetDate) : null;
+  const needsReset = !resetDate || resetDate < today;
+  const currentCount = needsReset ? 0 : (user.aiUsageCount || 0);
+
+  if (currentCount >= dailyLimit) {
+    return { allowed: false, plan, limit: dailyLimit };
+  }
+
+  // 使用量を更新
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      aiUsageCount: needsReset ? 1 : currentCount + 1,
+      aiUsageResetDate: today,
+    },
+  });
+
+  return { allowed: true, plan, limit: dailyLimit };
+}
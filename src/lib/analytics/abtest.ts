@@ -0,0 +1,307 @@
+// Threads Studio - A/Bテスト（計測・有意差判定）
+
+import { prisma } from '@/lib/db';
+import { createAccountClient } from '@/lib/threads/accounts';
+
+// 投稿後にインサイトを計測する時点（時間）
+export const AB_TEST_HORIZONS = [1, 24, 72];
+export const AB_TEST_CONFIDENCE_LEVELS = [0.9, 0.95, 0.99];
+export const AB_TEST_MAX_VARIANTS = 6;
+
+// 勝者判定に必要な各バリアントの最低閲覧数
+const MIN_VIEWS_FOR_WINNER = 100;
+const HOUR_MS = 60 * 60 * 1000;
+
+const Z_SCORES: Record<string, number> = {
+  '0.9': 1.645,
+  '0.95': 1.96,
+  '0.99': 2.576,
+};
+
+export interface VariantCounts {
+  id: string;
+  label: string;
+  views: number;
+  engagements: number; // いいね + 返信 + 再投稿 + 引用 + シェア
+}
+
+export interface VariantStats extends VariantCounts {
+  rate: number; // エンゲージメント率
+  rateInterval: [number, number];
+  // 対照群（A）との比較。対照群自身はnull
+  lift: number | null; // 相対リフト（0.1 = +10%）
+  liftInterval: [number, number] | null;
+  pValue: number | null;
+}
+
+export interface ABTestEvaluation {
+  horizonHours: number;
+  variants: VariantStats[];
+  leaderId: string | null;
+  winnerId: string | null; // 他のすべてのバリアントに有意差がある場合のみ
+}
+
+// ===================================
+// 統計
+// ===================================
+
+// 標準正規分布の累積分布関数（Abramowitz-Stegun 7.1.26）
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+function zForConfidence(confidenceLevel: number): number {
+  return Z_SCORES[String(confidenceLevel)] ?? Z_SCORES['0.95'];
+}
+
+// 比率の信頼区間（Wilson）
+export function wilsonInterval(successes: number, trials: number, z: number): [number, number] {
+  if (trials === 0) return [0, 0];
+  const p = successes / trials;
+  const denominator = 1 + (z * z) / trials;
+  const center = (p + (z * z) / (2 * trials)) / denominator;
+  const margin = (z * Math.sqrt((p * (1 - p)) / trials + (z * z) / (4 * trials * trials))) / denominator;
+  return [Math.max(0, center - margin), Math.min(1, center + margin)];
+}
+
+// 2群の比率の差の検定（両側）
+export function twoProportionZTest(a: VariantCounts, b: VariantCounts): { z: number; pValue: number } {
+  if (a.views === 0 || b.views === 0) return { z: 0, pValue: 1 };
+
+  const pooled = (a.engagements + b.engagements) / (a.views + b.views);
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / a.views + 1 / b.views));
+  if (se === 0) return { z: 0, pValue: 1 };
+
+  const z = (a.engagements / a.views - b.engagements / b.views) / se;
+  return { z, pValue: 2 * (1 - normalCdf(Math.abs(z))) };
+}
+
+// 各バリアントのエンゲージメント率を比較し、勝者を判定
+// 3つ以上の場合は Bonferroni 補正（首位と他の各バリアントとの比較回数で有意水準を割る）
+export function evaluateVariants(
+  counts: VariantCounts[],
+  confidenceLevel: number,
+  horizonHours: number
+): ABTestEvaluation {
+  const z = zForConfidence(confidenceLevel);
+  const normalized = counts.map(c => ({
+    ...c,
+    engagements: Math.min(c.engagements, c.views),
+  }));
+  const control = normalized[0];
+  const controlRate = control && control.views > 0 ? control.engagements / control.views : 0;
+
+  const variants: VariantStats[] = normalized.map((c, index) => {
+    const rate = c.views > 0 ? c.engagements / c.views : 0;
+    const stats: VariantStats = {
+      ...c,
+      rate,
+      rateInterval: wilsonInterval(c.engagements, c.views, z),
+      lift: null,
+      liftInterval: null,
+      pValue: null,
+    };
+
+    if (index > 0 && control.views > 0 && c.views > 0) {
+      const diff = rate - controlRate;
+      const se = Math.sqrt((rate * (1 - rate)) / c.views + (controlRate * (1 - controlRate)) / control.views);
+      stats.pValue = twoProportionZTest(c, control).pValue;
+      if (controlRate > 0) {
+        stats.lift = diff / controlRate;
+        stats.liftInterval = [(diff - z * se) / controlRate, (diff + z * se) / controlRate];
+      }
+    }
+
+    return stats;
+  });
+
+  const sorted = [...variants].sort((a, b) => b.rate - a.rate);
+  const leader = sorted[0] && sorted[0].views > 0 && sorted[0].rate > (sorted[1]?.rate ?? -1) ? sorted[0] : null;
+
+  let winnerId: string | null = null;
+  if (leader && variants.every(v => v.views >= MIN_VIEWS_FOR_WINNER)) {
+    const alpha = (1 - confidenceLevel) / Math.max(1, variants.length - 1);
+    const beatsAll = variants
+      .filter(v => v.id !== leader.id)
+      .every(v => twoProportionZTest(leader, v).pValue < alpha);
+    if (beatsAll) winnerId = leader.id;
+  }
+
+  return {
+    horizonHours,
+    variants,
+    leaderId: leader?.id ?? null,
+    winnerId,
+  };
+}
+
+// ===================================
+// 計測・判定
+// ===================================
+
+interface MeasurementRow {
+  horizonHours: number;
+  views: number;
+  likes: number;
+  replies: number;
+  reposts: number;
+  quotes: number;
+  shares: number;
+}
+
+function countEngagements(m: MeasurementRow): number {
+  return m.likes + m.replies + m.reposts + m.quotes + m.shares;
+}
+
+// 全バリアントの計測が揃っている時点ごとに評価
+export function buildEvaluations(test: {
+  confidenceLevel: number;
+  variants: Array<{ id: string; label: string; measurements: MeasurementRow[] }>;
+}): ABTestEvaluation[] {
+  const evaluations: ABTestEvaluation[] = [];
+
+  for (const horizon of AB_TEST_HORIZONS) {
+    const counts: VariantCounts[] = [];
+    for (const variant of test.variants) {
+      const measurement = variant.measurements.find(m => m.horizonHours === horizon);
+      if (!measurement) break;
+      counts.push({
+        id: variant.id,
+        label: variant.label,
+        views: measurement.views,
+        engagements: countEngagements(measurement),
+      });
+    }
+
+    if (counts.length === test.variants.length && counts.length >= 2) {
+      evaluations.push(evaluateVariants(counts, test.confidenceLevel, horizon));
+    }
+  }
+
+  return evaluations;
+}
+
+// 判定時点以降に勝者が決まった場合、または最終時点まで計測した場合にテストを終了
+export function getConclusion(
+  primaryHorizon: number,
+  evaluations: ABTestEvaluation[]
+): { concluded: boolean; winnerId: string | null } {
+  const decisive = evaluations.find(e => e.horizonHours >= primaryHorizon && e.winnerId);
+  if (decisive) {
+    return { concluded: true, winnerId: decisive.winnerId };
+  }
+
+  const finalHorizon = AB_TEST_HORIZONS[AB_TEST_HORIZONS.length - 1];
+  const concluded = evaluations.some(e => e.horizonHours === finalHorizon);
+  return { concluded, winnerId: null };
+}
+
+// 今回計測する時点（なければnull）
+// Cronの停止などで複数の時点を過ぎていた場合は最後の時点だけを記録する。現在の値を
+// それより前の時点の値として保存すると比較が歪むため、過ぎた時点は計測なし（評価対象外）とする
+export function getDueHorizon(publishedAt: Date, measuredHorizons: number[], now: Date): number | null {
+  const latestMeasured = Math.max(0, ...measuredHorizons);
+  const due = AB_TEST_HORIZONS.filter(h =>
+    h > latestMeasured && now.getTime() >= publishedAt.getTime() + h * HOUR_MS
+  );
+  return due.length > 0 ? due[due.length - 1] : null;
+}
+
+// 実行中のテストのインサイトを計測し、必要に応じて勝者を判定
+export async function collectABTestMeasurements(now = new Date()): Promise<Array<{
+  testId: string;
+  measured: number;
+  status: string;
+  winnerVariantId: string | null;
+  errors: string[];
+}>> {
+  if (!prisma) return [];
+
+  const tests = await prisma.aBTest.findMany({
+    where: { status: 'running' },
+    include: {
+      account: { select: { accessToken: true } },
+      variants: {
+        orderBy: { label: 'asc' },
+        include: {
+          scheduledPost: { select: { status: true, postedId: true, updatedAt: true } },
+          measurements: true,
+        },
+      },
+    },
+  });
+
+  const results = [];
+
+  for (const test of tests) {
+    const client = createAccountClient(test.account);
+    const errors: string[] = [];
+    let measured = 0;
+
+    for (const variant of test.variants) {
+      const post = variant.scheduledPost;
+      if (!post || post.status !== 'completed' || !post.postedId) continue;
+
+      // 投稿完了時刻（予約投稿の完了記録時刻）を計測の起点にする
+      let publishedAt = variant.publishedAt;
+      if (!publishedAt) {
+        publishedAt = post.updatedAt;
+        await prisma.aBTestVariant.update({
+          where: { id: variant.id },
+          data: { publishedAt },
+        });
+      }
+
+      const horizonHours = getDueHorizon(publishedAt, variant.measurements.map(m => m.horizonHours), now);
+      if (horizonHours === null) continue;
+
+      try {
+        const insights = await client.getMediaInsights(post.postedId);
+        const data = {
+          views: insights.views,
+          likes: insights.likes,
+          replies: insights.replies,
+          reposts: insights.reposts,
+          quotes: insights.quotes,
+          shares: insights.shares,
+          measuredAt: now,
+        };
+
+        const measurement = await prisma.aBTestMeasurement.upsert({
+          where: { variantId_horizonHours: { variantId: variant.id, horizonHours } },
+          create: { variantId: variant.id, horizonHours, ...data },
+          update: data,
+        });
+        variant.measurements.push(measurement);
+        measured++;
+      } catch (error) {
+        errors.push(`${variant.label}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    const conclusion = getConclusion(test.primaryHorizon, buildEvaluations(test));
+    if (conclusion.concluded) {
+      await prisma.aBTest.update({
+        where: { id: test.id },
+        data: {
+          status: 'completed',
+          winnerVariantId: conclusion.winnerId,
+          concludedAt: now,
+        },
+      });
+    }
+
+    results.push({
+      testId: test.id,
+      measured,
+      status: conclusion.concluded ? 'completed' : 'running',
+      winnerVariantId: conclusion.winnerId,
+      errors,
+    });
+  }
+
+  return results;
+}
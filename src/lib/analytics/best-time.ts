@@ -0,0 +1,154 @@
+// Threads Studio - 投稿時間の推定（曜日・時間帯ごとの反応）
+//
+// 単純平均だと1件のバズ投稿だけでその時間帯が「ベスト」になるため、
+// 時間帯ごとの平均をアカウント全体の平均に近づける（ベイズ縮小推定）。
+//   推定値 = (k × 全体平均 + Σ重み×反応) / (k + Σ重み)
+// 投稿が少ない時間帯ほど全体平均に近くなり、95%区間も広くなる。
+// 曜日・時間はサーバーではなく、ユーザーが選んだタイムゾーンで数える。
+
+import { DEFAULT_TIMEZONE, getWallTime, isValidTimezone } from '@/lib/scheduler/recurrence';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const Z_95 = 1.96;
+
+// 全体平均を何件分の投稿として扱うか（大きいほど強く縮小する）
+export const DEFAULT_PRIOR_STRENGTH = 5;
+// これより投稿が少ない時間帯はおすすめに含めない
+export const DEFAULT_MIN_SAMPLES = 3;
+// 直近を重視する場合の半減期（この日数前の投稿は重みが半分）
+export const DEFAULT_RECENCY_HALF_LIFE_DAYS = 60;
+
+export interface TimeAnalysisOptions {
+  timezone?: string | null;
+  recencyHalfLifeDays?: number | null; // null / 未指定は重み付けしない
+  priorStrength?: number;
+  minSamples?: number;
+  now?: Date;
+}
+
+export interface SlotEstimate {
+  avgEngagement: number; // 縮小推定した1投稿あたりの反応
+  rawAvgEngagement: number; // 単純平均
+  lower: number; // 95%区間の下限
+  upper: number; // 95%区間の上限
+  count: number; // 投稿数
+  reliable: boolean; // 投稿数が最小サンプル数以上か
+}
+
+interface TimedSample {
+  day: number; // 0-6 (日-土)
+  hour: number; // 0-23
+  engagement: number;
+  weight: number;
+}
+
+export function resolveTimezone(timezone: string | null | undefined): string {
+  return timezone && isValidTimezone(timezone) ? timezone : DEFAULT_TIMEZONE;
+}
+
+// 投稿日時をタイムゾーンの曜日・時間に変換
+export function getLocalDayHour(date: Date, timezone: string): { day: number; hour: number } {
+  const wall = getWallTime(date, timezone);
+  return {
+    day: new Date(Date.UTC(wall.year, wall.month - 1, wall.day)).getUTCDay(),
+    hour: wall.hour,
+  };
+}
+
+export function toTimedSamples(
+  posts: Array<{ timestamp: string; insights: { likes: number; replies: number; reposts: number; quotes: number } }>,
+  options: TimeAnalysisOptions = {}
+): TimedSample[] {
+  const timezone = resolveTimezone(options.timezone);
+  const now = (options.now ?? new Date()).getTime();
+  const halfLife = options.recencyHalfLifeDays;
+
+  return posts.map(post => {
+    const date = new Date(post.timestamp);
+    const ageDays = Math.max(0, (now - date.getTime()) / DAY_MS);
+    return {
+      ...getLocalDayHour(date, timezone),
+      engagement: post.insights.likes + post.insights.replies + post.insights.reposts + post.insights.quotes,
+      weight: halfLife && halfLife > 0 ? Math.pow(0.5, ageDays / halfLife) : 1,
+    };
+  });
+}
+
+// アカウント全体の（重み付き）平均と分散
+function getPrior(samples: TimedSample[]): { mean: number; variance: number } {
+  const totalWeight = samples.reduce((sum, s) => sum + s.weight, 0);
+  if (totalWeight === 0) return { mean: 0, variance: 0 };
+
+  const mean = samples.reduce((sum, s) => sum + s.weight * s.engagement, 0) / totalWeight;
+  const variance = samples.reduce((sum, s) => sum + s.weight * (s.engagement - mean) ** 2, 0) / totalWeight;
+  return { mean, variance };
+}
+
+function estimateSlot(
+  slot: TimedSample[],
+  prior: { mean: number; variance: number },
+  options: TimeAnalysisOptions
+): SlotEstimate {
+  const k = options.priorStrength ?? DEFAULT_PRIOR_STRENGTH;
+  const weight = slot.reduce((sum, s) => sum + s.weight, 0);
+  const weighted = slot.reduce((sum, s) => sum + s.weight * s.engagement, 0);
+  const squaredWeights = slot.reduce((sum, s) => sum + s.weight ** 2, 0);
+  // 重み付けした場合の実効サンプル数
+  const effectiveCount = squaredWeights > 0 ? weight ** 2 / squaredWeights : 0;
+
+  const avgEngagement = (k * prior.mean + weighted) / (k + weight);
+  const margin = Z_95 * Math.sqrt(prior.variance / (k + effectiveCount));
+
+  return {
+    avgEngagement,
+    rawAvgEngagement: weight > 0 ? weighted / weight : 0,
+    lower: Math.max(0, avgEngagement - margin),
+    upper: avgEngagement + margin,
+    count: slot.length,
+    reliable: slot.length >= (options.minSamples ?? DEFAULT_MIN_SAMPLES),
+  };
+}
+
+// 信頼できる時間帯を優先し、推定値の高い順
+function compareSlots(a: SlotEstimate, b: SlotEstimate): number {
+  if (a.reliable !== b.reliable) return a.reliable ? -1 : 1;
+  return b.avgEngagement - a.avgEngagement;
+}
+
+// 時間帯別（投稿がある時間帯のみ）
+export function estimateByHour(samples: TimedSample[], options: TimeAnalysisOptions = {}): Array<{ hour: number } & SlotEstimate> {
+  const prior = getPrior(samples);
+  return Array.from({ length: 24 }, (_, hour) => samples.filter(s => s.hour === hour))
+    .map((slot, hour) => ({ hour, slot }))
+    .filter(({ slot }) => slot.length > 0)
+    .map(({ hour, slot }) => ({ hour, ...estimateSlot(slot, prior, options) }))
+    .sort(compareSlots);
+}
+
+// 曜日別（投稿がある曜日のみ）
+export function estimateByDay(samples: TimedSample[], options: TimeAnalysisOptions = {}): Array<{ day: number } & SlotEstimate> {
+  const prior = getPrior(samples);
+  return Array.from({ length: 7 }, (_, day) => samples.filter(s => s.day === day))
+    .map((slot, day) => ({ day, slot }))
+    .filter(({ slot }) => slot.length > 0)
+    .map(({ day, slot }) => ({ day, ...estimateSlot(slot, prior, options) }))
+    .sort(compareSlots);
+}
+
+// 曜日×時間帯（168マスすべて。投稿がないマスは推定値0）
+export function estimateByDayHour(samples: TimedSample[], options: TimeAnalysisOptions = {}): Array<{ day: number; hour: number } & SlotEstimate> {
+  const prior = getPrior(samples);
+  const cells: Array<{ day: number; hour: number } & SlotEstimate> = [];
+
+  for (let day = 0; day < 7; day++) {
+    for (let hour = 0; hour < 24; hour++) {
+      const slot = samples.filter(s => s.day === day && s.hour === hour);
+      cells.push(
+        slot.length > 0
+          ? { day, hour, ...estimateSlot(slot, prior, options) }
+          : { day, hour, avgEngagement: 0, rawAvgEngagement: 0, lower: 0, upper: 0, count: 0, reliable: false }
+      );
+    }
+  }
+  return cells;
+}
@@ -1,7 +1,15 @@
 // Threads Studio - 分析ロジック
 
-import { format, parseISO, getDay, getHours, differenceInDays } from 'date-fns';
+import { format, parseISO, differenceInDays } from 'date-fns';
 import { ja } from 'date-fns/locale';
+import {
+  estimateByDay,
+  estimateByDayHour,
+  estimateByHour,
+  toTimedSamples,
+  type SlotEstimate,
+  type TimeAnalysisOptions,
+} from './best-time';
 
 export interface PostData {
   id: string;
@@ -37,9 +45,9 @@ export interface AnalyticsResult {
   topPosts: PostData[];
   worstPosts: PostData[];
 
-  // 投稿時間分析
-  bestPostingHours: Array<{ hour: number; avgEngagement: number }>;
-  bestPostingDays: Array<{ day: string; avgEngagement: number }>;
+  // 投稿時間分析（avgEngagement は全体平均へ縮小した推定値。信頼できる時間帯が先頭）
+  bestPostingHours: Array<{ hour: number } & SlotEstimate>;
+  bestPostingDays: Array<{ day: string } & SlotEstimate>;
 
   // コンテンツ分析
   contentAnalysis: {
@@ -121,8 +129,8 @@ function getDayName(dayIndex: number): string {
   return days[dayIndex];
 }
 
-// メイン分析関数
-export function analyzePostsPerformance(posts: PostData[]): AnalyticsResult {
+// メイン分析関数（曜日・時間帯は options.timezone で数える）
+export function analyzePostsPerformance(posts: PostData[], options: TimeAnalysisOptions = {}): AnalyticsResult {
   if (posts.length === 0) {
     return getEmptyAnalyticsResult();
   }
@@ -135,10 +143,6 @@ export function analyzePostsPerformance(posts: PostData[]): AnalyticsResult {
   let totalQuotes = 0;
   let totalShares = 0;
 
-  // 投稿時間別集計
-  const hourlyEngagement: Record<number, { total: number; count: number }> = {};
-  const dailyEngagement: Record<number, { total: number; count: number }> = {};
-
   // コンテンツ分析用
   let totalTextLength = 0;
   const textLengthGroups: Record<string, { total: number; count: number }> = {};
@@ -165,19 +169,6 @@ export function analyzePostsPerformance(posts: PostData[]): AnalyticsResult {
     totalQuotes += quotes;
     totalShares += shares;
 
-    // 投稿時間分析
-    const postDate = parseISO(post.timestamp);
-    const hour = getHours(postDate);
-    const day = getDay(postDate);
-
-    if (!hourlyEngagement[hour]) hourlyEngagement[hour] = { total: 0, count: 0 };
-    hourlyEngagement[hour].total += engagement;
-    hourlyEngagement[hour].count += 1;
-
-    if (!dailyEngagement[day]) dailyEngagement[day] = { total: 0, count: 0 };
-    dailyEngagement[day].total += engagement;
-    dailyEngagement[day].count += 1;
-
     // テキスト分析
     const textLength = post.text?.length || 0;
     totalTextLength += textLength;
@@ -219,19 +210,12 @@ export function analyzePostsPerformance(posts: PostData[]): AnalyticsResult {
   const worstPosts = sortedPosts.slice(-5).reverse();
 
   // 時間別分析結果
-  const bestPostingHours = Object.entries(hourlyEngagement)
-    .map(([hour, data]) => ({
-      hour: parseInt(hour),
-      avgEngagement: data.count > 0 ? data.total / data.count : 0,
-    }))
-    .sort((a, b) => b.avgEngagement - a.avgEngagement);
-
-  const bestPostingDays = Object.entries(dailyEngagement)
-    .map(([day, data]) => ({
-      day: getDayName(parseInt(day)),
-      avgEngagement: data.count > 0 ? data.total / data.count : 0,
-    }))
-    .sort((a, b) => b.avgEngagement - a.avgEngagement);
+  const samples = toTimedSamples(posts, options);
+  const bestPostingHours = estimateByHour(samples, options);
+  const bestPostingDays = estimateByDay(samples, options).map(({ day, ...estimate }) => ({
+    day: getDayName(day),
+    ...estimate,
+  }));
 
   // テキスト長さ相関
   const textLengthCorrelation = Object.entries(textLengthGroups)
@@ -540,40 +524,23 @@ export function analyzeKeywords(posts: PostData[]): KeywordAnalysis[] {
 export interface HeatmapData {
   day: number; // 0-6 (日-土)
   hour: number; // 0-23
-  value: number; // エンゲージメント
+  value: number; // エンゲージメント（縮小推定値）
   count: number; // 投稿数
+  lower: number; // 95%区間
+  upper: number;
+  reliable: boolean; // 投稿数が最小サンプル数以上か
 }
 
-export function generateHeatmapData(posts: PostData[]): HeatmapData[] {
-  const heatmap: Record<string, { value: number; count: number }> = {};
-
-  // 初期化
-  for (let day = 0; day < 7; day++) {
-    for (let hour = 0; hour < 24; hour++) {
-      heatmap[`${day}-${hour}`] = { value: 0, count: 0 };
-    }
-  }
-
-  for (const post of posts) {
-    const date = parseISO(post.timestamp);
-    const day = getDay(date);
-    const hour = getHours(date);
-    const key = `${day}-${hour}`;
-    const engagement = post.insights.likes + post.insights.replies + post.insights.reposts + post.insights.quotes;
-
-    heatmap[key].value += engagement;
-    heatmap[key].count += 1;
-  }
-
-  return Object.entries(heatmap).map(([key, data]) => {
-    const [day, hour] = key.split('-').map(Number);
-    return {
-      day,
-      hour,
-      value: data.count > 0 ? data.value / data.count : 0,
-      count: data.count,
-    };
-  });
+export function generateHeatmapData(posts: PostData[], options: TimeAnalysisOptions = {}): HeatmapData[] {
+  return estimateByDayHour(toTimedSamples(posts, options), options).map(cell => ({
+    day: cell.day,
+    hour: cell.hour,
+    value: cell.avgEngagement,
+    count: cell.count,
+    lower: cell.lower,
+    upper: cell.upper,
+    reliable: cell.reliable,
+  }));
 }
 
 // AIインサイト生成
@@ -604,9 +571,9 @@ export function generateAIInsights(analytics: AnalyticsResult, posts: PostData[]
     });
   }
 
-  // 最適投稿時間
-  if (analytics.bestPostingHours.length > 0) {
-    const bestHour = analytics.bestPostingHours[0];
+  // 最適投稿時間（投稿数が少ない時間帯は根拠にしない）
+  const bestHour = analytics.bestPostingHours.find(h => h.reliable);
+  if (bestHour) {
     insights.push({
       type: 'tip',
       title: `${bestHour.hour}時台がゴールデンタイム`,
@@ -616,8 +583,8 @@ export function generateAIInsights(analytics: AnalyticsResult, posts: PostData[]
   }
 
   // 最適曜日
-  if (analytics.bestPostingDays.length > 0) {
-    const bestDay = analytics.bestPostingDays[0];
+  const bestDay = analytics.bestPostingDays.find(d => d.reliable);
+  if (bestDay) {
     insights.push({
       type: 'tip',
       title: `${bestDay.day}が最強の曜日`,
@@ -0,0 +1,252 @@
+// Threads Studio - 競合ウォッチリスト
+// 競合の公開プロフィールと直近の投稿を定期的に取得して CompetitorSnapshot / CompetitorPost に保存し、
+// 自分のアカウント（ThreadsPost）と週ごとに比較する
+
+import type { Competitor } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import type { ThreadsAPIClient, ThreadsMedia } from '@/lib/threads/client';
+import { formatDay, startOfSnapshotDay } from './snapshots';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const MAX_COMPETITORS = 10;
+
+// 1回の取得で読む直近の投稿数
+const FETCH_POSTS_LIMIT = 50;
+// 投稿頻度・平均反応の集計に使う期間
+export const COMPETITOR_SUMMARY_DAYS = 30;
+// 大きく伸びた投稿の判定: 公開からこの日数以内の投稿を、過去の投稿の中央値と比べる
+const ALERT_WINDOW_DAYS = 3;
+const MIN_BASELINE_POSTS = 5;
+const MIN_ALERT_ENGAGEMENT = 20;
+
+export interface CompetitorSummary {
+  postCount: number;
+  postsPerDay: number;
+  avgEngagement: number;
+  avgLikes: number;
+  avgReplies: number;
+  avgReposts: number;
+  avgTextLength: number;
+}
+
+export interface CompetitorAlert {
+  postId: string;
+  mediaId: string;
+  engagement: number;
+  baseline: number;
+}
+
+export interface BenchmarkWeek {
+  weekStart: string; // yyyy-MM-dd（月曜日）
+  ours: { posts: number; avgEngagement: number };
+  competitor: { posts: number; avgEngagement: number };
+}
+
+type EngagementPost = { likes: number; replies: number; reposts: number; quotes: number };
+
+export function engagementOf(post: EngagementPost): number {
+  return post.likes + post.replies + post.reposts + post.quotes;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+// "@name"・プロフィールURL・ユーザー名のいずれかからユーザー名を取り出す（不正な形式はnull）
+export function normalizeUsername(input: string): string | null {
+  const trimmed = input.trim();
+  const fromUrl = trimmed.match(/threads\.(?:net|com)\/@([^/?#]+)/i)?.[1];
+  const username = (fromUrl ?? trimmed).replace(/^@/, '').toLowerCase();
+  return /^[a-z0-9._]{1,30}$/.test(username) ? username : null;
+}
+
+// 直近の投稿から投稿頻度と1投稿あたりの反応を集計
+export function summarizePosts(
+  posts: Array<EngagementPost & { publishedAt: Date; text: string | null }>,
+  now: Date = new Date()
+): CompetitorSummary {
+  const since = now.getTime() - COMPETITOR_SUMMARY_DAYS * DAY_MS;
+  const recent = posts.filter(p => p.publishedAt.getTime() >= since);
+  const count = recent.length;
+  const avg = (value: (p: (typeof recent)[number]) => number) =>
+    count > 0 ? recent.reduce((sum, p) => sum + value(p), 0) / count : 0;
+
+  return {
+    postCount: count,
+    postsPerDay: count / COMPETITOR_SUMMARY_DAYS,
+    avgEngagement: avg(engagementOf),
+    avgLikes: avg(p => p.likes),
+    avgReplies: avg(p => p.replies),
+    avgReposts: avg(p => p.reposts),
+    avgTextLength: avg(p => p.text?.length ?? 0),
+  };
+}
+
+// 公開から間もない投稿のうち、それ以前の投稿の中央値の multiplier 倍以上の反応を得たもの
+export function findOutperformingPosts<T extends EngagementPost & { id: string; publishedAt: Date; alertedAt: Date | null }>(
+  posts: T[],
+  multiplier: number,
+  now: Date = new Date()
+): Array<{ post: T; engagement: number; baseline: number }> {
+  const windowStart = now.getTime() - ALERT_WINDOW_DAYS * DAY_MS;
+  const baselineStart = now.getTime() - COMPETITOR_SUMMARY_DAYS * DAY_MS;
+
+  const baselinePosts = posts.filter(p => {
+    const at = p.publishedAt.getTime();
+    return at >= baselineStart && at < windowStart;
+  });
+  if (baselinePosts.length < MIN_BASELINE_POSTS) return [];
+
+  const baseline = median(baselinePosts.map(engagementOf));
+  const threshold = Math.max(baseline * multiplier, MIN_ALERT_ENGAGEMENT);
+
+  return posts
+    .filter(p => !p.alertedAt && p.publishedAt.getTime() >= windowStart)
+    .map(post => ({ post, engagement: engagementOf(post), baseline }))
+    .filter(({ engagement }) => engagement >= threshold);
+}
+
+function toPostData(media: ThreadsMedia) {
+  return {
+    mediaType: media.media_type,
+    text: media.text ?? null,
+    permalink: media.permalink ?? null,
+    isQuotePost: media.is_quote_post ?? false,
+    publishedAt: new Date(media.timestamp),
+    likes: media.like_count ?? 0,
+    replies: media.reply_count ?? 0,
+    reposts: media.repost_count ?? 0,
+    quotes: media.quote_count ?? 0,
+  };
+}
+
+// 競合1件の公開プロフィールと直近の投稿を取得して保存し、大きく伸びた投稿を通知する
+export async function trackCompetitor(
+  client: ThreadsAPIClient,
+  competitor: Pick<Competitor, 'id' | 'username' | 'alertMultiplier'>,
+  notifyUserId: string | null,
+  now: Date = new Date()
+): Promise<{ summary: CompetitorSummary; followers: number | null; alerts: CompetitorAlert[] }> {
+  if (!prisma) {
+    throw new Error('Database not available');
+  }
+
+  const [profile, { data: media }] = await Promise.all([
+    client.lookupProfile(competitor.username),
+    client.getProfilePosts(competitor.username, FETCH_POSTS_LIMIT),
+  ]);
+
+  // 反応数は取得するたびに変わるため、既存の投稿も更新する
+  await prisma.$transaction(
+    media.map(m => {
+      const data = toPostData(m);
+      return prisma!.competitorPost.upsert({
+        where: { competitorId_mediaId: { competitorId: competitor.id, mediaId: m.id } },
+        create: { competitorId: competitor.id, mediaId: m.id, ...data },
+        update: data,
+      });
+    })
+  );
+
+  const posts = await prisma.competitorPost.findMany({
+    where: { competitorId: competitor.id, publishedAt: { gte: new Date(now.getTime() - COMPETITOR_SUMMARY_DAYS * DAY_MS) } },
+  });
+  const summary = summarizePosts(posts, now);
+  const followers = profile.follower_count ?? null;
+
+  await prisma.$transaction([
+    prisma.competitorSnapshot.create({
+      data: { competitorId: competitor.id, capturedAt: now, followers, ...summary },
+    }),
+    prisma.competitor.update({
+      where: { id: competitor.id },
+      data: {
+        name: profile.name ?? null,
+        profilePicture: profile.profile_picture_url ?? null,
+        biography: profile.biography ?? null,
+        lastSnapshotAt: now,
+        lastError: null,
+      },
+    }),
+  ]);
+
+  const outperforming = findOutperformingPosts(posts, competitor.alertMultiplier, now);
+  for (const { post, engagement, baseline } of outperforming) {
+    await prisma.competitorPost.update({ where: { id: post.id }, data: { alertedAt: now } });
+    if (!notifyUserId) continue;
+
+    const ratio = baseline > 0 ? `通常の約${Math.round(engagement / baseline)}倍` : '通常を大きく上回る';
+    await prisma.notification.create({
+      data: {
+        userId: notifyUserId,
+        type: 'competitor_alert',
+        title: `@${competitor.username} の投稿が伸びています`,
+        message: `反応数 ${engagement.toLocaleString()}（${ratio}）: ${(post.text ?? '').slice(0, 60)}`,
+        relatedId: post.id,
+        relatedType: 'competitor_post',
+      },
+    });
+  }
+
+  return {
+    summary,
+    followers,
+    alerts: outperforming.map(({ post, engagement, baseline }) => ({
+      postId: post.id,
+      mediaId: post.mediaId,
+      engagement,
+      baseline,
+    })),
+  };
+}
+
+function startOfWeek(date: Date): Date {
+  const day = startOfSnapshotDay(date);
+  const offset = (day.getDay() + 6) % 7; // 月曜日始まり
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate() - offset);
+}
+
+// 週ごとの投稿数と1投稿あたりの反応（自分のアカウント vs 競合）
+export async function getBenchmark(
+  accountId: string,
+  competitorId: string,
+  weeks = 12,
+  now: Date = new Date()
+): Promise<BenchmarkWeek[]> {
+  if (!prisma) return [];
+
+  const currentWeek = startOfWeek(now);
+  const since = new Date(currentWeek.getFullYear(), currentWeek.getMonth(), currentWeek.getDate() - (weeks - 1) * 7);
+
+  const [ours, theirs] = await Promise.all([
+    prisma.threadsPost.findMany({
+      where: { accountId, publishedAt: { gte: since } },
+      select: { publishedAt: true, likes: true, replies: true, reposts: true, quotes: true },
+    }),
+    prisma.competitorPost.findMany({
+      where: { competitorId, publishedAt: { gte: since } },
+      select: { publishedAt: true, likes: true, replies: true, reposts: true, quotes: true },
+    }),
+  ]);
+
+  const buckets = Array.from({ length: weeks }, (_, i) => {
+    const start = new Date(since.getFullYear(), since.getMonth(), since.getDate() + i * 7);
+    return { key: formatDay(start), ours: [] as number[], competitor: [] as number[] };
+  });
+  const byWeek = new Map(buckets.map(b => [b.key, b]));
+
+  for (const post of ours) byWeek.get(formatDay(startOfWeek(post.publishedAt)))?.ours.push(engagementOf(post));
+  for (const post of theirs) byWeek.get(formatDay(startOfWeek(post.publishedAt)))?.competitor.push(engagementOf(post));
+
+  const average = (values: number[]) => (values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+
+  return buckets.map(b => ({
+    weekStart: b.key,
+    ours: { posts: b.ours.length, avgEngagement: average(b.ours) },
+    competitor: { posts: b.competitor.length, avgEngagement: average(b.competitor) },
+  }));
+}
@@ -0,0 +1,122 @@
+// Threads Studio - フォロワー属性（国・都市・年齢・性別）と履歴
+// AnalyticsSnapshot に type: 'demographics' として1日1件保存する
+
+import { prisma } from '@/lib/db';
+import { createAccountClient } from '@/lib/threads/accounts';
+import type { ThreadsAPIClient } from '@/lib/threads/client';
+import { startOfSnapshotDay } from './snapshots';
+
+export type DemographicBreakdown = 'country' | 'city' | 'age' | 'gender';
+
+export const DEMOGRAPHIC_BREAKDOWNS: DemographicBreakdown[] = ['country', 'city', 'age', 'gender'];
+
+// フォロワー属性はフォロワーが100人以上のアカウントのみ取得できる
+export const DEMOGRAPHICS_MIN_FOLLOWERS = 100;
+
+export interface DemographicEntry {
+  key: string;   // 国コード、都市名、年齢層、性別（F/M/U）
+  value: number; // フォロワー数
+  share: number; // 構成比（%）
+}
+
+// AnalyticsSnapshot.data に保存するJSON
+export interface DemographicsData {
+  capturedAt: string;
+  breakdowns: Record<DemographicBreakdown, DemographicEntry[]>;
+}
+
+const SNAPSHOT_TYPE = 'demographics';
+
+function toEntries(results: Array<{ dimension: string; value: number }>): DemographicEntry[] {
+  const total = results.reduce((sum, r) => sum + r.value, 0);
+  return results
+    .map(r => ({
+      key: r.dimension,
+      value: r.value,
+      share: total > 0 ? Math.round((r.value / total) * 1000) / 10 : 0,
+    }))
+    .sort((a, b) => b.value - a.value);
+}
+
+export function hasDemographics(data: DemographicsData): boolean {
+  return DEMOGRAPHIC_BREAKDOWNS.some(b => data.breakdowns[b].length > 0);
+}
+
+// 4種類の属性をAPIから取得
+export async function fetchDemographics(client: ThreadsAPIClient, now: Date = new Date()): Promise<DemographicsData> {
+  const results = await Promise.all(DEMOGRAPHIC_BREAKDOWNS.map(b => client.getFollowerDemographics(b)));
+
+  return {
+    capturedAt: now.toISOString(),
+    breakdowns: {
+      country: toEntries(results[0]),
+      city: toEntries(results[1]),
+      age: toEntries(results[2]),
+      gender: toEntries(results[3]),
+    },
+  };
+}
+
+// 1アカウント分の属性を取得して保存（取得できなかった場合は保存しない）
+export async function collectDemographicsSnapshot(
+  account: { id: string; accessToken: string },
+  now: Date = new Date()
+): Promise<DemographicsData | null> {
+  if (!prisma) {
+    throw new Error('Database not available');
+  }
+
+  const data = await fetchDemographics(createAccountClient(account), now);
+  if (!hasDemographics(data)) return null;
+
+  const periodStart = startOfSnapshotDay(now);
+
+  // 同じ日に複数回実行された場合は上書き
+  await prisma.analyticsSnapshot.upsert({
+    where: {
+      accountId_type_periodStart: {
+        accountId: account.id,
+        type: SNAPSHOT_TYPE,
+        periodStart,
+      },
+    },
+    create: {
+      accountId: account.id,
+      type: SNAPSHOT_TYPE,
+      periodStart,
+      periodEnd: now,
+      data: JSON.stringify(data),
+    },
+    update: {
+      periodEnd: now,
+      data: JSON.stringify(data),
+    },
+  });
+
+  return data;
+}
+
+// 指定日数分の属性の履歴（古い順）
+export async function getDemographicsHistory(accountId: string, days = 90): Promise<DemographicsData[]> {
+  if (!prisma) return [];
+
+  const since = startOfSnapshotDay(new Date(Date.now() - days * 24 * 60 * 60 * 1000));
+  const snapshots = await prisma.analyticsSnapshot.findMany({
+    where: {
+      accountId,
+      type: SNAPSHOT_TYPE,
+      periodStart: { gte: since },
+    },
+    orderBy: { periodStart: 'asc' },
+  });
+
+  const history: DemographicsData[] = [];
+  for (const snapshot of snapshots) {
+    try {
+      history.push(JSON.parse(snapshot.data) as DemographicsData);
+    } catch {
+      // 壊れたスナップショットは無視
+    }
+  }
+  return history;
+}
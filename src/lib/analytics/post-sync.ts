@@ -0,0 +1,315 @@
+// Threads Studio - 投稿とインサイトの増分同期
+// 新しい投稿はカーソルで差分だけ取得し、過去の投稿は数ページずつ遡って保存する
+// インサイトは投稿の経過時間に応じた間隔で更新する（新しい投稿ほど頻繁）
+
+import type { ThreadsAccount, ThreadsPost } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { createAccountClient } from '@/lib/threads/accounts';
+import { ThreadsAPIError } from '@/lib/threads/errors';
+import type { ThreadsAPIClient, ThreadsMedia } from '@/lib/threads/client';
+import type { SnapshotPost } from './snapshots';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const PAGE_SIZE = 100; // APIの最大値
+const HEAD_MAX_PAGES = 5;
+const BACKFILL_MAX_PAGES = 5;
+const INSIGHTS_BATCH_SIZE = 200;
+const INSIGHTS_CONCURRENCY = 5;
+
+// 投稿の経過時間ごとのインサイト更新間隔
+const INSIGHTS_SCHEDULE: Array<{ maxAgeMs: number; intervalMs: number }> = [
+  { maxAgeMs: DAY_MS, intervalMs: HOUR_MS },
+  { maxAgeMs: 3 * DAY_MS, intervalMs: 6 * HOUR_MS },
+  { maxAgeMs: 7 * DAY_MS, intervalMs: DAY_MS },
+  { maxAgeMs: 30 * DAY_MS, intervalMs: 3 * DAY_MS },
+];
+const OLD_POST_INSIGHTS_INTERVAL_MS = 14 * DAY_MS;
+
+export type SyncAccount = Pick<ThreadsAccount, 'id' | 'accessToken' | 'postsBackfillCursor' | 'postsBackfilledAt'>;
+
+export interface SyncOptions {
+  headPages?: number;     // 新しい投稿を取得する最大ページ数
+  backfillPages?: number; // 過去の投稿を遡る最大ページ数
+  insightsLimit?: number; // インサイトを更新する最大件数
+}
+
+export interface SyncResult {
+  newPosts: number;
+  backfilledPosts: number;
+  backfillComplete: boolean;
+  insightsUpdated: number;
+  rateLimited: boolean; // レート制限で途中で止めた場合true（残りは次回）
+}
+
+// 同時実行数を制限して非同期処理を実行
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let index = 0;
+
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (index < items.length) {
+      const current = index++;
+      results[current] = await fn(items[current]);
+    }
+  });
+
+  await Promise.all(workers);
+  return results;
+}
+
+// 次にインサイトを更新する日時
+export function getNextInsightsAt(publishedAt: Date, now: Date = new Date()): Date {
+  const age = now.getTime() - publishedAt.getTime();
+  const interval = INSIGHTS_SCHEDULE.find(s => age < s.maxAgeMs)?.intervalMs ?? OLD_POST_INSIGHTS_INTERVAL_MS;
+  return new Date(now.getTime() + interval);
+}
+
+function isRateLimited(error: unknown): boolean {
+  return error instanceof ThreadsAPIError && error.kind === 'rate_limit';
+}
+
+// 未保存の投稿だけを保存し、保存した件数を返す
+// インサイトを取得するまでは一覧に含まれる数値を使う
+async function saveNewPosts(accountId: string, media: ThreadsMedia[], now: Date): Promise<number> {
+  if (media.length === 0) return 0;
+
+  const result = await prisma!.threadsPost.createMany({
+    data: media.map(m => ({
+      accountId,
+      mediaId: m.id,
+      mediaType: m.media_type,
+      text: m.text ?? null,
+      mediaUrl: m.media_url ?? null,
+      permalink: m.permalink ?? null,
+      isQuotePost: m.is_quote_post ?? false,
+      publishedAt: new Date(m.timestamp),
+      likes: m.like_count ?? 0,
+      replies: m.reply_count ?? 0,
+      reposts: m.repost_count ?? 0,
+      quotes: m.quote_count ?? 0,
+      nextInsightsAt: now,
+    })),
+    skipDuplicates: true,
+  });
+
+  return result.count;
+}
+
+// 最新の投稿から、保存済みの投稿に到達するまで取得
+async function syncHead(client: ThreadsAPIClient, accountId: string, now: Date, maxPages: number): Promise<{
+  created: number;
+  reachedKnown: boolean;
+  reachedEnd: boolean;
+  cursor: string | null; // ページ数の上限で止めた場合の続きのカーソル
+}> {
+  let created = 0;
+  let after: string | undefined;
+
+  for (let page = 0; page < maxPages; page++) {
+    const response = await client.getMyThreads(PAGE_SIZE, after);
+    if (response.data.length === 0) return { created, reachedKnown: false, reachedEnd: true, cursor: null };
+
+    const count = await saveNewPosts(accountId, response.data, now);
+    created += count;
+    if (count < response.data.length) return { created, reachedKnown: true, reachedEnd: false, cursor: null };
+
+    after = response.paging?.cursors?.after;
+    if (!after) return { created, reachedKnown: false, reachedEnd: true, cursor: null };
+  }
+
+  return { created, reachedKnown: false, reachedEnd: false, cursor: after ?? null };
+}
+
+// 1アカウント分の投稿とインサイトを同期
+export async function syncAccountPosts(
+  account: SyncAccount,
+  now: Date = new Date(),
+  options: SyncOptions = {}
+): Promise<SyncResult> {
+  if (!prisma) {
+    throw new Error('Database not available');
+  }
+
+  const client = createAccountClient(account);
+  const result: SyncResult = {
+    newPosts: 0,
+    backfilledPosts: 0,
+    backfillComplete: account.postsBackfilledAt !== null,
+    insightsUpdated: 0,
+    rateLimited: false,
+  };
+
+  let cursor = account.postsBackfillCursor;
+  let backfilledAt = account.postsBackfilledAt;
+
+  try {
+    const head = await syncHead(client, account.id, now, options.headPages ?? HEAD_MAX_PAGES);
+    result.newPosts = head.created;
+
+    if (!backfilledAt) {
+      if (head.reachedEnd) {
+        backfilledAt = now;
+        cursor = null;
+      } else if (head.cursor && !cursor) {
+        // 初回の同期: 最新のページの続きから遡る
+        cursor = head.cursor;
+      }
+    }
+
+    // 過去の投稿を遡る（カーソルを失った場合は先頭から保存済みの投稿を読み飛ばして進む）
+    const backfillPages = options.backfillPages ?? BACKFILL_MAX_PAGES;
+    for (let page = 0; !backfilledAt && page < backfillPages; page++) {
+      let response;
+      try {
+        response = await client.getMyThreads(PAGE_SIZE, cursor ?? undefined);
+      } catch (error) {
+        // 期限切れのカーソルは破棄して次回やり直す
+        if (error instanceof ThreadsAPIError && error.kind === 'invalid_request' && cursor) {
+          cursor = null;
+          break;
+        }
+        throw error;
+      }
+
+      result.backfilledPosts += await saveNewPosts(account.id, response.data, now);
+      const after = response.paging?.cursors?.after;
+      if (response.data.length === 0 || !after) {
+        backfilledAt = now;
+        cursor = null;
+      } else {
+        cursor = after;
+      }
+    }
+  } catch (error) {
+    if (!isRateLimited(error)) throw error;
+    result.rateLimited = true;
+  }
+
+  result.backfillComplete = backfilledAt !== null;
+  await prisma.threadsAccount.update({
+    where: { id: account.id },
+    data: {
+      postsSyncedAt: now,
+      postsBackfillCursor: cursor,
+      postsBackfilledAt: backfilledAt,
+    },
+  });
+
+  if (!result.rateLimited) {
+    const insights = await refreshDueInsights(client, account.id, now, options.insightsLimit ?? INSIGHTS_BATCH_SIZE);
+    result.insightsUpdated = insights.updated;
+    result.rateLimited = insights.rateLimited;
+  }
+
+  return result;
+}
+
+// 更新予定日時を過ぎた投稿のインサイトを取得（古い予定から順に）
+export async function refreshDueInsights(
+  client: ThreadsAPIClient,
+  accountId: string,
+  now: Date = new Date(),
+  limit = INSIGHTS_BATCH_SIZE
+): Promise<{ updated: number; rateLimited: boolean }> {
+  if (!prisma || limit <= 0) return { updated: 0, rateLimited: false };
+
+  const due = await prisma.threadsPost.findMany({
+    where: { accountId, nextInsightsAt: { lte: now } },
+    orderBy: { nextInsightsAt: 'asc' },
+    take: limit,
+  });
+
+  let rateLimited = false;
+  const results = await mapWithConcurrency(due, INSIGHTS_CONCURRENCY, async (post): Promise<boolean> => {
+    if (rateLimited) return false;
+
+    try {
+      const insight = await client.getMediaInsights(post.mediaId);
+      const values = {
+        views: insight.views,
+        likes: insight.likes,
+        replies: insight.replies,
+        reposts: insight.reposts,
+        quotes: insight.quotes,
+        shares: insight.shares,
+      };
+
+      await prisma!.$transaction([
+        prisma!.threadsPost.update({
+          where: { id: post.id },
+          data: {
+            ...values,
+            insightsFetchedAt: now,
+            nextInsightsAt: getNextInsightsAt(post.publishedAt, now),
+          },
+        }),
+        prisma!.postInsight.create({
+          data: { postId: post.id, ...values, measuredAt: now },
+        }),
+      ]);
+      return true;
+    } catch (error) {
+      if (isRateLimited(error)) {
+        rateLimited = true;
+        return false;
+      }
+      if (error instanceof ThreadsAPIError && error.kind === 'auth') throw error;
+
+      // 削除された投稿は同期対象から外す
+      if (error instanceof ThreadsAPIError && error.kind === 'not_found') {
+        await prisma!.threadsPost.delete({ where: { id: post.id } }).catch(() => null);
+        return false;
+      }
+
+      console.warn(`Could not fetch insights for post ${post.mediaId}:`, error);
+      await prisma!.threadsPost.update({
+        where: { id: post.id },
+        data: { nextInsightsAt: getNextInsightsAt(post.publishedAt, now) },
+      });
+      return false;
+    }
+  });
+
+  return { updated: results.filter(Boolean).length, rateLimited };
+}
+
+// 同期済みの投稿をスナップショットと同じ形式に変換
+export function toSnapshotPost(post: ThreadsPost): SnapshotPost {
+  return {
+    id: post.mediaId,
+    text: post.text ?? undefined,
+    timestamp: post.publishedAt.toISOString(),
+    media_type: post.mediaType as SnapshotPost['media_type'],
+    media_url: post.mediaUrl ?? undefined,
+    permalink: post.permalink ?? '',
+    is_quote_post: post.isQuotePost,
+    insights: {
+      id: post.mediaId,
+      views: post.views,
+      likes: post.likes,
+      replies: post.replies,
+      reposts: post.reposts,
+      quotes: post.quotes,
+      shares: post.shares,
+    },
+  };
+}
+
+// 同期済みの投稿（新しい順。limit 省略時はすべて）
+export async function listSyncedPosts(accountId: string, limit?: number): Promise<SnapshotPost[]> {
+  if (!prisma) return [];
+
+  const posts = await prisma.threadsPost.findMany({
+    where: { accountId },
+    orderBy: { publishedAt: 'desc' },
+    ...(limit !== undefined && { take: limit }),
+  });
+
+  return posts.map(toSnapshotPost);
+}
@@ -0,0 +1,226 @@
+// Threads Studio - 分析スナップショット（日次の指標履歴）
+
+import { prisma } from '@/lib/db';
+import { createAccountClient } from '@/lib/threads/accounts';
+import type { ThreadsInsights, ThreadsMedia, ThreadsMediaInsight } from '@/lib/threads/client';
+import { listSyncedPosts, syncAccountPosts, type SyncAccount } from './post-sync';
+
+// スナップショットに保存する投稿データ
+export interface SnapshotPost {
+  id: string;
+  text?: string;
+  timestamp: string;
+  media_type: ThreadsMedia['media_type'];
+  media_url?: string;
+  permalink: string;
+  is_quote_post?: boolean;
+  insights: ThreadsMediaInsight;
+}
+
+export interface SnapshotTotals {
+  views: number;
+  likes: number;
+  replies: number;
+  reposts: number;
+  quotes: number;
+  shares: number;
+}
+
+// AnalyticsSnapshot.data に保存するJSON
+export interface SnapshotData {
+  capturedAt: string;
+  followersCount: number;
+  insights: ThreadsInsights | null;
+  totals: SnapshotTotals; // 各投稿の累計値の合計
+  posts: SnapshotPost[];
+}
+
+// 日別の推移（グラフ・レポート用）
+export interface HistoryPoint extends SnapshotTotals {
+  date: string; // yyyy-MM-dd
+  followersCount: number;
+  postCount: number;
+}
+
+export interface AccountHistory {
+  points: HistoryPoint[];
+  // 前週比（%）。比較できるスナップショットがない場合はnull
+  weekOverWeek: {
+    followers: number | null;
+    views: number | null;
+    likes: number | null;
+    replies: number | null;
+    reposts: number | null;
+    shares: number | null;
+  };
+  // 直近24時間で増えた閲覧数（スナップショット2件以上必要）
+  viewsLast24h: number | null;
+  latestCapturedAt: string | null;
+}
+
+const SNAPSHOT_MAX_POSTS = 500;
+
+// 日付をその日の0時に丸める
+export function startOfSnapshotDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+export function formatDay(date: Date): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${y}-${m}-${d}`;
+}
+
+function sumTotals(posts: SnapshotPost[]): SnapshotTotals {
+  return posts.reduce<SnapshotTotals>(
+    (acc, p) => ({
+      views: acc.views + p.insights.views,
+      likes: acc.likes + p.insights.likes,
+      replies: acc.replies + p.insights.replies,
+      reposts: acc.reposts + p.insights.reposts,
+      quotes: acc.quotes + p.insights.quotes,
+      shares: acc.shares + p.insights.shares,
+    }),
+    { views: 0, likes: 0, replies: 0, reposts: 0, quotes: 0, shares: 0 }
+  );
+}
+
+// 1アカウント分の日次スナップショットを取得して保存
+export async function collectDailySnapshot(
+  account: SyncAccount,
+  now = new Date()
+): Promise<SnapshotData> {
+  if (!prisma) {
+    throw new Error('Database not available');
+  }
+
+  const client = createAccountClient(account);
+
+  // 投稿とインサイトは増分同期したものを使い、アカウント全体の指標だけAPIから取得する
+  await syncAccountPosts(account, now);
+  const [posts, insights, followersCount] = await Promise.all([
+    listSyncedPosts(account.id, SNAPSHOT_MAX_POSTS),
+    client.getMyInsights().catch(() => null),
+    client.getFollowersCount(),
+  ]);
+
+  const data: SnapshotData = {
+    capturedAt: now.toISOString(),
+    followersCount: followersCount || insights?.followers_count || 0,
+    insights,
+    totals: sumTotals(posts),
+    posts,
+  };
+
+  const periodStart = startOfSnapshotDay(now);
+
+  // 同じ日に複数回実行された場合は上書き
+  await prisma.analyticsSnapshot.upsert({
+    where: {
+      accountId_type_periodStart: {
+        accountId: account.id,
+        type: 'daily',
+        periodStart,
+      },
+    },
+    create: {
+      accountId: account.id,
+      type: 'daily',
+      periodStart,
+      periodEnd: now,
+      data: JSON.stringify(data),
+    },
+    update: {
+      periodEnd: now,
+      data: JSON.stringify(data),
+    },
+  });
+
+  return data;
+}
+
+// 最新のスナップショットを取得
+export async function getLatestSnapshot(accountId: string): Promise<SnapshotData | null> {
+  if (!prisma) return null;
+
+  const snapshot = await prisma.analyticsSnapshot.findFirst({
+    where: { accountId, type: 'daily' },
+    orderBy: { periodStart: 'desc' },
+  });
+
+  if (!snapshot) return null;
+
+  try {
+    return JSON.parse(snapshot.data) as SnapshotData;
+  } catch {
+    return null;
+  }
+}
+
+export function percentChange(current: number, previous: number): number | null {
+  if (previous === 0) return null;
+  return ((current - previous) / previous) * 100;
+}
+
+// 指定日数分の推移と前週比を取得
+export async function getAccountHistory(accountId: string, days = 30): Promise<AccountHistory | null> {
+  if (!prisma) return null;
+
+  const since = startOfSnapshotDay(new Date(Date.now() - days * 24 * 60 * 60 * 1000));
+  const snapshots = await prisma.analyticsSnapshot.findMany({
+    where: {
+      accountId,
+      type: 'daily',
+      periodStart: { gte: since },
+    },
+    orderBy: { periodStart: 'asc' },
+  });
+
+  if (snapshots.length === 0) return null;
+
+  const points: HistoryPoint[] = [];
+  let latestCapturedAt: string | null = null;
+
+  for (const snapshot of snapshots) {
+    try {
+      const data = JSON.parse(snapshot.data) as SnapshotData;
+      points.push({
+        date: formatDay(snapshot.periodStart),
+        followersCount: data.followersCount,
+        postCount: data.posts.length,
+        ...data.totals,
+      });
+      latestCapturedAt = data.capturedAt;
+    } catch {
+      // 壊れたスナップショットは無視
+    }
+  }
+
+  if (points.length === 0) return null;
+
+  const latest = points[points.length - 1];
+  const latestDate = new Date(`${latest.date}T00:00:00`);
+
+  // 7日前（またはそれ以前で最も近い）のスナップショットと比較
+  const weekAgo = formatDay(new Date(latestDate.getTime() - 7 * 24 * 60 * 60 * 1000));
+  const weekAgoPoint = [...points].reverse().find(p => p.date <= weekAgo);
+
+  // 1日前のスナップショットと比較
+  const yesterday = formatDay(new Date(latestDate.getTime() - 24 * 60 * 60 * 1000));
+  const yesterdayPoint = points.find(p => p.date === yesterday);
+
+  return {
+    points,
+    weekOverWeek: {
+      followers: weekAgoPoint ? percentChange(latest.followersCount, weekAgoPoint.followersCount) : null,
+      views: weekAgoPoint ? percentChange(latest.views, weekAgoPoint.views) : null,
+      likes: weekAgoPoint ? percentChange(latest.likes, weekAgoPoint.likes) : null,
+      replies: weekAgoPoint ? percentChange(latest.replies, weekAgoPoint.replies) : null,
+      reposts: weekAgoPoint ? percentChange(latest.reposts, weekAgoPoint.reposts) : null,
+      shares: weekAgoPoint ? percentChange(latest.shares, weekAgoPoint.shares) : null,
+    },
+    viewsLast24h: yesterdayPoint ? latest.views - yesterdayPoint.views : null,
+    latestCapturedAt,
+  };
+}
@@ -0,0 +1,248 @@
+// Threads Studio - アカウントの日別インサイト（期間指定・前の期間との比較）
+// 日別の値は AccountDailyInsight に保存し、確定した過去の日はAPIから再取得しない
+
+import { prisma } from '@/lib/db';
+import { ThreadsAPIError } from '@/lib/threads/errors';
+import type { ThreadsAPIClient } from '@/lib/threads/client';
+import { mapWithConcurrency } from './post-sync';
+import { formatDay, percentChange, startOfSnapshotDay, type SnapshotData } from './snapshots';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const MAX_RANGE_DAYS = 90;
+export const DEFAULT_RANGE_DAYS = 30;
+
+// Threads APIでインサイトを取得できる最も古い日（2024-04-13）
+const INSIGHTS_EARLIEST = new Date(2024, 3, 13);
+// 今日と昨日の値は確定していないため、この間隔で取得し直す
+const UNSETTLED_DAYS = 2;
+const UNSETTLED_REFRESH_MS = HOUR_MS;
+const FETCH_CONCURRENCY = 5;
+
+export interface DailyInsightPoint {
+  date: string; // yyyy-MM-dd
+  views: number;
+  likes: number;
+  replies: number;
+  reposts: number;
+  quotes: number;
+  followers: number | null; // 日次スナップショットのフォロワー数（記録がない日はnull）
+}
+
+export interface InsightTotals {
+  views: number;
+  likes: number;
+  replies: number;
+  reposts: number;
+  quotes: number;
+  followers: number | null; // 期間の最後に記録されたフォロワー数
+}
+
+export interface InsightPeriod {
+  since: string;
+  until: string;
+  points: DailyInsightPoint[];
+  totals: InsightTotals;
+}
+
+export interface InsightComparison {
+  current: InsightPeriod;
+  previous: InsightPeriod | null;
+  // 前の期間との増減（%）。比較できない場合はnull
+  deltas: Record<keyof InsightTotals, number | null> | null;
+}
+
+// yyyy-MM-dd をその日の0時に変換
+export function parseDay(value: string | null): Date | null {
+  const match = value?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+function countDays(since: Date, until: Date): number {
+  return Math.round((until.getTime() - since.getTime()) / DAY_MS) + 1;
+}
+
+// 期間パラメータを検証（未指定の場合は今日までの30日間）
+export function resolveRange(
+  sinceParam: string | null,
+  untilParam: string | null,
+  now: Date = new Date()
+): { since: Date; until: Date } | { error: string } {
+  const today = startOfSnapshotDay(now);
+  const until = untilParam ? parseDay(untilParam) : today;
+  const since = sinceParam ? parseDay(sinceParam) : until && addDays(until, -(DEFAULT_RANGE_DAYS - 1));
+
+  if (!since || !until) return { error: '日付は yyyy-MM-dd 形式で指定してください' };
+  if (since > until) return { error: '開始日は終了日以前の日付を指定してください' };
+  if (until > today) return { error: '終了日に未来の日付は指定できません' };
+  if (countDays(since, until) > MAX_RANGE_DAYS) return { error: `期間は${MAX_RANGE_DAYS}日以内で指定してください` };
+
+  return { since: since < INSIGHTS_EARLIEST ? INSIGHTS_EARLIEST : since, until };
+}
+
+// 同じ長さの直前の期間
+export function getPreviousRange(since: Date, until: Date): { since: Date; until: Date } {
+  const days = countDays(since, until);
+  return { since: addDays(since, -days), until: addDays(since, -1) };
+}
+
+// 1日分のアカウントインサイトをAPIから取得
+async function fetchDay(client: ThreadsAPIClient, day: Date) {
+  const result = await client.getTimeSeriesInsights(
+    Math.floor(day.getTime() / 1000),
+    Math.floor(addDays(day, 1).getTime() / 1000)
+  );
+  return {
+    views: result.views.reduce((sum, v) => sum + v.value, 0),
+    likes: result.likes,
+    replies: result.replies,
+    reposts: result.reposts,
+    quotes: result.quotes,
+  };
+}
+
+// 期間内の日別インサイト（保存されていない日と未確定の日だけAPIから取得）
+export async function getDailyInsights(
+  client: ThreadsAPIClient,
+  accountId: string,
+  since: Date,
+  until: Date,
+  now: Date = new Date()
+): Promise<DailyInsightPoint[]> {
+  if (!prisma) return [];
+
+  const days = Array.from({ length: countDays(since, until) }, (_, i) => addDays(since, i));
+  const unsettledSince = addDays(startOfSnapshotDay(now), -(UNSETTLED_DAYS - 1));
+
+  const [stored, snapshots] = await Promise.all([
+    prisma.accountDailyInsight.findMany({
+      where: { accountId, date: { gte: since, lte: until } },
+    }),
+    prisma.analyticsSnapshot.findMany({
+      where: { accountId, type: 'daily', periodStart: { gte: since, lte: until } },
+      select: { periodStart: true, data: true },
+    }),
+  ]);
+  const byDay = new Map(stored.map(s => [formatDay(s.date), s]));
+
+  const missing = days.filter(day => {
+    const saved = byDay.get(formatDay(day));
+    if (!saved) return true;
+    return day >= unsettledSince && now.getTime() - saved.fetchedAt.getTime() >= UNSETTLED_REFRESH_MS;
+  });
+
+  await mapWithConcurrency(missing, FETCH_CONCURRENCY, async (day) => {
+    try {
+      const values = await fetchDay(client, day);
+      const saved = await prisma!.accountDailyInsight.upsert({
+        where: { accountId_date: { accountId, date: day } },
+        create: { accountId, date: day, ...values, fetchedAt: now },
+        update: { ...values, fetchedAt: now },
+      });
+      byDay.set(formatDay(day), saved);
+    } catch (error) {
+      // トークンの失効やレート制限は呼び出し元に返し、それ以外の日は0として扱う
+      if (error instanceof ThreadsAPIError && (error.kind === 'auth' || error.kind === 'rate_limit')) throw error;
+      console.warn(`Could not fetch account insights for ${formatDay(day)}:`, error);
+    }
+  });
+
+  const followers = new Map<string, number>();
+  for (const snapshot of snapshots) {
+    try {
+      followers.set(formatDay(snapshot.periodStart), (JSON.parse(snapshot.data) as SnapshotData).followersCount);
+    } catch {
+      // 壊れたスナップショットは無視
+    }
+  }
+
+  return days.map(day => {
+    const key = formatDay(day);
+    const saved = byDay.get(key);
+    return {
+      date: key,
+      views: saved?.views ?? 0,
+      likes: saved?.likes ?? 0,
+      replies: saved?.replies ?? 0,
+      reposts: saved?.reposts ?? 0,
+      quotes: saved?.quotes ?? 0,
+      followers: followers.get(key) ?? null,
+    };
+  });
+}
+
+function sumPoints(points: DailyInsightPoint[]): InsightTotals {
+  const lastFollowers = [...points].reverse().find(p => p.followers !== null)?.followers ?? null;
+  return points.reduce<InsightTotals>(
+    (acc, p) => ({
+      ...acc,
+      views: acc.views + p.views,
+      likes: acc.likes + p.likes,
+      replies: acc.replies + p.replies,
+      reposts: acc.reposts + p.reposts,
+      quotes: acc.quotes + p.quotes,
+    }),
+    { views: 0, likes: 0, replies: 0, reposts: 0, quotes: 0, followers: lastFollowers }
+  );
+}
+
+async function getPeriod(
+  client: ThreadsAPIClient,
+  accountId: string,
+  since: Date,
+  until: Date,
+  now: Date
+): Promise<InsightPeriod> {
+  const points = await getDailyInsights(client, accountId, since, until, now);
+  return { since: formatDay(since), until: formatDay(until), points, totals: sumPoints(points) };
+}
+
+// 指定期間の日別インサイトと、前の期間との比較
+export async function getInsightComparison(
+  client: ThreadsAPIClient,
+  accountId: string,
+  since: Date,
+  until: Date,
+  options: { compare?: boolean; now?: Date } = {}
+): Promise<InsightComparison> {
+  const now = options.now ?? new Date();
+  const current = await getPeriod(client, accountId, since, until, now);
+
+  const previousRange = getPreviousRange(since, until);
+  if (!options.compare || previousRange.until < INSIGHTS_EARLIEST) {
+    return { current, previous: null, deltas: null };
+  }
+
+  const previous = await getPeriod(
+    client,
+    accountId,
+    previousRange.since < INSIGHTS_EARLIEST ? INSIGHTS_EARLIEST : previousRange.since,
+    previousRange.until,
+    now
+  );
+  const delta = (key: keyof InsightTotals) => {
+    const a = current.totals[key];
+    const b = previous.totals[key];
+    return a === null || b === null ? null : percentChange(a, b);
+  };
+
+  return {
+    current,
+    previous,
+    deltas: {
+      views: delta('views'),
+      likes: delta('likes'),
+      replies: delta('replies'),
+      reposts: delta('reposts'),
+      quotes: delta('quotes'),
+      followers: delta('followers'),
+    },
+  };
+}
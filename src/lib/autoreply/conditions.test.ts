@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateCondition, hasUnsafeRepetition, parseConditions } from './conditions';
+
+const context = (text: string) => ({
+  text,
+  username: 'someone',
+  accountUsername: 'me',
+  postText: '',
+});
+
+describe('hasUnsafeRepetition', () => {
+  it('rejects nested quantifiers and repeated alternations', () => {
+    expect(hasUnsafeRepetition('(a+)+$')).toBe(true);
+    expect(hasUnsafeRepetition('(?:\\w*\\s?)*x')).toBe(true);
+    expect(hasUnsafeRepetition('((ab)+c)*')).toBe(true);
+    expect(hasUnsafeRepetition('(a|ab){2,}')).toBe(true);
+    expect(hasUnsafeRepetition('(?<word>[a-z]+)+')).toBe(true);
+  });
+
+  it('accepts patterns without nested repetition', () => {
+    expect(hasUnsafeRepetition('^(こんにちは|hello)\\s*!+$')).toBe(false);
+    expect(hasUnsafeRepetition('(\\d+)?円')).toBe(false);
+    expect(hasUnsafeRepetition('[(+)]+(ab)?')).toBe(false);
+    expect(hasUnsafeRepetition('\\(a+\\)+')).toBe(false);
+  });
+});
+
+describe('regex conditions', () => {
+  it('refuses to save patterns that can backtrack catastrophically', () => {
+    expect(() => parseConditions({ type: 'regex', pattern: '(a+)+$' })).toThrow('入れ子の繰り返し');
+    expect(parseConditions({ type: 'regex', pattern: '価格|値段' })).toEqual({ type: 'regex', pattern: '価格|値段', flags: 'i' });
+  });
+
+  it('only evaluates the first 500 characters of the text', () => {
+    const node = { type: 'regex' as const, pattern: 'end$' };
+    expect(evaluateCondition(node, context('x'.repeat(400) + 'end'))).toBe(true);
+    expect(evaluateCondition(node, context('x'.repeat(600) + 'end'))).toBe(false);
+  });
+});
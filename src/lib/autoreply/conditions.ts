@@ -0,0 +1,465 @@
+// Threads Studio - 自動リプライの条件評価
+// クライアント（ドライラン）とCronの両方から使うため、DBには依存しない
+
+import { REPLY_TEMPLATE_VARIABLES, validateTemplate } from '@/lib/templates/render';
+
+export type ConditionOperator = 'and' | 'or';
+
+export type DetectedLanguage = 'ja' | 'en' | 'ko' | 'zh' | 'other';
+
+export interface ConditionGroup {
+  type: 'group';
+  operator: ConditionOperator;
+  children: ConditionNode[];
+}
+
+export type ConditionLeaf =
+  | { type: 'keyword'; keywords: string[] } // いずれかを含む
+  | { type: 'exclude_keyword'; keywords: string[] } // いずれも含まない
+  | { type: 'regex'; pattern: string; flags?: string }
+  | { type: 'language'; languages: DetectedLanguage[] }
+  | { type: 'length'; min?: number; max?: number }
+  | { type: 'post_hashtag'; hashtags: string[] } // 元の投稿にいずれかのハッシュタグを含む
+  | { type: 'mention' }; // アカウントへのメンションを含む
+
+export type ConditionNode = ConditionGroup | ConditionLeaf;
+
+export type ConditionLeafType = ConditionLeaf['type'];
+
+// 評価対象のリプライ
+export interface ReplyContext {
+  text: string;
+  postText?: string | null;
+  username?: string;
+  accountUsername: string;
+}
+
+// 優先順位つきで評価できるルール
+export interface MatchableRule {
+  isActive: boolean;
+  priority: number;
+  triggerType: string;
+  triggerKeywords: string[];
+  conditions: ConditionNode | null;
+}
+
+export const LANGUAGE_LABELS: Record<DetectedLanguage, string> = {
+  ja: '日本語',
+  en: '英語',
+  ko: '韓国語',
+  zh: '中国語',
+  other: 'その他',
+};
+
+export const CONDITION_LABELS: Record<ConditionLeafType, string> = {
+  keyword: 'キーワードを含む',
+  exclude_keyword: '除外キーワードを含まない',
+  regex: '正規表現に一致',
+  language: '言語',
+  length: '文字数',
+  post_hashtag: '元の投稿のハッシュタグ',
+  mention: 'メンションを含む',
+};
+
+export const MAX_COOLDOWN_MINUTES = 7 * 24 * 60;
+export const MAX_RESPONSE_DELAY_SECONDS = 24 * 60 * 60;
+
+const MAX_CONDITION_DEPTH = 3;
+const MAX_CONDITION_COUNT = 30;
+const MAX_PATTERN_LENGTH = 200;
+// 正規表現で評価するテキストの最大文字数（Threadsの投稿は最大500文字）
+const MAX_REGEX_INPUT_LENGTH = 500;
+const REGEX_FLAGS = /^[imsu]*$/;
+const LANGUAGES = Object.keys(LANGUAGE_LABELS) as DetectedLanguage[];
+const TRIGGER_TYPES = ['keyword', 'mention', 'all', 'conditions'];
+const RESPONSE_TYPES = ['fixed', 'template', 'ai'];
+
+// ===================================
+// 言語判定
+// ===================================
+
+// 文字種の比率から言語を推定（かなを含めば日本語、ハングル主体なら韓国語、漢字のみなら中国語）
+export function detectLanguage(text: string): DetectedLanguage {
+  const body = text.replace(/https?:\/\/\S+|[@#][^\s]+/g, '');
+
+  const count = (pattern: RegExp) => body.match(pattern)?.length ?? 0;
+  const kana = count(/[\u3040-\u30ff\uff66-\uff9f]/g);
+  const hangul = count(/[\uac00-\ud7af\u1100-\u11ff\u3130-\u318f]/g);
+  const han = count(/[\u4e00-\u9fff\u3400-\u4dbf]/g);
+  const latin = count(/[a-zA-Z\u00c0-\u024f]/g);
+
+  if (hangul > 0 && hangul >= kana + han && hangul >= latin) return 'ko';
+  if (kana > 0 && kana + han >= latin / 2) return 'ja';
+  if (han > 0 && han >= latin / 2) return 'zh';
+  if (latin > 0) return 'en';
+  return 'other';
+}
+
+// ===================================
+// 評価
+// ===================================
+
+function normalizeWords(words: string[]): string[] {
+  return words.map(w => w.trim().toLowerCase()).filter(Boolean);
+}
+
+function normalizeHashtag(tag: string): string {
+  return tag.trim().replace(/^#/, '').toLowerCase();
+}
+
+export function extractHashtags(text: string): string[] {
+  return (text.match(/#[^\s#]+/g) ?? []).map(normalizeHashtag);
+}
+
+export function evaluateCondition(node: ConditionNode, context: ReplyContext): boolean {
+  const text = context.text.toLowerCase();
+
+  switch (node.type) {
+    case 'group':
+      // 空のグループは条件なし（常に一致）として扱う
+      if (node.children.length === 0) return true;
+      return node.operator === 'or'
+        ? node.children.some(child => evaluateCondition(child, context))
+        : node.children.every(child => evaluateCondition(child, context));
+
+    case 'keyword':
+      return normalizeWords(node.keywords).some(kw => text.includes(kw));
+
+    case 'exclude_keyword':
+      return !normalizeWords(node.keywords).some(kw => text.includes(kw));
+
+    case 'regex':
+      try {
+        return new RegExp(node.pattern, node.flags ?? 'i').test(context.text.slice(0, MAX_REGEX_INPUT_LENGTH));
+      } catch {
+        return false;
+      }
+
+    case 'language':
+      return node.languages.includes(detectLanguage(context.text));
+
+    case 'length': {
+      const length = [...context.text.trim()].length;
+      return (node.min === undefined || length >= node.min)
+        && (node.max === undefined || length <= node.max);
+    }
+
+    case 'post_hashtag': {
+      const tags = extractHashtags(context.postText ?? '');
+      return node.hashtags.map(normalizeHashtag).filter(Boolean).some(tag => tags.includes(tag));
+    }
+
+    case 'mention':
+      return text.includes(`@${context.accountUsername.toLowerCase()}`);
+  }
+}
+
+// 従来のトリガー（all / mention / keyword）と条件ツリーのどちらかで判定
+export function ruleMatches(rule: MatchableRule, context: ReplyContext): boolean {
+  if (rule.conditions) {
+    return evaluateCondition(rule.conditions, context);
+  }
+
+  switch (rule.triggerType) {
+    case 'all':
+      return true;
+    case 'mention':
+      return evaluateCondition({ type: 'mention' }, context);
+    case 'keyword':
+      return evaluateCondition({ type: 'keyword', keywords: rule.triggerKeywords }, context);
+    default:
+      return false;
+  }
+}
+
+// 優先順位順に評価し、最初に一致したルールを返す（同順位は渡された順）
+export function findMatchingRule<T extends MatchableRule>(rules: T[], context: ReplyContext): T | null {
+  const sorted = rules
+    .filter(rule => rule.isActive)
+    .sort((a, b) => a.priority - b.priority);
+  return sorted.find(rule => ruleMatches(rule, context)) ?? null;
+}
+
+// ===================================
+// 検証・保存形式
+// ===================================
+
+// 繰り返しの量指定子（*, +, {n,m}）を読み取る。? や {0,1} は繰り返さないものとして扱う
+function readQuantifier(pattern: string, index: number): { repeats: boolean; length: number } | null {
+  const char = pattern[index];
+  if (char === '*' || char === '+') return { repeats: true, length: 1 };
+  if (char === '?') return { repeats: false, length: 1 };
+  const range = /^\{(\d+)(,(\d*))?\}/.exec(pattern.slice(index));
+  if (!range) return null;
+  const max = range[2] === undefined ? Number(range[1]) : range[3] === '' ? Infinity : Number(range[3]);
+  return { repeats: max > 1, length: range[0].length };
+}
+
+// 入れ子の繰り返し（(a+)+ など）や選択を含むグループの繰り返し（(a|ab)* など）があるか
+// 一致しない入力で照合にかかる時間が爆発的に増える（ReDoS）ため、条件には使えないようにする
+export function hasUnsafeRepetition(pattern: string): boolean {
+  const groups = [{ repeats: false, alternation: false }];
+  let i = 0;
+
+  while (i < pattern.length) {
+    const char = pattern[i];
+    let closed: { repeats: boolean; alternation: boolean } | undefined;
+
+    if (char === '\\') {
+      i += 2;
+    } else if (char === '[') {
+      // 文字クラスは1文字として読み飛ばす
+      i++;
+      if (pattern[i] === '^') i++;
+      if (pattern[i] === ']') i++;
+      while (i < pattern.length && pattern[i] !== ']') i += pattern[i] === '\\' ? 2 : 1;
+      i++;
+    } else if (char === '(') {
+      groups.push({ repeats: false, alternation: false });
+      i++;
+      // (?: (?= (?! (?<= (?<! (?<name> の種類の指定を読み飛ばす
+      if (pattern[i] === '?') {
+        i++;
+        if (pattern[i] === '<' && pattern[i + 1] !== '=' && pattern[i + 1] !== '!') {
+          i = pattern.indexOf('>', i) + 1 || pattern.length;
+        } else {
+          i += pattern[i] === '<' ? 2 : 1;
+        }
+      }
+      continue;
+    } else if (char === ')') {
+      if (groups.length > 1) closed = groups.pop();
+      i++;
+    } else if (char === '|') {
+      groups[groups.length - 1].alternation = true;
+      i++;
+      continue;
+    } else {
+      i++;
+    }
+
+    const current = groups[groups.length - 1];
+    const quantifier = readQuantifier(pattern, i);
+    if (quantifier) {
+      i += quantifier.length;
+      if (pattern[i] === '?') i++; // 最短一致の指定
+      if (quantifier.repeats) {
+        if (closed && (closed.repeats || closed.alternation)) return true;
+        current.repeats = true;
+      }
+    }
+    if (closed?.repeats) current.repeats = true;
+  }
+
+  return false;
+}
+
+function parseStringList(value: unknown, label: string): string[] {
+  if (!Array.isArray(value) || value.some(v => typeof v !== 'string')) {
+    throw new Error(`${label}は文字列の配列で指定してください`);
+  }
+  const list = value.map(v => v.trim()).filter(Boolean);
+  if (list.length === 0) {
+    throw new Error(`${label}を1つ以上指定してください`);
+  }
+  return list;
+}
+
+function parseLength(value: unknown, label: string): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+    throw new Error(`${label}は0以上の整数で指定してください`);
+  }
+  return value;
+}
+
+// 入力値を検証して条件ツリーに変換（不正な場合は Error）
+export function parseConditions(value: unknown): ConditionNode {
+  let count = 0;
+
+  const parseNode = (input: unknown, depth: number): ConditionNode => {
+    if (++count > MAX_CONDITION_COUNT) {
+      throw new Error(`条件は${MAX_CONDITION_COUNT}個までです`);
+    }
+    if (!input || typeof input !== 'object') {
+      throw new Error('条件の形式が不正です');
+    }
+
+    const node = input as Record<string, unknown>;
+
+    switch (node.type) {
+      case 'group': {
+        if (depth >= MAX_CONDITION_DEPTH) {
+          throw new Error(`条件グループの入れ子は${MAX_CONDITION_DEPTH}階層までです`);
+        }
+        if (node.operator !== 'and' && node.operator !== 'or') {
+          throw new Error('条件グループの演算子は and か or で指定してください');
+        }
+        if (!Array.isArray(node.children)) {
+          throw new Error('条件グループの形式が不正です');
+        }
+        return {
+          type: 'group',
+          operator: node.operator,
+          children: node.children.map(child => parseNode(child, depth + 1)),
+        };
+      }
+
+      case 'keyword':
+      case 'exclude_keyword':
+        return { type: node.type, keywords: parseStringList(node.keywords, 'キーワード') };
+
+      case 'regex': {
+        const pattern = typeof node.pattern === 'string' ? node.pattern : '';
+        const flags = typeof node.flags === 'string' ? node.flags : 'i';
+        if (!pattern || pattern.length > MAX_PATTERN_LENGTH) {
+          throw new Error(`正規表現は1〜${MAX_PATTERN_LENGTH}文字で指定してください`);
+        }
+        if (!REGEX_FLAGS.test(flags)) {
+          throw new Error(`正規表現のフラグが不正です: ${flags}`);
+        }
+        try {
+          new RegExp(pattern, flags);
+        } catch {
+          throw new Error(`正規表現が不正です: ${pattern}`);
+        }
+        if (hasUnsafeRepetition(pattern)) {
+          throw new Error(`正規表現に入れ子の繰り返し（(a+)+ など）や選択を含むグループの繰り返し（(a|b)+ など）は使えません: ${pattern}`);
+        }
+        return { type: 'regex', pattern, flags };
+      }
+
+      case 'language': {
+        const languages = parseStringList(node.languages, '言語');
+        const invalid = languages.find(lang => !(LANGUAGES as string[]).includes(lang));
+        if (invalid) {
+          throw new Error(`未対応の言語です: ${invalid}`);
+        }
+        return { type: 'language', languages: languages as DetectedLanguage[] };
+      }
+
+      case 'length': {
+        const min = parseLength(node.min, '最小文字数');
+        const max = parseLength(node.max, '最大文字数');
+        if (min === undefined && max === undefined) {
+          throw new Error('文字数の下限か上限を指定してください');
+        }
+        if (min !== undefined && max !== undefined && min > max) {
+          throw new Error('最小文字数が最大文字数を超えています');
+        }
+        return { type: 'length', min, max };
+      }
+
+      case 'post_hashtag': {
+        const hashtags = parseStringList(node.hashtags, 'ハッシュタグ').map(tag => `#${normalizeHashtag(tag)}`);
+        return { type: 'post_hashtag', hashtags };
+      }
+
+      case 'mention':
+        return { type: 'mention' };
+
+      default:
+        throw new Error(`未対応の条件です: ${String(node.type)}`);
+    }
+  };
+
+  return parseNode(value, 0);
+}
+
+// DBに保存されたJSONを読み込み（壊れている場合は null）
+export function parseStoredConditions(json: string | null): ConditionNode | null {
+  if (!json) return null;
+  try {
+    return parseConditions(JSON.parse(json));
+  } catch {
+    return null;
+  }
+}
+
+export function parseStoredKeywords(json: string | null): string[] {
+  if (!json) return [];
+  try {
+    const keywords = JSON.parse(json);
+    return Array.isArray(keywords) ? keywords.filter((k): k is string => typeof k === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+// 条件ツリーの概要ラベル
+export function describeCondition(node: ConditionNode): string {
+  switch (node.type) {
+    case 'group': {
+      if (node.children.length === 0) return '条件なし';
+      const joined = node.children
+        .map(child => (child.type === 'group' ? `(${describeCondition(child)})` : describeCondition(child)))
+        .join(node.operator === 'and' ? ' かつ ' : ' または ');
+      return joined;
+    }
+    case 'keyword':
+      return `「${node.keywords.join('」「')}」を含む`;
+    case 'exclude_keyword':
+      return `「${node.keywords.join('」「')}」を含まない`;
+    case 'regex':
+      return `/${node.pattern}/${node.flags ?? 'i'}`;
+    case 'language':
+      return node.languages.map(lang => LANGUAGE_LABELS[lang]).join('・');
+    case 'length':
+      return `${node.min ?? 0}〜${node.max ?? ''}文字`;
+    case 'post_hashtag':
+      return `投稿に${node.hashtags.join(' ')}`;
+    case 'mention':
+      return 'メンションあり';
+  }
+}
+
+// 保存用にJSON化（未指定なら null、不正な場合は Error）
+export function serializeConditions(value: unknown): string | null {
+  if (value === undefined || value === null) return null;
+  return JSON.stringify(parseConditions(value));
+}
+
+// ルール設定値の検証（エラーメッセージ、問題なければ null）
+export function validateRuleSettings(settings: {
+  triggerType?: unknown;
+  responseType?: unknown;
+  responseText?: unknown;
+  conditions?: string | null;
+  priority?: unknown;
+  cooldownMinutes?: unknown;
+  responseDelay?: unknown;
+  responseJitter?: unknown;
+}): string | null {
+  if (settings.triggerType !== undefined && !TRIGGER_TYPES.includes(settings.triggerType as string)) {
+    return `未対応のトリガーです: ${String(settings.triggerType)}`;
+  }
+  if (settings.responseType !== undefined && !RESPONSE_TYPES.includes(settings.responseType as string)) {
+    return `未対応の返信方法です: ${String(settings.responseType)}`;
+  }
+  if (settings.triggerType === 'conditions' && !settings.conditions) {
+    return '詳細条件を指定してください';
+  }
+  // 定型文はテンプレートとして展開する（AIモードの指示文は対象外）
+  if (typeof settings.responseText === 'string' && settings.responseType !== 'ai') {
+    const templateError = validateTemplate(settings.responseText, { variables: REPLY_TEMPLATE_VARIABLES })[0];
+    if (templateError) {
+      return `返信内容: ${templateError}`;
+    }
+  }
+  if (settings.priority !== undefined && !Number.isInteger(settings.priority)) {
+    return '優先順位は整数で指定してください';
+  }
+  if (settings.cooldownMinutes !== undefined) {
+    const cooldown = settings.cooldownMinutes;
+    if (typeof cooldown !== 'number' || !Number.isInteger(cooldown) || cooldown < 0 || cooldown > MAX_COOLDOWN_MINUTES) {
+      return `クールダウンは0〜${MAX_COOLDOWN_MINUTES}分で指定してください`;
+    }
+  }
+  for (const [value, label] of [[settings.responseDelay, '返信遅延'], [settings.responseJitter, 'ランダムな幅']] as const) {
+    if (value === undefined) continue;
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0 || value > MAX_RESPONSE_DELAY_SECONDS) {
+      return `${label}は0〜${MAX_RESPONSE_DELAY_SECONDS}秒で指定してください`;
+    }
+  }
+  return null;
+}
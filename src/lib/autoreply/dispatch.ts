@@ -0,0 +1,122 @@
+// Threads Studio - 自動リプライの送信ジョブ（遅延・ジッター・リトライ）
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { createAccountClient } from '@/lib/threads/accounts';
+import { markTokenInvalid } from '@/lib/threads/token-refresh';
+import { recoverStaleSendingJobs, sendReplyJobs, type ReplyJobStore } from '@/lib/scheduler/reply-dispatch';
+
+// 1回のCron実行で送信する最大件数
+const DISPATCH_BATCH_SIZE = 50;
+const MAX_SEND_ATTEMPTS = 3;
+
+// 送信予定・送信中のジョブのステータス（1日の上限やクールダウンの判定にも使う）
+export const QUEUED_REPLY_STATUSES = ['scheduled', 'sending'];
+
+// 1日の上限に含めるジョブのステータス（承認待ちも承認されれば送信される）
+export const DAILY_LIMIT_REPLY_STATUSES = [...QUEUED_REPLY_STATUSES, 'awaiting_approval'];
+
+// 返信の送信予定時刻（遅延 + 0〜ジッター秒のランダムな幅）
+export function getReplySendAt(
+  rule: { responseDelay: number; responseJitter: number },
+  now = new Date(),
+  random: () => number = Math.random
+): Date {
+  const delaySeconds = Math.max(0, rule.responseDelay) + Math.floor(random() * (Math.max(0, rule.responseJitter) + 1));
+  return new Date(now.getTime() + delaySeconds * 1000);
+}
+
+const replyStore: ReplyJobStore = {
+  async update(id, status, data) {
+    const result = await prisma!.autoReplyLog.updateMany({ where: { id, status }, data });
+    return result.count > 0;
+  },
+  async updateStale(staleBefore, data) {
+    const result = await prisma!.autoReplyLog.updateMany({
+      where: { status: 'sending', lockedAt: { lt: staleBefore } },
+      data,
+    });
+    return result.count;
+  },
+};
+
+// 送信中のまま放置されたジョブを失敗として記録（二重返信を避けて再送はしない）
+export async function recoverStaleReplyJobs(now = new Date()): Promise<number> {
+  if (!prisma) return 0;
+  return recoverStaleSendingJobs(replyStore, now);
+}
+
+// 条件に一致する送信予定のジョブを送信（トークンが失効したアカウントの返信は再認証まで送信を待つ）
+async function sendReplies(where: Prisma.AutoReplyLogWhereInput, now: Date) {
+  const jobs = await prisma!.autoReplyLog.findMany({
+    where: {
+      ...where,
+      status: 'scheduled',
+      rule: { account: { tokenStatus: 'valid' } },
+    },
+    include: {
+      rule: {
+        select: {
+          accountId: true,
+          account: { select: { id: true, userId: true, username: true, accessToken: true } },
+        },
+      },
+    },
+    orderBy: { sendAt: 'asc' },
+    take: DISPATCH_BATCH_SIZE,
+  });
+
+  return sendReplyJobs(jobs.map(job => ({ ...job, accountId: job.rule.accountId })), {
+    store: replyStore,
+    maxAttempts: MAX_SEND_ATTEMPTS,
+    now,
+    // originalUserId にはリプライIDが入っている
+    send: job => createAccountClient(job.rule.account).postText(job.replyText, job.originalUserId),
+    // 統計を更新
+    afterSend: async (job, sentAt) => {
+      await prisma!.autoReplyRule.update({
+        where: { id: job.ruleId },
+        data: {
+          totalReplies: { increment: 1 },
+          todayReplies: { increment: 1 },
+          lastReplyAt: sentAt,
+        },
+      });
+    },
+    onTokenInvalid: (job, error) =>
+      markTokenInvalid(job.rule.account, error instanceof Error ? error.message : 'Token rejected', now),
+  });
+}
+
+// 送信予定時刻を過ぎたジョブを送信
+export async function dispatchDueReplies(now = new Date()): Promise<Array<{
+  logId: string;
+  ruleId: string;
+  status: 'sent' | 'skipped' | 'scheduled' | 'failed';
+  error?: string;
+}>> {
+  if (!prisma) return [];
+
+  await recoverStaleReplyJobs(now);
+
+  const results = await sendReplies({ sendAt: { lte: now } }, now);
+
+  return results.map(({ job, status, error }) => ({
+    logId: job.id,
+    ruleId: job.ruleId,
+    status,
+    ...(error !== undefined && { error }),
+  }));
+}
+
+// 承認された返信（送信予定にしたもの）をすぐに送信する
+// Cronと同じくトークンの状態と返信クォータを確認し、送れない場合は送信予定のまま残す
+export async function sendApprovedReply(
+  id: string,
+  now = new Date()
+): Promise<{ status: 'sent' | 'skipped' | 'scheduled' | 'failed'; error?: string; cause?: unknown } | null> {
+  if (!prisma) return null;
+
+  const [result] = await sendReplies({ id }, now);
+  return result ?? null;
+}
@@ -0,0 +1,86 @@
+// Threads Studio - 保存済みトークンの暗号化キーのローテーション
+// 平文のまま保存されているトークンを暗号化し、古いキーで暗号化されたものを現在のキーで暗号化し直す
+
+import { prisma } from '@/lib/db';
+import { needsTokenRotation, rotateToken } from './tokens';
+
+const ROTATION_BATCH_SIZE = 100;
+
+export interface TokenRotationResult {
+  scanned: number;
+  rotated: number;
+  failed: Array<{ target: string; id: string; error: string }>;
+}
+
+async function rotateColumn(
+  target: string,
+  result: TokenRotationResult,
+  fetchBatch: (cursor: string | undefined) => Promise<Array<{ id: string; value: string | null }>>,
+  save: (id: string, current: string, rotated: string) => Promise<number>
+): Promise<void> {
+  let cursor: string | undefined;
+
+  for (;;) {
+    const rows = await fetchBatch(cursor);
+    if (rows.length === 0) break;
+    cursor = rows[rows.length - 1].id;
+
+    for (const row of rows) {
+      if (!row.value) continue;
+      result.scanned++;
+
+      try {
+        if (!needsTokenRotation(row.value)) continue;
+        // 処理中にトークンが更新された場合は上書きしない（次回のローテーションで対象になる）
+        result.rotated += await save(row.id, row.value, rotateToken(row.value));
+      } catch (error) {
+        result.failed.push({
+          target,
+          id: row.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+  }
+}
+
+export async function rotateStoredTokens(): Promise<TokenRotationResult> {
+  const result: TokenRotationResult = { scanned: 0, rotated: 0, failed: [] };
+  if (!prisma) return result;
+  const db = prisma;
+
+  // Threadsのアクセストークン
+  await rotateColumn(
+    'threadsAccount.accessToken',
+    result,
+    async (cursor) => (await db.threadsAccount.findMany({
+      select: { id: true, accessToken: true },
+      orderBy: { id: 'asc' },
+      take: ROTATION_BATCH_SIZE,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    })).map(row => ({ id: row.id, value: row.accessToken })),
+    async (id, current, rotated) => (await db.threadsAccount.updateMany({
+      where: { id, accessToken: current },
+      data: { accessToken: rotated },
+    })).count
+  );
+
+  // 自動リプライのAI生成に使うGemini APIキー
+  await rotateColumn(
+    'user.geminiApiKey',
+    result,
+    async (cursor) => (await db.user.findMany({
+      where: { geminiApiKey: { not: null } },
+      select: { id: true, geminiApiKey: true },
+      orderBy: { id: 'asc' },
+      take: ROTATION_BATCH_SIZE,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    })).map(row => ({ id: row.id, value: row.geminiApiKey })),
+    async (id, current, rotated) => (await db.user.updateMany({
+      where: { id, geminiApiKey: current },
+      data: { geminiApiKey: rotated },
+    })).count
+  );
+
+  return result;
+}
@@ -0,0 +1,135 @@
+// Threads Studio - 保存するトークンの暗号化（エンベロープ暗号化）
+// トークンごとに生成したデータキーでAES-256-GCM暗号化し、データキーは環境変数のマスターキーで暗号化して一緒に保存する
+// マスターキーを入れ替えるときは、データキーを暗号化し直すだけでよい（rotateToken）
+//
+// TOKEN_ENCRYPTION_KEYS="2:<base64の32バイト>,1:<base64の32バイト>"
+//   先頭が現在のキー。入れ替え前のキーはローテーションが終わるまで復号用に残す
+//   生成例: node -e "console.log(require('crypto').randomBytes(32).toString('base64'))"
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+
+// 保存形式: enc:v1:<キーバージョン>:<暗号化したデータキー>:<暗号化したトークン>
+const PREFIX = 'enc';
+const FORMAT_VERSION = 'v1';
+const ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+interface MasterKey {
+  version: string;
+  key: Buffer;
+}
+
+let cachedKeys: { source: string; keys: MasterKey[] } | null = null;
+
+function loadMasterKeys(): MasterKey[] {
+  const source = process.env.TOKEN_ENCRYPTION_KEYS ?? '';
+  if (cachedKeys?.source === source) return cachedKeys.keys;
+
+  const keys = source.split(',').map(entry => entry.trim()).filter(Boolean).map(entry => {
+    const separator = entry.indexOf(':');
+    const version = entry.slice(0, separator);
+    if (separator <= 0 || !/^[A-Za-z0-9_-]+$/.test(version)) {
+      throw new Error('TOKEN_ENCRYPTION_KEYS の形式が不正です（"バージョン:base64のキー" をカンマ区切りで指定）');
+    }
+
+    const key = Buffer.from(entry.slice(separator + 1), 'base64');
+    if (key.length !== KEY_LENGTH) {
+      throw new Error(`暗号化キー ${version} は${KEY_LENGTH}バイトで指定してください`);
+    }
+    return { version, key };
+  });
+
+  if (new Set(keys.map(k => k.version)).size !== keys.length) {
+    throw new Error('TOKEN_ENCRYPTION_KEYS のキーバージョンが重複しています');
+  }
+
+  cachedKeys = { source, keys };
+  return keys;
+}
+
+function getCurrentKey(): MasterKey {
+  const [current] = loadMasterKeys();
+  if (!current) {
+    throw new Error('TOKEN_ENCRYPTION_KEYS が設定されていないため、トークンを保存できません');
+  }
+  return current;
+}
+
+function seal(key: Buffer, plaintext: Buffer): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv, { authTagLength: TAG_LENGTH });
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64url');
+}
+
+function unseal(key: Buffer, sealed: string): Buffer {
+  const data = Buffer.from(sealed, 'base64url');
+  const decipher = createDecipheriv(ALGORITHM, key, data.subarray(0, IV_LENGTH), { authTagLength: TAG_LENGTH });
+  decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+  return Buffer.concat([decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+}
+
+function parseEncrypted(value: string): { version: string; wrappedKey: string; payload: string } {
+  const parts = value.split(':');
+  if (parts.length !== 5 || parts[0] !== PREFIX || parts[1] !== FORMAT_VERSION) {
+    throw new Error('暗号化されたトークンの形式が不正です');
+  }
+  return { version: parts[2], wrappedKey: parts[3], payload: parts[4] };
+}
+
+function unwrapDataKey(version: string, wrappedKey: string): Buffer {
+  const master = loadMasterKeys().find(k => k.version === version);
+  if (!master) {
+    throw new Error(`暗号化キー ${version} が TOKEN_ENCRYPTION_KEYS にありません`);
+  }
+  return unseal(master.key, wrappedKey);
+}
+
+export function isTokenEncryptionConfigured(): boolean {
+  return loadMasterKeys().length > 0;
+}
+
+export function isEncryptedToken(value: string): boolean {
+  return value.startsWith(`${PREFIX}:`);
+}
+
+export function encryptToken(plaintext: string): string {
+  const current = getCurrentKey();
+  const dataKey = randomBytes(KEY_LENGTH);
+
+  return [
+    PREFIX,
+    FORMAT_VERSION,
+    current.version,
+    seal(current.key, dataKey),
+    seal(dataKey, Buffer.from(plaintext, 'utf8')),
+  ].join(':');
+}
+
+// 暗号化前に保存された値はそのまま返す（ローテーションで暗号化される）
+export function decryptToken(value: string): string {
+  if (!isEncryptedToken(value)) return value;
+
+  const { version, wrappedKey, payload } = parseEncrypted(value);
+  return unseal(unwrapDataKey(version, wrappedKey), payload).toString('utf8');
+}
+
+// 平文のまま、または現在のキー以外で暗号化されている
+export function needsTokenRotation(value: string): boolean {
+  if (!isEncryptedToken(value)) return true;
+  return parseEncrypted(value).version !== getCurrentKey().version;
+}
+
+// 現在のキーで暗号化し直す（データキーだけを暗号化し直し、トークン本体はそのまま）
+export function rotateToken(value: string): string {
+  if (!isEncryptedToken(value)) return encryptToken(value);
+
+  const current = getCurrentKey();
+  const { version, wrappedKey, payload } = parseEncrypted(value);
+  if (version === current.version) return value;
+
+  const dataKey = unwrapDataKey(version, wrappedKey);
+  return [PREFIX, FORMAT_VERSION, current.version, seal(current.key, dataKey), payload].join(':');
+}
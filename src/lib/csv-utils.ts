@@ -2,12 +2,20 @@
  * CSV一括インポート/エクスポート用ユーティリティ
  */
 
+import { REPLY_CONTROL_LABELS, validatePostOptions, type ReplyControl } from './threads/post-options';
+
 export interface CsvRow {
   text: string;
   scheduledDate: string;
   scheduledTime: string;
   type: string;
   mediaUrls: string;
+  // 投稿オプション（任意。pollOptions は | 区切り）
+  replyControl: string;
+  topicTag: string;
+  pollOptions: string;
+  linkAttachment: string;
+  altText: string;
 }
 
 export interface CsvValidationError {
@@ -91,8 +99,45 @@ const HEADER_MAP: Record<string, keyof CsvRow> = {
   media_url: 'mediaUrls',
   'メディアURL': 'mediaUrls',
   '画像URL': 'mediaUrls',
+  replycontrol: 'replyControl',
+  reply_control: 'replyControl',
+  '返信できるユーザー': 'replyControl',
+  topictag: 'topicTag',
+  topic_tag: 'topicTag',
+  topic: 'topicTag',
+  'トピックタグ': 'topicTag',
+  'トピック': 'topicTag',
+  polloptions: 'pollOptions',
+  poll_options: 'pollOptions',
+  poll: 'pollOptions',
+  'アンケート': 'pollOptions',
+  linkattachment: 'linkAttachment',
+  link_attachment: 'linkAttachment',
+  link: 'linkAttachment',
+  'リンク': 'linkAttachment',
+  alttext: 'altText',
+  alt_text: 'altText',
+  '代替テキスト': 'altText',
 };
 
+// 返信できるユーザーは値（everyone など）と表示名のどちらでも指定できる
+function parseReplyControl(value: string): string {
+  const trimmed = value.trim();
+  const byLabel = (Object.keys(REPLY_CONTROL_LABELS) as ReplyControl[]).find(key => REPLY_CONTROL_LABELS[key] === trimmed);
+  return byLabel ?? trimmed.toLowerCase();
+}
+
+// CSV行の投稿オプションを予約投稿APIの形式にする
+export function csvRowToPostOptions(row: CsvRow): Record<string, unknown> {
+  return {
+    ...(row.replyControl?.trim() && { replyControl: parseReplyControl(row.replyControl) }),
+    ...(row.topicTag?.trim() && { topicTag: row.topicTag.trim() }),
+    ...(row.pollOptions?.trim() && { pollOptions: row.pollOptions.split('|').map(o => o.trim()) }),
+    ...(row.linkAttachment?.trim() && { linkAttachment: row.linkAttachment.trim() }),
+    ...(row.altText?.trim() && { altTexts: [row.altText.trim()] }),
+  };
+}
+
 // ヘッダー行からカラムインデックスをマッピング
 function mapHeaders(headers: string[]): Map<number, keyof CsvRow> {
   const mapping = new Map<number, keyof CsvRow>();
@@ -208,6 +253,11 @@ export function parseCSV(content: string): CsvParseResult {
       scheduledTime: '',
       type: 'text',
       mediaUrls: '',
+      replyControl: '',
+      topicTag: '',
+      pollOptions: '',
+      linkAttachment: '',
+      altText: '',
     };
 
     headerMapping.forEach((key, colIndex) => {
@@ -328,6 +378,12 @@ export function validateCsvRow(row: CsvRow, rowNumber: number): CsvValidationErr
     }
   }
 
+  // 投稿オプション: 予約投稿APIと同じ検証
+  const postOptions = validatePostOptions(csvRowToPostOptions(row), { type: row.type?.toLowerCase().trim() || 'text' });
+  if (postOptions.error !== undefined) {
+    errors.push({ row: rowNumber, field: 'options', message: postOptions.error });
+  }
+
   return errors;
 }
 
@@ -342,10 +398,11 @@ export function generateCsvTemplate(): string {
   const dateStr2 = dayAfter.toISOString().split('T')[0];
 
   return [
-    'text,scheduledDate,scheduledTime,type,mediaUrls',
+    'text,scheduledDate,scheduledTime,type,mediaUrls,replyControl,topicTag,pollOptions,linkAttachment,altText',
     `"おはようございます！今日も一日頑張りましょう",${dateStr},08:00,text,`,
-    `"新しいプロジェクトを始めました！詳細はプロフィールリンクから",${dateStr},12:00,text,`,
-    `"今日のランチはカレーでした🍛",${dateStr2},19:00,text,`,
+    `"新しいプロジェクトを始めました！詳細はこちら",${dateStr},12:00,text,,,,,https://example.com,`,
+    `"今日のランチはどっち派？",${dateStr2},12:00,text,,everyone,ランチ,カレー|ラーメン,,`,
+    `"今日のランチはカレーでした🍛",${dateStr2},19:00,image,https://example.com/curry.jpg,accounts_you_follow,,,,カレーライスの写真`,
     `"スレッドの1つ目の投稿|||スレッドの2つ目の投稿|||スレッドの3つ目の投稿",${dateStr2},20:00,thread,`,
   ].join('\n');
 }
@@ -358,9 +415,23 @@ export function exportScheduledPostsToCsv(posts: Array<{
   type: string;
   mediaUrls?: string | null;
   status: string;
+  replyControl?: string | null;
+  topicTag?: string | null;
+  pollOptions?: string | null;
+  linkAttachment?: string | null;
+  altTexts?: string | null;
 }>): string {
   const BOM = '\uFEFF';
-  const header = 'text,scheduledDate,scheduledTime,type,mediaUrls,status';
+  const header = 'text,scheduledDate,scheduledTime,type,mediaUrls,status,replyControl,topicTag,pollOptions,linkAttachment,altText';
+  const escape = (value: string) => `"${value.replace(/"/g, '""')}"`;
+  const jsonList = (value: string | null | undefined, separator: string) => {
+    try {
+      const parsed = value ? JSON.parse(value) : [];
+      return Array.isArray(parsed) ? parsed.join(separator) : '';
+    } catch {
+      return '';
+    }
+  };
   const rows = posts.map(post => {
     const date = new Date(post.scheduledAt);
     const dateStr = date.toISOString().split('T')[0];
@@ -395,7 +466,14 @@ export function exportScheduledPostsToCsv(posts: Array<{
       }
     }
     const escapedMediaUrls = mediaUrlsStr.replace(/"/g, '""');
-    return `"${text}",${dateStr},${timeStr},${post.type},"${escapedMediaUrls}",${post.status}`;
+    const options = [
+      post.replyControl ?? '',
+      escape(post.topicTag ?? ''),
+      escape(jsonList(post.pollOptions, '|')),
+      escape(post.linkAttachment ?? ''),
+      escape(jsonList(post.altTexts, ' ')),
+    ].join(',');
+    return `"${text}",${dateStr},${timeStr},${post.type},"${escapedMediaUrls}",${post.status},${options}`;
   });
 
   return BOM + [header, ...rows].join('\n');
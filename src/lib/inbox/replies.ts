@@ -0,0 +1,153 @@
+// Threads Studio - 受信箱（自分の投稿へのリプライ）の同期
+// リプライが付いた最近の投稿のスレッド（conversation）を取得して Reply に保存する。
+// 自分のアカウントのリプライも保存し、その返信先を「返信済み」にする。
+// 新着リプライには自動モデレーション（設定が有効な場合）を適用する
+
+import type { ThreadsPost } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { ThreadsAPIError } from '@/lib/threads/errors';
+import type { ThreadsAPIClient, ThreadsReply } from '@/lib/threads/client';
+import { loadModerationSettings, moderateIncomingReply } from '@/lib/moderation/actions';
+import type { ModerationSettings } from '@/lib/moderation/rules';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// この日数以内に公開した投稿のリプライを同期する
+export const REPLY_SYNC_DAYS = 14;
+// 1回の同期でスレッドを取得する投稿数（前回の同期が古い投稿から）
+const REPLY_SYNC_BATCH = 20;
+const CONVERSATION_PAGE_SIZE = 100;
+const CONVERSATION_MAX_PAGES = 5;
+
+export interface ReplySyncResult {
+  postsChecked: number;
+  newReplies: number;
+  moderated: number;
+  rateLimited: boolean;
+}
+
+function toReplyData(reply: ThreadsReply, post: Pick<ThreadsPost, 'mediaId'>) {
+  const parentId = reply.replied_to?.id;
+  return {
+    parentReplyId: parentId && parentId !== post.mediaId ? parentId : null,
+    username: reply.username,
+    text: reply.text ?? null,
+    permalink: reply.permalink ?? null,
+    likes: reply.like_count ?? 0,
+    hideStatus: reply.hide_status ?? null,
+    isOwn: reply.is_reply_owned_by_me ?? false,
+    publishedAt: new Date(reply.timestamp),
+  };
+}
+
+// 1投稿分のスレッドを保存し、新しく保存したリプライとモデレーションに該当した件数を返す
+export async function syncPostReplies(
+  client: ThreadsAPIClient,
+  post: Pick<ThreadsPost, 'id' | 'accountId' | 'mediaId'>,
+  now: Date = new Date(),
+  moderation: ModerationSettings | null = null
+): Promise<{ newReplies: number; moderated: number }> {
+  if (!prisma) return { newReplies: 0, moderated: 0 };
+
+  const replies: ThreadsReply[] = [];
+  let after: string | undefined;
+  for (let page = 0; page < CONVERSATION_MAX_PAGES; page++) {
+    const response = await client.getConversation(post.mediaId, CONVERSATION_PAGE_SIZE, after);
+    replies.push(...response.data);
+    after = response.paging?.cursors?.after;
+    if (!after || response.data.length === 0) break;
+  }
+
+  const existing = await prisma.reply.findMany({
+    where: { replyId: { in: replies.map(r => r.id) } },
+    select: { replyId: true },
+  });
+  const known = new Set(existing.map(r => r.replyId));
+
+  // いいね数・非表示の状態は変わるため、既存のリプライも更新する（既読・担当者はそのまま）
+  await prisma.$transaction(
+    replies.map(reply => {
+      const data = toReplyData(reply, post);
+      return prisma!.reply.upsert({
+        where: { replyId: reply.id },
+        create: { accountId: post.accountId, postId: post.id, replyId: reply.id, ...data, isRead: data.isOwn },
+        update: { likes: data.likes, hideStatus: data.hideStatus, text: data.text },
+      });
+    })
+  );
+
+  // 自分のリプライの返信先を返信済みにする（アプリ外で返信した場合も含む）
+  const answered = replies.filter(r => r.is_reply_owned_by_me && r.replied_to?.id && r.replied_to.id !== post.mediaId);
+  for (const reply of answered) {
+    await prisma.reply.updateMany({
+      where: { replyId: reply.replied_to!.id, answeredAt: null },
+      data: { answeredAt: new Date(reply.timestamp), isRead: true },
+    });
+  }
+
+  const newReplies = replies.filter(r => !known.has(r.id));
+  let moderated = 0;
+  if (moderation) {
+    for (const reply of newReplies) {
+      if (reply.is_reply_owned_by_me || reply.hide_status === 'HIDDEN') continue;
+      const verdict = await moderateIncomingReply(client, moderation, {
+        accountId: post.accountId,
+        replyId: reply.id,
+        username: reply.username,
+        text: reply.text,
+      }, now);
+      if (verdict) moderated++;
+    }
+  }
+
+  await prisma.threadsPost.update({
+    where: { id: post.id },
+    data: { repliesSyncedAt: now },
+  });
+
+  return { newReplies: newReplies.length, moderated };
+}
+
+// 1アカウント分のリプライを同期（レート制限に達した場合は残りを次回に回す）
+export async function syncAccountReplies(
+  client: ThreadsAPIClient,
+  accountId: string,
+  now: Date = new Date(),
+  limit = REPLY_SYNC_BATCH
+): Promise<ReplySyncResult> {
+  const result: ReplySyncResult = { postsChecked: 0, newReplies: 0, moderated: 0, rateLimited: false };
+  if (!prisma) return result;
+
+  const moderation = await loadModerationSettings(accountId);
+
+  const posts = await prisma.threadsPost.findMany({
+    where: {
+      accountId,
+      replies: { gt: 0 },
+      publishedAt: { gte: new Date(now.getTime() - REPLY_SYNC_DAYS * DAY_MS) },
+    },
+    orderBy: { repliesSyncedAt: { sort: 'asc', nulls: 'first' } },
+    take: limit,
+    select: { id: true, accountId: true, mediaId: true },
+  });
+
+  for (const post of posts) {
+    try {
+      const synced = await syncPostReplies(client, post, now, moderation);
+      result.newReplies += synced.newReplies;
+      result.moderated += synced.moderated;
+      result.postsChecked++;
+    } catch (error) {
+      if (error instanceof ThreadsAPIError && error.kind === 'rate_limit') {
+        result.rateLimited = true;
+        break;
+      }
+      if (error instanceof ThreadsAPIError && error.kind === 'auth') throw error;
+
+      console.warn(`Could not sync replies for post ${post.mediaId}:`, error);
+      await prisma.threadsPost.update({ where: { id: post.id }, data: { repliesSyncedAt: now } });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,140 @@
+// Threads Studio - リプライの非表示・再表示とモデレーションログ
+// 手動の操作と自動モデレーションのどちらもここを通し、結果を ModerationLog に記録する
+
+import { prisma } from '@/lib/db';
+import type { ThreadsAPIClient } from '@/lib/threads/client';
+import {
+  evaluateModeration,
+  normalizeRepeatKey,
+  parseStoredModerationSettings,
+  REPEAT_WINDOW_MS,
+  type ModerationReason,
+  type ModerationSettings,
+  type ModerationVerdict,
+} from './rules';
+
+export interface ModeratedReply {
+  accountId: string;
+  replyId: string; // Threads上のリプライID
+  username?: string | null;
+  text?: string | null;
+}
+
+interface ModerationContext {
+  reason: ModerationReason;
+  detail?: string | null;
+  toxicityScore?: number | null;
+  automatic?: boolean;
+}
+
+// リプライを非表示（hidden=true）または再表示にする
+// API呼び出しに失敗した場合もログを残してからエラーを投げる
+export async function setReplyHidden(
+  client: ThreadsAPIClient,
+  reply: ModeratedReply,
+  hidden: boolean,
+  context: ModerationContext
+): Promise<void> {
+  if (!prisma) return;
+
+  const log = {
+    accountId: reply.accountId,
+    replyId: reply.replyId,
+    username: reply.username ?? null,
+    text: reply.text ?? null,
+    action: hidden ? 'hide' : 'unhide',
+    reason: context.reason,
+    detail: context.detail ?? null,
+    toxicityScore: context.toxicityScore ?? null,
+    automatic: context.automatic ?? false,
+  };
+
+  try {
+    await client.manageReply(reply.replyId, hidden);
+  } catch (error) {
+    await prisma.moderationLog.create({
+      data: { ...log, status: 'failed', errorMessage: error instanceof Error ? error.message : 'Unknown error' },
+    });
+    throw error;
+  }
+
+  await prisma.reply.updateMany({
+    where: { replyId: reply.replyId },
+    data: { hideStatus: hidden ? 'HIDDEN' : 'UNHUSHED' },
+  });
+  await prisma.moderationLog.create({ data: { ...log, status: 'success' } });
+}
+
+export async function loadModerationSettings(accountId: string): Promise<ModerationSettings | null> {
+  if (!prisma) return null;
+  const row = await prisma.moderationSetting.findUnique({ where: { accountId } });
+  const settings = parseStoredModerationSettings(row);
+  return settings.isActive ? settings : null;
+}
+
+// 直近24時間に同じ文面で届いたリプライの件数（このリプライを含む）
+async function countRepeats(reply: ModeratedReply, now: Date): Promise<number> {
+  const key = normalizeRepeatKey(reply.text ?? '');
+  if (!prisma || !key) return 1;
+
+  const recent = await prisma.reply.findMany({
+    where: {
+      accountId: reply.accountId,
+      isOwn: false,
+      replyId: { not: reply.replyId },
+      publishedAt: { gte: new Date(now.getTime() - REPEAT_WINDOW_MS) },
+    },
+    select: { text: true },
+  });
+  return 1 + recent.filter(r => normalizeRepeatKey(r.text ?? '') === key).length;
+}
+
+// 新着リプライに自動モデレーションを適用し、該当したルールを返す（該当なしはnull）
+// 同じリプライを自動で処理済みなら何もしない（受信箱の同期と自動返信の両方から呼ばれるため）。
+// 非表示に失敗した場合はログに残し、該当として扱う
+export async function moderateIncomingReply(
+  client: ThreadsAPIClient,
+  settings: ModerationSettings,
+  reply: ModeratedReply,
+  now: Date = new Date()
+): Promise<ModerationVerdict | null> {
+  if (!prisma || !settings.isActive || !reply.text) return null;
+
+  const previous = await prisma.moderationLog.findFirst({
+    where: { replyId: reply.replyId, automatic: true },
+    select: { reason: true, detail: true, toxicityScore: true },
+  });
+  if (previous) {
+    return {
+      reason: previous.reason as ModerationVerdict['reason'],
+      detail: previous.detail ?? '',
+      toxicityScore: previous.toxicityScore ?? 0,
+    };
+  }
+
+  const repeatCount = settings.repeatThreshold !== null ? await countRepeats(reply, now) : 1;
+  const verdict = evaluateModeration(reply.text, settings, { repeatCount });
+  if (!verdict) return null;
+
+  const context = { ...verdict, automatic: true };
+  if (settings.action === 'flag') {
+    await prisma.moderationLog.create({
+      data: {
+        accountId: reply.accountId,
+        replyId: reply.replyId,
+        username: reply.username ?? null,
+        text: reply.text,
+        action: 'flag',
+        ...context,
+      },
+    });
+    return verdict;
+  }
+
+  try {
+    await setReplyHidden(client, reply, true, context);
+  } catch (error) {
+    console.warn(`Could not hide reply ${reply.replyId}:`, error);
+  }
+  return verdict;
+}
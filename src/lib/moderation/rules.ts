@@ -0,0 +1,164 @@
+// Threads Studio - リプライの自動モデレーションのルール評価
+// 設定画面のテスト（クライアント）とCronの両方から使うため、DBには依存しない
+
+import { normalizeForModeration, scoreToxicity } from './toxicity';
+
+export type ModerationAction = 'hide' | 'flag';
+export type ModerationReason = 'manual' | 'blocked_word' | 'link_spam' | 'repeated' | 'toxicity';
+
+export interface ModerationSettings {
+  isActive: boolean;
+  action: ModerationAction;
+  blockedWords: string[];
+  maxLinks: number | null;
+  repeatThreshold: number | null;
+  toxicityThreshold: number | null;
+}
+
+export interface ModerationVerdict {
+  reason: Exclude<ModerationReason, 'manual'>;
+  detail: string;
+  toxicityScore: number;
+}
+
+export const MODERATION_REASON_LABELS: Record<ModerationReason, string> = {
+  manual: '手動',
+  blocked_word: '禁止ワード',
+  link_spam: 'リンクスパム',
+  repeated: '同じ文面の繰り返し',
+  toxicity: '攻撃的な表現',
+};
+
+export const DEFAULT_MODERATION_SETTINGS: ModerationSettings = {
+  isActive: false,
+  action: 'hide',
+  blockedWords: [],
+  maxLinks: null,
+  repeatThreshold: null,
+  toxicityThreshold: null,
+};
+
+const MAX_BLOCKED_WORDS = 200;
+const MAX_WORD_LENGTH = 50;
+// 同じ文面を数える期間
+export const REPEAT_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const URL_PATTERN = /(https?:\/\/|www\.)[^\s]+|[a-z0-9-]+\.(com|net|org|jp|io|co|me|ly|xyz|info|shop|link)(\/[^\s]*)?/gi;
+
+export function countLinks(text: string): number {
+  return text.normalize('NFKC').match(URL_PATTERN)?.length ?? 0;
+}
+
+// 繰り返しの判定用に文面をそろえる（空白・記号の違いは無視）
+export function normalizeRepeatKey(text: string): string {
+  return normalizeForModeration(text).replace(/[\s\p{P}\p{S}]/gu, '');
+}
+
+// 最初に該当したルールを返す（該当なしはnull）
+// repeatCount は同じ文面のリプライの件数（このリプライを含む）
+export function evaluateModeration(
+  text: string,
+  settings: ModerationSettings,
+  context: { repeatCount?: number } = {}
+): ModerationVerdict | null {
+  const toxicity = scoreToxicity(text);
+  const normalized = normalizeForModeration(text);
+
+  const word = settings.blockedWords.find(w => normalized.includes(normalizeForModeration(w)));
+  if (word) {
+    return { reason: 'blocked_word', detail: word, toxicityScore: toxicity.score };
+  }
+
+  if (settings.maxLinks !== null) {
+    const links = countLinks(text);
+    if (links > settings.maxLinks) {
+      return { reason: 'link_spam', detail: `リンク${links}件`, toxicityScore: toxicity.score };
+    }
+  }
+
+  if (settings.repeatThreshold !== null && (context.repeatCount ?? 0) >= settings.repeatThreshold && normalizeRepeatKey(text)) {
+    return { reason: 'repeated', detail: `24時間で${context.repeatCount}件`, toxicityScore: toxicity.score };
+  }
+
+  if (settings.toxicityThreshold !== null && toxicity.score >= settings.toxicityThreshold) {
+    return { reason: 'toxicity', detail: toxicity.terms.join('、'), toxicityScore: toxicity.score };
+  }
+
+  return null;
+}
+
+// 保存値（ModerationSetting）から設定を組み立てる
+export function parseStoredModerationSettings(row: {
+  isActive: boolean;
+  action: string;
+  blockedWords: string | null;
+  maxLinks: number | null;
+  repeatThreshold: number | null;
+  toxicityThreshold: number | null;
+} | null): ModerationSettings {
+  if (!row) return DEFAULT_MODERATION_SETTINGS;
+
+  let blockedWords: string[] = [];
+  try {
+    const parsed = row.blockedWords ? JSON.parse(row.blockedWords) : [];
+    blockedWords = Array.isArray(parsed) ? parsed.filter((w): w is string => typeof w === 'string') : [];
+  } catch {
+    blockedWords = [];
+  }
+
+  return {
+    isActive: row.isActive,
+    action: row.action === 'flag' ? 'flag' : 'hide',
+    blockedWords,
+    maxLinks: row.maxLinks,
+    repeatThreshold: row.repeatThreshold,
+    toxicityThreshold: row.toxicityThreshold,
+  };
+}
+
+// リクエストの設定を検証（エラーメッセージ、または保存する値）
+export function validateModerationSettings(body: Record<string, unknown>): { settings: ModerationSettings; error?: undefined } | { error: string } {
+  const words = Array.isArray(body.blockedWords) ? body.blockedWords : [];
+  const blockedWords = [...new Set(
+    words.filter((w): w is string => typeof w === 'string').map(w => w.trim()).filter(Boolean)
+  )];
+  if (blockedWords.length > MAX_BLOCKED_WORDS) {
+    return { error: `禁止ワードは${MAX_BLOCKED_WORDS}件までです。` };
+  }
+  if (blockedWords.some(w => w.length > MAX_WORD_LENGTH)) {
+    return { error: `禁止ワードは1件${MAX_WORD_LENGTH}文字以内にしてください。` };
+  }
+
+  const optionalInt = (value: unknown, min: number, max: number) => {
+    if (value === null || value === undefined || value === '') return null;
+    const n = Number(value);
+    return Number.isInteger(n) && n >= min && n <= max ? n : undefined;
+  };
+  const maxLinks = optionalInt(body.maxLinks, 0, 10);
+  if (maxLinks === undefined) {
+    return { error: 'リンク数の上限は0〜10で指定してください。' };
+  }
+  const repeatThreshold = optionalInt(body.repeatThreshold, 2, 100);
+  if (repeatThreshold === undefined) {
+    return { error: '繰り返しの件数は2〜100で指定してください。' };
+  }
+
+  let toxicityThreshold: number | null = null;
+  if (body.toxicityThreshold !== null && body.toxicityThreshold !== undefined && body.toxicityThreshold !== '') {
+    toxicityThreshold = Number(body.toxicityThreshold);
+    if (!Number.isFinite(toxicityThreshold) || toxicityThreshold < 0.1 || toxicityThreshold > 1) {
+      return { error: '攻撃的な表現のしきい値は0.1〜1で指定してください。' };
+    }
+  }
+
+  return {
+    settings: {
+      isActive: body.isActive === true,
+      action: body.action === 'flag' ? 'flag' : 'hide',
+      blockedWords,
+      maxLinks,
+      repeatThreshold,
+      toxicityThreshold,
+    },
+  };
+}
@@ -0,0 +1,83 @@
+// Threads Studio - 攻撃的な表現のスコア（外部APIを使わない辞書ベースの判定）
+// 語ごとの重みを「いずれかが攻撃的である確率」として合成する（1 - Π(1 - 重み)）。
+// 文脈は考慮しないため、しきい値は高め（0.7前後）から調整する想定
+
+export interface ToxicityResult {
+  score: number; // 0〜1
+  terms: string[]; // 一致した語
+}
+
+// 日本語はひらがなに正規化した形で持つ（カタカナ・全角半角の揺れを吸収）
+// 「ばかり」「かす」のように普通の語に含まれやすいものは入れない
+const JA_LEXICON: Array<[string, number]> = [
+  ['しね', 0.9],
+  ['死ね', 0.9],
+  ['氏ね', 0.8],
+  ['ころすぞ', 0.95],
+  ['殺すぞ', 0.95],
+  ['殺す', 0.8],
+  ['きえろ', 0.7],
+  ['消えろ', 0.7],
+  ['だまれ', 0.5],
+  ['黙れ', 0.5],
+  ['このくず', 0.7],
+  ['くずやろう', 0.7],
+  ['ごみ', 0.3],
+  ['ぶす', 0.6],
+  ['きもい', 0.5],
+  ['きしょい', 0.5],
+  ['うざい', 0.4],
+  ['ばかやろう', 0.5],
+  ['馬鹿', 0.3],
+  ['あほ', 0.3],
+  ['低能', 0.6],
+  ['無能', 0.4],
+];
+
+// 英語は単語単位で一致させる
+const EN_LEXICON: Array<[string, number]> = [
+  ['kill yourself', 0.95],
+  ['kys', 0.9],
+  ['die', 0.3],
+  ['idiot', 0.4],
+  ['stupid', 0.35],
+  ['moron', 0.5],
+  ['dumb', 0.3],
+  ['loser', 0.3],
+  ['trash', 0.3],
+  ['shut up', 0.35],
+  ['fuck', 0.5],
+  ['fucking', 0.5],
+  ['shit', 0.3],
+  ['bitch', 0.6],
+  ['asshole', 0.6],
+];
+
+// 全角・半角と大文字小文字をそろえ、カタカナをひらがなにする
+export function normalizeForModeration(text: string): string {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[ァ-ヶ]/g, ch => String.fromCharCode(ch.charCodeAt(0) - 0x60));
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+const EN_PATTERNS = EN_LEXICON.map(([term, weight]) => ({
+  term,
+  weight,
+  pattern: new RegExp(`(^|[^a-z])${escapeRegExp(term)}($|[^a-z])`),
+}));
+
+export function scoreToxicity(text: string): ToxicityResult {
+  const normalized = normalizeForModeration(text);
+  const matched: Array<[string, number]> = [
+    ...JA_LEXICON.filter(([term]) => normalized.includes(term)),
+    ...EN_PATTERNS.filter(p => p.pattern.test(normalized)).map(p => [p.term, p.weight] as [string, number]),
+  ];
+
+  const score = 1 - matched.reduce((product, [, weight]) => product * (1 - weight), 1);
+  return { score: Math.round(score * 100) / 100, terms: matched.map(([term]) => term) };
+}
@@ -0,0 +1,117 @@
+// Threads Studio - フォローアップ返信の送信ジョブ（親投稿の公開後に遅延・条件付きで返信）
+
+import { prisma } from '@/lib/db';
+import { createAccountClient } from '@/lib/threads/accounts';
+import { markTokenInvalid } from '@/lib/threads/token-refresh';
+import { parseStoredFollowUps, type FollowUpMetric } from './follow-ups';
+import { recoverStaleSendingJobs, sendReplyJobs, type ReplyJobStore } from './reply-dispatch';
+
+// 1回のCron実行で送信する最大件数
+const DISPATCH_BATCH_SIZE = 50;
+const MAX_SEND_ATTEMPTS = 3;
+
+// 親投稿の公開時に、予約投稿のフォローアップ返信の定義から送信ジョブを作成
+// 同じ親投稿に対しては一度だけ作成する（リトライや重複実行でも二重に返信しない）
+export async function createFollowUpJobs(
+  post: { id: string; accountId: string; followUps: string | null },
+  parentPostedId: string,
+  publishedAt = new Date()
+): Promise<number> {
+  const followUps = parseStoredFollowUps(post.followUps);
+  if (!prisma || followUps.length === 0) return 0;
+
+  const result = await prisma.followUpReply.createMany({
+    data: followUps.map((followUp, position) => ({
+      scheduledPostId: post.id,
+      accountId: post.accountId,
+      parentPostedId,
+      position,
+      text: followUp.text,
+      sendAt: new Date(publishedAt.getTime() + followUp.delayMinutes * 60 * 1000),
+      conditionMetric: followUp.condition?.metric ?? null,
+      conditionThreshold: followUp.condition?.threshold ?? null,
+    })),
+    skipDuplicates: true,
+  });
+
+  return result.count;
+}
+
+const followUpStore: ReplyJobStore = {
+  async update(id, status, data) {
+    const result = await prisma!.followUpReply.updateMany({ where: { id, status }, data });
+    return result.count > 0;
+  },
+  async updateStale(staleBefore, data) {
+    const result = await prisma!.followUpReply.updateMany({
+      where: { status: 'sending', lockedAt: { lt: staleBefore } },
+      data,
+    });
+    return result.count;
+  },
+};
+
+// 送信中のまま放置されたジョブを失敗として記録（二重返信を避けて再送はしない）
+export async function recoverStaleFollowUps(now = new Date()): Promise<number> {
+  if (!prisma) return 0;
+  return recoverStaleSendingJobs(followUpStore, now);
+}
+
+// 送信予定時刻を過ぎたフォローアップ返信を送信
+// 条件付きのものは親投稿の現在の指標を取得し、しきい値を超えていなければ送らずに skipped にする
+// （条件を判定してからクォータを確保するため、送らない返信が枠を消費することはない）
+export async function dispatchDueFollowUps(now = new Date()): Promise<Array<{
+  id: string;
+  scheduledPostId: string;
+  status: 'sent' | 'skipped' | 'scheduled' | 'failed';
+  error?: string;
+}>> {
+  if (!prisma) return [];
+
+  await recoverStaleFollowUps(now);
+
+  const jobs = await prisma.followUpReply.findMany({
+    where: {
+      status: 'scheduled',
+      sendAt: { lte: now },
+      // トークンが失効したアカウントの返信は再認証まで送信を待つ
+      scheduledPost: { account: { tokenStatus: 'valid' } },
+    },
+    include: {
+      scheduledPost: {
+        select: {
+          account: { select: { id: true, userId: true, username: true, accessToken: true } },
+        },
+      },
+    },
+    orderBy: [{ sendAt: 'asc' }, { position: 'asc' }],
+    take: DISPATCH_BATCH_SIZE,
+  });
+
+  const results = await sendReplyJobs(jobs, {
+    store: followUpStore,
+    maxAttempts: MAX_SEND_ATTEMPTS,
+    now,
+    beforeSend: async job => {
+      if (!job.conditionMetric || job.conditionThreshold === null) return true;
+
+      const insights = await createAccountClient(job.scheduledPost.account).getMediaInsights(job.parentPostedId);
+      const metricValue = insights[job.conditionMetric as FollowUpMetric] ?? 0;
+      await prisma!.followUpReply.update({
+        where: { id: job.id },
+        data: { metricValue },
+      });
+      return metricValue > job.conditionThreshold;
+    },
+    send: job => createAccountClient(job.scheduledPost.account).postText(job.text, job.parentPostedId),
+    onTokenInvalid: (job, error) =>
+      markTokenInvalid(job.scheduledPost.account, error instanceof Error ? error.message : 'Token rejected', now),
+  });
+
+  return results.map(({ job, status, error }) => ({
+    id: job.id,
+    scheduledPostId: job.scheduledPostId,
+    status,
+    ...(error !== undefined && { error }),
+  }));
+}
@@ -0,0 +1,118 @@
+// Threads Studio - 予約投稿のフォローアップ返信（定義の検証と保存形式）
+//
+// 予約投稿・定期投稿に「公開の○分後に自分の投稿へ返信する」定義を持たせる。条件を付けた場合は
+// 送信時点の親投稿の指標（例: 2時間後に閲覧数が1000を超えていれば）を見て送るかを決める。
+// 送信ジョブ（FollowUpReply）は親投稿の公開時に作るため、定期投稿でも毎回送られる。
+// DBには依存しない
+
+export type FollowUpMetric = 'views' | 'likes' | 'replies' | 'reposts' | 'quotes';
+
+export interface FollowUpCondition {
+  metric: FollowUpMetric;
+  threshold: number; // この値を超えた場合に送信
+}
+
+export interface FollowUpDefinition {
+  text: string;
+  delayMinutes: number; // 親投稿の公開からの遅延
+  condition?: FollowUpCondition;
+}
+
+export const FOLLOW_UP_METRIC_LABELS: Record<FollowUpMetric, string> = {
+  views: '閲覧数',
+  likes: 'いいね',
+  replies: '返信',
+  reposts: 'リポスト',
+  quotes: '引用',
+};
+
+export const FOLLOW_UP_STATUS_LABELS: Record<string, string> = {
+  scheduled: '送信待ち',
+  sending: '送信中',
+  sent: '送信済み',
+  skipped: '条件未達',
+  failed: '失敗',
+};
+
+export const MAX_FOLLOW_UPS = 5;
+export const MAX_FOLLOW_UP_DELAY_MINUTES = 7 * 24 * 60; // 7日
+const FOLLOW_UP_TEXT_MAX_LENGTH = 500;
+
+// 「+5分」「+2時間」のような表示用の文字列
+export function formatFollowUpDelay(delayMinutes: number): string {
+  if (delayMinutes >= 60 && delayMinutes % 60 === 0) return `+${delayMinutes / 60}時間`;
+  return `+${delayMinutes}分`;
+}
+
+export function describeFollowUpCondition(condition: FollowUpCondition | undefined): string | null {
+  if (!condition) return null;
+  return `${FOLLOW_UP_METRIC_LABELS[condition.metric]}が${condition.threshold.toLocaleString()}を超えた場合`;
+}
+
+export function parseStoredFollowUps(value: string | null): FollowUpDefinition[] {
+  if (!value) return [];
+  try {
+    const parsed = validateFollowUps(JSON.parse(value));
+    return parsed.error !== undefined ? [] : parsed.followUps;
+  } catch {
+    return [];
+  }
+}
+
+export function toStoredFollowUps(followUps: FollowUpDefinition[]): string | null {
+  return followUps.length > 0 ? JSON.stringify(followUps) : null;
+}
+
+// リクエストのフォローアップ返信を検証する（未指定・空配列は定義なし）
+export function validateFollowUps(
+  input: unknown
+): { followUps: FollowUpDefinition[]; error?: undefined } | { error: string } {
+  if (input === undefined || input === null) return { followUps: [] };
+  if (!Array.isArray(input)) {
+    return { error: 'フォローアップ返信の指定が正しくありません。' };
+  }
+  if (input.length > MAX_FOLLOW_UPS) {
+    return { error: `フォローアップ返信は${MAX_FOLLOW_UPS}件までです。` };
+  }
+
+  const followUps: FollowUpDefinition[] = [];
+  for (const [i, item] of input.entries()) {
+    const label = `フォローアップ返信${i + 1}`;
+    if (!item || typeof item !== 'object') {
+      return { error: `${label}の指定が正しくありません。` };
+    }
+    const { text, delayMinutes, condition } = item as Record<string, unknown>;
+
+    if (typeof text !== 'string' || !text.trim()) {
+      return { error: `${label}の本文を入力してください。` };
+    }
+    if (text.trim().length > FOLLOW_UP_TEXT_MAX_LENGTH) {
+      return { error: `${label}の本文は${FOLLOW_UP_TEXT_MAX_LENGTH}文字以内にしてください。` };
+    }
+    if (
+      typeof delayMinutes !== 'number' || !Number.isInteger(delayMinutes) ||
+      delayMinutes < 0 || delayMinutes > MAX_FOLLOW_UP_DELAY_MINUTES
+    ) {
+      return { error: `${label}の遅延は0〜${MAX_FOLLOW_UP_DELAY_MINUTES}分の整数で指定してください。` };
+    }
+
+    const definition: FollowUpDefinition = { text: text.trim(), delayMinutes };
+    if (condition !== undefined && condition !== null) {
+      const { metric, threshold } = condition as Record<string, unknown>;
+      if (typeof metric !== 'string' || !(metric in FOLLOW_UP_METRIC_LABELS)) {
+        return { error: `${label}の条件の指標が正しくありません。` };
+      }
+      if (typeof threshold !== 'number' || !Number.isInteger(threshold) || threshold < 0) {
+        return { error: `${label}の条件の値は0以上の整数で指定してください。` };
+      }
+      // 公開直後は指標がほぼ0のため、条件付きの返信は時間を置いて判定する
+      if (delayMinutes < 5) {
+        return { error: `${label}: 条件を付ける場合、遅延は5分以上にしてください。` };
+      }
+      definition.condition = { metric: metric as FollowUpMetric, threshold };
+    }
+    followUps.push(definition);
+  }
+
+  return { followUps };
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { ThreadsAPIError } from '@/lib/threads/errors';
+import { classifyPublishError, PublishedJobError } from './queue';
+
+describe('classifyPublishError', () => {
+  it('retries transient Threads API errors', () => {
+    expect(classifyPublishError(new ThreadsAPIError('Service unavailable', { kind: 'transient', status: 503 }))).toBe('retryable');
+    expect(classifyPublishError(new ThreadsAPIError('Container processing timeout', { kind: 'timeout' }))).toBe('retryable');
+  });
+
+  it('does not retry auth or invalid request errors', () => {
+    expect(classifyPublishError(new ThreadsAPIError('Invalid token', { kind: 'auth', status: 401 }))).toBe('permanent');
+    expect(classifyPublishError(new ThreadsAPIError('Bad media', { kind: 'invalid_request', status: 400 }))).toBe('permanent');
+  });
+
+  it('does not retry a publish request whose outcome is unknown', () => {
+    const timeout = new ThreadsAPIError('timed out', { kind: 'timeout', unconfirmed: true });
+    const network = new ThreadsAPIError('fetch failed', { kind: 'network', unconfirmed: true });
+    expect(timeout.retryable).toBe(false);
+    expect(classifyPublishError(timeout)).toBe('unconfirmed');
+    expect(classifyPublishError(network)).toBe('unconfirmed');
+  });
+
+  it('does not retry failures after the post was published', () => {
+    expect(classifyPublishError(new PublishedJobError('123', new Error('Connection timeout')))).toBe('unconfirmed');
+  });
+
+  it('does not treat vague messages as retryable', () => {
+    expect(classifyPublishError(new Error('Unknown error'))).toBe('permanent');
+    expect(classifyPublishError(new Error('Please retry later: timeout'))).toBe('permanent');
+    expect(classifyPublishError(new TypeError("Cannot read properties of undefined (reading 'id')"))).toBe('permanent');
+    expect(classifyPublishError(new Error('connect ECONNRESET'))).toBe('retryable');
+  });
+});
@@ -0,0 +1,221 @@
+// Threads Studio - 予約投稿キュー（リトライ・バックオフ・リース管理）
+
+import { prisma } from '@/lib/db';
+import { ThreadsAPIError } from '@/lib/threads/errors';
+
+// 処理中のまま放置された投稿を回収するまでの時間
+export const LEASE_TIMEOUT_MS = 10 * 60 * 1000;
+
+const BASE_BACKOFF_MS = 60 * 1000; // 1分
+const MAX_BACKOFF_MS = 6 * 60 * 60 * 1000; // 6時間
+
+// unconfirmed: 公開されたか確認できない（再試行すると二重投稿になり得るため、ユーザーが確認するまで止める）
+export type PublishErrorKind = 'retryable' | 'permanent' | 'unconfirmed';
+
+// Threads APIのエラー以外で、一時的なもの（公開前に失敗したことが明らかなもの）のパターン
+// 「timeout」「retry」のような曖昧な文言は、公開後の失敗でも含まれ得るため再試行の対象にしない
+const RETRYABLE_PATTERNS = [
+  /rate limit/i,
+  /too many/i,
+  /request limit/i,
+  /投稿制限/,
+  /IN_PROGRESS/,
+  /temporarily unavailable/i,
+  /fetch failed/i,
+  /ECONNRESET|ETIMEDOUT|ENOTFOUND|EAI_AGAIN/,
+  /internal server error|bad gateway|service unavailable|gateway timeout/i,
+];
+
+// 公開は成功したが、その後の記録に失敗したエラー（再試行すると二重投稿になる）
+export class PublishedJobError extends Error {
+  readonly postedId: string;
+
+  constructor(postedId: string, cause: unknown) {
+    super(`投稿は公開されましたが、記録に失敗しました（投稿ID: ${postedId}）: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'PublishedJobError';
+    this.postedId = postedId;
+  }
+}
+
+// エラーを再試行可能か恒久的かに分類
+export function classifyPublishError(error: unknown): PublishErrorKind {
+  if (error instanceof PublishedJobError) {
+    return 'unconfirmed';
+  }
+
+  // Threads APIのエラーは種類で判定（トークン失効・権限不足・不正なリクエストは再試行しない）
+  // 公開リクエストのタイムアウト・通信エラーは、公開されたか分からないため再試行しない
+  if (error instanceof ThreadsAPIError) {
+    if (error.unconfirmed) return 'unconfirmed';
+    return error.retryable ? 'retryable' : 'permanent';
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return RETRYABLE_PATTERNS.some(pattern => pattern.test(message)) ? 'retryable' : 'permanent';
+}
+
+// 試行回数に応じた待機時間（指数バックオフ + ジッター）
+export function getBackoffDelay(attempt: number): number {
+  const exponential = BASE_BACKOFF_MS * Math.pow(2, Math.max(0, attempt - 1));
+  const capped = Math.min(exponential, MAX_BACKOFF_MS);
+  const jitter = Math.random() * capped * 0.2;
+  return Math.round(capped + jitter);
+}
+
+// 処理中のまま一定時間が経過した投稿を回収する（クラッシュ対策）
+// 公開まで済んでいたかを判断できないため、二重投稿を避けて再試行せずデッドレターにする
+// （ユーザーがThreadsで確認してから再試行する）
+export async function recoverStaleJobs(now = new Date()): Promise<number> {
+  if (!prisma) return 0;
+
+  const staleBefore = new Date(now.getTime() - LEASE_TIMEOUT_MS);
+  const result = await prisma.scheduledPost.updateMany({
+    where: {
+      status: 'processing',
+      OR: [
+        { lockedAt: { lt: staleBefore } },
+        { lockedAt: null, updatedAt: { lt: staleBefore } },
+      ],
+    },
+    data: {
+      status: 'failed',
+      errorMessage: '処理がタイムアウトしました（投稿されたか確認できないため、二重投稿を避けて自動では再試行していません。Threadsで確認してから再試行してください）',
+      nextAttemptAt: null,
+      lockedAt: null,
+    },
+  });
+
+  return result.count;
+}
+
+// 投稿を処理中としてロックする（他のワーカーが先に取得した場合はfalse）
+export async function claimJob(id: string, now = new Date()): Promise<boolean> {
+  if (!prisma) return false;
+
+  const result = await prisma.scheduledPost.updateMany({
+    where: { id, status: 'pending' },
+    data: {
+      status: 'processing',
+      lockedAt: now,
+      attemptCount: { increment: 1 },
+    },
+  });
+
+  return result.count > 0;
+}
+
+// 投稿成功を記録
+export async function recordJobSuccess(id: string, postedId: string): Promise<void> {
+  if (!prisma) return;
+
+  await prisma.scheduledPost.update({
+    where: { id },
+    data: {
+      status: 'completed',
+      postedId,
+      threadPublishedIds: null,
+      errorMessage: null,
+      nextAttemptAt: null,
+      lockedAt: null,
+    },
+  });
+}
+
+// 投稿失敗を記録（再試行可能ならバックオフ後に再スケジュール、それ以外はデッドレター）
+export async function recordJobFailure(
+  job: { id: string; attemptCount: number; maxAttempts: number },
+  error: unknown,
+  now = new Date()
+): Promise<{ status: 'pending' | 'failed'; nextAttemptAt?: Date; error: string }> {
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  const kind = classifyPublishError(error);
+  const canRetry = kind === 'retryable' && job.attemptCount < job.maxAttempts;
+
+  if (canRetry) {
+    const nextAttemptAt = new Date(now.getTime() + getBackoffDelay(job.attemptCount));
+    await prisma!.scheduledPost.update({
+      where: { id: job.id },
+      data: {
+        status: 'pending',
+        errorMessage: message,
+        nextAttemptAt,
+        lockedAt: null,
+      },
+    });
+    return { status: 'pending', nextAttemptAt, error: message };
+  }
+
+  await prisma!.scheduledPost.update({
+    where: { id: job.id },
+    data: {
+      status: 'failed',
+      errorMessage: kind === 'retryable'
+        ? `${message}（${job.attemptCount}回試行しましたが失敗しました）`
+        : kind === 'unconfirmed'
+          ? `${message}（投稿されたか確認できないため、二重投稿を避けて自動では再試行していません。Threadsで確認してから再試行してください）`
+          : message,
+      nextAttemptAt: null,
+      lockedAt: null,
+    },
+  });
+  return { status: 'failed', error: message };
+}
+
+// スレッドの公開済みの投稿IDを保存（失敗した場合は次の試行で続きから投稿する）
+export async function saveThreadProgress(id: string, publishedIds: string[]): Promise<void> {
+  if (!prisma) return;
+
+  await prisma.scheduledPost.update({
+    where: { id },
+    data: { threadPublishedIds: JSON.stringify(publishedIds) },
+  });
+}
+
+// 取得した投稿を試行せずに延期する（公開クォータ不足など。試行回数には数えない）
+export async function deferJob(id: string, until: Date, reason: string): Promise<void> {
+  if (!prisma) return;
+
+  await prisma.scheduledPost.updateMany({
+    where: { id, status: 'processing' },
+    data: {
+      status: 'pending',
+      nextAttemptAt: until,
+      errorMessage: reason,
+      lockedAt: null,
+      attemptCount: { decrement: 1 },
+    },
+  });
+}
+
+// 取得した投稿をトークンの失効で停止する（再認証後に再開する。試行回数には数えない）
+export async function pauseJobForInvalidToken(id: string, reason: string): Promise<void> {
+  if (!prisma) return;
+
+  await prisma.scheduledPost.updateMany({
+    where: { id, status: 'processing' },
+    data: {
+      status: 'paused',
+      pausedReason: 'token_invalid',
+      errorMessage: reason,
+      nextAttemptAt: null,
+      lockedAt: null,
+      attemptCount: { decrement: 1 },
+    },
+  });
+}
+
+// デッドレターの投稿を再度キューに戻す（予約時刻を過ぎていれば次回のCron実行で処理される）
+export async function requeueJob(id: string): Promise<void> {
+  if (!prisma) return;
+
+  await prisma.scheduledPost.update({
+    where: { id },
+    data: {
+      status: 'pending',
+      attemptCount: 0,
+      errorMessage: null,
+      nextAttemptAt: null,
+      lockedAt: null,
+    },
+  });
+}
@@ -0,0 +1,294 @@
+// Threads Studio - 公開クォータ（24時間あたりの投稿数・返信数の上限）
+// 予約投稿・自動リプライの送信前に残りを確認し、超える分は延期する
+
+import { prisma } from '@/lib/db';
+import { createAccountClient } from '@/lib/threads/accounts';
+import {
+  DEFAULT_TIMEZONE,
+  getUpcomingOccurrences,
+  getWallTime,
+  isValidTimezone,
+  resolveRecurrence,
+  wallTimeToUtc,
+} from './recurrence';
+
+const HOUR_MS = 60 * 60 * 1000;
+export const QUOTA_WINDOW_MS = 24 * HOUR_MS;
+
+// APIから上限を取得できない場合の値（Threads APIの既定値）
+export const DEFAULT_POST_QUOTA = 250;
+export const DEFAULT_REPLY_QUOTA = 1000;
+
+// クォータ不足で延期した投稿・返信を再試行するまでの時間
+export const QUOTA_DEFER_MS = HOUR_MS;
+
+export interface QuotaCost {
+  posts: number;
+  replies: number;
+}
+
+export interface AccountQuota {
+  posts: { usage: number; total: number };
+  replies: { usage: number; total: number };
+  checkedAt: Date;
+}
+
+// 投稿1件が消費するクォータ（スレッドの2件目以降は自分の投稿への返信として数えられる）
+export function getPostQuotaCost(post: { type: string; threadPosts: string | null }): QuotaCost {
+  if (post.type !== 'thread' || !post.threadPosts) return { posts: 1, replies: 0 };
+
+  try {
+    const count = (JSON.parse(post.threadPosts) as unknown[]).length;
+    return { posts: 1, replies: Math.max(0, count - 1) };
+  } catch {
+    return { posts: 1, replies: 0 };
+  }
+}
+
+// スレッドの一部を公開済みの場合に、残りの投稿が消費するクォータ
+export function getRemainingQuotaCost(cost: QuotaCost, publishedCount: number): QuotaCost {
+  if (publishedCount <= 0) return cost;
+  return { posts: 0, replies: Math.max(0, cost.replies - (publishedCount - 1)) };
+}
+
+export function hasQuotaFor(quota: AccountQuota, cost: QuotaCost): boolean {
+  return quota.posts.usage + cost.posts <= quota.posts.total
+    && quota.replies.usage + cost.replies <= quota.replies.total;
+}
+
+// 保存済みのクォータ（24時間以内に取得したもののみ）
+function storedQuota(account: {
+  postQuotaUsage: number | null;
+  postQuotaTotal: number | null;
+  replyQuotaUsage: number | null;
+  replyQuotaTotal: number | null;
+  quotaCheckedAt: Date | null;
+}, now: Date): AccountQuota | null {
+  if (!account.quotaCheckedAt || now.getTime() - account.quotaCheckedAt.getTime() >= QUOTA_WINDOW_MS) {
+    return null;
+  }
+  return {
+    posts: { usage: account.postQuotaUsage ?? 0, total: account.postQuotaTotal ?? DEFAULT_POST_QUOTA },
+    replies: { usage: account.replyQuotaUsage ?? 0, total: account.replyQuotaTotal ?? DEFAULT_REPLY_QUOTA },
+    checkedAt: account.quotaCheckedAt,
+  };
+}
+
+async function saveQuota(accountId: string, quota: AccountQuota) {
+  await prisma!.threadsAccount.update({
+    where: { id: accountId },
+    data: {
+      postQuotaUsage: quota.posts.usage,
+      postQuotaTotal: quota.posts.total,
+      replyQuotaUsage: quota.replies.usage,
+      replyQuotaTotal: quota.replies.total,
+      quotaCheckedAt: quota.checkedAt,
+    },
+  });
+}
+
+// APIから現在のクォータを取得して保存する（取得できない場合は保存済みの値、それもなければnull）
+export async function fetchAccountQuota(accountId: string, now: Date = new Date()): Promise<AccountQuota | null> {
+  const account = await prisma!.threadsAccount.findUnique({ where: { id: accountId } });
+  if (!account) return null;
+
+  try {
+    const limit = await createAccountClient(account).getPublishingLimit();
+    const quota: AccountQuota = {
+      posts: {
+        usage: limit.quota_usage ?? 0,
+        total: limit.config?.quota_total ?? DEFAULT_POST_QUOTA,
+      },
+      replies: {
+        usage: limit.reply_quota_usage ?? 0,
+        total: limit.reply_config?.quota_total ?? DEFAULT_REPLY_QUOTA,
+      },
+      checkedAt: now,
+    };
+    await saveQuota(accountId, quota);
+    return quota;
+  } catch (error) {
+    console.warn(`Could not fetch publishing limit for ${accountId}:`, error);
+    return storedQuota(account, now);
+  }
+}
+
+// Cron実行中のクォータ管理（アカウントごとに1回だけAPIから取得し、以降は送信した分を加算する）
+export function createQuotaTracker(now: Date = new Date()) {
+  const quotas = new Map<string, Promise<AccountQuota | null>>();
+
+  return {
+    // 送信できる場合は消費してtrue（クォータを取得できない場合は送信を試みる）
+    async reserve(accountId: string, cost: QuotaCost): Promise<boolean> {
+      let pending = quotas.get(accountId);
+      if (!pending) {
+        pending = fetchAccountQuota(accountId, now);
+        quotas.set(accountId, pending);
+      }
+
+      const quota = await pending;
+      if (!quota) return true;
+      if (!hasQuotaFor(quota, cost)) return false;
+
+      quota.posts.usage += cost.posts;
+      quota.replies.usage += cost.replies;
+      await saveQuota(accountId, quota);
+      return true;
+    },
+
+    // 確保したが公開しなかった分を戻す（公開前に失敗した場合など）
+    async release(accountId: string, cost: QuotaCost): Promise<void> {
+      const quota = await quotas.get(accountId);
+      if (!quota) return;
+
+      quota.posts.usage = Math.max(0, quota.posts.usage - cost.posts);
+      quota.replies.usage = Math.max(0, quota.replies.usage - cost.replies);
+      await saveQuota(accountId, quota);
+    },
+  };
+}
+
+// ===================================
+// 予測
+// ===================================
+
+export interface PlannedPublication {
+  at: Date;
+  cost: QuotaCost;
+}
+
+// 指定期間に公開予定の投稿・返信（予約時刻を過ぎた未処理分は現在時刻に公開されるものとして数える）
+export async function listPlannedPublications(
+  accountId: string,
+  from: Date,
+  to: Date,
+  now: Date = new Date()
+): Promise<PlannedPublication[]> {
+  const planned: PlannedPublication[] = [];
+  const add = (date: Date, cost: QuotaCost) => {
+    const at = date < now ? now : date;
+    if (at >= from && at < to) planned.push({ at, cost });
+  };
+
+  const posts = await prisma!.scheduledPost.findMany({
+    where: { accountId, status: 'pending', scheduledAt: { lt: to } },
+  });
+
+  for (const post of posts) {
+    const cost = getPostQuotaCost(post);
+    const dueAt = post.nextAttemptAt && post.nextAttemptAt > post.scheduledAt ? post.nextAttemptAt : post.scheduledAt;
+    add(dueAt, cost);
+    if (!post.isRecurring) continue;
+
+    // 定期投稿は期間内の以降の発生日時もすべて数える
+    try {
+      const recurrence = resolveRecurrence(post);
+      if (!recurrence) continue;
+      const after = new Date(Math.max(from.getTime(), dueAt.getTime(), now.getTime()));
+      for (const at of getUpcomingOccurrences(recurrence, after, DEFAULT_POST_QUOTA)) {
+        if (at >= to) break;
+        add(at, cost);
+      }
+    } catch {
+      // 不正な繰り返し設定の投稿はCronでもスキップされる
+    }
+  }
+
+  const replies = await prisma!.autoReplyLog.findMany({
+    where: {
+      status: 'scheduled',
+      sendAt: { lt: to },
+      rule: { accountId },
+    },
+    select: { sendAt: true },
+  });
+  for (const reply of replies) {
+    add(reply.sendAt ?? now, { posts: 0, replies: 1 });
+  }
+
+  return planned.sort((a, b) => a.at.getTime() - b.at.getTime());
+}
+
+export interface QuotaForecastHour {
+  start: string;
+  posts: number; // この1時間に予定されている投稿数
+  replies: number;
+  projectedPosts: number; // この時間の終わりまでの累計使用量の見込み
+  projectedReplies: number;
+  overLimit: boolean;
+}
+
+export interface QuotaForecast {
+  quota: AccountQuota | null;
+  postLimit: number;
+  replyLimit: number;
+  hours: QuotaForecastHour[];
+  deferredPosts: number; // 上限を超えて延期される見込みの投稿数
+  deferredReplies: number;
+}
+
+// 今後24時間のクォータ使用量の見込み
+// APIは使用済みの分がいつ解放されるかを返さないため、現在の使用量は期間中ずっと残るものとして保守的に見積もる
+export function buildQuotaForecast(
+  quota: AccountQuota | null,
+  planned: PlannedPublication[],
+  now: Date,
+  hours = 24
+): QuotaForecast {
+  const postLimit = quota?.posts.total ?? DEFAULT_POST_QUOTA;
+  const replyLimit = quota?.replies.total ?? DEFAULT_REPLY_QUOTA;
+  let projectedPosts = quota?.posts.usage ?? 0;
+  let projectedReplies = quota?.replies.usage ?? 0;
+
+  const buckets: QuotaForecastHour[] = [];
+  for (let i = 0; i < hours; i++) {
+    const start = now.getTime() + i * HOUR_MS;
+    const inHour = planned.filter(p => p.at.getTime() >= start && p.at.getTime() < start + HOUR_MS);
+    const posts = inHour.reduce((sum, p) => sum + p.cost.posts, 0);
+    const replies = inHour.reduce((sum, p) => sum + p.cost.replies, 0);
+    projectedPosts += posts;
+    projectedReplies += replies;
+
+    buckets.push({
+      start: new Date(start).toISOString(),
+      posts,
+      replies,
+      projectedPosts,
+      projectedReplies,
+      overLimit: projectedPosts > postLimit || projectedReplies > replyLimit,
+    });
+  }
+
+  return {
+    quota,
+    postLimit,
+    replyLimit,
+    hours: buckets,
+    deferredPosts: Math.max(0, projectedPosts - postLimit),
+    deferredReplies: Math.max(0, projectedReplies - replyLimit),
+  };
+}
+
+// 予約日（アカウントのタイムゾーンでの1日）の投稿数が上限を超える場合の警告
+export async function getOverbookedDayWarning(
+  account: { id: string; timezone: string | null; postQuotaTotal: number | null },
+  scheduledAt: Date,
+  cost: QuotaCost,
+  now: Date = new Date()
+): Promise<string | null> {
+  const timezone = account.timezone && isValidTimezone(account.timezone) ? account.timezone : DEFAULT_TIMEZONE;
+  const wall = getWallTime(scheduledAt, timezone);
+  const next = new Date(Date.UTC(wall.year, wall.month - 1, wall.day + 1));
+  const dayStart = wallTimeToUtc({ year: wall.year, month: wall.month, day: wall.day, hour: 0, minute: 0 }, timezone);
+  const dayEnd = wallTimeToUtc(
+    { year: next.getUTCFullYear(), month: next.getUTCMonth() + 1, day: next.getUTCDate(), hour: 0, minute: 0 },
+    timezone
+  );
+
+  const planned = await listPlannedPublications(account.id, dayStart, dayEnd, now);
+  const total = planned.reduce((sum, p) => sum + p.cost.posts, 0) + cost.posts;
+  const limit = account.postQuotaTotal ?? DEFAULT_POST_QUOTA;
+  if (total <= limit) return null;
+
+  return `${wall.month}月${wall.day}日の予約は${total}件で、24時間あたりの投稿上限（${limit}件）を超えています。上限を超えた分は自動的に後ろへずらして投稿されます。`;
+}
@@ -0,0 +1,184 @@
+import { describe, expect, it } from 'vitest';
+import { describeRRule, getNextOccurrence, getUpcomingOccurrences, type RecurrenceOptions } from './recurrence';
+
+const TOKYO = 'Asia/Tokyo';
+const NEW_YORK = 'America/New_York';
+
+// 東京の現地時刻（UTC+9、夏時間なし）
+function tokyo(date: string): Date {
+  return new Date(`${date}+09:00`);
+}
+
+function isoList(dates: Date[]): string[] {
+  return dates.map(d => d.toISOString());
+}
+
+describe('getNextOccurrence', () => {
+  it('returns the first occurrence after the given time', () => {
+    const options: RecurrenceOptions = { rrule: 'FREQ=DAILY', dtstart: tokyo('2026-01-01T09:00'), timezone: TOKYO };
+    expect(getNextOccurrence(options, tokyo('2026-01-01T09:00'))).toEqual(tokyo('2026-01-02T09:00'));
+    expect(getNextOccurrence(options, tokyo('2025-12-01T00:00'))).toEqual(tokyo('2026-01-01T09:00'));
+  });
+
+  it('uses the dtstart minute when only BYHOUR is set', () => {
+    const options: RecurrenceOptions = {
+      rrule: 'FREQ=DAILY;BYHOUR=9,18',
+      dtstart: tokyo('2026-01-01T08:30'),
+      timezone: TOKYO,
+    };
+    expect(isoList(getUpcomingOccurrences(options, tokyo('2026-01-01T00:00'), 3))).toEqual(
+      isoList([tokyo('2026-01-01T09:30'), tokyo('2026-01-01T18:30'), tokyo('2026-01-02T09:30')])
+    );
+  });
+
+  describe('daylight saving time', () => {
+    // 2026-03-08 02:00 EST → 03:00 EDT、2026-11-01 02:00 EDT → 01:00 EST
+    it('shifts a wall time inside the spring-forward gap to after the gap', () => {
+      const options: RecurrenceOptions = {
+        rrule: 'FREQ=DAILY',
+        dtstart: new Date('2026-03-06T07:30:00Z'), // 02:30 EST
+        timezone: NEW_YORK,
+      };
+      expect(isoList(getUpcomingOccurrences(options, new Date('2026-03-06T12:00:00Z'), 3))).toEqual([
+        '2026-03-07T07:30:00.000Z', // 02:30 EST
+        '2026-03-08T07:30:00.000Z', // 02:30 は存在しないため 03:30 EDT
+        '2026-03-09T06:30:00.000Z', // 02:30 EDT
+      ]);
+    });
+
+    it('keeps the same wall time across the transition', () => {
+      const options: RecurrenceOptions = {
+        rrule: 'FREQ=WEEKLY;BYDAY=SU;BYHOUR=9;BYMINUTE=0',
+        dtstart: new Date('2026-03-01T14:00:00Z'), // 09:00 EST
+        timezone: NEW_YORK,
+      };
+      expect(isoList(getUpcomingOccurrences(options, new Date('2026-02-28T00:00:00Z'), 2))).toEqual([
+        '2026-03-01T14:00:00.000Z', // 09:00 EST
+        '2026-03-08T13:00:00.000Z', // 09:00 EDT
+      ]);
+    });
+
+    it('picks the earlier instant for a repeated wall time in the fall-back overlap', () => {
+      const options: RecurrenceOptions = {
+        rrule: 'FREQ=DAILY',
+        dtstart: new Date('2026-10-31T05:30:00Z'), // 01:30 EDT
+        timezone: NEW_YORK,
+      };
+      expect(isoList(getUpcomingOccurrences(options, new Date('2026-10-31T12:00:00Z'), 2))).toEqual([
+        '2026-11-01T05:30:00.000Z', // 1回目の 01:30（EDT）
+        '2026-11-02T06:30:00.000Z', // 01:30 EST
+      ]);
+    });
+  });
+
+  describe('month-end BYMONTHDAY', () => {
+    it('BYMONTHDAY=-1 lands on the last day of every month', () => {
+      const options: RecurrenceOptions = {
+        rrule: 'FREQ=MONTHLY;BYMONTHDAY=-1',
+        dtstart: tokyo('2026-01-31T12:00'),
+        timezone: TOKYO,
+      };
+      expect(isoList(getUpcomingOccurrences(options, tokyo('2026-01-01T00:00'), 4))).toEqual(
+        isoList([tokyo('2026-01-31T12:00'), tokyo('2026-02-28T12:00'), tokyo('2026-03-31T12:00'), tokyo('2026-04-30T12:00')])
+      );
+    });
+
+    it('BYMONTHDAY=-1 handles leap years', () => {
+      const options: RecurrenceOptions = {
+        rrule: 'FREQ=MONTHLY;BYMONTHDAY=-1',
+        dtstart: tokyo('2028-01-31T12:00'),
+        timezone: TOKYO,
+      };
+      expect(getNextOccurrence(options, tokyo('2028-02-01T00:00'))).toEqual(tokyo('2028-02-29T12:00'));
+    });
+
+    it('BYMONTHDAY=31 skips months without a 31st', () => {
+      const options: RecurrenceOptions = {
+        rrule: 'FREQ=MONTHLY;BYMONTHDAY=31',
+        dtstart: tokyo('2026-01-31T12:00'),
+        timezone: TOKYO,
+      };
+      expect(isoList(getUpcomingOccurrences(options, tokyo('2026-01-01T00:00'), 3))).toEqual(
+        isoList([tokyo('2026-01-31T12:00'), tokyo('2026-03-31T12:00'), tokyo('2026-05-31T12:00')])
+      );
+    });
+
+    it('a monthly rule without BYMONTHDAY repeats the dtstart day and skips short months', () => {
+      const options: RecurrenceOptions = { rrule: 'FREQ=MONTHLY', dtstart: tokyo('2026-01-30T12:00'), timezone: TOKYO };
+      expect(getNextOccurrence(options, tokyo('2026-01-30T12:00'))).toEqual(tokyo('2026-03-30T12:00'));
+    });
+  });
+
+  describe('COUNT and UNTIL', () => {
+    it('stops after COUNT occurrences counted from dtstart', () => {
+      const options: RecurrenceOptions = { rrule: 'FREQ=DAILY;COUNT=3', dtstart: tokyo('2026-01-01T09:00'), timezone: TOKYO };
+      expect(getNextOccurrence(options, tokyo('2026-01-02T09:00'))).toEqual(tokyo('2026-01-03T09:00'));
+      expect(getNextOccurrence(options, tokyo('2026-01-03T09:00'))).toBeNull();
+    });
+
+    it('includes the UNTIL date (local date)', () => {
+      const options: RecurrenceOptions = { rrule: 'FREQ=DAILY;UNTIL=20260105', dtstart: tokyo('2026-01-01T23:00'), timezone: TOKYO };
+      expect(getNextOccurrence(options, tokyo('2026-01-04T23:00'))).toEqual(tokyo('2026-01-05T23:00'));
+      expect(getNextOccurrence(options, tokyo('2026-01-05T23:00'))).toBeNull();
+    });
+
+    it('stops after an UNTIL date-time', () => {
+      const options: RecurrenceOptions = {
+        rrule: 'FREQ=DAILY;UNTIL=20260103T000000Z', // 2026-01-03 09:00 東京
+        dtstart: tokyo('2026-01-01T09:00'),
+        timezone: TOKYO,
+      };
+      expect(getNextOccurrence(options, tokyo('2026-01-02T09:00'))).toEqual(tokyo('2026-01-03T09:00'));
+      expect(getNextOccurrence(options, tokyo('2026-01-03T09:00'))).toBeNull();
+    });
+  });
+
+  describe('EXDATE', () => {
+    it('skips an excluded day', () => {
+      const options: RecurrenceOptions = {
+        rrule: 'FREQ=DAILY',
+        dtstart: tokyo('2026-01-01T09:00'),
+        timezone: TOKYO,
+        exdates: ['2026-01-02'],
+      };
+      expect(getNextOccurrence(options, tokyo('2026-01-01T09:00'))).toEqual(tokyo('2026-01-03T09:00'));
+    });
+
+    it('skips only the excluded time when a date-time is given', () => {
+      const options: RecurrenceOptions = {
+        rrule: 'FREQ=DAILY;BYHOUR=9,18;BYMINUTE=0',
+        dtstart: tokyo('2026-01-01T00:00'),
+        timezone: TOKYO,
+        exdates: ['2026-01-01T09:00'],
+      };
+      expect(getNextOccurrence(options, tokyo('2026-01-01T00:00'))).toEqual(tokyo('2026-01-01T18:00'));
+    });
+
+    it('counts excluded occurrences toward COUNT', () => {
+      const options: RecurrenceOptions = {
+        rrule: 'FREQ=DAILY;COUNT=3',
+        dtstart: tokyo('2026-01-01T09:00'),
+        timezone: TOKYO,
+        exdates: ['2026-01-03'],
+      };
+      expect(getNextOccurrence(options, tokyo('2026-01-02T09:00'))).toBeNull();
+    });
+  });
+});
+
+describe('describeRRule', () => {
+  it('uses the start minute when BYHOUR is set without BYMINUTE', () => {
+    expect(describeRRule('FREQ=DAILY;BYHOUR=9', '08:30')).toBe('毎日 9:30');
+    expect(describeRRule('FREQ=DAILY;BYHOUR=9')).toBe('毎日 9:00');
+  });
+
+  it('prefers BYMINUTE over the start minute', () => {
+    expect(describeRRule('FREQ=WEEKLY;BYDAY=MO,WE;BYHOUR=9;BYMINUTE=15', '08:30')).toBe('毎週 月・水曜日 9:15');
+  });
+
+  it('labels negative BYMONTHDAY counting the last day as -1', () => {
+    expect(describeRRule('FREQ=MONTHLY;BYMONTHDAY=-1;BYHOUR=9')).toBe('毎月 月末 9:00');
+    expect(describeRRule('FREQ=MONTHLY;BYMONTHDAY=-2;BYHOUR=9')).toBe('毎月 月末の1日前 9:00');
+    expect(describeRRule('FREQ=MONTHLY;BYMONTHDAY=1,-3;BYHOUR=9')).toBe('毎月 1日・月末の2日前 9:00');
+  });
+});
@@ -0,0 +1,574 @@
+// Threads Studio - 定期投稿の繰り返しルール（iCalendar RRULE + IANAタイムゾーン）
+//
+// 日付の計算はすべて指定タイムゾーンの壁時計（現地時刻）で行い、最後にUTCの時刻へ変換する。
+// サーバーのローカルタイムゾーンには依存しない純粋関数のみで構成している。
+
+export const DEFAULT_TIMEZONE = 'Asia/Tokyo';
+
+// タイムゾーンの選択肢（ブラウザのタイムゾーンがここにない場合は先頭に追加して表示する）
+export const TIMEZONES = [
+  'Asia/Tokyo',
+  'Asia/Seoul',
+  'Asia/Shanghai',
+  'Asia/Singapore',
+  'Australia/Sydney',
+  'Europe/London',
+  'Europe/Paris',
+  'America/New_York',
+  'America/Chicago',
+  'America/Denver',
+  'America/Los_Angeles',
+  'UTC',
+];
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface WeekdaySpec {
+  weekday: number; // 0=日曜 〜 6=土曜
+  ordinal?: number; // 月内の第n週（負数は末尾から。例: -1 = 最終）
+}
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay?: WeekdaySpec[];
+  byMonthDay?: number[]; // 負数は月末から（-1 = 月末日）
+  byMonth?: number[]; // 1-12
+  byHour?: number[];
+  byMinute?: number[];
+  count?: number;
+  until?: { type: 'date'; value: string } | { type: 'datetime'; value: Date }; // date は yyyy-MM-dd（現地日付）
+}
+
+export interface RecurrenceOptions {
+  rrule: string;
+  dtstart: Date; // 繰り返しの起点（これより前の日時は生成しない）
+  timezone: string;
+  exdates?: string[]; // yyyy-MM-dd（その日を除外）または yyyy-MM-ddTHH:mm（その回のみ除外）
+}
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+
+// 次の発生日を探す最大日数（年1回・間隔ありのルールでも十分な範囲）
+const MAX_SEARCH_DAYS = 366 * 20;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ===================================
+// タイムゾーン
+// ===================================
+
+interface WallTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatterCache.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    getFormatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// UTC時刻を指定タイムゾーンの壁時計に変換
+export function getWallTime(date: Date, timezone: string): WallTime & { second: number } {
+  const parts = getFormatter(timezone).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find(p => p.type === type)?.value ?? 0);
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+}
+
+// 指定時刻におけるタイムゾーンのUTCオフセット（ミリ秒）
+function getOffset(utcMs: number, timezone: string): number {
+  const wall = getWallTime(new Date(utcMs), timezone);
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+  return asUtc - Math.floor(utcMs / 1000) * 1000;
+}
+
+function sameWallTime(date: Date, wall: WallTime, timezone: string): boolean {
+  const actual = getWallTime(date, timezone);
+  return actual.year === wall.year
+    && actual.month === wall.month
+    && actual.day === wall.day
+    && actual.hour === wall.hour
+    && actual.minute === wall.minute;
+}
+
+// 壁時計の時刻をUTC時刻に変換
+// - 夏時間開始で存在しない時刻（例: 2:30）は、その分だけ後ろにずらす（3:30）
+// - 夏時間終了で2回ある時刻は、早い方を採用する
+export function wallTimeToUtc(wall: WallTime, timezone: string): Date {
+  const guess = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute);
+  const offsetBefore = getOffset(guess - DAY_MS / 2, timezone);
+  const offsetAfter = getOffset(guess + DAY_MS / 2, timezone);
+
+  const candidates = [guess - offsetBefore, guess - offsetAfter]
+    .map(ms => new Date(ms))
+    .filter(date => sameWallTime(date, wall, timezone))
+    .sort((a, b) => a.getTime() - b.getTime());
+
+  if (candidates.length > 0) {
+    return candidates[0];
+  }
+
+  // 存在しない時刻（夏時間開始の空白）
+  return new Date(guess - offsetBefore);
+}
+
+// ===================================
+// RRULE の解析・生成
+// ===================================
+
+function parseIntList(value: string, name: string, min: number, max: number, allowNegative = false): number[] {
+  return value.split(',').map(item => {
+    const n = Number(item);
+    const inRange = Number.isInteger(n)
+      && ((n >= min && n <= max) || (allowNegative && n <= -min && n >= -max));
+    if (!inRange) {
+      throw new Error(`${name} の値が不正です: ${item}`);
+    }
+    return n;
+  });
+}
+
+function parseUntil(value: string): RecurrenceRule['until'] {
+  const dateOnly = value.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (dateOnly) {
+    return { type: 'date', value: `${dateOnly[1]}-${dateOnly[2]}-${dateOnly[3]}` };
+  }
+
+  const dateTime = value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+  if (dateTime) {
+    const [, y, m, d, hh, mm, ss] = dateTime.map(Number);
+    return { type: 'datetime', value: new Date(Date.UTC(y, m - 1, d, hh, mm, ss)) };
+  }
+
+  throw new Error(`UNTIL の形式が不正です: ${value}`);
+}
+
+// RRULE文字列を解析（"RRULE:" の接頭辞は省略可）
+export function parseRRule(rrule: string): RecurrenceRule {
+  const body = rrule.trim().replace(/^RRULE:/i, '');
+  if (!body) {
+    throw new Error('RRULE が空です');
+  }
+
+  const rule: Partial<RecurrenceRule> = { interval: 1 };
+
+  for (const part of body.split(';')) {
+    if (!part) continue;
+    const [rawKey, value] = part.split('=');
+    const key = rawKey?.toUpperCase();
+    if (!key || value === undefined || value === '') {
+      throw new Error(`RRULE の形式が不正です: ${part}`);
+    }
+
+    switch (key) {
+      case 'FREQ': {
+        const freq = value.toUpperCase() as RecurrenceFrequency;
+        if (!FREQUENCIES.includes(freq)) {
+          throw new Error(`未対応の FREQ です: ${value}`);
+        }
+        rule.freq = freq;
+        break;
+      }
+      case 'INTERVAL':
+        rule.interval = parseIntList(value, 'INTERVAL', 1, 999)[0];
+        break;
+      case 'COUNT':
+        rule.count = parseIntList(value, 'COUNT', 1, 10000)[0];
+        break;
+      case 'UNTIL':
+        rule.until = parseUntil(value);
+        break;
+      case 'BYDAY':
+        rule.byDay = value.split(',').map(item => {
+          const match = item.toUpperCase().match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+          if (!match) {
+            throw new Error(`BYDAY の値が不正です: ${item}`);
+          }
+          const ordinal = match[1] ? Number(match[1]) : undefined;
+          if (ordinal !== undefined && (ordinal === 0 || Math.abs(ordinal) > 5)) {
+            throw new Error(`BYDAY の値が不正です: ${item}`);
+          }
+          return { weekday: WEEKDAY_CODES.indexOf(match[2]), ordinal };
+        });
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = parseIntList(value, 'BYMONTHDAY', 1, 31, true);
+        break;
+      case 'BYMONTH':
+        rule.byMonth = parseIntList(value, 'BYMONTH', 1, 12);
+        break;
+      case 'BYHOUR':
+        rule.byHour = parseIntList(value, 'BYHOUR', 0, 23);
+        break;
+      case 'BYMINUTE':
+        rule.byMinute = parseIntList(value, 'BYMINUTE', 0, 59);
+        break;
+      case 'WKST':
+        // 週の開始は月曜日固定（RFC 5545 の既定値）
+        break;
+      default:
+        throw new Error(`未対応の RRULE 項目です: ${key}`);
+    }
+  }
+
+  if (!rule.freq) {
+    throw new Error('RRULE に FREQ が指定されていません');
+  }
+  if (rule.count !== undefined && rule.until !== undefined) {
+    throw new Error('COUNT と UNTIL は同時に指定できません');
+  }
+  if (rule.byDay?.some(d => d.ordinal !== undefined) && rule.freq !== 'MONTHLY' && rule.freq !== 'YEARLY') {
+    throw new Error('第n曜日の指定は FREQ=MONTHLY または YEARLY でのみ使用できます');
+  }
+
+  return rule as RecurrenceRule;
+}
+
+// ルールをRRULE文字列に変換
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map(d => `${d.ordinal ?? ''}${WEEKDAY_CODES[d.weekday]}`).join(',')}`);
+  }
+  if (rule.byHour?.length) parts.push(`BYHOUR=${rule.byHour.join(',')}`);
+  if (rule.byMinute?.length) parts.push(`BYMINUTE=${rule.byMinute.join(',')}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) {
+    parts.push(`UNTIL=${rule.until.type === 'date'
+      ? rule.until.value.replace(/-/g, '')
+      : rule.until.value.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`);
+  }
+  return parts.join(';');
+}
+
+// 旧形式（recurringType + recurringDays）をRRULEに変換
+export function legacyToRRule(recurringType: string | null, recurringDays: number[]): string | null {
+  switch (recurringType) {
+    case 'daily':
+      return 'FREQ=DAILY';
+    case 'weekly':
+      return recurringDays.length > 0
+        ? `FREQ=WEEKLY;BYDAY=${recurringDays.map(d => WEEKDAY_CODES[d]).filter(Boolean).join(',')}`
+        : 'FREQ=WEEKLY';
+    case 'monthly':
+      return recurringDays.length > 0
+        ? `FREQ=MONTHLY;BYMONTHDAY=${recurringDays.join(',')}`
+        : 'FREQ=MONTHLY';
+    default:
+      return null;
+  }
+}
+
+// ===================================
+// 発生日時の計算
+// ===================================
+
+// 1970-01-01 からの日数で日付を扱う（タイムゾーンの影響を受けない暦日）
+function toDayNumber(year: number, month: number, day: number): number {
+  return Math.floor(Date.UTC(year, month - 1, day) / DAY_MS);
+}
+
+function fromDayNumber(dayNumber: number): { year: number; month: number; day: number } {
+  const date = new Date(dayNumber * DAY_MS);
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+function weekdayOf(dayNumber: number): number {
+  return (((dayNumber + 4) % 7) + 7) % 7; // 1970-01-01 は木曜日
+}
+
+// 月曜始まりの週番号
+function weekIndexOf(dayNumber: number): number {
+  return Math.floor((dayNumber - 4) / 7); // 1970-01-05 は月曜日
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+function dateKey(date: { year: number; month: number; day: number }): string {
+  return `${date.year}-${pad(date.month)}-${pad(date.day)}`;
+}
+
+function matchesMonthDay(day: number, dim: number, byMonthDay: number[]): boolean {
+  return byMonthDay.some(n => (n > 0 ? day === n : day === dim + n + 1));
+}
+
+function matchesWeekday(day: number, weekday: number, dim: number, byDay: WeekdaySpec[]): boolean {
+  return byDay.some(spec => {
+    if (spec.weekday !== weekday) return false;
+    if (spec.ordinal === undefined) return true;
+    return spec.ordinal > 0
+      ? Math.ceil(day / 7) === spec.ordinal
+      : Math.floor((dim - day) / 7) + 1 === -spec.ordinal;
+  });
+}
+
+// 指定日がルールに該当するか
+function matchesDate(
+  rule: RecurrenceRule,
+  dayNumber: number,
+  start: { dayNumber: number; year: number; month: number; day: number }
+): boolean {
+  const { year, month, day } = fromDayNumber(dayNumber);
+  const weekday = weekdayOf(dayNumber);
+  const dim = daysInMonth(year, month);
+
+  if (rule.byMonth && !rule.byMonth.includes(month)) return false;
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      if ((dayNumber - start.dayNumber) % rule.interval !== 0) return false;
+      if (rule.byMonthDay && !matchesMonthDay(day, dim, rule.byMonthDay)) return false;
+      if (rule.byDay && !matchesWeekday(day, weekday, dim, rule.byDay)) return false;
+      return true;
+    }
+
+    case 'WEEKLY': {
+      if ((weekIndexOf(dayNumber) - weekIndexOf(start.dayNumber)) % rule.interval !== 0) return false;
+      const byDay = rule.byDay ?? [{ weekday: weekdayOf(start.dayNumber) }];
+      return matchesWeekday(day, weekday, dim, byDay);
+    }
+
+    case 'MONTHLY':
+    case 'YEARLY': {
+      if (rule.freq === 'MONTHLY') {
+        const months = (year - start.year) * 12 + (month - start.month);
+        if (months % rule.interval !== 0) return false;
+      } else {
+        if ((year - start.year) % rule.interval !== 0) return false;
+        if (!rule.byMonth && month !== start.month) return false;
+      }
+
+      if (!rule.byMonthDay && !rule.byDay) {
+        // 起点と同じ日（その日が存在しない月はスキップ。月末指定は BYMONTHDAY=-1 を使う）
+        return day === start.day;
+      }
+      if (rule.byMonthDay && !matchesMonthDay(day, dim, rule.byMonthDay)) return false;
+      if (rule.byDay && !matchesWeekday(day, weekday, dim, rule.byDay)) return false;
+      return true;
+    }
+  }
+}
+
+// 起点以降の発生日時を順に生成
+function* iterateOccurrences(options: RecurrenceOptions, after?: Date): Generator<Date> {
+  const rule = parseRRule(options.rrule);
+  const { timezone } = options;
+  const exdates = new Set(options.exdates ?? []);
+
+  const startWall = getWallTime(options.dtstart, timezone);
+  const start = {
+    dayNumber: toDayNumber(startWall.year, startWall.month, startWall.day),
+    year: startWall.year,
+    month: startWall.month,
+    day: startWall.day,
+  };
+
+  const hours = [...(rule.byHour ?? [startWall.hour])].sort((a, b) => a - b);
+  const minutes = [...(rule.byMinute ?? [startWall.minute])].sort((a, b) => a - b);
+
+  // COUNT がある場合は起点から数える必要があるため、途中からの探索はしない
+  let firstDay = start.dayNumber;
+  if (after && rule.count === undefined) {
+    const afterWall = getWallTime(after, timezone);
+    firstDay = Math.max(firstDay, toDayNumber(afterWall.year, afterWall.month, afterWall.day) - 1);
+  }
+
+  let generated = 0;
+  for (let dayNumber = firstDay; dayNumber <= firstDay + MAX_SEARCH_DAYS; dayNumber++) {
+    if (!matchesDate(rule, dayNumber, start)) continue;
+
+    const date = fromDayNumber(dayNumber);
+    if (rule.until?.type === 'date' && dateKey(date) > rule.until.value) return;
+
+    for (const hour of hours) {
+      for (const minute of minutes) {
+        const occurrence = wallTimeToUtc({ ...date, hour, minute }, timezone);
+        if (occurrence < options.dtstart) continue;
+        if (rule.until?.type === 'datetime' && occurrence > rule.until.value) return;
+
+        generated++;
+        if (rule.count !== undefined && generated > rule.count) return;
+
+        // 除外日（COUNT の計算には含める: RFC 5545 と同じ扱い）
+        if (exdates.has(dateKey(date)) || exdates.has(`${dateKey(date)}T${pad(hour)}:${pad(minute)}`)) {
+          continue;
+        }
+
+        yield occurrence;
+      }
+    }
+  }
+}
+
+// 指定時刻より後の最初の発生日時（繰り返しが終了している場合はnull）
+export function getNextOccurrence(options: RecurrenceOptions, after: Date): Date | null {
+  for (const occurrence of iterateOccurrences(options, after)) {
+    if (occurrence > after) return occurrence;
+  }
+  return null;
+}
+
+// 指定時刻より後の発生日時を最大limit件取得（プレビュー用）
+export function getUpcomingOccurrences(options: RecurrenceOptions, after: Date, limit: number): Date[] {
+  const occurrences: Date[] = [];
+  if (limit <= 0) return occurrences;
+
+  for (const occurrence of iterateOccurrences(options, after)) {
+    if (occurrence <= after) continue;
+    occurrences.push(occurrence);
+    if (occurrences.length >= limit) break;
+  }
+  return occurrences;
+}
+
+// ScheduledPost の保存値から繰り返し設定を組み立てる（旧形式の投稿にも対応）
+export function resolveRecurrence(post: {
+  rrule: string | null;
+  timezone: string | null;
+  recurrenceStart: Date | null;
+  exdates: string | null;
+  recurringType: string | null;
+  recurringDays: string | null;
+  scheduledAt: Date;
+}): RecurrenceOptions | null {
+  let rrule = post.rrule;
+  if (!rrule) {
+    let days: number[] = [];
+    try {
+      days = post.recurringDays ? (JSON.parse(post.recurringDays) as number[]) : [];
+    } catch {
+      days = [];
+    }
+    rrule = legacyToRRule(post.recurringType, days);
+  }
+  if (!rrule) return null;
+
+  let exdates: string[] = [];
+  try {
+    exdates = post.exdates ? (JSON.parse(post.exdates) as string[]) : [];
+  } catch {
+    exdates = [];
+  }
+
+  return {
+    rrule,
+    dtstart: post.recurrenceStart ?? post.scheduledAt,
+    timezone: post.timezone && isValidTimezone(post.timezone) ? post.timezone : DEFAULT_TIMEZONE,
+    exdates,
+  };
+}
+
+// ===================================
+// 表示用
+// ===================================
+
+const WEEKDAY_LABELS = ['日', '月', '火', '水', '木', '金', '土'];
+
+function describeWeekday(spec: WeekdaySpec): string {
+  const label = `${WEEKDAY_LABELS[spec.weekday]}曜日`;
+  if (spec.ordinal === undefined) return label;
+  return spec.ordinal === -1 ? `最終${label}` : spec.ordinal < 0 ? `最後から${-spec.ordinal}番目の${label}` : `第${spec.ordinal}${label}`;
+}
+
+// RRULEを日本語の説明に変換（例: "毎週 月・水・金曜日 9:00"）
+// fallbackTime は起点の時刻（HH:mm）。BYHOUR・BYMINUTE がない部分は、発生日時の計算と同じく起点の値を使う
+export function describeRRule(rrule: string, fallbackTime?: string): string {
+  let rule: RecurrenceRule;
+  try {
+    rule = parseRRule(rrule);
+  } catch {
+    return rrule;
+  }
+
+  let label: string;
+  switch (rule.freq) {
+    case 'DAILY':
+      label = rule.interval > 1 ? `${rule.interval}日ごと` : '毎日';
+      break;
+    case 'WEEKLY':
+      label = rule.interval > 1 ? `${rule.interval}週間ごと` : '毎週';
+      break;
+    case 'MONTHLY':
+      label = rule.interval > 1 ? `${rule.interval}か月ごと` : '毎月';
+      break;
+    case 'YEARLY':
+      label = rule.interval > 1 ? `${rule.interval}年ごと` : '毎年';
+      break;
+  }
+
+  const isWeekdays = rule.byDay?.length === 5
+    && [1, 2, 3, 4, 5].every(d => rule.byDay!.some(s => s.weekday === d && s.ordinal === undefined));
+
+  if (rule.byMonth) label += ` ${rule.byMonth.join('・')}月`;
+  if (rule.byMonthDay) {
+    // -1 が月末日なので、-n は月末の (n-1) 日前
+    label += ` ${rule.byMonthDay.map(d => (d === -1 ? '月末' : d < 0 ? `月末の${-d - 1}日前` : `${d}日`)).join('・')}`;
+  }
+  if (isWeekdays) {
+    label += ' 平日';
+  } else if (rule.byDay) {
+    label += rule.byDay.every(d => d.ordinal === undefined)
+      ? ` ${rule.byDay.map(d => WEEKDAY_LABELS[d.weekday]).join('・')}曜日`
+      : ` ${rule.byDay.map(describeWeekday).join('・')}`;
+  }
+
+  if (rule.byHour) {
+    const fallbackMinute = Number(fallbackTime?.split(':')[1]);
+    const minutes = rule.byMinute ?? [Number.isInteger(fallbackMinute) ? fallbackMinute : 0];
+    label += ` ${rule.byHour.flatMap(h => minutes.map(m => `${h}:${pad(m)}`)).join('・')}`;
+  } else if (fallbackTime) {
+    label += ` ${fallbackTime}`;
+  }
+
+  if (rule.count !== undefined) label += `（${rule.count}回まで）`;
+  if (rule.until) {
+    label += `（${rule.until.type === 'date' ? rule.until.value : rule.until.value.toISOString().slice(0, 10)}まで）`;
+  }
+
+  return label;
+}
@@ -0,0 +1,136 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ThreadsAPIError } from '@/lib/threads/errors';
+import { sendReplyJobs, type ReplyJobStore, type ReplyJobUpdate } from './reply-dispatch';
+
+const quota = vi.hoisted(() => ({
+  available: 1,
+  reserve: vi.fn(),
+  release: vi.fn(),
+}));
+
+vi.mock('./quota', () => ({
+  QUOTA_DEFER_MS: 60 * 60 * 1000,
+  createQuotaTracker: () => ({
+    reserve: quota.reserve,
+    release: quota.release,
+  }),
+}));
+
+// メモリ上のジョブ（ステータスが一致するときだけ更新する）
+function createStore(statuses: Record<string, string>) {
+  const updates: Array<{ id: string } & ReplyJobUpdate> = [];
+  const store: ReplyJobStore = {
+    async update(id, status, data) {
+      if (statuses[id] !== status) return false;
+      statuses[id] = data.status;
+      updates.push({ id, ...data });
+      return true;
+    },
+    async updateStale() {
+      return 0;
+    },
+  };
+  return { store, updates };
+}
+
+const job = (id: string) => ({ id, accountId: 'account-1', attemptCount: 0 });
+
+beforeEach(() => {
+  quota.available = 1;
+  quota.reserve.mockReset().mockImplementation(async () => quota.available-- > 0);
+  quota.release.mockReset().mockImplementation(async () => { quota.available++; });
+});
+
+describe('sendReplyJobs', () => {
+  it('does not reserve quota for jobs claimed by another worker', async () => {
+    const { store } = createStore({ a: 'sending' });
+    const send = vi.fn();
+
+    expect(await sendReplyJobs([job('a')], { store, maxAttempts: 3, send })).toEqual([]);
+    expect(quota.reserve).not.toHaveBeenCalled();
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('skips jobs whose condition is not met without using quota', async () => {
+    const statuses = { a: 'scheduled', b: 'scheduled' };
+    const { store } = createStore(statuses);
+
+    const results = await sendReplyJobs([job('a'), job('b')], {
+      store,
+      maxAttempts: 3,
+      beforeSend: async ({ id }) => id === 'b',
+      send: async () => ({ id: 'reply' }),
+    });
+
+    expect(results.map(r => r.status)).toEqual(['skipped', 'sent']);
+    expect(quota.reserve).toHaveBeenCalledTimes(1);
+    expect(statuses).toEqual({ a: 'skipped', b: 'sent' });
+  });
+
+  it('releases the reservation when sending fails so the next job can use it', async () => {
+    const statuses = { a: 'scheduled', b: 'scheduled' };
+    const { store } = createStore(statuses);
+
+    const results = await sendReplyJobs([job('a'), job('b')], {
+      store,
+      maxAttempts: 3,
+      send: async ({ id }) => {
+        if (id === 'a') throw new ThreadsAPIError('Service unavailable', { kind: 'transient', status: 503 });
+        return { id: 'reply' };
+      },
+    });
+
+    expect(results.map(r => r.status)).toEqual(['scheduled', 'sent']);
+    expect(quota.release).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the reservation and does not retry when the reply may have been sent', async () => {
+    const statuses = { a: 'scheduled' };
+    const { store, updates } = createStore(statuses);
+
+    const results = await sendReplyJobs([job('a')], {
+      store,
+      maxAttempts: 3,
+      send: async () => {
+        throw new ThreadsAPIError('timed out', { kind: 'timeout', unconfirmed: true });
+      },
+    });
+
+    expect(results[0].status).toBe('failed');
+    expect(quota.release).not.toHaveBeenCalled();
+    expect(updates[updates.length - 1].errorMessage).toContain('再送していません');
+  });
+
+  it('waits for re-authentication when the token is rejected instead of failing the job', async () => {
+    quota.available = 2;
+    const statuses = { a: 'scheduled', b: 'scheduled' };
+    const { store, updates } = createStore(statuses);
+    const send = vi.fn(async () => {
+      throw new ThreadsAPIError('Invalid OAuth access token', { kind: 'auth', status: 401, code: 190 });
+    });
+    const onTokenInvalid = vi.fn(async () => {});
+
+    const results = await sendReplyJobs([job('a'), job('b')], { store, maxAttempts: 3, send, onTokenInvalid });
+
+    expect(results.map(r => r.status)).toEqual(['scheduled']);
+    expect(onTokenInvalid).toHaveBeenCalledTimes(1);
+    // 同じアカウントの残りのジョブは送信しない
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(statuses).toEqual({ a: 'scheduled', b: 'scheduled' });
+    expect(quota.release).toHaveBeenCalledTimes(1);
+    expect(updates[updates.length - 1].attemptCount).toEqual({ decrement: 1 });
+  });
+
+  it('defers jobs over the quota without counting an attempt', async () => {
+    quota.available = 0;
+    const statuses = { a: 'scheduled' };
+    const { store, updates } = createStore(statuses);
+    const send = vi.fn();
+
+    const results = await sendReplyJobs([job('a')], { store, maxAttempts: 3, send });
+
+    expect(results[0].status).toBe('scheduled');
+    expect(send).not.toHaveBeenCalled();
+    expect(updates[updates.length - 1].attemptCount).toEqual({ decrement: 1 });
+  });
+});
@@ -0,0 +1,169 @@
+// Threads Studio - 返信ジョブの送信（自動リプライ・フォローアップ返信で共通）
+// 取得（リース）→ 送信前の確認 → 返信クォータの確保 → 送信 → 結果の記録・リトライを行う
+
+import { classifyPublishError, getBackoffDelay, LEASE_TIMEOUT_MS, PublishedJobError } from './queue';
+import { createQuotaTracker, QUOTA_DEFER_MS } from './quota';
+import { isAuthError } from '@/lib/threads/errors';
+
+const REPLY_COST = { posts: 0, replies: 1 };
+
+export interface ReplyJobUpdate {
+  status: string;
+  sendAt?: Date;
+  lockedAt?: Date | null;
+  attemptCount?: { increment: number } | { decrement: number };
+  errorMessage?: string | null;
+  replyPostId?: string;
+  sentAt?: Date;
+}
+
+// ジョブのテーブルごとの更新処理
+export interface ReplyJobStore {
+  // ステータスが status のときだけ更新し、更新できたか（他のワーカーが先に取得した場合はfalse）
+  update(id: string, status: string, data: ReplyJobUpdate): Promise<boolean>;
+  // 送信中のまま staleBefore より前に取得されたジョブを更新し、件数を返す
+  updateStale(staleBefore: Date, data: ReplyJobUpdate): Promise<number>;
+}
+
+export interface ReplyJob {
+  id: string;
+  accountId: string;
+  attemptCount: number;
+}
+
+export interface ReplyJobResult<J> {
+  job: J;
+  status: 'sent' | 'skipped' | 'scheduled' | 'failed';
+  error?: string;
+  cause?: unknown; // 送信に失敗した場合のエラー
+}
+
+// 送信中のまま放置されたジョブを失敗として記録
+// 投稿済みかどうか判断できないため、二重返信を避けて再送はしない
+export async function recoverStaleSendingJobs(store: ReplyJobStore, now = new Date()): Promise<number> {
+  return store.updateStale(new Date(now.getTime() - LEASE_TIMEOUT_MS), {
+    status: 'failed',
+    errorMessage: '送信処理がタイムアウトしました（送信結果が不明なため再送していません）',
+    lockedAt: null,
+  });
+}
+
+// 送信予定時刻を過ぎたジョブを順に送信する
+// beforeSend が false を返したジョブは送らずに skipped にする（クォータは確保しない）
+// APIがトークンを拒否した場合は onTokenInvalid を呼び、ジョブは送信予定のまま再認証後に送る
+export async function sendReplyJobs<J extends ReplyJob>(jobs: J[], options: {
+  store: ReplyJobStore;
+  maxAttempts: number;
+  send: (job: J) => Promise<{ id: string }>;
+  beforeSend?: (job: J) => Promise<boolean>;
+  afterSend?: (job: J, sentAt: Date) => Promise<void>;
+  onTokenInvalid?: (job: J, error: unknown) => Promise<void>;
+  now?: Date;
+}): Promise<Array<ReplyJobResult<J>>> {
+  const { store, maxAttempts, send, beforeSend, afterSend, onTokenInvalid, now = new Date() } = options;
+  const quota = createQuotaTracker(now);
+  const results: Array<ReplyJobResult<J>> = [];
+  // トークンが拒否されたアカウント（残りのジョブは取得せずに再認証を待つ）
+  const invalidAccounts = new Set<string>();
+
+  for (const job of jobs) {
+    if (invalidAccounts.has(job.accountId)) continue;
+
+    const claimed = await store.update(job.id, 'scheduled', {
+      status: 'sending',
+      lockedAt: now,
+      attemptCount: { increment: 1 },
+    });
+    if (!claimed) continue;
+
+    const attemptCount = job.attemptCount + 1;
+    let reserved = false;
+    let sentId: string | null = null;
+
+    try {
+      if (beforeSend && !await beforeSend(job)) {
+        await store.update(job.id, 'sending', { status: 'skipped', errorMessage: null, lockedAt: null });
+        results.push({ job, status: 'skipped' });
+        continue;
+      }
+
+      // 返信のクォータを超える分は送信予定時刻を後ろにずらす（送信の試行としては数えない）
+      if (!await quota.reserve(job.accountId, REPLY_COST)) {
+        const message = '返信の公開クォータ（24時間あたりの上限）に達したため延期しました';
+        await store.update(job.id, 'sending', {
+          status: 'scheduled',
+          sendAt: new Date(now.getTime() + QUOTA_DEFER_MS),
+          errorMessage: message,
+          lockedAt: null,
+          attemptCount: { decrement: 1 },
+        });
+        results.push({ job, status: 'scheduled', error: message });
+        continue;
+      }
+      reserved = true;
+
+      sentId = (await send(job)).id;
+      const sentAt = new Date();
+
+      // 送信後の記録に失敗した場合は、再送すると二重返信になるため失敗として扱う
+      try {
+        await store.update(job.id, 'sending', {
+          status: 'sent',
+          replyPostId: sentId,
+          sentAt,
+          errorMessage: null,
+          lockedAt: null,
+        });
+        await afterSend?.(job, sentAt);
+      } catch (error) {
+        throw new PublishedJobError(sentId, error);
+      }
+
+      results.push({ job, status: 'sent' });
+    } catch (error) {
+      console.error(`Failed to send reply job ${job.id}:`, error);
+
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const kind = classifyPublishError(error);
+      const canRetry = kind === 'retryable' && attemptCount < maxAttempts;
+
+      // 送信しなかった分のクォータを戻す（送信されたか分からない場合は使ったものとして残す）
+      if (reserved && sentId === null && kind !== 'unconfirmed') {
+        await quota.release(job.accountId, REPLY_COST);
+      }
+
+      // トークンの失効は試行として数えず、送信予定のまま再認証を待つ
+      if (isAuthError(error)) {
+        invalidAccounts.add(job.accountId);
+        await store.update(job.id, 'sending', {
+          status: 'scheduled',
+          errorMessage: `${message}（アクセストークンが無効なため、再認証後に送信します）`,
+          lockedAt: null,
+          attemptCount: { decrement: 1 },
+        });
+        await onTokenInvalid?.(job, error);
+        results.push({ job, status: 'scheduled', error: message, cause: error });
+        continue;
+      }
+
+      await store.update(job.id, 'sending', canRetry
+        ? {
+          status: 'scheduled',
+          sendAt: new Date(now.getTime() + getBackoffDelay(attemptCount)),
+          errorMessage: message,
+          lockedAt: null,
+        }
+        : {
+          status: 'failed',
+          errorMessage: kind === 'unconfirmed'
+            ? `${message}（送信されたか確認できないため、二重返信を避けて再送していません）`
+            : message,
+          lockedAt: null,
+        });
+
+      results.push({ job, status: canRetry ? 'scheduled' : 'failed', error: message, cause: error });
+    }
+  }
+
+  return results;
+}
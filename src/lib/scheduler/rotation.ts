@@ -0,0 +1,252 @@
+// Threads Studio - 定期投稿のコンテンツローテーション
+
+import { prisma } from '@/lib/db';
+import { createAccountClient } from '@/lib/threads/accounts';
+
+export type RotationStrategy = 'sequential' | 'random' | 'weighted';
+
+export const ROTATION_STRATEGIES: RotationStrategy[] = ['sequential', 'random', 'weighted'];
+
+export interface VariantCandidate {
+  id: string;
+  position: number;
+  usageCount: number;
+}
+
+export interface VariantEngagement {
+  views: number;
+  engagements: number; // いいね + 返信 + 再投稿 + 引用 + シェア
+}
+
+// 投稿データが少ないバリエーションを平均値に寄せるための仮想閲覧数
+const PRIOR_VIEWS = 500;
+// 実績がまったくない場合のエンゲージメント率
+const DEFAULT_ENGAGEMENT_RATE = 0.05;
+// インサイトの再取得間隔と対象期間
+const INSIGHTS_REFRESH_INTERVAL_MS = 12 * 60 * 60 * 1000;
+const INSIGHTS_MIN_AGE_MS = 60 * 60 * 1000;
+const INSIGHTS_LOOKBACK_MS = 30 * 24 * 60 * 60 * 1000;
+const INSIGHTS_REFRESH_LIMIT = 10;
+
+export function isRotationStrategy(value: unknown): value is RotationStrategy {
+  return typeof value === 'string' && (ROTATION_STRATEGIES as string[]).includes(value);
+}
+
+// メディアURLから投稿タイプを判定
+export function getVariantType(mediaUrls: string[]): string {
+  if (mediaUrls.length === 0) return 'text';
+  if (mediaUrls.length > 1) return 'carousel';
+  return /\.(mp4|mov|webm)$/i.test(mediaUrls[0]) ? 'video' : 'image';
+}
+
+// 次に投稿するバリエーションを選択
+export function selectVariant(
+  variants: VariantCandidate[],
+  strategy: RotationStrategy,
+  options: {
+    lastVariantId?: string | null;
+    engagement?: Map<string, VariantEngagement>;
+    random?: () => number;
+  } = {}
+): VariantCandidate | null {
+  if (variants.length === 0) return null;
+
+  const random = options.random ?? Math.random;
+  const sorted = [...variants].sort((a, b) => a.position - b.position);
+
+  switch (strategy) {
+    case 'sequential': {
+      // 前回の次のバリエーション（最後まで行ったら先頭へ）
+      const lastIndex = sorted.findIndex(v => v.id === options.lastVariantId);
+      return sorted[(lastIndex + 1) % sorted.length];
+    }
+
+    case 'random': {
+      // 一巡するまで同じバリエーションを使わない（使用回数が最も少ないものから選ぶ）
+      const minUsage = Math.min(...sorted.map(v => v.usageCount));
+      let pool = sorted.filter(v => v.usageCount === minUsage);
+      // 巡の切り替わりで直前と同じものが続かないようにする
+      if (pool.length > 1) {
+        pool = pool.filter(v => v.id !== options.lastVariantId);
+      }
+      return pool[Math.floor(random() * pool.length)];
+    }
+
+    case 'weighted': {
+      // 過去のエンゲージメント率に比例して選ぶ（実績の少ないものは全体平均で補正）
+      const engagement = options.engagement ?? new Map<string, VariantEngagement>();
+      let totalViews = 0;
+      let totalEngagements = 0;
+      for (const stats of engagement.values()) {
+        totalViews += stats.views;
+        totalEngagements += stats.engagements;
+      }
+      const priorRate = totalViews > 0 ? totalEngagements / totalViews : DEFAULT_ENGAGEMENT_RATE;
+
+      const weights = sorted.map(v => {
+        const stats = engagement.get(v.id) ?? { views: 0, engagements: 0 };
+        return (stats.engagements + priorRate * PRIOR_VIEWS) / (stats.views + PRIOR_VIEWS);
+      });
+      const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+
+      if (totalWeight <= 0) {
+        return sorted[Math.floor(random() * sorted.length)];
+      }
+
+      let threshold = random() * totalWeight;
+      for (let i = 0; i < sorted.length; i++) {
+        threshold -= weights[i];
+        if (threshold < 0) return sorted[i];
+      }
+      return sorted[sorted.length - 1];
+    }
+  }
+}
+
+// 投稿済みバリエーションのインサイトを更新（重み付けローテーション用）
+export async function refreshVariantInsights(
+  scheduledPostId: string,
+  account: { accessToken: string },
+  now = new Date()
+): Promise<number> {
+  if (!prisma) return 0;
+
+  const publications = await prisma.variantPublication.findMany({
+    where: {
+      scheduledPostId,
+      postedId: { not: null },
+      createdAt: {
+        gte: new Date(now.getTime() - INSIGHTS_LOOKBACK_MS),
+        lte: new Date(now.getTime() - INSIGHTS_MIN_AGE_MS),
+      },
+      OR: [
+        { insightsUpdatedAt: null },
+        { insightsUpdatedAt: { lt: new Date(now.getTime() - INSIGHTS_REFRESH_INTERVAL_MS) } },
+      ],
+    },
+    orderBy: { createdAt: 'desc' },
+    take: INSIGHTS_REFRESH_LIMIT,
+  });
+
+  const client = createAccountClient(account);
+  let updated = 0;
+
+  for (const publication of publications) {
+    try {
+      const insights = await client.getMediaInsights(publication.postedId!);
+      await prisma.variantPublication.update({
+        where: { id: publication.id },
+        data: {
+          views: insights.views,
+          likes: insights.likes,
+          replies: insights.replies,
+          reposts: insights.reposts,
+          quotes: insights.quotes,
+          shares: insights.shares,
+          insightsUpdatedAt: now,
+        },
+      });
+      updated++;
+    } catch (error) {
+      console.error(`Failed to refresh insights for ${publication.postedId}:`, error);
+    }
+  }
+
+  return updated;
+}
+
+// バリエーションごとのエンゲージメント集計
+async function getVariantEngagement(scheduledPostId: string): Promise<Map<string, VariantEngagement>> {
+  const engagement = new Map<string, VariantEngagement>();
+  if (!prisma) return engagement;
+
+  const rows = await prisma.variantPublication.groupBy({
+    by: ['variantId'],
+    where: { scheduledPostId, insightsUpdatedAt: { not: null } },
+    _sum: { views: true, likes: true, replies: true, reposts: true, quotes: true, shares: true },
+  });
+
+  for (const row of rows) {
+    engagement.set(row.variantId, {
+      views: row._sum.views ?? 0,
+      engagements: (row._sum.likes ?? 0) + (row._sum.replies ?? 0) + (row._sum.reposts ?? 0)
+        + (row._sum.quotes ?? 0) + (row._sum.shares ?? 0),
+    });
+  }
+
+  return engagement;
+}
+
+// 今回の回で投稿するバリエーションを決定（リトライ中は前回選んだものを使う）
+export async function pickVariantForOccurrence(post: {
+  id: string;
+  rotationStrategy: string | null;
+  currentVariantId: string | null;
+  account: { accessToken: string };
+}) {
+  if (!prisma || !isRotationStrategy(post.rotationStrategy)) return null;
+
+  const variants = await prisma.postVariant.findMany({
+    where: { scheduledPostId: post.id, isActive: true },
+    orderBy: { position: 'asc' },
+  });
+  if (variants.length === 0) return null;
+
+  const current = variants.find(v => v.id === post.currentVariantId);
+  if (current) return current;
+
+  const lastPublication = await prisma.variantPublication.findFirst({
+    where: { scheduledPostId: post.id },
+    orderBy: { createdAt: 'desc' },
+    select: { variantId: true },
+  });
+
+  let engagement: Map<string, VariantEngagement> | undefined;
+  if (post.rotationStrategy === 'weighted') {
+    await refreshVariantInsights(post.id, post.account);
+    engagement = await getVariantEngagement(post.id);
+  }
+
+  const selected = selectVariant(variants, post.rotationStrategy, {
+    lastVariantId: lastPublication?.variantId,
+    engagement,
+  });
+  const variant = variants.find(v => v.id === selected?.id) ?? null;
+
+  if (variant) {
+    await prisma.scheduledPost.update({
+      where: { id: post.id },
+      data: { currentVariantId: variant.id },
+    });
+  }
+
+  return variant;
+}
+
+// バリエーションの投稿を記録
+export async function recordVariantPublication(
+  scheduledPostId: string,
+  variantId: string,
+  postedId: string | undefined,
+  occurrenceAt: Date,
+  now = new Date()
+): Promise<void> {
+  if (!prisma) return;
+
+  await prisma.variantPublication.create({
+    data: {
+      scheduledPostId,
+      variantId,
+      postedId: postedId ?? null,
+      occurrenceAt,
+    },
+  });
+
+  await prisma.postVariant.update({
+    where: { id: variantId },
+    data: {
+      usageCount: { increment: 1 },
+      lastUsedAt: now,
+    },
+  });
+}
@@ -0,0 +1,204 @@
+// Threads Studio - 投稿キュー（投稿枠に順番に投稿する）
+//
+// アカウントごとに投稿枠（曜日・時刻）を保存し、キューの投稿（ScheduledPost.queuePosition が非null）に
+// 並び順どおり次の空き枠の時刻を scheduledAt として割り当てる。実際の投稿は通常の予約投稿と同じく
+// /api/cron/posts が行う（一時停止中のアカウントのキューは処理しない）。
+// 並び替え・枠の変更・一時停止の解除のたびに reflowQueue で時刻を割り当て直す。
+
+import { prisma } from '@/lib/db';
+import { DEFAULT_TIMEZONE, getWallTime, isValidTimezone, wallTimeToUtc } from './recurrence';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const MAX_POSTING_SLOTS = 50;
+// 予約投稿と同じく、最低5分後の枠から割り当てる
+export const QUEUE_MIN_LEAD_MS = 5 * 60 * 1000;
+
+export interface SlotTime {
+  dayOfWeek: number; // 0-6（日-土）
+  hour: number;
+  minute: number;
+}
+
+function compareSlots(a: SlotTime, b: SlotTime): number {
+  return a.dayOfWeek - b.dayOfWeek || a.hour - b.hour || a.minute - b.minute;
+}
+
+// リクエストの投稿枠を検証（重複は除き、曜日・時刻順に並べる）
+export function validateSlots(input: unknown): { slots: SlotTime[]; error?: undefined } | { error: string } {
+  if (!Array.isArray(input)) {
+    return { error: 'slots は配列で指定してください。' };
+  }
+  if (input.length > MAX_POSTING_SLOTS) {
+    return { error: `投稿枠は最大${MAX_POSTING_SLOTS}件までです。` };
+  }
+
+  const unique = new Map<string, SlotTime>();
+  for (const item of input) {
+    const slot = {
+      dayOfWeek: Number(item?.dayOfWeek),
+      hour: Number(item?.hour),
+      minute: Number(item?.minute),
+    };
+    const valid = Number.isInteger(slot.dayOfWeek) && slot.dayOfWeek >= 0 && slot.dayOfWeek <= 6
+      && Number.isInteger(slot.hour) && slot.hour >= 0 && slot.hour <= 23
+      && Number.isInteger(slot.minute) && slot.minute >= 0 && slot.minute <= 59;
+    if (!valid) {
+      return { error: '投稿枠の曜日・時刻が不正です。' };
+    }
+    unique.set(`${slot.dayOfWeek}-${slot.hour}-${slot.minute}`, slot);
+  }
+
+  return { slots: [...unique.values()].sort(compareSlots) };
+}
+
+// 指定時刻より後の投稿枠の日時を最大limit件（枠の時刻はタイムゾーンの現地時刻）
+export function getUpcomingSlotTimes(slots: SlotTime[], timezone: string, after: Date, limit: number): Date[] {
+  const times: Date[] = [];
+  if (slots.length === 0 || limit <= 0) return times;
+
+  const sorted = [...slots].sort(compareSlots);
+  const start = getWallTime(after, timezone);
+  // 1週間に最低1枠あるため、limit週＋1週分を探せば必ず見つかる
+  const maxDays = (limit + 1) * 7;
+
+  for (let offset = 0; offset <= maxDays && times.length < limit; offset++) {
+    const date = new Date(Date.UTC(start.year, start.month - 1, start.day) + offset * DAY_MS);
+    const dayOfWeek = date.getUTCDay();
+
+    for (const slot of sorted) {
+      if (slot.dayOfWeek !== dayOfWeek) continue;
+      const time = wallTimeToUtc({
+        year: date.getUTCFullYear(),
+        month: date.getUTCMonth() + 1,
+        day: date.getUTCDate(),
+        hour: slot.hour,
+        minute: slot.minute,
+      }, timezone);
+      if (time <= after) continue;
+      times.push(time);
+      if (times.length >= limit) break;
+    }
+  }
+  return times;
+}
+
+export function resolveQueueTimezone(timezone: string | null | undefined): string {
+  return timezone && isValidTimezone(timezone) ? timezone : DEFAULT_TIMEZONE;
+}
+
+// 時刻を割り当て直す対象: 投稿待ちのキューの投稿（リトライ・延期中のものは現在の時刻のまま）
+function reflowableWhere(accountId: string) {
+  return {
+    accountId,
+    status: 'pending',
+    queuePosition: { not: null },
+    attemptCount: 0,
+    nextAttemptAt: null,
+  };
+}
+
+// キューの末尾の並び順
+export async function nextQueuePosition(accountId: string): Promise<number> {
+  if (!prisma) return 0;
+
+  const last = await prisma.scheduledPost.aggregate({
+    where: { accountId, status: 'pending', queuePosition: { not: null } },
+    _max: { queuePosition: true },
+  });
+  return (last._max.queuePosition ?? -1) + 1;
+}
+
+// キューの末尾に追加する投稿の時刻（投稿枠がない場合はnull）
+export async function getNextFreeSlot(accountId: string, now: Date = new Date()): Promise<Date | null> {
+  if (!prisma) return null;
+
+  const [account, slots, queued] = await Promise.all([
+    prisma.threadsAccount.findUnique({ where: { id: accountId }, select: { timezone: true } }),
+    prisma.postingSlot.findMany({ where: { accountId } }),
+    prisma.scheduledPost.count({ where: reflowableWhere(accountId) }),
+  ]);
+  if (!account) return null;
+
+  const after = new Date(now.getTime() + QUEUE_MIN_LEAD_MS);
+  const times = getUpcomingSlotTimes(slots, resolveQueueTimezone(account.timezone), after, queued + 1);
+  return times[queued] ?? null;
+}
+
+// キューの投稿に並び順どおり次の空き枠を割り当てる（並び順も 0 から振り直す）
+// 投稿枠がない場合は何もしない
+export async function reflowQueue(accountId: string, now: Date = new Date()): Promise<number> {
+  if (!prisma) return 0;
+
+  const [account, slots, items] = await Promise.all([
+    prisma.threadsAccount.findUnique({ where: { id: accountId }, select: { timezone: true } }),
+    prisma.postingSlot.findMany({ where: { accountId } }),
+    prisma.scheduledPost.findMany({
+      where: reflowableWhere(accountId),
+      orderBy: [{ queuePosition: 'asc' }, { createdAt: 'asc' }],
+      select: { id: true },
+    }),
+  ]);
+  if (!account || slots.length === 0 || items.length === 0) return 0;
+
+  const after = new Date(now.getTime() + QUEUE_MIN_LEAD_MS);
+  const times = getUpcomingSlotTimes(slots, resolveQueueTimezone(account.timezone), after, items.length);
+
+  await prisma.$transaction(
+    items.map((item, index) =>
+      prisma!.scheduledPost.update({
+        where: { id: item.id },
+        data: { queuePosition: index, scheduledAt: times[index] },
+      })
+    )
+  );
+  return items.length;
+}
+
+// 並び順を指定した順に変更（指定されなかった投稿はその後ろに現在の順で並ぶ）
+export async function reorderQueue(accountId: string, orderedIds: string[], now: Date = new Date()): Promise<void> {
+  if (!prisma) return;
+
+  const items = await prisma.scheduledPost.findMany({
+    where: reflowableWhere(accountId),
+    orderBy: [{ queuePosition: 'asc' }, { createdAt: 'asc' }],
+    select: { id: true },
+  });
+  const rank = new Map(orderedIds.map((id, index) => [id, index]));
+  const ordered = [...items].sort((a, b) =>
+    (rank.get(a.id) ?? orderedIds.length) - (rank.get(b.id) ?? orderedIds.length)
+  );
+
+  await prisma.$transaction(
+    ordered.map((item, index) =>
+      prisma!.scheduledPost.update({ where: { id: item.id }, data: { queuePosition: index } })
+    )
+  );
+  await reflowQueue(accountId, now);
+}
+
+// 次の枠で投稿する（キューの先頭に移動）
+export async function moveToFront(accountId: string, id: string, now: Date = new Date()): Promise<void> {
+  if (!prisma) return;
+
+  const first = await prisma.scheduledPost.aggregate({
+    where: reflowableWhere(accountId),
+    _min: { queuePosition: true },
+  });
+  await prisma.scheduledPost.update({
+    where: { id },
+    data: { queuePosition: (first._min.queuePosition ?? 0) - 1 },
+  });
+  await reflowQueue(accountId, now);
+}
+
+// すぐに投稿する（キューから外して次回のCron実行で投稿。一時停止中でも投稿される）
+export async function shareNow(accountId: string, id: string, now: Date = new Date()): Promise<void> {
+  if (!prisma) return;
+
+  await prisma.scheduledPost.update({
+    where: { id },
+    data: { queuePosition: null, scheduledAt: now, nextAttemptAt: null },
+  });
+  await reflowQueue(accountId, now);
+}
@@ -0,0 +1,22 @@
+// Threads Studio - テンプレート展開に使う値をDBから取得（サーバー専用）
+
+import { getLatestSnapshot } from '@/lib/analytics/snapshots';
+import { renderTemplate, templateUsesVariable, type TemplateContext } from './render';
+
+// アカウントのタイムゾーンと最新のフォロワー数でテンプレートを展開
+// フォロワー数はテンプレートで使われている場合だけ取得する
+export async function renderAccountTemplate(
+  text: string,
+  account: { id: string; timezone: string | null },
+  context: TemplateContext = {}
+): Promise<string> {
+  const followerCount = templateUsesVariable(text, 'follower_count')
+    ? (await getLatestSnapshot(account.id))?.followersCount ?? null
+    : null;
+
+  return renderTemplate(text, {
+    followerCount,
+    ...context,
+    timezone: context.timezone || account.timezone,
+  });
+}
@@ -0,0 +1,381 @@
+// Threads Studio - テンプレート変数の展開（自動リプライ・投稿テンプレート・定期投稿・一括生成で共通）
+// クライアントのプレビューでも使うため、DBには依存しない
+//
+// 書式:
+//   {date} {time} {weekday} など         変数（{{日付}} のような旧形式も可）
+//   {ありがとう|感謝です|嬉しいです}       ランダムに1つを選ぶ（スピンタックス）
+//   {#if follower_count >= 1000}…{else}…{/if}  条件分岐
+//   \{ \} \| \\                           記号をそのまま出力
+
+import { DEFAULT_TIMEZONE, getWallTime, isValidTimezone } from '@/lib/scheduler/recurrence';
+
+export type TemplateVariable =
+  | 'username'
+  | 'date'
+  | 'time'
+  | 'weekday'
+  | 'year'
+  | 'month'
+  | 'day'
+  | 'original_text_excerpt'
+  | 'follower_count';
+
+export const TEMPLATE_VARIABLES: Array<{ name: TemplateVariable; label: string; description: string }> = [
+  { name: 'username', label: 'ユーザー名', description: '返信相手のユーザー名' },
+  { name: 'original_text_excerpt', label: '元の文章', description: '返信相手のリプライの冒頭' },
+  { name: 'date', label: '日付', description: '2026/01/31 の形式' },
+  { name: 'time', label: '時刻', description: '09:00 の形式' },
+  { name: 'weekday', label: '曜日', description: '月曜日 の形式' },
+  { name: 'year', label: '年', description: '2026 の形式' },
+  { name: 'month', label: '月', description: '1〜12' },
+  { name: 'day', label: '日', description: '1〜31' },
+  { name: 'follower_count', label: 'フォロワー数', description: '最新のフォロワー数' },
+];
+
+// 返信にしか使えない変数を除いたもの（投稿・定期投稿・一括生成用）
+export const POST_TEMPLATE_VARIABLES: TemplateVariable[] = TEMPLATE_VARIABLES
+  .map(v => v.name)
+  .filter(name => name !== 'username' && name !== 'original_text_excerpt');
+
+export const REPLY_TEMPLATE_VARIABLES: TemplateVariable[] = TEMPLATE_VARIABLES.map(v => v.name);
+
+// 日本語の別名（TemplateManagerの旧形式 {{日付}} など）
+const VARIABLE_ALIASES: Record<string, TemplateVariable> = {
+  日付: 'date',
+  時刻: 'time',
+  曜日: 'weekday',
+  年: 'year',
+  月: 'month',
+  日: 'day',
+  ユーザー名: 'username',
+  フォロワー数: 'follower_count',
+};
+
+const EXCERPT_LENGTH = 30;
+const WEEKDAY_NAMES = ['日', '月', '火', '水', '木', '金', '土'];
+
+export interface TemplateContext {
+  now?: Date;
+  timezone?: string | null;
+  username?: string | null;
+  originalText?: string | null;
+  followerCount?: number | null;
+}
+
+type ConditionOperator = '==' | '!=' | '>' | '>=' | '<' | '<=' | 'contains';
+
+interface TemplateCondition {
+  variable: TemplateVariable;
+  operator?: ConditionOperator;
+  value?: string;
+}
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'var'; name: TemplateVariable }
+  | { type: 'spin'; options: TemplateNode[][] }
+  | { type: 'if'; condition: TemplateCondition; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+const LEGACY_VARIABLE_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/y;
+const TAG_PATTERN = /\{\s*([^{}|]*?)\s*\}/y;
+const CONDITION_PATTERN = /^([\p{L}\p{N}_]+)(?:\s*(==|!=|>=|<=|>|<)\s*(.+)|\s+contains\s+(.+))?$/u;
+
+function resolveVariableName(name: string): TemplateVariable | null {
+  if (TEMPLATE_VARIABLES.some(v => v.name === name)) return name as TemplateVariable;
+  return VARIABLE_ALIASES[name] ?? null;
+}
+
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  const quoted = /^(["'])(.*)\1$/.exec(trimmed);
+  return quoted ? quoted[2] : trimmed;
+}
+
+function parseCondition(expression: string): TemplateCondition | string {
+  const match = CONDITION_PATTERN.exec(expression.trim());
+  if (!match) {
+    return `条件の書式が不正です: {#if ${expression}}`;
+  }
+
+  const variable = resolveVariableName(match[1]);
+  if (!variable) {
+    return `不明な変数です: ${match[1]}`;
+  }
+
+  if (match[4] !== undefined) {
+    return { variable, operator: 'contains', value: unquote(match[4]) };
+  }
+  if (match[2]) {
+    return { variable, operator: match[2] as ConditionOperator, value: unquote(match[3]) };
+  }
+  return { variable };
+}
+
+// テンプレートを構文木に変換（不正な箇所はエラーとして記録し、可能な限り文字どおりに扱う）
+function parseTemplate(source: string): { nodes: TemplateNode[]; errors: string[] } {
+  const errors: string[] = [];
+  let pos = 0;
+
+  function parseNodes(mode: 'root' | 'spin' | 'if'): {
+    nodes: TemplateNode[];
+    end: 'eof' | '|' | '}' | 'else' | '/if';
+  } {
+    const nodes: TemplateNode[] = [];
+    let buffer = '';
+    const flush = () => {
+      if (buffer) {
+        nodes.push({ type: 'text', value: buffer });
+        buffer = '';
+      }
+    };
+
+    while (pos < source.length) {
+      const ch = source[pos];
+
+      // エスケープ
+      if (ch === '\\' && pos + 1 < source.length && '\\{}|'.includes(source[pos + 1])) {
+        buffer += source[pos + 1];
+        pos += 2;
+        continue;
+      }
+
+      if (mode === 'spin' && (ch === '|' || ch === '}')) {
+        pos++;
+        flush();
+        return { nodes, end: ch };
+      }
+
+      if (ch !== '{') {
+        buffer += ch;
+        pos++;
+        continue;
+      }
+
+      // {{日付}} 形式（未知の名前はユーザーが埋める欄としてそのまま残す）
+      LEGACY_VARIABLE_PATTERN.lastIndex = pos;
+      const legacy = LEGACY_VARIABLE_PATTERN.exec(source);
+      if (legacy) {
+        const name = resolveVariableName(legacy[1]);
+        if (name) {
+          flush();
+          nodes.push({ type: 'var', name });
+        } else {
+          buffer += legacy[0];
+        }
+        pos += legacy[0].length;
+        continue;
+      }
+
+      TAG_PATTERN.lastIndex = pos;
+      const tag = TAG_PATTERN.exec(source);
+      if (tag) {
+        const body = tag[1];
+        pos += tag[0].length;
+
+        if (/^#if(\s|$)/.test(body)) {
+          flush();
+          const condition = parseCondition(body.slice(3));
+          if (typeof condition === 'string') errors.push(condition);
+
+          const thenPart = parseNodes('if');
+          let otherwise: TemplateNode[] = [];
+          let end = thenPart.end;
+          if (end === 'else') {
+            const elsePart = parseNodes('if');
+            otherwise = elsePart.nodes;
+            end = elsePart.end;
+            if (end === 'else') errors.push('{else} は1つの {#if} につき1回までです');
+          }
+          if (end !== '/if') errors.push('{#if} が {/if} で閉じられていません');
+
+          if (typeof condition !== 'string') {
+            nodes.push({ type: 'if', condition, then: thenPart.nodes, otherwise });
+          }
+          continue;
+        }
+
+        if (body === 'else' || body === '/if') {
+          if (mode === 'if') {
+            flush();
+            return { nodes, end: body };
+          }
+          errors.push(`{${body}} に対応する {#if} がありません`);
+          buffer += tag[0];
+          continue;
+        }
+
+        const name = resolveVariableName(body);
+        if (name) {
+          flush();
+          nodes.push({ type: 'var', name });
+        } else {
+          // 未知の {xxx} は文字どおり出力
+          buffer += tag[0];
+        }
+        continue;
+      }
+
+      // スピンタックス {A|B|C}
+      pos++;
+      const options: TemplateNode[][] = [];
+      let closed = false;
+      for (;;) {
+        const part = parseNodes('spin');
+        options.push(part.nodes);
+        if (part.end === '}') {
+          closed = true;
+          break;
+        }
+        if (part.end !== '|') break;
+      }
+
+      flush();
+      if (options.length > 1) {
+        if (!closed) errors.push('{A|B} の形式が } で閉じられていません');
+        nodes.push({ type: 'spin', options });
+      } else {
+        // 選択肢のない { … } は文字どおり出力
+        nodes.push({ type: 'text', value: '{' }, ...options[0]);
+        if (closed) nodes.push({ type: 'text', value: '}' });
+      }
+    }
+
+    flush();
+    return { nodes, end: 'eof' };
+  }
+
+  return { nodes: parseNodes('root').nodes, errors };
+}
+
+function collectVariables(nodes: TemplateNode[], found: Set<TemplateVariable>): Set<TemplateVariable> {
+  for (const node of nodes) {
+    if (node.type === 'var') {
+      found.add(node.name);
+    } else if (node.type === 'spin') {
+      node.options.forEach(option => collectVariables(option, found));
+    } else if (node.type === 'if') {
+      found.add(node.condition.variable);
+      collectVariables(node.then, found);
+      collectVariables(node.otherwise, found);
+    }
+  }
+  return found;
+}
+
+// 保存前のテンプレート検証（エラーメッセージの一覧を返す）
+export function validateTemplate(
+  text: string,
+  options: { variables?: readonly TemplateVariable[] } = {}
+): string[] {
+  const { nodes, errors } = parseTemplate(text);
+
+  if (options.variables) {
+    for (const name of collectVariables(nodes, new Set())) {
+      if (!options.variables.includes(name)) {
+        errors.push(`{${name}} はここでは使えません`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+export function templateUsesVariable(text: string, name: TemplateVariable): boolean {
+  return collectVariables(parseTemplate(text).nodes, new Set()).has(name);
+}
+
+function excerpt(text: string): string {
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  const chars = Array.from(normalized);
+  return chars.length > EXCERPT_LENGTH ? `${chars.slice(0, EXCERPT_LENGTH).join('')}…` : normalized;
+}
+
+function resolveVariable(name: TemplateVariable, context: TemplateContext): string {
+  const timezone = context.timezone && isValidTimezone(context.timezone) ? context.timezone : DEFAULT_TIMEZONE;
+  const wall = getWallTime(context.now ?? new Date(), timezone);
+  const pad = (n: number) => String(n).padStart(2, '0');
+
+  switch (name) {
+    case 'username':
+      return context.username ?? '';
+    case 'original_text_excerpt':
+      return context.originalText ? excerpt(context.originalText) : '';
+    case 'follower_count':
+      return context.followerCount != null ? String(context.followerCount) : '';
+    case 'date':
+      return `${wall.year}/${pad(wall.month)}/${pad(wall.day)}`;
+    case 'time':
+      return `${pad(wall.hour)}:${pad(wall.minute)}`;
+    case 'weekday':
+      return `${WEEKDAY_NAMES[new Date(Date.UTC(wall.year, wall.month - 1, wall.day)).getUTCDay()]}曜日`;
+    case 'year':
+      return String(wall.year);
+    case 'month':
+      return String(wall.month);
+    case 'day':
+      return String(wall.day);
+  }
+}
+
+function evaluateTemplateCondition(condition: TemplateCondition, context: TemplateContext): boolean {
+  const actual = resolveVariable(condition.variable, context);
+
+  if (!condition.operator) {
+    return actual !== '' && actual !== '0';
+  }
+
+  const expected = condition.value ?? '';
+  if (condition.operator === 'contains') {
+    return actual.toLowerCase().includes(expected.toLowerCase());
+  }
+
+  const bothNumeric = actual !== '' && expected !== '' && !isNaN(Number(actual)) && !isNaN(Number(expected));
+  switch (condition.operator) {
+    case '==':
+      return bothNumeric ? Number(actual) === Number(expected) : actual === expected;
+    case '!=':
+      return bothNumeric ? Number(actual) !== Number(expected) : actual !== expected;
+    case '>':
+      return bothNumeric && Number(actual) > Number(expected);
+    case '>=':
+      return bothNumeric && Number(actual) >= Number(expected);
+    case '<':
+      return bothNumeric && Number(actual) < Number(expected);
+    case '<=':
+      return bothNumeric && Number(actual) <= Number(expected);
+  }
+}
+
+function renderNodes(nodes: TemplateNode[], context: TemplateContext, random: () => number): string {
+  let output = '';
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        output += node.value;
+        break;
+      case 'var':
+        output += resolveVariable(node.name, context);
+        break;
+      case 'spin':
+        output += renderNodes(node.options[Math.floor(random() * node.options.length)], context, random);
+        break;
+      case 'if':
+        output += renderNodes(
+          evaluateTemplateCondition(node.condition, context) ? node.then : node.otherwise,
+          context,
+          random
+        );
+        break;
+    }
+  }
+  return output;
+}
+
+// テンプレートを展開（日時は context.timezone の現地時刻）
+export function renderTemplate(
+  text: string,
+  context: TemplateContext = {},
+  options: { random?: () => number } = {}
+): string {
+  return renderNodes(parseTemplate(text).nodes, context, options.random ?? Math.random);
+}
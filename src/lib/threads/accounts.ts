@@ -0,0 +1,65 @@
+// Threads Studio - 保存済みアカウントのトークン解決（サーバー専用）
+// トークンはクライアントに渡さず、ThreadsAccount.id からサーバー側で復号して使う
+
+import { NextResponse } from 'next/server';
+import type { ThreadsAccount } from '@prisma/client';
+import { prisma, isDatabaseAvailable } from '@/lib/db';
+import { auth } from '@/lib/auth';
+import { decryptToken } from '@/lib/crypto/tokens';
+import { ThreadsAPIClient } from './client';
+
+// ログインユーザーのアカウントを ThreadsAccount.id（または threadsUserId）で取得
+export async function findUserAccount(userId: string, accountId: string) {
+  if (!prisma) return null;
+
+  return prisma.threadsAccount.findFirst({
+    where: {
+      OR: [
+        { id: accountId },
+        { threadsUserId: accountId },
+      ],
+      userId,
+    },
+  });
+}
+
+// 保存済みの（暗号化された）トークンでAPIクライアントを作成
+export function createAccountClient(account: { accessToken: string }): ThreadsAPIClient {
+  return new ThreadsAPIClient(decryptToken(account.accessToken));
+}
+
+// APIルート用: ログインユーザーのアカウントとAPIクライアントを取得
+export async function requireAccountClient(accountId: string | null | undefined): Promise<
+  | { account: ThreadsAccount; client: ThreadsAPIClient; userId: string; error?: undefined }
+  | { error: NextResponse }
+> {
+  if (!accountId) {
+    return { error: NextResponse.json({ error: 'accountId is required' }, { status: 400 }) };
+  }
+
+  if (!isDatabaseAvailable() || !prisma) {
+    return { error: NextResponse.json({ error: 'Database not available' }, { status: 503 }) };
+  }
+
+  const session = await auth();
+  if (!session?.user?.id) {
+    return { error: NextResponse.json({ error: 'Unauthorized', code: 'NOT_AUTHENTICATED' }, { status: 401 }) };
+  }
+
+  const account = await findUserAccount(session.user.id, accountId);
+  if (!account) {
+    return { error: NextResponse.json({ error: 'アカウントが見つかりません。' }, { status: 404 }) };
+  }
+
+  try {
+    return { account, client: createAccountClient(account), userId: session.user.id };
+  } catch (error) {
+    console.error(`Failed to decrypt access token for account ${account.id}:`, error);
+    return {
+      error: NextResponse.json(
+        { error: 'アクセストークンを復号できませんでした。管理者に連絡してください。' },
+        { status: 500 }
+      ),
+    };
+  }
+}
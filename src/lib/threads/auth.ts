@@ -1,8 +1,12 @@
 // Threads OAuth Authentication
 
-const THREADS_AUTH_URL = 'https://threads.net/oauth/authorize';
-const THREADS_TOKEN_URL = 'https://graph.threads.net/oauth/access_token';
-const THREADS_LONG_LIVED_TOKEN_URL = 'https://graph.threads.net/access_token';
+import { parseThreadsError } from './errors';
+import { THREADS_GRAPH_URL } from './client';
+
+// モックサーバーを使う場合は認可画面もモックに向ける（THREADS_AUTH_URL）
+const THREADS_AUTH_URL = process.env.THREADS_AUTH_URL || 'https://threads.net/oauth/authorize';
+const THREADS_TOKEN_URL = `${THREADS_GRAPH_URL}/oauth/access_token`;
+const THREADS_LONG_LIVED_TOKEN_URL = `${THREADS_GRAPH_URL}/access_token`;
 
 export interface ThreadsTokenResponse {
   access_token: string;
@@ -51,8 +55,7 @@ export async function exchangeCodeForToken(
   });
 
   if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.error_message || 'Failed to exchange code for token');
+    throw await parseThreadsError(response);
   }
 
   return response.json();
@@ -130,8 +133,7 @@ export async function refreshLongLivedToken(
   const response = await fetch(`${THREADS_LONG_LIVED_TOKEN_URL}?${params.toString()}`);
 
   if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.error_message || 'Failed to refresh token');
+    throw await parseThreadsError(response);
   }
 
   return response.json();
@@ -0,0 +1,69 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ThreadsAPIClient } from './client';
+import { ThreadsAPIError } from './errors';
+
+interface Call {
+  method: string;
+  path: string;
+  body?: Record<string, unknown>;
+}
+
+// コンテナの作成・ステータス確認・公開に応答する fetch（公開は publish で差し替えられる）
+function stubThreadsApi(publish: (call: Call, count: number) => Promise<Response> | Response) {
+  const calls: Call[] = [];
+  let containers = 0;
+  let publishes = 0;
+
+  vi.stubGlobal('fetch', vi.fn(async (input: string, init?: RequestInit) => {
+    const url = new URL(input);
+    const call: Call = {
+      method: init?.method ?? 'GET',
+      path: url.pathname.replace(/^\/v[\d.]+/, ''),
+      ...(init?.body && { body: JSON.parse(String(init.body)) }),
+    };
+    calls.push(call);
+
+    if (call.path === '/me/threads') return Response.json({ id: `container-${++containers}` });
+    if (call.path === '/me/threads_publish') return publish(call, ++publishes);
+    return Response.json({ id: call.path.slice(1), status: 'FINISHED' });
+  }));
+
+  return calls;
+}
+
+const client = new ThreadsAPIClient('token', { baseUrl: 'https://threads.test', maxRetries: 2, onRequest: () => {} });
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('ThreadsAPIClient publishing', () => {
+  it('does not retry a publish request that failed without a response', async () => {
+    const calls = stubThreadsApi(() => {
+      throw new TypeError('fetch failed');
+    });
+
+    const error = await client.postText('hello').catch(e => e);
+    expect(error).toBeInstanceOf(ThreadsAPIError);
+    expect(error.unconfirmed).toBe(true);
+    expect(error.retryable).toBe(false);
+    expect(calls.filter(c => c.path === '/me/threads_publish')).toHaveLength(1);
+  });
+
+  it('resumes a thread after the posts that were already published', async () => {
+    const calls = stubThreadsApi((_, count) => Response.json({ id: `post-${count + 1}` }));
+    const saved: string[][] = [];
+
+    const result = await client.postThread(
+      [{ text: 'one' }, { text: 'two' }, { text: 'three' }],
+      {},
+      { publishedIds: ['post-1'], onPublished: async ids => { saved.push(ids); } }
+    );
+
+    expect(result.ids).toEqual(['post-1', 'post-2', 'post-3']);
+    expect(saved).toEqual([['post-1', 'post-2'], ['post-1', 'post-2', 'post-3']]);
+    const created = calls.filter(c => c.path === '/me/threads').map(c => c.body);
+    expect(created.map(b => b?.text)).toEqual(['two', 'three']);
+    expect(created[0]?.reply_to_id).toBe('post-1');
+  });
+});
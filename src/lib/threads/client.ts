@@ -1,6 +1,18 @@
 // Threads API Client - Threads Studio
 
-const THREADS_API_BASE = 'https://graph.threads.net/v1.0';
+import { parseThreadsError, ThreadsAPIError } from './errors';
+import type { ReplyControl } from './post-options';
+
+// THREADS_API_BASE_URL でGraph APIの接続先を変更できる（開発用のモックサーバー: npm run mock:threads）
+export const THREADS_GRAPH_URL = (process.env.THREADS_API_BASE_URL || 'https://graph.threads.net').replace(/\/+$/, '');
+const THREADS_API_VERSION = 'v1.0';
+
+const DEFAULT_TIMEOUT_MS = 15000;
+const DEFAULT_MAX_RETRIES = 2;
+const BASE_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 8000;
+// これより長いレート制限の待機は行わず、呼び出し元にエラーを返す
+const MAX_RATE_LIMIT_WAIT_MS = 10000;
 
 export interface ThreadsUser {
   id: string;
@@ -26,6 +38,36 @@ export interface ThreadsMedia {
   is_quote_post?: boolean;
 }
 
+// 他のユーザーの公開プロフィール（profile_lookup）
+export interface ThreadsPublicProfile {
+  username: string;
+  name?: string;
+  profile_picture_url?: string;
+  biography?: string;
+  is_verified?: boolean;
+  follower_count?: number;
+  likes_count?: number;
+  quotes_count?: number;
+  replies_count?: number;
+  reposts_count?: number;
+  views_count?: number;
+}
+
+// スレッド内のリプライ（conversation / replies）
+export interface ThreadsReply {
+  id: string;
+  text?: string;
+  timestamp: string;
+  username: string;
+  permalink?: string;
+  like_count?: number;
+  replied_to?: { id: string };
+  root_post?: { id: string };
+  is_reply_owned_by_me?: boolean;
+  has_replies?: boolean;
+  hide_status?: string; // NOT_HUSHED, UNHUSHED, HIDDEN, COVERED, BLOCKED, RESTRICTED
+}
+
 export interface ThreadsInsights {
   views: number;
   likes: number;
@@ -66,29 +108,140 @@ export interface DemographicData {
   gender?: Array<{ gender: string; value: number }>;
 }
 
+export interface ThreadsPublishingLimit {
+  quota_usage: number;
+  config: { quota_total: number; quota_duration: number };
+  reply_quota_usage?: number;
+  reply_config?: { quota_total: number; quota_duration: number };
+}
+
+// コンテナ作成時の投稿オプション（アンケートとリンクはテキスト投稿のみ）
+export interface ContainerOptions {
+  replyControl?: ReplyControl;
+  pollOptions?: string[];
+  topicTag?: string;
+  linkAttachment?: string;
+  altText?: string;
+  quotePostId?: string; // 引用する投稿のID（引用投稿）
+}
+
+// API呼び出しごとのログ（アクセストークンは含まない）
+export interface ThreadsRequestLog {
+  method: 'GET' | 'POST';
+  endpoint: string;
+  attempt: number;
+  status: number | null;
+  durationMs: number;
+  error?: ThreadsAPIError;
+}
+
+export interface ThreadsClientOptions {
+  baseUrl?: string; // 例: http://localhost:4010（省略時は THREADS_GRAPH_URL）
+  timeoutMs?: number;
+  maxRetries?: number;
+  onRequest?: (log: ThreadsRequestLog) => void;
+}
+
+let defaultRequestLogger: ((log: ThreadsRequestLog) => void) | null = null;
+
+// すべてのクライアントのAPI呼び出しを記録するフック（クライアントごとの onRequest が優先）
+export function setThreadsRequestLogger(logger: ((log: ThreadsRequestLog) => void) | null): void {
+  defaultRequestLogger = logger;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
 export class ThreadsAPIClient {
   private accessToken: string;
+  private options: ThreadsClientOptions;
 
-  constructor(accessToken: string) {
+  constructor(accessToken: string, options: ThreadsClientOptions = {}) {
     this.accessToken = accessToken;
+    this.options = options;
   }
 
-  private async fetch<T>(endpoint: string, params: Record<string, string> = {}): Promise<T> {
-    const url = new URL(`${THREADS_API_BASE}${endpoint}`);
+  // リクエストを送信（タイムアウト・リトライ・レート制限の待機）
+  // idempotent でないリクエスト（公開など）は、APIが処理前に拒否したレート制限のときだけ再試行する
+  private async request<T>(
+    method: 'GET' | 'POST',
+    endpoint: string,
+    params: Record<string, string>,
+    body: Record<string, unknown> | undefined,
+    idempotent: boolean
+  ): Promise<T> {
+    const baseUrl = (this.options.baseUrl ?? THREADS_GRAPH_URL).replace(/\/+$/, '');
+    const url = new URL(`${baseUrl}/${THREADS_API_VERSION}${endpoint}`);
     url.searchParams.set('access_token', this.accessToken);
-
     for (const [key, value] of Object.entries(params)) {
       url.searchParams.set(key, value);
     }
 
-    const response = await fetch(url.toString());
+    const maxRetries = this.options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    const timeoutMs = this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const log = this.options.onRequest ?? defaultRequestLogger;
+
+    for (let attempt = 1; ; attempt++) {
+      const startedAt = Date.now();
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+      let status: number | null = null;
+      try {
+        const response = await fetch(url.toString(), {
+          method,
+          signal: controller.signal,
+          ...(body && {
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+          }),
+        });
+        status = response.status;
+
+        if (!response.ok) {
+          throw await parseThreadsError(response);
+        }
+
+        const data = await response.json() as T;
+        log?.({ method, endpoint, attempt, status, durationMs: Date.now() - startedAt });
+        return data;
+      } catch (caught) {
+        const error = caught instanceof ThreadsAPIError
+          ? caught
+          : controller.signal.aborted
+            ? new ThreadsAPIError(`Threads API request timed out after ${timeoutMs}ms`, { kind: 'timeout', status, unconfirmed: !idempotent })
+            : new ThreadsAPIError(caught instanceof Error ? caught.message : 'Threads API request failed', {
+              kind: status === null ? 'network' : 'unknown',
+              status,
+              // 公開リクエストはAPIに届いて処理された可能性がある
+              unconfirmed: !idempotent,
+            });
+        log?.({ method, endpoint, attempt, status, durationMs: Date.now() - startedAt, error });
+
+        const delay = this.getRetryDelay(error, attempt, idempotent);
+        if (attempt > maxRetries || delay === null) throw error;
+        await sleep(delay);
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+  }
 
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error?.message || 'Threads API error');
+  // 再試行までの待機時間（再試行しない場合はnull）
+  private getRetryDelay(error: ThreadsAPIError, attempt: number, idempotent: boolean): number | null {
+    if (error.kind === 'rate_limit') {
+      const wait = error.retryAfterMs ?? BASE_RETRY_DELAY_MS * Math.pow(2, attempt);
+      return wait <= MAX_RATE_LIMIT_WAIT_MS ? wait : null;
     }
+    if (!idempotent || !error.retryable) return null;
+
+    const backoff = Math.min(BASE_RETRY_DELAY_MS * Math.pow(2, attempt - 1), MAX_RETRY_DELAY_MS);
+    return Math.round(backoff + Math.random() * backoff * 0.2);
+  }
 
-    return response.json();
+  private async fetch<T>(endpoint: string, params: Record<string, string> = {}): Promise<T> {
+    return this.request<T>('GET', endpoint, params, undefined, true);
   }
 
   // 自分のプロフィール取得
@@ -99,10 +252,12 @@ export class ThreadsAPIClient {
   }
 
   // 自分の投稿一覧取得（拡張版）
-  async getMyThreads(limit = 50): Promise<{ data: ThreadsMedia[]; paging?: { cursors?: { after?: string; before?: string }; next?: string } }> {
+  // after に前のページの paging.cursors.after を渡すと続きを取得する
+  async getMyThreads(limit = 50, after?: string): Promise<{ data: ThreadsMedia[]; paging?: { cursors?: { after?: string; before?: string }; next?: string } }> {
     return this.fetch<{ data: ThreadsMedia[]; paging?: { cursors?: { after?: string; before?: string }; next?: string } }>('/me/threads', {
       fields: 'id,media_type,media_url,permalink,text,timestamp,username,like_count,reply_count,repost_count,quote_count,is_quote_post',
       limit: limit.toString(),
+      ...(after && { after }),
     });
   }
 
@@ -321,6 +476,30 @@ export class ThreadsAPIClient {
     });
   }
 
+  // ユーザー名で公開プロフィールを取得（threads_profile_discovery 権限が必要）
+  async lookupProfile(username: string): Promise<ThreadsPublicProfile> {
+    return this.fetch<ThreadsPublicProfile>('/profile_lookup', {
+      username,
+      fields: 'username,name,profile_picture_url,biography,is_verified,follower_count,likes_count,quotes_count,replies_count,reposts_count,views_count',
+    });
+  }
+
+  // ユーザー名で公開投稿を取得（threads_profile_discovery 権限が必要）
+  async getProfilePosts(username: string, limit = 25): Promise<{ data: ThreadsMedia[] }> {
+    return this.fetch<{ data: ThreadsMedia[] }>('/profile_posts', {
+      username,
+      fields: 'id,media_type,media_url,permalink,text,timestamp,username,like_count,reply_count,repost_count,quote_count,is_quote_post',
+      limit: limit.toString(),
+    });
+  }
+
+  // 投稿の取得（引用・リポストする投稿のプレビュー用）
+  async getMedia(mediaId: string): Promise<ThreadsMedia> {
+    return this.fetch<ThreadsMedia>(`/${mediaId}`, {
+      fields: 'id,media_type,media_url,permalink,text,timestamp,username',
+    });
+  }
+
   // 投稿へのリプライを取得（誰がリプライしたか）
   async getPostReplies(postId: string): Promise<{
     data: Array<{
@@ -348,6 +527,21 @@ export class ThreadsAPIClient {
     }
   }
 
+  // 投稿のスレッド内のすべてのリプライを取得（リプライへのリプライも含む。replied_to で親をたどれる）
+  async getConversation(mediaId: string, limit = 100, after?: string): Promise<{ data: ThreadsReply[]; paging?: { cursors?: { after?: string; before?: string } } }> {
+    return this.fetch<{ data: ThreadsReply[]; paging?: { cursors?: { after?: string; before?: string } } }>(`/${mediaId}/conversation`, {
+      fields: 'id,text,timestamp,username,permalink,like_count,replied_to,root_post,is_reply_owned_by_me,has_replies,hide_status',
+      limit: limit.toString(),
+      reverse: 'false',
+      ...(after && { after }),
+    });
+  }
+
+  // 自分の投稿へのリプライを非表示・再表示（threads_manage_replies 権限が必要）
+  async manageReply(replyId: string, hide: boolean): Promise<{ success: boolean }> {
+    return this.post<{ success: boolean }>(`/${replyId}/manage_reply`, { hide });
+  }
+
   // 自分のリプライ一覧を取得（会話追跡用）
   async getMyReplies(limit = 50): Promise<{
     data: Array<{
@@ -378,26 +572,29 @@ export class ThreadsAPIClient {
   // 投稿作成機能
   // ========================================
 
-  private async post<T>(endpoint: string, body: Record<string, unknown>): Promise<T> {
-    const url = new URL(`${THREADS_API_BASE}${endpoint}`);
-    url.searchParams.set('access_token', this.accessToken);
-
-    const response = await fetch(url.toString(), {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(body),
-    });
+  // コンテナの作成は公開されないため再試行してよい（公開は publishContainer で idempotent: false）
+  private async post<T>(endpoint: string, body: Record<string, unknown>, idempotent = true): Promise<T> {
+    return this.request<T>('POST', endpoint, {}, body, idempotent);
+  }
 
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error?.message || 'Threads API error');
+  // 投稿オプションをコンテナ作成のパラメータに追加
+  private withContainerOptions(body: Record<string, unknown>, options: ContainerOptions): Record<string, unknown> {
+    if (options.replyControl) body.reply_control = options.replyControl;
+    if (options.topicTag) body.topic_tag = options.topicTag;
+    if (options.linkAttachment) body.link_attachment = options.linkAttachment;
+    if (options.altText) body.alt_text = options.altText;
+    if (options.quotePostId) body.quote_post_id = options.quotePostId;
+    if (options.pollOptions && options.pollOptions.length >= 2) {
+      // 選択肢は option_a〜option_d で渡す
+      body.poll_attachment = Object.fromEntries(
+        options.pollOptions.map((option, i) => [`option_${String.fromCharCode(97 + i)}`, option])
+      );
     }
-
-    return response.json();
+    return body;
   }
 
   // テキスト投稿のコンテナ作成
-  async createTextContainer(text: string, replyToId?: string): Promise<{ id: string }> {
+  async createTextContainer(text: string, replyToId?: string, options: ContainerOptions = {}): Promise<{ id: string }> {
     const body: Record<string, unknown> = {
       media_type: 'TEXT',
       text,
@@ -405,35 +602,36 @@ export class ThreadsAPIClient {
     if (replyToId) {
       body.reply_to_id = replyToId;
     }
-    return this.post<{ id: string }>('/me/threads', body);
+    return this.post<{ id: string }>('/me/threads', this.withContainerOptions(body, options));
   }
 
   // 画像投稿のコンテナ作成
-  async createImageContainer(imageUrl: string, text?: string, replyToId?: string): Promise<{ id: string }> {
+  async createImageContainer(imageUrl: string, text?: string, replyToId?: string, options: ContainerOptions = {}): Promise<{ id: string }> {
     const body: Record<string, unknown> = {
       media_type: 'IMAGE',
       image_url: imageUrl,
     };
     if (text) body.text = text;
     if (replyToId) body.reply_to_id = replyToId;
-    return this.post<{ id: string }>('/me/threads', body);
+    return this.post<{ id: string }>('/me/threads', this.withContainerOptions(body, options));
   }
 
   // 動画投稿のコンテナ作成
-  async createVideoContainer(videoUrl: string, text?: string, replyToId?: string): Promise<{ id: string }> {
+  async createVideoContainer(videoUrl: string, text?: string, replyToId?: string, options: ContainerOptions = {}): Promise<{ id: string }> {
     const body: Record<string, unknown> = {
       media_type: 'VIDEO',
       video_url: videoUrl,
     };
     if (text) body.text = text;
     if (replyToId) body.reply_to_id = replyToId;
-    return this.post<{ id: string }>('/me/threads', body);
+    return this.post<{ id: string }>('/me/threads', this.withContainerOptions(body, options));
   }
 
   // カルーセル用の子アイテムコンテナ作成
   async createCarouselItemContainer(
     mediaType: 'IMAGE' | 'VIDEO',
-    mediaUrl: string
+    mediaUrl: string,
+    altText?: string
   ): Promise<{ id: string }> {
     const body: Record<string, unknown> = {
       media_type: mediaType,
@@ -444,18 +642,19 @@ export class ThreadsAPIClient {
     } else {
       body.video_url = mediaUrl;
     }
+    if (altText) body.alt_text = altText;
     return this.post<{ id: string }>('/me/threads', body);
   }
 
   // カルーセル投稿のコンテナ作成
-  async createCarouselContainer(childrenIds: string[], text?: string, replyToId?: string): Promise<{ id: string }> {
+  async createCarouselContainer(childrenIds: string[], text?: string, replyToId?: string, options: ContainerOptions = {}): Promise<{ id: string }> {
     const body: Record<string, unknown> = {
       media_type: 'CAROUSEL',
       children: childrenIds.join(','),
     };
     if (text) body.text = text;
     if (replyToId) body.reply_to_id = replyToId;
-    return this.post<{ id: string }>('/me/threads', body);
+    return this.post<{ id: string }>('/me/threads', this.withContainerOptions(body, options));
   }
 
   // コンテナのステータス確認
@@ -469,20 +668,22 @@ export class ThreadsAPIClient {
   async publishContainer(containerId: string): Promise<{ id: string }> {
     return this.post<{ id: string }>('/me/threads_publish', {
       creation_id: containerId,
-    });
+    }, false);
   }
 
-  // 投稿の公開制限を確認
-  async getPublishingLimit(): Promise<{
-    quota_usage: number;
-    config: { quota_total: number; quota_duration: number };
-  }> {
-    return this.fetch<{
-      quota_usage: number;
-      config: { quota_total: number; quota_duration: number };
-    }>('/me/threads_publishing_limit', {
-      fields: 'quota_usage,config',
-    });
+  // 投稿をリポスト（公開と同じく再試行しない）
+  async repost(mediaId: string): Promise<{ id: string }> {
+    return this.post<{ id: string }>(`/${mediaId}/repost`, {}, false);
+  }
+
+  // 投稿の公開制限を確認（投稿と返信はそれぞれ24時間あたりの上限がある）
+  async getPublishingLimit(): Promise<ThreadsPublishingLimit> {
+    const response = await this.fetch<{ data?: ThreadsPublishingLimit[] } & Partial<ThreadsPublishingLimit>>(
+      '/me/threads_publishing_limit',
+      { fields: 'quota_usage,config,reply_quota_usage,reply_config' }
+    );
+    // APIは data 配列で返す（旧形式のレスポンスにも対応）
+    return (response.data?.[0] ?? response) as ThreadsPublishingLimit;
   }
 
   // ========================================
@@ -498,81 +699,92 @@ export class ThreadsAPIClient {
         return true;
       }
       if (status.status === 'ERROR') {
-        throw new Error(status.error_message || 'Container processing failed');
+        throw new ThreadsAPIError(status.error_message || 'Container processing failed', { kind: 'invalid_request' });
       }
       // 2秒待機
-      await new Promise(resolve => setTimeout(resolve, 2000));
+      await sleep(2000);
     }
-    throw new Error('Container processing timeout');
+    throw new ThreadsAPIError('Container processing timeout', { kind: 'timeout' });
   }
 
   // テキスト投稿（ワンステップ）
-  async postText(text: string, replyToId?: string): Promise<{ id: string }> {
-    const container = await this.createTextContainer(text, replyToId);
+  async postText(text: string, replyToId?: string, options: ContainerOptions = {}): Promise<{ id: string }> {
+    const container = await this.createTextContainer(text, replyToId, options);
     await this.waitForContainer(container.id);
     return this.publishContainer(container.id);
   }
 
   // 画像投稿（ワンステップ）
-  async postImage(imageUrl: string, text?: string, replyToId?: string): Promise<{ id: string }> {
-    const container = await this.createImageContainer(imageUrl, text, replyToId);
+  async postImage(imageUrl: string, text?: string, replyToId?: string, options: ContainerOptions = {}): Promise<{ id: string }> {
+    const container = await this.createImageContainer(imageUrl, text, replyToId, options);
     await this.waitForContainer(container.id);
     return this.publishContainer(container.id);
   }
 
   // 動画投稿（ワンステップ）
-  async postVideo(videoUrl: string, text?: string, replyToId?: string): Promise<{ id: string }> {
-    const container = await this.createVideoContainer(videoUrl, text, replyToId);
+  async postVideo(videoUrl: string, text?: string, replyToId?: string, options: ContainerOptions = {}): Promise<{ id: string }> {
+    const container = await this.createVideoContainer(videoUrl, text, replyToId, options);
     await this.waitForContainer(container.id, 120000); // 動画は長めに待機
     return this.publishContainer(container.id);
   }
 
   // カルーセル投稿（ワンステップ）
   async postCarousel(
-    items: Array<{ type: 'IMAGE' | 'VIDEO'; url: string }>,
+    items: Array<{ type: 'IMAGE' | 'VIDEO'; url: string; altText?: string }>,
     text?: string,
-    replyToId?: string
+    replyToId?: string,
+    options: ContainerOptions = {}
   ): Promise<{ id: string }> {
     // 子アイテムのコンテナを作成
     const childrenIds: string[] = [];
     for (const item of items) {
-      const child = await this.createCarouselItemContainer(item.type, item.url);
+      const child = await this.createCarouselItemContainer(item.type, item.url, item.altText);
       await this.waitForContainer(child.id, item.type === 'VIDEO' ? 120000 : 30000);
       childrenIds.push(child.id);
     }
 
     // カルーセルコンテナを作成
-    const container = await this.createCarouselContainer(childrenIds, text, replyToId);
+    const container = await this.createCarouselContainer(childrenIds, text, replyToId, options);
     await this.waitForContainer(container.id);
     return this.publishContainer(container.id);
   }
 
   // スレッド投稿（複数の投稿を連結）
+  // 返信できるユーザーは全投稿に、トピックタグ・アンケート・リンクは1投稿目に付ける
+  // publishedIds に前回までに公開した投稿のIDを渡すと、その続きから投稿する（途中で失敗したスレッドの再開）
   async postThread(posts: Array<{
     text: string;
     imageUrl?: string;
     videoUrl?: string;
-  }>): Promise<{ ids: string[] }> {
+    altText?: string;
+  }>, options: ContainerOptions = {}, progress: {
+    publishedIds?: string[];
+    onPublished?: (ids: string[]) => Promise<void>;
+  } = {}): Promise<{ ids: string[] }> {
     if (posts.length === 0) {
       throw new Error('At least one post is required');
     }
 
-    const ids: string[] = [];
-    let replyToId: string | undefined;
+    const ids: string[] = [...(progress.publishedIds ?? [])].slice(0, posts.length);
+    let replyToId: string | undefined = ids[ids.length - 1];
 
-    for (const post of posts) {
+    for (const post of posts.slice(ids.length)) {
       let result: { id: string };
+      const postOptions: ContainerOptions = ids.length === 0
+        ? { ...options, altText: post.altText }
+        : { replyControl: options.replyControl, altText: post.altText };
 
       if (post.videoUrl) {
-        result = await this.postVideo(post.videoUrl, post.text, replyToId);
+        result = await this.postVideo(post.videoUrl, post.text, replyToId, postOptions);
       } else if (post.imageUrl) {
-        result = await this.postImage(post.imageUrl, post.text, replyToId);
+        result = await this.postImage(post.imageUrl, post.text, replyToId, postOptions);
       } else {
-        result = await this.postText(post.text, replyToId);
+        result = await this.postText(post.text, replyToId, postOptions);
       }
 
       ids.push(result.id);
       replyToId = result.id;
+      await progress.onPublished?.([...ids]);
     }
 
     return { ids };
@@ -0,0 +1,182 @@
+// Threads Studio - Threads APIのエラー
+// HTTPステータスとGraph APIのエラーコードから種類を判定し、リトライの可否とAPIルートのレスポンスを統一する
+
+import { NextResponse } from 'next/server';
+
+export type ThreadsErrorKind =
+  | 'auth'            // トークンの失効・取り消し
+  | 'rate_limit'      // 呼び出し回数・公開数の上限
+  | 'permission'      // 権限（スコープ）不足
+  | 'not_found'       // 対象が存在しない
+  | 'invalid_request' // パラメータ・メディアの不備
+  | 'transient'       // API側の一時的な障害
+  | 'timeout'         // タイムアウト
+  | 'network'         // 通信エラー
+  | 'unknown';
+
+export interface ThreadsErrorDetails {
+  kind: ThreadsErrorKind;
+  status?: number | null;
+  code?: number;
+  subcode?: number;
+  type?: string;
+  fbtraceId?: string;
+  retryAfterMs?: number; // レート制限が解除されるまでの目安
+  unconfirmed?: boolean; // 公開などのリクエストがAPIに届いたか確認できない（タイムアウト・通信エラー）
+}
+
+// Graph APIのエラーコード
+const AUTH_CODES = [102, 190, 463, 467];
+const RATE_LIMIT_CODES = [4, 17, 32, 613];
+const PERMISSION_CODES = [3, 10];
+const TRANSIENT_CODES = [1, 2];
+
+export class ThreadsAPIError extends Error {
+  readonly kind: ThreadsErrorKind;
+  readonly status: number | null;
+  readonly code?: number;
+  readonly subcode?: number;
+  readonly type?: string;
+  readonly fbtraceId?: string;
+  readonly retryAfterMs?: number;
+  readonly unconfirmed: boolean;
+
+  constructor(message: string, details: ThreadsErrorDetails) {
+    super(message);
+    this.name = 'ThreadsAPIError';
+    this.kind = details.kind;
+    this.status = details.status ?? null;
+    this.code = details.code;
+    this.subcode = details.subcode;
+    this.type = details.type;
+    this.fbtraceId = details.fbtraceId;
+    this.retryAfterMs = details.retryAfterMs;
+    this.unconfirmed = details.unconfirmed ?? false;
+  }
+
+  // 再試行で成功する可能性があるか（公開されたか分からないものは二重投稿になるため再試行しない）
+  get retryable(): boolean {
+    return !this.unconfirmed && ['rate_limit', 'transient', 'timeout', 'network'].includes(this.kind);
+  }
+}
+
+// トークンの失効・取り消しによるエラーか（再試行しても成功しないため、アカウントの再認証が必要）
+export function isAuthError(error: unknown): error is ThreadsAPIError {
+  return error instanceof ThreadsAPIError && error.kind === 'auth';
+}
+
+function classify(status: number, code?: number, isTransient?: boolean): ThreadsErrorKind {
+  if (code !== undefined) {
+    if (AUTH_CODES.includes(code)) return 'auth';
+    if (RATE_LIMIT_CODES.includes(code) || (code >= 80001 && code <= 80014)) return 'rate_limit';
+    if (PERMISSION_CODES.includes(code) || (code >= 200 && code <= 299)) return 'permission';
+    if (TRANSIENT_CODES.includes(code) || isTransient) return 'transient';
+    if (code === 803) return 'not_found';
+  }
+  if (status === 401) return 'auth';
+  if (status === 429) return 'rate_limit';
+  if (status === 403) return 'permission';
+  if (status === 404) return 'not_found';
+  if (status >= 500) return 'transient';
+  if (status >= 400) return 'invalid_request';
+  return 'unknown';
+}
+
+// レート制限の解除までの時間（Retry-After、または Graph API の使用状況ヘッダー）
+export function getRetryAfterMs(headers: Headers): number | undefined {
+  const retryAfter = headers.get('retry-after');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (!isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) return Math.max(0, date - Date.now());
+  }
+
+  // {"<id>":[{"estimated_time_to_regain_access":分, ...}]}
+  const usage = headers.get('x-business-use-case-usage');
+  if (usage) {
+    try {
+      const entries = Object.values(JSON.parse(usage) as Record<string, Array<{ estimated_time_to_regain_access?: number }>>).flat();
+      const minutes = Math.max(0, ...entries.map(e => e.estimated_time_to_regain_access ?? 0));
+      if (minutes > 0) return minutes * 60 * 1000;
+    } catch {
+      // 形式が不正なヘッダーは無視
+    }
+  }
+
+  return undefined;
+}
+
+// エラーレスポンスから ThreadsAPIError を作成
+export async function parseThreadsError(response: Response): Promise<ThreadsAPIError> {
+  const text = await response.text().catch(() => '');
+  let error: {
+    message?: string;
+    error_message?: string;
+    type?: string;
+    code?: number;
+    error_subcode?: number;
+    is_transient?: boolean;
+    fbtrace_id?: string;
+  } = {};
+  try {
+    const body = JSON.parse(text);
+    error = body.error ?? body;
+  } catch {
+    error = { message: text.substring(0, 200) || undefined };
+  }
+
+  return new ThreadsAPIError(error.message || error.error_message || `Threads API error (${response.status})`, {
+    kind: classify(response.status, error.code, error.is_transient),
+    status: response.status,
+    code: error.code,
+    subcode: error.error_subcode,
+    type: error.type,
+    fbtraceId: error.fbtrace_id ?? response.headers.get('x-fb-trace-id') ?? undefined,
+    retryAfterMs: getRetryAfterMs(response.headers),
+  });
+}
+
+// ===================================
+// APIルートのエラーレスポンス
+// ===================================
+
+const ERROR_RESPONSES: Record<ThreadsErrorKind, { status: number; code: string; message?: string }> = {
+  auth: { status: 401, code: 'TOKEN_INVALID', message: 'アクセストークンが無効または期限切れです。アカウントを再登録してください。' },
+  rate_limit: { status: 429, code: 'RATE_LIMIT', message: 'Threads APIの利用制限に達しています。しばらく待ってから再試行してください。' },
+  permission: { status: 403, code: 'PERMISSION_DENIED', message: 'この操作に必要な権限がありません。アプリの権限設定を確認してください。' },
+  not_found: { status: 404, code: 'NOT_FOUND' },
+  invalid_request: { status: 400, code: 'INVALID_REQUEST' },
+  transient: { status: 503, code: 'API_UNAVAILABLE', message: 'Threads APIが一時的に利用できません。しばらくしてから再試行してください。' },
+  timeout: { status: 503, code: 'API_TIMEOUT', message: 'Threads APIの応答がタイムアウトしました。しばらくしてから再試行してください。' },
+  network: { status: 503, code: 'API_UNAVAILABLE', message: 'Threads APIに接続できませんでした。しばらくしてから再試行してください。' },
+  unknown: { status: 500, code: 'API_ERROR' },
+};
+
+// Threads APIのエラーを統一した形式のJSONレスポンスに変換
+// { error, code, retryAfter?（秒）, details: { message, status, code, subcode, fbtraceId } }
+export function threadsErrorResponse(error: unknown, fallbackMessage: string): NextResponse {
+  if (!(error instanceof ThreadsAPIError)) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : fallbackMessage, code: 'API_ERROR' },
+      { status: 500 }
+    );
+  }
+
+  const mapped = ERROR_RESPONSES[error.kind];
+  return NextResponse.json(
+    {
+      error: mapped.message ?? error.message,
+      code: mapped.code,
+      ...(error.retryAfterMs !== undefined && { retryAfter: Math.ceil(error.retryAfterMs / 1000) }),
+      details: {
+        message: error.message,
+        status: error.status,
+        code: error.code,
+        subcode: error.subcode,
+        fbtraceId: error.fbtraceId,
+      },
+    },
+    { status: mapped.status }
+  );
+}
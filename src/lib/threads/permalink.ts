@@ -0,0 +1,47 @@
+// Threads Studio - 投稿URL（https://www.threads.net/@user/post/XXXX）の解析
+// 引用投稿・リポストの予約で、貼り付けたURLから投稿を特定するために使う。DBには依存しない
+
+const THREADS_HOSTS = ['threads.net', 'www.threads.net', 'threads.com', 'www.threads.com'];
+
+// ショートコードの文字（Instagramと同じ64進数）
+const SHORTCODE_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+export interface ThreadsPostUrl {
+  username: string;
+  shortcode: string;
+}
+
+// 投稿URLからユーザー名とショートコードを取り出す（投稿のURLでなければnull）
+export function parseThreadsPostUrl(value: string): ThreadsPostUrl | null {
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    return null;
+  }
+  if (!['http:', 'https:'].includes(url.protocol) || !THREADS_HOSTS.includes(url.hostname.toLowerCase())) {
+    return null;
+  }
+
+  const match = url.pathname.match(/^\/@([\w.]+)\/post\/([\w-]+)\/?$/);
+  if (!match) return null;
+  return { username: match[1].toLowerCase(), shortcode: match[2] };
+}
+
+// 同じ投稿のURLか（ホスト名・クエリの違いは無視する）
+export function isSamePostUrl(permalink: string | null | undefined, target: ThreadsPostUrl): boolean {
+  return Boolean(permalink) && parseThreadsPostUrl(permalink!)?.shortcode === target.shortcode;
+}
+
+// ショートコードを投稿IDに変換する（一覧から見つからない投稿のフォールバック）
+export function shortcodeToMediaId(shortcode: string): string | null {
+  if (!shortcode || shortcode.length > 16) return null;
+
+  let id = BigInt(0);
+  for (const char of shortcode) {
+    const index = SHORTCODE_ALPHABET.indexOf(char);
+    if (index < 0) return null;
+    id = id * BigInt(64) + BigInt(index);
+  }
+  return id.toString();
+}
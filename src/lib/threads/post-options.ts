@@ -0,0 +1,141 @@
+// Threads Studio - 投稿オプション（返信できるユーザー・アンケート・トピックタグ・リンク・代替テキスト）
+// 投稿画面・予約投稿・下書き・CSVインポートで共通の検証と保存形式。DBには依存しない
+
+export type ReplyControl = 'everyone' | 'accounts_you_follow' | 'mentioned_only';
+
+export interface PostOptions {
+  replyControl?: ReplyControl;
+  pollOptions?: string[]; // 2〜4個（テキスト投稿のみ）
+  topicTag?: string;
+  linkAttachment?: string; // テキスト投稿のみ
+  altTexts?: string[]; // mediaUrls と同じ順（空文字は指定なし）
+}
+
+export const REPLY_CONTROL_LABELS: Record<ReplyControl, string> = {
+  everyone: '全員',
+  accounts_you_follow: 'フォロー中のアカウント',
+  mentioned_only: 'メンションしたアカウントのみ',
+};
+
+export const MAX_POLL_OPTIONS = 4;
+export const POLL_OPTION_MAX_LENGTH = 25;
+export const TOPIC_TAG_MAX_LENGTH = 50;
+export const ALT_TEXT_MAX_LENGTH = 1000;
+
+// 予約投稿・下書きのカラム
+export interface StoredPostOptions {
+  replyControl: string | null;
+  pollOptions: string | null; // JSON array
+  topicTag: string | null;
+  linkAttachment: string | null;
+  altTexts: string | null; // JSON array
+}
+
+function parseStringArray(value: string | null): string[] | undefined {
+  if (!value) return undefined;
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.map(v => (typeof v === 'string' ? v : '')) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function parseStoredPostOptions(row: StoredPostOptions): PostOptions {
+  return {
+    ...(row.replyControl && row.replyControl in REPLY_CONTROL_LABELS && { replyControl: row.replyControl as ReplyControl }),
+    ...(row.pollOptions && { pollOptions: parseStringArray(row.pollOptions) }),
+    ...(row.topicTag && { topicTag: row.topicTag }),
+    ...(row.linkAttachment && { linkAttachment: row.linkAttachment }),
+    ...(row.altTexts && { altTexts: parseStringArray(row.altTexts) }),
+  };
+}
+
+export function toStoredPostOptions(options: PostOptions): StoredPostOptions {
+  return {
+    replyControl: options.replyControl ?? null,
+    pollOptions: options.pollOptions?.length ? JSON.stringify(options.pollOptions) : null,
+    topicTag: options.topicTag ?? null,
+    linkAttachment: options.linkAttachment ?? null,
+    altTexts: options.altTexts?.some(Boolean) ? JSON.stringify(options.altTexts) : null,
+  };
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+// リクエストの投稿オプションを検証する
+// アンケートとリンクはメディアのないテキスト投稿（スレッドは1投稿目）にだけ付けられる
+export function validatePostOptions(
+  input: Record<string, unknown>,
+  post: { type: string; rootHasMedia?: boolean }
+): { options: PostOptions; error?: undefined } | { error: string } {
+  const options: PostOptions = {};
+  const textOnly = (post.type === 'text' || post.type === 'thread') && !post.rootHasMedia;
+
+  if (input.replyControl !== undefined && input.replyControl !== null && input.replyControl !== '') {
+    if (typeof input.replyControl !== 'string' || !(input.replyControl in REPLY_CONTROL_LABELS)) {
+      return { error: '返信できるユーザーの指定が正しくありません。' };
+    }
+    if (input.replyControl !== 'everyone') options.replyControl = input.replyControl as ReplyControl;
+  }
+
+  if (Array.isArray(input.pollOptions)) {
+    const pollOptions = input.pollOptions
+      .map(o => (typeof o === 'string' ? o.trim() : ''))
+      .filter(Boolean);
+    if (pollOptions.length > 0) {
+      if (!textOnly) {
+        return { error: 'アンケートはテキストのみの投稿に付けられます。' };
+      }
+      if (pollOptions.length < 2 || pollOptions.length > MAX_POLL_OPTIONS) {
+        return { error: `アンケートの選択肢は2〜${MAX_POLL_OPTIONS}個にしてください。` };
+      }
+      if (pollOptions.some(o => o.length > POLL_OPTION_MAX_LENGTH)) {
+        return { error: `アンケートの選択肢は${POLL_OPTION_MAX_LENGTH}文字以内にしてください。` };
+      }
+      if (new Set(pollOptions).size !== pollOptions.length) {
+        return { error: 'アンケートの選択肢が重複しています。' };
+      }
+      options.pollOptions = pollOptions;
+    }
+  }
+
+  if (typeof input.topicTag === 'string' && input.topicTag.trim()) {
+    const topicTag = input.topicTag.trim().replace(/^#/, '');
+    if (topicTag.length > TOPIC_TAG_MAX_LENGTH || /[.&]/.test(topicTag)) {
+      return { error: `トピックタグは${TOPIC_TAG_MAX_LENGTH}文字以内で、「.」「&」は使えません。` };
+    }
+    options.topicTag = topicTag;
+  }
+
+  if (typeof input.linkAttachment === 'string' && input.linkAttachment.trim()) {
+    const linkAttachment = input.linkAttachment.trim();
+    if (!textOnly) {
+      return { error: 'リンクの添付はテキストのみの投稿に付けられます。' };
+    }
+    if (options.pollOptions) {
+      return { error: 'アンケートとリンクは同時に付けられません。' };
+    }
+    if (!isHttpUrl(linkAttachment)) {
+      return { error: '添付するリンクはhttp(s)のURLで指定してください。' };
+    }
+    options.linkAttachment = linkAttachment;
+  }
+
+  if (Array.isArray(input.altTexts)) {
+    const altTexts = input.altTexts.map(t => (typeof t === 'string' ? t.trim() : ''));
+    if (altTexts.some(t => t.length > ALT_TEXT_MAX_LENGTH)) {
+      return { error: `代替テキストは${ALT_TEXT_MAX_LENGTH}文字以内にしてください。` };
+    }
+    if (altTexts.some(Boolean)) options.altTexts = altTexts;
+  }
+
+  return { options };
+}
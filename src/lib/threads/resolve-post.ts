@@ -0,0 +1,136 @@
+// Threads Studio - 投稿URLから引用・リポストする投稿を特定する（サーバー専用）
+//
+// Threads APIにはショートコードから投稿を引く手段がないため、
+// 同期済みの自分の投稿 → 自分の投稿一覧 → URLのユーザーの公開投稿 の順にパーマリンクで探し、
+// 見つからなければショートコードを投稿IDに変換して取得を試みる。
+
+import { prisma } from '@/lib/db';
+import type { ThreadsAPIClient } from './client';
+import { isSamePostUrl, parseThreadsPostUrl, shortcodeToMediaId } from './permalink';
+
+// 自分の投稿一覧を探す範囲
+const OWN_POSTS_PAGE_SIZE = 100;
+const OWN_POSTS_MAX_PAGES = 5;
+
+export interface ResolvedThreadsPost {
+  mediaId: string;
+  permalink: string;
+  isOwn: boolean;
+  // 投稿を取得できなかった場合（非公開・削除済み・権限がない場合など）はnull
+  preview: {
+    username: string;
+    text: string | null;
+    mediaType: string;
+    mediaUrl: string | null;
+    timestamp: string;
+  } | null;
+}
+
+export async function resolveThreadsPost(
+  client: ThreadsAPIClient,
+  account: { id: string; username: string },
+  url: string
+): Promise<ResolvedThreadsPost | null> {
+  const target = parseThreadsPostUrl(url);
+  if (!target) return null;
+
+  const isOwn = target.username === account.username.toLowerCase();
+  const permalink = url.trim();
+
+  // 1. 同期済みの自分の投稿
+  if (isOwn && prisma) {
+    const synced = await prisma.threadsPost.findMany({
+      where: { accountId: account.id, permalink: { contains: `/post/${target.shortcode}` } },
+      take: 5,
+    });
+    const post = synced.find(p => isSamePostUrl(p.permalink, target));
+    if (post) {
+      return {
+        mediaId: post.mediaId,
+        permalink: post.permalink ?? permalink,
+        isOwn: true,
+        preview: {
+          username: account.username,
+          text: post.text,
+          mediaType: post.mediaType,
+          mediaUrl: post.mediaUrl,
+          timestamp: post.publishedAt.toISOString(),
+        },
+      };
+    }
+  }
+
+  // 2. 自分の投稿一覧・URLのユーザーの公開投稿
+  try {
+    let found = null;
+    if (isOwn) {
+      let after: string | undefined;
+      for (let page = 0; page < OWN_POSTS_MAX_PAGES && !found; page++) {
+        const response = await client.getMyThreads(OWN_POSTS_PAGE_SIZE, after);
+        found = response.data.find(m => isSamePostUrl(m.permalink, target)) ?? null;
+        after = response.paging?.cursors?.after;
+        if (!after || response.data.length === 0) break;
+      }
+    } else {
+      const response = await client.getProfilePosts(target.username, OWN_POSTS_PAGE_SIZE);
+      found = response.data.find(m => isSamePostUrl(m.permalink, target)) ?? null;
+    }
+
+    if (found) {
+      return {
+        mediaId: found.id,
+        permalink: found.permalink,
+        isOwn,
+        preview: {
+          username: found.username,
+          text: found.text ?? null,
+          mediaType: found.media_type,
+          mediaUrl: found.media_url ?? null,
+          timestamp: found.timestamp,
+        },
+      };
+    }
+  } catch (error) {
+    // 公開投稿の取得には追加の権限が必要なため、失敗してもショートコードからの変換を試みる
+    console.warn(`Could not search posts for ${url}:`, error);
+  }
+
+  // 3. ショートコードを投稿IDに変換
+  const mediaId = shortcodeToMediaId(target.shortcode);
+  if (!mediaId) return null;
+
+  try {
+    const media = await client.getMedia(mediaId);
+    return {
+      mediaId: media.id,
+      permalink: media.permalink || permalink,
+      isOwn,
+      preview: {
+        username: media.username,
+        text: media.text ?? null,
+        mediaType: media.media_type,
+        mediaUrl: media.media_url ?? null,
+        timestamp: media.timestamp,
+      },
+    };
+  } catch {
+    return { mediaId, permalink, isOwn, preview: null };
+  }
+}
+
+// 引用投稿・リポストの対象を検証して特定する（リポストは自分の投稿のみ）
+export async function resolvePostTarget(
+  client: ThreadsAPIClient,
+  account: { id: string; username: string },
+  type: 'quote' | 'repost',
+  url: unknown
+): Promise<{ post: ResolvedThreadsPost; error?: undefined } | { error: string }> {
+  const post = typeof url === 'string' && url.trim() ? await resolveThreadsPost(client, account, url) : null;
+  if (!post) {
+    return { error: `${type === 'quote' ? '引用' : 'リポスト'}する投稿のURL（https://www.threads.net/@ユーザー名/post/...）を入力してください。` };
+  }
+  if (type === 'repost' && !post.isOwn) {
+    return { error: 'リポストできるのは自分の投稿のみです。' };
+  }
+  return { post };
+}
@@ -0,0 +1,251 @@
+// Threads Studio - 長期トークンの自動リフレッシュと失効時の処理（サーバー専用）
+// 長期トークンは60日で失効する。発行から24時間以上経過し、期限前であればリフレッシュできる
+
+import { prisma } from '@/lib/db';
+import { decryptToken, encryptToken } from '@/lib/crypto/tokens';
+import { refreshLongLivedToken } from './auth';
+import { ThreadsAPIClient } from './client';
+import { isAuthError } from './errors';
+import { getNextOccurrence, resolveRecurrence } from '@/lib/scheduler/recurrence';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 有効期限までこの日数を切ったトークンをリフレッシュする
+export const REFRESH_BEFORE_DAYS = 10;
+
+// リフレッシュに失敗し続け、有効期限までこの日数を切ったら通知する
+const EXPIRY_ALERT_DAYS = 3;
+
+// 発行・リフレッシュ直後のトークンはリフレッシュできない
+const MIN_TOKEN_AGE_MS = DAY_MS;
+
+export interface RefreshableAccount {
+  id: string;
+  userId: string;
+  username: string;
+  accessToken: string;
+  tokenExpiresAt: Date | null;
+  tokenStatus: string;
+  tokenRefreshedAt: Date | null;
+  updatedAt: Date;
+}
+
+export type TokenRefreshResult =
+  | { status: 'refreshed'; tokenExpiresAt: Date }
+  | { status: 'failed'; error: string }
+  | { status: 'invalid'; error: string };
+
+// リフレッシュ対象のアカウント（有効期限が近い、または有効期限が不明なもの）
+export function findAccountsDueForRefresh(now: Date) {
+  return prisma!.threadsAccount.findMany({
+    where: {
+      tokenStatus: 'valid',
+      OR: [
+        { tokenExpiresAt: null },
+        { tokenExpiresAt: { lte: new Date(now.getTime() + REFRESH_BEFORE_DAYS * DAY_MS) } },
+      ],
+    },
+    select: {
+      id: true,
+      userId: true,
+      username: true,
+      accessToken: true,
+      tokenExpiresAt: true,
+      tokenStatus: true,
+      tokenRefreshedAt: true,
+      updatedAt: true,
+    },
+  });
+}
+
+// トークンをリフレッシュして保存する。失効していれば予約投稿と自動リプライを停止して再認証を促す
+export async function refreshAccountToken(
+  account: RefreshableAccount,
+  now: Date = new Date()
+): Promise<TokenRefreshResult> {
+  let token: string;
+  try {
+    token = decryptToken(account.accessToken);
+  } catch (error) {
+    // 復号できないのは暗号化キーの設定の問題なので、トークンの失効としては扱わない
+    const message = error instanceof Error ? error.message : 'Failed to decrypt token';
+    await recordRefresh(account.id, 'failed', message);
+    return { status: 'failed', error: message };
+  }
+
+  if (account.tokenExpiresAt && account.tokenExpiresAt <= now) {
+    const message = 'トークンの有効期限が切れています';
+    await markTokenInvalid(account, message, now);
+    return { status: 'invalid', error: message };
+  }
+
+  try {
+    const result = await refreshLongLivedToken(token);
+    const tokenExpiresAt = new Date(now.getTime() + result.expires_in * 1000);
+
+    await prisma!.threadsAccount.update({
+      where: { id: account.id },
+      data: {
+        accessToken: encryptToken(result.access_token),
+        tokenExpiresAt,
+        tokenStatus: 'valid',
+        tokenRefreshedAt: now,
+      },
+    });
+    await recordRefresh(account.id, 'success', null, tokenExpiresAt);
+
+    return { status: 'refreshed', tokenExpiresAt };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to refresh token';
+
+    // リフレッシュの失敗だけでは失効と判断せず、トークンでAPIを呼べるかを確認する
+    if (await isTokenRejected(token)) {
+      await markTokenInvalid(account, message, now);
+      return { status: 'invalid', error: message };
+    }
+
+    await recordRefresh(account.id, 'failed', message);
+    await alertIfExpiringSoon(account, now);
+    return { status: 'failed', error: message };
+  }
+}
+
+// 直前に発行・リフレッシュしたトークンは対象外（24時間経過するまでAPIがリフレッシュを受け付けない）
+export function isRefreshable(account: RefreshableAccount, now: Date): boolean {
+  const issuedAt = account.tokenRefreshedAt ?? account.updatedAt;
+  return now.getTime() - issuedAt.getTime() >= MIN_TOKEN_AGE_MS;
+}
+
+// 再認証（新しいトークンの登録）後に、トークン失効で停止した予約投稿と自動リプライを再開する
+// ユーザーが手動で停止した定期投稿（pausedReason なし）はそのまま。
+// 定期投稿は停止中に過ぎた回をまとめて投稿しないよう、次回の投稿日時を計算し直す
+export async function resumeAccountAfterReauth(accountId: string, now: Date = new Date()) {
+  const recurringPosts = await prisma!.scheduledPost.findMany({
+    where: { accountId, status: 'paused', pausedReason: 'token_invalid', isRecurring: true },
+  });
+
+  await prisma!.$transaction([
+    prisma!.threadsAccount.update({
+      where: { id: accountId },
+      data: { tokenStatus: 'valid', tokenRefreshedAt: now },
+    }),
+    prisma!.scheduledPost.updateMany({
+      where: { accountId, status: 'paused', pausedReason: 'token_invalid', isRecurring: false },
+      data: { status: 'pending', pausedReason: null, nextAttemptAt: null },
+    }),
+    ...recurringPosts.flatMap(post => {
+      let next: Date | null;
+      try {
+        const recurrence = resolveRecurrence(post);
+        if (!recurrence) return [];
+        next = getNextOccurrence(recurrence, now);
+      } catch (error) {
+        // 不正なルールの投稿は停止したままにする
+        console.error(`Invalid recurrence rule for ${post.id}:`, error);
+        return [];
+      }
+      return [prisma!.scheduledPost.update({
+        where: { id: post.id },
+        // 繰り返しが終了している場合は完了にする
+        data: next
+          ? { status: 'pending', pausedReason: null, scheduledAt: next, nextAttemptAt: null, attemptCount: 0 }
+          : { status: 'completed', pausedReason: null },
+      })];
+    }),
+    prisma!.autoReplyRule.updateMany({
+      where: { accountId, pausedReason: 'token_invalid' },
+      data: { isActive: true, pausedReason: null },
+    }),
+  ]);
+}
+
+// APIがトークンを拒否したか（通信エラーやAPI側の障害は失効とみなさない）
+async function isTokenRejected(token: string): Promise<boolean> {
+  try {
+    await new ThreadsAPIClient(token).getMe();
+    return false;
+  } catch (error) {
+    return isAuthError(error);
+  }
+}
+
+// トークンを失効として記録し、予約投稿と自動リプライを停止して再認証を促す
+// 投稿・返信の送信や同期でAPIがトークンを拒否した場合にも呼び出す
+export async function markTokenInvalid(
+  account: Pick<RefreshableAccount, 'id' | 'userId' | 'username'>,
+  message: string,
+  now: Date = new Date()
+) {
+  const [invalidated] = await prisma!.$transaction([
+    prisma!.threadsAccount.updateMany({
+      where: { id: account.id, tokenStatus: { not: 'invalid' } },
+      data: { tokenStatus: 'invalid' },
+    }),
+    prisma!.scheduledPost.updateMany({
+      where: { accountId: account.id, status: 'pending' },
+      data: { status: 'paused', pausedReason: 'token_invalid' },
+    }),
+    prisma!.autoReplyRule.updateMany({
+      where: { accountId: account.id, isActive: true },
+      data: { isActive: false, pausedReason: 'token_invalid' },
+    }),
+    prisma!.tokenRefreshLog.create({
+      data: { accountId: account.id, status: 'invalid', errorMessage: message, createdAt: now },
+    }),
+  ]);
+
+  // すでに失効として扱っているアカウントには通知しない（同じCron実行の中で複数回検出した場合も含む）
+  if (invalidated.count === 0) return;
+
+  await prisma!.notification.create({
+    data: {
+      userId: account.userId,
+      type: 'token_invalid',
+      title: `@${account.username} の再認証が必要です`,
+      message: 'アクセストークンが失効したため、予約投稿と自動リプライを停止しました。アカウント管理からトークンを登録し直すと再開します。',
+      relatedId: account.id,
+      relatedType: 'threads_account',
+    },
+  });
+}
+
+async function alertIfExpiringSoon(account: RefreshableAccount, now: Date) {
+  if (!account.tokenExpiresAt) return;
+
+  const msLeft = account.tokenExpiresAt.getTime() - now.getTime();
+  if (msLeft > EXPIRY_ALERT_DAYS * DAY_MS) return;
+
+  // 1日に1回まで
+  const recent = await prisma!.notification.findFirst({
+    where: {
+      userId: account.userId,
+      type: 'token_expiring',
+      relatedId: account.id,
+      createdAt: { gte: new Date(now.getTime() - DAY_MS) },
+    },
+  });
+  if (recent) return;
+
+  const daysLeft = Math.max(0, Math.ceil(msLeft / DAY_MS));
+  await prisma!.notification.create({
+    data: {
+      userId: account.userId,
+      type: 'token_expiring',
+      title: `@${account.username} のトークンがまもなく失効します`,
+      message: `トークンを自動でリフレッシュできませんでした（残り${daysLeft}日）。失効すると予約投稿と自動リプライが停止します。アカウント管理からトークンを登録し直してください。`,
+      relatedId: account.id,
+      relatedType: 'threads_account',
+    },
+  });
+}
+
+async function recordRefresh(
+  accountId: string,
+  status: 'success' | 'failed',
+  errorMessage: string | null,
+  expiresAt?: Date
+) {
+  await prisma!.tokenRefreshLog.create({
+    data: { accountId, status, errorMessage, expiresAt },
+  });
+}